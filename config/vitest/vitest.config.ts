@@ -1,4 +1,4 @@
-import { defineConfig } from 'vitest/config';
+import { defineConfig, type Plugin } from 'vitest/config';
 import { resolve } from 'path';
 
 const root = resolve(__dirname, '../..');
@@ -12,6 +12,21 @@ const sharedAlias = {
   '@locales': resolve(root, 'src/locales'),
 };
 
+// Mirrors the Data module rule for *.ttf in worker/wrangler.toml: importing
+// a font yields its bytes as an ArrayBuffer (vite would return a URL).
+const ttfDataModules: Plugin = {
+  name: 'ttf-data-modules',
+  enforce: 'pre',
+  load(id) {
+    if (!id.endsWith('.ttf')) return null;
+    return [
+      "import { readFileSync } from 'node:fs';",
+      `const bytes = readFileSync(${JSON.stringify(id)});`,
+      'export default bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);',
+    ].join('\n');
+  },
+};
+
 const sharedCoverage = {
   provider: 'v8' as const,
   reporter: ['text', 'json', 'html'] as const,
@@ -66,6 +81,7 @@ export default defineConfig({
             'src/components/settings/**/__tests__/**',
           ],
         },
+        plugins: [ttfDataModules],
         resolve: { alias: sharedAlias },
       },
       {
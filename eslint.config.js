@@ -40,9 +40,9 @@ export default [
     ]
   },
 
-  // Application source (frontend TS/JS + JSX/TSX)
+  // Application source (frontend TS/JS + JSX/TSX) and the browser SDK packages
   {
-    files: ['src/**/*.{ts,tsx,js,jsx}'],
+    files: ['src/**/*.{ts,tsx,js,jsx}', 'packages/*/src/**/*.ts'],
     languageOptions: {
       parser: typescriptParser,
       parserOptions: {
@@ -0,0 +1,212 @@
+/**
+ * @blawby/widget-sdk — typed programmatic API for the Blawby website widget.
+ *
+ *   import { loadBlawbyWidget } from '@blawby/widget-sdk';
+ *
+ *   const widget = await loadBlawbyWidget({ practiceSlug: 'my-law-firm', template: 'family-law' });
+ *   widget.prefill({ name: 'Ada Lovelace', email: 'ada@example.com', practiceArea: 'Family law' });
+ *   widget.on('lead_submitted', (event) => analytics.track('lead', { intake: event.intakeUuid }));
+ *   document.querySelector('#talk-to-us')?.addEventListener('click', () => widget.open());
+ *
+ * The SDK drives the hosted loader script (`/widget-loader.js`), which owns
+ * the launcher and iframe; it adds argument validation, typed events and a
+ * promise that resolves once the loader is ready. Pages that already embed
+ * the loader snippet get the same instance back.
+ */
+
+import {
+  PROTOCOL_VERSION,
+  isValidTemplateSlug,
+  normalizeIdentity,
+  normalizePrefill,
+  type WidgetIdentity,
+  type WidgetPrefill,
+} from './protocol.js';
+
+export { PROTOCOL_VERSION, type WidgetIdentity, type WidgetPrefill } from './protocol.js';
+
+export const SDK_VERSION = '1.0.0';
+
+const DEFAULT_BASE_URL = 'https://ai.blawby.com';
+const LOADER_PATH = '/widget-loader.js';
+
+export interface BlawbyWidgetOptions {
+  /** Your practice slug from Settings → Practice. */
+  practiceSlug: string;
+  /** Override the Blawby app URL. */
+  baseUrl?: string;
+  position?: 'bottom-right' | 'bottom-left';
+  /** Launcher colour as a hex string, e.g. `#1d4ed8`. */
+  primaryColor?: string;
+  /** Launcher diameter in pixels. */
+  launcherSize?: number;
+  zIndex?: number;
+  /** Accessible label for the launcher. */
+  label?: string;
+  /** Intake template slug for this page; defaults to the practice's default template. */
+  template?: string;
+  /** Details to fill in before the visitor starts. */
+  prefill?: WidgetPrefill;
+  identity?: WidgetIdentity;
+}
+
+/** Fields present on every widget event. */
+export interface BlawbyWidgetEventBase<T extends string> {
+  type: T;
+  practiceSlug: string;
+  isOpen: boolean;
+  unreadCount: number;
+  /** ISO-8601. */
+  timestamp: string;
+  /** UTM and click-id parameters captured from the landing page, if any. */
+  attribution?: Record<string, string>;
+}
+
+export interface BlawbyWidgetEventDetails {
+  widget_opened: { wasOpen: boolean };
+  widget_closed: { wasOpen: boolean };
+  chat_start: { conversationStarted: true };
+  unread_changed: { previousUnreadCount: number; unreadCount: number };
+  iframe_ready: Record<string, never>;
+  iframe_new_message: Record<string, never>;
+  iframe_close_request: Record<string, never>;
+  lead_submitted: { intakeUuid: string | null; status: string | null; requiresPayment: boolean };
+  theme_applied: { primaryColor: string; source: 'config' | 'default' | 'unknown' };
+  template_changed: { template: string | null };
+}
+
+export type BlawbyWidgetEventName = keyof BlawbyWidgetEventDetails;
+
+export type BlawbyWidgetEvent<K extends BlawbyWidgetEventName = BlawbyWidgetEventName> = {
+  [E in K]: BlawbyWidgetEventBase<E> & BlawbyWidgetEventDetails[E];
+}[K];
+
+export type BlawbyWidgetEventHandler<K extends BlawbyWidgetEventName> = (event: BlawbyWidgetEvent<K>) => void;
+
+export interface BlawbyWidget {
+  readonly sdkVersion: string;
+  readonly protocolVersion: number;
+  open(): void;
+  close(): void;
+  toggle(): void;
+  /** Merges `fields` into the prefill; applies to the next conversation the visitor starts. */
+  prefill(fields: WidgetPrefill): void;
+  /** Switches the intake template, reloading the widget. `null` restores the practice default. */
+  setTemplate(slug: string | null): void;
+  identify(identity: WidgetIdentity): void;
+  /** Subscribes to one event, or `'*'` for all; returns the unsubscribe function. */
+  on<K extends BlawbyWidgetEventName>(event: K, handler: BlawbyWidgetEventHandler<K>): () => void;
+  on(event: '*', handler: (event: BlawbyWidgetEvent) => void): () => void;
+}
+
+/** The untyped API `widget-loader.js` installs on `window.BlawbyWidget`. */
+interface LoaderHandle {
+  open(): void;
+  close(): void;
+  toggle(): void;
+  prefill?(fields: WidgetPrefill): void;
+  setTemplate?(slug: string | null): void;
+  identify?(identity: WidgetIdentity): void;
+  on(event: string, handler: (payload: unknown) => void): void;
+  off(event: string, handler: (payload: unknown) => void): void;
+}
+
+declare global {
+  interface Window {
+    BlawbyWidget?: Partial<LoaderHandle> & Record<string, unknown>;
+  }
+}
+
+const isLoaderReady = (value: Window['BlawbyWidget']): value is LoaderHandle & Record<string, unknown> =>
+  Boolean(value && typeof value.open === 'function' && typeof value.on === 'function');
+
+const requireLoaderMethod = <K extends 'prefill' | 'setTemplate' | 'identify'>(
+  handle: LoaderHandle,
+  method: K,
+): NonNullable<LoaderHandle[K]> => {
+  const fn = handle[method];
+  if (typeof fn !== 'function') {
+    throw new Error(`[BlawbyWidget] The loaded widget-loader.js does not support ${method}(); update the embed.`);
+  }
+  return fn.bind(handle) as NonNullable<LoaderHandle[K]>;
+};
+
+const wrap = (handle: LoaderHandle): BlawbyWidget => ({
+  sdkVersion: SDK_VERSION,
+  protocolVersion: PROTOCOL_VERSION,
+  open: () => handle.open(),
+  close: () => handle.close(),
+  toggle: () => handle.toggle(),
+  prefill: (fields) => requireLoaderMethod(handle, 'prefill')(normalizePrefill(fields)),
+  setTemplate: (slug) => {
+    if (slug !== null && !isValidTemplateSlug(slug)) {
+      throw new TypeError(`[BlawbyWidget] Invalid template slug: ${String(slug)}`);
+    }
+    requireLoaderMethod(handle, 'setTemplate')(slug);
+  },
+  identify: (identity) => requireLoaderMethod(handle, 'identify')(normalizeIdentity(identity)),
+  on: (event: string, handler: (payload: never) => void) => {
+    const listener = handler as (payload: unknown) => void;
+    handle.on(event, listener);
+    return () => handle.off(event, listener);
+  },
+});
+
+const validateOptions = (options: BlawbyWidgetOptions): Record<string, unknown> => {
+  if (!options || typeof options.practiceSlug !== 'string' || !options.practiceSlug.trim()) {
+    throw new TypeError('[BlawbyWidget] practiceSlug is required');
+  }
+  if (options.template !== undefined && !isValidTemplateSlug(options.template)) {
+    throw new TypeError(`[BlawbyWidget] Invalid template slug: ${options.template}`);
+  }
+  return {
+    ...options,
+    practiceSlug: options.practiceSlug.trim(),
+    ...(options.prefill ? { prefill: normalizePrefill(options.prefill) } : {}),
+    ...(options.identity ? { identity: normalizeIdentity(options.identity) } : {}),
+  };
+};
+
+let pending: Promise<BlawbyWidget> | null = null;
+
+/**
+ * Loads the widget once per page and resolves with its API. Later calls
+ * return the same instance; their options are ignored.
+ */
+export const loadBlawbyWidget = (options: BlawbyWidgetOptions): Promise<BlawbyWidget> => {
+  if (pending) return pending;
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    return Promise.reject(new Error('[BlawbyWidget] loadBlawbyWidget must run in a browser'));
+  }
+
+  let config: Record<string, unknown>;
+  try {
+    config = validateOptions(options);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  if (isLoaderReady(window.BlawbyWidget)) {
+    pending = Promise.resolve(wrap(window.BlawbyWidget));
+    return pending;
+  }
+
+  pending = new Promise<BlawbyWidget>((resolve, reject) => {
+    window.BlawbyWidget = { ...(window.BlawbyWidget ?? {}), ...config };
+    const script = document.createElement('script');
+    script.src = new URL(LOADER_PATH, (config.baseUrl as string | undefined) ?? DEFAULT_BASE_URL).toString();
+    script.async = true;
+    script.onload = () => {
+      if (isLoaderReady(window.BlawbyWidget)) {
+        resolve(wrap(window.BlawbyWidget));
+      } else {
+        reject(new Error('[BlawbyWidget] widget-loader.js loaded but did not initialise'));
+      }
+    };
+    script.onerror = () => reject(new Error(`[BlawbyWidget] Failed to load ${script.src}`));
+    document.head.appendChild(script);
+  });
+  // A failed load may be retried.
+  pending.catch(() => { pending = null; });
+  return pending;
+};
@@ -0,0 +1,197 @@
+/**
+ * postMessage protocol between the host page (widget loader / SDK) and the
+ * widget iframe.
+ *
+ * Both directions are JSON objects with a `blawby:`-prefixed `type`. Every
+ * receiver runs the parser for its direction and drops anything that does
+ * not validate, so a message from another script on the page, or from an
+ * older/newer loader, can never reach widget state half-formed.
+ *
+ * This module is imported by the SDK and by the widget app
+ * (src/app/WidgetApp.tsx), so the two sides cannot drift. It has no
+ * dependencies: the SDK ships it as-is.
+ */
+
+/**
+ * Bumped when a message changes shape incompatibly. Host → widget messages
+ * that carry data include it; the widget ignores versions it doesn't know.
+ */
+export const PROTOCOL_VERSION = 1;
+
+export const PREFILL_LIMITS = {
+  name: 200,
+  email: 254,
+  phone: 40,
+  practiceArea: 200,
+  externalId: 128,
+} as const;
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TEMPLATE_SLUG_RE = /^[a-z0-9][a-z0-9-]{0,99}$/i;
+
+/** Contact and matter details to fill in before the visitor types anything. */
+export interface WidgetPrefill {
+  name?: string;
+  email?: string;
+  phone?: string;
+  /** Practice service UUID, or its display name (matched case-insensitively). */
+  practiceArea?: string;
+}
+
+/** Who the visitor is on the host site, for correlating leads with the host's own records. */
+export interface WidgetIdentity {
+  /** The host site's own id for this visitor, e.g. a CRM contact id. */
+  externalId?: string;
+  name?: string;
+  email?: string;
+}
+
+export type HostToWidgetMessage =
+  | { type: 'blawby:open' }
+  | { type: 'blawby:close' }
+  | { type: 'blawby:attribution'; attribution: Record<string, string> }
+  | { type: 'blawby:prefill'; version: number; prefill: WidgetPrefill }
+  | { type: 'blawby:identify'; version: number; identity: WidgetIdentity };
+
+export type WidgetToHostMessage =
+  | { type: 'blawby:ready' }
+  | { type: 'blawby:new-message' }
+  | { type: 'blawby:close-request' }
+  | {
+    type: 'blawby:lead-submitted';
+    intakeUuid: string | null;
+    status: string | null;
+    requiresPayment: boolean;
+  }
+  | { type: 'blawby:open-url'; url: string };
+
+const asRecord = (value: unknown): Record<string, unknown> | null => {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : null;
+};
+
+/**
+ * Trimmed string no longer than `max`; `undefined` when absent or blank.
+ * Throws on wrong type or oversize so callers learn what they sent wrong.
+ */
+const optionalString = (record: Record<string, unknown>, key: string, max: number): string | undefined => {
+  const value = record[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw new TypeError(`${key} must be a string`);
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  if (trimmed.length > max) throw new RangeError(`${key} must be at most ${max} characters`);
+  return trimmed;
+};
+
+const optionalEmail = (record: Record<string, unknown>): string | undefined => {
+  const email = optionalString(record, 'email', PREFILL_LIMITS.email);
+  if (email !== undefined && !EMAIL_RE.test(email)) throw new TypeError('email is not a valid address');
+  return email;
+};
+
+const withoutUndefined = <T extends object>(value: T): T =>
+  Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+
+/** Validates and normalises prefill fields. Throws with a field-specific message. */
+export const normalizePrefill = (input: unknown): WidgetPrefill => {
+  const record = asRecord(input);
+  if (!record) throw new TypeError('prefill must be an object');
+  return withoutUndefined({
+    name: optionalString(record, 'name', PREFILL_LIMITS.name),
+    email: optionalEmail(record),
+    phone: optionalString(record, 'phone', PREFILL_LIMITS.phone),
+    practiceArea: optionalString(record, 'practiceArea', PREFILL_LIMITS.practiceArea),
+  });
+};
+
+/** Validates and normalises an identity. Throws with a field-specific message. */
+export const normalizeIdentity = (input: unknown): WidgetIdentity => {
+  const record = asRecord(input);
+  if (!record) throw new TypeError('identity must be an object');
+  const identity = withoutUndefined({
+    externalId: optionalString(record, 'externalId', PREFILL_LIMITS.externalId),
+    name: optionalString(record, 'name', PREFILL_LIMITS.name),
+    email: optionalEmail(record),
+  });
+  if (Object.keys(identity).length === 0) throw new TypeError('identity needs at least one of externalId, name, email');
+  return identity;
+};
+
+export const isValidTemplateSlug = (slug: unknown): slug is string =>
+  typeof slug === 'string' && TEMPLATE_SLUG_RE.test(slug);
+
+const tryNormalize = <T>(normalize: (input: unknown) => T, input: unknown): T | null => {
+  try {
+    return normalize(input);
+  } catch {
+    return null;
+  }
+};
+
+/** Parses a message the widget received from the host page. */
+export const parseHostMessage = (data: unknown): HostToWidgetMessage | null => {
+  const record = asRecord(data);
+  if (!record || typeof record.type !== 'string') return null;
+
+  switch (record.type) {
+    case 'blawby:open':
+    case 'blawby:close':
+      return { type: record.type };
+    case 'blawby:attribution': {
+      const attribution = asRecord(record.attribution);
+      if (!attribution) return null;
+      const clean: Record<string, string> = {};
+      for (const [key, value] of Object.entries(attribution)) {
+        if (typeof value === 'string' && value.trim()) clean[key] = value.trim().slice(0, 500);
+      }
+      return { type: 'blawby:attribution', attribution: clean };
+    }
+    case 'blawby:prefill': {
+      if (record.version !== PROTOCOL_VERSION) return null;
+      const prefill = tryNormalize(normalizePrefill, record.prefill);
+      return prefill ? { type: 'blawby:prefill', version: PROTOCOL_VERSION, prefill } : null;
+    }
+    case 'blawby:identify': {
+      if (record.version !== PROTOCOL_VERSION) return null;
+      const identity = tryNormalize(normalizeIdentity, record.identity);
+      return identity ? { type: 'blawby:identify', version: PROTOCOL_VERSION, identity } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+/** Parses a message the host page received from the widget iframe. */
+export const parseWidgetMessage = (data: unknown): WidgetToHostMessage | null => {
+  const record = asRecord(data);
+  if (!record || typeof record.type !== 'string') return null;
+
+  switch (record.type) {
+    case 'blawby:ready':
+    case 'blawby:new-message':
+    case 'blawby:close-request':
+      return { type: record.type };
+    case 'blawby:lead-submitted':
+      return {
+        type: 'blawby:lead-submitted',
+        intakeUuid: typeof record.intakeUuid === 'string' ? record.intakeUuid : null,
+        status: typeof record.status === 'string' ? record.status : null,
+        requiresPayment: record.requiresPayment === true,
+      };
+    case 'blawby:open-url':
+      return typeof record.url === 'string' && /^https:\/\//.test(record.url)
+        ? { type: 'blawby:open-url', url: record.url }
+        : null;
+    default:
+      return null;
+  }
+};
@@ -19,12 +19,20 @@
  *   launcherSize  – Size in pixels of the circular button (default: 56)
  *   zIndex        – CSS z-index for the widget layer      (default: 2147483647)
  *   label         – Accessible label for the launcher     (default: 'Chat with us')
+ *   template      – Intake template slug for this page    (default: practice default)
+ *   prefill       – { name, email, phone, practiceArea } to fill in up front
+ *   identity      – { externalId, name, email } for the visitor on your site
  *   onEvent       – Optional callback for all widget events
  *   onChatStart   – Optional callback for first open ('chat_start')
  *   pushDataLayerOnChatStart – Push dataLayer event on chat_start (default: false)
  *   dataLayerEventName – chat start event name            (default: 'blawby_chat_start')
  *   pushDataLayerOnLeadSubmit – Push dataLayer event on lead submit (default: false)
  *   leadSubmitEventName – lead submit event name           (default: 'blawby_lead_submitted')
+ *
+ * Programmatic API (after load): open(), close(), toggle(), prefill(fields),
+ * setTemplate(slug), identify(identity), on(event, fn), off(event, fn).
+ * For a typed wrapper, use the @blawby/widget-sdk package
+ * (packages/widget-sdk), which also defines the postMessage protocol.
  */
 
 (function (w, d) {
@@ -95,7 +103,11 @@
   if (w.location && typeof w.location.origin === 'string' && w.location.origin) {
     widgetUrlObj.searchParams.set('trusted_parent_origin', w.location.origin);
   }
-  var WIDGET_URL = widgetUrlObj.toString();
+  var TEMPLATE_SLUG_RE = /^[a-z0-9][a-z0-9-]{0,99}$/i;
+  if (typeof cfg.template === 'string' && TEMPLATE_SLUG_RE.test(cfg.template)) {
+    widgetUrlObj.searchParams.set('template', cfg.template);
+  }
+  var PROTOCOL_VERSION = 1;
   var BASE_ORIGIN = new URL(cfg.baseUrl).origin;
   var isRight = cfg.position !== 'bottom-left';
   var SIZE = cfg.launcherSize;
@@ -136,6 +148,9 @@
   var hasStartedChat = false;
   var iframeReady = false;
   var listeners = {};
+  // Kept so they can be re-sent whenever the iframe (re)loads.
+  var prefillFields = null;
+  var identity = null;
 
   /* ── Build DOM ───────────────────────────────────────────────────────── */
 
@@ -330,7 +345,64 @@
 
   function ensureIframeLoaded() {
     if (iframe.src) return;
-    iframe.src = WIDGET_URL;
+    iframe.src = widgetUrlObj.toString();
+  }
+
+  // Keeps only non-empty string fields; the iframe validates the rest.
+  function pickStrings(source, keys) {
+    if (!source || typeof source !== 'object') return null;
+    var out = {};
+    var found = false;
+    for (var i = 0; i < keys.length; i++) {
+      var value = source[keys[i]];
+      if (typeof value === 'string' && value.trim()) {
+        out[keys[i]] = value.trim();
+        found = true;
+      }
+    }
+    return found ? out : null;
+  }
+
+  function sendIdentityToIframe() {
+    if (prefillFields) {
+      postToIframe({ type: 'blawby:prefill', version: PROTOCOL_VERSION, prefill: prefillFields });
+    }
+    if (identity) {
+      postToIframe({ type: 'blawby:identify', version: PROTOCOL_VERSION, identity: identity });
+    }
+  }
+
+  function setPrefill(fields) {
+    var picked = pickStrings(fields, ['name', 'email', 'phone', 'practiceArea']);
+    if (!picked) return;
+    prefillFields = Object.assign({}, prefillFields || {}, picked);
+    if (iframeReady) sendIdentityToIframe();
+  }
+
+  function setIdentity(next) {
+    var picked = pickStrings(next, ['externalId', 'name', 'email']);
+    if (!picked) return;
+    identity = picked;
+    if (iframeReady) sendIdentityToIframe();
+  }
+
+  function setTemplate(slug) {
+    if (slug !== null && !(typeof slug === 'string' && TEMPLATE_SLUG_RE.test(slug))) {
+      console.warn('[BlawbyWidget] Invalid template slug:', slug);
+      return;
+    }
+    if ((widgetUrlObj.searchParams.get('template') || null) === slug) return;
+    if (slug) {
+      widgetUrlObj.searchParams.set('template', slug);
+    } else {
+      widgetUrlObj.searchParams.delete('template');
+    }
+    // The template is resolved at bootstrap, so switching means reloading.
+    if (iframe.src) {
+      iframeReady = false;
+      iframe.src = widgetUrlObj.toString();
+    }
+    emitEvent('template_changed', { template: slug });
   }
 
   function updateFrameSize() {
@@ -531,6 +603,7 @@
         iframeReady = true;
         postToIframe({ type: isOpen ? 'blawby:open' : 'blawby:close' });
         sendAttributionToIframe();
+        sendIdentityToIframe();
         emitEvent('iframe_ready', {});
         break;
       case 'blawby:lead-submitted':
@@ -566,10 +639,16 @@
     open:  function () { setOpen(true); },
     close: function () { setOpen(false); },
     toggle: function () { setOpen(!isOpen); },
+    prefill: function (fields) { setPrefill(fields); },
+    setTemplate: function (slug) { setTemplate(slug == null ? null : slug); },
+    identify: function (next) { setIdentity(next); },
     on: function (eventName, callback) { addListener(eventName, callback); },
     off: function (eventName, callback) { removeListener(eventName, callback); },
+    protocolVersion: PROTOCOL_VERSION,
   };
   w.BlawbyWidget = Object.assign(w.BlawbyWidget || {}, api);
+  setPrefill(cfg.prefill);
+  setIdentity(cfg.identity);
   persistAttribution();
   updateFrameSize();
   w.addEventListener('resize', updateFrameSize);
@@ -0,0 +1,183 @@
+#!/usr/bin/env node
+/**
+ * Builds the subset fonts the case summary PDF renderer embeds into
+ * worker/assets/fonts/pdf. Wrangler bundles them with the worker as Data
+ * modules; run this again whenever PDF_FONT_FILES in worker/utils/pdfText.ts
+ * or the ranges below change, and commit the output.
+ *
+ * The sources are Noto Sans faces (SIL Open Font License) from the pinned
+ * @expo-google-fonts packages, fetched with `npm pack`, so every run produces
+ * the same files. Each face is cut down with harfbuzz (subset-font) to the
+ * characters its script needs. Layout features are kept: fontkit needs them
+ * to shape Arabic, Devanagari and Thai. The CJK faces keep the national
+ * standard character sets (GB 2312, JIS X 0208, KS X 1001) plus every
+ * modern Hangul syllable.
+ *
+ * Usage:
+ *   npm run fonts:build-pdf [-- --check]
+ *
+ * --check rebuilds into a temp directory and exits non-zero when the
+ * committed fonts differ.
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TextDecoder } from 'util';
+import subsetFont from 'subset-font';
+import { PDF_FONT_FILES, type PdfFontFace } from '../worker/utils/pdfText';
+
+const PDF_FONT_DIR = 'worker/assets/fonts/pdf';
+
+interface FaceSource {
+  /** Pinned npm package with one TTF per weight. */
+  pkg: string;
+  family: string;
+  ranges: Array<[number, number]>;
+  /** Legacy charset whose double-byte table is decoded into the character set. */
+  charset?: 'gbk' | 'euc-jp' | 'euc-kr';
+}
+
+// Spaces, digits and punctuation take the face of the script next to them,
+// so every face carries them.
+const COMMON: Array<[number, number]> = [
+  [0x20, 0x7e], [0xa0, 0xff], [0x2000, 0x206f], [0x20a0, 0x20cf],
+];
+
+const CJK_COMMON: Array<[number, number]> = [
+  [0x3000, 0x303f], [0x3040, 0x30ff], [0xff00, 0xffef],
+];
+
+const SOURCES: Record<PdfFontFace, FaceSource> = {
+  sans: {
+    pkg: '@expo-google-fonts/noto-sans@0.4.2',
+    family: 'NotoSans',
+    // Latin (incl. Vietnamese), IPA and combining marks, Greek, Cyrillic, symbols.
+    ranges: [
+      [0x100, 0x24f], [0x250, 0x36f], [0x370, 0x3ff], [0x400, 0x52f], [0x1e00, 0x1eff],
+      [0x2100, 0x214f], [0x2190, 0x21ff], [0x2200, 0x22ff],
+    ],
+  },
+  arabic: {
+    pkg: '@expo-google-fonts/noto-sans-arabic@0.4.3',
+    family: 'NotoSansArabic',
+    ranges: [[0x600, 0x6ff], [0x750, 0x77f], [0x8a0, 0x8ff], [0xfb50, 0xfdff], [0xfe70, 0xfeff]],
+  },
+  devanagari: {
+    pkg: '@expo-google-fonts/noto-sans-devanagari@0.4.1',
+    family: 'NotoSansDevanagari',
+    // 25CC is the dotted circle fontkit draws under an orphaned vowel sign.
+    ranges: [[0x900, 0x97f], [0xa8e0, 0xa8ff], [0x1cd0, 0x1cff], [0x25cc, 0x25cc]],
+  },
+  thai: {
+    pkg: '@expo-google-fonts/noto-sans-thai@0.4.2',
+    family: 'NotoSansThai',
+    ranges: [[0xe00, 0xe7f], [0x25cc, 0x25cc]],
+  },
+  sc: {
+    pkg: '@expo-google-fonts/noto-sans-sc@0.4.3',
+    family: 'NotoSansSC',
+    ranges: CJK_COMMON,
+    charset: 'gbk',
+  },
+  jp: {
+    pkg: '@expo-google-fonts/noto-sans-jp@0.4.3',
+    family: 'NotoSansJP',
+    ranges: [...CJK_COMMON, [0x31f0, 0x31ff]],
+    charset: 'euc-jp',
+  },
+  kr: {
+    pkg: '@expo-google-fonts/noto-sans-kr@0.4.3',
+    family: 'NotoSansKR',
+    ranges: [...CJK_COMMON, [0x1100, 0x11ff], [0x3130, 0x318f], [0xac00, 0xd7a3]],
+    charset: 'euc-kr',
+  },
+};
+
+const WEIGHT_DIRS = { regular: '400Regular', bold: '700Bold' } as const;
+
+// Keep the copyright, license and license URL names the OFL asks to ship.
+const PRESERVED_NAME_IDS = [0, 13, 14];
+
+/** Every character of a legacy charset's double-byte table (lead and trail bytes A1–FE). */
+const charsetCharacters = (charset: NonNullable<FaceSource['charset']>): string[] => {
+  const decoder = new TextDecoder(charset);
+  const chars: string[] = [];
+  for (let lead = 0xa1; lead <= 0xfe; lead++) {
+    for (let trail = 0xa1; trail <= 0xfe; trail++) {
+      const char = decoder.decode(new Uint8Array([lead, trail]));
+      if (char.length > 0 && char !== '�') chars.push(char);
+    }
+  }
+  return chars;
+};
+
+const faceText = (source: FaceSource): string => {
+  const chars = new Set<string>();
+  for (const [start, end] of [...COMMON, ...source.ranges]) {
+    for (let codePoint = start; codePoint <= end; codePoint++) chars.add(String.fromCodePoint(codePoint));
+  }
+  if (source.charset) charsetCharacters(source.charset).forEach((char) => chars.add(char));
+  return Array.from(chars).join('');
+};
+
+/** Unpacks `pkg` from the npm registry into `tmp` and returns the package directory. */
+const fetchPackage = (pkg: string, tmp: string): string => {
+  const dir = fs.mkdtempSync(path.join(tmp, 'pkg-'));
+  const tarball = execFileSync('npm', ['pack', pkg, '--silent', '--pack-destination', dir], { encoding: 'utf8' })
+    .trim().split('\n').pop() ?? '';
+  execFileSync('tar', ['-xzf', path.join(dir, tarball), '-C', dir]);
+  return path.join(dir, 'package');
+};
+
+async function build(outDir: string, tmp: string) {
+  fs.mkdirSync(outDir, { recursive: true });
+  let license: string | null = null;
+  for (const [face, files] of Object.entries(PDF_FONT_FILES) as Array<[PdfFontFace, typeof PDF_FONT_FILES[PdfFontFace]]>) {
+    const source = SOURCES[face];
+    const packageDir = fetchPackage(source.pkg, tmp);
+    license ??= fs.readFileSync(path.join(packageDir, 'LICENSE_FONT'), 'utf8');
+    const text = faceText(source);
+    for (const weight of ['regular', 'bold'] as const) {
+      const file = files[weight];
+      if (!file) continue;
+      const input = fs.readFileSync(path.join(packageDir, WEIGHT_DIRS[weight], `${source.family}_${WEIGHT_DIRS[weight]}.ttf`));
+      const output = await subsetFont(input, text, {
+        targetFormat: 'truetype',
+        preserveNameIds: PRESERVED_NAME_IDS,
+        noHinting: true,
+      });
+      fs.writeFileSync(path.join(outDir, file), output);
+      console.log(`${file}: ${(output.length / 1024).toFixed(0)} KiB`);
+    }
+  }
+  if (license) fs.writeFileSync(path.join(outDir, 'OFL.txt'), license);
+}
+
+async function main() {
+  const check = process.argv.includes('--check');
+  const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'pdf-fonts-'));
+  try {
+    const outDir = check ? path.join(tmp, 'out') : PDF_FONT_DIR;
+    await build(outDir, tmp);
+    if (check) {
+      const stale = fs.readdirSync(outDir).filter((file) => {
+        const committed = path.join(PDF_FONT_DIR, file);
+        return !fs.existsSync(committed) || !fs.readFileSync(committed).equals(fs.readFileSync(path.join(outDir, file)));
+      });
+      if (stale.length > 0) {
+        console.error(`Out of date in ${PDF_FONT_DIR}:\n  ${stale.join('\n  ')}\nRun npm run fonts:build-pdf.`);
+        process.exit(1);
+      }
+      console.log(`${PDF_FONT_DIR} is up to date`);
+    }
+  } finally {
+    fs.rmSync(tmp, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
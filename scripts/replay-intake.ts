@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+/**
+ * Offline replay of recorded intake conversations against the current
+ * intake prompt, tools and orchestration code. Run before shipping prompt or
+ * tool-schema changes; exits non-zero when any turn diverges.
+ *
+ * Input files are intake timelines as returned by the admin inspector
+ * (GET /api/admin/intake-events/:conversationId), or a bare array of turns.
+ *
+ * Usage:
+ *   npm run replay:intake -- <timeline.json> [more.json ...] [--json]
+ *   # or
+ *   tsx scripts/replay-intake.ts .tmp/intake/*.json
+ */
+
+import * as fs from 'fs';
+import {
+  formatIntakeReplayReport,
+  replayIntakeConversation,
+  type IntakeReplayConversationReport,
+} from '../worker/routes/aiChatIntakeReplay';
+import type { IntakeEventTurn } from '../worker/types/intakeEvent';
+
+const readTurns = (file: string): IntakeEventTurn[] => {
+  const parsed: unknown = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (Array.isArray(parsed)) return parsed as IntakeEventTurn[];
+  if (parsed && typeof parsed === 'object' && Array.isArray((parsed as { turns?: unknown }).turns)) {
+    return (parsed as { turns: IntakeEventTurn[] }).turns;
+  }
+  throw new Error(`${file}: expected an intake timeline ({ turns: [...] }) or an array of turns`);
+};
+
+function main() {
+  const args = process.argv.slice(2);
+  const asJson = args.includes('--json');
+  const files = args.filter((arg) => arg !== '--json');
+  if (files.length === 0) {
+    console.error('Usage: tsx scripts/replay-intake.ts <timeline.json> [more.json ...] [--json]');
+    process.exit(2);
+  }
+
+  const reports: IntakeReplayConversationReport[] = files.map((file) => replayIntakeConversation(readTurns(file)));
+
+  console.log(asJson ? JSON.stringify(reports, null, 2) : formatIntakeReplayReport(reports));
+  process.exit(reports.some((report) => report.diverged > 0) ? 1 : 0);
+}
+
+main();
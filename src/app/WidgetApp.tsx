@@ -16,7 +16,8 @@ import { useMessageHandling } from '@/shared/hooks/useMessageHandling';
 import { useConversationSystemMessages } from '@/shared/hooks/useConversationSystemMessages';
 import { ChatActionCard } from '@/features/chat/components/ChatActionCard';
 import { createConversation } from '@/shared/lib/conversationApi';
-import { postToParentFrame, resolveAllowedParentOrigins } from '@/shared/utils/widgetEvents';
+import { buildHostPrefillMetadata, postToParentFrame, resolveAllowedParentOrigins, type WidgetHostPrefill } from '@/shared/utils/widgetEvents';
+import { parseHostMessage } from '../../packages/widget-sdk/src/protocol';
 import { setupGlobalKeyboardListeners } from '@/shared/utils/keyboard';
 import { formatRelativeTime } from '@/features/matters/utils/formatRelativeTime';
 import { resolveConversationContactName, resolveConversationDisplayTitle } from '@/shared/utils/conversationDisplay';
@@ -99,6 +100,10 @@ export const WidgetApp: FunctionComponent<WidgetAppProps> = ({
   const [isInspectorOpen, setIsInspectorOpen] = useState(false);
   const [isPaymentAuthPromptOpen, setIsPaymentAuthPromptOpen] = useState(false);
   const widgetVisibleRef = useRef(false);
+  // Set by the host page through prefill() / identify(); read when the next
+  // conversation is created.
+  const hostPrefillRef = useRef<WidgetHostPrefill>({ prefill: {}, identity: null });
+  const practiceServicesRef = useRef<unknown>(null);
 
   // Remove previousViewRef and view tracking
   const showErrorRef = useRef<((msg: string) => void) | null>(null);
@@ -144,6 +149,7 @@ export const WidgetApp: FunctionComponent<WidgetAppProps> = ({
             ...(preSelectedServiceUuid
               ? { intakeConversationState: { practiceServiceUuid: preSelectedServiceUuid } }
               : {}),
+            ...buildHostPrefillMetadata(hostPrefillRef.current, practiceServicesRef.current),
           },
         });
         locallyCreatedConversationIds.current.add(newId);
@@ -169,6 +175,7 @@ export const WidgetApp: FunctionComponent<WidgetAppProps> = ({
   // Use reactive practice details from store to ensure re-renders on updates
   const practiceDetailsMap = useStore(practiceDetailsStore);
   const cachedPracticeDetails = practiceDetailsMap[practiceId] || practiceDetails;
+  practiceServicesRef.current = cachedPracticeDetails?.services ?? null;
 
   // Fetch conversations to show "Recent Message" on home page and for the list view.
   // include=latest_message hands us the preview text on the list response so we
@@ -502,24 +509,22 @@ export const WidgetApp: FunctionComponent<WidgetAppProps> = ({
       }
       if (!allowedOrigins.includes(event.origin)) return;
 
-      let data: unknown = event.data;
-      if (typeof data === 'string') {
-        try {
-          data = JSON.parse(data);
-        } catch {
-          return;
-        }
-      }
-      if (!data || typeof data !== 'object') return;
-      const type = (data as { type?: unknown }).type;
-      if (typeof type !== 'string') return;
+      const message = parseHostMessage(event.data);
+      if (!message) return;
 
-      if (type === 'blawby:open') {
+      if (message.type === 'blawby:open') {
         widgetVisibleRef.current = true;
-      } else if (type === 'blawby:close') {
+      } else if (message.type === 'blawby:close') {
         widgetVisibleRef.current = false;
-      } else if (type === 'blawby:attribution') {
+      } else if (message.type === 'blawby:attribution') {
         // Handle attribution if needed
+      } else if (message.type === 'blawby:prefill') {
+        hostPrefillRef.current = {
+          ...hostPrefillRef.current,
+          prefill: { ...hostPrefillRef.current.prefill, ...message.prefill },
+        };
+      } else if (message.type === 'blawby:identify') {
+        hostPrefillRef.current = { ...hostPrefillRef.current, identity: message.identity };
       }
     };
 
@@ -12,6 +12,7 @@ import type { WidgetPreviewConfig, WidgetPreviewScenario } from '@/shared/types/
 import type { ChatMessageUI, FileAttachment } from '../../worker/types';
 import type { MinorAmount } from '@/shared/utils/money';
 import { IntakeProvider } from '@/shared/contexts/IntakeContext';
+import { getFieldType, isChoiceFieldType } from '@/shared/utils/intakeFieldTypes';
 
 type WidgetPreviewAppProps = {
   practiceId: string;
@@ -77,6 +78,10 @@ const MOCK_DATE_REPLIES = ['January 15, 2024', 'Last week', 'About a month ago',
 const MOCK_NUMBER_REPLIES = ['5', '1000', '3', '2', 'About 10'];
 const MOCK_CITY_REPLIES = ['Los Angeles', 'New York', 'Chicago', 'Houston', 'Phoenix'];
 const MOCK_STATE_REPLIES = ['California', 'New York', 'Texas', 'Florida', 'Illinois'];
+const MOCK_CURRENCY_REPLIES = ['$2,500', 'About $10,000', '$750', 'Around $40,000', '$1,200'];
+const MOCK_ADDRESS_REPLIES = ['742 Evergreen Terrace, Springfield, IL', '1600 Main St, Austin, TX 78701', '55 Water St, Brooklyn, NY'];
+const MOCK_PHONE_REPLIES = ['(555) 014-2190', '555-201-7733', '+1 555 860 1144'];
+const MOCK_EMAIL_REPLIES = ['jane@example.com', 'sam.client@example.com', 'alex.r@example.com'];
 const MOCK_TIME_REPLIES = ['Last week', 'About a month ago', 'Two days ago', 'Yesterday', 'In January'];
 const MOCK_COUNT_REPLIES = ['5', 'About 10', '2 or 3', 'Several', 'Around 7'];
 const MOCK_TEXT_REPLIES = [
@@ -94,12 +99,23 @@ const generateMockReply = (
   const seed = field.key;
   const lowerPrompt = prompt.toLowerCase();
 
-  if (field.type === 'select' && field.options && field.options.length > 0) {
+  const fieldType = getFieldType(field);
+
+  if (isChoiceFieldType(fieldType) && field.options && field.options.length > 0) {
+    if (fieldType === 'multiselect' && field.options.length > 1) {
+      const first = hashIndex(seed, field.options.length);
+      return `${field.options[first]} and ${field.options[(first + 1) % field.options.length]}`;
+    }
     return field.options[hashIndex(seed, field.options.length)];
   }
-  if (field.type === 'date') return MOCK_DATE_REPLIES[hashIndex(seed, MOCK_DATE_REPLIES.length)];
-  if (field.type === 'boolean') return hashIndex(seed, 2) === 0 ? 'Yes' : 'No';
-  if (field.type === 'number') return MOCK_NUMBER_REPLIES[hashIndex(seed, MOCK_NUMBER_REPLIES.length)];
+  if (fieldType === 'date') return MOCK_DATE_REPLIES[hashIndex(seed, MOCK_DATE_REPLIES.length)];
+  if (fieldType === 'boolean') return hashIndex(seed, 2) === 0 ? 'Yes' : 'No';
+  if (fieldType === 'number') return MOCK_NUMBER_REPLIES[hashIndex(seed, MOCK_NUMBER_REPLIES.length)];
+  if (fieldType === 'currency') return MOCK_CURRENCY_REPLIES[hashIndex(seed, MOCK_CURRENCY_REPLIES.length)];
+  if (fieldType === 'address') return MOCK_ADDRESS_REPLIES[hashIndex(seed, MOCK_ADDRESS_REPLIES.length)];
+  if (fieldType === 'phone') return MOCK_PHONE_REPLIES[hashIndex(seed, MOCK_PHONE_REPLIES.length)];
+  if (fieldType === 'email') return MOCK_EMAIL_REPLIES[hashIndex(seed, MOCK_EMAIL_REPLIES.length)];
+  if (fieldType === 'file_upload') return "I've attached it.";
   if (lowerPrompt.includes('city')) return MOCK_CITY_REPLIES[hashIndex(seed, MOCK_CITY_REPLIES.length)];
   if (lowerPrompt.includes('state')) return MOCK_STATE_REPLIES[hashIndex(seed, MOCK_STATE_REPLIES.length)];
   if (lowerPrompt.includes('when') || lowerPrompt.includes('date') || lowerPrompt.includes('time')) {
@@ -150,6 +150,11 @@ export const getConversationLinkEndpoint = (conversationId: string) => {
   return `${getWorkerApiUrl()}/api/conversations/${encodeURIComponent(conversationId)}/link`;
 };
 
+export const getConversationExportEndpoint = (conversationId: string) => {
+  const config = getApiConfig();
+  return `${config.baseUrl}/api/conversations/${encodeURIComponent(conversationId)}/export`;
+};
+
 // Conversation message endpoints - handled by local worker
 export const getConversationMessagesEndpoint = (conversationId: string) => {
   const config = getApiConfig();
@@ -94,6 +94,45 @@ export const intakeTemplatesPath = (practiceId: string): string =>
 export const intakeTemplatePath = (practiceId: string, templateId: string): string =>
 	`${intakeTemplatesPath(practiceId)}/${encodeSegment(templateId)}`;
 
+export const intakeTemplateAnalyticsPath = (practiceId: string, templateSlug: string): string =>
+	`${intakeTemplatePath(practiceId, templateSlug)}/analytics`;
+
+export const intakeExperimentsPath = (practiceId: string): string =>
+	`/api/practice/${encodeSegment(practiceId)}/intake-experiments`;
+
+export const intakeExperimentPath = (practiceId: string, experimentId: string): string =>
+	`${intakeExperimentsPath(practiceId)}/${encodeSegment(experimentId)}`;
+
+export const conflictChecksPath = (practiceId: string): string =>
+	`/api/practice/${encodeSegment(practiceId)}/conflict-checks`;
+
+export const conflictCheckPath = (practiceId: string, checkId: string): string =>
+	`${conflictChecksPath(practiceId)}/${encodeSegment(checkId)}`;
+
+export const conflictCheckHitPath = (practiceId: string, checkId: string, hitId: string): string =>
+	`${conflictCheckPath(practiceId, checkId)}/hits/${encodeSegment(hitId)}`;
+
+export const trustCompliancePath = (practiceId: string): string =>
+	`/api/practice/${encodeSegment(practiceId)}/trust-compliance`;
+
+export const trustComplianceEvaluationsPath = (practiceId: string): string =>
+	`${trustCompliancePath(practiceId)}/evaluations`;
+
+export const trustReconciliationPath = (practiceId: string): string =>
+	`/api/practice/${encodeSegment(practiceId)}/trust-reconciliation`;
+
+export const trustBankStatementsPath = (practiceId: string): string =>
+	`${trustReconciliationPath(practiceId)}/statements`;
+
+export const trustBankStatementPath = (practiceId: string, statementId: string): string =>
+	`${trustBankStatementsPath(practiceId)}/${encodeSegment(statementId)}`;
+
+export const trustBankLinePath = (practiceId: string, lineId: string): string =>
+	`${trustReconciliationPath(practiceId)}/lines/${encodeSegment(lineId)}`;
+
+export const trustReconciliationReportPath = (practiceId: string): string =>
+	`${trustReconciliationPath(practiceId)}/report`;
+
 export const matterCollectionPath = (practiceId: string): string => `/api/matters/${encodeSegment(practiceId)}`;
 
 export const matterItemPath = (practiceId: string, matterId: string): string =>
@@ -280,12 +319,33 @@ export const practiceAssistantDecision = (
 ): string =>
 	`/api/ai/practice-assistant/actions/${encodeSegment(actionId)}/${decision}`;
 
+export const practiceStagedAction = (practiceId: string, actionId: string): string =>
+	`/api/practice/${encodeSegment(practiceId)}/staged-actions/${encodeSegment(actionId)}`;
+
+export const practiceStagedActionComments = (practiceId: string, actionId: string): string =>
+	`${practiceStagedAction(practiceId, actionId)}/comments`;
+
+export const practiceUsage = (practiceId: string): string =>
+	`/api/practice/${encodeSegment(practiceId)}/usage`;
+
+export const practiceAiUsage = (practiceId: string): string =>
+	`/api/practice/${encodeSegment(practiceId)}/ai-usage`;
+
+/** In-app page where approvers review a staged action and its approval trail. */
+export const stagedActionApprovalPath = (practiceId: string, actionId: string): string =>
+	`/approve/${encodeSegment(practiceId)}/${encodeSegment(actionId)}`;
+
 export const urls = {
 	clientIntakes,
 	clientIntake,
 	clientIntakeStatus,
 	clientIntakeInvite,
 	practiceAssistantDecision,
+	practiceStagedAction,
+	practiceStagedActionComments,
+	stagedActionApprovalPath,
+	practiceUsage,
+	practiceAiUsage,
 	invoices: (practiceId: string) => `/api/invoices/${encodeURIComponent(practiceId)}`,
 	invoice: (practiceId: string, invoiceId: string) => `/api/invoices/${encodeURIComponent(practiceId)}/${encodeURIComponent(invoiceId)}`,
 	createInvoice: (practiceId: string) => `/api/invoices/${encodeURIComponent(practiceId)}`,
@@ -22,6 +22,7 @@ import {
   InspectorHeaderHero,
 } from '@/shared/ui/inspector/InspectorPrimitives';
 import { SetupInspectorContent } from '@/shared/ui/inspector/SetupInspectorContent';
+import { ConversationTranscriptExport } from '@/features/chat/components/ConversationTranscriptExport';
 import { useSessionContext } from '@/shared/contexts/SessionContext';
 import { CONTACT_RELATIONSHIP_STATUS_LABELS } from '@/shared/domain/contacts';
 import type { IntakeConversationState, DerivedIntakeStatus } from '@/shared/types/intake';
@@ -856,6 +857,14 @@ export const ConversationInspector = ({
                 </div>
               </InspectorEditableRow>
             </InspectorGroup>
+            {conversation?.id ? (
+              <InspectorGroup label="Transcript">
+                <ConversationTranscriptExport
+                  conversationId={conversation.id}
+                  matterId={conversationMatterId}
+                />
+              </InspectorGroup>
+            ) : null}
           </div>
         )}
       </div>
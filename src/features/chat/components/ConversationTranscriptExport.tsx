@@ -0,0 +1,91 @@
+import { useState } from 'preact/hooks';
+import { downloadConversationTranscript, saveConversationTranscriptToMatter } from '@/shared/lib/apiClient';
+import type { TranscriptExportFormat } from '@/shared/types/wire';
+import { useToastContext } from '@/shared/contexts/ToastContext';
+import { Button } from '@/shared/ui/Button';
+
+export interface ConversationTranscriptExportProps {
+  conversationId: string;
+  /** Linked matter, if any; enables "Save to matter". */
+  matterId: string | null;
+}
+
+const DOWNLOAD_FORMATS: Array<{ format: TranscriptExportFormat; label: string }> = [
+  { format: 'pdf', label: 'PDF' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' },
+];
+
+const triggerDownload = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  try {
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Transcript export actions for staff: download the whole conversation as
+ * PDF, HTML or JSON, or file a PDF copy into the linked matter.
+ */
+export const ConversationTranscriptExport = ({ conversationId, matterId }: ConversationTranscriptExportProps) => {
+  const { showSuccess, showError } = useToastContext();
+  const [pending, setPending] = useState<TranscriptExportFormat | 'matter' | null>(null);
+
+  const handleDownload = async (format: TranscriptExportFormat) => {
+    setPending(format);
+    try {
+      const { blob, filename } = await downloadConversationTranscript(conversationId, format);
+      triggerDownload(blob, filename);
+    } catch (err) {
+      showError('Export failed', err instanceof Error ? err.message : undefined);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleSaveToMatter = async () => {
+    setPending('matter');
+    try {
+      const result = await saveConversationTranscriptToMatter(conversationId, 'pdf');
+      showSuccess('Transcript saved', `${result.fileName} was added to the matter's files.`);
+    } catch (err) {
+      showError('Could not save transcript', err instanceof Error ? err.message : undefined);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-5 py-2">
+      {DOWNLOAD_FORMATS.map(({ format, label }) => (
+        <Button
+          key={format}
+          variant="secondary"
+          size="xs"
+          disabled={pending !== null}
+          onClick={() => { void handleDownload(format); }}
+          aria-label={`Download transcript as ${label}`}
+        >
+          {label}
+        </Button>
+      ))}
+      {matterId ? (
+        <Button
+          variant="accent-ghost"
+          size="xs"
+          disabled={pending !== null}
+          onClick={() => { void handleSaveToMatter(); }}
+        >
+          Save PDF to matter
+        </Button>
+      ) : null}
+    </div>
+  );
+};
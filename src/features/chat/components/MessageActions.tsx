@@ -152,11 +152,15 @@ export const MessageActions: FunctionComponent<MessageActionsProps> = ({
 			const pendingKey = `${actionId}:${decision}`;
 			setPendingPracticeAssistantDecision(pendingKey);
 			try {
-				await apiClient.post(
+				const { data } = await apiClient.post<{ data?: { action?: { status?: string } } }>(
 					practiceAssistantDecision(actionId, decision),
 					{ practiceId },
 				);
 				setResolvedPracticeAssistantActionIds((prev) => new Set(prev).add(actionId));
+				if (decision === 'approve' && data?.data?.action?.status === 'pending') {
+					showSuccess('Approval recorded', 'More approvals are needed before this action runs.');
+					return;
+				}
 				showSuccess(
 					decision === 'approve' ? 'Assistant action approved' : 'Assistant action rejected',
 					decision === 'approve' ? 'The approved action has been executed.' : 'The proposed action was rejected.',
@@ -26,6 +26,7 @@ import { LeftRail, BrandMark, FocusDrawer, type LeftRailItem } from '@/design-sy
 import { OrgSwitcherMenu } from '@/shared/ui/nav/OrgSwitcherMenu';
 import { SidebarProfileMenu } from '@/shared/ui/nav/SidebarProfileMenu';
 import { GlobalSearchTrigger } from '@/features/search/components/GlobalSearchTrigger';
+import { usePinnedSearchRailItems } from '@/features/search/hooks/usePinnedSearchRailItems';
 import { signOut } from '@/shared/utils/auth';
 import { Icon, type IconComponent } from '@/shared/ui/Icon';
 import { WorkspaceMainPane } from '@/shared/ui/layout/WorkspaceMainPane';
@@ -47,6 +48,7 @@ import { useWorkspaceAutoNavigation } from './hooks/useWorkspaceAutoNavigation';
 import { useRecentMessage } from './hooks/useRecentMessage';
 import { useToastContext } from '@/shared/contexts/ToastContext';
 import { useSessionContext, useMemberRoleContext } from '@/shared/contexts/SessionContext';
+import { usePresenceContext } from '@/shared/contexts/PresenceContext';
 import { normalizePracticeRole } from '@/shared/utils/practiceRoles';
 import { isAssistantConversation } from '@/shared/utils/conversationSurface';
 import {
@@ -295,6 +297,7 @@ const WorkspacePage: FunctionComponent<WorkspacePageProps> = ({
   );
   const isPracticeWorkspace = workspace === 'practice';
   const isClientWorkspace = workspace === 'client';
+  const presence = usePresenceContext();
 
   const { session, isPending: isSessionPending, isAnonymous } = useSessionContext();
   const { activeMemberRole } = useMemberRoleContext();
@@ -1051,6 +1054,20 @@ const WorkspacePage: FunctionComponent<WorkspacePageProps> = ({
       prefetch: item.prefetch,
     }));
   }, [navConfig.rail, practiceSlug, sidebarCounts]);
+  // Pinned saved searches sit under the main rail with their live counts.
+  const pinnedSearchRailItems = usePinnedSearchRailItems(
+    isPracticeWorkspace ? practiceId : null,
+    sidebarCounts,
+    normalizedBase ?? '/',
+  );
+  const primaryRailSections = useMemo(() => (
+    pinnedSearchRailItems.length > 0
+      ? [
+        { id: 'primary', items: railItems },
+        { id: 'saved-searches', label: 'Saved searches', items: pinnedSearchRailItems },
+      ]
+      : null
+  ), [pinnedSearchRailItems, railItems]);
   const brandRow = sidebarOrg && currentPractice?.id && practiceSlug ? (
     <OrgSwitcherMenu
       org={{
@@ -1081,6 +1098,8 @@ const WorkspacePage: FunctionComponent<WorkspacePageProps> = ({
   const profileFooter = sidebarUser ? (
     <SidebarProfileMenu
       user={sidebarUser}
+      busy={presence.isBusy}
+      onBusyChange={isPracticeWorkspace ? presence.setBusy : undefined}
       onAccount={() => practiceSlug && navigate(`${normalizedBase}/settings/account`)}
       onSettings={() => practiceSlug && navigate(`${normalizedBase}/settings/general`)}
       onSignOut={() => void signOut({ navigate })}
@@ -1690,7 +1709,9 @@ const WorkspacePage: FunctionComponent<WorkspacePageProps> = ({
         {showLeftRail && (
           <LeftRail
             variant="desktop"
-            {...(shouldUseSectionSidebar ? { sections: sectionSidebarSections } : { items: railItems })}
+            {...(shouldUseSectionSidebar
+              ? { sections: sectionSidebarSections }
+              : primaryRailSections ? { sections: primaryRailSections } : { items: railItems })}
             activeHref={activeHref}
             onItemActivate={handleNavActivate}
             brandMark={sectionSidebarHeader}
@@ -1766,7 +1787,7 @@ const WorkspacePage: FunctionComponent<WorkspacePageProps> = ({
           ) : null}
           {(shouldUseSectionSidebar
             ? sectionSidebarSections.flatMap((section) => section.items)
-            : railItems
+            : [...railItems, ...pinnedSearchRailItems]
           ).map((item) => {
             const isActive = item.isActive !== undefined ? item.isActive : isRailHrefActive(activeHref, item);
             return (
@@ -0,0 +1,53 @@
+import { conflictCheckHitPath, conflictCheckPath, conflictChecksPath } from '@/config/urls';
+import { apiClient, unwrapApiResponse } from '@/shared/lib/apiClient';
+import type {
+  ConflictCheck,
+  ConflictCheckStatus,
+  ConflictCheckSummary,
+  RunConflictCheckRequest,
+} from '@/shared/types/wire';
+
+// Worker-owned (/api/practice/:id/conflict-checks); types come from the wire
+// schemas in worker/types/wire/conflictCheck.ts.
+
+export async function listConflictChecks(
+  practiceId: string,
+  filters: { intakeUuid?: string | null; status?: ConflictCheckStatus | null; limit?: number } = {},
+  signal?: AbortSignal,
+): Promise<ConflictCheckSummary[]> {
+  const params: Record<string, string> = {};
+  if (filters.intakeUuid) params.intakeUuid = filters.intakeUuid;
+  if (filters.status) params.status = filters.status;
+  if (filters.limit) params.limit = String(filters.limit);
+  const { data } = await apiClient.get<unknown>(conflictChecksPath(practiceId), { params, signal });
+  return unwrapApiResponse<ConflictCheckSummary[]>(data);
+}
+
+export async function getConflictCheck(
+  practiceId: string,
+  checkId: string,
+  signal?: AbortSignal,
+): Promise<ConflictCheck> {
+  const { data } = await apiClient.get<unknown>(conflictCheckPath(practiceId, checkId), { signal });
+  return unwrapApiResponse<ConflictCheck>(data);
+}
+
+/** Runs a fresh check; pass `intakeUuid` so the intake's own parties are not reported. */
+export async function runConflictCheck(
+  practiceId: string,
+  input: Partial<RunConflictCheckRequest>,
+): Promise<ConflictCheck> {
+  const { data } = await apiClient.post<unknown>(conflictChecksPath(practiceId), input);
+  return unwrapApiResponse<ConflictCheck>(data, 'Failed to run conflict check');
+}
+
+/** Attorney-only: records a cleared/confirmed decision on one hit and returns the re-derived check. */
+export async function decideConflictHit(
+  practiceId: string,
+  checkId: string,
+  hitId: string,
+  input: { decision: 'cleared' | 'confirmed'; note: string },
+): Promise<ConflictCheck> {
+  const { data } = await apiClient.post<unknown>(conflictCheckHitPath(practiceId, checkId, hitId), input);
+  return unwrapApiResponse<ConflictCheck>(data, 'Failed to record decision');
+}
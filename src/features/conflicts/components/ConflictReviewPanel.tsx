@@ -0,0 +1,255 @@
+/**
+ * ConflictReviewPanel — the conflict-of-interest check for one intake.
+ *
+ * Shows the latest check's status and every hit with its evidence (the name
+ * that matched, where it was indexed from, score and match reasons). An
+ * attorney clears or confirms each hit with a required note; the decision
+ * trail underneath is the audit record and is never edited. "Re-run"
+ * starts a fresh check against the current index, e.g. after new matters
+ * were opened.
+ */
+
+import { useState } from 'preact/hooks';
+import { Button } from '@/shared/ui/Button';
+import { Textarea } from '@/shared/ui/input';
+import { LoadingBlock } from '@/shared/ui/layout';
+import { Pill, type PillTone } from '@/design-system/primitives';
+import { useToastContext } from '@/shared/contexts/ToastContext';
+import { queryCache } from '@/shared/lib/queryCache';
+import { formatRelativeTime } from '@/features/matters/utils/formatRelativeTime';
+import { decideConflictHit, runConflictCheck } from '@/features/conflicts/api/conflictChecksApi';
+import { intakeConflictCheckCacheKey, useIntakeConflictCheck } from '@/features/conflicts/hooks/useConflictCheck';
+import type {
+  ConflictCheck,
+  ConflictCheckStatus,
+  ConflictHit,
+  ConflictMatchReason,
+  ConflictPartyRole,
+} from '@/shared/types/wire';
+
+export const CONFLICT_STATUS_PILLS: Record<ConflictCheckStatus, { tone: PillTone; label: string }> = {
+  clear: { tone: 'live', label: 'Clear' },
+  review_required: { tone: 'warn', label: 'Review required' },
+  conflicted: { tone: 'urgent', label: 'Conflicted' },
+  insufficient_data: { tone: 'dim', label: 'No names to check' },
+};
+
+const ROLE_LABELS: Record<ConflictPartyRole, string> = {
+  client: 'client',
+  opposing_party: 'opposing party',
+  related_party: 'related party',
+  matter_participant: 'matter participant',
+};
+
+const REASON_LABELS: Record<ConflictMatchReason, string> = {
+  exact: 'exact',
+  reordered: 'name order',
+  nickname: 'nickname',
+  initial: 'initial',
+  phonetic: 'sounds alike',
+  fuzzy: 'similar spelling',
+};
+
+const SOURCE_LABELS: Record<ConflictHit['sourceType'], string> = {
+  client: 'Client',
+  matter: 'Matter',
+  intake: 'Intake',
+};
+
+type ConflictReviewPanelProps = {
+  practiceId: string;
+  intakeUuid: string;
+  conversationId?: string | null;
+  /** Used when re-running a check that has never run for this intake. */
+  fallbackNames?: readonly string[];
+  clientName?: string | null;
+  opposingParty?: string | null;
+};
+
+export function ConflictReviewPanel({
+  practiceId,
+  intakeUuid,
+  conversationId,
+  fallbackNames = [],
+  clientName,
+  opposingParty,
+}: ConflictReviewPanelProps) {
+  const { showError } = useToastContext();
+  const { data: check, isLoading, error } = useIntakeConflictCheck(practiceId, intakeUuid);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const store = (next: ConflictCheck) => {
+    const cacheKey = intakeConflictCheckCacheKey(practiceId, intakeUuid);
+    queryCache.invalidate(cacheKey);
+    queryCache.set(cacheKey, next);
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const previous = check?.names ?? [];
+      store(await runConflictCheck(practiceId, {
+        names: previous.length > 0 ? previous.map((entry) => entry.name) : [...fallbackNames],
+        clientName: previous.length > 0 ? null : clientName ?? null,
+        opposingParty: previous.length > 0 ? null : opposingParty ?? null,
+        intakeUuid,
+        conversationId: conversationId ?? null,
+      }));
+    } catch (runError) {
+      showError('Conflict check failed', runError instanceof Error ? runError.message : 'Unable to run conflict check.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const canRun = Boolean(check?.names.length || fallbackNames.length || clientName || opposingParty);
+  const pill = check ? CONFLICT_STATUS_PILLS[check.status] : null;
+
+  return (
+    <section className="rounded-r-md border border-card-border bg-card p-4 sm:p-6">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="font-mono text-[10px] font-semibold uppercase tracking-[0.12em] text-dim-2">
+          Conflict check
+        </h2>
+        {pill ? <Pill tone={pill.tone}>{pill.label}</Pill> : null}
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={() => void handleRun()}
+          disabled={isRunning || !canRun}
+        >
+          {check ? 'Re-run' : 'Run check'}
+        </Button>
+      </div>
+
+      {isLoading && !check ? <LoadingBlock className="mt-3" /> : null}
+      {error ? <p className="mt-3 text-xs text-red-600">{error}</p> : null}
+      {!isLoading && !error && !check ? (
+        <p className="mt-3 text-xs text-dim-2">No conflict check has run for this intake yet.</p>
+      ) : null}
+
+      {check ? (
+        <>
+          <p className="mt-2 text-xs text-dim-2">
+            Checked {check.names.map((entry) => `${entry.name} (${ROLE_LABELS[entry.role]})`).join(', ') || 'no names'}
+            {' · '}{formatRelativeTime(check.updatedAt) || 'just now'}
+          </p>
+          {check.truncated ? (
+            <p className="mt-2 text-xs text-warn">
+              The practice has more parties on file than one check searches, so the oldest were skipped. This check
+              can&apos;t come back clear; review older clients and matters by hand.
+            </p>
+          ) : null}
+          {check.hits.length === 0 ? (
+            <p className="mt-3 text-sm text-ink-2">No matching names in clients, matters or earlier intakes.</p>
+          ) : (
+            <ul className="mt-3 divide-y divide-line-subtle">
+              {check.hits.map((hit) => (
+                <ConflictHitRow key={hit.id} practiceId={practiceId} checkId={check.id} hit={hit} onDecided={store} />
+              ))}
+            </ul>
+          )}
+          <DecisionTrail check={check} />
+        </>
+      ) : null}
+    </section>
+  );
+}
+
+type ConflictHitRowProps = {
+  practiceId: string;
+  checkId: string;
+  hit: ConflictHit;
+  onDecided: (check: ConflictCheck) => void;
+};
+
+function ConflictHitRow({ practiceId, checkId, hit, onDecided }: ConflictHitRowProps) {
+  const { showError, showSuccess } = useToastContext();
+  const [note, setNote] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const decide = async (decision: 'cleared' | 'confirmed') => {
+    setIsSaving(true);
+    try {
+      onDecided(await decideConflictHit(practiceId, checkId, hit.id, { decision, note: note.trim() }));
+      setIsOpen(false);
+      setNote('');
+      showSuccess(decision === 'cleared' ? 'Hit cleared' : 'Conflict confirmed', `${hit.matchedName} — decision recorded.`);
+    } catch (decideError) {
+      showError('Decision not saved', decideError instanceof Error ? decideError.message : 'Unable to record decision.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <li className="py-3 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-ink">{hit.queryName}</span>
+        <span className="text-dim-2">matches</span>
+        <span className="text-sm text-ink">{hit.matchedName}</span>
+        {hit.adverse ? <Pill tone="urgent">Adverse</Pill> : null}
+        {hit.decision === 'pending' ? null : (
+          <Pill tone={hit.decision === 'cleared' ? 'live' : 'urgent'}>
+            {hit.decision === 'cleared' ? 'Cleared' : 'Confirmed'}
+          </Pill>
+        )}
+        <span className="ml-auto font-mono text-[10.5px] text-dim-2">{Math.round(hit.score * 100)}%</span>
+      </div>
+      <p className="mt-1 text-dim-2">
+        {ROLE_LABELS[hit.matchedRole]} on {SOURCE_LABELS[hit.sourceType].toLowerCase()}{' '}
+        <span className="text-ink-2">{hit.sourceLabel ?? hit.sourceId}</span>
+        {' · '}new intake lists them as {ROLE_LABELS[hit.queryRole]}
+        {' · '}{hit.reasons.map((reason) => REASON_LABELS[reason]).join(', ')}
+      </p>
+      {hit.decisionNote ? <p className="mt-1 text-ink-2">“{hit.decisionNote}”</p> : null}
+
+      {isOpen ? (
+        <div className="mt-2 space-y-2">
+          <Textarea
+            value={note}
+            onChange={setNote}
+            rows={2}
+            placeholder="Why this hit is or is not a conflict"
+          />
+          <div className="flex gap-2">
+            <Button variant="secondary" size="xs" disabled={isSaving || !note.trim()} onClick={() => void decide('cleared')}>
+              Clear
+            </Button>
+            <Button variant="secondary" size="xs" disabled={isSaving || !note.trim()} onClick={() => void decide('confirmed')}>
+              Confirm conflict
+            </Button>
+            <Button variant="ghost" size="xs" disabled={isSaving} onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="link" size="xs" className="mt-1" onClick={() => setIsOpen(true)}>
+          {hit.decision === 'pending' ? 'Review' : 'Change decision'}
+        </Button>
+      )}
+    </li>
+  );
+}
+
+function DecisionTrail({ check }: { check: ConflictCheck }) {
+  if (check.decisions.length === 0) return null;
+  const hitName = (hitId: string) => check.hits.find((hit) => hit.id === hitId)?.matchedName ?? 'removed hit';
+  return (
+    <div className="mt-4 border-t border-line-subtle pt-3">
+      <h3 className="font-mono text-[10px] uppercase tracking-[0.1em] text-dim-2">Decision trail</h3>
+      <ul className="mt-2 space-y-1 text-xs text-ink-2">
+        {check.decisions.map((entry) => (
+          <li key={entry.id}>
+            <span className="text-dim-2">{formatRelativeTime(entry.createdAt) || 'just now'} · {entry.memberRole}</span>{' '}
+            {entry.decision === 'cleared' ? 'cleared' : 'confirmed'} {hitName(entry.hitId)}
+            {entry.previousDecision !== 'pending' ? ` (was ${entry.previousDecision})` : ''}: {entry.note}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
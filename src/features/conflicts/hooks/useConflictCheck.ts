@@ -0,0 +1,37 @@
+import { useQuery } from '@/shared/hooks/useQuery';
+import { policyTtl } from '@/shared/lib/cachePolicy';
+import { getConflictCheck, listConflictChecks } from '@/features/conflicts/api/conflictChecksApi';
+import type { ConflictCheck } from '@/shared/types/wire';
+
+export const intakeConflictCheckCacheKey = (
+  practiceId: string | null | undefined,
+  intakeUuid: string | null | undefined,
+): string => `conflicts:intake:${practiceId ?? ''}:${intakeUuid ?? ''}`;
+
+const fetchLatestIntakeConflictCheck = async (
+  practiceId: string,
+  intakeUuid: string,
+  signal?: AbortSignal,
+): Promise<ConflictCheck | null> => {
+  const [latest] = await listConflictChecks(practiceId, { intakeUuid, limit: 1 }, signal);
+  return latest ? getConflictCheck(practiceId, latest.id, signal) : null;
+};
+
+/**
+ * The most recent conflict check run for an intake, with its hits and
+ * decision trail; `null` when none has run yet (e.g. the intake predates
+ * the conflict index). Idle until both ids are known.
+ */
+export const useIntakeConflictCheck = (
+  practiceId: string | null | undefined,
+  intakeUuid: string | null | undefined,
+) => {
+  const cacheKey = intakeConflictCheckCacheKey(practiceId, intakeUuid);
+  return useQuery<ConflictCheck | null>({
+    key: cacheKey,
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fetcher: (signal) => fetchLatestIntakeConflictCheck(practiceId!, intakeUuid!, signal),
+    ttl: policyTtl(cacheKey),
+    enabled: Boolean(practiceId && intakeUuid),
+  });
+};
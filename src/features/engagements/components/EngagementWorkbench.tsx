@@ -74,12 +74,14 @@ import {
 } from '../api/engagementsApi';
 import type { EngagementDetail } from '../types/engagement';
 import {
+  applyConflictCheckToDraft,
   buildDeterministicContractBody,
   buildEngagementDraftFormFromIntake,
   buildProposalDataFromDraft,
   EMPTY_ENGAGEMENT_DRAFT_FORM,
   type EngagementDraftForm,
 } from '../utils/engagementDraft';
+import { useIntakeConflictCheck } from '@/features/conflicts/hooks/useConflictCheck';
 
 /**
  * Hydrate an `EngagementDraftForm` from an existing `EngagementDetail`.
@@ -128,6 +130,7 @@ function buildEngagementDraftFromDetail(engagement: EngagementDetail): Engagemen
     paymentFrequency: str(fees?.payment_frequency),
     feeNotes: str(fees?.fee_notes),
     conflictStatus: risk?.conflict_status ?? 'unknown',
+    conflictNote: str(risk?.conflict_note),
     jurisdictionStatus: risk?.jurisdiction_status ?? 'unknown',
     riskNotes: joinLines(risk?.risk_notes),
     openQuestions: joinLines(risk?.open_questions),
@@ -487,6 +490,13 @@ export const EngagementWorkbench: FunctionComponent<EngagementWorkbenchProps> =
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isCreate, practiceId]);
 
+  // Prefill the risk review from the intake's conflict check.
+  const { data: intakeConflictCheck } = useIntakeConflictCheck(practiceId, isCreate ? form.intakeId : null);
+  useEffect(() => {
+    if (!intakeConflictCheck) return;
+    setForm((prev) => applyConflictCheckToDraft(prev, intakeConflictCheck));
+  }, [intakeConflictCheck]);
+
   const selectedIntake = useMemo(
     () => selectedIntakeDetail ?? intakes.find((i) => i.uuid === form.intakeId) ?? null,
     [intakes, form.intakeId, selectedIntakeDetail],
@@ -1237,6 +1247,13 @@ export const EngagementWorkbench: FunctionComponent<EngagementWorkbenchProps> =
               searchable={false}
             />
           </FormGrid>
+          <Textarea
+            label="Conflict evidence"
+            value={form.conflictNote}
+            onChange={(v) => updateField('conflictNote', v)}
+            rows={2}
+            disabled={submitting}
+          />
           <FormGrid>
             <Textarea
               label="Risk notes (one per line)"
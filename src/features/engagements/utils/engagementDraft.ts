@@ -2,6 +2,7 @@ import type { IntakeListItem, PracticeIntakeDetail } from '@/features/intake/api
 import { resolveIntakeTitle } from '@/features/intake/utils/intakeTitle';
 import type { ProposalData, ProposalFees } from '@/features/engagements/types/engagement';
 import type { IntakeEnrichedData } from '@/shared/types/intake';
+import type { ConflictCheck } from '@/shared/types/wire';
 
 export type EngagementDraftForm = {
   intakeId: string;
@@ -25,6 +26,7 @@ export type EngagementDraftForm = {
   paymentFrequency: string;
   feeNotes: string;
   conflictStatus: ProposalData['risk_review']['conflict_status'];
+  conflictNote: string;
   jurisdictionStatus: ProposalData['risk_review']['jurisdiction_status'];
   riskNotes: string;
   openQuestions: string;
@@ -61,6 +63,7 @@ export const EMPTY_ENGAGEMENT_DRAFT_FORM: EngagementDraftForm = {
   paymentFrequency: '',
   feeNotes: '',
   conflictStatus: 'unknown',
+  conflictNote: '',
   jurisdictionStatus: 'unknown',
   riskNotes: '',
   openQuestions: '',
@@ -165,6 +168,32 @@ export const buildEngagementDraftFormFromIntake = (
   };
 };
 
+/**
+ * Fills the risk review from the intake's conflict check. Only replaces an
+ * `unknown` status so a status the attorney picked by hand is kept.
+ */
+export const applyConflictCheckToDraft = (
+  form: EngagementDraftForm,
+  check: ConflictCheck,
+): EngagementDraftForm => {
+  if (form.conflictStatus !== 'unknown' || check.intakeUuid !== form.intakeId) return form;
+  const evidence = check.hits
+    .filter((hit) => hit.decision !== 'cleared')
+    .slice(0, 5)
+    .map((hit) => `${hit.queryName} ~ ${hit.matchedName} (${hit.matchedRole.replace(/_/g, ' ')}, ${hit.sourceLabel ?? hit.sourceType}, ${Math.round(hit.score * 100)}%${hit.decision === 'confirmed' ? ', confirmed' : ''})`);
+  const cleared = check.hits.length - check.hits.filter((hit) => hit.decision !== 'cleared').length;
+  const summary = check.hits.length === 0
+    ? `No matches for ${check.names.map((entry) => entry.name).join(', ') || 'the intake names'}.`
+    : [
+      ...evidence,
+      cleared > 0 ? `${cleared} match${cleared === 1 ? '' : 'es'} cleared by attorney review.` : '',
+    ].filter(Boolean).join('\n');
+  return {
+    ...form,
+    conflictStatus: check.status,
+    conflictNote: form.conflictNote || `Conflict check ${check.updatedAt.slice(0, 10)}: ${summary}`,
+  };
+};
 
 export const buildProposalDataFromDraft = (form: EngagementDraftForm): ProposalData => {
   const fees: ProposalFees = {
@@ -195,6 +224,7 @@ export const buildProposalDataFromDraft = (form: EngagementDraftForm): ProposalD
     fees,
     risk_review: {
       conflict_status: form.conflictStatus,
+      conflict_note: nullableString(form.conflictNote),
       jurisdiction_status: form.jurisdictionStatus,
       risk_notes: lineEntries(form.riskNotes),
       open_questions: lineEntries(form.openQuestions),
@@ -0,0 +1,118 @@
+import { intakeExperimentPath, intakeExperimentsPath } from '@/config/urls';
+import { apiClient, unwrapApiResponse } from '@/shared/lib/apiClient';
+import type { IntakeFunnelStep } from '@/features/intake/api/intakeTemplatesApi';
+
+// ---------------------------------------------------------------------------
+// Types — worker-owned (/api/practice/:id/intake-experiments), camelCase wire
+// ---------------------------------------------------------------------------
+
+export type IntakeExperimentStatus = 'running' | 'paused' | 'completed';
+
+export type IntakeExperimentSignificance = 'significant' | 'not_significant' | 'insufficient_data';
+
+export interface IntakeExperimentVariant {
+  key: string;
+  templateSlug: string;
+  weight: number;
+}
+
+export interface IntakeExperiment {
+  id: string;
+  practiceId: string;
+  name: string;
+  status: IntakeExperimentStatus;
+  /** The first variant is the control. */
+  variants: IntakeExperimentVariant[];
+  winnerVariant: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  endedAt: string | null;
+}
+
+export interface IntakeExperimentVariantResult {
+  key: string;
+  templateSlug: string;
+  isControl: boolean;
+  uses: number;
+  submitted: number;
+  steps: Array<{ step: IntakeFunnelStep; reached: number; dropOff: number }>;
+  conversionPercent: number | null;
+  medianTurnsToSubmit: number | null;
+  mostAbandonedField: { key: string; count: number } | null;
+  completenessPercent: number | null;
+  /** Variant vs control; null for the control itself. */
+  comparison: {
+    conversionDelta: number | null;
+    conversionPValue: number | null;
+    completenessDelta: number | null;
+    completenessPValue: number | null;
+    /** Conversion, the primary metric. */
+    significance: IntakeExperimentSignificance;
+    completenessSignificance: IntakeExperimentSignificance;
+  } | null;
+}
+
+export interface IntakeExperimentResults {
+  experiment: IntakeExperiment;
+  variants: IntakeExperimentVariantResult[];
+  /** True when the worker hit its conversation cap and counted only the earliest conversations. */
+  truncated: boolean;
+}
+
+export interface CreateIntakeExperimentInput {
+  name: string;
+  variants: Array<{ key: string; templateSlug: string; weight?: number }>;
+}
+
+// ---------------------------------------------------------------------------
+// API functions
+// ---------------------------------------------------------------------------
+
+export async function listIntakeExperiments(practiceId: string, signal?: AbortSignal): Promise<IntakeExperiment[]> {
+  const { data } = await apiClient.get<unknown>(intakeExperimentsPath(practiceId), { signal });
+  return unwrapApiResponse<IntakeExperiment[]>(data);
+}
+
+export async function getIntakeExperimentResults(
+  practiceId: string,
+  experimentId: string,
+  signal?: AbortSignal,
+): Promise<IntakeExperimentResults> {
+  const { data } = await apiClient.get<unknown>(intakeExperimentPath(practiceId, experimentId), { signal });
+  return unwrapApiResponse<IntakeExperimentResults>(data);
+}
+
+export async function createIntakeExperiment(
+  practiceId: string,
+  input: CreateIntakeExperimentInput,
+): Promise<IntakeExperiment> {
+  const { data } = await apiClient.post<unknown>(intakeExperimentsPath(practiceId), input);
+  return unwrapApiResponse<IntakeExperiment>(data, 'Failed to start experiment');
+}
+
+export async function setIntakeExperimentStatus(
+  practiceId: string,
+  experimentId: string,
+  status: 'running' | 'paused',
+): Promise<IntakeExperiment> {
+  const { data } = await apiClient.patch<unknown>(intakeExperimentPath(practiceId, experimentId), { status });
+  return unwrapApiResponse<IntakeExperiment>(data, 'Failed to update experiment');
+}
+
+/**
+ * Ends the experiment with `variantKey` as the winner. Make the winning
+ * template the practice default first (updateIntakeTemplate with
+ * `is_default: true`) — the worker only records the outcome.
+ */
+export async function promoteIntakeExperimentVariant(
+  practiceId: string,
+  experimentId: string,
+  variantKey: string,
+): Promise<IntakeExperimentResults> {
+  const { data } = await apiClient.post<unknown>(
+    `${intakeExperimentPath(practiceId, experimentId)}/promote`,
+    { variantKey },
+  );
+  return unwrapApiResponse<IntakeExperimentResults>(data, 'Failed to promote variant');
+}
@@ -1,5 +1,5 @@
-import { intakeTemplatesPath, intakeTemplatePath } from '@/config/urls';
-import { apiClient } from '@/shared/lib/apiClient';
+import { intakeTemplateAnalyticsPath, intakeTemplatesPath, intakeTemplatePath } from '@/config/urls';
+import { apiClient, unwrapApiResponse } from '@/shared/lib/apiClient';
 import type {
   FieldCondition,
   IntakeFieldDefinition,
@@ -10,6 +10,8 @@ import type {
   BackendIntakeTemplate,
   BackendIntakeTemplateField,
 } from '@/shared/types/wire';
+import { validateTemplateFieldInputs } from '@/shared/utils/fieldConditions';
+import { toIntakeFieldType } from '@/shared/utils/intakeFieldTypes';
 
 // ---------------------------------------------------------------------------
 // Normalizer — backend snake_case → app camelCase at the API edge
@@ -37,12 +39,8 @@ function normalizeField(f: BackendIntakeTemplateField): IntakeFieldDefinition {
   return {
     key: f.key,
     label: f.label,
-    // backend uses 'textarea'|'email'|'phone'|'multiselect'; map to nearest app type
-    type: (f.field_type === 'textarea' || f.field_type === 'email' || f.field_type === 'phone'
-      ? 'text'
-      : f.field_type === 'multiselect'
-        ? 'select'
-        : f.field_type) as IntakeFieldDefinition['type'],
+    // backend 'textarea' maps to 'text'; backendFieldType keeps the distinction
+    type: toIntakeFieldType(f.field_type),
     required: f.required,
     phase: f.phase,
     isStandard: f.is_standard,
@@ -107,6 +105,39 @@ export interface CreateIntakeTemplateInput {
 
 export type UpdateIntakeTemplateInput = Partial<CreateIntakeTemplateInput>;
 
+export type IntakeFunnelStep = 'disclaimer' | 'contact' | 'case' | 'submit';
+
+/** Worker-computed funnel for one template (GET …/intake-templates/:slug/analytics). */
+export interface IntakeTemplateAnalytics {
+  templateSlug: string;
+  start: string;
+  end: string;
+  uses: number;
+  submitted: number;
+  steps: Array<{ step: IntakeFunnelStep; reached: number; dropOff: number }>;
+  /** 0–100, or null when the template had no uses in range. */
+  conversionPercent: number | null;
+  medianTurnsToSubmit: number | null;
+  mostAbandonedField: { key: string; count: number } | null;
+  /** True when the range held more conversations than the worker rolls up; only the earliest were counted. */
+  truncated: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Save-time validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Fails fast in the editor; the worker runs the same check before a create
+ * or update reaches the backend.
+ */
+function assertValidTemplateInput(input: UpdateIntakeTemplateInput): void {
+  const errors = validateTemplateFieldInputs(input.fields);
+  if (errors.length > 0) {
+    throw new Error(`Invalid field conditions: ${errors.join('; ')}`);
+  }
+}
+
 // ---------------------------------------------------------------------------
 // API functions
 // ---------------------------------------------------------------------------
@@ -129,6 +160,7 @@ export async function createIntakeTemplate(
   practiceId: string,
   input: CreateIntakeTemplateInput,
 ): Promise<IntakeTemplate> {
+  assertValidTemplateInput(input);
   const result = await apiClient.post<{ template: BackendIntakeTemplate }>(intakeTemplatesPath(practiceId), input);
   if (!result?.data?.template) throw new Error('Failed to create intake template');
   return normalizeTemplate(result.data.template);
@@ -139,6 +171,7 @@ export async function updateIntakeTemplate(
   templateId: string,
   input: UpdateIntakeTemplateInput,
 ): Promise<IntakeTemplate> {
+  assertValidTemplateInput(input);
   const result = await apiClient.put<{ template: BackendIntakeTemplate }>(
     intakeTemplatePath(practiceId, templateId),
     input,
@@ -150,3 +183,16 @@ export async function updateIntakeTemplate(
 export async function deleteIntakeTemplate(practiceId: string, templateId: string): Promise<void> {
   await apiClient.delete(intakeTemplatePath(practiceId, templateId));
 }
+
+export async function getIntakeTemplateAnalytics(
+  practiceId: string,
+  templateSlug: string,
+  options: { start?: string; end?: string; signal?: AbortSignal } = {},
+): Promise<IntakeTemplateAnalytics> {
+  const { signal, ...range } = options;
+  const { data } = await apiClient.get<unknown>(intakeTemplateAnalyticsPath(practiceId, templateSlug), {
+    signal,
+    params: range,
+  });
+  return unwrapApiResponse<IntakeTemplateAnalytics>(data);
+}
@@ -3,19 +3,36 @@
  * AI authoring strip in the intake editor.
  *
  * Surfaces "used N× in last 30 days · M% converted" — the practice owner's
- * primary signal that this template is or isn't pulling its weight.
+ * primary signal that this template is or isn't pulling its weight — and,
+ * once the template has uses, a second line with the step funnel, median
+ * turns to submit and the field most intakes were abandoned on.
  *
- * TODO(backend): wire to a real analytics endpoint
- * (e.g. `/api/practices/:id/intakes/templates/:slug/analytics`) once that
- * exists. For now the page passes `null` for unknown counts and the strip
- * renders em-dashes — never a misleading hard-coded number.
+ * Fed by `/api/practice/:id/intake-templates/:slug/analytics`. Unknown
+ * counts (still loading, unsaved template, request failed) are passed as
+ * `null` and render as em-dashes — never a misleading hard-coded number.
  */
 
+import type { IntakeFunnelStep } from '@/features/intake/api/intakeTemplatesApi';
+
+const STEP_LABELS: Record<IntakeFunnelStep, string> = {
+  disclaimer: 'Disclaimer',
+  contact: 'Contact',
+  case: 'Case',
+  submit: 'Submit',
+};
+
 export interface IntakeAnalyticsStripProps {
-  /** Total uses in the last 30 days, or null when not yet wired. */
+  /** Total uses in the last 30 days, or null when unknown. */
   usesLast30Days: number | null;
-  /** Conversion rate as a 0–100 percent, or null when not yet wired. */
+  /** Conversion rate as a 0–100 percent, or null when unknown. */
   conversionPercent: number | null;
+  /** Conversations reaching each funnel step, in order. */
+  steps?: Array<{ step: IntakeFunnelStep; reached: number }>;
+  medianTurnsToSubmit?: number | null;
+  /** Display label of the most-abandoned field. */
+  mostAbandonedFieldLabel?: string | null;
+  /** The worker hit its conversation cap, so the counts cover only part of the range. */
+  truncated?: boolean;
 }
 
 const formatNumber = (value: number | null): string => {
@@ -31,11 +48,35 @@ const formatPercent = (value: number | null): string => {
 export function IntakeAnalyticsStrip({
   usesLast30Days,
   conversionPercent,
+  steps,
+  medianTurnsToSubmit = null,
+  mostAbandonedFieldLabel = null,
+  truncated = false,
 }: IntakeAnalyticsStripProps) {
+  const showFunnel = Boolean(steps && steps.length > 0 && usesLast30Days);
   return (
-    <p className="font-mono text-[10.5px] uppercase tracking-[0.1em] text-dim-2">
-      Used <span className="text-ink-2">{formatNumber(usesLast30Days)}×</span> in last 30 days ·{' '}
-      <span className="text-ink-2">{formatPercent(conversionPercent)}</span> converted
-    </p>
+    <div className="font-mono text-[10.5px] uppercase tracking-[0.1em] text-dim-2">
+      <p>
+        Used <span className="text-ink-2">{formatNumber(usesLast30Days)}×</span> in last 30 days ·{' '}
+        <span className="text-ink-2">{formatPercent(conversionPercent)}</span> converted
+        {truncated ? <> · <span title="Too many conversations in range; only the earliest were counted">partial</span></> : null}
+      </p>
+      {showFunnel ? (
+        <p className="mt-1">
+          {steps?.map((entry, index) => (
+            <span key={entry.step}>
+              {index > 0 ? ' → ' : null}
+              {STEP_LABELS[entry.step]} <span className="text-ink-2">{formatNumber(entry.reached)}</span>
+            </span>
+          ))}
+          {medianTurnsToSubmit !== null ? (
+            <> · median <span className="text-ink-2">{formatNumber(medianTurnsToSubmit)}</span> turns</>
+          ) : null}
+          {mostAbandonedFieldLabel ? (
+            <> · most abandoned: <span className="text-ink-2">{mostAbandonedFieldLabel}</span></>
+          ) : null}
+        </p>
+      ) : null}
+    </div>
   );
 }
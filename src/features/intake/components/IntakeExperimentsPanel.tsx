@@ -0,0 +1,345 @@
+/**
+ * IntakeExperimentsPanel — A/B experiments across intake templates, shown
+ * under the template list.
+ *
+ * A practice runs at most one experiment at a time. The panel starts a
+ * control-vs-challenger split between two published templates, shows each
+ * variant's conversion and completeness against the control, with a
+ * significance pill for conversion (completeness is flagged on its own),
+ * and promotes a winner: the winning template becomes the practice
+ * default, then the experiment is ended.
+ */
+
+import { useMemo, useState } from 'preact/hooks';
+import { Button } from '@/shared/ui/Button';
+import { Combobox, Input, NumberInput } from '@/shared/ui/input';
+import { Dialog, DialogBody, DialogFooter } from '@/shared/ui/dialog';
+import { Pill, type PillTone } from '@/design-system/primitives';
+import { useToastContext } from '@/shared/contexts/ToastContext';
+import { queryCache } from '@/shared/lib/queryCache';
+import { updateIntakeTemplate } from '@/features/intake/api/intakeTemplatesApi';
+import {
+  createIntakeExperiment,
+  promoteIntakeExperimentVariant,
+  setIntakeExperimentStatus,
+  type IntakeExperiment,
+  type IntakeExperimentSignificance,
+  type IntakeExperimentVariantResult,
+} from '@/features/intake/api/intakeExperimentsApi';
+import {
+  intakeExperimentsCacheKey,
+  useIntakeExperimentResults,
+  useIntakeExperiments,
+} from '@/features/intake/hooks/useIntakeExperiments';
+import type { IntakeTemplate } from '@/shared/types/intake';
+
+const SIGNIFICANCE_PILLS: Record<IntakeExperimentSignificance, { tone: PillTone; label: string }> = {
+  significant: { tone: 'live', label: 'Significant' },
+  not_significant: { tone: 'dim', label: 'No clear difference' },
+  insufficient_data: { tone: 'warn', label: 'Needs more data' },
+};
+
+const formatPercent = (value: number | null): string => (value === null ? '—' : `${value}%`);
+
+const formatDelta = (value: number | null, unit: string): string => {
+  if (value === null) return '';
+  return `${value > 0 ? '+' : ''}${value}${unit}`;
+};
+
+type IntakeExperimentsPanelProps = {
+  practiceId: string;
+  templates: IntakeTemplate[];
+  /** Called after a promotion changes the practice default template. */
+  onPromoted: () => Promise<void> | void;
+};
+
+export function IntakeExperimentsPanel({ practiceId, templates, onPromoted }: IntakeExperimentsPanelProps) {
+  const { showSuccess, showError } = useToastContext();
+  const { data: experiments, isLoading } = useIntakeExperiments(practiceId);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const active = experiments?.find((experiment) => experiment.status !== 'completed') ?? null;
+  const completed = experiments?.filter((experiment) => experiment.status === 'completed') ?? [];
+  const publishedTemplates = useMemo(
+    () => templates.filter((template) => template.status !== 'draft' && template.status !== 'archived'),
+    [templates],
+  );
+
+  const invalidate = () => queryCache.invalidate(intakeExperimentsCacheKey(practiceId), true);
+
+  const handleToggleStatus = async (experiment: IntakeExperiment) => {
+    setIsWorking(true);
+    try {
+      await setIntakeExperimentStatus(practiceId, experiment.id, experiment.status === 'running' ? 'paused' : 'running');
+      invalidate();
+    } catch (error) {
+      showError('Experiment update failed', error instanceof Error ? error.message : 'Unable to update experiment.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handlePromote = async (experiment: IntakeExperiment, variant: IntakeExperimentVariantResult) => {
+    const template = templates.find((entry) => entry.slug === variant.templateSlug);
+    if (!template?.id) {
+      showError('Promote failed', `The "${variant.templateSlug}" form no longer exists.`);
+      return;
+    }
+    setIsWorking(true);
+    try {
+      // Switch the default first: if it fails the experiment keeps running.
+      if (!template.is_default) {
+        await updateIntakeTemplate(practiceId, template.id, { is_default: true });
+      }
+      await promoteIntakeExperimentVariant(practiceId, experiment.id, variant.key);
+      invalidate();
+      await onPromoted();
+      showSuccess('Variant promoted', `"${template.name}" is now your default intake form.`);
+    } catch (error) {
+      showError('Promote failed', error instanceof Error ? error.message : 'Unable to promote variant.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <section className="panel p-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-sm font-semibold text-ink">Experiments</h2>
+          <p className="mt-1 text-xs text-dim-2">
+            Split new widget visitors between two forms to see which converts better.
+          </p>
+        </div>
+        {!active ? (
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={() => setIsCreateOpen(true)}
+            disabled={isLoading || publishedTemplates.length < 2}
+          >
+            New experiment
+          </Button>
+        ) : null}
+      </div>
+
+      {active ? (
+        <ActiveExperiment
+          practiceId={practiceId}
+          experiment={active}
+          templates={templates}
+          isWorking={isWorking}
+          onToggleStatus={handleToggleStatus}
+          onPromote={handlePromote}
+        />
+      ) : !isLoading && publishedTemplates.length < 2 ? (
+        <p className="mt-3 text-xs text-dim-2">Publish at least two forms to start an experiment.</p>
+      ) : null}
+
+      {completed.length > 0 ? (
+        <ul className="mt-4 space-y-1 font-mono text-[10.5px] uppercase tracking-[0.1em] text-dim-2">
+          {completed.map((experiment) => {
+            const winner = experiment.variants.find((variant) => variant.key === experiment.winnerVariant);
+            return (
+              <li key={experiment.id}>
+                {experiment.name} · winner <span className="text-ink-2">{winner?.templateSlug ?? '—'}</span>
+              </li>
+            );
+          })}
+        </ul>
+      ) : null}
+
+      <CreateExperimentDialog
+        isOpen={isCreateOpen}
+        practiceId={practiceId}
+        templates={publishedTemplates}
+        onClose={() => setIsCreateOpen(false)}
+        onCreated={() => {
+          setIsCreateOpen(false);
+          invalidate();
+        }}
+      />
+    </section>
+  );
+}
+
+type ActiveExperimentProps = {
+  practiceId: string;
+  experiment: IntakeExperiment;
+  templates: IntakeTemplate[];
+  isWorking: boolean;
+  onToggleStatus: (experiment: IntakeExperiment) => Promise<void>;
+  onPromote: (experiment: IntakeExperiment, variant: IntakeExperimentVariantResult) => Promise<void>;
+};
+
+function ActiveExperiment({ practiceId, experiment, templates, isWorking, onToggleStatus, onPromote }: ActiveExperimentProps) {
+  const { data: results, error } = useIntakeExperimentResults(practiceId, experiment.id);
+  const templateName = (slug: string) => templates.find((template) => template.slug === slug)?.name ?? slug;
+
+  return (
+    <div className="mt-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-ink">{experiment.name}</span>
+        <Pill tone={experiment.status === 'running' ? 'live' : 'dim'}>
+          {experiment.status === 'running' ? 'Running' : 'Paused'}
+        </Pill>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto"
+          onClick={() => void onToggleStatus(experiment)}
+          disabled={isWorking}
+        >
+          {experiment.status === 'running' ? 'Pause' : 'Resume'}
+        </Button>
+      </div>
+
+      {error ? <p className="mt-3 text-xs text-red-600">{error}</p> : null}
+
+      <table className="mt-3 w-full text-left text-xs">
+        <thead className="font-mono text-[10.5px] uppercase tracking-[0.1em] text-dim-2">
+          <tr>
+            <th className="py-1 font-normal">Form</th>
+            <th className="py-1 font-normal">Uses</th>
+            <th className="py-1 font-normal">Converted</th>
+            <th className="py-1 font-normal">Completeness</th>
+            <th className="py-1 font-normal">Vs control</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {(results?.variants ?? []).map((variant) => (
+            <tr key={variant.key} className="border-t border-line-subtle">
+              <td className="py-2 text-ink">
+                {templateName(variant.templateSlug)}
+                {variant.isControl ? <span className="ml-2 text-dim-2">(control)</span> : null}
+              </td>
+              <td className="py-2 text-ink-2">{variant.uses.toLocaleString()}</td>
+              <td className="py-2 text-ink-2">
+                {formatPercent(variant.conversionPercent)}{' '}
+                <span className="text-dim-2">{formatDelta(variant.comparison?.conversionDelta ?? null, ' pts')}</span>
+              </td>
+              <td className="py-2 text-ink-2">
+                {formatPercent(variant.completenessPercent)}{' '}
+                <span className="text-dim-2">{formatDelta(variant.comparison?.completenessDelta ?? null, ' pts')}</span>
+                {variant.comparison?.completenessSignificance === 'significant' ? (
+                  <span className="text-dim-2"> · significant</span>
+                ) : null}
+              </td>
+              <td className="py-2">
+                {variant.comparison ? (
+                  <Pill tone={SIGNIFICANCE_PILLS[variant.comparison.significance].tone}>
+                    {SIGNIFICANCE_PILLS[variant.comparison.significance].label}
+                  </Pill>
+                ) : null}
+              </td>
+              <td className="py-2 text-right">
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => void onPromote(experiment, variant)}
+                  disabled={isWorking}
+                >
+                  Promote
+                </Button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {results?.truncated ? (
+        <p className="mt-2 text-xs text-dim-2">
+          Too many conversations to count them all; these results cover only the earliest.
+        </p>
+      ) : null}
+    </div>
+  );
+}
+
+type CreateExperimentDialogProps = {
+  isOpen: boolean;
+  practiceId: string;
+  templates: IntakeTemplate[];
+  onClose: () => void;
+  onCreated: () => void;
+};
+
+function CreateExperimentDialog({ isOpen, practiceId, templates, onClose, onCreated }: CreateExperimentDialogProps) {
+  const { showError } = useToastContext();
+  const defaultSlug = templates.find((template) => template.is_default)?.slug ?? templates[0]?.slug ?? '';
+  const [name, setName] = useState('');
+  const [controlSlug, setControlSlug] = useState('');
+  const [challengerSlug, setChallengerSlug] = useState('');
+  const [challengerShare, setChallengerShare] = useState<number | undefined>(50);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const options = templates.map((template) => ({ value: template.slug, label: template.name }));
+  // Templates can arrive after mount; the default form is the natural control.
+  const control = controlSlug || defaultSlug;
+  const share = challengerShare ?? 50;
+  const canSubmit = Boolean(name.trim() && control && challengerSlug && control !== challengerSlug)
+    && share >= 1 && share <= 99;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) return;
+    setIsSubmitting(true);
+    try {
+      await createIntakeExperiment(practiceId, {
+        name: name.trim(),
+        variants: [
+          { key: 'control', templateSlug: control, weight: 100 - share },
+          { key: 'challenger', templateSlug: challengerSlug, weight: share },
+        ],
+      });
+      setName('');
+      setChallengerSlug('');
+      onCreated();
+    } catch (error) {
+      showError('Experiment not started', error instanceof Error ? error.message : 'Unable to start experiment.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog isOpen={isOpen} onClose={onClose} title="New experiment">
+      <DialogBody className="space-y-4">
+        <Input label="Name" value={name} onChange={setName} placeholder="Shorter intro" />
+        <Combobox
+          label="Control"
+          options={options}
+          value={control}
+          onChange={setControlSlug}
+          clearable={false}
+        />
+        <Combobox
+          label="Challenger"
+          options={options.filter((option) => option.value !== control)}
+          value={challengerSlug}
+          onChange={setChallengerSlug}
+          placeholder="Choose a form"
+        />
+        <NumberInput
+          label="Visitors sent to the challenger (%)"
+          value={challengerShare}
+          onChange={setChallengerShare}
+          min={1}
+          max={99}
+        />
+        <p className="text-xs text-dim-2">
+          Only anonymous widget visitors on your default link take part; links with{' '}
+          <code className="rounded bg-paper-2 px-1.5 py-0.5 font-mono text-xs">?template=</code> are unaffected.
+        </p>
+      </DialogBody>
+      <DialogFooter className="flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+        <Button variant="secondary" onClick={onClose} disabled={isSubmitting}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={() => void handleSubmit()} disabled={!canSubmit || isSubmitting}>
+          {isSubmitting ? 'Starting...' : 'Start experiment'}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
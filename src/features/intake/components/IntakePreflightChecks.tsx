@@ -5,6 +5,7 @@ import { SignalPill, type SignalPillSignal } from '@/design-system/primitives';
 import { Icon, type IconComponent } from '@/shared/ui/Icon';
 import { cn } from '@/shared/utils/cn';
 import type { IntakeEnrichedData } from '@/shared/types/intake';
+import type { ConflictCheckSummary } from '@/shared/types/wire';
 
 type CheckStatus = 'pass' | 'warn' | 'unknown';
 
@@ -21,6 +22,8 @@ interface CheckRow {
 export interface IntakePreflightChecksProps {
   /** Enriched-data row from AI submission — drives conflict + practice-area derivation. */
   enrichedData: IntakeEnrichedData | null;
+  /** Latest conflict check for the intake; when present it replaces the name-count heuristic. */
+  conflictCheck?: Pick<ConflictCheckSummary, 'status' | 'truncated' | 'hitCount' | 'pendingCount'> | null;
   /** Intake-supplied jurisdiction state (e.g. "NC"). */
   intakeState: string | null;
   /** Practice's covered states (from PracticeDetails.serviceStates). */
@@ -34,6 +37,54 @@ const PASS_PILL_SIGNAL: SignalPillSignal = 'healthy';
 const WARN_PILL_SIGNAL: SignalPillSignal = 'warn';
 const QUIET_PILL_SIGNAL: SignalPillSignal = 'quiet';
 
+const conflictRowFromCheck = (
+  check: NonNullable<IntakePreflightChecksProps['conflictCheck']>,
+): CheckRow => {
+  const base = { key: 'conflict', label: 'Conflict of interest' };
+  switch (check.status) {
+    case 'clear':
+      return {
+        ...base,
+        status: 'pass',
+        pillLabel: 'clear',
+        rationale: check.hitCount === 0
+          ? 'No matching names in clients, matters or earlier intakes.'
+          : `All ${check.hitCount} possible match${check.hitCount === 1 ? '' : 'es'} cleared by an attorney.`,
+        signal: PASS_PILL_SIGNAL,
+        icon: ShieldCheck,
+      };
+    case 'conflicted':
+      return {
+        ...base,
+        status: 'warn',
+        pillLabel: 'conflicted',
+        rationale: 'A name matches an adverse party — see the conflict check below.',
+        signal: 'urgent',
+        icon: AlertTriangle,
+      };
+    case 'review_required':
+      return {
+        ...base,
+        status: 'warn',
+        pillLabel: check.pendingCount > 0 ? `${check.pendingCount} to review` : 'review',
+        rationale: check.pendingCount > 0
+          ? 'Possible matches need an attorney to clear or confirm them.'
+          : 'The check could not search every party on file; an attorney needs to review it.',
+        signal: WARN_PILL_SIGNAL,
+        icon: AlertTriangle,
+      };
+    default:
+      return {
+        ...base,
+        status: 'unknown',
+        pillLabel: 'no names',
+        rationale: 'The intake did not name any parties to check.',
+        signal: QUIET_PILL_SIGNAL,
+        icon: Info,
+      };
+  }
+};
+
 /**
  * Pre-flight checks panel — 5 deterministic rows surfacing the conflict,
  * jurisdiction, practice-area fit, capacity, and KYC signals so the user
@@ -48,14 +99,18 @@ const QUIET_PILL_SIGNAL: SignalPillSignal = 'quiet';
  */
 export const IntakePreflightChecks: FunctionComponent<IntakePreflightChecksProps> = ({
   enrichedData,
+  conflictCheck,
   intakeState,
   coverageStates,
   practiceServiceLabels,
   className,
 }) => {
-  // Conflict — derived from enrichedData.conflict_check_names array.
+  // Conflict — from the worker's conflict check when one has run, otherwise
+  // derived from enrichedData.conflict_check_names array.
   const conflicts = enrichedData?.conflict_check_names ?? [];
-  const conflictRow: CheckRow = conflicts.length === 0
+  const conflictRow: CheckRow = conflictCheck
+    ? conflictRowFromCheck(conflictCheck)
+    : conflicts.length === 0
     ? {
       key: 'conflict',
       label: 'Conflict of interest',
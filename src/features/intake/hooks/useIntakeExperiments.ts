@@ -0,0 +1,43 @@
+import { useQuery } from '@/shared/hooks/useQuery';
+import { policyTtl } from '@/shared/lib/cachePolicy';
+import {
+  getIntakeExperimentResults,
+  listIntakeExperiments,
+  type IntakeExperiment,
+  type IntakeExperimentResults,
+} from '@/features/intake/api/intakeExperimentsApi';
+
+export const intakeExperimentsCacheKey = (practiceId: string | null | undefined): string =>
+  `intake:experiments:${practiceId ?? ''}`;
+
+export const intakeExperimentResultsCacheKey = (
+  practiceId: string | null | undefined,
+  experimentId: string | null | undefined,
+): string => `intake:experiments:${practiceId ?? ''}:${experimentId ?? ''}`;
+
+/** All experiments for the practice, newest first; idle until the practice is known. */
+export const useIntakeExperiments = (practiceId: string | null | undefined) => {
+  const cacheKey = intakeExperimentsCacheKey(practiceId);
+  return useQuery<IntakeExperiment[]>({
+    key: cacheKey,
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fetcher: (signal) => listIntakeExperiments(practiceId!, signal),
+    ttl: policyTtl(cacheKey),
+    enabled: Boolean(practiceId),
+  });
+};
+
+/** Per-variant results for one experiment. */
+export const useIntakeExperimentResults = (
+  practiceId: string | null | undefined,
+  experimentId: string | null | undefined,
+) => {
+  const cacheKey = intakeExperimentResultsCacheKey(practiceId, experimentId);
+  return useQuery<IntakeExperimentResults>({
+    key: cacheKey,
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fetcher: (signal) => getIntakeExperimentResults(practiceId!, experimentId!, signal),
+    ttl: policyTtl(cacheKey),
+    enabled: Boolean(practiceId && experimentId),
+  });
+};
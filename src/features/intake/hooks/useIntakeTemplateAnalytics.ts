@@ -0,0 +1,26 @@
+import { useQuery } from '@/shared/hooks/useQuery';
+import { policyTtl } from '@/shared/lib/cachePolicy';
+import {
+  getIntakeTemplateAnalytics,
+  type IntakeTemplateAnalytics,
+} from '@/features/intake/api/intakeTemplatesApi';
+
+export const intakeTemplateAnalyticsCacheKey = (
+  practiceId: string | null | undefined,
+  templateSlug: string | null | undefined,
+): string => `intake:analytics:${practiceId ?? ''}:${templateSlug ?? ''}`;
+
+/** Last-30-days funnel for one template; idle until both ids are known. */
+export const useIntakeTemplateAnalytics = (
+  practiceId: string | null | undefined,
+  templateSlug: string | null | undefined,
+) => {
+  const cacheKey = intakeTemplateAnalyticsCacheKey(practiceId, templateSlug);
+  return useQuery<IntakeTemplateAnalytics>({
+    key: cacheKey,
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fetcher: (signal) => getIntakeTemplateAnalytics(practiceId!, templateSlug!, { signal }),
+    ttl: policyTtl(cacheKey),
+    enabled: Boolean(practiceId && templateSlug),
+  });
+};
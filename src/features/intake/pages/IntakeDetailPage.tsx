@@ -42,6 +42,8 @@ import { useIntakeDetail } from '@/features/intake/hooks/useIntakeDetail';
 import { useIntakeFiles } from '@/features/intake/hooks/useIntakeFiles';
 import { IntakeFilesPanel } from '@/features/intake/components/IntakeFilesPanel';
 import { STANDARD_FIELD_DEFINITIONS } from '@/shared/constants/intakeTemplates';
+import { getFieldType } from '@/shared/utils/intakeFieldTypes';
+import { formatCurrency } from '@/shared/utils/currencyFormatter';
 import type { IntakeTemplate, IntakeFieldDefinition, IntakeEnrichedData } from '@/shared/types/intake';
 import VirtualMessageList from '@/features/chat/components/VirtualMessageList';
 import MessageComposer from '@/features/chat/components/MessageComposer';
@@ -53,9 +55,12 @@ import { IntakeStickyHeader } from '../components/IntakeStickyHeader';
 import { IntakeAIVerdict } from '../components/IntakeAIVerdict';
 import { IntakeScorecard } from '../components/IntakeScorecard';
 import { IntakePreflightChecks } from '../components/IntakePreflightChecks';
+import { ConflictReviewPanel } from '@/features/conflicts/components/ConflictReviewPanel';
+import { useIntakeConflictCheck } from '@/features/conflicts/hooks/useConflictCheck';
 import { IntakeAcceptancePreview } from '../components/IntakeAcceptancePreview';
 import { IntakePaymentSummary } from '../components/IntakePaymentSummary';
 import type { AIAnswerCardSource } from '@/design-system/patterns';
+import { RecordPresenceIndicator } from '@/shared/components/RecordPresenceIndicator';
 
 // ── Helpers ──────────────────────────────────────────────────────────────────
 
@@ -147,6 +152,7 @@ function resolveFieldValue(
   const normalize = (v: unknown): string | null => {
     if (v === null || v === undefined || v === '') return null;
     if (typeof v === 'boolean') return v ? 'Yes' : 'No';
+    if (typeof v === 'number' && getFieldType(field) === 'currency') return formatCurrency(v);
     return String(v);
   };
 
@@ -332,6 +338,7 @@ export const IntakeDetailPage: FunctionComponent<IntakeDetailPageProps> = ({
     refetch: refetchIntake,
   } = useIntakeDetail(practiceId, intakeId);
   const intake: PracticeIntakeDetail | null = intakeData ?? null;
+  const { data: conflictCheck } = useIntakeConflictCheck(practiceId, intakeId);
 
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [localTriageStatus, setLocalTriageStatus] = useState<string | null>(null);
@@ -1282,6 +1289,14 @@ export const IntakeDetailPage: FunctionComponent<IntakeDetailPageProps> = ({
         stamp={stampText}
         onBack={onBack}
       />
+      {/* Triage is the write on an intake; an open accept/decline dialog counts as editing. */}
+      <RecordPresenceIndicator
+        practiceId={practiceId}
+        userId={session?.user?.id}
+        resource={`intake:${intake.uuid}`}
+        editing={triageDialogAction !== null}
+        className="px-4 pt-3 sm:px-6"
+      />
 
       <div className="flex-1 min-h-0 overflow-y-auto">
         <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_320px]">
@@ -1319,11 +1334,24 @@ export const IntakeDetailPage: FunctionComponent<IntakeDetailPageProps> = ({
             {/* C. Pre-flight checks. */}
             <IntakePreflightChecks
               enrichedData={enrichedData}
+              conflictCheck={conflictCheck ?? null}
               intakeState={intakeJurisdictionState}
               coverageStates={coverageStates}
               practiceServiceLabels={practiceServiceLabels}
             />
 
+            {/* C2. Conflict check — attorneys clear or confirm hits here. */}
+            {practiceId ? (
+              <ConflictReviewPanel
+                practiceId={practiceId}
+                intakeUuid={intake.uuid}
+                conversationId={intake.conversation_id ?? null}
+                fallbackNames={enrichedData?.conflict_check_names ?? []}
+                clientName={name}
+                opposingParty={typeof meta.opposing_party === 'string' ? meta.opposing_party : null}
+              />
+            ) : null}
+
             {/* D. Acceptance preview — informational, only when pending. */}
             {isPending ? (
               <IntakeAcceptancePreview
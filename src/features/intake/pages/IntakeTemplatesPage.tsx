@@ -45,9 +45,13 @@ import { fromMinorUnits, toMinorUnitsValue } from '@/shared/utils/money';
 import { getOnboardingStatusPayload } from '@/shared/lib/apiClient';
 import { STANDARD_FIELD_DEFINITIONS } from '@/shared/constants/intakeTemplates';
 import type { FieldCondition, FieldPhase, IntakeFieldDefinition, IntakeTemplate } from '@/shared/types/intake';
+import { describeFieldCondition, isSimpleFieldCondition } from '@/shared/utils/fieldConditions';
+import { getFieldType, isChoiceFieldType, toIntakeFieldType } from '@/shared/utils/intakeFieldTypes';
 import { EmbedCodeDialog, getPublicFormUrl, copyTextToClipboard } from '@/features/intake/components/EmbedCodeBlock';
 import { Pill } from '@/design-system/primitives';
 import { IntakeAnalyticsStrip } from '@/features/intake/components/IntakeAnalyticsStrip';
+import { useIntakeTemplateAnalytics } from '@/features/intake/hooks/useIntakeTemplateAnalytics';
+import { IntakeExperimentsPanel } from '@/features/intake/components/IntakeExperimentsPanel';
 import { IntakeAuthoringStrip } from '@/features/intake/components/IntakeAuthoringStrip';
 import {
   IntakeSuggestionBanner,
@@ -634,6 +638,7 @@ type TemplateEditorProps = {
   initial?: IntakeTemplate;
   hasSavedDraft?: boolean;
   existingTemplates: IntakeTemplate[];
+  practiceId: string | null;
   practiceSlug: string;
   practiceServices: Array<{ name: string; uuid: string }>;
   practiceOrganizationId?: string | null;
@@ -655,6 +660,7 @@ function TemplateEditor({
   initial,
   hasSavedDraft: initialHasSavedDraft = false,
   existingTemplates,
+  practiceId,
   practiceSlug,
   practiceServices,
   practiceOrganizationId = null,
@@ -713,6 +719,10 @@ function TemplateEditor({
     setState(updater);
   }, []);
 
+  // Analytics are keyed on the saved slug — intake_events only know
+  // templates that have actually run, so an unsaved rename has no history.
+  const { data: analytics } = useIntakeTemplateAnalytics(practiceId, initial?.slug ?? null);
+
   const draftTemplate = useMemo(() => editorStateToTemplate(state), [state]);
   const draftSnapshot = useMemo(() => serializeTemplate(draftTemplate), [draftTemplate]);
   const hasChanges = draftSnapshot !== savedSnapshot;
@@ -1579,10 +1589,24 @@ function TemplateEditor({
   // The strip is the most critical chat-first add — render it inline above
   // the live preview (the EditorShell `children` slot) so it stays in the
   // center column where the user's eye is when they're authoring.
+  const abandonedFieldKey = analytics?.mostAbandonedField?.key ?? null;
+  const analyticsStrip = (
+    <IntakeAnalyticsStrip
+      usesLast30Days={analytics?.uses ?? null}
+      conversionPercent={analytics?.conversionPercent ?? null}
+      steps={analytics?.steps}
+      medianTurnsToSubmit={analytics?.medianTurnsToSubmit ?? null}
+      mostAbandonedFieldLabel={abandonedFieldKey
+        ? draftTemplate.fields.find((field) => field.key === abandonedFieldKey)?.label ?? abandonedFieldKey
+        : null}
+      truncated={analytics?.truncated ?? false}
+    />
+  );
+
   const editorContent = (
     <div className="flex h-full flex-col">
       <div className="px-2 pt-4 sm:px-4">
-        <IntakeAnalyticsStrip usesLast30Days={null} conversionPercent={null} />
+        {analyticsStrip}
         <div className="mt-3">
           <IntakeAuthoringStrip
             instruction={authoringInstruction}
@@ -1611,8 +1635,12 @@ function TemplateEditor({
       const isStandard = selectedFieldContext.field.isStandard;
       const { field, phase } = selectedFieldContext;
       const key = field.key;
-      const fieldType = field.type ?? 'text';
+      const fieldType = getFieldType(field);
       const condition = field.condition ?? null;
+      // The inline picker edits the single-equality form. Compound conditions
+      // (all/any/not) are shown read-only with an option to reset.
+      const simpleCondition = condition && isSimpleFieldCondition(condition) ? condition : null;
+      const compoundCondition = condition && !simpleCondition ? condition : null;
 
       const FIELD_TYPE_LABELS: Record<string, string> = {
         text: 'Free text (short)',
@@ -1624,6 +1652,9 @@ function TemplateEditor({
         number: 'Number',
         select: 'Choose one',
         multiselect: 'Choose multiple',
+        currency: 'Dollar amount',
+        address: 'Address',
+        file_upload: 'File upload',
       };
 
       const currentDropdownValue = field.backendFieldType ?? fieldType;
@@ -1678,13 +1709,12 @@ function TemplateEditor({
                 disabled={isSaving}
                 onChange={(e) => {
                   const next = (e.target as HTMLSelectElement).value;
-                  const isSelect = next === 'select' || next === 'multiselect';
-                  const baseType = (next === 'textarea' || next === 'email' || next === 'phone' ? 'text' : next === 'multiselect' ? 'select' : next) as IntakeFieldDefinition['type'];
+                  const nextType = toIntakeFieldType(next);
                   updateField(key, phase, (f) => ({
                     ...f,
-                    type: baseType,
+                    type: nextType,
                     backendFieldType: next,
-                    options: isSelect ? (f.options ?? ['Option 1', 'Option 2']) : undefined,
+                    options: isChoiceFieldType(nextType) ? (f.options ?? ['Option 1', 'Option 2']) : undefined,
                   }));
                 }}
                 className="w-full rounded-lg border border-line-subtle bg-card px-3 py-2 text-sm text-ink focus:outline-none focus:ring-2 focus:ring-primary/40"
@@ -1698,11 +1728,14 @@ function TemplateEditor({
                 <option value="number">Number</option>
                 <option value="select">Choose one</option>
                 <option value="multiselect">Choose multiple</option>
+                <option value="currency">Dollar amount</option>
+                <option value="address">Address</option>
+                <option value="file_upload">File upload</option>
               </select>
             )}
           </ConfigField>
 
-          {!isStandard && fieldType === 'select' ? (
+          {!isStandard && isChoiceFieldType(fieldType) ? (
             <ConfigField label="Options">
               <div className="flex flex-col gap-1.5">
                 {(field.options ?? []).map((opt, idx) => (
@@ -1760,6 +1793,12 @@ function TemplateEditor({
                 fieldType === 'date' ? 'e.g. Any date format — AI converts to ISO' :
                 fieldType === 'number' ? 'e.g. Whole number' :
                 fieldType === 'select' ? 'e.g. One of the listed options' :
+                fieldType === 'multiselect' ? 'e.g. Any of the listed options' :
+                fieldType === 'currency' ? 'e.g. Approximate dollar amount' :
+                fieldType === 'address' ? 'e.g. Street address and city' :
+                fieldType === 'phone' ? 'e.g. Phone number with area code' :
+                fieldType === 'email' ? 'e.g. A reachable email address' :
+                fieldType === 'file_upload' ? 'e.g. A copy of the lease or contract' :
                 'e.g. A sentence describing the situation'
               }
               disabled={isSaving}
@@ -1768,16 +1807,34 @@ function TemplateEditor({
 
           {phase === 'enrichment' ? (
             <ConfigField label="Only ask when">
+              {compoundCondition ? (
+                <div className="flex flex-col gap-2">
+                  <p className="rounded-lg border border-line-subtle bg-card px-3 py-2 text-sm text-ink">
+                    {describeFieldCondition(compoundCondition)}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => updateField(key, phase, (f) => ({ ...f, condition: undefined }))}
+                    disabled={isSaving}
+                    className="self-start text-sm text-dim-2 hover:text-primary disabled:opacity-40"
+                  >
+                    Replace with a simple condition
+                  </button>
+                </div>
+              ) : (
               <div className="flex flex-col gap-2">
                 <select
-                  value={condition?.dependsOn ?? ''}
+                  value={simpleCondition?.dependsOn ?? ''}
                   disabled={isSaving}
                   onChange={(e) => {
                     const dependsOn = (e.target as HTMLSelectElement).value;
                     updateField(key, phase, (f) => ({
                       ...f,
                       condition: dependsOn
-                        ? ({ dependsOn, value: (f.condition?.dependsOn === dependsOn ? f.condition.value : '') } as FieldCondition)
+                        ? ({
+                          dependsOn,
+                          value: (isSimpleFieldCondition(f.condition) && f.condition.dependsOn === dependsOn ? f.condition.value : ''),
+                        } as FieldCondition)
                         : undefined,
                     }));
                   }}
@@ -1791,15 +1848,15 @@ function TemplateEditor({
                       <option key={f.key} value={f.key}>{f.label || f.key}</option>
                     ))}
                 </select>
-                {condition?.dependsOn === 'practiceServiceUuid' && practiceServices.length > 0 ? (
+                {simpleCondition?.dependsOn === 'practiceServiceUuid' && practiceServices.length > 0 ? (
                   <select
-                    value={typeof condition.value === 'string' ? condition.value : ''}
+                    value={typeof simpleCondition.value === 'string' ? simpleCondition.value : ''}
                     disabled={isSaving}
                     onChange={(e) => {
                       const value = (e.target as HTMLSelectElement).value;
                       updateField(key, phase, (f) => ({
                         ...f,
-                        condition: f.condition ? { ...f.condition, value } : undefined,
+                        condition: isSimpleFieldCondition(f.condition) ? { ...f.condition, value } : undefined,
                       }));
                     }}
                     className="w-full rounded-lg border border-line-subtle bg-card px-3 py-2 text-sm text-ink focus:outline-none focus:ring-2 focus:ring-primary/40"
@@ -1809,19 +1866,20 @@ function TemplateEditor({
                       <option key={svc.uuid} value={svc.uuid}>{svc.name}</option>
                     ))}
                   </select>
-                ) : condition?.dependsOn ? (
+                ) : simpleCondition?.dependsOn ? (
                   <Input
                     type="text"
-                    value={typeof condition.value === 'string' ? condition.value : String(condition.value)}
+                    value={typeof simpleCondition.value === 'string' ? simpleCondition.value : String(simpleCondition.value)}
                     onChange={(value) => updateField(key, phase, (f) => ({
                       ...f,
-                      condition: f.condition ? { ...f.condition, value } : undefined,
+                      condition: isSimpleFieldCondition(f.condition) ? { ...f.condition, value } : undefined,
                     }))}
                     placeholder="equals this value..."
                     disabled={isSaving}
                   />
                 ) : null}
               </div>
+              )}
             </ConfigField>
           ) : null}
 
@@ -2173,7 +2231,7 @@ function TemplateEditor({
               single "Talk to assistant" button on narrow viewports.
             */}
             <div className="mb-4 flex flex-col gap-3">
-              <IntakeAnalyticsStrip usesLast30Days={null} conversionPercent={null} />
+              {analyticsStrip}
               <IntakeAuthoringStrip
                 instruction={authoringInstruction}
                 onInstructionChange={setAuthoringInstruction}
@@ -2234,6 +2292,7 @@ type TemplateListViewProps = {
   onViewResponses: (template: IntakeTemplate) => void;
   onEdit: (template: IntakeTemplate) => void;
   onDelete: (template: IntakeTemplate) => Promise<void>;
+  onTemplatesChanged: () => Promise<void>;
 };
 
 function TemplateListView({
@@ -2247,6 +2306,7 @@ function TemplateListView({
   onViewResponses,
   onEdit,
   onDelete,
+  onTemplatesChanged,
 }: TemplateListViewProps) {
   const { showSuccess, showError } = useToastContext();
   const [deleteTarget, setDeleteTarget] = useState<IntakeTemplate | null>(null);
@@ -2406,6 +2466,13 @@ function TemplateListView({
           );
         }}
       />
+      {practiceId ? (
+        <IntakeExperimentsPanel
+          practiceId={practiceId}
+          templates={allTemplates}
+          onPromoted={onTemplatesChanged}
+        />
+      ) : null}
       {embedTarget ? (
         <EmbedCodeDialog
           isOpen
@@ -2543,7 +2610,7 @@ export default function IntakeTemplatesPage({
       return {
         key: f.key,
         label: f.label,
-        field_type: (f.backendFieldType || (f.type === 'select' ? 'select' : f.type === 'date' ? 'date' : f.type === 'boolean' ? 'boolean' : f.type === 'number' ? 'number' : 'text')) as IntakeTemplateFieldInput['field_type'],
+        field_type: (f.backendFieldType || getFieldType(f)) as IntakeTemplateFieldInput['field_type'],
         phase: f.phase ?? (f.required ? 'required' : 'enrichment'),
         required: f.required,
         order_index: idx,
@@ -2682,6 +2749,7 @@ export default function IntakeTemplatesPage({
         initial={editTarget}
         hasSavedDraft={editTarget?.status === 'draft'}
         existingTemplates={customTemplates}
+        practiceId={resolvedPracticeId}
         practiceSlug={currentPractice.slug ?? ''}
         practiceServices={practiceServices}
         practiceOrganizationId={currentPractice.betterAuthOrgId ?? currentPractice.id}
@@ -2713,6 +2781,7 @@ export default function IntakeTemplatesPage({
       onViewResponses={handleViewResponses}
       onEdit={handleEdit}
       onDelete={handleDelete}
+      onTemplatesChanged={reloadTemplates}
     />
   );
 }
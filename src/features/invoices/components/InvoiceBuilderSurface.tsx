@@ -239,6 +239,7 @@ export const InvoiceBuilderSurface = forwardRef<InvoiceFormHandle, InvoiceBuilde
           initialMemo={mode === 'edit' ? resolvedInvoice?.memo ?? undefined : draftContext?.memo ?? undefined}
           initialInvoiceType={mode === 'edit' ? resolvedInvoice?.sourceInvoice.invoice_type : draftContext?.invoiceType ?? undefined}
           existingInvoiceId={mode === 'edit' ? (existingInvoiceId ?? resolvedInvoice?.id ?? undefined) : undefined}
+          initialVersion={mode === 'edit' ? resolvedInvoice?.sourceInvoice.updated_at ?? null : null}
           closeAfterSuccess={false}
           onClose={onClose}
           onSuccess={onSuccess}
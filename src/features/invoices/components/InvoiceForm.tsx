@@ -10,6 +10,7 @@ import { useToastContext } from '@/shared/contexts/ToastContext';
 import type { MatterDetail } from '@/features/matters/data/matterTypes';
 import type { Invoice, InvoiceLineItem } from '@/features/matters/types/billing.types';
 import { createInvoice, sendInvoice, updateInvoice } from '@/features/invoices/services/invoicesService';
+import { describeStaleWrite, isStaleWriteError } from '@/shared/lib/staleWrite';
 import { createPendingInvoiceDraftContext } from '@/features/invoices/utils/invoiceDraftContext';
 import { InvoiceLineItemsForm } from '@/features/invoices/components/InvoiceLineItemsForm';
 import { InvoicePreview } from '@/features/invoices/components/InvoicePreview';
@@ -36,6 +37,8 @@ type InvoiceFormProps = {
   readOnly?: boolean;
   invoiceContext?: 'default' | 'milestone' | 'retainer';
   existingInvoiceId?: string;
+  /** `updated_at` of the invoice as loaded; saves are rejected once it moves on. */
+  initialVersion?: string | null;
   closeAfterSuccess?: boolean;
   onClose: () => void;
   onSuccess: (invoiceId?: string | null) => Promise<void> | void;
@@ -105,6 +108,7 @@ export const InvoiceForm = forwardRef<InvoiceFormHandle, InvoiceFormProps>(({
   readOnly = false,
   invoiceContext = 'default',
   existingInvoiceId,
+  initialVersion = null,
   closeAfterSuccess = true,
   onClose,
   onSuccess,
@@ -144,6 +148,7 @@ export const InvoiceForm = forwardRef<InvoiceFormHandle, InvoiceFormProps>(({
   const [createdInvoiceId, setCreatedInvoiceId] = useState<string | null>(
     resolvedEditMode ? existingInvoiceId ?? null : null
   );
+  const [recordVersion, setRecordVersion] = useState<string | null>(initialVersion);
   const [sendError, setSendError] = useState<string | null>(null);
   const invoiceType: Invoice['invoice_type'] = defaultInvoiceType;
   const isMatterScoped = Boolean(matter);
@@ -277,9 +282,10 @@ export const InvoiceForm = forwardRef<InvoiceFormHandle, InvoiceFormProps>(({
         memo,
         invoiceType,
         lineItems
-      }));
+      }), { version: recordVersion });
       const nextInvoiceId = updated?.id ?? existingInvoiceId;
       setCreatedInvoiceId(nextInvoiceId);
+      setRecordVersion(updated?.updated_at ?? null);
       setIsDirty(false);
       setLastSavedAt(new Date());
       return nextInvoiceId;
@@ -293,9 +299,10 @@ export const InvoiceForm = forwardRef<InvoiceFormHandle, InvoiceFormProps>(({
         memo,
         invoiceType,
         lineItems
-      }));
+      }), { version: recordVersion });
       const nextInvoiceId = updated?.id ?? createdInvoiceId;
       setCreatedInvoiceId(nextInvoiceId);
+      setRecordVersion(updated?.updated_at ?? null);
       setIsDirty(false);
       setLastSavedAt(new Date());
       return nextInvoiceId;
@@ -310,6 +317,7 @@ export const InvoiceForm = forwardRef<InvoiceFormHandle, InvoiceFormProps>(({
       throw new Error('Invoice ID missing in create response.');
     }
     setCreatedInvoiceId(nextInvoiceId);
+    setRecordVersion(created?.updated_at ?? null);
     setIsDirty(false);
     setLastSavedAt(new Date());
     return nextInvoiceId;
@@ -333,7 +341,9 @@ export const InvoiceForm = forwardRef<InvoiceFormHandle, InvoiceFormProps>(({
       const invoiceId = await ensureInvoicePersisted();
       await sendPersistedInvoice(invoiceId);
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'Failed to send invoice';
+      const message = isStaleWriteError(error)
+        ? describeStaleWrite(error.details)
+        : error instanceof Error ? error.message : 'Failed to send invoice';
       setSendError(message);
     } finally {
       setIsSending(false);
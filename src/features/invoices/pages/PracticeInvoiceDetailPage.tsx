@@ -8,6 +8,8 @@ import type { InvoiceDetail } from '@/features/invoices/types';
 import { usePracticeManagement } from '@/shared/hooks/usePracticeManagement';
 import { useInvoiceDetail } from '@/features/invoices/hooks/useInvoiceDetail';
 import { usePracticeInvoiceDetailController } from '@/features/invoices/components/detail/PracticeInvoiceDetailView';
+import { RecordPresenceIndicator } from '@/shared/components/RecordPresenceIndicator';
+import { useSessionContext } from '@/shared/contexts/SessionContext';
 
 const buildHeaderSubtitle = (detail: InvoiceDetail): string => {
   const parts: string[] = [];
@@ -116,6 +118,7 @@ function PracticeInvoiceDetailShell({
   onInspector,
   inspectorOpen,
 }: PracticeInvoiceDetailShellProps) {
+  const { session } = useSessionContext();
   const { actionBar, mainContent } = usePracticeInvoiceDetailController({
     practiceId,
     practiceSlug,
@@ -137,6 +140,12 @@ function PracticeInvoiceDetailShell({
         inspectorOpen={inspectorOpen}
         actions={actionBar}
       />
+      <RecordPresenceIndicator
+        practiceId={practiceId}
+        userId={session?.user?.id}
+        resource={`invoice:${detail.id}`}
+        className="px-4 pt-3 sm:px-6"
+      />
       {mainContent}
     </div>
   );
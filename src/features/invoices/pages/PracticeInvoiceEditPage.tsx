@@ -8,6 +8,8 @@ import { InvoiceBuilderSurface } from '@/features/invoices/components/InvoiceBui
 import type { InvoiceFormHandle } from '@/features/invoices/components/InvoiceForm';
 import { InvoiceEditHeaderActions } from '@/features/invoices/components/edit/InvoiceEditHeaderActions';
 import { getValidatedInternalReturnPath } from '@/shared/utils/workspace';
+import { RecordPresenceIndicator } from '@/shared/components/RecordPresenceIndicator';
+import { useSessionContext } from '@/shared/contexts/SessionContext';
 
 export function PracticeInvoiceEditPage({
   practiceId,
@@ -21,6 +23,7 @@ export function PracticeInvoiceEditPage({
   const location = useLocation();
   const { navigate } = useNavigation();
   const { showError } = useToastContext();
+  const { session } = useSessionContext();
   const { currentPractice } = usePracticeManagement({
     practiceSlug: practiceSlug ?? undefined,
     fetchPracticeDetails: true,
@@ -75,6 +78,12 @@ export function PracticeInvoiceEditPage({
       actions={<InvoiceEditHeaderActions formRef={formRef} />}
     >
       <div className="mx-auto flex min-h-0 w-full max-w-7xl flex-col gap-4 px-4 py-6 sm:px-6 lg:px-8">
+        <RecordPresenceIndicator
+          practiceId={practiceId}
+          userId={session?.user?.id}
+          resource={`invoice:${invoiceId}`}
+          editing
+        />
         <InvoiceBuilderSurface
           ref={formRef}
           mode="edit"
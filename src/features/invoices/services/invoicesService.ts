@@ -283,7 +283,7 @@ export const updateInvoice = async (
   practiceId: string,
   invoiceId: string,
   payload: Partial<CreateInvoicePayload>,
-  options: FetchOptions = {}
+  options: FetchOptions & { version?: string | null } = {}
 ) => {
   return updateMatterInvoice(practiceId, invoiceId, payload, options);
 };
@@ -1,3 +1,4 @@
+import type { ComponentChildren } from 'preact';
 import { Tabs, type TabItem } from '@/shared/ui/tabs/Tabs';
 import { MatterDetailHeader, type MatterDetailHeaderProps } from '@/features/matters/components/MatterDetailHeader';
 import { MatterOverviewTab, type MatterOverviewTabProps } from '@/features/matters/components/MatterOverviewTab';
@@ -54,6 +55,8 @@ export interface MatterDetailPanelProps {
    * without a count badge.
    */
   tabCounts?: MatterDetailTabCounts;
+  /** Who else has this matter open; rendered under the header. */
+  presence?: ComponentChildren;
 }
 
 const buildTabs = (counts?: MatterDetailTabCounts): TabItem[] => [
@@ -77,10 +80,12 @@ export const MatterDetailPanel = ({
   billing,
   activity,
   settings,
-  tabCounts
+  tabCounts,
+  presence
 }: MatterDetailPanelProps) => (
   <div className="page-detail">
     <MatterDetailHeader {...header} />
+    {presence}
     <div className="tab-bar">
       <Tabs
         items={buildTabs(tabCounts)}
@@ -22,6 +22,8 @@ import {
   type TimeEntry
 } from '@/features/matters/data/matterTypes';
 import { MatterEditForm, type MatterFormState } from '@/features/matters/components/MatterForm';
+import { RecordPresenceIndicator } from '@/shared/components/RecordPresenceIndicator';
+import { describeStaleWrite, isStaleWriteError } from '@/shared/lib/staleWrite';
 import { TimeEntryForm, type TimeEntryFormValues } from '@/features/matters/components/time-entries/TimeEntryForm';
 import type { MatterTaskFormValues } from '@/features/matters/components/tasks/MatterTaskForm';
 import {
@@ -1175,6 +1177,15 @@ export const PracticeMattersPage = ({
   }, [engagement, engagementCreating, goToDetail, selectedMatterId, showError]);
 
   // ── Matter CRUD ───────────────────────────────────────────────────────────
+  // Saves carry the matter's updated_at; when someone else saved first the
+  // worker rejects ours. Reload the matter so the next attempt starts from
+  // the current version, and surface which fields our save differed in.
+  const rethrowStaleWrite = useCallback(async (error: unknown): Promise<never> => {
+    if (!isStaleWriteError(error)) throw error;
+    await refreshSelectedMatter();
+    throw new Error(describeStaleWrite(error.details));
+  }, [refreshSelectedMatter]);
+
   const handleUpdateMatter = useCallback(async (values: MatterFormState) => {
     if (!activePracticeId || !selectedMatterId) return;
     if (values.clientId && !isUuid(values.clientId)) throw new Error(`Invalid client_id UUID: "${values.clientId}"`);
@@ -1183,11 +1194,12 @@ export const PracticeMattersPage = ({
     await updateMatter(
       activePracticeId,
       selectedMatterId,
-      prunePayload(buildUpdatePayload(values, selectedMatterDetail?.status))
-    );
+      prunePayload(buildUpdatePayload(values, selectedMatterDetail?.status)),
+      { version: selectedMatterDetail?.updatedAt }
+    ).catch(rethrowStaleWrite);
     refreshMatters();
     await refreshSelectedMatter();
-  }, [activePracticeId, selectedMatterId, selectedMatterDetail?.status, refreshMatters, refreshSelectedMatter]);
+  }, [activePracticeId, selectedMatterId, selectedMatterDetail?.status, selectedMatterDetail?.updatedAt, refreshMatters, refreshSelectedMatter, rethrowStaleWrite]);
 
   // ── Status update shortcut (uses buildFormStateFromDetail) ────────────────
   const handleUpdateStatus = useCallback((newStatus: MatterStatus) => {
@@ -1786,11 +1798,12 @@ export const PracticeMattersPage = ({
     await updateMatter(
       activePracticeId,
       selectedMatterId,
-      prunePayload(buildUpdatePayload(merged, selectedMatterDetail.status))
-    );
+      prunePayload(buildUpdatePayload(merged, selectedMatterDetail.status)),
+      { version: selectedMatterDetail.updatedAt }
+    ).catch(rethrowStaleWrite);
     refreshMatters();
     await refreshSelectedMatter();
-  }, [activePracticeId, selectedMatterId, selectedMatterDetail, refreshMatters, refreshSelectedMatter]);
+  }, [activePracticeId, selectedMatterId, selectedMatterDetail, refreshMatters, refreshSelectedMatter, rethrowStaleWrite]);
 
   useEffect(() => {
     if (typeof window === 'undefined') return;
@@ -2053,6 +2066,15 @@ export const PracticeMattersPage = ({
             else goToDetail(selectedMatterDetail.id, next);
           }}
           tabCounts={detailTabCounts}
+          presence={(
+            <RecordPresenceIndicator
+              practiceId={activePracticeId}
+              userId={session?.user?.id}
+              resource={`matter:${selectedMatterDetail.id}`}
+              editing={isEditDialogOpen}
+              className="px-4 pb-2 sm:px-6"
+            />
+          )}
           header={{
             detail: selectedMatterDetail,
             clientLabel: detailClientOption?.name ?? 'Unassigned client',
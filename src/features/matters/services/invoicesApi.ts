@@ -5,6 +5,7 @@ import {
   pluckCollection,
   unwrapApiResponse,
 } from '@/shared/lib/apiClient';
+import { toStaleWriteError, versionHeaders } from '@/shared/lib/staleWrite';
 import { urls } from '@/config/urls';
 import {
   assertMajorUnits,
@@ -62,6 +63,8 @@ const requestData = async <T>(promise: Promise<{ data: T }>, fallbackMessage: st
     return response.data;
   } catch (error) {
     if (isAbortError(error)) throw error;
+    const staleWrite = toStaleWriteError(error);
+    if (staleWrite) throw staleWrite;
     const normalized = new Error(getErrorMessage(error, fallbackMessage)) as Error & { status?: number };
     if (isHttpError(error)) normalized.status = error.response.status;
     throw normalized;
@@ -435,7 +438,9 @@ export const updateInvoice = async (
   practiceId: string,
   invoiceId: string,
   payload: Partial<CreateInvoicePayload>,
-  options: FetchOptions = {}
+  // `version` is the invoice's updated_at when it was loaded; a save against
+  // a newer version is rejected with a StaleWriteError.
+  options: FetchOptions & { version?: string | null } = {}
 ): Promise<Invoice | null> => {
   if (!practiceId || !invoiceId) return null;
   const body: Record<string, unknown> = { ...payload };
@@ -453,7 +458,11 @@ export const updateInvoice = async (
     apiClient.patch(
       urls.updateInvoice(practiceId, invoiceId),
       body,
-      { signal: options.signal, invalidates: INVOICE_CACHE_INVALIDATIONS }
+      {
+        signal: options.signal,
+        headers: versionHeaders(options.version),
+        invalidates: INVOICE_CACHE_INVALIDATIONS
+      }
     ),
     'Failed to update invoice'
   );
@@ -6,6 +6,7 @@ import {
   unwrapApiResponse,
   apiClient,
 } from '@/shared/lib/apiClient';
+import { toStaleWriteError, versionHeaders } from '@/shared/lib/staleWrite';
 import {
   matterCollectionPath,
   matterItemPath,
@@ -216,7 +217,7 @@ const requestData = async <T>(promise: Promise<{ data: T }>, fallbackMessage: st
     return response.data;
   } catch (error) {
     if (isAbortError(error)) throw error;
-    throw new Error(getErrorMessage(error, fallbackMessage));
+    throw toStaleWriteError(error) ?? new Error(getErrorMessage(error, fallbackMessage));
   }
 };
 
@@ -339,7 +340,9 @@ export const updateMatter = async (
   practiceId: string,
   matterId: string,
   payload: Record<string, unknown>,
-  options: FetchOptions = {}
+  // `version` is the matter's updated_at when it was loaded; a save against
+  // a newer version is rejected with a StaleWriteError.
+  options: FetchOptions & { version?: string | null } = {}
 ): Promise<BackendMatter | null> => {
   if (!practiceId || !matterId) {
     throw new Error('practiceId and matterId are required');
@@ -350,7 +353,11 @@ export const updateMatter = async (
     apiClient.put(
       matterItemPath(practiceId, matterId),
       normalizedPayload,
-      { signal: options.signal, invalidates: [`matters:${practiceId}:`] }
+      {
+        signal: options.signal,
+        headers: versionHeaders(options.version),
+        invalidates: [`matters:${practiceId}:`]
+      }
     ),
     'Failed to update matter'
   );
@@ -1,9 +1,11 @@
 import { useEffect, useState } from 'preact/hooks';
-import { Sparkles } from 'lucide-preact';
+import { Paperclip, Sparkles } from 'lucide-preact';
 import { Icon } from '@/shared/ui/Icon';
 import { LoadingBlock } from '@/shared/ui/layout/LoadingBlock';
 import { listIntakeTemplates } from '@/features/intake/api/intakeTemplatesApi';
-import type { IntakeFieldDefinition, IntakeTemplate } from '@/shared/types/intake';
+import { AddressInput } from '@/shared/ui/address/AddressInput';
+import type { IntakeFieldDefinition, IntakeFieldType, IntakeTemplate } from '@/shared/types/intake';
+import { getFieldType } from '@/shared/utils/intakeFieldTypes';
 import type { OnboardingDraft } from '../types';
 
 interface IntakeFormStepProps {
@@ -11,12 +13,28 @@ interface IntakeFormStepProps {
   onTemplateReady?: (template: IntakeTemplate | null) => void;
 }
 
+const PREVIEW_INPUT_TYPES: Partial<Record<IntakeFieldType, string>> = {
+  number: 'number',
+  currency: 'text',
+  phone: 'tel',
+  email: 'email',
+};
+
+const PREVIEW_PLACEHOLDERS: Partial<Record<IntakeFieldType, string>> = {
+  date: 'MM/DD/YYYY',
+  currency: '$0.00',
+  phone: '(555) 014-2190',
+  email: 'jane@example.com',
+};
+
 const fieldPhase = (field: IntakeFieldDefinition) => field.phase ?? (field.required ? 'required' : 'enrichment');
 
 const PreviewInput = ({ field }: { field: IntakeFieldDefinition }) => {
   const inputClass = 'mt-1.5 w-full rounded-sm border border-[var(--rule)] bg-[var(--paper)] px-3 py-2 text-sm text-dim';
+  const chipClass = 'rounded-sm border border-[var(--rule)] bg-[var(--paper)] px-3 py-1.5 text-xs text-dim';
+  const fieldType = getFieldType(field);
 
-  if (field.type === 'select') {
+  if (fieldType === 'select') {
     return (
       <select className={inputClass} disabled aria-label={field.label}>
         <option>{field.options?.[0] ?? 'Select an option'}</option>
@@ -24,11 +42,47 @@ const PreviewInput = ({ field }: { field: IntakeFieldDefinition }) => {
     );
   }
 
-  if (field.type === 'boolean') {
+  if (fieldType === 'multiselect') {
+    return (
+      <div className="mt-2 flex flex-wrap gap-2" aria-label={field.label}>
+        {(field.options?.length ? field.options : ['Option 1', 'Option 2']).map((option) => (
+          <span key={option} className={chipClass}>{option}</span>
+        ))}
+      </div>
+    );
+  }
+
+  if (fieldType === 'boolean') {
     return (
       <div className="mt-2 flex gap-2" aria-label={field.label}>
-        <span className="rounded-sm border border-[var(--rule)] bg-[var(--paper)] px-3 py-1.5 text-xs text-dim">Yes</span>
-        <span className="rounded-sm border border-[var(--rule)] bg-[var(--paper)] px-3 py-1.5 text-xs text-dim">No</span>
+        <span className={chipClass}>Yes</span>
+        <span className={chipClass}>No</span>
+      </div>
+    );
+  }
+
+  if (fieldType === 'address') {
+    return (
+      <AddressInput
+        className="mt-1.5"
+        value={{}}
+        onChange={() => undefined}
+        disabled
+        showCountry={false}
+        size="sm"
+        placeholder={field.validationHint ?? 'Start typing an address'}
+      />
+    );
+  }
+
+  if (fieldType === 'file_upload') {
+    return (
+      <div
+        className="mt-1.5 flex items-center gap-2 rounded-sm border border-dashed border-[var(--rule)] bg-[var(--paper)] px-3 py-3 text-sm text-dim"
+        aria-label={field.label}
+      >
+        <Icon icon={Paperclip} className="h-3.5 w-3.5" />
+        {field.validationHint ?? 'Client attaches a file'}
       </div>
     );
   }
@@ -47,8 +101,8 @@ const PreviewInput = ({ field }: { field: IntakeFieldDefinition }) => {
   return (
     <input
       className={inputClass}
-      type={field.type === 'number' ? 'number' : 'text'}
-      placeholder={field.validationHint ?? (field.type === 'date' ? 'MM/DD/YYYY' : 'Client answer')}
+      type={PREVIEW_INPUT_TYPES[fieldType] ?? 'text'}
+      placeholder={field.validationHint ?? PREVIEW_PLACEHOLDERS[fieldType] ?? 'Client answer'}
       disabled
       aria-label={field.label}
     />
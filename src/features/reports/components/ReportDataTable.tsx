@@ -10,8 +10,8 @@ interface ReportDataTableProps {
   emptyState?: ComponentChildren;
 }
 
-const formatValue = (kind: ColumnKind, value: unknown): ComponentChildren => {
-  return formatReportValue(kind, value);
+const formatValue = (kind: ColumnKind, value: unknown, currency: unknown): ComponentChildren => {
+  return formatReportValue(kind, value, { currency: typeof currency === 'string' ? currency : undefined });
 };
 
 const toDataTableColumns = (columns: ColumnSpec[]): DataTableColumn[] =>
@@ -27,7 +27,7 @@ const toDataTableRows = (rows: Record<string, unknown>[], columns: ColumnSpec[])
   rows.map((row, idx) => ({
     id: typeof row.id === 'string' ? row.id : String(idx),
     cells: Object.fromEntries(
-      columns.map((col) => [col.key, formatValue(col.kind, row[col.key])])
+      columns.map((col) => [col.key, formatValue(col.kind, row[col.key], row.currency)])
     ),
   }));
 
@@ -11,8 +11,30 @@ interface ReportListKpiRowProps {
   meta: Record<string, unknown>;
 }
 
-const formatMetaValue = (kind: ColumnKind, value: unknown): string => {
-  return formatReportValue(kind, value, { checkEmptyString: false });
+const formatMetaValue = (kind: ColumnKind, value: unknown, currency?: string): string => {
+  return formatReportValue(kind, value, { checkEmptyString: false, currency });
+};
+
+const readSubtotals = (meta: Record<string, unknown>): Record<string, unknown>[] =>
+  Array.isArray(meta.subtotals)
+    ? meta.subtotals.filter((s): s is Record<string, unknown> => Boolean(s) && typeof s === 'object')
+    : [];
+
+/**
+ * Money totals are never summed across currencies: mixed-currency reports
+ * list one amount per currency (subtotals use the same keys as the totals).
+ */
+const formatCardValue = (card: SummaryCardSpec, meta: Record<string, unknown>): string => {
+  const subtotals = readSubtotals(meta);
+  const currencyOf = (subtotal: Record<string, unknown>) =>
+    typeof subtotal.currency === 'string' ? subtotal.currency : undefined;
+  if (card.kind === 'money' && subtotals.length > 1) {
+    return subtotals
+      .map((subtotal) => formatMetaValue(card.kind, subtotal[card.metaKey], currencyOf(subtotal)))
+      .join(' · ');
+  }
+  const currency = subtotals.length === 1 ? currencyOf(subtotals[0]) : undefined;
+  return formatMetaValue(card.kind, meta[card.metaKey], currency);
 };
 
 export const ReportListKpiRow: FunctionComponent<ReportListKpiRowProps> = ({ cards, meta }) => (
@@ -21,7 +43,7 @@ export const ReportListKpiRow: FunctionComponent<ReportListKpiRowProps> = ({ car
       <StatCard
         key={card.id}
         label={card.label}
-        value={formatMetaValue(card.kind, meta[card.metaKey])}
+        value={formatCardValue(card, meta)}
       />
     ))}
   </div>
@@ -4,6 +4,7 @@ import { AlertTriangle } from 'lucide-preact';
 
 import { useToastContext } from '@/shared/contexts/ToastContext';
 import type { ReportDefinition } from '@/features/reports/config/reportCollection';
+import type { ReportExportFormat } from '@/features/reports/services/reportsTypes';
 import { useReportData } from '@/features/reports/hooks/useReportData';
 import { useReportExport } from '@/features/reports/hooks/useReportExport';
 import { BackendUnavailableState } from './BackendUnavailableState';
@@ -56,9 +57,9 @@ export const ReportPageShell: FunctionComponent<ReportPageShellProps> = ({ defin
     return <BackendUnavailableState definition={definition} />;
   }
 
-  const handleExport = async () => {
+  const handleExport = async (format: ReportExportFormat) => {
     try {
-      await exportReport(practiceId, definition.id, queryParams);
+      await exportReport(practiceId, definition.id, queryParams, format);
     } catch (err) {
       showError(err instanceof Error ? err.message : 'Export failed');
     }
@@ -95,6 +96,13 @@ export const ReportPageShell: FunctionComponent<ReportPageShellProps> = ({ defin
         <ReportListKpiRow cards={definition.summaryCards} meta={data.meta} />
       ) : null}
 
+      {data?.meta?.truncated === true ? (
+        <div className="flex items-center gap-2 rounded-md border border-amber-500/30 bg-amber-500/5 px-3 py-2 text-sm text-amber-300">
+          <AlertTriangle className="h-4 w-4" />
+          <span>This range hit the report&apos;s row limit, so only part of it is counted. Narrow the dates for complete figures.</span>
+        </div>
+      ) : null}
+
       {error ? (
         <div className="flex items-center justify-between rounded-md border border-red-500/30 bg-red-500/5 px-3 py-2">
           <div className="flex items-center gap-2 text-sm text-red-400">
@@ -1,11 +1,21 @@
 import type { FunctionComponent } from 'preact';
 import { Download, CalendarClock, Send } from 'lucide-preact';
 import { Button } from '@/shared/ui/Button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/shared/ui/dropdown';
 import type { ReportDefinition } from '@/features/reports/config/reportCollection';
+import {
+  REPORT_EXPORT_FORMAT_OPTIONS,
+  type ReportExportFormat,
+} from '@/features/reports/services/reportsTypes';
 
 interface ReportToolbarProps {
   definition: ReportDefinition;
-  onExport?: () => void;
+  onExport?: (format: ReportExportFormat) => void;
   onSchedule?: () => void;
   onSendNow?: () => void;
   exporting?: boolean;
@@ -21,15 +31,25 @@ export const ReportToolbar: FunctionComponent<ReportToolbarProps> = ({
   const disabled = definition.phase === 3;
   return (
     <div className="flex flex-wrap items-center gap-2">
-      <Button
-        size="sm"
-        variant="secondary"
-        icon={Download}
-        disabled={disabled || exporting}
-        onClick={onExport}
-      >
-        Export CSV
-      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            size="sm"
+            variant="secondary"
+            icon={Download}
+            disabled={disabled || exporting}
+          >
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-36 p-1">
+          {REPORT_EXPORT_FORMAT_OPTIONS.map((option) => (
+            <DropdownMenuItem key={option.value} onSelect={() => onExport?.(option.value)}>
+              {option.label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
       <Button
         size="sm"
         variant="secondary"
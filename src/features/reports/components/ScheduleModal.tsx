@@ -1,12 +1,18 @@
-import { useState } from 'preact/hooks';
+import { useEffect, useMemo, useState } from 'preact/hooks';
 import type { FunctionComponent } from 'preact';
 import { Dialog, DialogBody, DialogFooter } from '@/shared/ui/dialog';
 import { Button } from '@/shared/ui/Button';
 import { Input } from '@/shared/ui/input/Input';
+import { Combobox, type ComboboxOption } from '@/shared/ui/input/Combobox';
 import { Seg } from '@/design-system/patterns';
 import { useToastContext } from '@/shared/contexts/ToastContext';
 import { reportsApi } from '@/features/reports/services/reportsApi';
-import type { ReportFrequency } from '@/features/reports/services/reportsTypes';
+import {
+  REPORT_EXPORT_FORMAT_OPTIONS,
+  type ReportExportFormat,
+  type ReportFrequency,
+  type ReportScheduleTiming,
+} from '@/features/reports/services/reportsTypes';
 
 interface ScheduleModalProps {
   isOpen: boolean;
@@ -21,8 +27,49 @@ const FREQ_OPTIONS: ReadonlyArray<{ value: ReportFrequency; label: string }> = [
   { value: 'daily', label: 'Daily' },
   { value: 'weekly', label: 'Weekly' },
   { value: 'monthly', label: 'Monthly' },
+  { value: 'custom', label: 'Custom' },
 ];
 
+const TIMEZONES = [
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Phoenix',
+  'America/Los_Angeles',
+  'America/Anchorage',
+  'Pacific/Honolulu',
+  'UTC',
+];
+
+const CRON_EXAMPLES: ReadonlyArray<{ label: string; cron: string }> = [
+  { label: 'First business day of month, 7am', cron: '0 7 1W * *' },
+  { label: 'Every other Friday, 4pm', cron: '0 16 * * FRI%2' },
+  { label: 'Weekdays, 8am', cron: '0 8 * * MON-FRI' },
+  { label: 'Last day of month, 5pm', cron: '0 17 L * *' },
+];
+
+const PREVIEW_DEBOUNCE_MS = 300;
+
+const resolveDefaultTimezone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+const formatRunTime = (iso: string, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(iso));
+
 export const ScheduleModal: FunctionComponent<ScheduleModalProps> = ({
   isOpen,
   onClose,
@@ -32,13 +79,58 @@ export const ScheduleModal: FunctionComponent<ScheduleModalProps> = ({
   onCreated,
 }) => {
   const [frequency, setFrequency] = useState<ReportFrequency>('weekly');
-  const [hourUtc, setHourUtc] = useState(9);
+  const [hour, setHour] = useState(9);
+  const [timezone, setTimezone] = useState(resolveDefaultTimezone);
+  const [cron, setCron] = useState(CRON_EXAMPLES[0].cron);
   const [dayOfWeek, setDayOfWeek] = useState(1);
   const [dayOfMonth, setDayOfMonth] = useState(1);
   const [recipientsInput, setRecipientsInput] = useState('');
+  const [format, setFormat] = useState<ReportExportFormat>('csv');
   const [submitting, setSubmitting] = useState(false);
+  const [previewRuns, setPreviewRuns] = useState<string[]>([]);
+  const [previewError, setPreviewError] = useState<string | null>(null);
   const { showError, showSuccess } = useToastContext();
 
+  const timezoneOptions = useMemo<ComboboxOption[]>(() => {
+    const zones = TIMEZONES.includes(timezone) ? TIMEZONES : [timezone, ...TIMEZONES];
+    return zones.map((zone) => ({ value: zone, label: zone }));
+  }, [timezone]);
+
+  const timing = useMemo<ReportScheduleTiming>(() => (
+    frequency === 'custom'
+      ? { frequency, cron: cron.trim(), timezone }
+      : {
+        frequency,
+        hour,
+        timezone,
+        dayOfWeek: frequency === 'weekly' ? dayOfWeek : undefined,
+        dayOfMonth: frequency === 'monthly' ? dayOfMonth : undefined,
+      }
+  ), [cron, dayOfMonth, dayOfWeek, frequency, hour, timezone]);
+
+  useEffect(() => {
+    if (!isOpen) return undefined;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      reportsApi
+        .previewSchedule(practiceId, timing, controller.signal)
+        .then((preview) => {
+          if (controller.signal.aborted) return;
+          setPreviewRuns(preview.runs);
+          setPreviewError(null);
+        })
+        .catch((err: unknown) => {
+          if (controller.signal.aborted) return;
+          setPreviewRuns([]);
+          setPreviewError(err instanceof Error ? err.message : 'Unable to preview schedule');
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isOpen, practiceId, timing]);
+
   const handleSubmit = async () => {
     setSubmitting(true);
     try {
@@ -48,10 +140,8 @@ export const ScheduleModal: FunctionComponent<ScheduleModalProps> = ({
         .filter(Boolean);
       await reportsApi.createSchedule(practiceId, {
         reportType,
-        frequency,
-        dayOfWeek: frequency === 'weekly' ? dayOfWeek : undefined,
-        dayOfMonth: frequency === 'monthly' ? dayOfMonth : undefined,
-        hourUtc,
+        format,
+        ...timing,
         recipients,
         filters,
         active: true,
@@ -79,14 +169,42 @@ export const ScheduleModal: FunctionComponent<ScheduleModalProps> = ({
               onChange={setFrequency}
             />
           </div>
-          <Input
-            label="Hour (UTC, 0-23)"
-            type="number"
-            min={0}
-            max={23}
-            value={String(hourUtc)}
-            onChange={(v) => setHourUtc(Number(v) || 0)}
-          />
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-ink">Timezone</span>
+            <Combobox
+              value={timezone}
+              options={timezoneOptions}
+              onChange={setTimezone}
+              clearable={false}
+              searchable={false}
+            />
+          </div>
+          {frequency === 'custom' ? (
+            <div className="flex flex-col gap-2">
+              <Input
+                label="Cron expression"
+                value={cron}
+                onChange={setCron}
+                placeholder="0 7 1W * *"
+              />
+              <div className="flex flex-wrap gap-1.5">
+                {CRON_EXAMPLES.map((example) => (
+                  <Button key={example.cron} variant="secondary" size="sm" onClick={() => setCron(example.cron)}>
+                    {example.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <Input
+              label="Hour (0-23, in the timezone above)"
+              type="number"
+              min={0}
+              max={23}
+              value={String(hour)}
+              onChange={(v) => setHour(Number(v) || 0)}
+            />
+          )}
           {frequency === 'weekly' ? (
             <Input
               label="Day of week (0=Sun … 6=Sat)"
@@ -107,17 +225,38 @@ export const ScheduleModal: FunctionComponent<ScheduleModalProps> = ({
               onChange={(v) => setDayOfMonth(Number(v) || 1)}
             />
           ) : null}
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-ink">Format</span>
+            <Seg<ReportExportFormat>
+              value={format}
+              options={REPORT_EXPORT_FORMAT_OPTIONS}
+              ariaLabel="Format"
+              onChange={setFormat}
+            />
+          </div>
           <Input
             label="Recipients (user IDs, comma-separated)"
             value={recipientsInput}
             onChange={setRecipientsInput}
             placeholder="user_123, user_456"
           />
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-ink">Next runs</span>
+            {previewError ? (
+              <p className="text-xs text-danger">{previewError}</p>
+            ) : (
+              <ul className="flex flex-col gap-0.5 text-xs text-dim">
+                {previewRuns.map((run) => (
+                  <li key={run}>{formatRunTime(run, timezone)}</li>
+                ))}
+              </ul>
+            )}
+          </div>
         </div>
       </DialogBody>
       <DialogFooter>
         <Button variant="secondary" onClick={onClose} disabled={submitting}>Cancel</Button>
-        <Button onClick={handleSubmit} disabled={submitting}>{submitting ? 'Saving…' : 'Create schedule'}</Button>
+        <Button onClick={handleSubmit} disabled={submitting || Boolean(previewError)}>{submitting ? 'Saving…' : 'Create schedule'}</Button>
       </DialogFooter>
     </Dialog>
   );
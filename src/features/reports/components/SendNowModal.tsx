@@ -5,7 +5,12 @@ import { Button } from '@/shared/ui/Button';
 import { Input } from '@/shared/ui/input/Input';
 import { LoadingSpinner } from '@/shared/ui/layout/LoadingSpinner';
 import { useToastContext } from '@/shared/contexts/ToastContext';
+import { Seg } from '@/design-system/patterns';
 import { reportsApi } from '@/features/reports/services/reportsApi';
+import {
+  REPORT_EXPORT_FORMAT_OPTIONS,
+  type ReportExportFormat,
+} from '@/features/reports/services/reportsTypes';
 
 interface SendNowModalProps {
   isOpen: boolean;
@@ -25,6 +30,7 @@ export const SendNowModal: FunctionComponent<SendNowModalProps> = ({
   onSent,
 }) => {
   const [recipientsInput, setRecipientsInput] = useState('');
+  const [format, setFormat] = useState<ReportExportFormat>('csv');
   const [submitting, setSubmitting] = useState(false);
   const { showError, showSuccess } = useToastContext();
 
@@ -35,7 +41,7 @@ export const SendNowModal: FunctionComponent<SendNowModalProps> = ({
         .split(',')
         .map((r) => r.trim())
         .filter(Boolean);
-      await reportsApi.sendNow(practiceId, { reportType, recipients, filters });
+      await reportsApi.sendNow(practiceId, { reportType, format, recipients, filters });
       showSuccess('Report sent', 'View it in Deliveries.');
       onSent?.();
       onClose();
@@ -53,6 +59,15 @@ export const SendNowModal: FunctionComponent<SendNowModalProps> = ({
           <p className="text-sm text-dim-2">
             Generate this report now and store it under Deliveries. Optionally notify recipients.
           </p>
+          <div className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-ink">Format</span>
+            <Seg<ReportExportFormat>
+              value={format}
+              options={REPORT_EXPORT_FORMAT_OPTIONS}
+              ariaLabel="Format"
+              onChange={setFormat}
+            />
+          </div>
           <Input
             label="Recipients (user IDs, comma-separated, optional)"
             value={recipientsInput}
@@ -10,8 +10,8 @@ import {
 } from '../reportCollection';
 
 describe('REPORT_DEFINITIONS', () => {
-  it('contains exactly nine reports', () => {
-    expect(REPORT_DEFINITIONS).toHaveLength(9);
+  it('contains exactly twelve reports', () => {
+    expect(REPORT_DEFINITIONS).toHaveLength(12);
   });
 
   it('every definition has at least one column', () => {
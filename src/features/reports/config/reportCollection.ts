@@ -13,10 +13,13 @@ export type ReportId =
   | 'profitability'
   | 'utilization'
   | 'trust-ledger'
+  | 'trust-reconciliation'
   | 'wip'
   | 'originating-attorney'
   | 'matters-by-attorney'
-  | 'task-productivity';
+  | 'task-productivity'
+  | 'intake-funnel'
+  | 'ai-usage';
 
 export type ReportIconName =
   | 'trending'
@@ -185,6 +188,25 @@ export const REPORT_DEFINITIONS: ReportDefinition[] = [
       { id: 'endingBalance', label: 'Ending balance', kind: 'money', metaKey: 'endingBalanceCents' },
     ],
   },
+  {
+    id: 'trust-reconciliation',
+    title: 'Three-Way Reconciliation',
+    description: 'Bank statement, trust ledger and client ledgers for the month.',
+    icon: 'wallet',
+    phase: 2,
+    filters: [DATE_RANGE_FILTER],
+    columns: [
+      { key: 'section', label: 'Section', kind: 'text', hideAt: 'sm' },
+      { key: 'item', label: 'Item', kind: 'text', isPrimary: true },
+      { key: 'date', label: 'Date', kind: 'date', hideAt: 'sm' },
+      { key: 'amountCents', label: 'Amount', kind: 'money', align: 'right' },
+    ],
+    summaryCards: [
+      { id: 'adjustedBank', label: 'Adjusted bank', kind: 'money', metaKey: 'adjustedBankBalanceCents' },
+      { id: 'trustLedger', label: 'Trust ledger', kind: 'money', metaKey: 'bookBalanceCents' },
+      { id: 'clientLedgers', label: 'Client ledgers', kind: 'money', metaKey: 'clientLedgerTotalCents' },
+    ],
+  },
   {
     id: 'wip',
     title: 'Work in Progress',
@@ -258,6 +280,52 @@ export const REPORT_DEFINITIONS: ReportDefinition[] = [
       { id: 'avgCycle', label: 'Avg cycle (days)', kind: 'days', metaKey: 'averageCycleDays' },
     ],
   },
+  {
+    id: 'intake-funnel',
+    title: 'Intake Funnel',
+    description: 'Intake template uses, step drop-off and conversion.',
+    icon: 'chart',
+    phase: 2,
+    filters: [DATE_RANGE_FILTER],
+    columns: [
+      { key: 'templateSlug', label: 'Template', kind: 'text', isPrimary: true },
+      { key: 'uses', label: 'Uses', kind: 'number', align: 'right' },
+      { key: 'contactCount', label: 'Contact', kind: 'number', align: 'right', hideAt: 'sm' },
+      { key: 'caseCount', label: 'Case', kind: 'number', align: 'right', hideAt: 'sm' },
+      { key: 'submitted', label: 'Submitted', kind: 'number', align: 'right' },
+      { key: 'conversionPercent', label: 'Conversion', kind: 'percent', align: 'right' },
+      { key: 'medianTurnsToSubmit', label: 'Median turns', kind: 'number', align: 'right', hideAt: 'md' },
+      { key: 'mostAbandonedField', label: 'Most abandoned field', kind: 'text', hideAt: 'md' },
+    ],
+    summaryCards: [
+      { id: 'totalUses', label: 'Intake uses', kind: 'number', metaKey: 'totalUses' },
+      { id: 'totalSubmitted', label: 'Submitted', kind: 'number', metaKey: 'totalSubmitted' },
+      { id: 'overallConversion', label: 'Conversion', kind: 'percent', metaKey: 'overallConversionPercent' },
+    ],
+  },
+  {
+    id: 'ai-usage',
+    title: 'AI Usage',
+    description: 'AI tokens by feature and model, and month-to-date use against the budget.',
+    icon: 'chart',
+    phase: 2,
+    filters: [DATE_RANGE_FILTER],
+    columns: [
+      { key: 'feature', label: 'Feature', kind: 'text', isPrimary: true },
+      { key: 'model', label: 'Model', kind: 'text' },
+      { key: 'calls', label: 'Calls', kind: 'number', align: 'right' },
+      { key: 'fallbackCalls', label: 'Fallback calls', kind: 'number', align: 'right', hideAt: 'md' },
+      { key: 'inputTokens', label: 'Input tokens', kind: 'number', align: 'right', hideAt: 'sm' },
+      { key: 'outputTokens', label: 'Output tokens', kind: 'number', align: 'right', hideAt: 'sm' },
+      { key: 'totalTokens', label: 'Total tokens', kind: 'number', align: 'right' },
+    ],
+    summaryCards: [
+      { id: 'totalTokens', label: 'Tokens', kind: 'number', metaKey: 'totalTokens' },
+      { id: 'totalCalls', label: 'Calls', kind: 'number', metaKey: 'totalCalls' },
+      { id: 'fallbackCalls', label: 'On fallback model', kind: 'number', metaKey: 'fallbackCalls' },
+      { id: 'monthToDateTokens', label: 'Tokens this month', kind: 'number', metaKey: 'monthToDateTokens' },
+    ],
+  },
 ];
 
 const DEFINITIONS_BY_ID = new Map<string, ReportDefinition>(
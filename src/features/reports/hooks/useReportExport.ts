@@ -1,10 +1,16 @@
 import { useCallback, useState } from 'preact/hooks';
 import { reportsApi, type ReportQueryParams } from '@/features/reports/services/reportsApi';
+import type { ReportExportFormat } from '@/features/reports/services/reportsTypes';
 
 interface UseReportExportResult {
   exporting: boolean;
   error: string | null;
-  exportReport: (practiceId: string, reportType: string, params?: ReportQueryParams) => Promise<void>;
+  exportReport: (
+    practiceId: string,
+    reportType: string,
+    params?: ReportQueryParams,
+    format?: ReportExportFormat
+  ) => Promise<void>;
 }
 
 export const useReportExport = (): UseReportExportResult => {
@@ -12,12 +18,17 @@ export const useReportExport = (): UseReportExportResult => {
   const [error, setError] = useState<string | null>(null);
 
   const exportReport = useCallback(
-    async (practiceId: string, reportType: string, params: ReportQueryParams = {}) => {
+    async (
+      practiceId: string,
+      reportType: string,
+      params: ReportQueryParams = {},
+      format: ReportExportFormat = 'csv'
+    ) => {
       setExporting(true);
       setError(null);
       let url: string | undefined;
       try {
-        const { blob, filename } = await reportsApi.exportReport(practiceId, reportType, params);
+        const { blob, filename } = await reportsApi.exportReport(practiceId, reportType, params, format);
         url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
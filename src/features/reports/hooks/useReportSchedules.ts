@@ -1,18 +1,14 @@
 import { useCallback, useEffect, useState } from 'preact/hooks';
 import { reportsApi } from '@/features/reports/services/reportsApi';
-import type { ReportSchedule, ReportFrequency } from '@/features/reports/services/reportsTypes';
+import type { ReportSchedule, ReportScheduleTiming } from '@/features/reports/services/reportsTypes';
 
 interface UseReportSchedulesResult {
   schedules: ReportSchedule[];
   loading: boolean;
   error: string | null;
   refetch: () => void;
-  create: (body: {
+  create: (body: ReportScheduleTiming & {
     reportType: string;
-    frequency: ReportFrequency;
-    dayOfWeek?: number;
-    dayOfMonth?: number;
-    hourUtc: number;
     recipients: string[];
     filters: Record<string, string>;
     active?: boolean;
@@ -13,10 +13,13 @@ import { AgingReport } from './reports/AgingReport';
 import { ProfitabilityReport } from './reports/ProfitabilityReport';
 import { UtilizationReport } from './reports/UtilizationReport';
 import { TrustLedgerReport } from './reports/TrustLedgerReport';
+import { TrustReconciliationReport } from './reports/TrustReconciliationReport';
 import { WipReport } from './reports/WipReport';
 import { OriginatingAttorneyReport } from './reports/OriginatingAttorneyReport';
 import { MattersByAttorneyReport } from './reports/MattersByAttorneyReport';
 import { TaskProductivityReport } from './reports/TaskProductivityReport';
+import { IntakeFunnelReport } from './reports/IntakeFunnelReport';
+import { AiUsageReport } from './reports/AiUsageReport';
 import { DeliveriesListView } from './reports/DeliveriesListView';
 import { DeliveryDetailView } from './reports/DeliveryDetailView';
 
@@ -63,10 +66,13 @@ export const PracticeReportsPage: FunctionComponent<PracticeReportsPageProps> =
     case 'profitability': return <ProfitabilityReport {...sharedProps} />;
     case 'utilization': return <UtilizationReport {...sharedProps} />;
     case 'trust-ledger': return <TrustLedgerReport {...sharedProps} />;
+    case 'trust-reconciliation': return <TrustReconciliationReport {...sharedProps} />;
     case 'wip': return <WipReport {...sharedProps} />;
     case 'originating-attorney': return <OriginatingAttorneyReport {...sharedProps} />;
     case 'matters-by-attorney': return <MattersByAttorneyReport {...sharedProps} />;
     case 'task-productivity': return <TaskProductivityReport {...sharedProps} />;
+    case 'intake-funnel': return <IntakeFunnelReport {...sharedProps} />;
+    case 'ai-usage': return <AiUsageReport {...sharedProps} />;
     default:
       return (
         <div className="flex min-h-0 flex-1 flex-col gap-2 p-4 sm:p-6">
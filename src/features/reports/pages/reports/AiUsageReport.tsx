@@ -0,0 +1,18 @@
+import type { FunctionComponent } from 'preact';
+import { getReportDefinition } from '@/features/reports/config/reportCollection';
+import { ReportPageShell } from '@/features/reports/components/ReportPageShell';
+
+interface AiUsageReportProps {
+  practiceId: string;
+  practiceSlug: string | null;
+}
+
+export const AiUsageReport: FunctionComponent<AiUsageReportProps> = ({ practiceId, practiceSlug }) => (
+  <ReportPageShell
+    definition={getReportDefinition('ai-usage')}
+    practiceId={practiceId}
+    practiceSlug={practiceSlug}
+  />
+);
+
+export default AiUsageReport;
@@ -271,13 +271,9 @@ export const AllReportsHub: FunctionComponent<AllReportsHubProps> = ({ practiceI
   }, [navigate, practiceSlug]);
 
   const handleDownloadPdf = useCallback(async () => {
-    // Worker exports CSV today (no server-side PDF rendering yet); we surface
-    // that to the user so they don't expect a binary PDF blob.
-    // TODO(backend): add `format=pdf` support to `/api/reports/:practiceId/export/:type`
-    // so this button can deliver a real PDF instead of CSV.
     try {
-      await exportReport(practiceId, 'revenue', { period: queryPeriod });
-      showSuccess('Export downloaded', 'CSV saved. PDF export coming soon.');
+      await exportReport(practiceId, 'revenue', { period: queryPeriod }, 'pdf');
+      showSuccess('Export downloaded', 'Revenue report saved as PDF.');
     } catch (err) {
       showError('Export failed', err instanceof Error ? err.message : 'Try again in a moment.');
     }
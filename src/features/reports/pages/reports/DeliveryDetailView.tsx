@@ -6,6 +6,7 @@ import { LoadingSpinner } from '@/shared/ui/layout/LoadingSpinner';
 import { WorkspacePlaceholderState } from '@/shared/ui/layout/WorkspacePlaceholderState';
 import { useNavigation } from '@/shared/utils/navigation';
 import { reportsApi } from '@/features/reports/services/reportsApi';
+import { REPORT_EXPORT_FORMAT_LABELS } from '@/features/reports/services/reportsTypes';
 import { useReportDeliveryDetail } from '@/features/reports/hooks/useReportDeliveries';
 import {
   REPORT_DEFINITIONS,
@@ -71,7 +72,7 @@ export const DeliveryDetailView: FunctionComponent<DeliveryDetailViewProps> = ({
             className="inline-flex items-center gap-2 rounded-md bg-accent/10 px-3 py-1.5 text-sm font-medium text-accent"
           >
             <Download className="h-4 w-4" />
-            Download CSV
+            Download {REPORT_EXPORT_FORMAT_LABELS[delivery.format]}
           </a>
         ) : null}
       </div>
@@ -0,0 +1,18 @@
+import type { FunctionComponent } from 'preact';
+import { getReportDefinition } from '@/features/reports/config/reportCollection';
+import { ReportPageShell } from '@/features/reports/components/ReportPageShell';
+
+interface IntakeFunnelReportProps {
+  practiceId: string;
+  practiceSlug: string | null;
+}
+
+export const IntakeFunnelReport: FunctionComponent<IntakeFunnelReportProps> = ({ practiceId, practiceSlug }) => (
+  <ReportPageShell
+    definition={getReportDefinition('intake-funnel')}
+    practiceId={practiceId}
+    practiceSlug={practiceSlug}
+  />
+);
+
+export default IntakeFunnelReport;
@@ -0,0 +1,18 @@
+import type { FunctionComponent } from 'preact';
+import { getReportDefinition } from '@/features/reports/config/reportCollection';
+import { ReportPageShell } from '@/features/reports/components/ReportPageShell';
+
+interface TrustReconciliationReportProps {
+  practiceId: string;
+  practiceSlug: string | null;
+}
+
+export const TrustReconciliationReport: FunctionComponent<TrustReconciliationReportProps> = ({ practiceId, practiceSlug }) => (
+  <ReportPageShell
+    definition={getReportDefinition('trust-reconciliation')}
+    practiceId={practiceId}
+    practiceSlug={practiceSlug}
+  />
+);
+
+export default TrustReconciliationReport;
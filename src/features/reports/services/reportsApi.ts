@@ -7,8 +7,10 @@ import type {
   ProfitabilityRow,
   ReportDelivery,
   ReportEnvelope,
-  ReportFrequency,
+  ReportExportFormat,
   ReportSchedule,
+  ReportSchedulePreview,
+  ReportScheduleTiming,
   RevenueMeta,
   RevenueRow,
   UtilizationMeta,
@@ -65,14 +67,15 @@ export const reportsApi = {
   ): Promise<ReportEnvelope<TRow, TMeta>> =>
     fetchReport<TRow, TMeta>(practiceId, reportType, params),
 
-  /** Returns the raw CSV blob URL ready for `<a download>` use. */
+  /** Returns the rendered export (CSV, XLSX or PDF) ready for `<a download>` use. */
   async exportReport(
     practiceId: string,
     reportType: string,
-    params: ReportQueryParams = {}
+    params: ReportQueryParams = {},
+    format: ReportExportFormat = 'csv'
   ): Promise<{ blob: Blob; filename: string }> {
     const { signal, ...query } = params;
-    const relativeUrl = reportPath(practiceId, `export/${reportType}`) + queryString({ format: 'csv', ...query });
+    const relativeUrl = reportPath(practiceId, `export/${reportType}`) + queryString({ format, ...query });
     const fullUrl = /^https?:\/\//.test(relativeUrl) ? relativeUrl : `${getWorkerApiUrl()}${relativeUrl}`;
     const response = await fetch(fullUrl, { credentials: 'include', signal });
     if (!response.ok) {
@@ -80,7 +83,7 @@ export const reportsApi = {
     }
     const disposition = response.headers.get('Content-Disposition') ?? '';
     const fnameMatch = /filename="([^"]+)"/i.exec(disposition);
-    const filename = fnameMatch?.[1] ?? `${reportType}.csv`;
+    const filename = fnameMatch?.[1] ?? `${reportType}.${format}`;
     const blob = await response.blob();
     return { blob, filename };
   },
@@ -92,12 +95,9 @@ export const reportsApi = {
   },
   async createSchedule(
     practiceId: string,
-    body: {
+    body: ReportScheduleTiming & {
       reportType: string;
-      frequency: ReportFrequency;
-      dayOfWeek?: number;
-      dayOfMonth?: number;
-      hourUtc: number;
+      format?: ReportExportFormat;
       recipients: string[];
       filters: Record<string, string>;
       active?: boolean;
@@ -106,6 +106,14 @@ export const reportsApi = {
     const { data } = await apiClient.post<unknown>(reportPath(practiceId, 'schedules'), body);
     return unwrapApiResponse<ReportSchedule>(data);
   },
+  async previewSchedule(
+    practiceId: string,
+    body: ReportScheduleTiming,
+    signal?: AbortSignal
+  ): Promise<ReportSchedulePreview> {
+    const { data } = await apiClient.post<unknown>(reportPath(practiceId, 'schedules/preview'), body, { signal });
+    return unwrapApiResponse<ReportSchedulePreview>(data);
+  },
   async updateSchedule(
     practiceId: string,
     scheduleId: string,
@@ -123,6 +131,7 @@ export const reportsApi = {
     practiceId: string,
     body: {
       reportType: string;
+      format?: ReportExportFormat;
       recipients: string[];
       filters: Record<string, string>;
     }
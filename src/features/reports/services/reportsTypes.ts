@@ -1,6 +1,7 @@
 /**
  * Wire types for report responses. Money fields are suffixed `*Cents`
- * for invoice-derived amounts (integers) and `*Hours` for time totals.
+ * for invoice-derived amounts (integer minor units of the row's
+ * `currency`) and `*Hours` for time totals.
  */
 
 export interface ReportEnvelope<TRow, TMeta extends Record<string, unknown> = Record<string, unknown>> {
@@ -11,47 +12,77 @@ export interface ReportEnvelope<TRow, TMeta extends Record<string, unknown> = Re
   meta?: TMeta;
 }
 
+/**
+ * Reports whose rows carry a currency. Money totals are null when rows span
+ * more than one currency; `subtotals` then has one entry per currency, keyed
+ * like the totals.
+ */
+export interface CurrencySplitMeta<TTotals> {
+  currencies?: string[];
+  subtotals?: Array<TTotals & { currency: string }>;
+}
+
 export interface RevenueRow {
   periodLabel: string;
   periodStart: string;
   periodEnd: string;
+  currency: string;
   invoiceCount: number;
   paidAmountCents: number;
   outstandingAmountCents: number;
 }
 
-export interface RevenueMeta extends Record<string, unknown> {
+interface RevenueTotals {
   totalPaidCents: number;
   totalOutstandingCents: number;
   totalInvoiceCount: number;
 }
 
+export interface RevenueMeta extends Record<string, unknown>, CurrencySplitMeta<RevenueTotals> {
+  totalPaidCents: number | null;
+  totalOutstandingCents: number | null;
+  totalInvoiceCount: number;
+}
+
 export interface AgingRow {
   bucketLabel: string;
   bucketMinDays: number;
   bucketMaxDays: number | null;
+  currency: string;
   invoiceCount: number;
   totalAmountCents: number;
 }
 
-export interface AgingMeta extends Record<string, unknown> {
+interface AgingTotals {
   totalOutstandingCents: number;
   totalInvoiceCount: number;
 }
 
+export interface AgingMeta extends Record<string, unknown>, CurrencySplitMeta<AgingTotals> {
+  totalOutstandingCents: number | null;
+  totalInvoiceCount: number;
+}
+
 export interface ProfitabilityRow {
   matterId: string;
   matterTitle: string;
+  currency: string;
   revenueCents: number;
   estimatedCostCents: number;
   marginCents: number;
   billableHours: number;
 }
 
-export interface ProfitabilityMeta extends Record<string, unknown> {
+interface ProfitabilityTotals {
   totalRevenueCents: number;
   totalCostCents: number;
   totalMarginCents: number;
+}
+
+export interface ProfitabilityMeta extends Record<string, unknown>, CurrencySplitMeta<ProfitabilityTotals> {
+  totalRevenueCents: number | null;
+  totalCostCents: number | null;
+  totalMarginCents: number | null;
   truncated?: boolean;
 }
 
@@ -75,38 +106,57 @@ export interface TrustLedgerRow {
   occurredAt: string;
   clientName: string | null;
   description: string | null;
+  currency: string;
   amountCents: number;
   balanceCents: number;
 }
 
-export interface TrustLedgerMeta extends Record<string, unknown> {
+interface TrustLedgerTotals {
   totalCreditsCents: number;
   totalDebitsCents: number;
   endingBalanceCents: number;
+  transactionCount: number;
+}
+
+export interface TrustLedgerMeta extends Record<string, unknown>, CurrencySplitMeta<TrustLedgerTotals> {
+  totalCreditsCents: number | null;
+  totalDebitsCents: number | null;
+  endingBalanceCents: number | null;
 }
 
 export interface WipRow {
   matterId: string;
   matterTitle: string;
+  currency: string;
   unbilledHours: number;
   unbilledAmountCents: number;
 }
 
-export interface WipMeta extends Record<string, unknown> {
-  totalUnbilledHours: number;
+interface WipTotals {
   totalUnbilledAmountCents: number;
   matterCount: number;
 }
 
+export interface WipMeta extends Record<string, unknown>, CurrencySplitMeta<WipTotals> {
+  totalUnbilledHours: number;
+  totalUnbilledAmountCents: number | null;
+  matterCount: number;
+}
+
 export interface OriginatingAttorneyRow {
   attorneyId: string;
   attorneyName: string;
+  currency: string;
   matterCount: number;
   revenueCents: number;
 }
 
-export interface OriginatingAttorneyMeta extends Record<string, unknown> {
+interface OriginatingAttorneyTotals {
   totalRevenueCents: number;
+}
+
+export interface OriginatingAttorneyMeta extends Record<string, unknown>, CurrencySplitMeta<OriginatingAttorneyTotals> {
+  totalRevenueCents: number | null;
   totalMatterCount: number;
 }
 
@@ -149,16 +199,36 @@ export type ReportRow =
   | MattersByAttorneyRow
   | TaskProductivityRow;
 
-export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
+
+export type ReportExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const REPORT_EXPORT_FORMAT_LABELS: Record<ReportExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  pdf: 'PDF',
+};
+
+export const REPORT_EXPORT_FORMAT_OPTIONS: ReadonlyArray<{ value: ReportExportFormat; label: string }> =
+  (['csv', 'xlsx', 'pdf'] as const).map((value) => ({ value, label: REPORT_EXPORT_FORMAT_LABELS[value] }));
 
 export interface ReportSchedule {
   id: string;
   practiceId: string;
   reportType: string;
+  /** Missing on schedules created before format support; those deliver CSV. */
+  format?: ReportExportFormat;
   frequency: ReportFrequency;
   dayOfWeek?: number;
   dayOfMonth?: number;
-  hourUtc: number;
+  /** Legacy UTC hour; only present on schedules saved before timezone support. */
+  hourUtc?: number;
+  /** Wall-clock delivery hour in `timezone`. */
+  hour?: number;
+  /** IANA timezone. Missing means UTC. */
+  timezone?: string;
+  /** Cron expression for custom schedules. */
+  cron?: string;
   recipients: string[];
   filters: Record<string, string>;
   active: boolean;
@@ -167,12 +237,28 @@ export interface ReportSchedule {
   nextDeliveryAt?: string;
 }
 
+/** Timing fields shared by schedule create and preview requests. */
+export interface ReportScheduleTiming {
+  frequency: ReportFrequency;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  hour?: number;
+  timezone?: string;
+  cron?: string;
+}
+
+export interface ReportSchedulePreview {
+  runs: string[];
+  timezone: string;
+}
+
 export type ReportDeliveryStatus = 'pending' | 'completed' | 'failed';
 
 export interface ReportDelivery {
   id: string;
   practiceId: string;
   reportType: string;
+  format: ReportExportFormat;
   filters: Record<string, string>;
   recipients: string[];
   status: ReportDeliveryStatus;
@@ -1,8 +1,10 @@
-import { formatCurrency } from '@/shared/utils/currencyFormatter';
+import { formatCurrency, getCurrencyFractionDigits } from '@/shared/utils/currencyFormatter';
 import type { ColumnKind } from '@/features/reports/config/reportCollection';
 
 interface FormatReportValueOptions {
   checkEmptyString?: boolean;
+  /** ISO currency of a 'money' value (minor units); defaults to USD. */
+  currency?: string;
 }
 
 export const formatReportValue = (
@@ -10,12 +12,15 @@ export const formatReportValue = (
   value: unknown,
   options: FormatReportValueOptions = {}
 ): string => {
-  const { checkEmptyString = true } = options;
+  const { checkEmptyString = true, currency = 'USD' } = options;
   if (value == null || (checkEmptyString && value === '')) return '—';
 
   switch (kind) {
     case 'money':
-      return formatCurrency(typeof value === 'number' ? value / 100 : 0);
+      return formatCurrency(
+        typeof value === 'number' ? value / 10 ** getCurrencyFractionDigits(currency) : 0,
+        currency
+      );
     case 'percent':
       return `${typeof value === 'number' ? value.toFixed(1) : value}%`;
     case 'hours':
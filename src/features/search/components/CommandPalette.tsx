@@ -4,13 +4,16 @@ import { useNavigation } from '@/shared/utils/navigation';
 import { useSessionContext } from '@/shared/contexts/SessionContext';
 import { useGlobalSearch } from '../hooks/useGlobalSearch';
 import { useSearchRecents } from '../hooks/useSearchRecents';
+import { useSavedSearches } from '../hooks/useSavedSearches';
 import { recordSearchClick } from '../services/searchApi';
 import {
+  highlightTerms,
   parseQuery,
   type SearchScope,
 } from '../utils/parseQuery';
 import { highlightText } from '../utils/highlightText';
 import type {
+  SavedSearch,
   SearchEnvelope,
   SearchResultItem,
   SearchEntityType,
@@ -26,6 +29,11 @@ import {
   StickyNote,
   Search,
   BarChart3,
+  Bookmark,
+  Pin,
+  PinOff,
+  Share2,
+  Trash2,
 } from 'lucide-preact';
 
 type CommandPaletteProps = {
@@ -63,6 +71,8 @@ export function CommandPalette({
   const { navigate } = useNavigation();
   const userId = session?.user?.id ?? null;
   const { recents, push: pushRecent } = useSearchRecents(practiceId, userId);
+  const saved = useSavedSearches(practiceId);
+  const [saveFormOpen, setSaveFormOpen] = useState(false);
 
   const { envelope, loading, error } = useGlobalSearch(practiceId, query);
   const suggestions = envelope?.suggestions ?? [];
@@ -70,6 +80,7 @@ export function CommandPalette({
   useEffect(() => {
     if (!open) {
       setQuery('');
+      setSaveFormOpen(false);
       return;
     }
     setQuery(initialQuery);
@@ -100,8 +111,14 @@ export function CommandPalette({
   const setQueryAndReset = useCallback((next: string) => {
     setQuery(next);
     setActiveIndex(0);
+    setSaveFormOpen(false);
   }, []);
 
+  const trimmedQuery = query.trim();
+  const alreadySaved = saved.savedSearches.some(
+    (search) => search.ownerUserId === userId && search.query === trimmedQuery,
+  );
+
   const selectResult = useCallback(
     (item: SearchResultItem, rank: number): void => {
       if (envelope?.queryLogId && practiceId) {
@@ -166,7 +183,29 @@ export function CommandPalette({
           className="flex-1 bg-transparent py-3 outline-none text-base text-ink placeholder:text-dim-2"
           aria-label="Search query"
         />
+        {trimmedQuery && !alreadySaved ? (
+          <button
+            type="button"
+            onClick={() => setSaveFormOpen((prev) => !prev)}
+            className="p-1.5 rounded-md text-dim hover:text-ink hover:bg-paper-2"
+            aria-label="Save search"
+            aria-expanded={saveFormOpen}
+            title="Save search"
+          >
+            <Bookmark size={16} aria-hidden="true" />
+          </button>
+        ) : null}
       </div>
+      {saveFormOpen && trimmedQuery ? (
+        <SaveSearchForm
+          query={trimmedQuery}
+          onSave={async (name, shared) => {
+            await saved.create({ name, query: trimmedQuery, shared });
+            setSaveFormOpen(false);
+          }}
+          onCancel={() => setSaveFormOpen(false)}
+        />
+      ) : null}
       <div className="max-h-[60vh] overflow-y-auto py-2">
         {suggestions.length > 0 ? (
           <SuggestionsList
@@ -193,10 +232,24 @@ export function CommandPalette({
             envelope={envelope}
             activeIndex={activeIndex}
             onSelect={selectResult}
-            terms={parsed.terms}
+            terms={highlightTerms(parsed.terms)}
           />
-        ) : recents.length > 0 ? (
-          <RecentsList recents={recents} onPick={(q) => setQueryAndReset(q)} />
+        ) : saved.savedSearches.length > 0 || recents.length > 0 ? (
+          <>
+            {saved.savedSearches.length > 0 ? (
+              <SavedSearchesList
+                searches={saved.savedSearches}
+                userId={userId}
+                onPick={(q) => setQueryAndReset(q)}
+                onTogglePin={(search) => void saved.update(search.id, { pinned: !search.pinned }).catch(() => {})}
+                onToggleShare={(search) => void saved.update(search.id, { shared: !search.shared }).catch(() => {})}
+                onDelete={(search) => void saved.remove(search.id).catch(() => {})}
+              />
+            ) : null}
+            {recents.length > 0 ? (
+              <RecentsList recents={recents} onPick={(q) => setQueryAndReset(q)} />
+            ) : null}
+          </>
         ) : (
           <EmptyState message="Start typing to search" />
         )}
@@ -344,6 +397,153 @@ function DidYouMean({
   );
 }
 
+function SaveSearchForm({
+  query,
+  onSave,
+  onCancel,
+}: {
+  query: string;
+  onSave: (name: string, shared: boolean) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const [name, setName] = useState(query.slice(0, 120));
+  const [shared, setShared] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (event: Event) => {
+    event.preventDefault();
+    if (!name.trim() || saving) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(name.trim(), shared);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save search');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-line-subtle text-sm"
+    >
+      <input
+        type="text"
+        value={name}
+        maxLength={120}
+        onInput={(event) => setName((event.target as HTMLInputElement).value)}
+        onKeyDown={(event) => event.stopPropagation()}
+        placeholder="Name this search"
+        aria-label="Saved search name"
+        className="flex-1 min-w-[10rem] bg-paper-2 rounded-md px-2 py-1 outline-none text-ink"
+      />
+      <label className="flex items-center gap-1.5 text-xs text-dim">
+        <input
+          type="checkbox"
+          checked={shared}
+          onChange={(event) => setShared((event.target as HTMLInputElement).checked)}
+        />
+        Share with practice
+      </label>
+      <button
+        type="submit"
+        disabled={!name.trim() || saving}
+        className="px-2.5 py-1 rounded-md bg-ink text-paper text-xs font-medium disabled:opacity-50"
+      >
+        {saving ? 'Saving…' : 'Save'}
+      </button>
+      <button type="button" onClick={onCancel} className="px-2 py-1 text-xs text-dim hover:text-ink">
+        Cancel
+      </button>
+      {error ? <div className="w-full text-xs text-red-600">{error}</div> : null}
+    </form>
+  );
+}
+
+function SavedSearchesList({
+  searches,
+  userId,
+  onPick,
+  onTogglePin,
+  onToggleShare,
+  onDelete,
+}: {
+  searches: SavedSearch[];
+  userId: string | null;
+  onPick: (query: string) => void;
+  onTogglePin: (search: SavedSearch) => void;
+  onToggleShare: (search: SavedSearch) => void;
+  onDelete: (search: SavedSearch) => void;
+}) {
+  const actionClass = 'p-1 rounded-md text-dim-2 hover:text-ink hover:bg-paper-2';
+  return (
+    <div className="px-2 pb-2">
+      <div className="px-3 pt-3 pb-1 text-[11px] uppercase tracking-wider text-dim-2 font-medium">
+        Saved searches
+      </div>
+      {searches.map((search) => {
+        const owned = search.ownerUserId === userId;
+        return (
+          <div
+            key={search.id}
+            className="group flex items-center gap-1 rounded-lg hover:bg-paper-2/60"
+          >
+            <button
+              type="button"
+              onClick={() => onPick(search.query)}
+              className="flex-1 min-w-0 flex items-center gap-3 px-3 py-2 text-left"
+            >
+              <Bookmark size={14} className="shrink-0 text-dim-2" aria-hidden="true" />
+              <span className="min-w-0 flex-1">
+                <span className="block text-sm text-ink truncate">{search.name}</span>
+                {search.name !== search.query ? (
+                  <span className="block text-xs text-dim truncate">{search.query}</span>
+                ) : null}
+              </span>
+              {search.shared ? (
+                <span className="text-[10px] uppercase text-dim-2">{owned ? 'shared' : 'team'}</span>
+              ) : null}
+            </button>
+            <button
+              type="button"
+              onClick={() => onTogglePin(search)}
+              className={actionClass}
+              aria-label={search.pinned ? `Unpin ${search.name}` : `Pin ${search.name} to sidebar`}
+              title={search.pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+            >
+              {search.pinned ? <PinOff size={14} aria-hidden="true" /> : <Pin size={14} aria-hidden="true" />}
+            </button>
+            {owned ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => onToggleShare(search)}
+                  className={actionClass}
+                  aria-label={search.shared ? `Stop sharing ${search.name}` : `Share ${search.name} with practice`}
+                  title={search.shared ? 'Stop sharing' : 'Share with practice'}
+                >
+                  <Share2 size={14} aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(search)}
+                  className={cn(actionClass, 'mr-1')}
+                  aria-label={`Delete ${search.name}`}
+                  title="Delete"
+                >
+                  <Trash2 size={14} aria-hidden="true" />
+                </button>
+              </>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 function RecentsList({
   recents,
   onPick,
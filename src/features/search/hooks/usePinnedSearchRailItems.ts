@@ -0,0 +1,36 @@
+import { useMemo } from 'preact/hooks';
+import { Bookmark } from 'lucide-preact';
+import type { LeftRailItem } from '@/design-system/layout';
+import type { IconComponent } from '@/shared/ui/Icon';
+import { useCommandPalette } from '../contexts/CommandPaletteContext';
+import { useSavedSearches } from './useSavedSearches';
+
+/** Sidebar count key for a pinned saved search (see useSidebarCounts). */
+export const savedSearchCountKey = (id: string): string => `saved-search:${id}`;
+
+/**
+ * Rail entries for the user's pinned saved searches. Each one reopens the
+ * command palette on its query; the badge is the live match count from the
+ * sidebar counts endpoint.
+ */
+export function usePinnedSearchRailItems(
+  practiceId: string | null,
+  counts: Record<string, number>,
+  href: string,
+): LeftRailItem[] {
+  const { pinned } = useSavedSearches(practiceId);
+  const { open, enabled } = useCommandPalette();
+
+  return useMemo(() => {
+    if (!enabled) return [];
+    return pinned.map((search) => ({
+      id: savedSearchCountKey(search.id),
+      label: search.name,
+      icon: Bookmark as IconComponent,
+      href,
+      badge: counts[savedSearchCountKey(search.id)] ?? null,
+      isAction: true,
+      onClick: () => open(search.query),
+    }));
+  }, [pinned, enabled, counts, href, open]);
+}
@@ -0,0 +1,67 @@
+import { useCallback, useMemo } from 'preact/hooks';
+import { useQuery } from '@/shared/hooks/useQuery';
+import { policyTtl } from '@/shared/lib/cachePolicy';
+import { queryCache } from '@/shared/lib/queryCache';
+import {
+  createSavedSearch,
+  deleteSavedSearch,
+  listSavedSearches,
+  updateSavedSearch,
+} from '../services/searchApi';
+import type { SavedSearch, SavedSearchInput } from '../services/searchTypes';
+
+const EMPTY: SavedSearch[] = [];
+
+/**
+ * Server-side saved searches for the current user: their own plus any
+ * shared with the practice. Shared through the query cache so the command
+ * palette and the sidebar read the same list. Every mutation also drops the
+ * cached sidebar counts, since pinned searches carry a live count there.
+ */
+export function useSavedSearches(practiceId: string | null): {
+  savedSearches: SavedSearch[];
+  pinned: SavedSearch[];
+  isLoading: boolean;
+  error: string | null;
+  create: (input: SavedSearchInput) => Promise<SavedSearch>;
+  update: (id: string, patch: Partial<SavedSearchInput>) => Promise<SavedSearch>;
+  remove: (id: string) => Promise<void>;
+} {
+  const key = practiceId ? `search:saved:${practiceId}` : 'search:saved:none';
+  const { data, isLoading, error } = useQuery<SavedSearch[]>({
+    key,
+    fetcher: (signal) => listSavedSearches(practiceId ?? '', signal),
+    ttl: policyTtl(key),
+    enabled: Boolean(practiceId),
+  });
+  const savedSearches = data ?? EMPTY;
+  const pinned = useMemo(() => savedSearches.filter((search) => search.pinned), [savedSearches]);
+
+  const invalidate = useCallback(() => {
+    if (!practiceId) return;
+    queryCache.invalidate(key);
+    queryCache.invalidate(`sidebar:counts:${practiceId}`, /* prefix */ true);
+  }, [key, practiceId]);
+
+  const create = useCallback(async (input: SavedSearchInput) => {
+    if (!practiceId) throw new Error('No practice selected');
+    const created = await createSavedSearch(practiceId, input);
+    invalidate();
+    return created;
+  }, [practiceId, invalidate]);
+
+  const update = useCallback(async (id: string, patch: Partial<SavedSearchInput>) => {
+    if (!practiceId) throw new Error('No practice selected');
+    const updated = await updateSavedSearch(practiceId, id, patch);
+    invalidate();
+    return updated;
+  }, [practiceId, invalidate]);
+
+  const remove = useCallback(async (id: string) => {
+    if (!practiceId) throw new Error('No practice selected');
+    await deleteSavedSearch(practiceId, id);
+    invalidate();
+  }, [practiceId, invalidate]);
+
+  return { savedSearches, pinned, isLoading, error, create, update, remove };
+}
@@ -1,5 +1,5 @@
 import { apiClient } from '@/shared/lib/apiClient';
-import type { SearchEnvelope, SearchPin } from './searchTypes';
+import type { SavedSearch, SavedSearchInput, SearchEnvelope, SearchPin } from './searchTypes';
 
 type Envelope<T> = { success: boolean; data: T };
 
@@ -56,3 +56,35 @@ export async function recordSearchClick(
     { queryLogId, entityType, entityId, rank },
   );
 }
+
+const savedSearchesPath = (practiceId: string, id?: string): string =>
+  `/api/search/${encodeURIComponent(practiceId)}/saved${id ? `/${encodeURIComponent(id)}` : ''}`;
+
+export async function listSavedSearches(
+  practiceId: string,
+  signal?: AbortSignal,
+): Promise<SavedSearch[]> {
+  const res = await apiClient.get<Envelope<SavedSearch[]>>(savedSearchesPath(practiceId), { signal });
+  return res.data.data ?? [];
+}
+
+export async function createSavedSearch(
+  practiceId: string,
+  input: SavedSearchInput,
+): Promise<SavedSearch> {
+  const res = await apiClient.post<Envelope<SavedSearch>>(savedSearchesPath(practiceId), input);
+  return res.data.data;
+}
+
+export async function updateSavedSearch(
+  practiceId: string,
+  id: string,
+  patch: Partial<SavedSearchInput>,
+): Promise<SavedSearch> {
+  const res = await apiClient.patch<Envelope<SavedSearch>>(savedSearchesPath(practiceId, id), patch);
+  return res.data.data;
+}
+
+export async function deleteSavedSearch(practiceId: string, id: string): Promise<void> {
+  await apiClient.delete<Envelope<{ ok: boolean }>>(savedSearchesPath(practiceId, id));
+}
@@ -58,3 +58,21 @@ export type SearchPin = {
   entityId: string;
   createdAt: string;
 };
+
+export type SavedSearch = {
+  id: string;
+  name: string;
+  query: string;
+  ownerUserId: string;
+  shared: boolean;
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SavedSearchInput = {
+  name: string;
+  query: string;
+  shared?: boolean;
+  pinned?: boolean;
+};
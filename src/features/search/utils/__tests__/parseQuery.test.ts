@@ -3,6 +3,10 @@ import {
   parseQuery,
   SEARCH_SCOPES,
   SEARCH_FILTER_KEYS,
+  highlightTerms,
+  parseAmountRange,
+  parseDateRange,
+  parseTerms,
   type ParsedQuery,
 } from '../parseQuery';
 
@@ -110,7 +114,145 @@ describe('parseQuery', () => {
     });
 
     it('exposes every supported filter key', () => {
-      expect(SEARCH_FILTER_KEYS).toEqual(['status', 'archived', 'assignee']);
+      expect(SEARCH_FILTER_KEYS).toEqual([
+        'status',
+        'archived',
+        'assignee',
+        'client',
+        'matter',
+        'created',
+        'due',
+        'amount',
+      ]);
+    });
+  });
+
+  describe('quoted values', () => {
+    it('keeps a quoted phrase as one free-text token', () => {
+      expect(parseQuery('"smith v jones" in:matters')).toEqual({
+        scopes: ['matters'],
+        filters: {},
+        terms: '"smith v jones"',
+      });
+    });
+
+    it('unquotes filter values containing spaces', () => {
+      expect(parseQuery('client:"Smith & Co" retainer')).toEqual({
+        scopes: [],
+        filters: { client: 'Smith & Co' },
+        terms: 'retainer',
+      });
     });
+
+    it('does not treat a colon inside a phrase as a filter', () => {
+      expect(parseQuery('"status:paid"').filters).toEqual({});
+    });
+  });
+});
+
+describe('parseTerms', () => {
+  it('ANDs plain terms', () => {
+    expect(parseTerms('smith retainer')).toEqual({
+      groups: [[{ text: 'smith', phrase: false }], [{ text: 'retainer', phrase: false }]],
+      excluded: [],
+    });
+  });
+
+  it('groups terms joined by OR', () => {
+    expect(parseTerms('smith OR jones retainer').groups).toEqual([
+      [{ text: 'smith', phrase: false }, { text: 'jones', phrase: false }],
+      [{ text: 'retainer', phrase: false }],
+    ]);
+  });
+
+  it('excludes terms and phrases with a leading dash', () => {
+    expect(parseTerms('smith -draft -"old copy"')).toEqual({
+      groups: [[{ text: 'smith', phrase: false }]],
+      excluded: [{ text: 'draft', phrase: false }, { text: 'old copy', phrase: true }],
+    });
+  });
+
+  it('keeps hyphens inside a term', () => {
+    expect(parseTerms('INV-2026-0042').groups).toEqual([[{ text: 'INV-2026-0042', phrase: false }]]);
+  });
+
+  it('ignores dangling OR, bare dashes and empty phrases', () => {
+    expect(parseTerms('OR smith OR - ""')).toEqual({
+      groups: [[{ text: 'smith', phrase: false }]],
+      excluded: [],
+    });
+  });
+
+  it('lowercase or is an ordinary term', () => {
+    expect(parseTerms('smith or jones').groups).toHaveLength(3);
+  });
+});
+
+describe('highlightTerms', () => {
+  it('drops syntax and excluded terms', () => {
+    expect(highlightTerms('"smith v jones" OR acme -draft')).toBe('smith v jones acme');
+  });
+});
+
+describe('parseDateRange', () => {
+  // Wednesday.
+  const now = new Date('2026-03-18T15:30:00Z');
+  const day = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+
+  it('matches a single day', () => {
+    expect(parseDateRange('2026-01-05', now)).toEqual({
+      min: day('2026-01-05'),
+      max: day('2026-01-06'),
+      minExclusive: false,
+      maxExclusive: true,
+    });
+  });
+
+  it('treats comparators as whole days', () => {
+    expect(parseDateRange('>2026-01-05', now)).toMatchObject({ min: day('2026-01-06'), max: null });
+    expect(parseDateRange('>=2026-01-05', now)).toMatchObject({ min: day('2026-01-05'), max: null });
+    expect(parseDateRange('<2026-01-05', now)).toMatchObject({ min: null, max: day('2026-01-05') });
+    expect(parseDateRange('<=2026-01-05', now)).toMatchObject({ min: null, max: day('2026-01-06') });
+  });
+
+  it('parses inclusive day ranges', () => {
+    expect(parseDateRange('2026-01-01..2026-03-31', now)).toMatchObject({
+      min: day('2026-01-01'),
+      max: day('2026-04-01'),
+    });
+  });
+
+  it('resolves relative keywords with Monday-start weeks', () => {
+    expect(parseDateRange('this-week', now)).toMatchObject({ min: day('2026-03-16'), max: day('2026-03-23') });
+    expect(parseDateRange('last-month', now)).toMatchObject({ min: day('2026-02-01'), max: day('2026-03-01') });
+    expect(parseDateRange('today', now)).toMatchObject({ min: day('2026-03-18'), max: day('2026-03-19') });
+  });
+
+  it('rejects invalid dates and reversed ranges', () => {
+    expect(parseDateRange('2026-02-30', now)).toBeNull();
+    expect(parseDateRange('soon', now)).toBeNull();
+    expect(parseDateRange('2026-03-01..2026-01-01', now)).toBeNull();
+  });
+});
+
+describe('parseAmountRange', () => {
+  it('parses exact amounts with currency symbols and separators', () => {
+    expect(parseAmountRange('$1,250.50')).toEqual({
+      min: 1250.5,
+      max: 1250.5,
+      minExclusive: false,
+      maxExclusive: false,
+    });
+  });
+
+  it('parses comparators and ranges', () => {
+    expect(parseAmountRange('>500')).toEqual({ min: 500, max: null, minExclusive: true, maxExclusive: false });
+    expect(parseAmountRange('<=1000')).toEqual({ min: null, max: 1000, minExclusive: false, maxExclusive: false });
+    expect(parseAmountRange('100..500')).toEqual({ min: 100, max: 500, minExclusive: false, maxExclusive: false });
+  });
+
+  it('rejects non-numeric values', () => {
+    expect(parseAmountRange('lots')).toBeNull();
+    expect(parseAmountRange('500..100')).toBeNull();
   });
 });
@@ -11,18 +11,84 @@ export const SEARCH_SCOPES = [
 
 export type SearchScope = (typeof SEARCH_SCOPES)[number];
 
-export const SEARCH_FILTER_KEYS = ['status', 'archived', 'assignee'] as const;
+export const SEARCH_FILTER_KEYS = [
+  'status',
+  'archived',
+  'assignee',
+  'client',
+  'matter',
+  'created',
+  'due',
+  'amount',
+] as const;
 
 export type SearchFilterKey = (typeof SEARCH_FILTER_KEYS)[number];
 
 export type ParsedQuery = {
   scopes: SearchScope[];
   filters: Record<string, string>;
+  /**
+   * Free text, still carrying the term syntax (`"phrases"`, `-excluded`,
+   * `OR`). Run it through parseTerms to get the structured clauses.
+   */
   terms: string;
 };
 
+export type SearchTerm = {
+  text: string;
+  phrase: boolean;
+};
+
+export type SearchClauses = {
+  /** Every group must match; a group matches when any of its terms does. */
+  groups: SearchTerm[][];
+  /** Results matching any of these are dropped. */
+  excluded: SearchTerm[];
+};
+
+/** Inclusive/exclusive numeric bounds; null means unbounded. */
+export type SearchRange = {
+  min: number | null;
+  max: number | null;
+  minExclusive: boolean;
+  maxExclusive: boolean;
+};
+
 const SCOPE_SET: ReadonlySet<string> = new Set(SEARCH_SCOPES);
 const FILTER_KEY_SET: ReadonlySet<string> = new Set(SEARCH_FILTER_KEYS);
+const OR_KEYWORD = 'OR';
+
+/**
+ * Splits on whitespace, except inside double quotes: `"smith v jones"`,
+ * `-"draft copy"` and `client:"Smith & Co"` each stay one token. An
+ * unterminated quote runs to the end of the input.
+ */
+export function tokenizeQuery(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inQuote = false;
+  for (const ch of input) {
+    if (ch === '"') {
+      inQuote = !inQuote;
+      current += ch;
+      continue;
+    }
+    if (!inQuote && /\s/.test(ch)) {
+      if (current) tokens.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current) tokens.push(current);
+  return tokens;
+}
+
+const unquote = (value: string): string => {
+  if (!value.startsWith('"')) return value;
+  const end = value.endsWith('"') && value.length > 1 ? -1 : undefined;
+  return value.slice(1, end).trim();
+};
 
 export function parseQuery(input: string): ParsedQuery {
   const scopes: SearchScope[] = [];
@@ -30,12 +96,12 @@ export function parseQuery(input: string): ParsedQuery {
   const filters: Record<string, string> = {};
   const freeText: string[] = [];
 
-  const tokens = input.trim().split(/\s+/).filter(Boolean);
+  const tokens = tokenizeQuery(input.trim());
 
   for (const token of tokens) {
     const colonIdx = token.indexOf(':');
     const hasKeyValueShape =
-      colonIdx > 0 && colonIdx < token.length - 1;
+      colonIdx > 0 && colonIdx < token.length - 1 && !token.startsWith('"');
 
     if (hasKeyValueShape) {
       const key = token.slice(0, colonIdx);
@@ -55,7 +121,8 @@ export function parseQuery(input: string): ParsedQuery {
       }
 
       if (FILTER_KEY_SET.has(key)) {
-        filters[key] = value;
+        const unquoted = unquote(value);
+        if (unquoted) filters[key] = unquoted;
         continue;
       }
 
@@ -72,3 +139,160 @@ export function parseQuery(input: string): ParsedQuery {
     terms: freeText.join(' '),
   };
 }
+
+const toTerm = (token: string): SearchTerm | null => {
+  if (token.startsWith('"')) {
+    const text = unquote(token).replace(/\s+/g, ' ');
+    return text ? { text, phrase: true } : null;
+  }
+  return { text: token, phrase: false };
+};
+
+/**
+ * Structures the free text from parseQuery. Terms are ANDed; `OR` between
+ * two terms puts them in one group (`a OR b c` → (a | b) & c). A leading
+ * `-` excludes a term or phrase; hyphens elsewhere (`INV-2026-0042`) are
+ * part of the term. Dangling `OR`s and a bare `-` are ignored.
+ */
+export function parseTerms(terms: string): SearchClauses {
+  const groups: SearchTerm[][] = [];
+  const excluded: SearchTerm[] = [];
+  let joinNext = false;
+
+  for (const token of tokenizeQuery(terms.trim())) {
+    if (token === OR_KEYWORD) {
+      joinNext = groups.length > 0;
+      continue;
+    }
+    if (token.startsWith('-')) {
+      const term = token.length > 1 ? toTerm(token.slice(1)) : null;
+      if (term) excluded.push(term);
+      joinNext = false;
+      continue;
+    }
+    const term = toTerm(token);
+    if (!term) continue;
+    if (joinNext) groups[groups.length - 1].push(term);
+    else groups.push([term]);
+    joinNext = false;
+  }
+
+  return { groups, excluded };
+}
+
+/** Words to highlight in result titles: every positive term, phrases split into words. */
+export function highlightTerms(terms: string): string {
+  return parseTerms(terms)
+    .groups.flat()
+    .map((term) => term.text)
+    .join(' ');
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const COMPARATOR_RE = /^(>=|<=|>|<)(.+)$/;
+const RANGE_SEPARATOR = '..';
+
+const startOfUtcDay = (ms: number): number => {
+  const d = new Date(ms);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+};
+
+/** Half-open [start, end) window in UTC milliseconds. */
+type DaySpan = { start: number; end: number };
+
+const parseIsoDay = (value: string): DaySpan | null => {
+  if (!ISO_DATE_RE.test(value)) return null;
+  const start = Date.parse(`${value}T00:00:00Z`);
+  if (!Number.isFinite(start) || new Date(start).toISOString().slice(0, 10) !== value) return null;
+  return { start, end: start + DAY_MS };
+};
+
+const relativeSpan = (keyword: string, now: Date): DaySpan | null => {
+  const today = startOfUtcDay(now.getTime());
+  // ISO weeks start on Monday.
+  const weekStart = today - ((new Date(today).getUTCDay() + 6) % 7) * DAY_MS;
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+  switch (keyword) {
+    case 'today': return { start: today, end: today + DAY_MS };
+    case 'yesterday': return { start: today - DAY_MS, end: today };
+    case 'tomorrow': return { start: today + DAY_MS, end: today + 2 * DAY_MS };
+    case 'this-week': return { start: weekStart, end: weekStart + 7 * DAY_MS };
+    case 'last-week': return { start: weekStart - 7 * DAY_MS, end: weekStart };
+    case 'next-week': return { start: weekStart + 7 * DAY_MS, end: weekStart + 14 * DAY_MS };
+    case 'this-month': return { start: Date.UTC(year, month, 1), end: Date.UTC(year, month + 1, 1) };
+    case 'last-month': return { start: Date.UTC(year, month - 1, 1), end: Date.UTC(year, month, 1) };
+    case 'next-month': return { start: Date.UTC(year, month + 1, 1), end: Date.UTC(year, month + 2, 1) };
+    case 'this-year': return { start: Date.UTC(year, 0, 1), end: Date.UTC(year + 1, 0, 1) };
+    case 'last-year': return { start: Date.UTC(year - 1, 0, 1), end: Date.UTC(year, 0, 1) };
+    default: return null;
+  }
+};
+
+const daySpan = (value: string, now: Date): DaySpan | null =>
+  parseIsoDay(value) ?? relativeSpan(value.toLowerCase(), now);
+
+/**
+ * Resolves a `created:`/`due:` value to a UTC millisecond range:
+ *   2026-01-01               that day
+ *   >2026-01-01, <=...       after / on-or-before (days are whole)
+ *   2026-01-01..2026-03-31   inclusive span of days
+ *   today, this-week, last-month, …  relative windows (weeks start Monday)
+ * Returns null for anything it doesn't understand.
+ */
+export function parseDateRange(value: string, now: Date = new Date()): SearchRange | null {
+  const trimmed = value.trim();
+  const comparator = COMPARATOR_RE.exec(trimmed);
+  if (comparator) {
+    const span = daySpan(comparator[2], now);
+    if (!span) return null;
+    switch (comparator[1]) {
+      case '>': return { min: span.end, max: null, minExclusive: false, maxExclusive: false };
+      case '>=': return { min: span.start, max: null, minExclusive: false, maxExclusive: false };
+      case '<': return { min: null, max: span.start, minExclusive: false, maxExclusive: true };
+      default: return { min: null, max: span.end, minExclusive: false, maxExclusive: true };
+    }
+  }
+  const separator = trimmed.indexOf(RANGE_SEPARATOR);
+  if (separator > 0) {
+    const from = daySpan(trimmed.slice(0, separator), now);
+    const to = daySpan(trimmed.slice(separator + RANGE_SEPARATOR.length), now);
+    if (!from || !to || to.end <= from.start) return null;
+    return { min: from.start, max: to.end, minExclusive: false, maxExclusive: true };
+  }
+  const span = daySpan(trimmed, now);
+  return span ? { min: span.start, max: span.end, minExclusive: false, maxExclusive: true } : null;
+}
+
+const parseAmount = (value: string): number | null => {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return null;
+  return Number(cleaned);
+};
+
+/**
+ * Resolves an `amount:` value (major units, e.g. dollars): `500`, `>500`,
+ * `<=1,000`, `100..500`. Returns null for anything it doesn't understand.
+ */
+export function parseAmountRange(value: string): SearchRange | null {
+  const trimmed = value.trim();
+  const comparator = COMPARATOR_RE.exec(trimmed);
+  if (comparator) {
+    const amount = parseAmount(comparator[2]);
+    if (amount === null) return null;
+    const op = comparator[1];
+    return op.startsWith('>')
+      ? { min: amount, max: null, minExclusive: op === '>', maxExclusive: false }
+      : { min: null, max: amount, minExclusive: false, maxExclusive: op === '<' };
+  }
+  const separator = trimmed.indexOf(RANGE_SEPARATOR);
+  if (separator > 0) {
+    const from = parseAmount(trimmed.slice(0, separator));
+    const to = parseAmount(trimmed.slice(separator + RANGE_SEPARATOR.length));
+    if (from === null || to === null || to < from) return null;
+    return { min: from, max: to, minExclusive: false, maxExclusive: false };
+  }
+  const amount = parseAmount(trimmed);
+  return amount === null ? null : { min: amount, max: amount, minExclusive: false, maxExclusive: false };
+}
@@ -0,0 +1,190 @@
+import { useEffect, useMemo, useState } from 'preact/hooks';
+
+import { Pill, type PillTone } from '@/design-system/primitives';
+import { Button } from '@/shared/ui/Button';
+import { Combobox, NumberInput, type ComboboxOption } from '@/shared/ui/input';
+import { ProgressRing } from '@/shared/ui/ProgressRing';
+import { LoadingBlock } from '@/shared/ui/layout/LoadingBlock';
+import { useToastContext } from '@/shared/contexts/ToastContext';
+import { aiUsageCacheKey, saveAiUsageBudget, useAiUsage } from '@/shared/hooks/useAiUsage';
+import { queryCache } from '@/shared/lib/queryCache';
+import {
+  AI_FALLBACK_MODELS,
+  type AiBudgetStatus,
+  type AiFallbackModel,
+  type AiUsageBudget,
+  type SaveAiUsageBudgetRequest,
+} from '@/shared/types/wire';
+import { SettingRow } from '@/features/settings/components/SettingRow';
+import { SettingsHelperText } from '@/features/settings/components/SettingsHelperText';
+
+export interface AiBudgetSectionProps {
+  practiceId: string | null;
+  canEdit: boolean;
+}
+
+const STATUS_PILLS: Record<AiBudgetStatus, { tone: PillTone; label: string }> = {
+  ok: { tone: 'live', label: 'Within budget' },
+  soft_limit: { tone: 'warn', label: 'Using fallback model' },
+  hard_limit: { tone: 'urgent', label: 'AI paused' },
+};
+
+const FALLBACK_MODEL_LABELS: Record<AiFallbackModel, string> = {
+  '@cf/zai-org/glm-4.7-flash': 'GLM 4.7 Flash',
+  '@cf/meta/llama-3.1-8b-instruct': 'Llama 3.1 8B Instruct',
+};
+
+const FALLBACK_MODEL_OPTIONS: ComboboxOption[] = AI_FALLBACK_MODELS.map((model) => ({
+  value: model,
+  label: FALLBACK_MODEL_LABELS[model],
+  meta: model,
+}));
+
+const isFallbackModel = (value: string): value is AiFallbackModel =>
+  (AI_FALLBACK_MODELS as readonly string[]).includes(value);
+
+const toForm = (budget: AiUsageBudget): SaveAiUsageBudgetRequest => ({
+  softLimitTokens: budget.softLimitTokens,
+  hardLimitTokens: budget.hardLimitTokens,
+  fallbackModel: budget.fallbackModel,
+});
+
+const sameForm = (a: SaveAiUsageBudgetRequest, b: SaveAiUsageBudgetRequest): boolean =>
+  a.softLimitTokens === b.softLimitTokens
+  && a.hardLimitTokens === b.hardLimitTokens
+  && a.fallbackModel === b.fallbackModel;
+
+const formatLimit = (tokens: number | null): string => (tokens === null ? 'No limit' : tokens.toLocaleString());
+
+/**
+ * Monthly AI token budget for the practice. Every model call the worker
+ * makes is metered; past the soft limit calls switch to the fallback model,
+ * and past the hard limit AI features pause until the next calendar month
+ * (UTC). Admins edit the limits; every save is a new version.
+ */
+export const AiBudgetSection = ({ practiceId, canEdit }: AiBudgetSectionProps) => {
+  const { showError, showSuccess } = useToastContext();
+  const { data, error, isLoading, refetch } = useAiUsage(practiceId);
+  const [form, setForm] = useState<SaveAiUsageBudgetRequest | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saved = useMemo(() => (data ? toForm(data.budget) : null), [data]);
+  useEffect(() => {
+    setForm(saved);
+  }, [saved]);
+
+  if (isLoading && !data) {
+    return <LoadingBlock size="sm" className="py-4" minDurationMs={150} />;
+  }
+  if (error || !data || !form || !saved) {
+    return <SettingsHelperText className="block py-4 text-neg">Unable to load AI usage.</SettingsHelperText>;
+  }
+
+  const dirty = !sameForm(form, saved);
+  const invalidLimits = form.softLimitTokens !== null
+    && form.hardLimitTokens !== null
+    && form.softLimitTokens > form.hardLimitTokens;
+  const cap = data.budget.hardLimitTokens ?? data.budget.softLimitTokens;
+  const percent = cap ? Math.min(100, Math.round((data.monthToDateTokens / cap) * 100)) : 0;
+  const pill = STATUS_PILLS[data.status];
+
+  const update = (patch: Partial<SaveAiUsageBudgetRequest>) => {
+    setForm((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!practiceId || !form || invalidLimits) return;
+    setIsSaving(true);
+    try {
+      const next = await saveAiUsageBudget(practiceId, form);
+      // The budget changes the month's status, so reload the summary rather than patching it.
+      queryCache.invalidate(aiUsageCacheKey(practiceId));
+      await refetch();
+      showSuccess('AI budget saved', `Version ${next.version} is now in effect.`);
+    } catch (saveError) {
+      showError('AI budget not saved', saveError instanceof Error ? saveError.message : 'Unable to save the AI budget.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <SettingRow
+        label="Tokens this month"
+        description={`Soft limit ${formatLimit(data.budget.softLimitTokens)} · hard limit ${formatLimit(data.budget.hardLimitTokens)}`}
+      >
+        <div className="flex items-center gap-3">
+          <Pill tone={pill.tone}>{pill.label}</Pill>
+          <span className="text-sm tabular-nums text-ink">{data.monthToDateTokens.toLocaleString()}</span>
+          {cap ? (
+            <ProgressRing
+              progress={percent}
+              size={28}
+              progressClassName={data.status === 'ok' ? 'text-accent' : 'text-neg'}
+            />
+          ) : null}
+        </div>
+      </SettingRow>
+
+      {canEdit ? (
+        <>
+          <SettingRow
+            label="Soft limit"
+            description="Past this many tokens a month, AI calls use the fallback model. Leave empty for no limit."
+          >
+            <NumberInput
+              size="sm"
+              className="max-w-[12rem]"
+              min={1}
+              showControls={false}
+              value={form.softLimitTokens ?? undefined}
+              error={invalidLimits ? 'Must not be above the hard limit' : undefined}
+              onChange={(value) => update({ softLimitTokens: value ?? null })}
+            />
+          </SettingRow>
+          <SettingRow
+            label="Hard limit"
+            description="Past this many tokens a month, AI features pause until the month ends. Leave empty for no limit."
+          >
+            <NumberInput
+              size="sm"
+              className="max-w-[12rem]"
+              min={1}
+              showControls={false}
+              value={form.hardLimitTokens ?? undefined}
+              onChange={(value) => update({ hardLimitTokens: value ?? null })}
+            />
+          </SettingRow>
+          <SettingRow label="Fallback model" description="The cheaper model used once the soft limit is reached.">
+            <Combobox
+              className="max-w-[16rem]"
+              options={FALLBACK_MODEL_OPTIONS}
+              value={form.fallbackModel}
+              onChange={(value) => {
+                if (isFallbackModel(value)) update({ fallbackModel: value });
+              }}
+              searchable={false}
+              clearable={false}
+            />
+          </SettingRow>
+          {dirty ? (
+            <div className="flex justify-end gap-2 py-3">
+              <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => setForm(saved)}>
+                Reset
+              </Button>
+              <Button
+                variant="primary"
+                size="sm"
+                disabled={isSaving || invalidLimits}
+                onClick={() => void handleSave()}
+              >
+                Save
+              </Button>
+            </div>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+};
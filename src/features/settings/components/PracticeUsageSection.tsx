@@ -0,0 +1,57 @@
+import { usePracticeUsage } from '@/shared/hooks/usePracticeUsage';
+import type { PracticeUsageFamily } from '@/shared/types/wire';
+import { ProgressRing } from '@/shared/ui/ProgressRing';
+import { LoadingBlock } from '@/shared/ui/layout/LoadingBlock';
+import { SettingRow } from '@/features/settings/components/SettingRow';
+import { SettingsHelperText } from '@/features/settings/components/SettingsHelperText';
+
+export interface PracticeUsageSectionProps {
+  practiceId: string | null;
+}
+
+const formatReset = (seconds: number): string => {
+  if (seconds <= 0) return 'Full allowance available';
+  if (seconds < 60) return 'Refills in under a minute';
+  if (seconds < 3600) return `Fully refilled in ${Math.ceil(seconds / 60)} min`;
+  return `Fully refilled in ${Math.ceil(seconds / 3600)} h`;
+};
+
+const UsageRow = ({ family }: { family: PracticeUsageFamily }) => {
+  const percent = family.limit > 0 ? Math.round((family.used / family.limit) * 100) : 0;
+  return (
+    <SettingRow label={family.label} description={formatReset(family.resetSec)}>
+      <span className="text-sm tabular-nums text-ink">
+        {family.used.toLocaleString()} / {family.limit.toLocaleString()}
+      </span>
+      <ProgressRing
+        progress={percent}
+        size={28}
+        progressClassName={percent >= 90 ? 'text-neg' : 'text-accent'}
+      />
+    </SettingRow>
+  );
+};
+
+/**
+ * Plan quota usage for the practice — how much of each allowance
+ * (AI turns per day, uploads per hour) has been used. Allowances refill
+ * continuously rather than resetting at a fixed time.
+ */
+export const PracticeUsageSection = ({ practiceId }: PracticeUsageSectionProps) => {
+  const { data, error, isLoading } = usePracticeUsage(practiceId);
+
+  if (isLoading) {
+    return <LoadingBlock size="sm" className="py-4" minDurationMs={150} />;
+  }
+  if (error || !data) {
+    return <SettingsHelperText className="block py-4 text-neg">Unable to load usage.</SettingsHelperText>;
+  }
+
+  return (
+    <div>
+      {data.families.map((family) => (
+        <UsageRow key={family.family} family={family} />
+      ))}
+    </div>
+  );
+};
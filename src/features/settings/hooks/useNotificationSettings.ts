@@ -10,9 +10,16 @@ import {
   DEFAULT_MESSAGES_MENTIONS_ONLY,
   DEFAULT_IN_APP_ENABLED,
   DEFAULT_IN_APP_FREQUENCY,
+  DEFAULT_QUIET_HOURS_START,
+  DEFAULT_QUIET_HOURS_END,
+  DEFAULT_DIGEST_FREQUENCY,
   type NotificationDefaults
 } from '@/shared/ui/validation/defaultValues';
-import type { NotificationCategory, InAppNotificationFrequency } from '@/shared/types/notifications';
+import type {
+  NotificationCategory,
+  InAppNotificationFrequency,
+  NotificationDigestFrequency
+} from '@/shared/types/notifications';
 
 interface NotificationSettingsState {
   preferences: NotificationPreferences | null;
@@ -42,6 +49,24 @@ const inAppPreferenceKey: Record<NotificationCategory, keyof NotificationPrefere
   matter: 'in_app_matters'
 };
 
+const digestPreferenceKey: Record<Exclude<NotificationCategory, 'system'>, keyof NotificationPreferences> = {
+  message: 'messages_digest',
+  payment: 'payments_digest',
+  intake: 'intakes_digest',
+  matter: 'matters_digest'
+};
+
+const readDigest = (value: unknown): NotificationDigestFrequency =>
+  value === 'daily' || value === 'weekly' ? value : DEFAULT_DIGEST_FREQUENCY;
+
+const resolveBrowserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
 const buildSettings = (
   prefs: NotificationPreferences | null,
   defaults: NotificationDefaults
@@ -77,7 +102,19 @@ const buildSettings = (
   },
   inAppFrequency: prefs?.in_app_frequency === 'summaries_only'
     ? 'summaries_only'
-    : DEFAULT_IN_APP_FREQUENCY
+    : DEFAULT_IN_APP_FREQUENCY,
+  quietHours: {
+    enabled: prefs?.quiet_hours_enabled ?? false,
+    start: prefs?.quiet_hours_start ?? DEFAULT_QUIET_HOURS_START,
+    end: prefs?.quiet_hours_end ?? DEFAULT_QUIET_HOURS_END,
+    timeZone: prefs?.notification_timezone ?? resolveBrowserTimeZone()
+  },
+  digests: {
+    messages: readDigest(prefs?.messages_digest),
+    payments: readDigest(prefs?.payments_digest),
+    intakes: readDigest(prefs?.intakes_digest),
+    matters: readDigest(prefs?.matters_digest)
+  }
 });
 
 const setState = (next: Partial<NotificationSettingsState>) => {
@@ -215,6 +252,49 @@ export const updateInAppFrequency = async (value: InAppNotificationFrequency) =>
   await updateSettings(nextPreferences, { in_app_frequency: value });
 };
 
+/**
+ * Saves quiet hours. The timezone is always written alongside so the worker
+ * evaluates the window where the user set it, not where it later runs.
+ */
+export const updateQuietHours = async (
+  patch: Partial<{ enabled: boolean; start: string; end: string; timeZone: string }>
+) => {
+  const current = notificationSettingsStore.get();
+  if (!current.preferences) {
+    throw new Error('Notification settings not loaded');
+  }
+  const currentPrefs = current.preferences;
+  const updateData: Partial<NotificationPreferences> = {
+    notification_timezone: patch.timeZone ?? currentPrefs.notification_timezone ?? resolveBrowserTimeZone()
+  };
+  if (patch.enabled !== undefined) updateData.quiet_hours_enabled = patch.enabled;
+  if (patch.start !== undefined) updateData.quiet_hours_start = patch.start;
+  if (patch.end !== undefined) updateData.quiet_hours_end = patch.end;
+  if (patch.enabled) {
+    updateData.quiet_hours_start ??= currentPrefs.quiet_hours_start ?? DEFAULT_QUIET_HOURS_START;
+    updateData.quiet_hours_end ??= currentPrefs.quiet_hours_end ?? DEFAULT_QUIET_HOURS_END;
+  }
+
+  await updateSettings({ ...currentPrefs, ...updateData }, updateData);
+};
+
+export const updateDigestFrequency = async (
+  category: NotificationCategory,
+  value: NotificationDigestFrequency
+) => {
+  if (category === 'system') {
+    return;
+  }
+  const current = notificationSettingsStore.get();
+  if (!current.preferences) {
+    throw new Error('Notification settings not loaded');
+  }
+  const key = digestPreferenceKey[category];
+  const updateData: Partial<NotificationPreferences> = { [key]: value };
+
+  await updateSettings({ ...current.preferences, ...updateData }, updateData);
+};
+
 onMount(notificationSettingsStore, () => {
   void loadNotificationSettings();
 });
@@ -33,9 +33,11 @@ import { AccountPageSkeleton } from '@/features/settings/components/AccountPageS
 import { SettingsDangerButton } from '@/features/settings/components/SettingsDangerButton';
 import { SettingsHelperText } from '@/features/settings/components/SettingsHelperText';
 import { SettingsCard } from '@/features/settings/components/SettingsCard';
+import { PracticeUsageSection } from '@/features/settings/components/PracticeUsageSection';
+import { AiBudgetSection } from '@/features/settings/components/AiBudgetSection';
 import { getPreferencesCategory, updatePreferencesCategory } from '@/shared/lib/preferencesApi';
 import type { AccountPreferences } from '@/shared/types/preferences';
-import { normalizePracticeRole } from '@/shared/utils/practiceRoles';
+import { hasRoleLevel, normalizePracticeRole } from '@/shared/utils/practiceRoles';
 import { FormActions, FormLabel } from '@/shared/ui/form';
 import { buildSettingsPath, resolveSettingsBasePath } from '@/shared/utils/workspace';
 import { features } from '@/config/features';
@@ -993,6 +995,24 @@ export const AccountPage = ({
         </SettingSection>
       )}
 
+      {!isClientWorkspace && currentPractice && (
+        <SettingSection
+          title="Usage"
+          description="How much of your plan's allowances your practice has used. Allowances refill gradually over each window."
+        >
+          <PracticeUsageSection practiceId={currentPractice.id} />
+        </SettingSection>
+      )}
+
+      {!isClientWorkspace && currentPractice && hasRoleLevel(resolvedRole, 'paralegal') && (
+        <SettingSection
+          title="AI budget"
+          description="Monthly AI token usage across chat, intake and the practice assistant, and the limits that keep it in check."
+        >
+          <AiBudgetSection practiceId={currentPractice.id} canEdit={hasRoleLevel(resolvedRole, 'admin')} />
+        </SettingSection>
+      )}
+
       {showLinksSection && (
         <SettingSection
           title="Domains & links"
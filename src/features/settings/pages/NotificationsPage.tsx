@@ -6,6 +6,8 @@ import {
   useNotificationSettings,
   updateNotificationChannel,
   updateDesktopPushEnabled,
+  updateQuietHours,
+  updateDigestFrequency,
 } from '@/features/settings/hooks/useNotificationSettings';
 import {
   getNotificationPermissionState,
@@ -14,7 +16,7 @@ import {
   type NotificationPermissionState
 } from '@/shared/notifications/oneSignalClient';
 import { Switch } from '@/shared/ui/input';
-import type { NotificationCategory } from '@/shared/types/notifications';
+import type { NotificationCategory, NotificationDigestFrequency } from '@/shared/types/notifications';
 import type { NotificationSettings } from '@/shared/types/user';
 import { cn } from '@/shared/utils/cn';
 import { SettingSection } from '@/features/settings/components/SettingSection';
@@ -86,10 +88,39 @@ const SECTIONS: NotifSection[] = [
   },
 ];
 
+const DIGEST_OPTIONS: Array<{ value: NotificationDigestFrequency; label: string }> = [
+  { value: 'off', label: 'As they happen' },
+  { value: 'daily', label: 'Daily digest' },
+  { value: 'weekly', label: 'Weekly digest' },
+];
+
+// Half-hour steps, HH:MM (the format the worker stores and evaluates).
+const QUIET_HOURS_TIMES = Array.from({ length: 48 }, (_, i) => {
+  const hour = String(Math.floor(i / 2)).padStart(2, '0');
+  return `${hour}:${i % 2 === 0 ? '00' : '30'}`;
+});
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
+const getCategoryDigest = (settings: NotificationSettings, category: NotificationCategory): NotificationDigestFrequency => {
+  switch (category) {
+    case 'message': return settings.digests.messages;
+    case 'payment': return settings.digests.payments;
+    case 'intake':  return settings.digests.intakes;
+    case 'matter':  return settings.digests.matters;
+    default:        return 'off';
+  }
+};
+
+const formatClockTime = (value: string): string => {
+  const [hour, minute] = value.split(':').map(Number);
+  const suffix = hour < 12 ? 'am' : 'pm';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:${String(minute).padStart(2, '0')} ${suffix}`;
+};
+
 const getCategorySettings = (settings: NotificationSettings, category: NotificationCategory) => {
   switch (category) {
     case 'message': return settings.messages;
@@ -126,9 +157,9 @@ export const NotificationsPage = ({ className = '' }: NotificationsPageProps) =>
   const { settings, isLoading, error } = useNotificationSettings();
   const [permissionState, setPermissionState] = useState<NotificationPermissionState>(getNotificationPermissionState());
 
-  const save = async (category: NotificationCategory, channel: 'email' | 'push', value: boolean) => {
+  const runSave = async (action: () => Promise<void>) => {
     try {
-      await updateNotificationChannel(category, channel, value);
+      await action();
       showSuccess(
         t('common:notifications.settingsSavedTitle', { defaultValue: 'Settings saved' }),
         t('settings:notifications.toastBody', { defaultValue: 'Notification preferences updated.' }),
@@ -141,6 +172,9 @@ export const NotificationsPage = ({ className = '' }: NotificationsPageProps) =>
     }
   };
 
+  const save = (category: NotificationCategory, channel: 'email' | 'push', value: boolean) =>
+    runSave(() => updateNotificationChannel(category, channel, value));
+
   const handleDesktopToggle = async (value: boolean) => {
     const isSupported = permissionState !== 'unsupported';
     try {
@@ -212,13 +246,81 @@ export const NotificationsPage = ({ className = '' }: NotificationsPageProps) =>
               <NotifRow
                 key={event.name}
                 event={event}
-                isLast={j === section.events.length - 1}
+                isLast={j === section.events.length - 1 && section.category === 'system'}
               />
             ))}
+            {section.category !== 'system' && (
+              <SettingRow
+                label="Email and push delivery"
+                description="Digests collect these into one notification. In-app notifications still arrive right away."
+              >
+                <select
+                  className="select"
+                  value={getCategoryDigest(settings, section.category)}
+                  aria-label={`Delivery for ${section.title}`}
+                  onChange={(e) => {
+                    const value = (e.target as HTMLSelectElement).value as NotificationDigestFrequency;
+                    void runSave(() => updateDigestFrequency(section.category, value));
+                  }}
+                >
+                  {DIGEST_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </SettingRow>
+            )}
           </SettingSection>
         );
       })}
 
+      <SettingSection
+        title="Quiet hours"
+        description="Hold push and email notifications overnight and get one summary when quiet hours end. Emergency intakes always come through."
+      >
+        <SettingRow
+          label="Quiet hours"
+          description={`Times are in ${settings.quietHours.timeZone}.`}
+          controlClassName="min-w-[120px] justify-end"
+        >
+          <Switch
+            value={settings.quietHours.enabled}
+            onChange={(value) => void runSave(() => updateQuietHours({ enabled: value }))}
+            className="py-0"
+          />
+        </SettingRow>
+        {settings.quietHours.enabled && (
+          <SettingRow label="Window" description={`${formatClockTime(settings.quietHours.start)} to ${formatClockTime(settings.quietHours.end)}`}>
+            <select
+              className="select"
+              value={settings.quietHours.start}
+              aria-label="Quiet hours start"
+              onChange={(e) => {
+                const start = (e.target as HTMLSelectElement).value;
+                void runSave(() => updateQuietHours({ start }));
+              }}
+            >
+              {QUIET_HOURS_TIMES.map((time) => (
+                <option key={time} value={time}>{formatClockTime(time)}</option>
+              ))}
+            </select>
+            <span className="text-sm text-dim">to</span>
+            <select
+              className="select"
+              value={settings.quietHours.end}
+              aria-label="Quiet hours end"
+              onChange={(e) => {
+                const end = (e.target as HTMLSelectElement).value;
+                void runSave(() => updateQuietHours({ end }));
+              }}
+            >
+              {QUIET_HOURS_TIMES.map((time) => (
+                <option key={time} value={time}>{formatClockTime(time)}</option>
+              ))}
+            </select>
+          </SettingRow>
+        )}
+      </SettingSection>
+
       <SettingSection title="Desktop" description="Allow Blawby to send OS-level browser alerts.">
         <SettingRow
           label="Desktop notifications"
@@ -0,0 +1,39 @@
+import { trustComplianceEvaluationsPath, trustCompliancePath } from '@/config/urls';
+import { apiClient, unwrapApiResponse } from '@/shared/lib/apiClient';
+import type {
+  SaveTrustCompliancePreferencesRequest,
+  TrustCompliancePreferences,
+  TrustRuleEvaluation,
+} from '@/shared/types/wire';
+
+// Worker-owned (/api/practice/:id/trust-compliance); types come from the wire
+// schemas in worker/types/wire/trustCompliance.ts.
+
+export async function getTrustCompliancePreferences(
+  practiceId: string,
+  signal?: AbortSignal,
+): Promise<TrustCompliancePreferences> {
+  const { data } = await apiClient.get<unknown>(trustCompliancePath(practiceId), { signal });
+  return unwrapApiResponse<TrustCompliancePreferences>(data);
+}
+
+/** Admin-only: saves the rules as a new version and returns it. */
+export async function saveTrustCompliancePreferences(
+  practiceId: string,
+  input: SaveTrustCompliancePreferencesRequest,
+): Promise<TrustCompliancePreferences> {
+  const { data } = await apiClient.put<unknown>(trustCompliancePath(practiceId), input);
+  return unwrapApiResponse<TrustCompliancePreferences>(data, 'Failed to save trust rules');
+}
+
+export async function listTrustRuleEvaluations(
+  practiceId: string,
+  filters: { matterId?: string | null; limit?: number } = {},
+  signal?: AbortSignal,
+): Promise<TrustRuleEvaluation[]> {
+  const params: Record<string, string> = {};
+  if (filters.matterId) params.matterId = filters.matterId;
+  if (filters.limit) params.limit = String(filters.limit);
+  const { data } = await apiClient.get<unknown>(trustComplianceEvaluationsPath(practiceId), { params, signal });
+  return unwrapApiResponse<TrustRuleEvaluation[]>(data);
+}
@@ -0,0 +1,63 @@
+import {
+  trustBankLinePath,
+  trustBankStatementPath,
+  trustBankStatementsPath,
+  trustReconciliationReportPath,
+} from '@/config/urls';
+import { apiClient, unwrapApiResponse } from '@/shared/lib/apiClient';
+import type {
+  BankStatement,
+  BankStatementDetail,
+  BankStatementLine,
+  ImportBankStatementRequest,
+  ImportBankStatementResponse,
+  TrustReconciliationReport,
+} from '@/shared/types/wire';
+
+// Worker-owned (/api/practice/:id/trust-reconciliation); types come from the
+// wire schemas in worker/types/wire/trustReconciliation.ts.
+
+export async function listBankStatements(practiceId: string, signal?: AbortSignal): Promise<BankStatement[]> {
+  const { data } = await apiClient.get<unknown>(trustBankStatementsPath(practiceId), { signal });
+  return unwrapApiResponse<BankStatement[]>(data);
+}
+
+/** Attorney-only: imports an OFX/QFX/CSV export and auto-matches its lines against the ledger. */
+export async function importBankStatement(
+  practiceId: string,
+  input: ImportBankStatementRequest,
+): Promise<ImportBankStatementResponse> {
+  const { data } = await apiClient.post<unknown>(trustBankStatementsPath(practiceId), input);
+  return unwrapApiResponse<ImportBankStatementResponse>(data, 'Failed to import bank statement');
+}
+
+export async function getBankStatementDetail(
+  practiceId: string,
+  statementId: string,
+  signal?: AbortSignal,
+): Promise<BankStatementDetail> {
+  const { data } = await apiClient.get<unknown>(trustBankStatementPath(practiceId, statementId), { signal });
+  return unwrapApiResponse<BankStatementDetail>(data);
+}
+
+/** Attorney-only: pairs a bank line with a ledger transaction, or clears the match with `null`. */
+export async function matchBankLine(
+  practiceId: string,
+  lineId: string,
+  transactionId: string | null,
+): Promise<BankStatementLine> {
+  const { data } = await apiClient.put<unknown>(trustBankLinePath(practiceId, lineId), { transactionId });
+  return unwrapApiResponse<BankStatementLine>(data, 'Failed to update match');
+}
+
+export async function getTrustReconciliationReport(
+  practiceId: string,
+  month: string,
+  signal?: AbortSignal,
+): Promise<TrustReconciliationReport> {
+  const { data } = await apiClient.get<unknown>(trustReconciliationReportPath(practiceId), {
+    params: { month },
+    signal,
+  });
+  return unwrapApiResponse<TrustReconciliationReport>(data);
+}
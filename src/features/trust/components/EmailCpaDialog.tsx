@@ -3,7 +3,7 @@ import type { FunctionComponent } from 'preact';
 
 import { Dialog, DialogBody, DialogFooter } from '@/shared/ui/dialog';
 import { Button } from '@/shared/ui/Button';
-import { Input } from '@/shared/ui/input';
+import { Checkbox, Input } from '@/shared/ui/input';
 import { LoadingSpinner } from '@/shared/ui/layout/LoadingSpinner';
 import { Seg, type SegOption } from '@/design-system/patterns';
 import { reportsApi } from '@/features/reports/services/reportsApi';
@@ -55,6 +55,9 @@ const cpaEmailStorageKey = (practiceId: string) =>
 const cpaFrequencyStorageKey = (practiceId: string) =>
   `blawby:trust:cpa_frequency:${practiceId}`;
 
+const cpaReconciliationStorageKey = (practiceId: string) =>
+  `blawby:trust:cpa_reconciliation:${practiceId}`;
+
 interface EmailCpaDialogProps {
   practiceId: string | null;
   isOpen: boolean;
@@ -66,7 +69,9 @@ interface EmailCpaDialogProps {
  *
  * Wires the schedule create endpoint with a recipients list of one (the
  * CPA email entered here). The email is persisted to localStorage as a
- * demo until the practice profile exposes `practices.cpa_email`.
+ * demo until the practice profile exposes `practices.cpa_email`. With
+ * "Include three-way reconciliation" ticked, a second schedule on the same
+ * cadence sends the `trust-reconciliation` report as a PDF.
  *
  * TODO(backend): persist `practices.cpa_email` so we can pre-fill on
  * load and update it without a separate dialog.
@@ -79,6 +84,7 @@ export const EmailCpaDialog: FunctionComponent<EmailCpaDialogProps> = ({
   const { showSuccess, showError } = useToastContext();
   const [email, setEmail] = useState('');
   const [frequency, setFrequency] = useState<CpaFrequency>('quarterly');
+  const [includeReconciliation, setIncludeReconciliation] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [validationError, setValidationError] = useState<string | null>(null);
 
@@ -88,10 +94,12 @@ export const EmailCpaDialog: FunctionComponent<EmailCpaDialogProps> = ({
     try {
       const storedEmail = window.localStorage.getItem(cpaEmailStorageKey(practiceId));
       const storedFrequency = window.localStorage.getItem(cpaFrequencyStorageKey(practiceId));
+      const storedReconciliation = window.localStorage.getItem(cpaReconciliationStorageKey(practiceId));
       if (storedEmail) setEmail(storedEmail);
       if (storedFrequency === 'monthly' || storedFrequency === 'quarterly') {
         setFrequency(storedFrequency);
       }
+      if (storedReconciliation !== null) setIncludeReconciliation(storedReconciliation === 'true');
     } catch {
       // Privacy mode / quota — fall through to empty state.
     }
@@ -119,18 +127,25 @@ export const EmailCpaDialog: FunctionComponent<EmailCpaDialogProps> = ({
         practiceId,
         buildSchedulePayload('trust-ledger', frequency, [trimmed]),
       );
+      if (includeReconciliation) {
+        await reportsApi.createSchedule(practiceId, {
+          ...buildSchedulePayload('trust-reconciliation', frequency, [trimmed]),
+          format: 'pdf',
+        });
+      }
       // Persist the email + frequency for next time.
       if (typeof window !== 'undefined') {
         try {
           window.localStorage.setItem(cpaEmailStorageKey(practiceId), trimmed);
           window.localStorage.setItem(cpaFrequencyStorageKey(practiceId), frequency);
+          window.localStorage.setItem(cpaReconciliationStorageKey(practiceId), String(includeReconciliation));
         } catch {
           // Ignore storage errors.
         }
       }
       showSuccess(
         'CPA schedule saved',
-        `Trust ledger will be emailed to ${trimmed} every ${frequency === 'quarterly' ? 'quarter' : 'month'}.`,
+        `Trust ledger${includeReconciliation ? ' and three-way reconciliation' : ''} will be emailed to ${trimmed} every ${frequency === 'quarterly' ? 'quarter' : 'month'}.`,
       );
       onClose();
     } catch (err) {
@@ -141,7 +156,7 @@ export const EmailCpaDialog: FunctionComponent<EmailCpaDialogProps> = ({
     } finally {
       setSubmitting(false);
     }
-  }, [email, frequency, onClose, practiceId, showError, showSuccess]);
+  }, [email, frequency, includeReconciliation, onClose, practiceId, showError, showSuccess]);
 
   return (
     <Dialog
@@ -191,6 +206,13 @@ export const EmailCpaDialog: FunctionComponent<EmailCpaDialogProps> = ({
               </p>
             )}
           </div>
+          <Checkbox
+            label="Include three-way reconciliation (PDF)"
+            description="Bank statement, trust ledger and client ledgers side by side for the prior month."
+            checked={includeReconciliation}
+            onChange={setIncludeReconciliation}
+            disabled={submitting}
+          />
         </div>
       </DialogBody>
       <DialogFooter>
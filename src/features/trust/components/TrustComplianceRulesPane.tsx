@@ -1,103 +1,158 @@
-import { useCallback, useEffect, useState } from 'preact/hooks';
+import { useEffect, useMemo, useState } from 'preact/hooks';
 import type { FunctionComponent } from 'preact';
 
-import { Switch } from '@/shared/ui/input';
+import { Pill, type PillTone } from '@/design-system/primitives';
+import { Button } from '@/shared/ui/Button';
+import { Checkbox, CurrencyInput, Switch } from '@/shared/ui/input';
+import { LoadingBlock } from '@/shared/ui/layout';
+import { useMemberRoleContext, useSessionContext } from '@/shared/contexts/SessionContext';
+import { useToastContext } from '@/shared/contexts/ToastContext';
+import { usePracticeTeam } from '@/shared/hooks/usePracticeTeam';
+import { queryCache } from '@/shared/lib/queryCache';
+import { formatCurrency } from '@/shared/utils/currencyFormatter';
+import { hasRoleLevel, normalizePracticeRole } from '@/shared/utils/practiceRoles';
+import { formatRelativeTime } from '@/features/matters/utils/formatRelativeTime';
+import type {
+  SaveTrustCompliancePreferencesRequest,
+  TrustComplianceRule,
+  TrustCompliancePreferences,
+  TrustRuleEvaluation,
+  TrustRuleOutcome,
+} from '@/shared/types/wire';
+
+import { saveTrustCompliancePreferences } from '../api/trustComplianceApi';
+import {
+  trustCompliancePreferencesCacheKey,
+  useTrustCompliancePreferences,
+  useTrustRuleEvaluations,
+} from '../hooks/useTrustCompliance';
+
+type RuleForm = SaveTrustCompliancePreferencesRequest;
+type EnabledKey = 'autoReplenishEnabled' | 'alertEnabled' | 'dualApprovalEnabled' | 'lockOnZeroEnabled';
+type ThresholdKey = 'autoReplenishThresholdCents' | 'alertThresholdCents' | 'dualApprovalThresholdCents';
 
-/**
- * Compliance rules — toggle definitions. Persisted to localStorage for
- * the demo until the practice preferences API ships these fields.
- *
- * TODO(backend): persist via `/api/practice/:practiceId/preferences` once
- * the registry exposes the IOLTA-specific keys
- * (`iolta_auto_replenish_threshold_cents`, `trust_alert_threshold_cents`,
- * `trust_dual_approval_threshold_cents`, `trust_lock_on_zero`). Each rule
- * here maps 1:1 to one of those preference keys — the `id` is the
- * localStorage key so the demo state is namespaced by practice.
- */
 interface ComplianceRule {
-  id: string;
-  label: string;
+  enabledKey: EnabledKey;
+  thresholdKey: ThresholdKey | null;
+  label: (threshold: string) => string;
   description: string;
-  /** Default-on rules mirror the canonical Trust.html mock. */
-  defaultOn: boolean;
 }
 
 const RULES: readonly ComplianceRule[] = [
   {
-    id: 'auto_replenish_below_1k',
-    label: 'Auto-replenish when balance < $1k',
-    description: 'Stage a replenishment request whenever a client balance dips below the threshold.',
-    defaultOn: true,
+    enabledKey: 'autoReplenishEnabled',
+    thresholdKey: 'autoReplenishThresholdCents',
+    label: (threshold) => `Auto-replenish when balance < ${threshold}`,
+    description: 'Send a replenishment request when a matter balance drops below the threshold.',
   },
   {
-    id: 'alert_threshold_cross',
-    label: 'Alert when a client balance crosses threshold',
-    description: 'Notify the firm in chat when a balance moves above or below the alert threshold.',
-    defaultOn: true,
+    enabledKey: 'alertEnabled',
+    thresholdKey: 'alertThresholdCents',
+    label: (threshold) => `Alert when a matter balance crosses ${threshold}`,
+    description: 'Notify when a balance moves above or below the alert threshold.',
   },
   {
-    id: 'require_dual_approval_5k',
-    label: 'Require dual approval for withdrawals > $5k',
-    description: 'A second team member must confirm withdrawals over the threshold before they execute.',
-    defaultOn: false,
+    enabledKey: 'dualApprovalEnabled',
+    thresholdKey: 'dualApprovalThresholdCents',
+    label: (threshold) => `Require dual approval for withdrawals > ${threshold}`,
+    description: 'Staged trust withdrawals over the threshold need two approvers before they execute.',
   },
   {
-    id: 'lock_matter_on_zero',
-    label: 'Lock matter when balance hits zero',
-    description: 'Pause new staged actions on a matter until the client retainer is replenished.',
-    defaultOn: false,
+    enabledKey: 'lockOnZeroEnabled',
+    thresholdKey: null,
+    label: () => 'Lock matter when balance hits zero',
+    description: 'Block staged actions on a matter until funds are deposited.',
   },
 ];
 
-const storageKey = (practiceId: string, ruleId: string): string =>
-  `blawby:trust:compliance:${practiceId}:${ruleId}`;
+const RULE_LABELS: Record<TrustComplianceRule, string> = {
+  auto_replenish: 'Auto-replenish',
+  threshold_alert: 'Threshold alert',
+  dual_approval: 'Dual approval',
+  lock_on_zero: 'Lock on zero',
+};
+
+const OUTCOME_PILLS: Record<TrustRuleOutcome, { tone: PillTone; label: string }> = {
+  triggered: { tone: 'warn', label: 'Triggered' },
+  blocked: { tone: 'urgent', label: 'Blocked' },
+  passed: { tone: 'live', label: 'Passed' },
+  disabled: { tone: 'dim', label: 'Off' },
+};
+
+const formatCents = (cents: number): string => formatCurrency(cents / 100);
+
+const toForm = (preferences: TrustCompliancePreferences): RuleForm => ({
+  autoReplenishEnabled: preferences.autoReplenishEnabled,
+  autoReplenishThresholdCents: preferences.autoReplenishThresholdCents,
+  alertEnabled: preferences.alertEnabled,
+  alertThresholdCents: preferences.alertThresholdCents,
+  dualApprovalEnabled: preferences.dualApprovalEnabled,
+  dualApprovalThresholdCents: preferences.dualApprovalThresholdCents,
+  lockOnZeroEnabled: preferences.lockOnZeroEnabled,
+  notifyUserIds: preferences.notifyUserIds,
+});
+
+const sameForm = (a: RuleForm, b: RuleForm): boolean =>
+  JSON.stringify({ ...a, notifyUserIds: [...a.notifyUserIds].sort() })
+    === JSON.stringify({ ...b, notifyUserIds: [...b.notifyUserIds].sort() });
 
 interface TrustComplianceRulesPaneProps {
   practiceId: string | null;
 }
 
 /**
- * Compliance rules card. Toggles persist to localStorage (per-practice
- * namespace) until the preferences API exposes the IOLTA-specific
- * fields. Each row mirrors a future preference key — see TODO above.
+ * Compliance rules card. The rules are practice preferences enforced by the
+ * worker: ledger changes raise replenishment requests and alerts for the
+ * selected members, large withdrawals staged by the assistant need two
+ * approvers, and a matter at zero refuses staged actions. Admins edit;
+ * every save is a new version. The log underneath lists recent rule
+ * evaluations, which are kept for bar audits.
  */
 export const TrustComplianceRulesPane: FunctionComponent<TrustComplianceRulesPaneProps> = ({
   practiceId,
 }) => {
-  // We initialize from localStorage so the demo state persists across
-  // reloads. Falls back to `defaultOn` when no value has been written.
-  const [values, setValues] = useState<Record<string, boolean>>(() => {
-    const out: Record<string, boolean> = {};
-    for (const rule of RULES) out[rule.id] = rule.defaultOn;
-    return out;
-  });
-
-  // Read persisted values once a practiceId is available.
+  const { session } = useSessionContext();
+  const { activeMemberRole } = useMemberRoleContext();
+  const { showError, showSuccess } = useToastContext();
+  const canEdit = hasRoleLevel(normalizePracticeRole(activeMemberRole), 'admin');
+  const { data: preferences, isLoading, error } = useTrustCompliancePreferences(practiceId);
+  const { members } = usePracticeTeam(practiceId, session?.user?.id ?? null, { enabled: canEdit });
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saved = useMemo(() => (preferences ? toForm(preferences) : null), [preferences]);
   useEffect(() => {
-    if (!practiceId || typeof window === 'undefined') return;
-    const next: Record<string, boolean> = {};
-    for (const rule of RULES) {
-      try {
-        const raw = window.localStorage.getItem(storageKey(practiceId, rule.id));
-        next[rule.id] = raw == null ? rule.defaultOn : raw === 'true';
-      } catch {
-        next[rule.id] = rule.defaultOn;
-      }
-    }
-    setValues(next);
-  }, [practiceId]);
+    setForm(saved);
+  }, [saved]);
+
+  const dirty = Boolean(form && saved && !sameForm(form, saved));
+  const activeCount = form ? RULES.filter((rule) => form[rule.enabledKey]).length : 0;
+
+  const update = (patch: Partial<RuleForm>) => {
+    setForm((prev) => (prev ? { ...prev, ...patch } : prev));
+  };
+
+  const toggleRecipient = (userId: string, checked: boolean) => {
+    if (!form) return;
+    const rest = form.notifyUserIds.filter((id) => id !== userId);
+    update({ notifyUserIds: checked ? [...rest, userId] : rest });
+  };
 
-  const handleChange = useCallback((ruleId: string, value: boolean) => {
-    setValues((prev) => ({ ...prev, [ruleId]: value }));
-    if (!practiceId || typeof window === 'undefined') return;
+  const handleSave = async () => {
+    if (!practiceId || !form) return;
+    setIsSaving(true);
     try {
-      window.localStorage.setItem(storageKey(practiceId, ruleId), String(value));
-    } catch {
-      // Quota / privacy mode — swallow so the toggle still flips visually.
+      const next = await saveTrustCompliancePreferences(practiceId, form);
+      const cacheKey = trustCompliancePreferencesCacheKey(practiceId);
+      queryCache.invalidate(cacheKey);
+      queryCache.set(cacheKey, next);
+      showSuccess('Trust rules saved', `Version ${next.version} is now enforced.`);
+    } catch (saveError) {
+      showError('Trust rules not saved', saveError instanceof Error ? saveError.message : 'Unable to save trust rules.');
+    } finally {
+      setIsSaving(false);
     }
-  }, [practiceId]);
-
-  const activeCount = Object.values(values).filter(Boolean).length;
+  };
 
   return (
     <section className="panel overflow-hidden">
@@ -106,30 +161,112 @@ export const TrustComplianceRulesPane: FunctionComponent<TrustComplianceRulesPan
           <h3 className="font-serif text-lg leading-tight text-ink">Compliance rules</h3>
           <span className="mt-0.5 font-mono text-[10px] uppercase tracking-[0.1em] text-dim">
             IOLTA · {activeCount} of {RULES.length} active
+            {preferences && preferences.version > 0 ? ` · v${preferences.version}` : ' · defaults'}
           </span>
         </div>
+        {canEdit && dirty ? (
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => setForm(saved)}>
+              Reset
+            </Button>
+            <Button variant="primary" size="sm" disabled={isSaving} onClick={() => void handleSave()}>
+              Save
+            </Button>
+          </div>
+        ) : null}
       </header>
-      <div className="px-5 py-1">
-        {RULES.map((rule, index) => (
-          <div
-            key={rule.id}
-            className={
-              index === RULES.length - 1
-                ? 'border-b-0'
-                : 'border-b border-rule'
-            }
-          >
-            <Switch
-              label={rule.label}
-              description={rule.description}
-              value={values[rule.id] ?? rule.defaultOn}
-              onChange={(next) => handleChange(rule.id, next)}
-            />
+
+      {isLoading && !form ? <LoadingBlock className="m-5" /> : null}
+      {error ? <p className="px-5 py-3 text-xs text-red-600">{error}</p> : null}
+
+      {form ? (
+        <>
+          <div className="px-5 py-1">
+            {RULES.map((rule, index) => {
+              const threshold = rule.thresholdKey ? form[rule.thresholdKey] : null;
+              return (
+                <div
+                  key={rule.enabledKey}
+                  className={index === RULES.length - 1 ? 'border-b-0' : 'border-b border-rule'}
+                >
+                  <Switch
+                    label={rule.label(threshold === null ? '' : formatCents(threshold))}
+                    description={rule.description}
+                    value={form[rule.enabledKey]}
+                    disabled={!canEdit}
+                    onChange={(next) => update({ [rule.enabledKey]: next })}
+                  />
+                  {rule.thresholdKey && canEdit && form[rule.enabledKey] ? (
+                    <CurrencyInput
+                      size="sm"
+                      className="mb-3 max-w-[10rem]"
+                      label="Threshold"
+                      value={(threshold ?? 0) / 100}
+                      onChange={(value) => update({ [rule.thresholdKey as ThresholdKey]: Math.round((value ?? 0) * 100) })}
+                    />
+                  ) : null}
+                </div>
+              );
+            })}
           </div>
-        ))}
-      </div>
+
+          {canEdit ? (
+            <div className="border-t border-rule px-5 py-3">
+              <h4 className="font-mono text-[10px] uppercase tracking-[0.1em] text-dim-2">Notify</h4>
+              <p className="mt-1 text-xs text-dim-2">
+                Members who receive replenishment requests and balance alerts. Saving with nobody selected notifies you.
+              </p>
+              <div className="mt-2 space-y-1">
+                {members.map((member) => (
+                  <Checkbox
+                    key={member.userId}
+                    size="sm"
+                    label={member.name || member.email}
+                    checked={form.notifyUserIds.includes(member.userId)}
+                    onChange={(checked) => toggleRecipient(member.userId, checked)}
+                  />
+                ))}
+              </div>
+            </div>
+          ) : null}
+        </>
+      ) : null}
+
+      <RuleEvaluationLog practiceId={practiceId} />
     </section>
   );
 };
 
+const RuleEvaluationLog: FunctionComponent<{ practiceId: string | null }> = ({ practiceId }) => {
+  const { data: evaluations } = useTrustRuleEvaluations(practiceId, 25);
+  // Passed and disabled rows are in the audit log but only noise here.
+  const notable = (evaluations ?? []).filter((entry) => entry.outcome === 'triggered' || entry.outcome === 'blocked');
+  if (notable.length === 0) return null;
+
+  return (
+    <div className="border-t border-rule px-5 py-3">
+      <h4 className="font-mono text-[10px] uppercase tracking-[0.1em] text-dim-2">Recent enforcement</h4>
+      <ul className="mt-2 space-y-1.5 text-xs text-ink-2">
+        {notable.map((entry) => (
+          <li key={entry.id} className="flex flex-wrap items-center gap-2">
+            <Pill tone={OUTCOME_PILLS[entry.outcome].tone}>{OUTCOME_PILLS[entry.outcome].label}</Pill>
+            <span>{RULE_LABELS[entry.rule]}</span>
+            <span className="text-dim-2">{evaluationSubject(entry)}</span>
+            <span className="ml-auto font-mono text-[10.5px] text-dim-2">
+              {formatRelativeTime(entry.createdAt) || 'just now'}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const evaluationSubject = (entry: TrustRuleEvaluation): string => {
+  const balance = entry.balanceCents === null ? '' : ` at ${formatCents(entry.balanceCents)}`;
+  return entry.subjectType === 'ledger_event'
+    ? `ledger change${balance}`
+    : `assistant action${balance}`;
+};
+
 export default TrustComplianceRulesPane;
@@ -0,0 +1,364 @@
+import { useMemo, useRef, useState } from 'preact/hooks';
+import type { FunctionComponent } from 'preact';
+
+import { Pill, type PillTone } from '@/design-system/primitives';
+import { Button } from '@/shared/ui/Button';
+import { CurrencyInput } from '@/shared/ui/input';
+import { LoadingBlock } from '@/shared/ui/layout';
+import { useMemberRoleContext } from '@/shared/contexts/SessionContext';
+import { useToastContext } from '@/shared/contexts/ToastContext';
+import { queryCache } from '@/shared/lib/queryCache';
+import { formatCurrency } from '@/shared/utils/currencyFormatter';
+import { hasRoleLevel, normalizePracticeRole } from '@/shared/utils/practiceRoles';
+import {
+  MAX_BANK_STATEMENT_CHARS,
+  type BankLineMatchStatus,
+  type BankStatementLine,
+  type ReconciliationTransaction,
+  type TrustReconciliationReport,
+} from '@/shared/types/wire';
+
+import { importBankStatement, matchBankLine } from '../api/trustReconciliationApi';
+import {
+  trustReconciliationCacheKeyPrefix,
+  useBankStatementDetail,
+  useBankStatements,
+  useTrustReconciliationReport,
+} from '../hooks/useTrustReconciliation';
+
+const MATCH_PILLS: Record<BankLineMatchStatus, { tone: PillTone; label: string }> = {
+  auto: { tone: 'live', label: 'Auto' },
+  manual: { tone: 'gold', label: 'Manual' },
+  unmatched: { tone: 'warn', label: 'Unmatched' },
+};
+
+const MONTH_OPTIONS_COUNT = 12;
+
+const formatCents = (cents: number): string => formatCurrency(cents / 100);
+
+/** The last `count` complete months as `YYYY-MM`, most recent first. */
+const recentMonths = (count: number, now = new Date()): string[] =>
+  Array.from({ length: count }, (_, index) => {
+    const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1 - index, 1));
+    return date.toISOString().slice(0, 7);
+  });
+
+const formatMonth = (month: string): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1, 1)).toLocaleDateString(undefined, {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+const formatDay = (isoDate: string): string => {
+  const date = new Date(`${isoDate.slice(0, 10)}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) return isoDate;
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+};
+
+const statusPill = (report: TrustReconciliationReport | undefined): { tone: PillTone; label: string } => {
+  if (!report) return { tone: 'dim', label: 'Loading' };
+  if (report.statementId === null) return { tone: 'dim', label: 'No statement' };
+  return report.balanced ? { tone: 'live', label: 'Balanced' } : { tone: 'urgent', label: 'Out of balance' };
+};
+
+interface PendingImport {
+  filename: string;
+  content: string;
+}
+
+interface TrustReconciliationPaneProps {
+  practiceId: string | null;
+  id?: string;
+}
+
+/**
+ * Monthly three-way reconciliation: the bank statement balance (adjusted for
+ * deposits in transit and outstanding withdrawals) against the trust ledger
+ * and the sum of client ledgers. Attorneys import the bank's OFX/QFX/CSV
+ * export; lines are matched to ledger transactions automatically where the
+ * amount and date line up, and the rest are matched by hand below.
+ */
+export const TrustReconciliationPane: FunctionComponent<TrustReconciliationPaneProps> = ({
+  practiceId,
+  id,
+}) => {
+  const { activeMemberRole } = useMemberRoleContext();
+  const { showError, showSuccess } = useToastContext();
+  const canEdit = hasRoleLevel(normalizePracticeRole(activeMemberRole), 'attorney');
+  const months = useMemo(() => recentMonths(MONTH_OPTIONS_COUNT), []);
+  const [month, setMonth] = useState(months[0]);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [closingBalance, setClosingBalance] = useState<number | undefined>(undefined);
+  const [isImporting, setIsImporting] = useState(false);
+  const [busyLineId, setBusyLineId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: report, isLoading, error } = useTrustReconciliationReport(practiceId, month);
+  const { data: statements } = useBankStatements(practiceId);
+  const statement = statements?.find((entry) => entry.id === report?.statementId) ?? null;
+  const { data: detail } = useBankStatementDetail(practiceId, report?.statementId);
+
+  const invalidate = () => {
+    if (practiceId) queryCache.invalidate(trustReconciliationCacheKeyPrefix(practiceId), true);
+  };
+
+  const submitImport = async (file: PendingImport, closingBalanceCents?: number) => {
+    if (!practiceId) return;
+    setIsImporting(true);
+    try {
+      const result = await importBankStatement(practiceId, { ...file, closingBalanceCents });
+      setPendingImport(null);
+      setClosingBalance(undefined);
+      invalidate();
+      setMonth(result.statement.periodEnd.slice(0, 7));
+      showSuccess(
+        'Statement imported',
+        `${result.autoMatched} of ${result.autoMatched + result.unmatched} lines matched to the ledger.`,
+      );
+    } catch (importError) {
+      showError('Statement not imported', importError instanceof Error ? importError.message : 'Unable to import the statement.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const content = await file.text();
+    if (content.length > MAX_BANK_STATEMENT_CHARS) {
+      showError('Statement too large', 'Export a single month from your bank and try again.');
+      return;
+    }
+    // CSV exports don't always carry a running balance; ask for the closing
+    // balance up front rather than bouncing off the worker's 422.
+    if (file.name.toLowerCase().endsWith('.csv')) {
+      setPendingImport({ filename: file.name, content });
+      return;
+    }
+    await submitImport({ filename: file.name, content });
+  };
+
+  const handleMatch = async (line: BankStatementLine, transactionId: string | null) => {
+    if (!practiceId) return;
+    setBusyLineId(line.id);
+    try {
+      await matchBankLine(practiceId, line.id, transactionId);
+      invalidate();
+    } catch (matchError) {
+      showError('Match not saved', matchError instanceof Error ? matchError.message : 'Unable to update the match.');
+    } finally {
+      setBusyLineId(null);
+    }
+  };
+
+  const handleExportPdf = () => {
+    if (!practiceId) return;
+    const path = `/api/reports/${encodeURIComponent(practiceId)}/export/trust-reconciliation?format=pdf&month=${month}`;
+    window.open(path, '_blank', 'noopener,noreferrer');
+  };
+
+  const pill = statusPill(report);
+
+  return (
+    <section id={id} className="panel overflow-hidden">
+      <header className="flex flex-wrap items-center justify-between gap-2 border-b border-rule bg-paper-2 px-5 py-3">
+        <div className="flex flex-col">
+          <h3 className="font-serif text-lg leading-tight text-ink">Three-way reconciliation</h3>
+          <span className="mt-0.5 font-mono text-[10px] uppercase tracking-[0.1em] text-dim">
+            IOLTA · {statement ? `${statement.accountLabel} · ${statement.filename}` : 'bank · ledger · clients'}
+          </span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            className="select"
+            aria-label="Reconciliation month"
+            value={month}
+            onChange={(e) => setMonth((e.target as HTMLSelectElement).value)}
+          >
+            {months.map((option) => (
+              <option key={option} value={option}>{formatMonth(option)}</option>
+            ))}
+          </select>
+          <Button variant="ghost" size="sm" disabled={!practiceId} onClick={handleExportPdf}>
+            Export PDF
+          </Button>
+          {canEdit ? (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".ofx,.qfx,.csv"
+                className="hidden"
+                onChange={(e) => {
+                  const input = e.target as HTMLInputElement;
+                  void handleFile(input.files?.[0]);
+                  input.value = '';
+                }}
+              />
+              <Button
+                variant="secondary"
+                size="sm"
+                disabled={!practiceId || isImporting}
+                onClick={() => fileInputRef.current?.click()}
+              >
+                Import statement
+              </Button>
+            </>
+          ) : null}
+        </div>
+      </header>
+
+      {pendingImport ? (
+        <div className="flex flex-wrap items-end gap-3 border-b border-rule px-5 py-3">
+          <CurrencyInput
+            size="sm"
+            className="max-w-[12rem]"
+            label={`Closing balance · ${pendingImport.filename}`}
+            description="Leave blank if the file has a balance column."
+            value={closingBalance}
+            onChange={(value) => setClosingBalance(value)}
+          />
+          <Button
+            variant="primary"
+            size="sm"
+            disabled={isImporting}
+            onClick={() => void submitImport(
+              pendingImport,
+              closingBalance === undefined ? undefined : Math.round(closingBalance * 100),
+            )}
+          >
+            Import
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={isImporting}
+            onClick={() => {
+              setPendingImport(null);
+              setClosingBalance(undefined);
+            }}
+          >
+            Cancel
+          </Button>
+        </div>
+      ) : null}
+
+      {isLoading && !report ? <LoadingBlock className="m-5" /> : null}
+      {error ? <p className="px-5 py-3 text-xs text-red-600">{error}</p> : null}
+
+      {report ? (
+        <>
+          <div className="px-5 py-3">
+            <div className="mb-2 flex items-center gap-2">
+              <Pill tone={pill.tone}>{pill.label}</Pill>
+              <span className="text-xs text-dim-2">{formatMonth(report.month)}</span>
+            </div>
+            {report.statementId === null ? (
+              <p className="text-xs text-dim-2">
+                No bank statement covers this month yet.
+                {canEdit ? ' Import the OFX, QFX or CSV export from your bank to reconcile.' : ''}
+              </p>
+            ) : null}
+            <dl className="grid grid-cols-[minmax(0,1fr)_auto] gap-x-4 gap-y-1 text-sm">
+              <SummaryRow label="Bank statement balance" cents={report.bankBalanceCents} />
+              <SummaryRow label="Add: deposits in transit" cents={report.depositsInTransitCents} muted />
+              <SummaryRow label="Less: outstanding withdrawals" cents={report.outstandingWithdrawalsCents} muted />
+              <SummaryRow label="Adjusted bank balance" cents={report.adjustedBankBalanceCents} strong />
+              <SummaryRow label="Trust ledger balance" cents={report.bookBalanceCents} strong />
+              <SummaryRow label="Client ledgers total" cents={report.clientLedgerTotalCents} strong />
+            </dl>
+          </div>
+
+          {report.outstandingTransactions.length > 0 ? (
+            <div className="border-t border-rule px-5 py-3">
+              <h4 className="font-mono text-[10px] uppercase tracking-[0.1em] text-dim-2">Outstanding</h4>
+              <ul className="mt-2 space-y-1 text-xs text-ink-2">
+                {report.outstandingTransactions.map((transaction) => (
+                  <TransactionRow key={transaction.id} transaction={transaction} />
+                ))}
+              </ul>
+            </div>
+          ) : null}
+        </>
+      ) : null}
+
+      {detail && detail.lines.length > 0 ? (
+        <div className="border-t border-rule px-5 py-3">
+          <h4 className="font-mono text-[10px] uppercase tracking-[0.1em] text-dim-2">
+            Bank lines · {detail.statement.matchedCount} of {detail.statement.lineCount} matched
+          </h4>
+          <ul className="mt-2 space-y-1.5 text-xs text-ink-2">
+            {detail.lines.map((line) => {
+              const candidates = detail.unmatchedTransactions.filter(
+                (transaction) => transaction.amountCents === line.amountCents,
+              );
+              const busy = busyLineId === line.id;
+              return (
+                <li key={line.id} className="flex flex-wrap items-center gap-2">
+                  <Pill tone={MATCH_PILLS[line.matchStatus].tone}>{MATCH_PILLS[line.matchStatus].label}</Pill>
+                  <span className="font-mono text-[10.5px] text-dim-2">{formatDay(line.postedAt)}</span>
+                  <span className="min-w-0 flex-1 truncate">{line.description ?? line.reference ?? 'Bank line'}</span>
+                  <span className="font-mono tabular-nums">{formatCents(line.amountCents)}</span>
+                  {canEdit && line.matchStatus !== 'unmatched' ? (
+                    <Button variant="ghost" size="xs" disabled={busy} onClick={() => void handleMatch(line, null)}>
+                      Unmatch
+                    </Button>
+                  ) : null}
+                  {canEdit && line.matchStatus === 'unmatched' && candidates.length > 0 ? (
+                    <select
+                      className="select"
+                      aria-label="Match to ledger transaction"
+                      value=""
+                      disabled={busy}
+                      onChange={(e) => {
+                        const value = (e.target as HTMLSelectElement).value;
+                        if (value) void handleMatch(line, value);
+                      }}
+                    >
+                      <option value="">Match to…</option>
+                      {candidates.map((transaction) => (
+                        <option key={transaction.id} value={transaction.id}>
+                          {formatDay(transaction.occurredAt)} · {transaction.clientName ?? transaction.description ?? transaction.type}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ) : null}
+    </section>
+  );
+};
+
+const SummaryRow: FunctionComponent<{ label: string; cents: number | null; muted?: boolean; strong?: boolean }> = ({
+  label,
+  cents,
+  muted = false,
+  strong = false,
+}) => (
+  <>
+    <dt className={muted ? 'pl-3 text-dim-2' : 'text-ink-2'}>{label}</dt>
+    <dd className={`text-right font-mono tabular-nums ${strong ? 'text-ink' : 'text-ink-2'}`}>
+      {cents === null ? '—' : formatCents(cents)}
+    </dd>
+  </>
+);
+
+const TransactionRow: FunctionComponent<{ transaction: ReconciliationTransaction }> = ({ transaction }) => (
+  <li className="flex items-center gap-2">
+    <span className="font-mono text-[10.5px] text-dim-2">{formatDay(transaction.occurredAt)}</span>
+    <span className="min-w-0 flex-1 truncate">
+      {transaction.amountCents >= 0 ? 'Deposit in transit' : 'Outstanding withdrawal'}
+      {transaction.clientName ? ` · ${transaction.clientName}` : ''}
+    </span>
+    <span className="font-mono tabular-nums">{formatCents(transaction.amountCents)}</span>
+  </li>
+);
+
+export default TrustReconciliationPane;
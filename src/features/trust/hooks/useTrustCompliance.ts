@@ -0,0 +1,37 @@
+import { useQuery } from '@/shared/hooks/useQuery';
+import { policyTtl } from '@/shared/lib/cachePolicy';
+import {
+  getTrustCompliancePreferences,
+  listTrustRuleEvaluations,
+} from '@/features/trust/api/trustComplianceApi';
+import type { TrustCompliancePreferences, TrustRuleEvaluation } from '@/shared/types/wire';
+
+export const trustCompliancePreferencesCacheKey = (practiceId: string | null | undefined): string =>
+  `trust:compliance:preferences:${practiceId ?? ''}`;
+
+export const trustRuleEvaluationsCacheKey = (practiceId: string | null | undefined, limit: number): string =>
+  `trust:compliance:evaluations:${practiceId ?? ''}:${limit}`;
+
+/** The practice's active trust rules; version 0 means the defaults have never been saved. */
+export const useTrustCompliancePreferences = (practiceId: string | null | undefined) => {
+  const cacheKey = trustCompliancePreferencesCacheKey(practiceId);
+  return useQuery<TrustCompliancePreferences>({
+    key: cacheKey,
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fetcher: (signal) => getTrustCompliancePreferences(practiceId!, signal),
+    ttl: policyTtl(cacheKey),
+    enabled: Boolean(practiceId),
+  });
+};
+
+/** Most recent rule evaluations across the practice, newest first. */
+export const useTrustRuleEvaluations = (practiceId: string | null | undefined, limit = 10) => {
+  const cacheKey = trustRuleEvaluationsCacheKey(practiceId, limit);
+  return useQuery<TrustRuleEvaluation[]>({
+    key: cacheKey,
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fetcher: (signal) => listTrustRuleEvaluations(practiceId!, { limit }, signal),
+    ttl: policyTtl(cacheKey),
+    enabled: Boolean(practiceId),
+  });
+};
@@ -0,0 +1,62 @@
+import { useQuery } from '@/shared/hooks/useQuery';
+import { policyTtl } from '@/shared/lib/cachePolicy';
+import {
+  getBankStatementDetail,
+  getTrustReconciliationReport,
+  listBankStatements,
+} from '@/features/trust/api/trustReconciliationApi';
+import type { BankStatement, BankStatementDetail, TrustReconciliationReport } from '@/shared/types/wire';
+
+/** Every reconciliation key for the practice shares this prefix so a match or import can drop them together. */
+export const trustReconciliationCacheKeyPrefix = (practiceId: string | null | undefined): string =>
+  `trust:reconciliation:${practiceId ?? ''}:`;
+
+export const bankStatementsCacheKey = (practiceId: string | null | undefined): string =>
+  `${trustReconciliationCacheKeyPrefix(practiceId)}statements`;
+
+export const bankStatementDetailCacheKey = (
+  practiceId: string | null | undefined,
+  statementId: string | null | undefined,
+): string => `${trustReconciliationCacheKeyPrefix(practiceId)}statement:${statementId ?? ''}`;
+
+export const trustReconciliationReportCacheKey = (practiceId: string | null | undefined, month: string): string =>
+  `${trustReconciliationCacheKeyPrefix(practiceId)}report:${month}`;
+
+/** Imported bank statements, newest period first. */
+export const useBankStatements = (practiceId: string | null | undefined) => {
+  const cacheKey = bankStatementsCacheKey(practiceId);
+  return useQuery<BankStatement[]>({
+    key: cacheKey,
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fetcher: (signal) => listBankStatements(practiceId!, signal),
+    ttl: policyTtl(cacheKey),
+    enabled: Boolean(practiceId),
+  });
+};
+
+/** A statement's lines plus the ledger transactions nothing has claimed yet. */
+export const useBankStatementDetail = (
+  practiceId: string | null | undefined,
+  statementId: string | null | undefined,
+) => {
+  const cacheKey = bankStatementDetailCacheKey(practiceId, statementId);
+  return useQuery<BankStatementDetail>({
+    key: cacheKey,
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fetcher: (signal) => getBankStatementDetail(practiceId!, statementId!, signal),
+    ttl: policyTtl(cacheKey),
+    enabled: Boolean(practiceId && statementId),
+  });
+};
+
+/** Three-way reconciliation for a `YYYY-MM` month. */
+export const useTrustReconciliationReport = (practiceId: string | null | undefined, month: string) => {
+  const cacheKey = trustReconciliationReportCacheKey(practiceId, month);
+  return useQuery<TrustReconciliationReport>({
+    key: cacheKey,
+    // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+    fetcher: (signal) => getTrustReconciliationReport(practiceId!, month, signal),
+    ttl: policyTtl(cacheKey),
+    enabled: Boolean(practiceId),
+  });
+};
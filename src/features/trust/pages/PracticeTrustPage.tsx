@@ -31,6 +31,7 @@ import { useTrustLedger, type TrustClientBalance } from '../hooks/useTrustLedger
 import { TrustLedgerEntryRow } from '../components/TrustLedgerEntryRow';
 import { TrustAuditTrailPane } from '../components/TrustAuditTrailPane';
 import { TrustComplianceRulesPane } from '../components/TrustComplianceRulesPane';
+import { TrustReconciliationPane } from '../components/TrustReconciliationPane';
 import { EmailCpaDialog } from '../components/EmailCpaDialog';
 
 const formatCentsMajor = (cents: number): string => formatCurrency(cents / 100);
@@ -68,6 +69,8 @@ const LOW_BALANCE_CENTS = 100_000;
 /** Threshold the lede suggests as the typical replenishment amount. */
 const SUGGESTED_REPLENISH_CENTS = 300_000;
 
+const RECONCILIATION_PANE_ID = 'trust-reconciliation';
+
 /*
  * TODO(backend): expose `matter_id` on `TrustLedgerRow` so per-client
  * roll-ups and individual ledger rows can render the primary matter
@@ -396,15 +399,11 @@ const PracticeTrustPage: FunctionComponent = () => {
     </Tooltip>
   );
 
-  // Reconcile is also gated on the bank-integration track. Render disabled
-  // so the affordance is visible but the user can't trigger it.
-  const reconcileButton = (
-    <Tooltip content="Reconciliation pending bank integration">
-      <Button variant="secondary" disabled>
-        Reconcile
-      </Button>
-    </Tooltip>
-  );
+  // Reconcile jumps to the three-way reconciliation pane further down,
+  // where statements are imported and matched.
+  const handleReconcile = () => {
+    document.getElementById(RECONCILIATION_PANE_ID)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
 
   const handleExportCsv = () => {
     // Reuse the existing report CSV export route. Opens in a new tab so the
@@ -423,7 +422,9 @@ const PracticeTrustPage: FunctionComponent = () => {
           subtitle="Read-only view of client trust funds. Deposits, transfers, and refunds flow through the staged-approval queue."
           actions={
             <div className="flex flex-wrap items-center gap-2">
-              {reconcileButton}
+              <Button variant="secondary" onClick={handleReconcile} disabled={!activePracticeId}>
+                Reconcile
+              </Button>
               <Button variant="secondary" onClick={handleExportCsv} disabled={!activePracticeId}>
                 Export CSV
               </Button>
@@ -478,9 +479,9 @@ const PracticeTrustPage: FunctionComponent = () => {
         ) : null}
 
         {/*
-          Two-column body (Trust.html .ledger-body): per-client balances +
-          recent transactions on the left, audit trail + compliance rules
-          on the right. Collapses to a single column under 1024px.
+          Two-column body (Trust.html .ledger-body): per-client balances,
+          recent transactions and the reconciliation on the left, audit trail
+          + compliance rules on the right. Collapses to a single column under 1024px.
         */}
         <div className="grid grid-cols-1 gap-6 lg:grid-cols-[minmax(0,1.4fr)_minmax(0,1fr)]">
           <div className="flex min-w-0 flex-col gap-6">
@@ -568,6 +569,8 @@ const PracticeTrustPage: FunctionComponent = () => {
                 )}
               />
             </section>
+
+            <TrustReconciliationPane practiceId={activePracticeId} id={RECONCILIATION_PANE_ID} />
           </div>
 
           <div className="flex min-w-0 flex-col gap-6">
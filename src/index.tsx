@@ -7,6 +7,7 @@ import { SEOHead } from '@/app/SEOHead';
 import { ToastProvider } from '@/shared/contexts/ToastContext';
 import { CommandPaletteProvider } from '@/features/search/contexts/CommandPaletteContext';
 import { SessionProvider, useSessionContext } from '@/shared/contexts/SessionContext';
+import { PresenceProvider } from '@/shared/contexts/PresenceContext';
 import { authClient } from '@/shared/lib/authClient';
 import type { WorkspaceView } from '@/shared/utils/workspaceShell';
 import type { SettingsView } from '@/features/settings/pages/SettingsContent';
@@ -607,6 +608,11 @@ function AppShell() {
               <McpOAuthCallbackPage {...props} />
             </Suspense>
           )} />
+          <Route path="/approve/:practiceId/:actionId" component={({ practiceId, actionId }: { practiceId?: string; actionId?: string }) => (
+            <Suspense fallback={<LoadingScreen />}>
+              <ApproveActionPage practiceId={practiceId} actionId={actionId} />
+            </Suspense>
+          )} />
           <Route path="/approve/:jwt" component={({ jwt }: { jwt?: string }) => (
             <Suspense fallback={<LoadingScreen />}>
               <ApproveActionPage jwt={jwt} />
@@ -1032,14 +1038,18 @@ function PracticeAppRoute({
   }
 
   if (isInvoiceEditRoute) {
+    // Rendered outside MainApp, so it joins the presence room itself for
+    // edit-collision warnings.
     return (
-      <Suspense fallback={<LoadingScreen />}>
-        <PracticeInvoiceEditPage
-          practiceId={resolvedPracticeId}
-          practiceSlug={normalizedPracticeSlug || null}
-          invoiceId={invoiceId ?? null}
-        />
-      </Suspense>
+      <PresenceProvider practiceId={resolvedPracticeId || null} userId={session?.user?.id ?? null}>
+        <Suspense fallback={<LoadingScreen />}>
+          <PracticeInvoiceEditPage
+            practiceId={resolvedPracticeId}
+            practiceSlug={normalizedPracticeSlug || null}
+            invoiceId={invoiceId ?? null}
+          />
+        </Suspense>
+      </PresenceProvider>
     );
   }
 
@@ -1,28 +1,279 @@
+import type { ComponentChildren } from 'preact';
+import { useCallback, useEffect, useState } from 'preact/hooks';
 import { ShieldCheck } from 'lucide-preact';
 import { Button } from '@/shared/ui/Button';
 import { Alert } from '@/shared/ui/feedback/Alert';
 import { Icon } from '@/shared/ui/Icon';
+import { Textarea } from '@/shared/ui/input';
+import { LoadingSpinner } from '@/shared/ui/layout/LoadingSpinner';
 import { useNavigation } from '@/shared/utils/navigation';
+import { useToastContext } from '@/shared/contexts/ToastContext';
+import { apiClient, isHttpError } from '@/shared/lib/apiClient';
+import {
+  practiceAssistantDecision,
+  practiceStagedAction,
+  practiceStagedActionComments,
+} from '@/config/urls';
+import type {
+  PracticeAssistantActionSummary,
+  PracticeAssistantApprovalEntry,
+} from '@/shared/types/wire';
+
+interface StagedActionDetail {
+  action: PracticeAssistantActionSummary;
+  trail: PracticeAssistantApprovalEntry[];
+}
+
+const DECISION_LABELS: Record<PracticeAssistantApprovalEntry['decision'], string> = {
+  approve: 'Approved',
+  reject: 'Rejected',
+  comment: 'Commented',
+};
+
+const STATUS_LABELS: Record<PracticeAssistantActionSummary['status'], string> = {
+  pending: 'Waiting for approval',
+  approved: 'Approved',
+  executed: 'Approved and executed',
+  rejected: 'Rejected',
+  failed: 'Approved, but execution failed',
+  expired: 'Expired without approval',
+};
+
+const COMMENT_MAX = 2000;
+
+const formatTimestamp = (value: string | null | undefined): string =>
+  value ? new Date(value).toLocaleString() : '';
+
+const errorMessage = (error: unknown, fallback: string): string => {
+  if (isHttpError(error)) {
+    return (error.response.data as { error?: string } | undefined)?.error || `HTTP ${error.response.status}`;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+function PageShell({ children }: { children: ComponentChildren }) {
+  return (
+    <div className="flex min-h-screen w-full items-center justify-center bg-paper px-4 py-10">
+      <div className="w-full max-w-md rounded-2xl border border-line-subtle bg-card p-6 shadow-sm">
+        <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full border border-line-subtle bg-paper-2/10">
+          <Icon icon={ShieldCheck} className="h-6 w-6 text-ink" aria-hidden="true" />
+        </div>
+        {children}
+      </div>
+    </div>
+  );
+}
 
 /**
- * Approval link shell for agent money-actions (`/approve/:jwt`).
+ * Review screen for a practice assistant staged action
+ * (`/approve/:practiceId/:actionId`): what the action does, what the
+ * practice's approval policy requires of it, the approve / reject / comment
+ * trail so far, and controls to add to it.
+ */
+function StagedActionApproval({ practiceId, actionId }: { practiceId: string; actionId: string }) {
+  const { showSuccess, showError } = useToastContext();
+  const [detail, setDetail] = useState<StagedActionDetail | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState<'approve' | 'reject' | 'comment' | null>(null);
+
+  const load = useCallback(async (signal?: AbortSignal) => {
+    try {
+      const { data } = await apiClient.get<StagedActionDetail>(practiceStagedAction(practiceId, actionId), { signal });
+      setDetail(data);
+      setLoadError(null);
+    } catch (error) {
+      if (signal?.aborted) return;
+      setLoadError(errorMessage(error, 'Unable to load this action'));
+    }
+  }, [practiceId, actionId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void load(controller.signal);
+    return () => controller.abort();
+  }, [load]);
+
+  const submit = async (kind: 'approve' | 'reject' | 'comment') => {
+    setSubmitting(kind);
+    try {
+      if (kind === 'comment') {
+        await apiClient.post(practiceStagedActionComments(practiceId, actionId), { comment });
+        showSuccess('Comment added', 'Your comment is now part of the approval trail.');
+      } else {
+        const { data } = await apiClient.post<{ data?: { action?: PracticeAssistantActionSummary } }>(
+          practiceAssistantDecision(actionId, kind),
+          { practiceId, comment: comment.trim() || null },
+        );
+        const status = data?.data?.action?.status;
+        showSuccess(
+          kind === 'reject' ? 'Action rejected' : status === 'pending' ? 'Approval recorded' : 'Action approved',
+          kind === 'reject'
+            ? 'The proposed action was rejected.'
+            : status === 'pending'
+              ? 'More approvals are needed before this action runs.'
+              : 'The approved action has been executed.',
+        );
+      }
+      setComment('');
+      await load();
+    } catch (error) {
+      showError('Unable to update this action', errorMessage(error, 'Request failed'));
+    } finally {
+      setSubmitting(null);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <PageShell>
+        <h1 className="text-center text-lg font-semibold text-ink">Approval request</h1>
+        <Alert variant="error" className="mt-4">{loadError}</Alert>
+      </PageShell>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <PageShell>
+        <div className="flex justify-center py-6"><LoadingSpinner /></div>
+      </PageShell>
+    );
+  }
+
+  const { action, trail } = detail;
+  const approval = action.approval;
+  const isPending = action.status === 'pending';
+
+  return (
+    <PageShell>
+      <h1 className="text-center text-lg font-semibold text-ink">{action.title}</h1>
+      {action.description && <p className="mt-2 text-center text-sm text-dim-2">{action.description}</p>}
+      <p className="mt-3 text-center text-xs font-medium text-dim-2">{STATUS_LABELS[action.status]}</p>
+
+      {approval && (
+        <dl className="mt-4 grid grid-cols-2 gap-x-4 gap-y-2 rounded-xl border border-line-subtle p-3 text-xs">
+          <dt className="text-dim-2">Approvals</dt>
+          <dd className="text-ink">{approval.approvalsReceived} of {approval.approvalsRequired}</dd>
+          <dt className="text-dim-2">Approver role</dt>
+          <dd className="text-ink">{approval.minRole} or above</dd>
+          {approval.requireRole && (
+            <>
+              <dt className="text-dim-2">Must include</dt>
+              <dd className="text-ink">{approval.requireRole} or above</dd>
+            </>
+          )}
+          <dt className="text-dim-2">Policy</dt>
+          <dd className="text-ink">{approval.policyVersion === 0 ? 'Default' : `Version ${approval.policyVersion}`}</dd>
+          {approval.expiresAt && (
+            <>
+              <dt className="text-dim-2">{action.status === 'expired' ? 'Expired' : 'Expires'}</dt>
+              <dd className="text-ink">{formatTimestamp(approval.expiresAt)}</dd>
+            </>
+          )}
+        </dl>
+      )}
+
+      <section className="mt-5" aria-label="Approval trail">
+        <h2 className="text-sm font-semibold text-ink">Approval trail</h2>
+        {trail.length === 0 ? (
+          <p className="mt-2 text-xs text-dim-2">No decisions or comments yet.</p>
+        ) : (
+          <ol className="mt-2 space-y-2">
+            {trail.map((entry) => (
+              <li key={entry.id} className="rounded-lg border border-line-subtle p-2 text-xs">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-ink">
+                    {DECISION_LABELS[entry.decision]} · {entry.memberRole}
+                  </span>
+                  <time className="text-dim-2" dateTime={entry.createdAt}>{formatTimestamp(entry.createdAt)}</time>
+                </div>
+                <div className="mt-1 text-dim-2">
+                  {entry.userId} · policy {entry.policyVersion === 0 ? 'default' : `v${entry.policyVersion}`}
+                </div>
+                {entry.comment && <p className="mt-1 whitespace-pre-wrap text-ink">{entry.comment}</p>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </section>
+
+      <Textarea
+        className="mt-4"
+        label="Comment"
+        value={comment}
+        onChange={setComment}
+        rows={3}
+        maxLength={COMMENT_MAX}
+        enforceMaxLength="hard"
+        disabled={submitting !== null}
+      />
+
+      <div className="mt-4 flex flex-col gap-2">
+        {isPending && (
+          <div className="flex gap-2">
+            <Button
+              variant="primary"
+              className="flex-1"
+              onClick={() => void submit('approve')}
+              disabled={submitting !== null}
+            >
+              {submitting === 'approve' ? 'Approving…' : 'Approve'}
+            </Button>
+            <Button
+              variant="secondary"
+              className="flex-1"
+              onClick={() => void submit('reject')}
+              disabled={submitting !== null}
+            >
+              {submitting === 'reject' ? 'Rejecting…' : 'Reject'}
+            </Button>
+          </div>
+        )}
+        <Button
+          variant="secondary"
+          onClick={() => void submit('comment')}
+          disabled={submitting !== null || !comment.trim()}
+        >
+          {submitting === 'comment' ? 'Adding comment…' : 'Add comment'}
+        </Button>
+      </div>
+    </PageShell>
+  );
+}
+
+/**
+ * Approval links.
  *
- * The real approve/reject flow — decoding the signed token, showing the pending
- * action, and executing it — depends on backend pending-action contracts in
- * Blawby/blawby-backend#282. This shell exists so the route resolves to a safe,
- * honest state instead of a 404, and is intentionally inert: it neither decodes
- * nor acts on the token.
+ * `/approve/:practiceId/:actionId` reviews a practice assistant staged
+ * action against the practice's approval policy.
+ *
+ * `/approve/:jwt` is the link shell for agent money-actions. That flow —
+ * decoding the signed token, showing the pending action, and executing it —
+ * depends on backend pending-action contracts in Blawby/blawby-backend#282.
+ * The shell exists so the route resolves to a safe, honest state instead of a
+ * 404, and is intentionally inert: it neither decodes nor acts on the token.
  */
-export default function ApproveActionPage({ jwt }: { jwt?: string }) {
+export default function ApproveActionPage({
+  jwt,
+  practiceId,
+  actionId,
+}: {
+  jwt?: string;
+  practiceId?: string;
+  actionId?: string;
+}) {
   const { navigate } = useNavigation();
+
+  if (practiceId && actionId) {
+    return <StagedActionApproval practiceId={practiceId} actionId={actionId} />;
+  }
+
   const hasToken = Boolean(jwt && jwt.trim());
 
   return (
-    <div className="flex min-h-screen w-full items-center justify-center bg-paper px-4 py-10">
-      <div className="w-full max-w-md rounded-2xl border border-line-subtle bg-card p-6 text-center shadow-sm">
-        <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full border border-line-subtle bg-paper-2/10">
-          <Icon icon={ShieldCheck} className="h-6 w-6 text-ink" aria-hidden="true" />
-        </div>
+    <PageShell>
+      <div className="text-center">
         <h1 className="text-lg font-semibold text-ink">Approval request</h1>
         <p className="mt-2 text-sm text-dim-2">
           Action approvals aren&apos;t available yet. This unlocks once MCP server support and pending-action
@@ -41,6 +292,6 @@ export default function ApproveActionPage({ jwt }: { jwt?: string }) {
           Return to Blawby
         </Button>
       </div>
-    </div>
+    </PageShell>
   );
 }
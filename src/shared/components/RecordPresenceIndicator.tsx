@@ -0,0 +1,87 @@
+import type { VNode } from 'preact';
+import { useMemo } from 'preact/hooks';
+import { StackedAvatars } from '@/shared/ui/profile';
+import { useRecordPresence, type RecordCollaborator } from '@/shared/contexts/PresenceContext';
+import { usePracticeTeam } from '@/shared/hooks/usePracticeTeam';
+import { cn } from '@/shared/utils/cn';
+
+interface RecordPresenceIndicatorProps {
+  practiceId: string | null | undefined;
+  userId: string | null | undefined;
+  /** Presence resource key, e.g. `matter:123`. */
+  resource: string | null | undefined;
+  /** True while this tab has the record's edit form open. */
+  editing?: boolean;
+  className?: string;
+}
+
+interface NamedCollaborator extends RecordCollaborator {
+  name: string;
+  image?: string | null;
+}
+
+const STATUS_SUFFIX: Record<RecordCollaborator['status'], string> = {
+  online: '',
+  away: ' (away)',
+  busy: ' (busy)',
+};
+
+const buildLabel = (people: readonly NamedCollaborator[]): string => {
+  const verb = people[0].mode === 'editing' ? 'editing' : 'viewing';
+  const lead = `${people[0].name}${STATUS_SUFFIX[people[0].status]}`;
+  if (people.length === 1) return `${lead} is also ${verb}`;
+  if (people.length === 2) return `${lead} and ${people[1].name} are also ${verb}`;
+  return `${lead} and ${people.length - 1} others are also ${verb}`;
+};
+
+/**
+ * Announces that this tab has `resource` open and shows who else on the
+ * practice has it open. Editors are listed first; when anyone else is
+ * editing the label is shown as a warning so the user knows a save may
+ * collide.
+ */
+export const RecordPresenceIndicator = ({
+  practiceId,
+  userId,
+  resource,
+  editing = false,
+  className = '',
+}: RecordPresenceIndicatorProps): VNode | null => {
+  const collaborators = useRecordPresence(resource, userId, editing);
+  const { members: team } = usePracticeTeam(practiceId, userId, { enabled: collaborators.length > 0 });
+
+  const people = useMemo<NamedCollaborator[]>(() => {
+    const byId = new Map(team.map((member) => [member.userId, member]));
+    return collaborators.map((collaborator) => {
+      const member = byId.get(collaborator.userId);
+      return {
+        ...collaborator,
+        name: member?.name?.trim() || member?.email || 'A teammate',
+        image: member?.image ?? null,
+      };
+    });
+  }, [collaborators, team]);
+
+  if (people.length === 0) return null;
+  const someoneEditing = people[0].mode === 'editing';
+  const label = buildLabel(someoneEditing ? people.filter((person) => person.mode === 'editing') : people);
+
+  return (
+    <div
+      className={cn('flex items-center gap-2', className)}
+      role="status"
+      aria-live="polite"
+      aria-atomic="true"
+      title={people.map((person) => `${person.name}: ${person.mode}${STATUS_SUFFIX[person.status]}`).join('\n')}
+    >
+      <StackedAvatars
+        users={people.map((person) => ({ id: person.userId, name: person.name, image: person.image }))}
+        size="sm"
+        max={3}
+      />
+      <span className={cn('text-xs', someoneEditing ? 'font-medium text-amber-700 dark:text-amber-300' : 'text-dim-2')}>
+        {label}
+      </span>
+    </div>
+  );
+};
@@ -1,20 +1,37 @@
 import { createContext } from 'preact';
 import { useCallback, useContext, useEffect, useMemo, useRef, useState } from 'preact/hooks';
 import type { ComponentChildren } from 'preact';
+import {
+  PresenceSnapshotFrameSchema,
+  type PresenceMember,
+  type PresenceMode,
+  type PresenceStatus,
+} from '@/shared/types/wire';
 
 interface PresenceContextValue {
   /** Set of userIds currently online for the active practice. */
   onlineUserIds: ReadonlySet<string>;
+  /** Online members keyed by userId, with their status and open records. */
+  members: ReadonlyMap<string, PresenceMember>;
   /** Per-conversation set of userIds currently typing (server-broadcast). */
   typingByConversation: ReadonlyMap<string, ReadonlySet<string>>;
   /** True once the WebSocket has received its first snapshot. */
   isReady: boolean;
+  /** True while the user has marked themselves busy. */
+  isBusy: boolean;
+  setBusy: (busy: boolean) => void;
+  /** Report the record this tab has open (`matter:123`), or null when none. */
+  setFocus: (resource: string | null, mode: PresenceMode) => void;
 }
 
 const EmptyPresenceContext: PresenceContextValue = {
   onlineUserIds: new Set<string>(),
+  members: new Map<string, PresenceMember>(),
   typingByConversation: new Map<string, ReadonlySet<string>>(),
   isReady: false,
+  isBusy: false,
+  setBusy: () => undefined,
+  setFocus: () => undefined,
 };
 
 const PresenceContext = createContext<PresenceContextValue>(EmptyPresenceContext);
@@ -53,6 +70,52 @@ export const useTypingInConversation = (
 const EMPTY_TYPING_SET: ReadonlySet<string> = new Set();
 const TYPING_EXPIRY_MS = 6_000;
 
+export interface RecordCollaborator {
+  userId: string;
+  mode: PresenceMode;
+  status: PresenceStatus;
+}
+
+const EMPTY_COLLABORATORS: readonly RecordCollaborator[] = [];
+
+// Hidden tabs report away; the busy flag overrides both.
+const resolveStatus = (busy: boolean): PresenceStatus => {
+  if (busy) return 'busy';
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden' ? 'away' : 'online';
+};
+
+/**
+ * Announces that this tab has `resource` open (viewing, or editing while
+ * `editing` is true) and returns the other members who have it open too,
+ * editors first. Clears the focus again on unmount.
+ */
+export const useRecordPresence = (
+  resource: string | null | undefined,
+  selfUserId: string | null | undefined,
+  editing = false,
+): readonly RecordCollaborator[] => {
+  const { members, setFocus } = usePresenceContext();
+  const mode: PresenceMode = editing ? 'editing' : 'viewing';
+
+  useEffect(() => {
+    if (!resource) return undefined;
+    setFocus(resource, mode);
+    return () => setFocus(null, 'viewing');
+  }, [resource, mode, setFocus]);
+
+  return useMemo(() => {
+    if (!resource) return EMPTY_COLLABORATORS;
+    const others: RecordCollaborator[] = [];
+    for (const member of members.values()) {
+      if (member.userId === selfUserId) continue;
+      const focus = member.focus.find((entry) => entry.resource === resource);
+      if (focus) others.push({ userId: member.userId, mode: focus.mode, status: member.status });
+    }
+    if (others.length === 0) return EMPTY_COLLABORATORS;
+    return others.sort((a, b) => (a.mode === b.mode ? 0 : a.mode === 'editing' ? -1 : 1));
+  }, [members, resource, selfUserId]);
+};
+
 interface PresenceProviderProps {
   practiceId: string | null | undefined;
   /** Authenticated userId. When null/empty, the provider is dormant
@@ -69,6 +132,8 @@ interface PresenceProviderProps {
  */
 export const PresenceProvider = ({ practiceId, userId, enabled = true, children }: PresenceProviderProps) => {
   const [onlineUserIds, setOnlineUserIds] = useState<ReadonlySet<string>>(new Set());
+  const [members, setMembers] = useState<ReadonlyMap<string, PresenceMember>>(new Map());
+  const [isBusy, setIsBusy] = useState(false);
   const [typingByConversation, setTypingByConversation] = useState<ReadonlyMap<string, ReadonlySet<string>>>(new Map());
   const [isReady, setIsReady] = useState(false);
   const wsRef = useRef<WebSocket | null>(null);
@@ -78,6 +143,29 @@ export const PresenceProvider = ({ practiceId, userId, enabled = true, children
   // (conversationId, userId) → expiry timer. Cleared on typing.stop or after
   // TYPING_EXPIRY_MS so the indicator never sticks on dropped connections.
   const typingTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // What this tab last reported; replayed on every (re)connect so the room
+  // rebuilds it after a drop.
+  const focusRef = useRef<{ resource: string | null; mode: PresenceMode }>({ resource: null, mode: 'viewing' });
+  const busyRef = useRef(false);
+
+  const sendFrame = useCallback((frame: Record<string, unknown>) => {
+    const socket = wsRef.current;
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    try { socket.send(JSON.stringify(frame)); } catch { /* closing; replayed on reconnect */ }
+  }, []);
+
+  const setFocus = useCallback((resource: string | null, mode: PresenceMode) => {
+    const current = focusRef.current;
+    if (current.resource === resource && current.mode === mode) return;
+    focusRef.current = { resource, mode };
+    sendFrame({ type: 'focus', resource, mode });
+  }, [sendFrame]);
+
+  const setBusy = useCallback((busy: boolean) => {
+    busyRef.current = busy;
+    setIsBusy(busy);
+    sendFrame({ type: 'status', status: resolveStatus(busyRef.current) });
+  }, [sendFrame]);
 
   const applyTypingState = useCallback((conversationId: string, typingUserId: string, isTyping: boolean) => {
     const key = `${conversationId}::${typingUserId}`;
@@ -143,6 +231,9 @@ export const PresenceProvider = ({ practiceId, userId, enabled = true, children
 
       socket.addEventListener('open', () => {
         reconnectAttemptsRef.current = 0;
+        const status = resolveStatus(busyRef.current);
+        if (status !== 'online') sendFrame({ type: 'status', status });
+        if (focusRef.current.resource) sendFrame({ type: 'focus', ...focusRef.current });
       });
       socket.addEventListener('message', (event) => {
         try {
@@ -155,7 +246,11 @@ export const PresenceProvider = ({ practiceId, userId, enabled = true, children
           };
           if (parsed?.type === 'presence' && Array.isArray(parsed.online)) {
             const next = new Set(parsed.online.filter((id): id is string => typeof id === 'string' && id.length > 0));
+            const snapshot = PresenceSnapshotFrameSchema.safeParse(parsed);
             setOnlineUserIds(next);
+            setMembers(snapshot.success
+              ? new Map(snapshot.data.members.map((member) => [member.userId, member]))
+              : new Map());
             setIsReady(true);
             return;
           }
@@ -186,10 +281,14 @@ export const PresenceProvider = ({ practiceId, userId, enabled = true, children
       reconnectTimerRef.current = setTimeout(connect, delay);
     };
 
+    const handleVisibilityChange = () => sendFrame({ type: 'status', status: resolveStatus(busyRef.current) });
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
     connect();
     const typingTimers = typingTimersRef.current;
     return () => {
       cancelledRef.current = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
       if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
       reconnectTimerRef.current = null;
       const socket = wsRef.current;
@@ -200,14 +299,15 @@ export const PresenceProvider = ({ practiceId, userId, enabled = true, children
       for (const timer of typingTimers.values()) clearTimeout(timer);
       typingTimers.clear();
       setOnlineUserIds(new Set());
+      setMembers(new Map());
       setTypingByConversation(new Map());
       setIsReady(false);
     };
-  }, [enabled, practiceId, userId, applyTypingState]);
+  }, [enabled, practiceId, userId, applyTypingState, sendFrame]);
 
   const value = useMemo<PresenceContextValue>(
-    () => ({ onlineUserIds, typingByConversation, isReady }),
-    [onlineUserIds, typingByConversation, isReady],
+    () => ({ onlineUserIds, members, typingByConversation, isReady, isBusy, setBusy, setFocus }),
+    [onlineUserIds, members, typingByConversation, isReady, isBusy, setBusy, setFocus],
   );
 
   return <PresenceContext.Provider value={value}>{children}</PresenceContext.Provider>;
@@ -0,0 +1,46 @@
+import { apiClient, unwrapApiResponse } from '@/shared/lib/apiClient';
+import { useQuery } from '@/shared/hooks/useQuery';
+import { policyTtl } from '@/shared/lib/cachePolicy';
+import { urls } from '@/config/urls';
+import {
+  AiUsageSummarySchema,
+  type AiUsageBudget,
+  type AiUsageSummary,
+  type SaveAiUsageBudgetRequest,
+} from '@/shared/types/wire';
+
+/**
+ * Reads the practice's metered AI token usage and monthly budget from the
+ * worker's `/api/practice/:id/ai-usage` endpoint.
+ */
+
+export const aiUsageCacheKey = (practiceId: string | null | undefined): string =>
+  `usage:ai:${practiceId ?? 'none'}`;
+
+const fetchAiUsage = async (practiceId: string, signal?: AbortSignal): Promise<AiUsageSummary> => {
+  const response = await apiClient.get<unknown>(urls.practiceAiUsage(practiceId), { signal });
+  const parsed = AiUsageSummarySchema.safeParse(unwrapApiResponse<unknown>(response.data));
+  if (!parsed.success) throw new Error('Invalid AI usage response');
+  return parsed.data;
+};
+
+/** Admin-only: saves the budget as a new version and returns it. */
+export const saveAiUsageBudget = async (
+  practiceId: string,
+  input: SaveAiUsageBudgetRequest,
+): Promise<AiUsageBudget> => {
+  const response = await apiClient.put<unknown>(urls.practiceAiUsage(practiceId), input);
+  return unwrapApiResponse<AiUsageBudget>(response.data, 'Failed to save AI budget');
+};
+
+export const useAiUsage = (practiceId: string | null, options: { enabled?: boolean } = {}) => {
+  const { enabled = true } = options;
+  const cacheKey = aiUsageCacheKey(practiceId);
+
+  return useQuery<AiUsageSummary>({
+    key: cacheKey,
+    fetcher: (signal) => fetchAiUsage(practiceId ?? '', signal),
+    ttl: policyTtl(cacheKey),
+    enabled: enabled && Boolean(practiceId),
+  });
+};
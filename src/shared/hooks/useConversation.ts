@@ -439,6 +439,8 @@ export const useConversation = ({
       isUser,
       seq: msg.seq,
       toolProgress,
+      editedAt: msg.edited_at ?? null,
+      deletedAt: msg.deleted_at ?? null,
     };
   }, [currentUserId]);
 
@@ -703,6 +705,33 @@ export const useConversation = ({
     });
   }, [currentUserId]);
 
+  const handleMessageUpdate = useCallback((data: Record<string, unknown>, deleted: boolean) => {
+    const conversationIdValue = typeof data.conversation_id === 'string' ? data.conversation_id : null;
+    if (!conversationIdValue || conversationIdValue !== conversationIdRef.current) return;
+    const messageId = typeof data.message_id === 'string' ? data.message_id : null;
+    if (!messageId || (!deleted && typeof data.content !== 'string')) return;
+    const updates: Partial<ChatMessageUI> = deleted
+      ? {
+        content: '',
+        files: undefined,
+        reactions: [],
+        deletedAt: typeof data.deleted_at === 'string' ? data.deleted_at : new Date().toISOString(),
+      }
+      : {
+        content: data.content as string,
+        editedAt: typeof data.edited_at === 'string' ? data.edited_at : null,
+      };
+    setMessages(prev => {
+      let changed = false;
+      const next = prev.map(msg => {
+        if (msg.id !== messageId) return msg;
+        changed = true;
+        return { ...msg, ...updates } as ChatMessageUI;
+      });
+      return changed ? next : prev;
+    });
+  }, []);
+
   // ── gap fetch ─────────────────────────────────────────────────────────────
 
   const fetchGapMessages = useCallback(async (fromSeq: number, latestSeq: number) => {
@@ -774,12 +803,14 @@ export const useConversation = ({
   const onMessageNewRef = useRef(handleMessageNew);
   const onMessageAckRef = useRef(handleMessageAck);
   const onReactionUpdateRef = useRef(handleReactionUpdate);
+  const onMessageUpdateRef = useRef(handleMessageUpdate);
   const onGapRef = useRef(handleTransportGap);
   const onResumeOkRef = useRef(handleTransportResumeOk);
   const transportErrorRef = useRef(onError);
   onMessageNewRef.current = handleMessageNew;
   onMessageAckRef.current = handleMessageAck;
   onReactionUpdateRef.current = handleReactionUpdate;
+  onMessageUpdateRef.current = handleMessageUpdate;
   onGapRef.current = handleTransportGap;
   onResumeOkRef.current = handleTransportResumeOk;
   transportErrorRef.current = onError;
@@ -796,6 +827,10 @@ export const useConversation = ({
     onReactionUpdateRef.current(data);
   }, []);
 
+  const stableOnMessageUpdate = useCallback((data: Record<string, unknown>, deleted: boolean) => {
+    onMessageUpdateRef.current(data, deleted);
+  }, []);
+
   const stableOnGap = useCallback((fromSeq: number, latestSeq: number) => {
     onGapRef.current(fromSeq, latestSeq);
   }, []);
@@ -848,6 +883,7 @@ export const useConversation = ({
     onMessageNew: stableOnMessageNew,
     onMessageAck: stableOnMessageAck,
     onReactionUpdate: stableOnReactionUpdate,
+    onMessageUpdate: stableOnMessageUpdate,
     onGap: stableOnGap,
     onResumeOk: stableOnResumeOk,
     onTyping: stableOnTyping,
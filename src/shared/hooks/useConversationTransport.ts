@@ -26,6 +26,7 @@ export interface UseConversationTransportOptions {
   onMessageNew: (data: Record<string, unknown>) => void;
   onMessageAck: (data: Record<string, unknown>) => void;
   onReactionUpdate: (data: Record<string, unknown>) => void;
+  onMessageUpdate?: (data: Record<string, unknown>, deleted: boolean) => void;
   onGap: (fromSeq: number, latestSeq: number) => void;
   onResumeOk: (latestSeq: number) => void;
   onTyping?: (userId: string, isTyping: boolean) => void;
@@ -54,6 +55,7 @@ export const useConversationTransport = ({
   onMessageNew,
   onMessageAck,
   onReactionUpdate,
+  onMessageUpdate,
   onGap,
   onResumeOk,
   onTyping,
@@ -79,6 +81,7 @@ export const useConversationTransport = ({
   const onMessageNewRef = useRef(onMessageNew);
   const onMessageAckRef = useRef(onMessageAck);
   const onReactionUpdateRef = useRef(onReactionUpdate);
+  const onMessageUpdateRef = useRef(onMessageUpdate);
   const onGapRef = useRef(onGap);
   const onResumeOkRef = useRef(onResumeOk);
   const onTypingRef = useRef(onTyping);
@@ -90,6 +93,7 @@ export const useConversationTransport = ({
   onMessageNewRef.current = onMessageNew;
   onMessageAckRef.current = onMessageAck;
   onReactionUpdateRef.current = onReactionUpdate;
+  onMessageUpdateRef.current = onMessageUpdate;
   onGapRef.current = onGap;
   onResumeOkRef.current = onResumeOk;
   onTypingRef.current = onTyping;
@@ -274,6 +278,12 @@ export const useConversationTransport = ({
         case 'reaction.update':
           onReactionUpdateRef.current(frame.data);
           return;
+        case 'message.updated':
+          onMessageUpdateRef.current?.(frame.data, false);
+          return;
+        case 'message.deleted':
+          onMessageUpdateRef.current?.(frame.data, true);
+          return;
         case 'typing': {
           const userId = typeof frame.data.user_id === 'string' ? frame.data.user_id : null;
           if (!userId) return;
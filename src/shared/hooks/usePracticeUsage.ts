@@ -0,0 +1,31 @@
+import { apiClient } from '@/shared/lib/apiClient';
+import { useQuery } from '@/shared/hooks/useQuery';
+import { policyTtl } from '@/shared/lib/cachePolicy';
+import { urls } from '@/config/urls';
+import { PracticeUsageSchema, type PracticeUsage } from '@/shared/types/wire';
+
+/**
+ * Reads the practice's plan quota usage from the worker's
+ * `/api/practice/:id/usage` endpoint (AI turns per day, uploads per hour).
+ */
+
+const fetchPracticeUsage = async (practiceId: string, signal?: AbortSignal): Promise<PracticeUsage> => {
+  const response = await apiClient.get<unknown>(urls.practiceUsage(practiceId), { signal });
+  const raw = response.data as Record<string, unknown> | null;
+  // createSuccessResponse wraps the payload in `{ success: true, data: {...} }`.
+  const parsed = PracticeUsageSchema.safeParse(raw && typeof raw === 'object' && 'data' in raw ? raw.data : raw);
+  if (!parsed.success) throw new Error('Invalid usage response');
+  return parsed.data;
+};
+
+export const usePracticeUsage = (practiceId: string | null, options: { enabled?: boolean } = {}) => {
+  const { enabled = true } = options;
+  const cacheKey = `usage:practice:${practiceId ?? 'none'}`;
+
+  return useQuery<PracticeUsage>({
+    key: cacheKey,
+    fetcher: (signal) => fetchPracticeUsage(practiceId ?? '', signal),
+    ttl: policyTtl(cacheKey),
+    enabled: enabled && Boolean(practiceId),
+  });
+};
@@ -69,6 +69,13 @@ const flatten = (
     if (inbox > 0) out.conversations = inbox;
   }
 
+  // ── Pinned saved searches ──────────────────────────────────────────────
+  // Keyed like the rail items built by usePinnedSearchRailItems. Zero is
+  // written too: "no matches" is useful to show for a saved search.
+  if (raw.savedSearches) {
+    for (const [id, v] of Object.entries(raw.savedSearches.byId)) out[`saved-search:${id}`] = v;
+  }
+
   // ── Active-section sub-counts ──────────────────────────────────────────
   if (activeSection === 'intakes' && raw.intakes) {
     out.all = raw.intakes.total;
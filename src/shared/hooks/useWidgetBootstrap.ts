@@ -2,7 +2,7 @@ import { useState, useEffect } from 'preact/hooks';
 import { apiClient, isHttpError } from '@/shared/lib/apiClient';
 import { rememberAnonymousUserId, rememberAnonymousSessionId } from '@/shared/utils/anonymousIdentity';
 import { clearWidgetAuthToken, persistWidgetAuthToken } from '@/shared/utils/widgetAuth';
-import type { IntakeTemplate } from '@/shared/types/intake';
+import type { IntakeExperimentAssignment, IntakeTemplate } from '@/shared/types/intake';
 import type { AuthSessionPayload } from '@/shared/types/user';
 
 export interface WidgetBootstrapData {
@@ -16,6 +16,8 @@ export interface WidgetBootstrapData {
   widgetQueryAuthTokenExpiresAt?: string | null;
   /** Resolved IntakeTemplate for this widget boot (honours ?template= param) */
   intakeTemplate?: IntakeTemplate | null;
+  /** Intake experiment variant this session was assigned; `intakeTemplate` is already that variant's template */
+  intakeExperiment?: IntakeExperimentAssignment | null;
   /** Service UUID from ?service=<uuid> embed param — pre-seeds practiceServiceUuid so conditions evaluate from turn 1 */
   preSelectedServiceUuid?: string | null;
 }
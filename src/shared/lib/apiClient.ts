@@ -4,9 +4,11 @@ import {
   getSubscriptionBillingPortalEndpoint,
   getSubscriptionCancelEndpoint,
   getSubscriptionListEndpoint,
-  getConversationLinkEndpoint
+  getConversationLinkEndpoint,
+  getConversationExportEndpoint
 } from '@/config/api';
 import type { Conversation } from '@/shared/types/conversation';
+import type { TranscriptExportFormat, TranscriptSaveResult } from '@/shared/types/wire';
 import type { Address } from '@/shared/types/address';
 import type { PracticeTeamResponse } from '@/shared/types/team';
 import { getWorkerApiUrl, isWidgetTokenEligibleRequestUrl } from '@/config/urls';
@@ -839,6 +841,53 @@ export async function updateConversationMatter(
   return data as unknown as Conversation;
 }
 
+/** Downloads a conversation transcript (staff only), ready for `<a download>` use. */
+export async function downloadConversationTranscript(
+  conversationId: string,
+  format: TranscriptExportFormat,
+  config?: ApiRequestConfig
+): Promise<{ blob: Blob; filename: string }> {
+  if (!conversationId) {
+    throw new Error('conversationId is required to export a transcript');
+  }
+
+  const response = await fetch(
+    `${getConversationExportEndpoint(conversationId)}?format=${encodeURIComponent(format)}`,
+    { credentials: 'include', signal: config?.signal }
+  );
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(extractFetchErrorMessage(data, `Export failed: ${response.status}`));
+  }
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const filename = /filename="([^"]+)"/i.exec(disposition)?.[1] ?? `conversation-transcript.${format}`;
+  return { blob: await response.blob(), filename };
+}
+
+/** Renders a conversation transcript and files it into the conversation's linked matter. */
+export async function saveConversationTranscriptToMatter(
+  conversationId: string,
+  format: TranscriptExportFormat,
+  config?: ApiRequestConfig
+): Promise<TranscriptSaveResult> {
+  if (!conversationId) {
+    throw new Error('conversationId is required to export a transcript');
+  }
+
+  const response = await apiClient.post(
+    `/api/conversations/${encodeURIComponent(conversationId)}/export`,
+    { format },
+    { signal: config?.signal }
+  );
+
+  const data = unwrapApiData(response.data);
+  if (!isRecord(data) || typeof data.uploadId !== 'string') {
+    throw new Error('Invalid response from saveConversationTranscriptToMatter');
+  }
+
+  return data as unknown as TranscriptSaveResult;
+}
+
 export type ConversationParticipant = {
   userId: string;
   role: string | null;
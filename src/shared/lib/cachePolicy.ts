@@ -34,6 +34,14 @@ export const CACHE_POLICY = [
   { prefix: 'invoice:practice:', ttl: 30 * SECOND },
   { prefix: 'invoice:client:', ttl: 30 * SECOND },
   { prefix: 'intake:', ttl: 30 * SECOND },
+  { prefix: 'intake:analytics:', ttl: 5 * MINUTE },
+  { prefix: 'intake:experiments:', ttl: MINUTE },
+  { prefix: 'conflicts:', ttl: 30 * SECOND },
+  { prefix: 'trust:compliance:', ttl: MINUTE },
+  { prefix: 'trust:reconciliation:', ttl: MINUTE },
+
+  // Saved searches — edited rarely; mutations invalidate
+  { prefix: 'search:saved:', ttl: 5 * MINUTE },
 
   // Onboarding/setup flows
   { prefix: 'onboarding:', ttl: MINUTE },
@@ -41,6 +49,11 @@ export const CACHE_POLICY = [
   // Sidebar counts — match the worker edge-cache window so client and edge
   // refresh roughly together; fresh badges arrive within ~30s of changes.
   { prefix: 'sidebar:counts:', ttl: 30 * SECOND },
+
+  // Plan quota usage — buckets refill continuously, so keep this short.
+  { prefix: 'usage:practice:', ttl: 30 * SECOND },
+  // AI token budget — every metered call moves the month-to-date total.
+  { prefix: 'usage:ai:', ttl: 30 * SECOND },
 ] as const;
 
 const DEFAULT_TTL = MINUTE;
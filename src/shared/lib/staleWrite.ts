@@ -0,0 +1,48 @@
+import { isHttpError } from '@/shared/lib/apiClient';
+import { StaleWriteDetailsSchema, type StaleWriteDetails } from '@/shared/types/wire';
+
+/**
+ * A save rejected by the worker because the record changed after this tab
+ * loaded it (409 + `STALE_WRITE`). `details.changes` lists the fields where
+ * the save differs from the current version, with both values — which
+ * includes this tab's own edits, not only what someone else changed.
+ */
+export class StaleWriteError extends Error {
+  readonly details: StaleWriteDetails;
+  constructor(message: string, details: StaleWriteDetails) {
+    super(message);
+    this.name = 'StaleWriteError';
+    this.details = details;
+  }
+}
+
+export const isStaleWriteError = (error: unknown): error is StaleWriteError => error instanceof StaleWriteError;
+
+/** The StaleWriteError inside an apiClient 409, or null for any other failure. */
+export const toStaleWriteError = (error: unknown): StaleWriteError | null => {
+  if (isStaleWriteError(error)) return error;
+  if (!isHttpError(error) || error.response.status !== 409) return null;
+  const data = error.response.data as { error?: unknown; details?: unknown } | null;
+  const parsed = StaleWriteDetailsSchema.safeParse(data?.details);
+  if (!parsed.success) return null;
+  const message = typeof data?.error === 'string' && data.error
+    ? data.error
+    : 'This record was changed by someone else since you opened it.';
+  return new StaleWriteError(message, parsed.data);
+};
+
+/** `If-Match` header for a save based on the record version (`updated_at`) it was loaded at. */
+export const versionHeaders = (version: string | null | undefined): Record<string, string> | undefined =>
+  version ? { 'If-Match': `"${version}"` } : undefined;
+
+const humanizeField = (field: string): string => field.replace(/_/g, ' ');
+
+/** One-line summary for a toast, e.g. "… Your save differs from the current version in status and description. …" */
+export const describeStaleWrite = (details: StaleWriteDetails): string => {
+  const fields = details.changes.map((change) => humanizeField(change.field));
+  if (fields.length === 0) return 'This record was saved by someone else after you opened it. Reload to see the current version.';
+  const list = fields.length === 1
+    ? fields[0]
+    : `${fields.slice(0, -1).join(', ')} and ${fields[fields.length - 1]}`;
+  return `This record was saved by someone else after you opened it. Your save differs from the current version in ${list}. Reload to see the current version before saving again.`;
+};
@@ -214,6 +214,8 @@ export interface ConversationMessage {
   server_ts: string;
   token_count: number | null;
   created_at: string; // ISO timestamp
+  edited_at?: string | null;
+  deleted_at?: string | null;
   reactions?: MessageReaction[];
 }
 
@@ -24,25 +24,81 @@ export type IntakeStep =
  */
 export type FieldPhase = 'required' | 'enrichment';
 
+export type FieldConditionValue = string | boolean | number;
+
 /**
- * Simple dependency expression.
+ * Legacy single-equality dependency.
  * This field is only collected when dependsOn field equals value.
- * Both the AI prompt and the submission gate skip this field when unmet.
  * Example: { dependsOn: 'caseType', value: 'personal_injury' }
  */
-export interface FieldCondition {
+export interface SimpleFieldCondition {
   /** Key of the field this field depends on */
   dependsOn: string;
   /** The value that field must equal for this field to be active */
-  value: string | boolean | number;
+  value: FieldConditionValue;
+}
+
+export type FieldConditionOperator = 'eq' | 'neq' | 'in' | 'gt' | 'lt' | 'exists';
+
+/**
+ * Single comparison against another field's collected value.
+ * - eq / neq: loose string comparison ("true" matches true)
+ * - in: value is a list; matches when the field equals any entry
+ * - gt / lt: numeric comparison; non-numeric values never match
+ * - exists: the field has been collected (value is ignored)
+ */
+export interface FieldComparisonCondition {
+  field: string;
+  op: FieldConditionOperator;
+  value?: FieldConditionValue | FieldConditionValue[];
 }
 
+/**
+ * Skip-logic expression for a template field. Both the AI prompt and the
+ * submission gate skip the field when the expression is unmet.
+ * Example: "injuryDate when caseType is personal_injury OR workers_comp AND state is CA"
+ *   { all: [
+ *     { field: 'caseType', op: 'in', value: ['personal_injury', 'workers_comp'] },
+ *     { field: 'state', op: 'eq', value: 'CA' },
+ *   ] }
+ */
+export type FieldCondition =
+  | SimpleFieldCondition
+  | FieldComparisonCondition
+  | { all: FieldCondition[] }
+  | { any: FieldCondition[] }
+  | { not: FieldCondition };
+
+/**
+ * Answer type of an intake field. Drives the save_case_details JSON schema,
+ * server-side value validation and preview rendering.
+ *
+ * Stored answer shapes (customFields only holds primitives):
+ *   multiselect  → comma-separated option labels
+ *   address      → single formatted line ("123 Main St, Austin, TX 78701")
+ *   currency     → number in major units (dollars), rounded to cents
+ *   phone/email  → normalized string
+ *   file_upload  → comma-separated names of files uploaded in the conversation
+ */
+export type IntakeFieldType =
+  | 'text'
+  | 'select'
+  | 'multiselect'
+  | 'date'
+  | 'boolean'
+  | 'number'
+  | 'address'
+  | 'currency'
+  | 'phone'
+  | 'email'
+  | 'file_upload';
+
 export interface IntakeFieldDefinition {
   key: string;
   label: string;
-  type: 'text' | 'select' | 'date' | 'boolean' | 'number';
+  type: IntakeFieldType;
   required: boolean;
-  /** Only for type === 'select' */
+  /** Only for type === 'select' | 'multiselect' */
   options?: string[];
   /** true = maps to an existing IntakeConversationState key; false = goes into customFields */
   isStandard: boolean;
@@ -55,8 +111,8 @@ export interface IntakeFieldDefinition {
   /** Describes what counts as a valid answer for this field. */
   validationHint?: string;
   /**
-   * Simple dependency expression.
-   * This field is only collected when the referenced field matches value.
+   * Skip-logic expression (see FieldCondition).
+   * This field is only collected when the expression is met.
    * Both the AI prompt and the submission gate skip this field when unmet.
    */
   condition?: FieldCondition | null;
@@ -76,8 +132,8 @@ export interface IntakeFieldDefinition {
    */
   mapsTo?: string;
   /**
-   * Raw backend field_type before normalization (e.g. 'textarea', 'email', 'phone').
-   * Preserved so UI rendering and validation can access specialized semantics.
+   * Raw backend field_type before normalization (e.g. 'textarea').
+   * Preserved so UI rendering can distinguish variants that share a `type`.
    */
   backendFieldType?: string;
   /**
@@ -116,6 +172,17 @@ export interface IntakeTemplate {
   fields: IntakeFieldDefinition[];
 }
 
+/**
+ * Intake experiment variant a widget session is assigned. Bootstrap reports
+ * it alongside the variant's template; the worker stamps it on the
+ * conversation (user_info.intakeExperiment) at creation so every intake
+ * event for it is attributed to the variant.
+ */
+export interface IntakeExperimentAssignment {
+  experimentId: string;
+  variantKey: string;
+}
+
 export interface SlimContactDraft {
   name: string;
   email: string;
@@ -1,3 +1,5 @@
 export type NotificationCategory = 'message' | 'system' | 'payment' | 'intake' | 'matter';
 
 export type InAppNotificationFrequency = 'all' | 'summaries_only';
+
+export type NotificationDigestFrequency = 'off' | 'daily' | 'weekly';
@@ -33,6 +33,16 @@ export interface NotificationPreferences {
   in_app_intakes?: boolean;
   in_app_matters?: boolean;
   in_app_frequency?: 'all' | 'summaries_only';
+  quiet_hours_enabled?: boolean;
+  /** HH:MM, wall-clock in notification_timezone. */
+  quiet_hours_start?: string;
+  quiet_hours_end?: string;
+  /** IANA zone for quiet hours and digest delivery. */
+  notification_timezone?: string;
+  messages_digest?: 'off' | 'daily' | 'weekly';
+  payments_digest?: 'off' | 'daily' | 'weekly';
+  intakes_digest?: 'off' | 'daily' | 'weekly';
+  matters_digest?: 'off' | 'daily' | 'weekly';
 }
 
 export interface SecurityPreferences {
@@ -157,6 +157,18 @@ export interface NotificationSettings {
     matters: boolean;
   };
   inAppFrequency: 'all' | 'summaries_only';
+  quietHours: {
+    enabled: boolean;
+    start: string;
+    end: string;
+    timeZone: string;
+  };
+  digests: {
+    messages: 'off' | 'daily' | 'weekly';
+    payments: 'off' | 'daily' | 'weekly';
+    intakes: 'off' | 'daily' | 'weekly';
+    matters: 'off' | 'daily' | 'weekly';
+  };
 }
 
 export interface SecuritySettings {
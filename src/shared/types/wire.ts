@@ -128,6 +128,35 @@ export {
 export type { BackendSidebarCounts } from '../../../worker/types/wire/sidebarCounts';
 export { BackendSidebarCountsSchema } from '../../../worker/types/wire/sidebarCounts';
 
+// ── Practice Usage ────────────────────────────────────────────────────────
+export type { PracticeUsage, PracticeUsageFamily } from '../../../worker/types/wire/practiceUsage';
+export { PracticeUsageSchema } from '../../../worker/types/wire/practiceUsage';
+
+// ── AI Usage ──────────────────────────────────────────────────────────────
+export type {
+  AiBudgetStatus,
+  AiFallbackModel,
+  AiUsageBreakdownRow,
+  AiUsageBudget,
+  AiUsageFeature,
+  AiUsageSummary,
+  SaveAiUsageBudgetRequest,
+} from '../../../worker/types/wire/aiUsage';
+export { AI_FALLBACK_MODELS, AiUsageBudgetSchema, AiUsageSummarySchema } from '../../../worker/types/wire/aiUsage';
+
+// ── Conversation Transcript ───────────────────────────────────────────────
+export type {
+  ConversationTranscript,
+  TranscriptEntry,
+  TranscriptExportFormat,
+  TranscriptSaveResult,
+} from '../../../worker/types/wire/conversationTranscript';
+export {
+  ConversationTranscriptSchema,
+  TRANSCRIPT_EXPORT_FORMATS,
+  TranscriptSaveResultSchema,
+} from '../../../worker/types/wire/conversationTranscript';
+
 // ── Activity ──────────────────────────────────────────────────────────────
 export type {
   BackendActivityLog,
@@ -144,10 +173,76 @@ export type {
   PracticeAssistantProgress,
   PracticeAssistantActionStatus,
   PracticeAssistantActionSummary,
+  PracticeAssistantApproverRole,
+  PracticeAssistantApprovalState,
+  PracticeAssistantApprovalEntry,
 } from '../../../worker/types/wire/practiceAssistant';
 export {
   PracticeAssistantSourceSchema,
   PracticeAssistantProgressSchema,
   PracticeAssistantActionStatusSchema,
   PracticeAssistantActionSummarySchema,
+  PracticeAssistantApprovalStateSchema,
+  PracticeAssistantApprovalEntrySchema,
 } from '../../../worker/types/wire/practiceAssistant';
+
+// ── Conflict Checks ───────────────────────────────────────────────────────
+export type {
+  ConflictCheck,
+  ConflictCheckStatus,
+  ConflictCheckSummary,
+  ConflictDecisionRecord,
+  ConflictHit,
+  ConflictHitDecision,
+  ConflictMatchReason,
+  ConflictPartyRole,
+  RunConflictCheckRequest,
+} from '../../../worker/types/wire/conflictCheck';
+export {
+  ConflictCheckSchema,
+  ConflictCheckSummarySchema,
+} from '../../../worker/types/wire/conflictCheck';
+
+// ── Trust Compliance ──────────────────────────────────────────────────────
+export type {
+  SaveTrustCompliancePreferencesRequest,
+  TrustComplianceRule,
+  TrustCompliancePreferences,
+  TrustRuleEvaluation,
+  TrustRuleOutcome,
+} from '../../../worker/types/wire/trustCompliance';
+export {
+  TrustCompliancePreferencesSchema,
+  TrustRuleEvaluationSchema,
+} from '../../../worker/types/wire/trustCompliance';
+
+// ── Trust Reconciliation ──────────────────────────────────────────────────
+export type {
+  BankLineMatchStatus,
+  BankStatement,
+  BankStatementDetail,
+  BankStatementLine,
+  ClientLedgerBalance,
+  ImportBankStatementRequest,
+  ImportBankStatementResponse,
+  ReconciliationTransaction,
+  TrustReconciliationReport,
+} from '../../../worker/types/wire/trustReconciliation';
+export { MAX_BANK_STATEMENT_CHARS } from '../../../worker/types/wire/trustReconciliation';
+
+// ── Presence ──────────────────────────────────────────────────────────────
+export type {
+  PresenceClientFrame,
+  PresenceFocus,
+  PresenceMember,
+  PresenceMode,
+  PresenceResourceKind,
+  PresenceSnapshotFrame,
+  PresenceStatus,
+  StaleWriteChange,
+  StaleWriteDetails,
+} from '../../../worker/types/wire/presence';
+export {
+  PresenceSnapshotFrameSchema,
+  StaleWriteDetailsSchema,
+} from '../../../worker/types/wire/presence';
@@ -1,6 +1,6 @@
 import type { ComponentChildren, FunctionComponent, JSX } from 'preact';
 import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'preact/hooks';
-import { CircleUser, LogOut, Monitor, Moon, Settings as SettingsIcon, Sun } from 'lucide-preact';
+import { BellOff, CircleUser, LogOut, Monitor, Moon, Settings as SettingsIcon, Sun } from 'lucide-preact';
 import { Sidebar } from './Sidebar';
 import { Avatar } from '@/shared/ui/profile';
 import { Icon, type IconComponent } from '@/shared/ui/Icon';
@@ -48,6 +48,9 @@ export interface SidebarProfileMenuProps {
   onAccount?: () => void;
   onSettings?: () => void;
   onSignOut?: () => void;
+  /** Presence busy flag; the toggle is hidden when `onBusyChange` is omitted. */
+  busy?: boolean;
+  onBusyChange?: (busy: boolean) => void;
   className?: string;
 }
 
@@ -57,6 +60,8 @@ export const SidebarProfileMenu: FunctionComponent<SidebarProfileMenuProps> = ({
   onAccount,
   onSettings,
   onSignOut,
+  busy = false,
+  onBusyChange,
   className,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
@@ -148,6 +153,13 @@ export const SidebarProfileMenu: FunctionComponent<SidebarProfileMenuProps> = ({
           <Separator />
           <ProfileMenuItem icon={CircleUser} label="Account" onClick={() => select(onAccount)} />
           <ProfileMenuItem icon={SettingsIcon} label="Settings" onClick={() => select(onSettings)} />
+          {onBusyChange ? (
+            <ProfileMenuItem
+              icon={BellOff}
+              label={busy ? 'Clear busy status' : 'Set status to busy'}
+              onClick={() => select(() => onBusyChange(!busy))}
+            />
+          ) : null}
           <Separator />
           <ThemeSelector value={theme} onChange={setTheme} />
           <Separator />
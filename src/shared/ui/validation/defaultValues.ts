@@ -1,7 +1,7 @@
 // Default value utilities for atomic design system
 // Ensures consistent default behavior across all form components
 
-import type { InAppNotificationFrequency } from '@/shared/types/notifications';
+import type { InAppNotificationFrequency, NotificationDigestFrequency } from '@/shared/types/notifications';
 
 export interface DefaultValueConfig {
   enabled?: boolean;
@@ -60,6 +60,9 @@ export const DEFAULT_DESKTOP_PUSH_ENABLED = false;
 export const DEFAULT_MESSAGES_MENTIONS_ONLY = false;
 export const DEFAULT_IN_APP_ENABLED = true;
 export const DEFAULT_IN_APP_FREQUENCY: InAppNotificationFrequency = 'all';
+export const DEFAULT_QUIET_HOURS_START = '22:00';
+export const DEFAULT_QUIET_HOURS_END = '07:00';
+export const DEFAULT_DIGEST_FREQUENCY: NotificationDigestFrequency = 'off';
 
 // Helper function to get display text for notification channels
 export function getNotificationDisplayText(
@@ -161,6 +161,18 @@ export const settingsSchemas = {
       matters: z.boolean(),
     }),
     inAppFrequency: z.enum(['all', 'summaries_only']),
+    quietHours: z.object({
+      enabled: z.boolean(),
+      start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+      end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),
+      timeZone: z.string(),
+    }),
+    digests: z.object({
+      messages: z.enum(['off', 'daily', 'weekly']),
+      payments: z.enum(['off', 'daily', 'weekly']),
+      intakes: z.enum(['off', 'daily', 'weekly']),
+      matters: z.enum(['off', 'daily', 'weekly']),
+    }),
   }),
 };
 
@@ -5,9 +5,11 @@ import {
   initialIntakeState,
   type ConsultationState,
   type ConsultationStatus,
+  type FieldCondition,
   type IntakeConversationState,
   type SlimContactDraft,
 } from '../types/intake';
+import { evaluateFieldCondition } from './fieldConditions';
 
 type ConsultationPatch = {
   status?: ConsultationStatus;
@@ -144,26 +146,11 @@ export const hasConsultationContact = (value: SlimContactDraft | null | undefine
   value && (trimString(value.name) || trimString(value.email) || trimString(value.phone))
 );
 
-/**
- * Resolve whether a field's condition is satisfied given the current intake state.
- * A field with no condition is always active.
- */
-const isFieldConditionMet = (
-  field: { condition?: { dependsOn: string; value: string | boolean | number } | null },
-  flatState: Record<string, unknown>,
-  customFields: Record<string, unknown>,
-): boolean => {
-  if (!field.condition) return true;
-  const { dependsOn, value } = field.condition;
-  // Check standard state first, then customFields bucket
-  const current = dependsOn in flatState ? flatState[dependsOn] : customFields[dependsOn];
-  // Loose string comparison so "true" === true and "1" === 1 are handled
-  return String(current ?? '') === String(value);
-};
+type SubmissionGateField = { key: string; isStandard: boolean; condition?: FieldCondition | null };
 
 export const isIntakeReadyForSubmission = (
   state: IntakeConversationState | Partial<IntakeConversationState> | null | undefined,
-  requiredFields?: ReadonlyArray<{ key: string; isStandard: boolean; condition?: { dependsOn: string; value: string | boolean | number } | null }> | null
+  requiredFields?: ReadonlyArray<SubmissionGateField> | null
 ): boolean => {
   // No template — fall back to the hardcoded core fields check so existing
   // conversations without a template continue to work.
@@ -177,7 +164,7 @@ export const isIntakeReadyForSubmission = (
     : {};
   return requiredFields.every((f) => {
     // Phase 3: required fields whose condition isn't met don't block submission
-    if (!isFieldConditionMet(f, flatState, customFields)) return true;
+    if (!evaluateFieldCondition(f.condition, flatState)) return true;
     if (f.isStandard) {
       const value = flatState[f.key];
       return typeof value === 'string' ? value.trim().length > 0 : (value !== null && value !== undefined);
@@ -193,7 +180,7 @@ export const isIntakeSubmittable = (
     paymentRequired?: boolean | null;
     paymentReceived?: boolean | null;
   } | null,
-  requiredFields?: ReadonlyArray<{ key: string; isStandard: boolean; condition?: { dependsOn: string; value: string | boolean | number } | null }> | null
+  requiredFields?: ReadonlyArray<SubmissionGateField> | null
 ): boolean => {
   if (!isIntakeReadyForSubmission(state, requiredFields)) return false;
   const paymentRequired = submission?.paymentRequired === true;
@@ -58,6 +58,22 @@ export function formatCurrency(
   }
 }
 
+/**
+ * Number of minor-unit digits for a currency (2 for USD, 0 for JPY, 3 for KWD)
+ * @param currency - The ISO currency code
+ * @returns Fraction digits used by the currency's minor unit
+ */
+export function getCurrencyFractionDigits(currency: string | null | undefined): number {
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: sanitizeCurrency(currency),
+    }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
 /**
  * Get the currency symbol for a given currency code in a specific locale
  * @param currency - The ISO currency code (e.g., 'USD', 'EUR', 'GBP')
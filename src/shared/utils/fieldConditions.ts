@@ -0,0 +1,341 @@
+/**
+ * Intake field condition language — evaluation, description and validation.
+ *
+ * A field's `condition` is a small boolean expression (see FieldCondition in
+ * shared/types/intake.ts): `all` / `any` / `not` groups over comparisons
+ * (`eq`, `neq`, `in`, `gt`, `lt`, `exists`). The legacy
+ * `{ dependsOn, value }` shape is an `eq` comparison.
+ *
+ * Every consumer — the AI field instructions, resolveNextField, the
+ * submission gate and the completeness score — evaluates conditions through
+ * evaluateFieldCondition so they can never disagree about which fields are
+ * active.
+ *
+ * All functions are pure — no AI, no network, fully unit-testable.
+ */
+
+import { STANDARD_FIELD_KEYS } from '../constants/intakeTemplates';
+import type {
+  FieldComparisonCondition,
+  FieldCondition,
+  FieldConditionOperator,
+  FieldConditionValue,
+  SimpleFieldCondition,
+} from '../types/intake';
+
+/** Nesting limit for all/any/not groups; deeper expressions are rejected on save. */
+export const MAX_CONDITION_DEPTH = 5;
+
+const OPERATORS: ReadonlySet<FieldConditionOperator> = new Set(['eq', 'neq', 'in', 'gt', 'lt', 'exists']);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isPrimitive = (value: unknown): value is FieldConditionValue =>
+  typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+
+export const isSimpleFieldCondition = (value: unknown): value is SimpleFieldCondition =>
+  isRecord(value) && typeof value.dependsOn === 'string' && isPrimitive(value.value);
+
+const isComparison = (value: unknown): value is FieldComparisonCondition =>
+  isRecord(value) && typeof value.field === 'string' && typeof value.op === 'string';
+
+/**
+ * Structural type guard used at trust boundaries (widget bootstrap, backend
+ * template payloads). Does not check referenced keys — see
+ * validateFieldCondition for that.
+ */
+export function isFieldConditionShape(value: unknown, depth = 0): value is FieldCondition {
+  if (depth > MAX_CONDITION_DEPTH || !isRecord(value)) return false;
+  if (isSimpleFieldCondition(value)) return true;
+  if (Array.isArray(value.all)) return value.all.every((child) => isFieldConditionShape(child, depth + 1));
+  if (Array.isArray(value.any)) return value.any.every((child) => isFieldConditionShape(child, depth + 1));
+  if ('not' in value) return isFieldConditionShape(value.not, depth + 1);
+  if (!isComparison(value) || !OPERATORS.has(value.op)) return false;
+  if (value.value === undefined) return true;
+  return isPrimitive(value.value) || (Array.isArray(value.value) && value.value.every(isPrimitive));
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+const readFieldValue = (key: string, state: Record<string, unknown>): unknown => {
+  const customFields = isRecord(state.customFields) ? state.customFields : {};
+  return key in state ? state[key] : customFields[key];
+};
+
+const hasMeaningfulValue = (raw: unknown): boolean => {
+  if (raw === null || raw === undefined) return false;
+  if (typeof raw === 'string') return raw.trim().length > 0;
+  if (typeof raw === 'boolean') return true;
+  if (typeof raw === 'number') return Number.isFinite(raw);
+  if (Array.isArray(raw)) return raw.length > 0;
+  if (isRecord(raw)) return Object.keys(raw).length > 0;
+  return false;
+};
+
+const toNumber = (raw: unknown): number | null => {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null;
+  if (typeof raw === 'string' && raw.trim()) {
+    const parsed = Number(raw.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+// Loose equality so "true" matches true, "1" matches 1, etc. An array value
+// (multi-select answers) matches when any entry matches.
+const looseEquals = (current: unknown, expected: FieldConditionValue): boolean => {
+  if (Array.isArray(current)) return current.some((entry) => looseEquals(entry, expected));
+  return String(current ?? '') === String(expected);
+};
+
+const evaluateComparison = (cond: FieldComparisonCondition, state: Record<string, unknown>): boolean => {
+  const current = readFieldValue(cond.field, state);
+  const expected = cond.value;
+  switch (cond.op) {
+    case 'exists':
+      return hasMeaningfulValue(current);
+    case 'eq':
+      return isPrimitive(expected) && looseEquals(current, expected);
+    case 'neq':
+      return isPrimitive(expected) && !looseEquals(current, expected);
+    case 'in': {
+      const list = Array.isArray(expected) ? expected : isPrimitive(expected) ? [expected] : [];
+      return list.some((entry) => looseEquals(current, entry));
+    }
+    case 'gt':
+    case 'lt': {
+      const left = toNumber(current);
+      const right = toNumber(expected);
+      if (left === null || right === null) return false;
+      return cond.op === 'gt' ? left > right : left < right;
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Returns true when the condition is satisfied (or absent). Values are read
+ * from the flat state first, then from the customFields bucket.
+ */
+export function evaluateFieldCondition(
+  condition: FieldCondition | null | undefined,
+  state: Record<string, unknown>,
+): boolean {
+  if (!condition) return true;
+  if (isSimpleFieldCondition(condition)) {
+    return looseEquals(readFieldValue(condition.dependsOn, state), condition.value);
+  }
+  if ('all' in condition) return condition.all.every((child) => evaluateFieldCondition(child, state));
+  if ('any' in condition) return condition.any.some((child) => evaluateFieldCondition(child, state));
+  if ('not' in condition) return !evaluateFieldCondition(condition.not, state);
+  return evaluateComparison(condition, state);
+}
+
+// ---------------------------------------------------------------------------
+// Description (AI prompt + template editor summaries)
+// ---------------------------------------------------------------------------
+
+const quote = (value: FieldConditionValue): string => (typeof value === 'string' ? `"${value}"` : String(value));
+
+/**
+ * Plain-English rendering used in the AI field instructions, e.g.
+ * `caseType is one of "personal_injury", "workers_comp" and state is "CA"`.
+ */
+export function describeFieldCondition(condition: FieldCondition): string {
+  if (isSimpleFieldCondition(condition)) return `${condition.dependsOn} is ${quote(condition.value)}`;
+  if ('all' in condition || 'any' in condition) {
+    const children = 'all' in condition ? condition.all : condition.any;
+    const joiner = 'all' in condition ? ' and ' : ' or ';
+    return children
+      .map((child) => {
+        const text = describeFieldCondition(child);
+        return 'all' in child || 'any' in child ? `(${text})` : text;
+      })
+      .join(joiner);
+  }
+  if ('not' in condition) return `not (${describeFieldCondition(condition.not)})`;
+
+  const { field, op, value } = condition;
+  switch (op) {
+    case 'exists':
+      return `${field} has been answered`;
+    case 'neq':
+      return isPrimitive(value) ? `${field} is not ${quote(value)}` : `${field} is not set`;
+    case 'in': {
+      const list = Array.isArray(value) ? value : isPrimitive(value) ? [value] : [];
+      return `${field} is one of ${list.map(quote).join(', ')}`;
+    }
+    case 'gt':
+      return `${field} is greater than ${String(value)}`;
+    case 'lt':
+      return `${field} is less than ${String(value)}`;
+    case 'eq':
+    default:
+      return isPrimitive(value) ? `${field} is ${quote(value)}` : `${field} is set`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Validation (template save)
+// ---------------------------------------------------------------------------
+
+/** Field keys a condition reads from, in first-seen order. */
+export function getConditionDependencies(condition: FieldCondition | null | undefined): string[] {
+  const keys: string[] = [];
+  const visit = (node: FieldCondition): void => {
+    if (isSimpleFieldCondition(node)) keys.push(node.dependsOn);
+    else if ('all' in node) node.all.forEach(visit);
+    else if ('any' in node) node.any.forEach(visit);
+    else if ('not' in node) visit(node.not);
+    else keys.push(node.field);
+  };
+  if (condition) visit(condition);
+  return Array.from(new Set(keys));
+}
+
+const validateNode = (
+  node: unknown,
+  path: string,
+  depth: number,
+  errors: string[],
+): void => {
+  if (depth > MAX_CONDITION_DEPTH) {
+    errors.push(`${path}: nested deeper than ${MAX_CONDITION_DEPTH} levels`);
+    return;
+  }
+  if (!isRecord(node)) {
+    errors.push(`${path}: must be an object`);
+    return;
+  }
+  if (isSimpleFieldCondition(node)) return;
+  if ('all' in node || 'any' in node) {
+    const group = 'all' in node ? 'all' : 'any';
+    const children = node[group];
+    if (!Array.isArray(children) || children.length === 0) {
+      errors.push(`${path}.${group}: must be a non-empty list`);
+      return;
+    }
+    children.forEach((child, index) => validateNode(child, `${path}.${group}[${index}]`, depth + 1, errors));
+    return;
+  }
+  if ('not' in node) {
+    validateNode(node.not, `${path}.not`, depth + 1, errors);
+    return;
+  }
+  if (typeof node.field !== 'string' || !node.field.trim()) {
+    errors.push(`${path}: field is required`);
+    return;
+  }
+  if (typeof node.op !== 'string' || !OPERATORS.has(node.op as FieldConditionOperator)) {
+    errors.push(`${path}: unknown operator "${String(node.op)}"`);
+    return;
+  }
+  const value = node.value;
+  switch (node.op) {
+    case 'exists':
+      return;
+    case 'in':
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isPrimitive)) {
+        errors.push(`${path}: "in" needs a non-empty list of values`);
+      }
+      return;
+    case 'gt':
+    case 'lt':
+      if (toNumber(value) === null) {
+        errors.push(`${path}: "${node.op}" needs a numeric value`);
+      }
+      return;
+    default:
+      if (!isPrimitive(value)) {
+        errors.push(`${path}: "${node.op}" needs a single value`);
+      }
+  }
+};
+
+/**
+ * Validates one field's condition. Returns human-readable errors (empty when
+ * valid). When `knownKeys` is given, references to other keys are rejected.
+ */
+export function validateFieldCondition(
+  condition: unknown,
+  options: { fieldKey: string; knownKeys?: ReadonlySet<string> },
+): string[] {
+  if (condition === null || condition === undefined) return [];
+  const errors: string[] = [];
+  validateNode(condition, options.fieldKey, 0, errors);
+  if (errors.length > 0) return errors;
+
+  for (const key of getConditionDependencies(condition as FieldCondition)) {
+    if (key === options.fieldKey) {
+      errors.push(`${options.fieldKey}: condition cannot depend on the field itself`);
+    } else if (options.knownKeys && !options.knownKeys.has(key)) {
+      errors.push(`${options.fieldKey}: condition references unknown field "${key}"`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates every field condition in a template, including dependency
+ * cycles (A depends on B, B depends on A), which would leave both fields
+ * permanently inactive.
+ */
+export function validateTemplateConditions(
+  fields: ReadonlyArray<{ key: string; condition?: unknown }>,
+  options: { extraKeys?: Iterable<string> } = {},
+): string[] {
+  const knownKeys = new Set<string>([...fields.map((f) => f.key), ...(options.extraKeys ?? [])]);
+  const errors = fields.flatMap((field) => validateFieldCondition(field.condition, { fieldKey: field.key, knownKeys }));
+  if (errors.length > 0) return errors;
+
+  const graph = new Map<string, string[]>();
+  for (const field of fields) {
+    graph.set(field.key, getConditionDependencies(field.condition as FieldCondition | null | undefined));
+  }
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const visit = (key: string, trail: string[]): string | null => {
+    if (done.has(key)) return null;
+    if (visiting.has(key)) return [...trail, key].join(' → ');
+    visiting.add(key);
+    for (const dep of graph.get(key) ?? []) {
+      const cycle = visit(dep, [...trail, key]);
+      if (cycle) return cycle;
+    }
+    visiting.delete(key);
+    done.add(key);
+    return null;
+  };
+  for (const key of graph.keys()) {
+    const cycle = visit(key, []);
+    if (cycle) return [`Conditions form a cycle: ${cycle}`];
+  }
+  return [];
+}
+
+/**
+ * Validates the conditions (validation_rules.condition) in a template create
+ * or update payload's `fields`: rejects malformed ones, references to unknown
+ * fields and cycles. Conditions may also reference the standard intake state
+ * keys, which a template doesn't list. Takes the raw payload so the worker
+ * can run it on untrusted saves.
+ */
+export function validateTemplateFieldInputs(fields: unknown): string[] {
+  if (fields === undefined || fields === null) return [];
+  if (!Array.isArray(fields)) return ['fields must be a list'];
+  const errors: string[] = [];
+  const entries = fields.flatMap((field, index) => {
+    if (!isRecord(field) || typeof field.key !== 'string' || !field.key) {
+      errors.push(`fields[${index}]: key is required`);
+      return [];
+    }
+    const rules = isRecord(field.validation_rules) ? field.validation_rules : {};
+    return [{ key: field.key, condition: rules.condition }];
+  });
+  if (errors.length > 0) return errors;
+  return validateTemplateConditions(entries, { extraKeys: STANDARD_FIELD_KEYS });
+}
@@ -0,0 +1,50 @@
+/**
+ * Intake field type resolution.
+ *
+ * Backend templates use a wider `field_type` vocabulary than the app (e.g.
+ * 'textarea'), and templates saved before multiselect/phone/email became
+ * first-class types carry those semantics only in `backendFieldType`
+ * (type 'select' + backendFieldType 'multiselect'). Everything that branches
+ * on a field's type goes through getFieldType so both shapes behave the same.
+ */
+
+import type { IntakeFieldDefinition, IntakeFieldType } from '../types/intake';
+
+export const INTAKE_FIELD_TYPES: readonly IntakeFieldType[] = [
+  'text',
+  'select',
+  'multiselect',
+  'date',
+  'boolean',
+  'number',
+  'address',
+  'currency',
+  'phone',
+  'email',
+  'file_upload',
+];
+
+const FIELD_TYPE_SET: ReadonlySet<string> = new Set(INTAKE_FIELD_TYPES);
+
+export const isIntakeFieldType = (value: unknown): value is IntakeFieldType =>
+  typeof value === 'string' && FIELD_TYPE_SET.has(value);
+
+/** Maps a backend `field_type` to the app field type. Unknown types fall back to text. */
+export function toIntakeFieldType(backendFieldType: string | null | undefined): IntakeFieldType {
+  return isIntakeFieldType(backendFieldType) ? backendFieldType : 'text';
+}
+
+/** Effective type of a field, honouring legacy `backendFieldType` overrides. */
+export function getFieldType(field: Pick<IntakeFieldDefinition, 'type' | 'backendFieldType'>): IntakeFieldType {
+  const backendType = field.backendFieldType;
+  if (backendType && backendType !== field.type && isIntakeFieldType(backendType)) {
+    // Only upgrade from the base type the legacy normalizer collapsed it to.
+    if (backendType === 'multiselect' && field.type === 'select') return backendType;
+    if ((backendType === 'email' || backendType === 'phone') && field.type === 'text') return backendType;
+  }
+  return isIntakeFieldType(field.type) ? field.type : 'text';
+}
+
+/** True for types whose answers must come from `options`. */
+export const isChoiceFieldType = (type: IntakeFieldType): type is 'select' | 'multiselect' =>
+  type === 'select' || type === 'multiselect';
@@ -14,6 +14,7 @@
  */
 
 import type { IntakeFieldDefinition, IntakeTemplate, FieldPhase } from '../types/intake';
+import { evaluateFieldCondition } from './fieldConditions';
 
 // ---------------------------------------------------------------------------
 // Field phase resolution
@@ -36,25 +37,13 @@ export function getFieldPhase(field: IntakeFieldDefinition): FieldPhase {
 /**
  * Returns true when a field's condition is satisfied (or the field has none).
  * Checks both the flat state and the customFields bucket in one pass.
+ * See fieldConditions.ts for the condition language.
  */
 export function isFieldConditionMet(
   field: Pick<IntakeFieldDefinition, 'condition'>,
   state: Record<string, unknown>,
 ): boolean {
-  const cond = field.condition;
-  if (!cond) return true;
-  const customFields =
-    state.customFields &&
-    typeof state.customFields === 'object' &&
-    !Array.isArray(state.customFields)
-      ? (state.customFields as Record<string, unknown>)
-      : {};
-  const current =
-    cond.dependsOn in state ? state[cond.dependsOn] : customFields[cond.dependsOn];
-  // Loose equality so "true" matches true, "1" matches 1, etc.
-  // Note: an explicit cond.value of 0 will match a state value of 0, 
-  // even if 0 isn't considered a "meaningful" collected value for some fields. Acceptable edge case.
-  return String(current ?? '') === String(cond.value);
+  return evaluateFieldCondition(field.condition, state);
 }
 
 // ---------------------------------------------------------------------------
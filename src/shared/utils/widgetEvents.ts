@@ -1,3 +1,6 @@
+import type { WidgetIdentity, WidgetPrefill } from '../../../packages/widget-sdk/src/protocol';
+import type { SlimContactDraft } from '@/shared/types/intake';
+
 const ENV_TRUSTED_PARENT_ORIGINS = (import.meta.env.VITE_TRUSTED_PARENT_ORIGINS ?? '')
   .split(',')
   .map((value: string) => value.trim())
@@ -109,3 +112,57 @@ export const postToParentFrame = (message: unknown, allowAnyOrigin = false) => {
     }
   }
 };
+
+export interface WidgetHostPrefill {
+  prefill: WidgetPrefill;
+  identity: WidgetIdentity | null;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Resolves a host-supplied practice area (a service UUID or its display
+ * name) against the practice's services. Unknown names resolve to null
+ * rather than guessing.
+ */
+export const resolvePracticeAreaServiceUuid = (practiceArea: string | undefined, services: unknown): string | null => {
+  if (!practiceArea) return null;
+  const list = Array.isArray(services) ? services : [];
+  const wanted = practiceArea.trim().toLowerCase();
+  for (const service of list) {
+    if (!service || typeof service !== 'object') continue;
+    const record = service as Record<string, unknown>;
+    const id = typeof record.uuid === 'string' ? record.uuid : typeof record.id === 'string' ? record.id : null;
+    if (!id) continue;
+    if (id.toLowerCase() === wanted) return id;
+    if (typeof record.name === 'string' && record.name.trim().toLowerCase() === wanted) return id;
+  }
+  // A UUID the services list doesn't include (e.g. not loaded yet) is still usable.
+  return UUID_RE.test(practiceArea) ? practiceArea : null;
+};
+
+/**
+ * Conversation metadata seeded from `prefill()` / `identify()` on the host
+ * page: the contact draft, the practice area, and the host's own id for
+ * the visitor. Empty when the host sent nothing.
+ */
+export const buildHostPrefillMetadata = (
+  host: WidgetHostPrefill,
+  services: unknown,
+): Record<string, unknown> => {
+  const metadata: Record<string, unknown> = {};
+  const name = host.prefill.name ?? host.identity?.name ?? '';
+  const email = host.prefill.email ?? host.identity?.email ?? '';
+  const phone = host.prefill.phone ?? '';
+  if (name || email || phone) {
+    metadata.intakeSlimContactDraft = { name, email, phone } satisfies SlimContactDraft;
+  }
+  const serviceUuid = resolvePracticeAreaServiceUuid(host.prefill.practiceArea, services);
+  if (serviceUuid) {
+    metadata.intakeConversationState = { practiceServiceUuid: serviceUuid };
+  }
+  if (host.identity?.externalId) {
+    metadata.widgetHostExternalId = host.identity.externalId;
+  }
+  return metadata;
+};
@@ -1,7 +1,9 @@
 import { describe, expect, it, vi } from 'vitest';
 
 import type { PracticeIntakeDetail } from '@/features/intake/api/intakesApi';
+import type { ConflictCheck } from '@/shared/types/wire';
 import {
+  applyConflictCheckToDraft,
   buildDeterministicContractBody,
   buildEngagementDraftFormFromIntake,
   buildProposalDataFromDraft,
@@ -158,4 +160,49 @@ describe('engagementDraft', () => {
       The practice will provide legal services diligently and professionally, but no outcome is guaranteed."
     `);
   });
+
+  it('fills an unknown conflict status and evidence from the intake conflict check', () => {
+    const check: ConflictCheck = {
+      id: 'check-1',
+      practiceId: 'practice-123',
+      intakeUuid: 'intake-123',
+      conversationId: null,
+      status: 'review_required',
+      names: [{ name: 'Jane Client', role: 'client' }, { name: 'John Other', role: 'opposing_party' }],
+      truncated: false,
+      hitCount: 2,
+      pendingCount: 1,
+      createdBy: null,
+      createdAt: '2026-05-22T10:00:00.000Z',
+      updatedAt: '2026-05-22T10:00:00.000Z',
+      hits: [
+        {
+          id: 'hit-1', queryName: 'John Other', queryRole: 'opposing_party', matchedName: 'Jon Other',
+          matchedRole: 'client', sourceType: 'matter', sourceId: 'matter-9', sourceLabel: 'Other v. State',
+          matterId: 'matter-9', clientId: null, score: 0.96, reasons: ['phonetic'], adverse: true,
+          decision: 'pending', decidedBy: null, decidedAt: null, decisionNote: null,
+        },
+        {
+          id: 'hit-2', queryName: 'Jane Client', queryRole: 'client', matchedName: 'Jane Clint',
+          matchedRole: 'related_party', sourceType: 'intake', sourceId: 'intake-7', sourceLabel: null,
+          matterId: null, clientId: null, score: 0.88, reasons: ['fuzzy'], adverse: false,
+          decision: 'cleared', decidedBy: 'user-1', decidedAt: '2026-05-22T11:00:00.000Z', decisionNote: 'Different person',
+        },
+      ],
+      decisions: [],
+    };
+    const form = { ...EMPTY_ENGAGEMENT_DRAFT_FORM, intakeId: 'intake-123' };
+
+    const next = applyConflictCheckToDraft(form, check);
+    expect(next.conflictStatus).toBe('review_required');
+    expect(next.conflictNote).toBe(
+      'Conflict check 2026-05-22: John Other ~ Jon Other (client, Other v. State, 96%)\n1 match cleared by attorney review.',
+    );
+    expect(buildProposalDataFromDraft(next).risk_review.conflict_note).toBe(next.conflictNote);
+
+    // A status chosen by hand, or a check for another intake, is left alone.
+    const manual = { ...form, conflictStatus: 'clear' as const };
+    expect(applyConflictCheckToDraft(manual, check)).toBe(manual);
+    expect(applyConflictCheckToDraft({ ...form, intakeId: 'intake-other' }, check).conflictStatus).toBe('unknown');
+  });
 });
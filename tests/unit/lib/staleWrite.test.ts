@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// The real apiClient resolves a worker base URL at import time.
+vi.mock('@/shared/lib/apiClient', () => {
+  class HttpError extends Error {
+    readonly response: { status: number; data: unknown };
+    constructor(status: number, data: unknown, message: string) {
+      super(message);
+      this.response = { status, data };
+    }
+  }
+  return { HttpError, isHttpError: (error: unknown) => error instanceof HttpError };
+});
+
+import { HttpError } from '@/shared/lib/apiClient';
+import { describeStaleWrite, toStaleWriteError, versionHeaders } from '@/shared/lib/staleWrite';
+import type { StaleWriteDetails } from '@/shared/types/wire';
+
+const details: StaleWriteDetails = {
+  code: 'STALE_WRITE',
+  resource: 'matter:matter-1',
+  expectedVersion: '2026-10-19T14:00:00.000Z',
+  currentVersion: '2026-10-19T15:04:05.000Z',
+  changes: [
+    { field: 'description', yours: 'My edit', theirs: 'Updated by Jordan' },
+    { field: 'status', yours: 'closed', theirs: 'open' },
+  ],
+};
+
+describe('toStaleWriteError', () => {
+  it('unwraps the worker 409 envelope', () => {
+    const error = toStaleWriteError(new HttpError(409, {
+      success: false,
+      error: 'This record was changed by someone else since you opened it.',
+      errorCode: 'HTTP_409',
+      details,
+    }, 'HTTP 409'));
+
+    expect(error?.details).toEqual(details);
+    expect(error?.message).toBe('This record was changed by someone else since you opened it.');
+    expect(describeStaleWrite(details)).toBe(
+      'This record was saved by someone else after you opened it. Your save differs from the current version in description and status. Reload to see the current version before saving again.',
+    );
+  });
+
+  it('ignores other conflicts and failures', () => {
+    expect(toStaleWriteError(new HttpError(409, { success: false, error: 'Duplicate', details: { code: 'DUPLICATE' } }, 'HTTP 409'))).toBeNull();
+    expect(toStaleWriteError(new HttpError(500, { details }, 'HTTP 500'))).toBeNull();
+    expect(toStaleWriteError(new Error('offline'))).toBeNull();
+  });
+});
+
+describe('versionHeaders', () => {
+  it('sends If-Match only when the version is known', () => {
+    expect(versionHeaders('2026-10-19T15:04:05.000Z')).toEqual({ 'If-Match': '"2026-10-19T15:04:05.000Z"' });
+    expect(versionHeaders(null)).toBeUndefined();
+    expect(versionHeaders('')).toBeUndefined();
+  });
+});
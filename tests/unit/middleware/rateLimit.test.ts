@@ -1,5 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { rateLimit, getClientId } from '../../../worker/middleware/rateLimit.js';
+import {
+  rateLimit,
+  getClientId,
+  consumeAiTurnQuota,
+  consumeRateLimit,
+  peekRateLimit,
+  rateLimitExceededResponse,
+  resolveRateLimitTier,
+  withRateLimitHeaders,
+  RATE_LIMIT_FAMILIES,
+} from '../../../worker/middleware/rateLimit.js';
+import { RemoteApiService } from '../../../worker/services/RemoteApiService.js';
 import type { Env } from '../../../worker/types.js';
 
 // Mock environment
@@ -129,3 +140,66 @@ describe('Rate Limiting Tests', () => {
     );
   });
 });
+
+describe('Rate limit families', () => {
+  const env = { NODE_ENV: 'test' } as Env;
+
+  it('maps subscription status to a tier and falls back to free', async () => {
+    const status = vi.spyOn(RemoteApiService, 'getSubscriptionStatus');
+    status.mockResolvedValueOnce('trialing');
+    expect(await resolveRateLimitTier(env, 'p1')).toBe('trial');
+    status.mockResolvedValueOnce('past_due');
+    expect(await resolveRateLimitTier(env, 'p1')).toBe('paid');
+    status.mockResolvedValueOnce('canceled');
+    expect(await resolveRateLimitTier(env, 'p1')).toBe('free');
+    status.mockRejectedValueOnce(new Error('backend down'));
+    expect(await resolveRateLimitTier(env, 'p1')).toBe('free');
+    status.mockRestore();
+  });
+
+  it('spends from the tier limit and refuses once exhausted', async () => {
+    const subject = `uploads-${Date.now()}`;
+    const limit = RATE_LIMIT_FAMILIES.uploads.limits.free;
+    for (let i = 0; i < limit; i++) {
+      expect((await consumeRateLimit(env, 'uploads', subject)).allowed).toBe(true);
+    }
+    const refused = await consumeRateLimit(env, 'uploads', subject);
+    expect(refused).toMatchObject({ allowed: false, limit, remaining: 0, family: 'uploads', tier: 'free' });
+    expect(refused.retryAfterMs).toBeGreaterThan(0);
+
+    // A paid plan has a larger bucket under the same key.
+    expect((await consumeRateLimit(env, 'uploads', subject, 'paid')).allowed).toBe(true);
+  });
+
+  it('caps one visitor before the practice and leaves the practice bucket alone on refusal', async () => {
+    const status = vi.spyOn(RemoteApiService, 'getSubscriptionStatus').mockResolvedValue('canceled');
+    const practiceId = `practice-${Date.now()}`;
+    const visitorLimit = RATE_LIMIT_FAMILIES.ai_turns_visitor.limits.free;
+    for (let i = 0; i < visitorLimit; i++) {
+      expect((await consumeAiTurnQuota(env, practiceId, 'ip:1.2.3.4')).allowed).toBe(true);
+    }
+    const refused = await consumeAiTurnQuota(env, practiceId, 'ip:1.2.3.4');
+    expect(refused).toMatchObject({ allowed: false, family: 'ai_turns_visitor' });
+
+    const practice = await peekRateLimit(env, 'ai_turns', practiceId, 'free');
+    expect(practice.remaining).toBe(RATE_LIMIT_FAMILIES.ai_turns.limits.free - visitorLimit);
+    expect(await consumeAiTurnQuota(env, practiceId, 'ip:5.6.7.8')).toMatchObject({ allowed: true, family: 'ai_turns' });
+    status.mockRestore();
+  });
+
+  it('sets RateLimit-* headers, and Retry-After on refusal', async () => {
+    const subject = `activity-${Date.now()}`;
+    const allowed = await consumeRateLimit(env, 'activity', subject);
+    const ok = withRateLimitHeaders(new Response('ok'), allowed);
+    expect(ok.headers.get('RateLimit-Limit')).toBe('50');
+    expect(ok.headers.get('RateLimit-Remaining')).toBe('49');
+    expect(ok.headers.get('RateLimit-Policy')).toBe('50;w=60');
+    expect(ok.headers.get('Retry-After')).toBeNull();
+
+    const refused = await consumeRateLimit(env, 'activity', subject, 'free', 1_000);
+    const response = rateLimitExceededResponse(refused);
+    expect(response.status).toBe(429);
+    expect(response.headers.get('RateLimit-Remaining')).toBe('49');
+    expect(Number(response.headers.get('Retry-After'))).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_APPROVAL_POLICY,
+  approvalPolicyInputSchema,
+  approverRefusal,
+  evaluateApprovals,
+  resolveApprovalRequirement,
+  type ApprovalPolicy,
+  type ApproverDecision,
+} from '../../../worker/services/practiceAssistant/approvalPolicy';
+
+const policy: ApprovalPolicy = {
+  ...DEFAULT_APPROVAL_POLICY,
+  version: 3,
+  rules: [
+    { actions: ['refund_invoice'], amountOver: 500, approvals: 2, requireRole: 'owner' },
+    { actions: ['send_invoice'], approvals: 1, minRole: 'attorney' },
+  ],
+};
+
+const refund = (amount: number) => ({
+  actionType: 'run_entity_action',
+  entityType: 'invoice',
+  id: 'inv-1',
+  action: 'refund',
+  input: { amount },
+});
+
+const sendInvoice = {
+  actionType: 'run_entity_action',
+  entityType: 'invoice',
+  id: 'inv-1',
+  action: 'send',
+};
+
+const approve = (userId: string, memberRole: string): ApproverDecision => ({ userId, memberRole, decision: 'approve' });
+
+describe('resolveApprovalRequirement', () => {
+  it('needs two approvers including an owner for refunds over the threshold', () => {
+    expect(resolveApprovalRequirement(policy, refund(750))).toEqual({
+      policyVersion: 3,
+      approvals: 2,
+      minRole: 'paralegal',
+      requireRole: 'owner',
+      matchedRules: [0],
+    });
+  });
+
+  it('falls back to a single approver at or below the threshold', () => {
+    const requirement = resolveApprovalRequirement(policy, refund(500));
+    expect(requirement.approvals).toBe(1);
+    expect(requirement.requireRole).toBeNull();
+    expect(requirement.matchedRules).toEqual([]);
+  });
+
+  it('raises the minimum role for send_invoice', () => {
+    const requirement = resolveApprovalRequirement(policy, sendInvoice);
+    expect(requirement.minRole).toBe('attorney');
+    expect(requirement.approvals).toBe(1);
+  });
+
+  it('takes the strictest value across matching rules', () => {
+    const requirement = resolveApprovalRequirement({
+      ...policy,
+      rules: [
+        { approvals: 2, minRole: 'attorney' },
+        { amountOver: 100, approvals: 3, requireRole: 'admin' },
+        { amountOver: 100, approvals: 1, requireRole: 'paralegal' },
+      ],
+    }, { actionType: 'create_entity', entityType: 'matter_expense', data: { amount_cents: 25_000 } });
+    expect(requirement).toMatchObject({ approvals: 3, minRole: 'attorney', requireRole: 'admin', matchedRules: [0, 1, 2] });
+  });
+
+  it('only applies catch-all rules to payloads that do not parse', () => {
+    const requirement = resolveApprovalRequirement({
+      ...policy,
+      rules: [...policy.rules, { approvals: 2 }],
+    }, { actionType: 'unknown', amount: 10_000 });
+    expect(requirement.approvals).toBe(2);
+    expect(requirement.matchedRules).toEqual([2]);
+  });
+});
+
+describe('approverRefusal', () => {
+  const requirement = resolveApprovalRequirement(policy, refund(750));
+
+  it('keeps the last slot for the required role', () => {
+    const decisions = [approve('u1', 'attorney')];
+    expect(approverRefusal(requirement, decisions, { userId: 'u2', memberRole: 'admin' }, 'approve'))
+      .toBe('The remaining approval must come from a member with at least the owner role');
+    expect(approverRefusal(requirement, decisions, { userId: 'u3', memberRole: 'owner' }, 'approve')).toBeNull();
+  });
+
+  it('refuses a second approval from the same member', () => {
+    expect(approverRefusal(requirement, [approve('u1', 'owner')], { userId: 'u1', memberRole: 'owner' }, 'approve'))
+      .toBe('You have already approved this action');
+  });
+
+  it('refuses approvers below the minimum role, for approve and reject alike', () => {
+    const sendRequirement = resolveApprovalRequirement(policy, sendInvoice);
+    const paralegal = { userId: 'u1', memberRole: 'paralegal' };
+    expect(approverRefusal(sendRequirement, [], paralegal, 'approve')).toMatch(/attorney/);
+    expect(approverRefusal(sendRequirement, [], paralegal, 'reject')).toMatch(/attorney/);
+    expect(approverRefusal(sendRequirement, [], { userId: 'u2', memberRole: 'attorney' }, 'reject')).toBeNull();
+  });
+});
+
+describe('evaluateApprovals', () => {
+  const requirement = resolveApprovalRequirement(policy, refund(750));
+
+  it('counts distinct approvers and ignores comments', () => {
+    const progress = evaluateApprovals(requirement, [
+      approve('u1', 'attorney'),
+      { userId: 'u1', memberRole: 'attorney', decision: 'comment' },
+      { userId: 'u2', memberRole: 'owner', decision: 'comment' },
+    ]);
+    expect(progress).toEqual({ approvalsReceived: 1, approvalsRemaining: 1, requireRoleMet: false, satisfied: false });
+  });
+
+  it('is satisfied once the count and role requirement are both met', () => {
+    expect(evaluateApprovals(requirement, [approve('u1', 'attorney'), approve('u2', 'owner')]).satisfied).toBe(true);
+  });
+});
+
+describe('approvalPolicyInputSchema', () => {
+  it('rejects unknown rule keys and out-of-range values', () => {
+    expect(approvalPolicyInputSchema.safeParse({ rules: [{ approvals: 2, role: 'owner' }] }).success).toBe(false);
+    expect(approvalPolicyInputSchema.safeParse({ rules: [{ approvals: 0 }] }).success).toBe(false);
+    expect(approvalPolicyInputSchema.safeParse({ rules: [], pendingTtlHours: 0 }).success).toBe(false);
+    expect(approvalPolicyInputSchema.safeParse({ rules: [{ actions: ['send_invoice'], approvals: 1, minRole: 'attorney' }] }).success).toBe(true);
+  });
+});
@@ -1,5 +1,11 @@
-import { describe, test, expect, vi, beforeEach } from 'vitest';
-import { handleSaveCaseDetails, type IntakeSubmissionGate } from '../../../worker/routes/aiChatIntake';
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  buildSaveCaseDetailsTool,
+  handleSaveCaseDetails,
+  lookupIntakeAddresses,
+  type IntakeSubmissionGate,
+} from '../../../worker/routes/aiChatIntake';
+import type { IntakeFieldDefinition } from '../../../src/shared/types/intake';
 
 describe('save_case_details tool', () => {
   beforeEach(() => {
@@ -332,4 +338,160 @@ describe('save_case_details tool', () => {
     const customFields = result.intakeFields?.customFields as Record<string, unknown> | undefined;
     expect(customFields?.evidenceTypes).toBe('Photos, Emails');
   });
+
+  describe('richer field types', () => {
+    const customField = (key: string, type: IntakeFieldDefinition['type'], extra: Partial<IntakeFieldDefinition> = {}): IntakeFieldDefinition => ({
+      key,
+      label: key,
+      type,
+      required: false,
+      phase: 'enrichment',
+      isStandard: false,
+      ...extra,
+    });
+    const fields: IntakeFieldDefinition[] = [
+      customField('injuries', 'multiselect', { options: ['Back', 'Neck', 'Head'] }),
+      customField('damages', 'currency'),
+      customField('propertyAddress', 'address'),
+      customField('employerPhone', 'phone'),
+      customField('employerEmail', 'email'),
+      customField('lease', 'file_upload'),
+    ];
+    const submissionGate: IntakeSubmissionGate = {
+      paymentRequiredBeforeSubmit: false,
+      paymentCompleted: false,
+      activeTemplate: { slug: 'test-template', name: 'Test Template', fields },
+      uploadedFileNames: new Set(['lease.pdf', 'Addendum.pdf']),
+    };
+    const save = (args: Record<string, unknown>) =>
+      handleSaveCaseDetails(args, null, submissionGate).intakeFields?.customFields as Record<string, unknown> | undefined;
+
+    test('builds a typed JSON schema for each field', () => {
+      const { properties } = buildSaveCaseDetailsTool(fields).function.parameters as unknown as {
+        properties: Record<string, Record<string, unknown>>;
+      };
+      expect(properties.injuries).toMatchObject({ type: 'array', items: { type: 'string', enum: ['Back', 'Neck', 'Head'] } });
+      expect(properties.damages).toMatchObject({ type: 'number', minimum: 0 });
+      expect(properties.propertyAddress).toMatchObject({ type: 'object', required: ['address', 'city'] });
+      expect(properties.employerPhone).toMatchObject({ type: 'string' });
+      expect(properties.lease).toMatchObject({ type: 'array', items: { type: 'string' } });
+    });
+
+    test('normalizes valid values', () => {
+      expect(save({
+        injuries: ['Neck', 'Back', 'Neck'],
+        damages: '$12,500.499',
+        propertyAddress: { address: '1600 Main St', apartment: 'Apt 4', city: 'Austin', state: 'Texas', postalCode: '78701' },
+        employerPhone: ' (512) 555-0142 ',
+        employerEmail: 'HR@Example.com',
+        lease: ['lease.pdf', 'lease.pdf', 'addendum.pdf'],
+      })).toEqual({
+        injuries: 'Neck, Back',
+        damages: 12500.5,
+        propertyAddress: '1600 Main St, Apt 4, Austin, TX 78701',
+        employerPhone: '(512) 555-0142',
+        employerEmail: 'hr@example.com',
+        lease: 'lease.pdf, Addendum.pdf',
+      });
+    });
+
+    test('keeps only file names uploaded to the conversation', () => {
+      expect(save({ lease: ['lease.pdf', 'passwords.txt'] })).toEqual({ lease: 'lease.pdf' });
+      expect(save({ lease: 'made-up.pdf' })).toBeUndefined();
+      expect(handleSaveCaseDetails(
+        { lease: ['lease.pdf'] },
+        null,
+        { ...submissionGate, uploadedFileNames: null },
+      ).intakeFields?.customFields).toBeUndefined();
+    });
+
+    test('saves the geocoded form of a verified address', () => {
+      const verifiedAddresses = new Map([['1600 main street, Austin, TX', '1600 Main St, Apt 4, Austin, TX 78701']]);
+      expect(handleSaveCaseDetails(
+        { propertyAddress: '1600 main street, Austin, TX' },
+        null,
+        { ...submissionGate, verifiedAddresses },
+      ).intakeFields?.customFields).toEqual({ propertyAddress: '1600 Main St, Apt 4, Austin, TX 78701' });
+      expect(save({ propertyAddress: '1600 main street, Austin, TX' })).toEqual({ propertyAddress: '1600 main street, Austin, TX' });
+    });
+
+    test('drops values that fail validation', () => {
+      expect(save({
+        injuries: ['Back', 'Leg'],
+        damages: -40,
+        propertyAddress: { address: '1600 Main St' },
+        employerPhone: 'call me',
+        employerEmail: 'not-an-email',
+        lease: [],
+      })).toBeUndefined();
+    });
+  });
+
+  describe('lookupIntakeAddresses', () => {
+    const submissionGate: IntakeSubmissionGate = {
+      paymentRequiredBeforeSubmit: false,
+      paymentCompleted: false,
+      activeTemplate: {
+        slug: 'test-template',
+        name: 'Test Template',
+        fields: [{ key: 'propertyAddress', label: 'Property address', type: 'address', required: false, isStandard: false }],
+      },
+    };
+    const geoapifyFeature = (properties: Record<string, unknown>) => ({
+      type: 'Feature',
+      properties: {
+        address_line1: '1600 Main St',
+        city: 'Austin',
+        state_code: 'TX',
+        postcode: '78701',
+        country_code: 'us',
+        ...properties,
+      },
+      geometry: { type: 'Point', coordinates: [-97.74, 30.27] },
+    });
+    const stubGeoapify = (features: unknown[], status = 200) => {
+      const fetchMock = vi.fn<typeof fetch>(async () => new Response(JSON.stringify({ features }), { status }));
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    };
+    const args = JSON.stringify({
+      propertyAddress: { address: '1600 main street', apartment: 'Apt 4', city: 'austin', state: 'Texas' },
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    test('maps the model\'s line to the building Geoapify found, keeping the unit', async () => {
+      const fetchMock = stubGeoapify([geoapifyFeature({ result_type: 'building' })]);
+
+      const verified = await lookupIntakeAddresses(args, submissionGate, 'geo-key');
+
+      expect(new URL(String(fetchMock.mock.calls[0][0])).searchParams.get('text')).toBe('1600 main street, Apt 4, austin, TX');
+      expect(Object.fromEntries(verified)).toEqual({
+        '1600 main street, Apt 4, austin, TX': '1600 Main St, Apt 4, Austin, TX 78701',
+      });
+    });
+
+    test('keeps the answer as given when Geoapify only places the street or fails', async () => {
+      stubGeoapify([geoapifyFeature({ result_type: 'street' })]);
+      expect((await lookupIntakeAddresses(args, submissionGate, 'geo-key')).size).toBe(0);
+
+      stubGeoapify([], 500);
+      expect((await lookupIntakeAddresses(args, submissionGate, 'geo-key')).size).toBe(0);
+    });
+
+    test('skips the lookup without an API key, an address answer, or for lines already verified', async () => {
+      const fetchMock = stubGeoapify([geoapifyFeature({ result_type: 'building' })]);
+
+      await lookupIntakeAddresses(args, submissionGate, undefined);
+      await lookupIntakeAddresses(JSON.stringify({ description: 'Landlord dispute' }), submissionGate, 'geo-key');
+      await lookupIntakeAddresses(args, {
+        ...submissionGate,
+        verifiedAddresses: new Map([['1600 main street, Apt 4, austin, TX', '1600 Main St, Apt 4, Austin, TX 78701']]),
+      }, 'geo-key');
+
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
 });
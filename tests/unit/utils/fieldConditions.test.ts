@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import type { FieldCondition, IntakeFieldDefinition } from '@/shared/types/intake';
+import {
+  describeFieldCondition,
+  evaluateFieldCondition,
+  isFieldConditionShape,
+  validateFieldCondition,
+  validateTemplateConditions,
+  validateTemplateFieldInputs,
+} from '@/shared/utils/fieldConditions';
+import { computeCompletenessScore, resolveNextField } from '@/shared/utils/intakeOrchestration';
+
+describe('evaluateFieldCondition', () => {
+  it('treats a missing condition as met', () => {
+    expect(evaluateFieldCondition(undefined, {})).toBe(true);
+    expect(evaluateFieldCondition(null, {})).toBe(true);
+  });
+
+  it('keeps the legacy dependsOn shape working with loose equality', () => {
+    const condition: FieldCondition = { dependsOn: 'hasEmployer', value: true };
+    expect(evaluateFieldCondition(condition, { hasEmployer: 'true' })).toBe(true);
+    expect(evaluateFieldCondition(condition, { hasEmployer: false })).toBe(false);
+  });
+
+  it('reads values from customFields when not on the flat state', () => {
+    const condition: FieldCondition = { field: 'injuryType', op: 'eq', value: 'back' };
+    expect(evaluateFieldCondition(condition, { customFields: { injuryType: 'back' } })).toBe(true);
+  });
+
+  it('supports every comparison operator', () => {
+    const state = { caseType: 'family', amount: '2500', tags: ['urgent', 'referral'] };
+    expect(evaluateFieldCondition({ field: 'caseType', op: 'neq', value: 'criminal' }, state)).toBe(true);
+    expect(evaluateFieldCondition({ field: 'caseType', op: 'in', value: ['family', 'estate'] }, state)).toBe(true);
+    expect(evaluateFieldCondition({ field: 'amount', op: 'gt', value: 1000 }, state)).toBe(true);
+    expect(evaluateFieldCondition({ field: 'amount', op: 'lt', value: 1000 }, state)).toBe(false);
+    expect(evaluateFieldCondition({ field: 'tags', op: 'eq', value: 'referral' }, state)).toBe(true);
+    expect(evaluateFieldCondition({ field: 'caseType', op: 'exists' }, state)).toBe(true);
+    expect(evaluateFieldCondition({ field: 'opposingParty', op: 'exists' }, { opposingParty: '  ' })).toBe(false);
+  });
+
+  it('combines all / any / not groups', () => {
+    const condition: FieldCondition = {
+      all: [
+        { field: 'caseType', op: 'in', value: ['personal_injury', 'workers_comp'] },
+        { not: { field: 'state', op: 'eq', value: 'TX' } },
+        { any: [{ field: 'amount', op: 'gt', value: 10000 }, { dependsOn: 'hospitalized', value: true }] },
+      ],
+    };
+    expect(evaluateFieldCondition(condition, { caseType: 'workers_comp', state: 'CA', hospitalized: true })).toBe(true);
+    expect(evaluateFieldCondition(condition, { caseType: 'workers_comp', state: 'TX', hospitalized: true })).toBe(false);
+    expect(evaluateFieldCondition(condition, { caseType: 'workers_comp', state: 'CA', amount: 500 })).toBe(false);
+  });
+});
+
+describe('describeFieldCondition', () => {
+  it('renders nested groups in plain English', () => {
+    const condition: FieldCondition = {
+      all: [
+        { field: 'caseType', op: 'in', value: ['personal_injury', 'workers_comp'] },
+        { any: [{ field: 'state', op: 'eq', value: 'CA' }, { field: 'amount', op: 'gt', value: 1000 }] },
+      ],
+    };
+    expect(describeFieldCondition(condition)).toBe(
+      'caseType is one of "personal_injury", "workers_comp" and (state is "CA" or amount is greater than 1000)',
+    );
+    expect(describeFieldCondition({ dependsOn: 'hasEmployer', value: true })).toBe('hasEmployer is true');
+  });
+});
+
+describe('condition validation', () => {
+  it('rejects malformed shapes', () => {
+    expect(isFieldConditionShape({ field: 'a', op: 'between', value: 1 })).toBe(false);
+    expect(validateFieldCondition({ field: 'a', op: 'between' }, { fieldKey: 'b' })).toEqual([
+      'b: unknown operator "between"',
+    ]);
+    expect(validateFieldCondition({ field: 'a', op: 'in', value: [] }, { fieldKey: 'b' })).toHaveLength(1);
+    expect(validateFieldCondition({ all: [] }, { fieldKey: 'b' })).toEqual(['b.all: must be a non-empty list']);
+  });
+
+  it('rejects self references and unknown keys', () => {
+    const knownKeys = new Set(['caseType', 'employer']);
+    expect(validateFieldCondition({ field: 'employer', op: 'exists' }, { fieldKey: 'employer', knownKeys })).toEqual([
+      'employer: condition cannot depend on the field itself',
+    ]);
+    expect(validateFieldCondition({ field: 'missing', op: 'exists' }, { fieldKey: 'employer', knownKeys })).toEqual([
+      'employer: condition references unknown field "missing"',
+    ]);
+  });
+
+  it('detects dependency cycles across fields', () => {
+    const errors = validateTemplateConditions([
+      { key: 'a', condition: { field: 'b', op: 'exists' } },
+      { key: 'b', condition: { any: [{ field: 'c', op: 'exists' }] } },
+      { key: 'c', condition: { not: { field: 'a', op: 'exists' } } },
+    ]);
+    expect(errors).toEqual(['Conditions form a cycle: a → b → c → a']);
+  });
+
+  it('accepts references to extra standard keys', () => {
+    expect(
+      validateTemplateConditions([{ key: 'employer', condition: { field: 'caseType', op: 'eq', value: 'employment' } }], {
+        extraKeys: ['caseType'],
+      }),
+    ).toEqual([]);
+  });
+
+  it('validates the conditions in a raw template save payload', () => {
+    expect(validateTemplateFieldInputs(undefined)).toEqual([]);
+    expect(validateTemplateFieldInputs('employer')).toEqual(['fields must be a list']);
+    expect(validateTemplateFieldInputs([{ label: 'No key' }])).toEqual(['fields[0]: key is required']);
+    expect(validateTemplateFieldInputs([
+      { key: 'employer', validation_rules: { condition: { field: 'urgency', op: 'eq', value: 'emergency' } } },
+      { key: 'notes', validation_rules: null },
+    ])).toEqual([]);
+    expect(validateTemplateFieldInputs([
+      { key: 'employer', validation_rules: { condition: { field: 'salary', op: 'exists' } } },
+    ])).toEqual(['employer: condition references unknown field "salary"']);
+  });
+});
+
+describe('compound conditions in orchestration', () => {
+  const fields: IntakeFieldDefinition[] = [
+    { key: 'description', label: 'Description', type: 'text', required: true, isStandard: true, phase: 'required', completenessWeight: 10 },
+    {
+      key: 'employer',
+      label: 'Employer',
+      type: 'text',
+      required: true,
+      isStandard: false,
+      phase: 'required',
+      completenessWeight: 10,
+      condition: {
+        all: [
+          { field: 'caseType', op: 'eq', value: 'employment' },
+          { field: 'state', op: 'neq', value: 'TX' },
+        ],
+      },
+    },
+  ];
+
+  it('skips inactive fields in resolveNextField and the completeness score', () => {
+    const inactive = { description: 'Wrongful termination', caseType: 'employment', state: 'TX' };
+    expect(resolveNextField({ fields }, inactive)).toBeNull();
+    expect(computeCompletenessScore({ fields }, inactive)).toBe(100);
+
+    const active = { ...inactive, state: 'CA' };
+    expect(resolveNextField({ fields }, active)?.key).toBe('employer');
+    expect(computeCompletenessScore({ fields }, active)).toBe(50);
+  });
+});
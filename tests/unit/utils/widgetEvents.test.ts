@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { buildHostPrefillMetadata } from '@/shared/utils/widgetEvents';
+
+const services = [
+  { id: '7b0b5d1e-3c1a-4f4e-9a53-1f0f3f6f2a10', name: 'Family Law' },
+  { id: '0f6c2a34-8d4e-4b7e-a2a9-5d7e1c9b3e21', name: 'Immigration' },
+];
+
+describe('buildHostPrefillMetadata', () => {
+  it('is empty when the host sent nothing', () => {
+    expect(buildHostPrefillMetadata({ prefill: {}, identity: null }, services)).toEqual({});
+  });
+
+  it('seeds the contact draft, practice area by name, and the host id', () => {
+    expect(buildHostPrefillMetadata({
+      prefill: { email: 'ada@example.com', practiceArea: 'family law' },
+      identity: { externalId: 'crm_1', name: 'Ada Lovelace' },
+    }, services)).toEqual({
+      intakeSlimContactDraft: { name: 'Ada Lovelace', email: 'ada@example.com', phone: '' },
+      intakeConversationState: { practiceServiceUuid: services[0].id },
+      widgetHostExternalId: 'crm_1',
+    });
+  });
+
+  it('ignores a practice area name the practice does not offer', () => {
+    expect(buildHostPrefillMetadata({ prefill: { practiceArea: 'Tax' }, identity: null }, services)).toEqual({});
+  });
+});
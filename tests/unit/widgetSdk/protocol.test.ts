@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PROTOCOL_VERSION,
+  normalizeIdentity,
+  normalizePrefill,
+  parseHostMessage,
+  parseWidgetMessage,
+} from '../../../packages/widget-sdk/src/protocol';
+
+describe('normalizePrefill', () => {
+  it('trims fields and drops blanks', () => {
+    expect(normalizePrefill({ name: '  Ada ', email: 'ada@example.com', phone: '', practiceArea: 'Family law' }))
+      .toEqual({ name: 'Ada', email: 'ada@example.com', practiceArea: 'Family law' });
+  });
+
+  it('names the field that is wrong', () => {
+    expect(() => normalizePrefill({ email: 'not-an-email' })).toThrow(/email/);
+    expect(() => normalizePrefill({ name: 42 })).toThrow(/name must be a string/);
+    expect(() => normalizePrefill({ name: 'x'.repeat(201) })).toThrow(RangeError);
+    expect(() => normalizePrefill(null)).toThrow(/prefill must be an object/);
+  });
+});
+
+describe('normalizeIdentity', () => {
+  it('requires at least one field', () => {
+    expect(normalizeIdentity({ externalId: 'crm_1' })).toEqual({ externalId: 'crm_1' });
+    expect(() => normalizeIdentity({ externalId: '  ' })).toThrow(/at least one/);
+  });
+});
+
+describe('parseHostMessage', () => {
+  it('accepts valid messages, as objects or JSON strings', () => {
+    expect(parseHostMessage({ type: 'blawby:open' })).toEqual({ type: 'blawby:open' });
+    expect(parseHostMessage(JSON.stringify({
+      type: 'blawby:prefill',
+      version: PROTOCOL_VERSION,
+      prefill: { name: 'Ada' },
+    }))).toEqual({ type: 'blawby:prefill', version: PROTOCOL_VERSION, prefill: { name: 'Ada' } });
+  });
+
+  it('drops unknown types, other protocol versions and invalid payloads', () => {
+    expect(parseHostMessage({ type: 'blawby:eval', code: 'alert(1)' })).toBeNull();
+    expect(parseHostMessage({ type: 'blawby:prefill', version: 99, prefill: { name: 'Ada' } })).toBeNull();
+    expect(parseHostMessage({ type: 'blawby:prefill', version: PROTOCOL_VERSION, prefill: { email: 'nope' } })).toBeNull();
+    expect(parseHostMessage({ type: 'blawby:identify', version: PROTOCOL_VERSION, identity: {} })).toBeNull();
+    expect(parseHostMessage('{not json')).toBeNull();
+    expect(parseHostMessage(['blawby:open'])).toBeNull();
+  });
+
+  it('keeps only non-empty string attribution values', () => {
+    expect(parseHostMessage({ type: 'blawby:attribution', attribution: { utm_source: ' ads ', gclid: 5, x: '' } }))
+      .toEqual({ type: 'blawby:attribution', attribution: { utm_source: 'ads' } });
+  });
+});
+
+describe('parseWidgetMessage', () => {
+  it('normalises lead events and only allows https URLs to open', () => {
+    expect(parseWidgetMessage({ type: 'blawby:lead-submitted', intakeUuid: 'i-1', requiresPayment: 'yes' }))
+      .toEqual({ type: 'blawby:lead-submitted', intakeUuid: 'i-1', status: null, requiresPayment: false });
+    expect(parseWidgetMessage({ type: 'blawby:open-url', url: 'javascript:alert(1)' })).toBeNull();
+    expect(parseWidgetMessage({ type: 'blawby:open-url', url: 'https://checkout.stripe.com/x' }))
+      .toEqual({ type: 'blawby:open-url', url: 'https://checkout.stripe.com/x' });
+  });
+});
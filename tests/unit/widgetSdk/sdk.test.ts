@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+type Listener = (payload: unknown) => void;
+
+/** Stands in for the API widget-loader.js installs on window.BlawbyWidget. */
+const createLoaderHandle = () => {
+  const listeners = new Map<string, Listener[]>();
+  return {
+    open: vi.fn(),
+    close: vi.fn(),
+    toggle: vi.fn(),
+    prefill: vi.fn(),
+    setTemplate: vi.fn(),
+    identify: vi.fn(),
+    on: vi.fn((event: string, fn: Listener) => listeners.set(event, [...(listeners.get(event) ?? []), fn])),
+    off: vi.fn((event: string, fn: Listener) => listeners.set(event, (listeners.get(event) ?? []).filter((l) => l !== fn))),
+    emit: (event: string, payload: unknown) => (listeners.get(event) ?? []).forEach((fn) => fn(payload)),
+  };
+};
+
+const loadSdk = async () => {
+  vi.resetModules();
+  return import('../../../packages/widget-sdk/src/index');
+};
+
+describe('loadBlawbyWidget', () => {
+  let handle: ReturnType<typeof createLoaderHandle>;
+
+  beforeEach(() => {
+    handle = createLoaderHandle();
+    vi.stubGlobal('window', { BlawbyWidget: handle });
+    vi.stubGlobal('document', {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('wraps an already-loaded loader and validates before forwarding', async () => {
+    const { loadBlawbyWidget, SDK_VERSION } = await loadSdk();
+    const widget = await loadBlawbyWidget({ practiceSlug: 'my-firm' });
+
+    expect(widget.sdkVersion).toBe(SDK_VERSION);
+    widget.open();
+    expect(handle.open).toHaveBeenCalled();
+
+    widget.prefill({ name: ' Ada ', email: 'ada@example.com' });
+    expect(handle.prefill).toHaveBeenCalledWith({ name: 'Ada', email: 'ada@example.com' });
+
+    expect(() => widget.prefill({ email: 'nope' })).toThrow(/email/);
+    expect(() => widget.setTemplate('../admin')).toThrow(/Invalid template slug/);
+    expect(handle.setTemplate).not.toHaveBeenCalled();
+
+    widget.setTemplate(null);
+    expect(handle.setTemplate).toHaveBeenCalledWith(null);
+  });
+
+  it('returns an unsubscribe function from on()', async () => {
+    const { loadBlawbyWidget } = await loadSdk();
+    const widget = await loadBlawbyWidget({ practiceSlug: 'my-firm' });
+    const seen: Array<string | null> = [];
+
+    const off = widget.on('lead_submitted', (event) => seen.push(event.intakeUuid));
+    handle.emit('lead_submitted', { type: 'lead_submitted', intakeUuid: 'i-1' });
+    off();
+    handle.emit('lead_submitted', { type: 'lead_submitted', intakeUuid: 'i-2' });
+
+    expect(seen).toEqual(['i-1']);
+  });
+
+  it('rejects without a practice slug', async () => {
+    const { loadBlawbyWidget } = await loadSdk();
+    await expect(loadBlawbyWidget({ practiceSlug: ' ' })).rejects.toThrow(/practiceSlug is required/);
+  });
+});
@@ -14,6 +14,11 @@ vi.mock('../../../../worker/routes/mcp/tools/dispatch.js', () => ({
   dispatchToolCall: mocks.dispatchToolCall,
   listTools: mocks.listTools,
   isOk: (outcome: { ok: boolean }) => outcome.ok === true,
+  toolOk: (result: unknown) => ({ ok: true, result }),
+  toolErr: (code: number, message: string, data?: Record<string, unknown>) => ({
+    ok: false,
+    error: { code, message, ...(data !== undefined ? { data } : {}) },
+  }),
 }));
 
 import {
@@ -462,6 +467,66 @@ describe('McpSession', () => {
     });
   });
 
+  it('resources/subscribe requires events:subscribe plus the resource scope and persists the URI', async () => {
+    await initializeSession(session);
+    const subscribe = async (id: number, uri: string) => {
+      const response = await session.fetch(buildRpcRequest(JSON.stringify({
+        jsonrpc: '2.0',
+        id,
+        method: 'resources/subscribe',
+        params: { uri },
+      })));
+      return response.json() as Promise<{ result?: unknown; error?: { code: number; data?: { required_scope?: string } } }>;
+    };
+
+    expect((await subscribe(1, 'blawby://intakes/intake_1')).result).toEqual({});
+    const noScope = await subscribe(2, 'blawby://matters/mat_1');
+    expect(noScope.error?.code).toBe(-32002);
+    expect(noScope.error?.data?.required_scope).toBe('matters:read');
+    expect((await subscribe(3, 'blawby://nope/1')).error?.code).toBe(-32602);
+
+    expect(await state.storage.get('session:subscriptions')).toEqual(['blawby://intakes/intake_1']);
+
+    await session.fetch(buildRpcRequest(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 4,
+      method: 'resources/unsubscribe',
+      params: { uri: 'blawby://intakes/intake_1' },
+    })));
+    expect(await state.storage.get('session:subscriptions')).toEqual([]);
+  });
+
+  it('handleInternalEvent pushes notifications/resources/updated for subscribed URIs only', async () => {
+    await initializeSession(session);
+    await session.fetch(buildRpcRequest(JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'resources/subscribe',
+      params: { uri: 'blawby://intakes/intake_7' },
+    })));
+    await expect(session.fetch(new Request('https://mcp-do/ws', {
+      method: 'GET',
+      headers: { Upgrade: 'websocket' },
+    }))).rejects.toThrow(/range of 200 to 599/);
+
+    await session.fetch(buildEventRequest(JSON.stringify({
+      event_id: 21,
+      event_type: 'intake:triaged',
+      payload: { intake_id: 'intake_7' },
+    })));
+    await session.fetch(buildEventRequest(JSON.stringify({
+      event_id: 22,
+      event_type: 'intake:triaged',
+      payload: { intake_id: 'intake_8' },
+    })));
+
+    const frames = state.sockets[0].sent.map((frame) => JSON.parse(frame) as Record<string, unknown>);
+    expect(frames.filter((frame) => frame.method === 'notifications/resources/updated')).toEqual([
+      { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'blawby://intakes/intake_7' } },
+    ]);
+    expect(frames.filter((frame) => frame.type === 'event')).toHaveLength(2);
+  });
+
   it('handleInternalEvent returns 404 before initialization and 400 on malformed JSON', async () => {
     const beforeInit = await session.fetch(buildEventRequest(JSON.stringify({ event_id: 1 })));
     expect(beforeInit.status).toBe(404);
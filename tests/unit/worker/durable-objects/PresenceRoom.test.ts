@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { DurableObjectState, WebSocket as CFWebSocket } from '@cloudflare/workers-types';
+import type { Env } from '../../../../worker/types.js';
+import {
+  PresenceRoom,
+  summarizePresence,
+  type PresenceSocketState,
+} from '../../../../worker/durable-objects/PresenceRoom.js';
+
+const tab = (userId: string, state: Partial<PresenceSocketState> = {}) => ({
+  userId,
+  state: { resource: null, mode: 'viewing' as const, status: 'online' as const, ...state },
+});
+
+describe('summarizePresence', () => {
+  it('folds tabs into one member per user', () => {
+    expect(summarizePresence([
+      tab('jordan', { resource: 'matter:1', status: 'away' }),
+      tab('jordan', { resource: 'matter:1', mode: 'editing', status: 'away' }),
+      tab('jordan', { resource: 'invoice:9' }),
+      tab('alex', { status: 'away' }),
+    ])).toEqual([
+      { userId: 'alex', status: 'away', focus: [] },
+      {
+        userId: 'jordan',
+        status: 'online',
+        focus: [
+          { resource: 'invoice:9', mode: 'viewing' },
+          { resource: 'matter:1', mode: 'editing' },
+        ],
+      },
+    ]);
+  });
+
+  it('keeps busy over online and editing over a later viewing tab', () => {
+    const [member] = summarizePresence([
+      tab('sam', { resource: 'intake:4', mode: 'editing', status: 'busy' }),
+      tab('sam', { resource: 'intake:4' }),
+    ]);
+    expect(member).toEqual({ userId: 'sam', status: 'busy', focus: [{ resource: 'intake:4', mode: 'editing' }] });
+  });
+});
+
+interface FakeSocket {
+  sent: string[];
+  attachment: unknown;
+  send: (payload: string) => void;
+  serializeAttachment: (value: unknown) => void;
+  deserializeAttachment: () => unknown;
+}
+
+const createRoom = (userIds: string[]) => {
+  const tags = new Map<FakeSocket, string[]>();
+  const sockets = userIds.map((userId) => {
+    const socket: FakeSocket = {
+      sent: [],
+      attachment: null,
+      send(payload) { this.sent.push(payload); },
+      serializeAttachment(value) { this.attachment = value; },
+      deserializeAttachment() { return this.attachment; },
+    };
+    tags.set(socket, [userId]);
+    return socket;
+  });
+  const state = {
+    getWebSockets: () => sockets,
+    getTags: (ws: FakeSocket) => tags.get(ws) ?? [],
+  } as unknown as DurableObjectState;
+  return { room: new PresenceRoom(state, {} as Env), sockets };
+};
+
+const lastFrame = (socket: FakeSocket) => JSON.parse(socket.sent[socket.sent.length - 1] ?? 'null');
+
+describe('PresenceRoom', () => {
+  it('broadcasts what each tab has open', () => {
+    const { room, sockets } = createRoom(['jordan', 'alex']);
+    const [jordan, alex] = sockets;
+
+    room.webSocketMessage(jordan as unknown as CFWebSocket, JSON.stringify({ type: 'focus', resource: 'matter:123', mode: 'editing' }));
+
+    expect(lastFrame(alex)).toEqual({
+      type: 'presence',
+      online: ['alex', 'jordan'],
+      members: [
+        { userId: 'alex', status: 'online', focus: [] },
+        { userId: 'jordan', status: 'online', focus: [{ resource: 'matter:123', mode: 'editing' }] },
+      ],
+    });
+  });
+
+  it('ignores repeats and malformed frames', () => {
+    const { room, sockets } = createRoom(['jordan']);
+    const [jordan] = sockets;
+
+    room.webSocketMessage(jordan as unknown as CFWebSocket, JSON.stringify({ type: 'status', status: 'busy' }));
+    room.webSocketMessage(jordan as unknown as CFWebSocket, JSON.stringify({ type: 'status', status: 'busy' }));
+    room.webSocketMessage(jordan as unknown as CFWebSocket, JSON.stringify({ type: 'focus', resource: 'matter:1; drop', mode: 'viewing' }));
+    room.webSocketMessage(jordan as unknown as CFWebSocket, 'not json');
+
+    expect(jordan.sent).toHaveLength(1);
+    expect(lastFrame(jordan).members).toEqual([{ userId: 'jordan', status: 'busy', focus: [] }]);
+  });
+
+  it('drops a closing tab from the snapshot', () => {
+    const { room, sockets } = createRoom(['jordan', 'alex']);
+    const [jordan, alex] = sockets;
+    room.webSocketMessage(jordan as unknown as CFWebSocket, JSON.stringify({ type: 'focus', resource: 'invoice:456' }));
+
+    room.webSocketClose(jordan as unknown as CFWebSocket, 1000, 'bye', true);
+
+    expect(lastFrame(alex)).toMatchObject({ online: ['alex'], members: [{ userId: 'alex' }] });
+  });
+});
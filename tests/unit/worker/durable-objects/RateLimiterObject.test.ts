@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { DurableObjectState } from '@cloudflare/workers-types';
+import type { Env } from '../../../../worker/types.js';
+import {
+  RateLimiterObject,
+  takeTokens,
+  type TokenBucketResult,
+} from '../../../../worker/durable-objects/RateLimiterObject.js';
+
+const RULE = { capacity: 10, windowMs: 10_000 };
+
+describe('takeTokens', () => {
+  it('starts full and spends the cost', () => {
+    const { state, result } = takeTokens(null, RULE, 1_000, 1);
+    expect(result).toEqual({ allowed: true, limit: 10, remaining: 9, resetMs: 1_000, retryAfterMs: 0 });
+    expect(state).toEqual({ used: 1, updatedAt: 1_000 });
+  });
+
+  it('refuses when empty and says when a token will be back', () => {
+    const { state, result } = takeTokens({ used: 9.5, updatedAt: 0 }, RULE, 0, 1);
+    expect(result.allowed).toBe(false);
+    expect(result.retryAfterMs).toBe(500);
+    // A refused request spends nothing.
+    expect(state.used).toBe(9.5);
+  });
+
+  it('refills continuously and never above capacity', () => {
+    expect(takeTokens({ used: 10, updatedAt: 0 }, RULE, 3_000, 0).result.remaining).toBe(3);
+    expect(takeTokens({ used: 1, updatedAt: 0 }, RULE, 60_000, 0).result.remaining).toBe(10);
+  });
+
+  it('carries usage across a plan change', () => {
+    const upgraded = takeTokens({ used: 20, updatedAt: 0 }, { capacity: 300, windowMs: 10_000 }, 0, 1);
+    expect(upgraded.result.remaining).toBe(279);
+
+    const downgraded = takeTokens({ used: 250, updatedAt: 0 }, { capacity: 100, windowMs: 10_000 }, 0, 1);
+    expect(downgraded.result).toMatchObject({ allowed: false, remaining: 0 });
+  });
+});
+
+/**
+ * Storage whose transactions run one at a time, as a DO's do — so the
+ * concurrency test below exercises the object's read-modify-write, not
+ * the fake.
+ */
+const createState = () => {
+  const data = new Map<string, unknown>();
+  let queue: Promise<unknown> = Promise.resolve();
+  const alarms: number[] = [];
+  const storage = {
+    get: async (key: string) => data.get(key),
+    put: async (key: string, value: unknown) => { data.set(key, value); },
+    deleteAll: async () => { data.clear(); },
+    setAlarm: async (at: number) => { alarms.push(at); },
+    transaction: <T>(fn: (tx: typeof storage) => Promise<T>): Promise<T> => {
+      const run = queue.then(async () => {
+        // Yield between read and write so an unguarded counter would race.
+        const tx = {
+          ...storage,
+          get: async (key: string) => { const value = data.get(key); await Promise.resolve(); return value; },
+        };
+        return fn(tx);
+      });
+      queue = run.catch(() => undefined);
+      return run;
+    },
+  };
+  return { state: { storage } as unknown as DurableObjectState, data, alarms };
+};
+
+const consume = async (limiter: RateLimiterObject, query = 'capacity=3&windowMs=60000') => {
+  const response = await limiter.fetch(new Request(`https://rate-limiter/consume?${query}`, { method: 'POST' }));
+  return { status: response.status, body: await response.json() as TokenBucketResult };
+};
+
+describe('RateLimiterObject', () => {
+  it('never lets concurrent requests overspend the bucket', async () => {
+    const { state } = createState();
+    const limiter = new RateLimiterObject(state, {} as Env);
+
+    const results = await Promise.all(Array.from({ length: 8 }, () => consume(limiter)));
+
+    expect(results.filter((r) => r.body.allowed)).toHaveLength(3);
+    expect(results.filter((r) => !r.body.allowed)).toHaveLength(5);
+  });
+
+  it('peeks without spending and schedules cleanup on consume', async () => {
+    const { state, alarms, data } = createState();
+    const limiter = new RateLimiterObject(state, {} as Env);
+
+    await consume(limiter);
+    const peek = await limiter.fetch(new Request('https://rate-limiter/peek?capacity=3&windowMs=60000'));
+    expect((await peek.json() as TokenBucketResult).remaining).toBe(2);
+    expect(alarms).toHaveLength(1);
+
+    await limiter.alarm();
+    expect(data.size).toBe(0);
+  });
+
+  it('rejects a missing or invalid rule', async () => {
+    const limiter = new RateLimiterObject(createState().state, {} as Env);
+    expect((await consume(limiter, 'capacity=0&windowMs=1000')).status).toBe(400);
+    expect((await consume(limiter, 'windowMs=1000')).status).toBe(400);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { extractDocxText } from '../../../../worker/lib/docx';
+import { DecompressionLimitError, MAX_INFLATED_STREAM_BYTES } from '../../../../worker/lib/inflate';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+const buildDocx = (body: string): ArrayBuffer => zipSync({
+  '[Content_Types].xml': strToU8('<?xml version="1.0"?><Types/>'),
+  'word/document.xml': strToU8(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document ${W_NS}><w:body>${body}<w:sectPr/></w:body></w:document>`),
+}).buffer as ArrayBuffer;
+
+const paragraph = (...runs: string[]) => `<w:p><w:pPr><w:jc w:val="left"/></w:pPr>${runs.map((run) => `<w:r><w:rPr><w:b/></w:rPr>${run}</w:r>`).join('')}</w:p>`;
+
+describe('extractDocxText', () => {
+  it('joins runs into paragraphs and decodes entities', async () => {
+    const result = await extractDocxText(buildDocx([
+      paragraph('<w:t>Lease </w:t>', '<w:t xml:space="preserve">Agreement</w:t>'),
+      paragraph('<w:t>Tenant:</w:t><w:tab/><w:t>Jane Doe &amp; John Doe</w:t>'),
+      paragraph('<w:t>Rent &lt;monthly&gt;: $1,200 &#8212; due on the 1st</w:t>'),
+      '<w:p/>',
+    ].join('')));
+
+    expect(result.pages).toEqual(['Lease Agreement\nTenant:\tJane Doe & John Doe\nRent <monthly>: $1,200 — due on the 1st']);
+    expect(result.pageCount).toBe(1);
+    expect(result.keyInfo).toContain('Amounts: $1,200');
+  });
+
+  it('splits pages on explicit and rendered page breaks', async () => {
+    const result = await extractDocxText(buildDocx([
+      paragraph('<w:t>Page one</w:t>', '<w:br w:type="page"/>'),
+      paragraph('<w:lastRenderedPageBreak/><w:t>Page two</w:t>'),
+      paragraph('<w:t>continues</w:t><w:br/><w:t>here</w:t>', '<w:lastRenderedPageBreak/><w:t>Page three</w:t>'),
+    ].join('')));
+
+    expect(result.pages).toEqual(['Page one', 'Page two\ncontinues\nhere', 'Page three']);
+    expect(result.fullText).toBe('Page one\n\n---\n\nPage two\ncontinues\nhere\n\n---\n\nPage three');
+  });
+
+  it('leaves out tracked deletions and field codes', async () => {
+    const result = await extractDocxText(buildDocx(paragraph(
+      '<w:t>Deposit of </w:t>',
+      '<w:delText>$500</w:delText>',
+      '<w:instrText xml:space="preserve"> MERGEFIELD Amount </w:instrText>',
+      '<w:t>$750</w:t>',
+    )));
+
+    expect(result.pages).toEqual(['Deposit of $750']);
+  });
+
+  it('rejects files that are not DOCX', async () => {
+    await expect(extractDocxText(strToU8('%PDF-1.7').buffer as ArrayBuffer)).rejects.toThrow('Not a DOCX file');
+    const noDocument = zipSync({ 'word/styles.xml': strToU8('<w:styles/>') }).buffer as ArrayBuffer;
+    await expect(extractDocxText(noDocument)).rejects.toThrow('DOCX is missing word/document.xml');
+  });
+
+  it('refuses a document part larger than the inflate limit', async () => {
+    const bomb = zipSync({ 'word/document.xml': new Uint8Array(MAX_INFLATED_STREAM_BYTES + 1) }).buffer as ArrayBuffer;
+    await expect(extractDocxText(bomb)).rejects.toThrow(DecompressionLimitError);
+  });
+});
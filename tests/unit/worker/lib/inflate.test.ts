@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync, zlibSync } from 'fflate';
+import { DecompressionLimitError, InflateBudget, inflateWithinBudget } from '../../../../worker/lib/inflate';
+
+const zeros = (length: number) => new Uint8Array(length);
+
+describe('inflateWithinBudget', () => {
+  it('inflates zlib and raw DEFLATE data under the limits', () => {
+    const budget = new InflateBudget(100_000, 200_000);
+    expect(inflateWithinBudget(zlibSync(zeros(50_000)), 'zlib', budget)).toHaveLength(50_000);
+    expect(inflateWithinBudget(deflateSync(zeros(50_000)), 'raw', budget)).toHaveLength(50_000);
+  });
+
+  it('stops a stream that passes the per-stream limit', () => {
+    const budget = new InflateBudget(10_000, 1_000_000);
+    expect(() => inflateWithinBudget(zlibSync(zeros(10_001)), 'zlib', budget)).toThrow(DecompressionLimitError);
+  });
+
+  it('stops once the document total is spent', () => {
+    const budget = new InflateBudget(10_000, 25_000);
+    const stream = zlibSync(zeros(10_000));
+    inflateWithinBudget(stream, 'zlib', budget);
+    inflateWithinBudget(stream, 'zlib', budget);
+    expect(() => inflateWithinBudget(stream, 'zlib', budget)).toThrow(DecompressionLimitError);
+  });
+
+  it('still reports corrupt data as an ordinary error', () => {
+    let caught: unknown;
+    try {
+      inflateWithinBudget(Uint8Array.of(1, 2, 3, 4), 'zlib', new InflateBudget());
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(Error);
+    expect(caught).not.toBeInstanceOf(DecompressionLimitError);
+  });
+});
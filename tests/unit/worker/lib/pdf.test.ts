@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { strToU8, zlibSync } from 'fflate';
+import { DecompressionLimitError, MAX_INFLATED_STREAM_BYTES } from '../../../../worker/lib/inflate';
+import { extractPdfText } from '../../../../worker/lib/pdf';
+import { toReportPdf } from '../../../../worker/utils/reportPdf';
+
+interface FixtureObject {
+  dict: string;
+  /** Stream content, written Flate-compressed. */
+  stream?: string;
+}
+
+const latin1 = (text: string): Uint8Array => Uint8Array.from(text, (char) => char.charCodeAt(0));
+
+/**
+ * Builds a PDF from numbered objects (1-based, in array order; null leaves the
+ * number for an object stream to define). Object 1 must be the catalog.
+ */
+const buildPdf = (objects: Array<FixtureObject | null>, trailerExtra = ''): ArrayBuffer => {
+  const parts: Uint8Array[] = [latin1('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n')];
+  objects.forEach((object, i) => {
+    if (!object) return;
+    if (object.stream === undefined) {
+      parts.push(latin1(`${i + 1} 0 obj\n${object.dict}\nendobj\n`));
+      return;
+    }
+    const data = zlibSync(latin1(object.stream));
+    parts.push(latin1(`${i + 1} 0 obj\n<< ${object.dict} /Length ${data.length} /Filter /FlateDecode >>\nstream\n`), data, latin1('\nendstream\nendobj\n'));
+  });
+  parts.push(latin1(`trailer\n<< /Root 1 0 R /Size ${objects.length + 1}${trailerExtra} >>\n%%EOF\n`));
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((offset, part) => (out.set(part, offset), offset + part.length), 0);
+  return out.buffer;
+};
+
+const hex = (text: string) => Array.from(text, (char) => char.charCodeAt(0).toString(16).padStart(4, '0')).join('');
+
+describe('extractPdfText', () => {
+  it('reads Flate-compressed content streams page by page', async () => {
+    const pdf = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      { dict: '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >> >>' },
+      { dict: '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>' },
+      { dict: '<< /Type /Page /Parent 2 0 R /Contents [7 0 R 8 0 R] >>' },
+      { dict: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>' },
+      { dict: '', stream: 'BT /F1 12 Tf 72 720 Td (Residential Lease Agreement) Tj 0 -14 Td [(Tenant:)-250(Jane Doe)] TJ ET' },
+      { dict: '', stream: 'BT /F1 12 Tf 72 720 Td (Rent: $1,200 per month) Tj' },
+      { dict: '', stream: "T* (Caf\\351 \\(ground floor\\)) Tj ET" },
+    ]);
+
+    const result = await extractPdfText(pdf);
+    expect(result.pageCount).toBe(2);
+    expect(result.pages).toEqual([
+      'Residential Lease Agreement\nTenant: Jane Doe',
+      'Rent: $1,200 per month\nCafé (ground floor)',
+    ]);
+    expect(result.fullText).toBe(result.pages.join('\n\n---\n\n'));
+    expect(result.keyInfo).toContain('Amounts: $1,200');
+  });
+
+  it('maps composite-font glyph ids through the ToUnicode CMap', async () => {
+    const cmap = [
+      '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+      '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+      `2 beginbfchar <0001> <${hex('€')}> <0002> <${hex('é')}> endbfchar`,
+      `1 beginbfrange <0010> <0012> <${hex('a')}> endbfrange`,
+      `1 beginbfrange <0020> <0021> [<${hex('ﬁ')}> <${hex('日本')}>] endbfrange`,
+      'endcmap CMapName currentdict /CMap defineresource pop end end',
+    ].join('\n');
+    const pdf = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+      { dict: '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F0 4 0 R >> >> /Contents 6 0 R >>' },
+      { dict: '<< /Type /Font /Subtype /Type0 /BaseFont /ABCDEF+NotoSans /Encoding /Identity-H /ToUnicode 5 0 R >>' },
+      { dict: '', stream: cmap },
+      { dict: '', stream: 'BT /F0 10 Tf 1 0 0 1 72 700 Tm <0010001100120002> Tj 1 0 0 1 72 680 Tm <0001 0020 0021> Tj ET' },
+    ]);
+
+    expect((await extractPdfText(pdf)).pages).toEqual(['abcé\n€ﬁ日本']);
+  });
+
+  it('applies /Differences glyph names on top of the base encoding', async () => {
+    const pdf = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+      { dict: '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>' },
+      { dict: '<< /Type /Font /Subtype /Type1 /Encoding << /BaseEncoding /MacRomanEncoding /Differences [1 /S /eacute /uni00A7 /quotedblleft /quotedblright] >> >>' },
+      { dict: '', stream: 'BT /F1 10 Tf <04> Tj (Ren) Tj <02> Tj (e) Tj <05> Tj ( ) Tj <01> Tj <03> Tj (5 \\216) Tj ET' },
+    ]);
+
+    expect((await extractPdfText(pdf)).pages).toEqual(['“Renée” S§5 é']);
+  });
+
+  it('finds pages and fonts stored in compressed object streams, including form XObjects', async () => {
+    const packed = [
+      '<< /Type /Pages /Kids [4 0 R] /Count 1 >>',
+      '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> /XObject << /Fm1 7 0 R >> >> /Contents 6 0 R >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ];
+    let offset = 0;
+    const header = packed.map((body, i) => {
+      const entry = `${[2, 4, 5][i]} ${offset}`;
+      offset += body.length + 1;
+      return entry;
+    }).join(' ');
+    const first = header.length + 1;
+    const pdf = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      null,
+      { dict: `/Type /ObjStm /N 3 /First ${first}`, stream: `${header}\n${packed.join('\n')}` },
+      null,
+      null,
+      { dict: '', stream: 'BT /F1 10 Tf 72 700 Td (Notice to Quit) Tj ET q /Fm1 Do Q' },
+      { dict: '/Type /XObject /Subtype /Form /BBox [0 0 612 792] /Resources << /Font << /F1 5 0 R >> >>', stream: 'BT /F1 8 Tf 72 40 Td (Page footer) Tj ET' },
+    ]);
+
+    const result = await extractPdfText(pdf);
+    expect(result.pages).toEqual(['Notice to Quit\nPage footer']);
+  });
+
+  it('skips inline images and keeps pages without a text layer empty', async () => {
+    const pdf = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      { dict: '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >>' },
+      { dict: '<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>' },
+      { dict: '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>' },
+      { dict: '', stream: 'q 100 0 0 100 0 0 cm BI /W 2 /H 1 /BPC 8 /CS /G ID \x00(\xff) EI Q' },
+      { dict: '', stream: 'BT 72 700 Td (Signed 03/14/2026) Tj ET' },
+    ]);
+
+    const result = await extractPdfText(pdf);
+    expect(result.pages).toEqual(['', 'Signed 03/14/2026']);
+    expect(result.fullText).toBe('Signed 03/14/2026');
+  });
+
+  it('extracts the rows of a generated report PDF', async () => {
+    const bytes = toReportPdf([{ matter: 'Estate (Smith)', revenueCents: 123456 }], [
+      { key: 'matter', header: 'Matter' },
+      { key: 'revenueCents', header: 'Revenue', total: true, format: (v) => (Number(v) / 100).toFixed(2) },
+    ], { title: 'Matter Profitability', practiceName: 'Acme Law', generatedAt: new Date('2026-10-19T12:00:00Z') });
+
+    const { pages } = await extractPdfText(bytes.slice().buffer);
+    expect(pages).toHaveLength(1);
+    expect(pages[0]).toContain('Matter Profitability');
+    expect(pages[0]).toContain('Estate (Smith)');
+    expect(pages[0]).toContain('1234.56');
+  });
+
+  it('rejects encrypted and non-PDF input', async () => {
+    const encrypted = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      { dict: '<< /Type /Pages /Kids [] /Count 0 >>' },
+      { dict: '<< /Filter /Standard /V 2 /R 3 >>' },
+    ], ' /Encrypt 3 0 R');
+    await expect(extractPdfText(encrypted)).rejects.toThrow('Encrypted PDFs are not supported');
+    await expect(extractPdfText(strToU8('hello').buffer as ArrayBuffer)).rejects.toThrow('Not a PDF file');
+  });
+
+  it('stops at a content stream that inflates past the limit', async () => {
+    const pdf = buildPdf([
+      { dict: '<< /Type /Catalog /Pages 2 0 R >>' },
+      { dict: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+      { dict: '<< /Type /Page /Parent 2 0 R /Contents 4 0 R >>' },
+      { dict: '', stream: ' '.repeat(MAX_INFLATED_STREAM_BYTES + 1) },
+    ]);
+    await expect(extractPdfText(pdf)).rejects.toThrow(DecompressionLimitError);
+  });
+});
@@ -51,6 +51,45 @@ describe('worker route table', () => {
     expectRoute('/api/practice/abc123/billing/summary', 'owned');
   });
 
+  it('routes intake template analytics to the owned handler, other template paths to the proxy', () => {
+    expectRoute('/api/practice/abc123/intake-templates/default/analytics', 'owned');
+    expectRoute('/api/practice/abc123/intake-templates', 'proxy');
+    expectRoute('/api/practice/abc123/intake-templates/tpl-1', 'proxy');
+  });
+
+  it('routes intake experiments to the owned handler ahead of the backend proxy', () => {
+    expectRoute('/api/practice/abc123/intake-experiments', 'owned');
+    expectRoute('/api/practice/abc123/intake-experiments/exp-1', 'owned');
+    expectRoute('/api/practice/abc123/intake-experiments/exp-1/promote', 'owned');
+    expectRoute('/api/practice/abc123/intake-experiments/exp-1/other', 'proxy');
+  });
+
+  it('routes conflict checks to the owned handler ahead of the backend proxy', () => {
+    expectRoute('/api/practice/abc123/conflict-checks', 'owned');
+    expectRoute('/api/practice/abc123/conflict-checks/chk-1', 'owned');
+    expectRoute('/api/practice/abc123/conflict-checks/chk-1/hits/hit-1', 'owned');
+    expectRoute('/api/practice/abc123/conflict-checks/chk-1/other', 'proxy');
+  });
+
+  it('routes trust compliance rules to the owned handler ahead of the backend proxy', () => {
+    expectRoute('/api/practice/abc123/trust-compliance', 'owned');
+    expectRoute('/api/practice/abc123/trust-compliance/evaluations', 'owned');
+    expectRoute('/api/practice/abc123/trust-compliance/other', 'proxy');
+  });
+
+  it('routes trust reconciliation to the owned handler ahead of the backend proxy', () => {
+    expectRoute('/api/practice/abc123/trust-reconciliation/statements', 'owned');
+    expectRoute('/api/practice/abc123/trust-reconciliation/statements/stmt-1', 'owned');
+    expectRoute('/api/practice/abc123/trust-reconciliation/lines/line-1', 'owned');
+    expectRoute('/api/practice/abc123/trust-reconciliation/report', 'owned');
+    expectRoute('/api/practice/abc123/trust-reconciliation/other', 'proxy');
+  });
+
+  it('routes AI usage to the owned handler ahead of the backend proxy', () => {
+    expectRoute('/api/practice/abc123/ai-usage', 'owned');
+    expectRoute('/api/practice/abc123/ai-usage/other', 'proxy');
+  });
+
   it('backend-proxy paths stay on proxy mode', () => {
     expectRoute('/api/onboarding', 'proxy');
     expectRoute('/api/matters', 'proxy');
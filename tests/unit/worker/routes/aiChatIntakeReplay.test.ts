@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatIntakeReplayReport,
+  replayIntakeConversation,
+  replayIntakeTurn,
+  type IntakeReplayModelClient,
+} from '../../../../worker/routes/aiChatIntakeReplay.js';
+import {
+  buildIntakeSystemPrompt,
+  computeCompletenessScore,
+  hashIntakePrompt,
+  isIntakeCompleteForTemplate,
+  resolveNextField,
+} from '../../../../worker/routes/aiChatIntake.js';
+import { STANDARD_FIELD_DEFINITIONS } from '../../../../src/shared/constants/intakeTemplates.js';
+import type { IntakeTemplate } from '../../../../src/shared/types/intake.js';
+import type { IntakeEventTurn } from '../../../../worker/types/intakeEvent.js';
+
+const template: IntakeTemplate = { slug: 'default', name: 'Default', isDefault: true, fields: STANDARD_FIELD_DEFINITIONS };
+
+const nextKey = (state: Record<string, unknown>) =>
+  (resolveNextField(template, state, 'required') ?? resolveNextField(template, state, 'enrichment'))?.key ?? null;
+
+/** A turn recorded the way aiChat writes it, with the outcome the current code produces. */
+const recordedTurn = (
+  turnSeq: number,
+  intakeState: Record<string, unknown>,
+  args: Record<string, unknown>,
+  overrides: { intakePatch?: Record<string, unknown>; submittable?: boolean } = {},
+): IntakeEventTurn => {
+  const patch = overrides.intakePatch ?? args;
+  const after = { ...intakeState, ...patch };
+  const prompt = buildIntakeSystemPrompt(
+    [],
+    { practiceName: 'Acme Law' },
+    intakeState,
+    'Jane Doe',
+    resolveNextField(template, intakeState, 'required'),
+    computeCompletenessScore(template, intakeState),
+    template.fields,
+    isIntakeCompleteForTemplate(template, intakeState),
+  );
+  return {
+    id: `turn-${turnSeq}`,
+    conversation_id: 'conv-1',
+    practice_id: 'practice-1',
+    turn_seq: turnSeq,
+    provenance: 'ai_intake',
+    mode_resolution: {
+      nextField: nextKey(intakeState),
+      pendingField: nextKey(after),
+      intakePatch: patch,
+      requiredComplete: isIntakeCompleteForTemplate(template, after),
+      submittable: overrides.submittable ?? false,
+    },
+    user_message: 'I live in Austin',
+    model_request: {
+      systemPromptLength: prompt.length,
+      systemPromptHash: hashIntakePrompt(prompt),
+      replayInputs: {
+        intakeState,
+        template,
+        services: [],
+        practiceName: 'Acme Law',
+        userName: 'Jane Doe',
+        submissionGate: { paymentRequiredBeforeSubmit: false, paymentCompleted: false },
+      },
+    },
+    model_response: null,
+    tool_calls: [{ name: 'save_case_details', argLength: 10, arguments: JSON.stringify(args) }],
+    tool_results: [{ success: true, intakeFields: patch }],
+    failure_reason: null,
+    created_at: '2026-10-19T00:00:00.000Z',
+    template_slug: 'default',
+    funnel_step: 'case',
+    experiment_id: null,
+    experiment_variant: null,
+  };
+};
+
+describe('replayIntakeTurn', () => {
+  it('matches a turn the current code reproduces', () => {
+    const result = replayIntakeTurn(recordedTurn(1, { description: 'Landlord kept my deposit' }, { city: 'Austin' }));
+    expect(result.status).toBe('match');
+    expect(result.diffs).toEqual([]);
+    expect(result.promptChange).toBeNull();
+  });
+
+  it('reports state and submission-gate drift against the recording', () => {
+    const result = replayIntakeTurn(recordedTurn(
+      2,
+      { description: 'Landlord kept my deposit' },
+      { city: 'Austin' },
+      { intakePatch: { city: 'Dallas' }, submittable: true },
+    ));
+    expect(result.status).toBe('diverged');
+    expect(result.diffs).toEqual(expect.arrayContaining([
+      { path: 'submittable', recorded: true, replayed: false },
+      { path: 'state.city', recorded: 'Dallas', replayed: 'Austin' },
+    ]));
+  });
+
+  it('reports a changed system prompt from its hash without calling it a divergence', () => {
+    const turn = recordedTurn(3, {}, { description: 'Custody question' });
+    turn.model_request = { ...turn.model_request, systemPromptLength: 15, systemPromptHash: hashIntakePrompt('An older prompt') };
+    const result = replayIntakeTurn(turn);
+    expect(result.status).toBe('match');
+    expect(result.promptChange).toMatchObject({ recordedLength: 15, recordedHash: hashIntakePrompt('An older prompt') });
+    expect(result.promptChange?.replayedHash).not.toBe(result.promptChange?.recordedHash);
+  });
+
+  it('runs the tool calls the model client returns', () => {
+    const silentModel: IntakeReplayModelClient = { toolCalls: () => [] };
+    const result = replayIntakeTurn(recordedTurn(4, {}, { description: 'Custody question' }), silentModel);
+    expect(result.diffs).toEqual(expect.arrayContaining([
+      { path: 'state.description', recorded: 'Custody question', replayed: null },
+      { path: 'toolResult.success', recorded: true, replayed: null },
+    ]));
+  });
+
+  it('reuses the recorded Geoapify lookups for address answers', () => {
+    const geocoded = '1600 Main St, Austin, TX 78701';
+    const turn = recordedTurn(
+      6,
+      {},
+      { propertyAddress: '1600 main street, austin' },
+      { intakePatch: { customFields: { propertyAddress: geocoded } } },
+    );
+    const replayInputs = turn.model_request?.replayInputs as Record<string, unknown>;
+    turn.model_request = {
+      ...turn.model_request,
+      replayInputs: {
+        ...replayInputs,
+        template: {
+          ...template,
+          fields: [...template.fields, { key: 'propertyAddress', label: 'Property address', type: 'address', required: false, isStandard: false }],
+        },
+        submissionGate: {
+          ...(replayInputs.submissionGate as Record<string, unknown>),
+          verifiedAddresses: { '1600 main street, austin': geocoded },
+        },
+      },
+    };
+    const result = replayIntakeTurn(turn);
+    expect(result.diffs.filter((diff) => diff.path.startsWith('state.'))).toEqual([]);
+  });
+
+  it('skips turns recorded without replay inputs or tool arguments', () => {
+    const legacy = recordedTurn(5, {}, { city: 'Austin' });
+    legacy.model_request = { systemPromptLength: 1200 };
+    expect(replayIntakeTurn(legacy)).toMatchObject({ status: 'skipped' });
+
+    const noArgs = recordedTurn(6, {}, { city: 'Austin' });
+    noArgs.tool_calls = [{ name: 'save_case_details', argLength: 20 }];
+    expect(replayIntakeTurn(noArgs)).toMatchObject({
+      status: 'skipped',
+      skipReason: 'tool call arguments were not recorded',
+    });
+  });
+});
+
+describe('replayIntakeConversation', () => {
+  it('replays AI turns in order and summarises the conversation', () => {
+    const step: IntakeEventTurn = { ...recordedTurn(1, {}, {}), provenance: 'intake_step', funnel_step: 'contact' };
+    const report = replayIntakeConversation([
+      recordedTurn(3, { description: 'Deposit' }, { city: 'Austin' }, { intakePatch: { city: 'Dallas' } }),
+      step,
+      recordedTurn(2, {}, { description: 'Deposit' }),
+    ]);
+    expect(report.turns.map((turn) => [turn.turnSeq, turn.status])).toEqual([[2, 'match'], [3, 'diverged']]);
+    expect(report).toMatchObject({ conversationId: 'conv-1', replayed: 2, diverged: 1, skipped: 0 });
+
+    const text = formatIntakeReplayReport([report]);
+    expect(text).toContain('state.city: "Dallas" -> "Austin"');
+    expect(text).toContain('1 turn(s) diverged from the recording.');
+  });
+});
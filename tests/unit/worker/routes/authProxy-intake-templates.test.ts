@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleBackendProxy } from '../../../../worker/routes/authProxy.js';
+import { HttpError, type Env } from '../../../../worker/types.js';
+
+const buildEnv = (): Env => ({
+  NODE_ENV: 'test',
+  BACKEND_API_URL: 'https://backend.test',
+  IDEMPOTENCY_SALT: 'test-salt',
+} as Env);
+
+const buildSave = (method: string, path: string, body: Record<string, unknown>): Request =>
+  new Request(`https://worker.test${path}`, {
+    method,
+    headers: { Cookie: 'session=present', 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+const employerField = (condition: unknown) => ({
+  key: 'employer',
+  label: 'Employer',
+  field_type: 'text',
+  phase: 'required',
+  validation_rules: { condition },
+});
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('handleBackendProxy intake template saves', () => {
+  it.each([
+    ['POST', '/api/practice/practice-1/intake-templates'],
+    ['PUT', '/api/practice/practice-1/intake-templates/template-1'],
+  ])('rejects a %s with invalid conditions before it reaches the backend', async (method, path) => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+
+    const error = await handleBackendProxy(
+      buildSave(method, path, {
+        name: 'Employment',
+        fields: [
+          employerField({ field: 'missing', op: 'exists' }),
+          { key: 'salary', label: 'Salary', field_type: 'number', phase: 'enrichment', validation_rules: { condition: { field: 'employer', op: 'between' } } },
+        ],
+      }),
+      buildEnv(),
+    ).catch((caught: unknown) => caught);
+
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(400);
+    expect((error as HttpError).details).toEqual({
+      errors: [
+        'employer: condition references unknown field "missing"',
+        expect.stringContaining('salary'),
+      ],
+    });
+  });
+
+  it('forwards saves whose conditions are valid or that change no fields', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValue(Response.json({ success: true, data: { template: {} } }));
+
+    await handleBackendProxy(
+      buildSave('POST', '/api/practice/practice-1/intake-templates', {
+        fields: [employerField({ field: 'urgency', op: 'eq', value: 'emergency' })],
+      }),
+      buildEnv(),
+    );
+    await handleBackendProxy(
+      buildSave('PUT', '/api/practice/practice-1/intake-templates/template-1', { name: 'Renamed' }),
+      buildEnv(),
+    );
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { handleBackendProxy } from '../../../../worker/routes/authProxy.js';
+import { HttpError, type Env } from '../../../../worker/types.js';
+
+const buildEnv = (): Env => ({
+  NODE_ENV: 'test',
+  BACKEND_API_URL: 'https://backend.test',
+  IDEMPOTENCY_SALT: 'test-salt',
+} as Env);
+
+const buildSave = (path: string, body: Record<string, unknown>, ifMatch?: string): Request =>
+  new Request(`https://worker.test${path}`, {
+    method: 'PUT',
+    headers: {
+      Cookie: 'session=present',
+      'Content-Type': 'application/json',
+      ...(ifMatch ? { 'If-Match': ifMatch } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+const currentMatter = {
+  id: 'matter-1',
+  title: 'Smith v. Jones',
+  status: 'open',
+  description: 'Updated by Jordan',
+  updated_at: '2026-10-19T15:04:05.000Z',
+};
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('handleBackendProxy record versions', () => {
+  it('forwards a save whose version is current, without the If-Match header', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(Response.json({ success: true, data: { matter: currentMatter } }))
+      .mockResolvedValueOnce(Response.json({ success: true, data: { matter: { ...currentMatter, status: 'closed' } } }));
+
+    const response = await handleBackendProxy(
+      buildSave('/api/matters/practice-1/matter-1', { status: 'closed' }, '"2026-10-19T15:04:05+00:00"'),
+      buildEnv(),
+    );
+
+    expect(response.status).toBe(200);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(fetchSpy.mock.calls[0][0]).toBe('https://backend.test/api/matters/practice-1/matter-1');
+    const forwarded = fetchSpy.mock.calls[1][1] as RequestInit;
+    expect(forwarded.method).toBe('PUT');
+    expect((forwarded.headers as Headers).get('If-Match')).toBeNull();
+  });
+
+  it('rejects a stale save with the fields it would overwrite', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(Response.json({ success: true, data: { matter: currentMatter } }));
+
+    const error = await handleBackendProxy(
+      buildSave(
+        '/api/matters/practice-1/matter-1',
+        { title: 'Smith v. Jones', status: 'closed', description: 'My edit', updated_at: 'ignored' },
+        '2026-10-19T14:00:00.000Z',
+      ),
+      buildEnv(),
+    ).catch((caught: unknown) => caught);
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(409);
+    expect((error as HttpError).details).toEqual({
+      code: 'STALE_WRITE',
+      resource: 'matter:matter-1',
+      expectedVersion: '2026-10-19T14:00:00.000Z',
+      currentVersion: '2026-10-19T15:04:05.000Z',
+      changes: [
+        { field: 'description', yours: 'My edit', theirs: 'Updated by Jordan' },
+        { field: 'status', yours: 'closed', theirs: 'open' },
+      ],
+    });
+  });
+
+  it('leaves unversioned saves and non-record paths alone', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValue(Response.json({ success: true, data: {} }));
+
+    await handleBackendProxy(buildSave('/api/invoices/practice-1/invoice-1', { notes: 'x' }), buildEnv());
+    await handleBackendProxy(
+      buildSave('/api/invoices/practice-1/refund-requests', { notes: 'x' }, '2026-10-19T14:00:00.000Z'),
+      buildEnv(),
+    );
+
+    // One forwarded save each; no version reads.
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    expect(fetchSpy.mock.calls.every(([, init]) => (init as RequestInit).method === 'PUT')).toBe(true);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handleMcpInternalEvents } from '../../../../worker/routes/mcp/index.js';
 import { MCPSessionStore } from '../../../../worker/services/MCPSessionStore.js';
+import { TrustComplianceService } from '../../../../worker/services/TrustComplianceService.js';
 import type { Env } from '../../../../worker/types.js';
 
 /**
@@ -271,3 +272,42 @@ describe('handleMcpInternalEvents — fan-out', () => {
     expect(body.results[0].delivered_to).toBe(0);
   });
 });
+
+describe('handleMcpInternalEvents — trust ledger events', () => {
+  const ledgerEvent = (payload: Record<string, unknown>) => buildEvent({
+    event_type: 'trust:ledger_changed',
+    payload: {
+      transaction_id: 'txn-1',
+      matter_id: 'matter-1',
+      type: 'withdrawal',
+      amount: -50000,
+      balance_after: 75000,
+      occurred_at: '2026-05-20T12:00:00.000Z',
+      ...payload,
+    },
+  });
+
+  it('runs the trust compliance rules before fanning out', async () => {
+    const evaluate = vi.spyOn(TrustComplianceService.prototype, 'evaluateLedgerChange').mockResolvedValue([]);
+    stubSessionList([]);
+    const response = await handleMcpInternalEvents(buildRequest({ events: [ledgerEvent({}), buildEvent()] }), buildEnv());
+    expect(response.status).toBe(200);
+    expect(evaluate).toHaveBeenCalledTimes(1);
+    expect(evaluate).toHaveBeenCalledWith('practice-1', expect.objectContaining({
+      transaction_id: 'txn-1',
+      balance_after: 75000,
+      currency: 'USD',
+    }));
+  });
+
+  it('skips malformed ledger payloads without failing the batch', async () => {
+    const evaluate = vi.spyOn(TrustComplianceService.prototype, 'evaluateLedgerChange').mockResolvedValue([]);
+    stubSessionList([]);
+    const response = await handleMcpInternalEvents(
+      buildRequest({ events: [ledgerEvent({ balance_after: 'lots' })] }),
+      buildEnv(),
+    );
+    expect(response.status).toBe(200);
+    expect(evaluate).not.toHaveBeenCalled();
+  });
+});
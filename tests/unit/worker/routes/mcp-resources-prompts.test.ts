@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { isOk } from '../../../../worker/routes/mcp/tools/dispatch.js';
+import {
+  listResourceTemplates,
+  listResources,
+  parseResourceUri,
+  readResource,
+  resourceUrisForEvent,
+} from '../../../../worker/routes/mcp/resources.js';
+import { getPrompt, listPrompts } from '../../../../worker/routes/mcp/prompts.js';
+import type { Env } from '../../../../worker/types.js';
+
+const buildContext = (scopes: string[]) => ({
+  session_id: 'sess-1',
+  practice_id: 'practice-1',
+  user_id: 'user-1',
+  jti: 'jti-1',
+  scopes: new Set(scopes),
+  env: {
+    NODE_ENV: 'test',
+    BACKEND_API_URL: 'https://backend.test',
+    MCP_BACKEND_TOKEN: 'svc-token',
+  } as Env,
+});
+
+const resultOf = <T>(outcome: ReturnType<typeof listResources>): T => {
+  if (!isOk(outcome)) throw new Error(`expected ok, got ${JSON.stringify(outcome)}`);
+  return outcome.result as T;
+};
+
+beforeEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('parseResourceUri', () => {
+  it('accepts collection and record URIs and rejects everything else', () => {
+    expect(parseResourceUri('blawby://matters')).toMatchObject({ id: null, type: { collection: 'matters' } });
+    expect(parseResourceUri('blawby://invoices/inv_01')).toMatchObject({ id: 'inv_01', type: { collection: 'invoices' } });
+    expect(parseResourceUri('blawby://clients/c_1')).toBeNull();
+    expect(parseResourceUri('blawby://matters/mat_1/notes')).toBeNull();
+    expect(parseResourceUri('blawby://matters/../x')).toBeNull();
+    expect(parseResourceUri('https://matters/mat_1')).toBeNull();
+  });
+});
+
+describe('resources/list and resources/templates/list', () => {
+  it('only advertises collections the session scopes can read', () => {
+    const context = buildContext(['matters:read', 'invoices:read']);
+    const { resources } = resultOf<{ resources: Array<{ uri: string }> }>(listResources(context));
+    expect(resources.map((r) => r.uri)).toEqual(['blawby://matters', 'blawby://invoices']);
+
+    const { resourceTemplates } = resultOf<{ resourceTemplates: Array<{ uriTemplate: string }> }>(
+      listResourceTemplates(context),
+    );
+    expect(resourceTemplates.map((t) => t.uriTemplate)).toEqual(['blawby://matters/{id}', 'blawby://invoices/{id}']);
+  });
+});
+
+describe('resources/read', () => {
+  it('proxies a record URI through the get tool and returns it as JSON contents', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+      new Response(JSON.stringify({ id: 'mat_1', title: 'Smith v Jones' }), { status: 200 }),
+    );
+    const outcome = await readResource('blawby://matters/mat_1', buildContext(['matters:read']));
+
+    expect(String(fetchSpy.mock.calls[0][0])).toBe('https://backend.test/api/matters/mat_1?practice_id=practice-1');
+    const { contents } = resultOf<{ contents: Array<{ uri: string; mimeType: string; text: string }> }>(outcome);
+    expect(contents[0].uri).toBe('blawby://matters/mat_1');
+    expect(contents[0].mimeType).toBe('application/json');
+    expect(JSON.parse(contents[0].text)).toMatchObject({ id: 'mat_1' });
+  });
+
+  it('proxies a collection URI through the list tool', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+      new Response(JSON.stringify({ results: [] }), { status: 200 }),
+    );
+    await readResource('blawby://intakes', buildContext(['intakes:read']));
+    expect(String(fetchSpy.mock.calls[0][0])).toBe('https://backend.test/api/practice-client-intakes?practice_id=practice-1');
+  });
+
+  it('refuses without the scope and never calls the backend', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const outcome = await readResource('blawby://invoices/inv_1', buildContext(['matters:read']));
+    expect(outcome).toMatchObject({ ok: false, error: { code: -32002, data: { required_scope: 'invoices:read' } } });
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('rejects unknown and missing URIs', async () => {
+    expect(await readResource('blawby://nope', buildContext(['matters:read'])))
+      .toMatchObject({ ok: false, error: { code: -32602, data: { code: 'RESOURCE_NOT_FOUND' } } });
+    expect(await readResource(undefined, buildContext(['matters:read'])))
+      .toMatchObject({ ok: false, error: { code: -32602, data: { code: 'INVALID_PARAMS' } } });
+  });
+});
+
+describe('resourceUrisForEvent', () => {
+  it('maps an event to its record and collection URIs', () => {
+    expect(resourceUrisForEvent('invoice:paid', { invoice_id: 'inv_9' }))
+      .toEqual(['blawby://invoices/inv_9', 'blawby://invoices']);
+    expect(resourceUrisForEvent('matter:status_changed', {})).toEqual([]);
+    expect(resourceUrisForEvent('payout:completed', { invoice_id: 'inv_9' })).toEqual([]);
+  });
+});
+
+describe('prompts', () => {
+  it('lists only prompts whose scopes are granted', () => {
+    const { prompts } = resultOf<{ prompts: Array<{ name: string }> }>(listPrompts(buildContext(['intakes:read'])));
+    expect(prompts.map((p) => p.name)).toEqual(['triage_todays_intakes']);
+  });
+
+  it('renders a prompt with its arguments', () => {
+    const outcome = getPrompt('triage_todays_intakes', { focus: 'family law only' }, buildContext(['intakes:read']));
+    const { messages } = resultOf<{ messages: Array<{ role: string; content: { type: string; text: string } }> }>(outcome);
+    expect(messages).toHaveLength(1);
+    expect(messages[0].role).toBe('user');
+    expect(messages[0].content.text).toContain('list_intakes');
+    expect(messages[0].content.text).toContain('family law only');
+  });
+
+  it('enforces scopes and required arguments', () => {
+    expect(getPrompt('matter_status_brief', { matter_id: 'mat_1' }, buildContext(['intakes:read'])))
+      .toMatchObject({ ok: false, error: { code: -32002, data: { required_scope: 'matters:read' } } });
+    expect(getPrompt('matter_status_brief', {}, buildContext(['matters:read'])))
+      .toMatchObject({ ok: false, error: { code: -32602, data: { details: [{ field: 'matter_id', message: 'required' }] } } });
+    expect(getPrompt('nope', {}, buildContext(['matters:read'])))
+      .toMatchObject({ ok: false, error: { data: { code: 'UNKNOWN_PROMPT' } } });
+  });
+});
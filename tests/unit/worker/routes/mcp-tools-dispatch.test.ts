@@ -6,6 +6,8 @@ import {
   findToolByName,
 } from '../../../../worker/routes/mcp/toolDefinitions.js';
 import { MCPSessionStore } from '../../../../worker/services/MCPSessionStore.js';
+import { SavedSearchService } from '../../../../worker/services/SavedSearchService.js';
+import { SearchIndexService } from '../../../../worker/services/SearchIndexService.js';
 import {
   __resetMCPRevocationCacheForTest,
 } from '../../../../worker/services/MCPRevocationCache.js';
@@ -331,6 +333,67 @@ describe('dispatchToolCall — revoke_my_session', () => {
   });
 });
 
+describe('dispatchToolCall — run_saved_search', () => {
+  const savedSearch = {
+    id: 'ss-1',
+    name: 'Overdue invoices',
+    query: 'in:invoices status:overdue smith',
+    ownerUserId: 'user-1',
+    shared: false,
+    pinned: true,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('runs the stored query and wraps record text as untrusted', async () => {
+    vi.spyOn(SavedSearchService.prototype, 'get').mockResolvedValue(savedSearch);
+    const query = vi.spyOn(SearchIndexService.prototype, 'query').mockResolvedValue([
+      { entityType: 'invoice', entityId: 'inv-1', title: 'Smith retainer', score: 1, metadata: { status: 'overdue' } },
+      { entityType: 'invoice', entityId: 'inv-2', title: 'Smith final', score: 1, metadata: { status: 'paid' } },
+    ]);
+    const outcome = await dispatchToolCall('run_saved_search', { saved_search_id: 'ss-1' }, buildContext());
+    expect(isOk(outcome)).toBe(true);
+    if (!isOk(outcome)) throw new Error('expected success');
+    expect(query.mock.calls[0][0]).toMatchObject({ practiceId: 'practice-1', scopes: ['invoice'] });
+    const sc = (outcome.result as { structuredContent: Record<string, unknown> }).structuredContent as {
+      total: number;
+      groups: Array<{ items: Array<{ entity_id: string; title: string }> }>;
+    };
+    expect(sc.total).toBe(1);
+    expect(sc.groups[0].items[0].entity_id).toBe('inv-1');
+    expect(sc.groups[0].items[0].title).toContain('<untrusted_input');
+  });
+
+  it('leaves out record types the session cannot read', async () => {
+    vi.spyOn(SavedSearchService.prototype, 'get').mockResolvedValue({ ...savedSearch, query: 'smith' });
+    vi.spyOn(SearchIndexService.prototype, 'query').mockResolvedValue([
+      { entityType: 'client', entityId: 'c-1', title: 'Smith', score: 1 },
+      { entityType: 'matter', entityId: 'm-1', title: 'Smith v Jones', score: 1 },
+    ]);
+    const outcome = await dispatchToolCall(
+      'run_saved_search',
+      { saved_search_id: 'ss-1' },
+      buildContext({ scopes: new Set(['events:subscribe', 'matters:read']) }),
+    );
+    if (!isOk(outcome)) throw new Error('expected success');
+    const sc = (outcome.result as { structuredContent: { total: number; omitted_types: string[] } }).structuredContent;
+    expect(sc.total).toBe(1);
+    expect(sc.omitted_types).toEqual(['client']);
+  });
+
+  it('returns NOT_FOUND for a search the user cannot see', async () => {
+    vi.spyOn(SavedSearchService.prototype, 'get').mockResolvedValue(null);
+    const outcome = await dispatchToolCall('run_saved_search', { saved_search_id: 'nope' }, buildContext());
+    expect(isOk(outcome)).toBe(false);
+    if (isOk(outcome)) throw new Error('expected error path');
+    expect(outcome.error.data?.code).toBe('NOT_FOUND');
+  });
+});
+
 describe('toolDefinitions sanity', () => {
   it('findToolByName looks up by exact name', () => {
     const tool = findToolByName('list_matters');
@@ -339,7 +402,7 @@ describe('toolDefinitions sanity', () => {
     expect(findToolByName('list_MATTERS')).toBeNull();
   });
 
-  it('READ_TOOLS has 17 tools (R8 surface + R20 + briefing)', () => {
-    expect(READ_TOOLS).toHaveLength(17);
+  it('READ_TOOLS has 19 tools (R8 surface + R20 + briefing + saved searches)', () => {
+    expect(READ_TOOLS).toHaveLength(19);
   });
 });
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ConflictCheckService,
+  conflictPartiesFromSearchPayload,
+} from '../../../../worker/services/ConflictCheckService.js';
+import { normalizeForIndex } from '../../../../worker/utils/normalizeForIndex.js';
+import type { Env } from '../../../../worker/types.js';
+
+type PreparedCall = { sql: string; bindings: unknown[] };
+
+const createEnv = (rows: unknown[] = []) => {
+  const prepared: PreparedCall[] = [];
+  const batch = vi.fn(() => Promise.resolve([]));
+  const prepare = vi.fn((sql: string) => {
+    const call: PreparedCall = { sql, bindings: [] };
+    prepared.push(call);
+    const statement = {
+      bind: (...args: unknown[]) => {
+        call.bindings = args;
+        return statement;
+      },
+      all: vi.fn(() => Promise.resolve({ results: rows })),
+    };
+    return statement;
+  });
+  const env = { DB: { prepare, batch } as unknown as Env['DB'] } as unknown as Env;
+  return { env, prepared, batch };
+};
+
+describe('conflictPartiesFromSearchPayload', () => {
+  it('reads every party role off a normalized matter', () => {
+    const event = normalizeForIndex('/api/matters/practice-1/matter-1', {
+      data: {
+        id: 'matter-1',
+        organization_id: 'practice-1',
+        title: 'Smith v. Jones',
+        client_id: 'client-1',
+        client_name: 'Alice Smith',
+        opposing_party: 'Robert Jones; Jones Holdings LLC',
+        related_parties: [{ name: 'Carol Smith' }, 'Dan Smith'],
+        participants: [{ full_name: 'Judge Eve Park' }],
+      },
+    }, 'practice-1');
+    expect(event).not.toBeNull();
+
+    const result = conflictPartiesFromSearchPayload('matter', 'matter-1', event!.payload);
+    expect(result?.source).toEqual({
+      type: 'matter',
+      id: 'matter-1',
+      label: 'Smith v. Jones',
+      matterId: 'matter-1',
+      clientId: 'client-1',
+    });
+    expect(result?.parties).toEqual([
+      { name: 'Alice Smith', role: 'client' },
+      { name: 'Robert Jones', role: 'opposing_party' },
+      { name: 'Jones Holdings LLC', role: 'opposing_party' },
+      { name: 'Carol Smith', role: 'related_party' },
+      { name: 'Dan Smith', role: 'related_party' },
+      { name: 'Judge Eve Park', role: 'matter_participant' },
+    ]);
+  });
+
+  it('skips the placeholder name of an unnamed client and ignores other entities', () => {
+    expect(conflictPartiesFromSearchPayload('client', 'client-1', {
+      title: 'Client',
+      metadata: { clientName: 'Client' },
+    })?.parties).toEqual([]);
+    expect(conflictPartiesFromSearchPayload('invoice', 'inv-1', { title: 'INV-1' })).toBeNull();
+  });
+});
+
+describe('ConflictCheckService.indexSource', () => {
+  it('replaces the source rows in one batch and keeps a name under its first role', async () => {
+    const { env, prepared, batch } = createEnv();
+    const service = new ConflictCheckService(env);
+
+    await service.indexSource(
+      'practice-1',
+      { type: 'intake', id: 'intake-1', label: 'Custody intake', matterId: null, clientId: null },
+      [
+        { name: 'Jane Doe', role: 'client' },
+        { name: 'JANE DOE', role: 'related_party' },
+        { name: 'Mr.', role: 'related_party' },
+        { name: 'John Doe', role: 'opposing_party' },
+      ],
+    );
+
+    expect(batch).toHaveBeenCalledTimes(1);
+    expect(prepared[0].sql).toContain('DELETE FROM conflict_parties');
+    const inserts = prepared.filter((call) => call.sql.includes('INSERT INTO conflict_parties'));
+    expect(inserts.map((call) => [call.bindings[5], call.bindings[6], call.bindings[7]])).toEqual([
+      ['client', 'Jane Doe', 'jane doe'],
+      ['opposing_party', 'John Doe', 'john doe'],
+    ]);
+  });
+});
+
+describe('ConflictCheckService.withIntakeConflictStatus', () => {
+  const checkRow = {
+    id: 'check-1',
+    practice_id: 'practice-1',
+    intake_uuid: 'intake-1',
+    conversation_id: null,
+    status: 'review_required',
+    names_json: '[]',
+    truncated: 0,
+    created_by: 'user-1',
+    created_at: '2026-10-01T00:00:00.000Z',
+    updated_at: '2026-10-01T00:00:00.000Z',
+  };
+
+  it("stamps the intake's latest check status onto an engagement without one", async () => {
+    const { env, prepared } = createEnv([checkRow]);
+    const service = new ConflictCheckService(env);
+
+    const body = await service.withIntakeConflictStatus('practice-1', {
+      intake_id: 'intake-1',
+      proposal_data: { fee: 100, risk_review: { conflict_status: 'unknown', notes: 'n' } },
+    });
+
+    expect(prepared[0].bindings).toEqual(['practice-1', 'intake-1', 1]);
+    expect(body).toEqual({
+      intake_id: 'intake-1',
+      proposal_data: { fee: 100, risk_review: { conflict_status: 'review_required', notes: 'n' } },
+    });
+  });
+
+  it('leaves a set status, a body without an intake and an unchecked intake alone', async () => {
+    const { env, prepared } = createEnv([checkRow]);
+    const service = new ConflictCheckService(env);
+
+    await expect(service.withIntakeConflictStatus('practice-1', {
+      intake_id: 'intake-1',
+      proposal_data: { risk_review: { conflict_status: 'clear' } },
+    })).resolves.toBeNull();
+    await expect(service.withIntakeConflictStatus('practice-1', { contract_body: 'x' })).resolves.toBeNull();
+    expect(prepared).toHaveLength(0);
+
+    const unchecked = new ConflictCheckService(createEnv([]).env);
+    await expect(unchecked.withIntakeConflictStatus('practice-1', { intake_id: 'intake-2' })).resolves.toBeNull();
+  });
+});
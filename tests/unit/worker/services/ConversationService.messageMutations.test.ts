@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ConversationService, type ConversationMessage } from '../../../../worker/services/ConversationService.js';
+import { HttpError, type Env } from '../../../../worker/types.js';
+
+type PreparedCall = { sql: string; bindings: unknown[] };
+
+const message: ConversationMessage = {
+  id: 'msg-1',
+  conversation_id: 'conv-1',
+  practice_id: 'practice-1',
+  user_id: 'user-1',
+  role: 'user',
+  content: 'Original text',
+  metadata: null,
+  client_id: 'client-1',
+  seq: 3,
+  server_ts: '2026-10-19T00:00:00.000Z',
+  token_count: null,
+  created_at: '2026-10-19T00:00:00.000Z',
+  edited_at: null,
+};
+
+const createEnv = (changes: number) => {
+  const prepared: PreparedCall[] = [];
+  const prepare = vi.fn((sql: string) => {
+    const call: PreparedCall = { sql, bindings: [] };
+    prepared.push(call);
+    const statement = {
+      bind: (...args: unknown[]) => {
+        call.bindings = args;
+        return statement;
+      },
+      run: vi.fn(async () => ({ success: true, meta: { changes: sql.includes('UPDATE chat_messages') ? changes : 1 } })),
+    };
+    return statement;
+  });
+  const batch = vi.fn(async () => []);
+  const env = { DB: { prepare, batch } as unknown as Env['DB'] } as unknown as Env;
+  return { env, prepared, batch };
+};
+
+const createService = (env: Env) => {
+  const service = new ConversationService(env);
+  const internals = service as unknown as Record<string, unknown>;
+  vi.spyOn(internals as { getMutableMessage: () => Promise<ConversationMessage> }, 'getMutableMessage')
+    .mockResolvedValue(message);
+  vi.spyOn(internals as { repairConversationPreview: () => Promise<void> }, 'repairConversationPreview')
+    .mockResolvedValue();
+  vi.spyOn(service, 'getMessage').mockResolvedValue({ ...message, content: 'Edited text' });
+  return service;
+};
+
+const actor = { userId: 'user-1' };
+
+describe('ConversationService message mutations', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('guards the edit on the content it read and records history after the update lands', async () => {
+    const { env, prepared } = createEnv(1);
+
+    await createService(env).editMessage({
+      conversationId: 'conv-1', practiceId: 'practice-1', messageId: 'msg-1', actor, content: 'Edited text', notify: false,
+    });
+
+    expect(prepared.map((call) => call.sql.trim().split(/\s+/).slice(0, 2).join(' '))).toEqual([
+      'UPDATE chat_messages',
+      'INSERT INTO',
+    ]);
+    expect(prepared[0].sql).toContain('AND content = ? AND edited_at IS ?');
+    expect(prepared[0].bindings.slice(-2)).toEqual(['Original text', null]);
+    expect(prepared[1].bindings).toContain('Original text');
+  });
+
+  it('rejects an edit that lost a race with 409 and writes no history', async () => {
+    const { env, prepared } = createEnv(0);
+
+    const error = await createService(env).editMessage({
+      conversationId: 'conv-1', practiceId: 'practice-1', messageId: 'msg-1', actor, content: 'Edited text', notify: false,
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(409);
+    expect((error as HttpError).details).toEqual({ code: 'message_changed' });
+    expect(prepared.some((call) => call.sql.includes('chat_message_edits'))).toBe(false);
+  });
+
+  it('rejects a delete that lost a race with 409 and leaves history and reactions alone', async () => {
+    const { env, prepared, batch } = createEnv(0);
+
+    const error = await createService(env).deleteMessage({
+      conversationId: 'conv-1', practiceId: 'practice-1', messageId: 'msg-1', actor, notify: false,
+    }).catch((caught: unknown) => caught);
+
+    expect((error as HttpError).status).toBe(409);
+    expect(prepared[0].sql).toContain('AND content = ? AND edited_at IS ?');
+    expect(batch).not.toHaveBeenCalled();
+  });
+
+  it('rejects content longer than a chat message can be', async () => {
+    const { env } = createEnv(1);
+
+    await expect(createService(env).editMessage({
+      conversationId: 'conv-1', practiceId: 'practice-1', messageId: 'msg-1', actor, content: 'x'.repeat(4001),
+    })).rejects.toMatchObject({ status: 400 });
+  });
+});
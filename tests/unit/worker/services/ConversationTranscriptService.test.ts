@@ -0,0 +1,178 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildTranscript, type TranscriptSource } from '../../../../worker/services/ConversationTranscriptService.js';
+import { PDFGenerationService } from '../../../../worker/services/PDFGenerationService.js';
+import type { Conversation, ConversationMessage } from '../../../../worker/services/ConversationService.js';
+import { ConversationTranscriptSchema } from '../../../../worker/types/wire/conversationTranscript.js';
+
+vi.mock('../../../../worker/utils/logger.js', () => ({
+  Logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+const conversation: Conversation = {
+  id: 'conv-1',
+  practice_id: 'practice-1',
+  user_id: 'client-1',
+  matter_id: 'matter-1',
+  participants: ['client-1', 'lawyer-1'],
+  user_info: null,
+  status: 'closed',
+  lifecycle_status: 'visible',
+  closed_at: '2026-03-02T10:00:00.000Z',
+  created_at: '2026-03-01T09:00:00.000Z',
+  updated_at: '2026-03-02T10:00:00.000Z',
+};
+
+const message = (overrides: Partial<ConversationMessage>): ConversationMessage => ({
+  id: 'msg-1',
+  conversation_id: 'conv-1',
+  practice_id: 'practice-1',
+  user_id: 'client-1',
+  role: 'user',
+  content: 'Hello',
+  metadata: null,
+  client_id: 'client-msg-1',
+  seq: 1,
+  server_ts: '2026-03-01T09:01:00.000Z',
+  token_count: null,
+  created_at: '2026-03-01T09:01:00.000Z',
+  ...overrides,
+});
+
+const createSource = (overrides: Partial<TranscriptSource> = {}): TranscriptSource => ({
+  conversation,
+  messages: [],
+  participants: [
+    { userId: 'client-1', name: 'Ada Client', image: null, role: null, isTeamMember: false, canBeMentionedByTeamMember: true, canBeMentionedByClient: false },
+    { userId: 'lawyer-1', name: 'Lee Lawyer', image: null, role: 'attorney', isTeamMember: true, canBeMentionedByTeamMember: true, canBeMentionedByClient: true },
+    { userId: 'lawyer-2', name: 'Idle Partner', image: null, role: 'owner', isTeamMember: true, canBeMentionedByTeamMember: true, canBeMentionedByClient: false },
+  ],
+  files: new Map(),
+  practiceName: 'Acme Law',
+  publicOrigin: 'https://ai.example.com',
+  exportedAt: '2026-03-03T00:00:00.000Z',
+  exportedBy: 'lawyer-1',
+  truncated: false,
+  ...overrides,
+});
+
+describe('buildTranscript', () => {
+  it('produces a transcript that matches the wire schema', () => {
+    const transcript = buildTranscript(createSource({
+      messages: [message({}), message({ id: 'msg-2', seq: 2, user_id: 'lawyer-1', content: 'Hi Ada' })],
+    }));
+
+    expect(ConversationTranscriptSchema.safeParse(transcript).success).toBe(true);
+    expect(transcript.practice).toEqual({ id: 'practice-1', name: 'Acme Law' });
+    expect(transcript.conversation).toEqual({
+      id: 'conv-1',
+      matterId: 'matter-1',
+      status: 'closed',
+      createdAt: '2026-03-01T09:00:00.000Z',
+      closedAt: '2026-03-02T10:00:00.000Z',
+    });
+    expect(transcript.entries.map((entry) => entry.authorName)).toEqual(['Ada Client', 'Lee Lawyer']);
+  });
+
+  it('leaves team members who never took part off the participant list', () => {
+    const transcript = buildTranscript(createSource({ messages: [message({})] }));
+    expect(transcript.participants.map((participant) => participant.userId)).toEqual(['client-1', 'lawyer-1']);
+  });
+
+  it('exports system messages as events and attributes assistant replies', () => {
+    const transcript = buildTranscript(createSource({
+      messages: [
+        message({ id: 'sys', role: 'system', user_id: null, content: 'Intake submitted' }),
+        message({ id: 'ai', seq: 2, role: 'assistant', user_id: null, content: 'Thanks' }),
+      ],
+    }));
+
+    expect(transcript.entries[0]).toMatchObject({ kind: 'system_event', authorName: 'System' });
+    expect(transcript.entries[1]).toMatchObject({ kind: 'message', authorName: 'AI assistant' });
+  });
+
+  it('names anonymous visitors and unknown senders', () => {
+    const transcript = buildTranscript(createSource({
+      conversation: { ...conversation, user_id: 'anon-1', is_anonymous: true },
+      participants: [],
+      messages: [
+        message({ user_id: 'anon-1' }),
+        message({ id: 'msg-2', seq: 2, user_id: 'gone-1' }),
+      ],
+    }));
+
+    expect(transcript.entries.map((entry) => entry.authorName)).toEqual(['Website visitor', 'Unknown participant']);
+  });
+
+  it('keeps edits, replies and reactions but blanks deleted messages', () => {
+    const transcript = buildTranscript(createSource({
+      messages: [
+        message({
+          edited_at: '2026-03-01T09:05:00.000Z',
+          reactions: [{ emoji: '👍', count: 2, reactedByMe: true }, { emoji: '🎉', count: 0, reactedByMe: false }],
+        }),
+        message({
+          id: 'msg-2',
+          seq: 2,
+          content: 'secret',
+          reply_to_message_id: 'msg-1',
+          deleted_at: '2026-03-01T09:06:00.000Z',
+          metadata: { attachments: ['file-1'] },
+        }),
+      ],
+    }));
+
+    expect(transcript.entries[0]).toMatchObject({
+      editedAt: '2026-03-01T09:05:00.000Z',
+      reactions: [{ emoji: '👍', count: 2 }],
+    });
+    expect(transcript.entries[1]).toMatchObject({
+      deleted: true,
+      content: '',
+      attachments: [],
+      replyToMessageId: 'msg-1',
+    });
+  });
+
+  it('resolves attachment metadata and links', () => {
+    const transcript = buildTranscript(createSource({
+      files: new Map([['file-1', { name: 'lease.pdf', mimeType: 'application/pdf', size: 2048 }]]),
+      messages: [message({ metadata: { attachments: ['file-1', 'file-2', 'https://cdn.example.com/docs/photo%201.jpg'] } })],
+    }));
+
+    expect(transcript.entries[0].attachments).toEqual([
+      { id: 'file-1', name: 'lease.pdf', mimeType: 'application/pdf', size: 2048, url: 'https://ai.example.com/api/files/file-1' },
+      { id: 'file-2', name: 'file-2', mimeType: null, size: null, url: 'https://ai.example.com/api/files/file-2' },
+      {
+        id: 'https://cdn.example.com/docs/photo%201.jpg',
+        name: 'photo 1.jpg',
+        mimeType: null,
+        size: null,
+        url: 'https://cdn.example.com/docs/photo%201.jpg',
+      },
+    ]);
+  });
+});
+
+describe('PDFGenerationService transcript rendering', () => {
+  it('escapes message content in the HTML export', () => {
+    const transcript = buildTranscript(createSource({
+      messages: [message({ content: '<script>alert("x")</script>' })],
+    }));
+
+    const html = PDFGenerationService.generateTranscriptHTML(transcript, { practiceName: 'Acme Law' });
+
+    expect(html).not.toContain('<script>alert');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).toContain('id="msg-msg-1"');
+  });
+
+  it('names export files after the conversation and export date', () => {
+    const transcript = buildTranscript(createSource());
+    expect(PDFGenerationService.generateTranscriptFilename(transcript, 'json'))
+      .toBe('conversation-transcript-conv-1-2026-03-03.json');
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { EmailNotificationService } from '../../../../worker/services/EmailNotificationService.js';
+import {
+  EmailSendError,
+  LocalEmailProvider,
+  type EmailProvider,
+} from '../../../../worker/services/EmailProvider.js';
+import { verifyUnsubscribeToken } from '../../../../worker/utils/emailUnsubscribeToken.js';
+import { renderNotificationEmail } from '../../../../worker/utils/emailTemplates.js';
+import type { Env, NotificationQueueMessage } from '../../../../worker/types.js';
+
+type PreparedCall = { sql: string; bindings: unknown[] };
+
+const createSpyEnv = (options: { suppressed?: boolean } = {}) => {
+  const prepared: PreparedCall[] = [];
+  const first = vi.fn(() => Promise.resolve(options.suppressed ? { hit: 1 } : null));
+  const run = vi.fn(() => Promise.resolve({ meta: {} }));
+  const bind = vi.fn((...args: unknown[]) => {
+    prepared[prepared.length - 1].bindings = args;
+    return { first, run };
+  });
+  const prepare = vi.fn((sql: string) => {
+    prepared.push({ sql, bindings: [] });
+    return { bind };
+  });
+  const env = {
+    DB: { prepare } as unknown as Env['DB'],
+    DOMAIN: 'ai.blawby.com',
+    EMAIL_UNSUBSCRIBE_SECRET: 'test-unsubscribe-secret',
+  } as Env;
+  return { env, prepared };
+};
+
+const recipient = { userId: 'user-1', email: 'Lawyer@Example.com', preferences: { emailEnabled: true } };
+
+const buildMessage = (overrides: Partial<NotificationQueueMessage> = {}): NotificationQueueMessage => ({
+  eventId: 'evt-1',
+  practiceId: 'practice-1',
+  category: 'intake',
+  title: 'New intake from <Jane>',
+  body: 'Jane needs help with a lease.',
+  link: '/practice/acme/intakes/42',
+  recipients: [recipient],
+  ...overrides,
+});
+
+const deliveryInserts = (prepared: PreparedCall[]) =>
+  prepared.filter((call) => call.sql.includes('notification_delivery_results'));
+
+describe('EmailNotificationService', () => {
+  it('sends the rendered email and records a success result', async () => {
+    const { env, prepared } = createSpyEnv();
+    const provider = new LocalEmailProvider();
+    const outcome = await new EmailNotificationService(env, provider).send(recipient, buildMessage(), 'notif-1');
+
+    expect(outcome).toBe('sent');
+    expect(provider.sent).toHaveLength(1);
+    const [sent] = provider.sent;
+    expect(sent.to).toBe('lawyer@example.com');
+    expect(sent.subject).toBe('New intake from <Jane>');
+    expect(sent.html).toContain('New intake from &lt;Jane&gt;');
+    expect(sent.html).toContain('https://ai.blawby.com/practice/acme/intakes/42');
+    expect(sent.tags).toEqual({ category: 'intake', notification_id: 'notif-1' });
+
+    const [insert] = deliveryInserts(prepared);
+    expect(insert.bindings.slice(1, 6)).toEqual(['notif-1', 'user-1', 'email', 'local', 'success']);
+  });
+
+  it('adds a verifiable per-category unsubscribe link and one-click headers', async () => {
+    const { env } = createSpyEnv();
+    const provider = new LocalEmailProvider();
+    await new EmailNotificationService(env, provider).send(recipient, buildMessage(), 'notif-1');
+
+    const header = provider.sent[0].headers?.['List-Unsubscribe'] ?? '';
+    expect(provider.sent[0].headers?.['List-Unsubscribe-Post']).toBe('List-Unsubscribe=One-Click');
+    const url = new URL(header.slice(1, -1));
+    expect(url.pathname).toBe('/api/email/unsubscribe');
+    const claims = await verifyUnsubscribeToken(env, url.searchParams.get('token') ?? '');
+    expect(claims).toEqual({ email: 'lawyer@example.com', userId: 'user-1', scope: 'intake' });
+  });
+
+  it('omits the unsubscribe link on system notices', async () => {
+    const { env } = createSpyEnv();
+    const provider = new LocalEmailProvider();
+    await new EmailNotificationService(env, provider).send(recipient, buildMessage({ category: 'system' }), 'notif-1');
+
+    expect(provider.sent[0].headers).toBeUndefined();
+    expect(provider.sent[0].text).not.toContain('Unsubscribe');
+  });
+
+  it('skips suppressed addresses without sending or recording', async () => {
+    const { env, prepared } = createSpyEnv({ suppressed: true });
+    const provider = new LocalEmailProvider();
+    const outcome = await new EmailNotificationService(env, provider).send(recipient, buildMessage(), 'notif-1');
+
+    expect(outcome).toBe('suppressed');
+    expect(provider.sent).toHaveLength(0);
+    expect(deliveryInserts(prepared)).toHaveLength(0);
+  });
+
+  it('records the failure and suppresses the address on a permanent rejection', async () => {
+    const { env, prepared } = createSpyEnv();
+    const provider: EmailProvider = {
+      name: 'resend',
+      send: vi.fn(() => Promise.reject(new EmailSendError('Email request failed (422): invalid to', true))),
+    };
+
+    await expect(new EmailNotificationService(env, provider).send(recipient, buildMessage(), 'notif-1'))
+      .rejects.toThrow('invalid to');
+
+    const [insert] = deliveryInserts(prepared);
+    expect(insert.bindings[5]).toBe('failure');
+    const suppression = prepared.find((call) => call.sql.includes('INSERT INTO email_suppressions'));
+    expect(suppression?.bindings.slice(0, 3)).toEqual(['lawyer@example.com', '*', 'bounce']);
+  });
+
+  it('does not suppress on transient failures', async () => {
+    const { env, prepared } = createSpyEnv();
+    const provider: EmailProvider = {
+      name: 'resend',
+      send: vi.fn(() => Promise.reject(new EmailSendError('Email request failed (503): busy', false))),
+    };
+
+    await expect(new EmailNotificationService(env, provider).send(recipient, buildMessage(), 'notif-1'))
+      .rejects.toThrow('busy');
+    expect(prepared.some((call) => call.sql.includes('INSERT INTO email_suppressions'))).toBe(false);
+  });
+});
+
+describe('renderNotificationEmail', () => {
+  const origin = 'https://ai.blawby.com';
+
+  it('uses a per-category call to action', () => {
+    const payment = renderNotificationEmail(buildMessage({ category: 'payment' }), { origin, unsubscribeUrl: null });
+    const message = renderNotificationEmail(buildMessage({ category: 'message' }), { origin, unsubscribeUrl: null });
+    expect(payment.text).toContain('View payment: https://ai.blawby.com/practice/acme/intakes/42');
+    expect(message.text).toContain('View conversation:');
+  });
+
+  it('strips newlines from the subject and drops non-http links', () => {
+    const rendered = renderNotificationEmail(
+      buildMessage({ title: 'Line one\r\nBcc: someone@example.com', link: 'javascript:alert(1)' }),
+      { origin, unsubscribeUrl: null },
+    );
+    expect(rendered.subject).toBe('Line one Bcc: someone@example.com');
+    expect(rendered.html).not.toContain('javascript:');
+    expect(rendered.text).not.toContain('Review intake:');
+  });
+});
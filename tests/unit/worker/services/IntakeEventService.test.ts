@@ -6,6 +6,7 @@ import {
 import {
   INTAKE_EVENT_PROVENANCES,
   type IntakeEventProvenance,
+  type IntakeEventRecordInput,
 } from '../../../../worker/types/intakeEvent.js';
 import type { Env } from '../../../../worker/types.js';
 
@@ -60,7 +61,7 @@ const createSpyEnv = (): SpyEnv => {
 };
 
 describe('INTAKE_EVENT_PROVENANCES', () => {
-  it('lists the six provenance tags from the plan', () => {
+  it('lists the six provenance tags from the plan plus the funnel step marker', () => {
     expect(INTAKE_EVENT_PROVENANCES).toEqual([
       'ai_intake',
       'ai_intake_no_tool_call',
@@ -68,6 +69,7 @@ describe('INTAKE_EVENT_PROVENANCES', () => {
       'ai_failure',
       'submit_intake',
       'mode_unresolved',
+      'intake_step',
     ]);
   });
 });
@@ -168,6 +170,49 @@ describe('IntakeEventService.recordTurn', () => {
     expect(createdAt).toBe(result.created_at);
   });
 
+  it('stores the template slug and derives the funnel step from provenance', async () => {
+    const cases: Array<[IntakeEventRecordInput, string | null]> = [
+      [{ conversationId: 'c', practiceId: 'p', provenance: 'ai_intake_no_tool_call', templateSlug: 'divorce' }, 'case'],
+      [{ conversationId: 'c', practiceId: 'p', provenance: 'submit_intake', templateSlug: 'divorce' }, 'submit'],
+      [{ conversationId: 'c', practiceId: 'p', provenance: 'intake_step', funnelStep: 'contact', templateSlug: 'divorce' }, 'contact'],
+      // An explicit step on a non-marker row is ignored.
+      [{ conversationId: 'c', practiceId: 'p', provenance: 'ai_failure', funnelStep: 'submit', templateSlug: 'divorce' }, null],
+    ];
+    for (const [input, expectedStep] of cases) {
+      const spy = createSpyEnv();
+      spy.setFirstResult({ max_seq: 0 });
+      const result = await new IntakeEventService(spy.env).recordTurn(input);
+      const bindings = spy.prepared[1].bindings;
+      expect(bindings[13]).toBe('divorce');
+      expect(bindings[14]).toBe(expectedStep);
+      expect(result.funnel_step).toBe(expectedStep);
+    }
+  });
+
+  it('stores the experiment assignment, dropping a variant without an experiment', async () => {
+    const assigned = createSpyEnv();
+    assigned.setFirstResult({ max_seq: 0 });
+    await new IntakeEventService(assigned.env).recordTurn({
+      conversationId: 'c',
+      practiceId: 'p',
+      provenance: 'ai_intake',
+      experimentId: 'exp-1',
+      experimentVariant: 'short-intro',
+    });
+    expect(assigned.prepared[1].bindings.slice(15)).toEqual(['exp-1', 'short-intro']);
+
+    const orphan = createSpyEnv();
+    orphan.setFirstResult({ max_seq: 0 });
+    const result = await new IntakeEventService(orphan.env).recordTurn({
+      conversationId: 'c',
+      practiceId: 'p',
+      provenance: 'ai_intake',
+      experimentVariant: 'short-intro',
+    });
+    expect(orphan.prepared[1].bindings.slice(15)).toEqual([null, null]);
+    expect(result.experiment_variant).toBeNull();
+  });
+
   it('stores JSON fields as null when not provided', async () => {
     const spy = createSpyEnv();
     spy.setFirstResult({ max_seq: 0 });
@@ -312,6 +357,41 @@ describe('IntakeEventService.recordTurn', () => {
   });
 });
 
+describe('IntakeEventService.recordSubmitStep', () => {
+  beforeEach(() => vi.resetAllMocks());
+
+  it('records the submit step as an intake_step row with the template and experiment', async () => {
+    const spy = createSpyEnv();
+    spy.setFirstResult(null);
+    const result = await new IntakeEventService(spy.env).recordSubmitStep({
+      conversationId: 'conv-1',
+      practiceId: 'practice-1',
+      templateSlug: 'divorce',
+      experimentId: 'exp-1',
+      experimentVariant: 'short-intro',
+    });
+
+    expect(spy.prepared[0].sql).toContain("funnel_step = 'submit'");
+    const insert = spy.prepared[2].bindings;
+    expect(insert[4]).toBe('intake_step');
+    expect(insert.slice(13)).toEqual(['divorce', 'submit', 'exp-1', 'short-intro']);
+    expect(result?.funnel_step).toBe('submit');
+  });
+
+  it('skips a conversation whose submit_intake tool turn already recorded the step', async () => {
+    const spy = createSpyEnv();
+    spy.setFirstResult({ found: 1 });
+    const result = await new IntakeEventService(spy.env).recordSubmitStep({
+      conversationId: 'conv-1',
+      practiceId: 'practice-1',
+      templateSlug: 'divorce',
+    });
+
+    expect(result).toBeNull();
+    expect(spy.prepared).toHaveLength(1);
+  });
+});
+
 describe('IntakeEventService.listByConversation', () => {
   beforeEach(() => vi.resetAllMocks());
 
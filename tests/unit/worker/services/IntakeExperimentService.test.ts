@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  IntakeExperimentService,
+  type IntakeExperiment,
+} from '../../../../worker/services/IntakeExperimentService.js';
+import { assignIntakeVariant } from '../../../../worker/utils/intakeExperiments.js';
+import type { Env } from '../../../../worker/types.js';
+
+type PreparedCall = { sql: string; bindings: unknown[] };
+
+const createEnv = (rows: Array<Record<string, unknown>>) => {
+  const prepared: PreparedCall[] = [];
+  const all = vi.fn(() => Promise.resolve({ results: rows }));
+  const run = vi.fn(() => Promise.resolve({ success: true }));
+  const prepare = vi.fn((sql: string) => {
+    const call: PreparedCall = { sql, bindings: [] };
+    prepared.push(call);
+    return {
+      bind: (...args: unknown[]) => {
+        call.bindings = args;
+        return { all, run };
+      },
+    };
+  });
+  const env = { DB: { prepare } as unknown as Env['DB'] } as unknown as Env;
+  return { env, prepared };
+};
+
+const experiment: IntakeExperiment = {
+  id: 'exp-1',
+  practiceId: 'practice-1',
+  name: 'Shorter intro',
+  status: 'running',
+  variants: [
+    { key: 'control', templateSlug: 'default', weight: 1 },
+    { key: 'challenger', templateSlug: 'short-intro', weight: 1 },
+  ],
+  winnerVariant: null,
+  createdBy: 'user-1',
+  createdAt: '2026-10-01T00:00:00.000Z',
+  updatedAt: '2026-10-01T00:00:00.000Z',
+  endedAt: null,
+};
+
+const rollup = (variantKey: string | null, furthestStep: number, completeness: number | null = null) => ({
+  conversation_id: crypto.randomUUID(),
+  variant_key: variantKey,
+  furthest_step: furthestStep,
+  case_turns: furthestStep >= 3 ? 3 : 0,
+  last_pending_field: null,
+  completeness,
+});
+
+describe('IntakeExperimentService', () => {
+  it('rolls up each variant and compares it against the control', async () => {
+    const { env, prepared } = createEnv([
+      rollup('control', 4, 90),
+      rollup('control', 3, 40),
+      rollup('control', 2),
+      rollup('challenger', 4, 100),
+      rollup('challenger', 4, 80),
+      // Unknown variants (stale or hand-edited metadata) are ignored.
+      rollup('retired', 4, 100),
+    ]);
+
+    const results = await new IntakeExperimentService(env).getResults(experiment);
+
+    expect(prepared[0].sql).toContain('e.experiment_id = ?');
+    expect(prepared[0].sql).toMatch(/ORDER BY started_at, e\.conversation_id\s+LIMIT \?/);
+    expect(prepared[0].bindings).toEqual(['practice-1', 'exp-1', 5001]);
+    expect(results.truncated).toBe(false);
+    expect(results.variants.map((variant) => [variant.key, variant.uses, variant.submitted])).toEqual([
+      ['control', 3, 1],
+      ['challenger', 2, 2],
+    ]);
+
+    const [control, challenger] = results.variants;
+    expect(control.isControl).toBe(true);
+    expect(control.comparison).toBeNull();
+    expect(control.completenessPercent).toBe(65);
+    expect(challenger.completenessPercent).toBe(90);
+    expect(challenger.comparison).toMatchObject({
+      conversionDelta: 66.7,
+      completenessDelta: 25,
+      significance: 'insufficient_data',
+    });
+  });
+
+  it('keeps the earliest-started conversations and flags the results when the cap is hit', async () => {
+    const { env } = createEnv(Array.from({ length: 5001 }, () => rollup('control', 4)));
+
+    const results = await new IntakeExperimentService(env).getResults(experiment);
+
+    expect(results.variants[0].uses).toBe(5000);
+    expect(results.truncated).toBe(true);
+  });
+
+  it('leaves completed experiments alone when pausing or resuming', async () => {
+    const { env, prepared } = createEnv([]);
+    await new IntakeExperimentService(env).setStatus('practice-1', 'exp-1', 'paused');
+    expect(prepared[0].sql).toContain("status != 'completed'");
+    expect(prepared[0].bindings.slice(0, 1)).toEqual(['paused']);
+    expect(prepared[0].bindings.slice(2)).toEqual(['practice-1', 'exp-1']);
+  });
+
+  it('assigns a new conversation only when it uses the session variant template', async () => {
+    const service = new IntakeExperimentService({} as Env);
+    vi.spyOn(service, 'getRunning').mockResolvedValue(experiment);
+    const sessionId = 'session-a';
+    const variant = await assignIntakeVariant(experiment, sessionId);
+    const other = experiment.variants.find((candidate) => candidate.key !== variant.key)!;
+
+    await expect(service.assignConversation('practice-1', sessionId, variant.templateSlug))
+      .resolves.toEqual({ experimentId: 'exp-1', variantKey: variant.key });
+    await expect(service.assignConversation('practice-1', sessionId, other.templateSlug)).resolves.toBeNull();
+  });
+});
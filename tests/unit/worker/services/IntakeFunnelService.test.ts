@@ -0,0 +1,80 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IntakeFunnelService } from '../../../../worker/services/IntakeFunnelService.js';
+import type { Env } from '../../../../worker/types.js';
+
+type PreparedCall = { sql: string; bindings: unknown[] };
+
+const range = { startIso: '2026-09-19T00:00:00.000Z', endIso: '2026-10-19T00:00:00.000Z' };
+
+const createEnv = (rows: Array<Record<string, unknown>>) => {
+  const prepared: PreparedCall[] = [];
+  const all = vi.fn(() => Promise.resolve({ results: rows }));
+  const prepare = vi.fn((sql: string) => {
+    const call: PreparedCall = { sql, bindings: [] };
+    prepared.push(call);
+    return {
+      bind: (...args: unknown[]) => {
+        call.bindings = args;
+        return { all };
+      },
+    };
+  });
+  const env = { DB: { prepare } as unknown as Env['DB'] } as unknown as Env;
+  return { env, prepared };
+};
+
+const rollup = (templateSlug: string, furthestStep: number, overrides: Record<string, unknown> = {}) => ({
+  conversation_id: crypto.randomUUID(),
+  template_slug: templateSlug,
+  furthest_step: furthestStep,
+  case_turns: furthestStep >= 3 ? 4 : 0,
+  last_pending_field: null,
+  ...overrides,
+});
+
+describe('IntakeFunnelService', () => {
+  it('filters to one template and binds the cohort range', async () => {
+    const { env, prepared } = createEnv([
+      rollup('divorce', 4),
+      rollup('divorce', 3, { last_pending_field: 'opposing_party' }),
+    ]);
+
+    const funnel = await new IntakeFunnelService(env).getTemplateFunnel('practice-1', 'divorce', range);
+
+    expect(funnel.templateSlug).toBe('divorce');
+    expect(funnel.uses).toBe(2);
+    expect(funnel.conversionPercent).toBe(50);
+    expect(funnel.mostAbandonedField).toEqual({ key: 'opposing_party', count: 1 });
+    expect(funnel.truncated).toBe(false);
+    expect(prepared[0].sql).toContain('template_slug = ?');
+    expect(prepared[0].bindings).toEqual(['practice-1', 'divorce', range.startIso, range.endIso, 5001]);
+  });
+
+  it('groups rollups per template, busiest first', async () => {
+    const { env, prepared } = createEnv([
+      rollup('default', 1),
+      rollup('divorce', 4),
+      rollup('divorce', 2),
+      rollup('divorce', 3),
+    ]);
+
+    const funnels = await new IntakeFunnelService(env).listTemplateFunnels('practice-1', range);
+
+    expect(funnels.map((funnel) => [funnel.templateSlug, funnel.uses, funnel.submitted])).toEqual([
+      ['divorce', 3, 1],
+      ['default', 1, 0],
+    ]);
+    expect(prepared[0].sql).toContain('template_slug IS NOT NULL');
+    expect(prepared[0].bindings).toEqual(['practice-1', range.startIso, range.endIso, 5001]);
+  });
+
+  it('keeps the earliest-started conversations and flags the funnel when the cap is hit', async () => {
+    const { env, prepared } = createEnv(Array.from({ length: 5001 }, () => rollup('divorce', 4)));
+
+    const funnel = await new IntakeFunnelService(env).getTemplateFunnel('practice-1', 'divorce', range);
+
+    expect(funnel.uses).toBe(5000);
+    expect(funnel.truncated).toBe(true);
+    expect(prepared[0].sql).toMatch(/ORDER BY started_at, e\.conversation_id\s+LIMIT \?/);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NotificationHoldService } from '../../../../worker/services/NotificationHoldService.js';
+import type { Env, NotificationQueueMessage } from '../../../../worker/types.js';
+
+type PreparedCall = { sql: string; bindings: unknown[] };
+
+const holdRow = (overrides: Record<string, unknown>) => ({
+  id: crypto.randomUUID(),
+  user_id: 'user-1',
+  practice_id: 'practice-1',
+  reason: 'quiet_hours',
+  category: 'intake',
+  notification_type: 'intake',
+  title: 'New intake',
+  link: '/practice/acme/intakes/1',
+  push: 1,
+  email: null,
+  release_at: '2026-10-20T11:00:00.000Z',
+  created_at: '2026-10-20T06:00:00.000Z',
+  ...overrides,
+});
+
+const createEnv = (rows: Array<Record<string, unknown>>) => {
+  const prepared: PreparedCall[] = [];
+  const sent: NotificationQueueMessage[] = [];
+  const groupKey = (row: Record<string, unknown>) => [row.user_id, row.practice_id, row.reason, row.release_at];
+  // The group query returns each due group once; the row query returns the rows of the bound group.
+  const select = (call: PreparedCall) => {
+    if (call.sql.includes('GROUP BY')) {
+      const groups = new Map(rows.map((row) => [groupKey(row).join('|'), row]));
+      return [...groups.values()];
+    }
+    return rows.filter((row) => groupKey(row).every((value, index) => value === call.bindings[index]));
+  };
+  const run = vi.fn(() => Promise.resolve({ meta: {} }));
+  const prepare = vi.fn((sql: string) => {
+    const call: PreparedCall = { sql, bindings: [] };
+    prepared.push(call);
+    return {
+      bind: (...args: unknown[]) => {
+        call.bindings = args;
+        return { all: vi.fn(() => Promise.resolve({ results: select(call) })), run };
+      },
+    };
+  });
+  const env = {
+    DB: { prepare } as unknown as Env['DB'],
+    NOTIFICATION_EVENTS: { send: vi.fn(async (message: NotificationQueueMessage) => { sent.push(message); }) },
+  } as unknown as Env;
+  return { env, prepared, sent };
+};
+
+describe('NotificationHoldService.releaseDue', () => {
+  it('collapses each user/reason/release group into one summary and deletes the rows', async () => {
+    const rows = [
+      holdRow({ title: 'Intake from Jane', email: 'lawyer@example.com' }),
+      holdRow({ title: 'Payment received', category: 'payment', notification_type: 'payment', link: '/payments/9' }),
+      holdRow({ user_id: 'user-2', title: 'Intake from Sam' }),
+    ];
+    const { env, prepared, sent } = createEnv(rows);
+
+    const released = await new NotificationHoldService(env).releaseDue(new Date('2026-10-20T11:02:00Z'));
+
+    expect(released).toBe(2);
+    const [first, second] = sent;
+    expect(first.title).toBe('2 notifications while quiet hours were on');
+    expect(first.category).toBe('system');
+    expect(first.body).toBe('• Payment received\n• Intake from Jane');
+    expect(first.link).toBe('/payments/9');
+    expect(first.heldSummary).toEqual({ reason: 'quiet_hours', count: 2 });
+    expect(first.recipients).toEqual([{
+      userId: 'user-1',
+      email: 'lawyer@example.com',
+      preferences: expect.objectContaining({ pushEnabled: true, emailEnabled: true, inAppEnabled: false }),
+    }]);
+
+    expect(second.title).toBe('Intake from Sam');
+    expect(second.category).toBe('intake');
+    expect(second.recipients[0].preferences?.emailEnabled).toBe(false);
+
+    const deletes = prepared.filter((call) => call.sql.startsWith('DELETE FROM notification_holds'));
+    expect(deletes.flatMap((call) => call.bindings).sort()).toEqual(rows.map((row) => row.id).sort());
+  });
+
+  it('releases every row of a group in one summary, however many there are', async () => {
+    const rows = Array.from({ length: 600 }, (_, index) => holdRow({ title: `Update ${index}` }));
+    const { env, prepared, sent } = createEnv(rows);
+
+    const released = await new NotificationHoldService(env).releaseDue(new Date('2026-10-20T11:02:00Z'));
+
+    expect(released).toBe(1);
+    expect(sent).toHaveLength(1);
+    expect(sent[0].heldSummary).toEqual({ reason: 'quiet_hours', count: 600 });
+    const deletes = prepared.filter((call) => call.sql.startsWith('DELETE FROM notification_holds'));
+    expect(deletes.flatMap((call) => call.bindings)).toHaveLength(600);
+  });
+
+  it('titles digest summaries as a digest', async () => {
+    const { env, sent } = createEnv([
+      holdRow({ reason: 'digest' }),
+      holdRow({ reason: 'digest' }),
+      holdRow({ reason: 'digest' }),
+    ]);
+    await new NotificationHoldService(env).releaseDue(new Date('2026-10-20T11:02:00Z'));
+    expect(sent[0].title).toBe('Your notification digest: 3 updates');
+  });
+});
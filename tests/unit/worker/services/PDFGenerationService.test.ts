@@ -1,5 +1,10 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument } from 'pdf-lib';
 import { PDFGenerationService } from '../../../../worker/services/PDFGenerationService.js';
+import { Logger } from '../../../../worker/utils/logger.js';
+import { PDF_FONT_FILES, PDF_LOCALE_PROFILES, type PdfLocale } from '../../../../worker/utils/pdfText.js';
+import type { Env } from '../../../../worker/types.js';
 
 // Mock the logger to avoid console output during tests
 vi.mock('../../../../worker/utils/logger.js', () => ({
@@ -181,4 +186,67 @@ describe('PDFGenerationService', () => {
       expect(filename).toMatch(/^case-summary-unknown-john-doe-\d{4}-\d{2}-\d{2}\.pdf$/);
     });
   });
+
+  describe('font embedding', () => {
+    const samples: Record<PdfLocale, string> = {
+      en: 'Case summary',
+      pt: 'Resumo do caso',
+      ar: 'ملخص القضية',
+      es: 'Resumen del caso',
+      ja: '事件の概要とカタカナ',
+      zh: '案件摘要',
+      vi: 'Tóm tắt vụ việc',
+      de: 'Fallübersicht',
+      fr: 'Résumé de l’affaire',
+      hi: 'मामले का सारांश',
+      uk: 'Короткий виклад справи',
+      id: 'Ringkasan kasus',
+      th: 'สรุปคดี',
+      ko: '사건 요약',
+      pl: 'Podsumowanie sprawy',
+      it: 'Riepilogo del caso',
+      ru: 'Краткое изложение дела',
+      tr: 'Dava özeti',
+      nl: 'Samenvatting van de zaak',
+    };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it.each(Object.keys(PDF_LOCALE_PROFILES) as PdfLocale[])('embeds the bundled %s font and covers its text', async (locale) => {
+      const embedFont = vi.spyOn(PDFDocument.prototype, 'embedFont');
+      const text = samples[locale];
+
+      const result = await PDFGenerationService.generateCaseSummaryPDF({
+        caseDraft: {
+          matter_type: text,
+          key_facts: [text],
+          parties: [],
+          documents: [],
+          evidence: [],
+          jurisdiction: 'CA',
+          urgency: 'normal',
+          created_at: '2024-01-01',
+          updated_at: '2024-01-01',
+          status: 'draft',
+        },
+        clientName: text,
+        locale,
+      }, {} as Env);
+
+      expect(result.success).toBe(true);
+      expect(Logger.error).not.toHaveBeenCalled();
+      const embedded = embedFont.mock.calls
+        .map(([font]) => font)
+        .filter((font): font is Uint8Array => font instanceof Uint8Array)
+        .map((bytes) => fontkit.create(bytes));
+      const { regular } = PDF_FONT_FILES[PDF_LOCALE_PROFILES[locale].face];
+      const face = embedded.find((font) => `${font.postscriptName}.subset.ttf` === regular);
+      expect(face).toBeDefined();
+      for (const char of text.replace(/\s/g, '')) {
+        expect(face?.hasGlyphForCodePoint(char.codePointAt(0) ?? 0), char).toBe(true);
+      }
+    });
+  });
 });
@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { ReportDeliveryService, type ReportDelivery } from '../../../../worker/services/ReportDeliveryService.js';
+import { RemoteApiService } from '../../../../worker/services/RemoteApiService.js';
+import type { Env, NotificationQueueMessage } from '../../../../worker/types.js';
+
+const delivery = {
+  id: 'delivery-1',
+  reportType: 'aging',
+  format: 'csv',
+  recipients: ['user-1', 'user-outside'],
+} as ReportDelivery;
+
+const createEnv = (overrides: Partial<Env> = {}) => {
+  const sent: NotificationQueueMessage[] = [];
+  const env = {
+    BACKEND_API_URL: 'https://backend.example.com',
+    MCP_BACKEND_TOKEN: 'service-token',
+    NOTIFICATION_EVENTS: { send: vi.fn(async (message: NotificationQueueMessage) => { sent.push(message); }) },
+    ...overrides,
+  } as unknown as Env;
+  return { env, sent };
+};
+
+describe('ReportDeliveryService.notifyRecipients', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('resolves member emails with the service token when there is no request', async () => {
+    const members = vi.spyOn(RemoteApiService, 'getPracticeMembers')
+      .mockResolvedValue([{ user_id: 'user-1', email: 'lawyer@example.com', role: 'member' }]);
+    vi.spyOn(RemoteApiService, 'getPracticeMemberNotificationPreferences').mockResolvedValue({});
+    vi.spyOn(RemoteApiService, 'getPractice').mockResolvedValue(null);
+    const { env, sent } = createEnv();
+
+    await new ReportDeliveryService(env).notifyRecipients({ practiceId: 'practice-1', delivery, practiceSlug: 'acme' });
+
+    expect(members.mock.calls[0]?.[2]?.headers.get('Authorization')).toBe('Bearer service-token');
+    expect(sent).toHaveLength(1);
+    expect(sent[0].category).toBe('matter');
+    expect(sent[0].recipients).toEqual([
+      expect.objectContaining({ userId: 'user-1', email: 'lawyer@example.com' }),
+    ]);
+  });
+
+  it('sends without email when neither a service token nor a request is available', async () => {
+    const members = vi.spyOn(RemoteApiService, 'getPracticeMembers');
+    const { env, sent } = createEnv({ MCP_BACKEND_TOKEN: undefined });
+
+    await new ReportDeliveryService(env).notifyRecipients({ practiceId: 'practice-1', delivery, practiceSlug: null });
+
+    expect(members).not.toHaveBeenCalled();
+    expect(sent[0].recipients.map((recipient) => recipient.email)).toEqual([null, null]);
+  });
+});
+
+describe('RemoteApiService.serviceRequest', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the service token upstream, but not a member request\'s Authorization header', async () => {
+    const fetchMock = vi.fn<typeof fetch>(async () => new Response(JSON.stringify({ members: [] }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const { env } = createEnv();
+
+    await RemoteApiService.getPracticeMembers(env, 'practice-1', RemoteApiService.serviceRequest(env) ?? undefined);
+    await RemoteApiService.getPracticeMembers(env, 'practice-1', new Request('https://app.example.com', {
+      headers: { Authorization: 'Bearer member-token' },
+    }));
+
+    const sentHeaders = fetchMock.mock.calls.map(([, init]) => new Headers(init?.headers));
+    expect(sentHeaders[0].get('Authorization')).toBe('Bearer service-token');
+    expect(sentHeaders[1].get('Authorization')).toBeNull();
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import {
+  InvalidScheduleError,
   ReportScheduleService,
   computeNextDelivery,
 } from '../../../../worker/services/ReportScheduleService';
@@ -53,6 +54,25 @@ describe('computeNextDelivery', () => {
     expect(iso.startsWith('2026-06-05')).toBe(true);
   });
 
+  it('interprets the hour in the schedule timezone across DST', () => {
+    const before = computeNextDelivery('weekly', 7, {
+      dayOfWeek: 1, timezone: 'America/Los_Angeles', from: new Date('2026-03-01T00:00:00Z'),
+    });
+    const after = computeNextDelivery('weekly', 7, {
+      dayOfWeek: 1, timezone: 'America/Los_Angeles', from: new Date('2026-03-03T00:00:00Z'),
+    });
+    expect(before).toBe('2026-03-02T15:00:00.000Z');
+    expect(after).toBe('2026-03-09T14:00:00.000Z');
+  });
+
+  it('uses the cron expression for custom schedules', () => {
+    const from = new Date('2026-07-15T00:00:00Z');
+    expect(computeNextDelivery('custom', 0, { cron: '0 7 1W * *', timezone: 'America/New_York', from }))
+      .toBe('2026-08-03T11:00:00.000Z');
+    expect(() => computeNextDelivery('custom', 0, { from })).toThrow(InvalidScheduleError);
+    expect(() => computeNextDelivery('daily', 7, { timezone: 'Mars/Olympus', from })).toThrow('Unknown timezone');
+  });
+
   it('clamps day of month to 28 to avoid Feb edge cases', () => {
     const from = new Date('2026-05-14T12:00:00Z');
     const iso = computeNextDelivery('monthly', 9, { dayOfMonth: 31, from });
@@ -104,6 +124,16 @@ describe('ReportScheduleService', () => {
     expect(updated?.nextDeliveryAt).toMatch(/T14:00:00/);
   });
 
+  it('switching a legacy UTC schedule to a timezone drops hourUtc', async () => {
+    const created = await service.create('p1', {
+      reportType: 'revenue', frequency: 'daily', hourUtc: 9, recipients: [], filters: {},
+    });
+    const updated = await service.update('p1', created.id, { hour: 7, timezone: 'America/New_York' });
+    expect(updated?.hourUtc).toBeUndefined();
+    expect(updated?.timezone).toBe('America/New_York');
+    expect(updated?.nextDeliveryAt).toMatch(/T1[12]:00:00/);
+  });
+
   it('delete removes the row and returns false on missing id', async () => {
     const created = await service.create('p1', {
       reportType: 'revenue', frequency: 'daily', hourUtc: 9, recipients: [], filters: {},
@@ -9,6 +9,7 @@ import {
   groupRevenue,
   bucketAging,
   computeProfitability,
+  summarizeMatterBilling,
   groupUtilizationByUser,
   resolveDateRange,
   sumBillableHours,
@@ -128,6 +129,30 @@ describe('groupRevenue', () => {
     expect(result.totalOutstandingCents).toBe(5000);
     expect(result.totalInvoiceCount).toBe(0);
   });
+
+  it('splits rows by currency and withholds money totals when currencies are mixed', () => {
+    const result = groupRevenue([
+      invoice({ paid_at: '2026-01-15T00:00:00Z', amount_paid: 50000, status: 'paid', currency: 'cad' }),
+      invoice({ paid_at: '2026-01-20T00:00:00Z', amount_paid: 25000, status: 'paid', currency: 'GBP' }),
+      invoice({ paid_at: '2026-01-25T00:00:00Z', amount_paid: 10000, status: 'paid', currency: 'CAD' }),
+    ], 'month', range);
+    expect(result.rows.map((r) => [r.currency, r.paidAmountCents])).toEqual([['CAD', 60000], ['GBP', 25000]]);
+    expect(result.currencies).toEqual(['CAD', 'GBP']);
+    expect(result.totalPaidCents).toBeNull();
+    expect(result.totalInvoiceCount).toBe(3);
+    expect(result.subtotals).toEqual([
+      { currency: 'CAD', totalPaidCents: 60000, totalOutstandingCents: 0, totalInvoiceCount: 2 },
+      { currency: 'GBP', totalPaidCents: 25000, totalOutstandingCents: 0, totalInvoiceCount: 1 },
+    ]);
+  });
+
+  it('keeps numeric totals for a single non-USD currency', () => {
+    const result = groupRevenue([
+      invoice({ paid_at: '2026-01-15T00:00:00Z', amount_paid: 500, status: 'paid', currency: 'JPY' }),
+    ], 'month', range);
+    expect(result.currencies).toEqual(['JPY']);
+    expect(result.totalPaidCents).toBe(500);
+  });
 });
 
 describe('bucketAging', () => {
@@ -164,6 +189,29 @@ describe('bucketAging', () => {
     // Effective due = 2026-05-01; 13 days overdue -> 1-30 bucket.
     expect(result.rows.find((r) => r.bucketLabel.startsWith('1–30'))!.totalAmountCents).toBe(99);
   });
+
+  it('returns empty USD buckets when nothing is outstanding', () => {
+    const result = bucketAging([], now);
+    expect(result.rows).toHaveLength(5);
+    expect(result.currencies).toEqual(['USD']);
+    expect(result.totalOutstandingCents).toBe(0);
+  });
+
+  it('gives each currency its own buckets and subtotal', () => {
+    const result = bucketAging([
+      invoice({ due_date: '2026-05-13', amount_due: 100, status: 'open', currency: 'CAD' }),
+      invoice({ due_date: '2026-05-10', amount_due: 300, status: 'open', currency: 'GBP' }),
+      invoice({ due_date: '2026-01-13', amount_due: 400, status: 'overdue', currency: 'GBP' }),
+    ], now);
+    expect(result.rows).toHaveLength(10);
+    expect(result.rows.find((r) => r.currency === 'GBP' && r.bucketLabel.startsWith('1–30'))!.totalAmountCents).toBe(300);
+    expect(result.totalOutstandingCents).toBeNull();
+    expect(result.totalInvoiceCount).toBe(3);
+    expect(result.subtotals).toEqual([
+      { currency: 'CAD', totalOutstandingCents: 100, totalInvoiceCount: 1 },
+      { currency: 'GBP', totalOutstandingCents: 700, totalInvoiceCount: 2 },
+    ]);
+  });
 });
 
 describe('sumBillableHours', () => {
@@ -178,16 +226,21 @@ describe('sumBillableHours', () => {
 });
 
 describe('computeProfitability', () => {
+  const range = resolveDateRange('2026-01-01T00:00:00Z', '2026-12-31T00:00:00Z', 'year');
+  const paidInvoice = (matterId: string, amountPaid: number, currency?: string, createdAt = '2026-03-01T00:00:00Z') =>
+    invoice({ matter_id: matterId, amount_paid: amountPaid, created_at: createdAt, paid_at: createdAt, currency });
+
   it('uses matter attorney_hourly_rate as default and overrides when provided', () => {
     const matters = [
-      { ...matter({ id: 'm1', title: 'Smith', attorney_hourly_rate: asMajor(200) }), __revenueCents: 100_000 } as BackendMatter,
-      { ...matter({ id: 'm2', title: 'Jones', attorney_hourly_rate: null }),  __revenueCents: 50_000 } as BackendMatter,
+      matter({ id: 'm1', title: 'Smith', attorney_hourly_rate: asMajor(200) }),
+      matter({ id: 'm2', title: 'Jones', attorney_hourly_rate: null }),
     ];
     const entries = new Map<string, BackendMatterTimeEntry[]>([
       ['m1', [timeEntry({ duration: 3600, billable: true })]],     // 1h
       ['m2', [timeEntry({ duration: 7200, billable: true })]],     // 2h
     ]);
-    const result = computeProfitability(matters, entries, null);
+    const billing = summarizeMatterBilling([paidInvoice('m1', 100_000), paidInvoice('m2', 50_000)], range);
+    const result = computeProfitability(matters, entries, billing, null);
     const smith = result.rows.find((r) => r.matterId === 'm1')!;
     expect(smith.estimatedCostCents).toBe(200 * 1 * 100);
     expect(smith.revenueCents).toBe(100_000);
@@ -195,16 +248,49 @@ describe('computeProfitability', () => {
     const jones = result.rows.find((r) => r.matterId === 'm2')!;
     // Falls back to DEFAULT_PROFITABILITY_RATE_DOLLARS = 250
     expect(jones.estimatedCostCents).toBe(250 * 2 * 100);
+    expect(result.currencies).toEqual(['USD']);
+    expect(result.totalRevenueCents).toBe(150_000);
   });
 
   it('honors override hourly rate', () => {
-    const matters = [
-      { ...matter({ id: 'm1', title: 'X', attorney_hourly_rate: asMajor(200) }), __revenueCents: 0 } as BackendMatter,
-    ];
+    const matters = [matter({ id: 'm1', title: 'X', attorney_hourly_rate: asMajor(200) })];
     const entries = new Map([['m1', [timeEntry({ duration: 3600, billable: true })]]]);
-    const result = computeProfitability(matters, entries, 500);
+    const result = computeProfitability(matters, entries, summarizeMatterBilling([], range), 500);
     expect(result.rows[0].estimatedCostCents).toBe(500 * 1 * 100);
   });
+
+  it('keeps currencies apart and nulls the mixed totals', () => {
+    const matters = [
+      matter({ id: 'm1', title: 'Tanaka', attorney_hourly_rate: asMajor(20_000) }),
+      matter({ id: 'm2', title: 'Smith', attorney_hourly_rate: asMajor(200) }),
+    ];
+    const entries = new Map([
+      ['m1', [timeEntry({ duration: 3600, billable: true })]],
+      ['m2', [timeEntry({ duration: 3600, billable: true })]],
+    ]);
+    const billing = summarizeMatterBilling([
+      paidInvoice('m1', 50_000, 'jpy'),
+      paidInvoice('m2', 10_000, 'EUR', '2026-04-01T00:00:00Z'),
+      paidInvoice('m2', 30_000, 'USD'),
+    ], range);
+    const result = computeProfitability(matters, entries, billing, null);
+
+    expect(result.totalRevenueCents).toBeNull();
+    expect(result.totalCostCents).toBeNull();
+    expect(result.currencies).toEqual(['EUR', 'JPY', 'USD']);
+    // JPY has no minor units, so the rate is not scaled by 100.
+    expect(result.rows.find((r) => r.currency === 'JPY')).toMatchObject({
+      matterId: 'm1', revenueCents: 50_000, estimatedCostCents: 20_000, marginCents: 30_000,
+    });
+    // Smith's latest invoice is EUR, so cost is booked there; the USD payment stands alone.
+    expect(result.rows.filter((r) => r.matterId === 'm2')).toEqual([
+      expect.objectContaining({ currency: 'EUR', revenueCents: 10_000, estimatedCostCents: 20_000 }),
+      expect.objectContaining({ currency: 'USD', revenueCents: 30_000, estimatedCostCents: 0, billableHours: 0 }),
+    ]);
+    expect(result.subtotals).toContainEqual({
+      currency: 'USD', totalRevenueCents: 30_000, totalCostCents: 0, totalMarginCents: 30_000,
+    });
+  });
 });
 
 describe('groupUtilizationByUser', () => {
@@ -89,6 +89,22 @@ describe('aggregateTrustLedger', () => {
     expect(result.rows).toEqual([]);
     expect(result.endingBalanceCents).toBe(0);
   });
+
+  it('keeps a separate ending balance per currency', () => {
+    const result = aggregateTrustLedger([
+      trustTxn({ id: 't1', occurred_at: '2026-03-01T00:00:00Z', amount: 10_000, balance_after: 10_000, currency: 'CAD' }),
+      trustTxn({ id: 't2', occurred_at: '2026-03-02T00:00:00Z', amount: 5_000, balance_after: 5_000, currency: 'GBP' }),
+      trustTxn({ id: 't3', occurred_at: '2026-03-03T00:00:00Z', amount: -2_500, balance_after: 7_500, currency: 'CAD' }),
+    ], range);
+    expect(result.currencies).toEqual(['CAD', 'GBP']);
+    expect(result.endingBalanceCents).toBeNull();
+    expect(result.totalCreditsCents).toBeNull();
+    expect(result.transactionCount).toBe(3);
+    expect(result.subtotals).toEqual([
+      { currency: 'CAD', totalCreditsCents: 10_000, totalDebitsCents: 2_500, endingBalanceCents: 7_500, transactionCount: 2 },
+      { currency: 'GBP', totalCreditsCents: 5_000, totalDebitsCents: 0, endingBalanceCents: 5_000, transactionCount: 1 },
+    ]);
+  });
 });
 
 describe('aggregateWip', () => {
@@ -140,6 +156,27 @@ describe('groupByOriginatingAttorney', () => {
     expect(result.totalMatterCount).toBe(4);
   });
 
+  it('splits revenue by currency instead of adding it up', () => {
+    const matters = [
+      matter({ id: 'm1', originating_attorney_id: 'u1' }),
+      matter({ id: 'm2', originating_attorney_id: 'u1' }),
+    ];
+    const invoices = [
+      invoice({ matter_id: 'm1', paid_at: '2026-03-15T00:00:00Z', amount_paid: 100_000, currency: 'USD' }),
+      invoice({ matter_id: 'm2', paid_at: '2026-04-01T00:00:00Z', amount_paid: 70_000, currency: 'CAD' }),
+    ];
+    const result = groupByOriginatingAttorney(matters, invoices, range, new Map([['u1', 'Alice']]));
+    expect(result.rows).toEqual([
+      expect.objectContaining({ attorneyId: 'u1', currency: 'CAD', revenueCents: 70_000, matterCount: 1 }),
+      expect.objectContaining({ attorneyId: 'u1', currency: 'USD', revenueCents: 100_000, matterCount: 1 }),
+    ]);
+    expect(result.totalRevenueCents).toBeNull();
+    expect(result.subtotals).toEqual([
+      { currency: 'CAD', totalRevenueCents: 70_000 },
+      { currency: 'USD', totalRevenueCents: 100_000 },
+    ]);
+  });
+
   it('falls back to attorney id when no name in map', () => {
     const result = groupByOriginatingAttorney(
       [matter({ id: 'm1', originating_attorney_id: 'u999' })],
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TrustComplianceService } from '../../../../worker/services/TrustComplianceService.js';
+import type { Env } from '../../../../worker/types.js';
+
+type PreparedCall = { sql: string; bindings: unknown[] };
+
+const PREFERENCES_ROW = {
+  version: 3,
+  auto_replenish_enabled: 1,
+  auto_replenish_threshold_cents: 100_000,
+  alert_enabled: 0,
+  alert_threshold_cents: 100_000,
+  dual_approval_enabled: 1,
+  dual_approval_threshold_cents: 500_000,
+  lock_on_zero_enabled: 1,
+  notify_user_ids_json: '["user-1","user-2"]',
+  created_by_user_id: 'user-1',
+  created_at: '2026-10-01T00:00:00.000Z',
+};
+
+const createEnv = (options: { alreadyEvaluated?: boolean; balanceCents?: number | null; logFails?: boolean } = {}) => {
+  const prepared: PreparedCall[] = [];
+  const send = vi.fn((_message: unknown) => Promise.resolve());
+  const batch = vi.fn(() => (options.logFails ? Promise.reject(new Error('D1 unavailable')) : Promise.resolve([])));
+  const prepare = vi.fn((sql: string) => {
+    const call: PreparedCall = { sql, bindings: [] };
+    prepared.push(call);
+    const statement = {
+      bind: (...args: unknown[]) => {
+        call.bindings = args;
+        return statement;
+      },
+      run: () => Promise.resolve({ meta: { changes: 1 } }),
+      first: () => {
+        if (sql.includes('FROM trust_compliance_preferences')) return Promise.resolve(PREFERENCES_ROW);
+        if (sql.includes('FROM trust_rule_evaluations')) return Promise.resolve(options.alreadyEvaluated ? { seen: 1 } : null);
+        if (sql.includes('FROM trust_matter_balances')) {
+          return Promise.resolve(options.balanceCents == null ? null : { balance_cents: options.balanceCents });
+        }
+        return Promise.resolve(null);
+      },
+    };
+    return statement;
+  });
+  const env = {
+    DB: { prepare, batch } as unknown as Env['DB'],
+    NOTIFICATION_EVENTS: { send } as unknown as Env['NOTIFICATION_EVENTS'],
+  } as unknown as Env;
+  return { env, prepared, batch, send };
+};
+
+const change = {
+  transaction_id: 'txn-1',
+  matter_id: 'matter-1',
+  matter_title: 'Smith v. Jones',
+  client_id: 'client-1',
+  type: 'withdrawal',
+  amount: -80_000,
+  balance_after: 50_000,
+  currency: 'USD',
+  occurred_at: '2026-10-18T12:00:00.000Z',
+};
+
+describe('TrustComplianceService.evaluateLedgerChange', () => {
+  it('records the balance, requests replenishment and logs every rule', async () => {
+    const { env, prepared, batch, send } = createEnv();
+    const results = await new TrustComplianceService(env).evaluateLedgerChange('practice-1', change);
+
+    expect(prepared.some((call) => call.sql.includes('INSERT INTO trust_matter_balances'))).toBe(true);
+    expect(results.map((result) => [result.rule, result.outcome])).toEqual([
+      ['auto_replenish', 'triggered'],
+      ['threshold_alert', 'disabled'],
+      ['lock_on_zero', 'passed'],
+    ]);
+    expect(results[0].detail).toMatchObject({ notified: 2 });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send.mock.calls[0][0]).toMatchObject({
+      dedupeKey: 'trust:auto_replenish:txn-1',
+      entityType: 'trust_replenishment_request',
+      entityId: 'matter-1',
+      recipients: [expect.objectContaining({ userId: 'user-1' }), expect.objectContaining({ userId: 'user-2' })],
+    });
+
+    expect(batch).toHaveBeenCalledTimes(1);
+    const logged = prepared.filter((call) => call.sql.includes('INSERT INTO trust_rule_evaluations'));
+    expect(logged.map((call) => [call.bindings[2], call.bindings[3], call.bindings[10]])).toEqual([
+      ['auto_replenish', 'triggered', 3],
+      ['threshold_alert', 'disabled', 3],
+      ['lock_on_zero', 'passed', 3],
+    ]);
+  });
+
+  it('ignores a redelivered transaction', async () => {
+    const { env, batch, send } = createEnv({ alreadyEvaluated: true });
+    expect(await new TrustComplianceService(env).evaluateLedgerChange('practice-1', change)).toEqual([]);
+    expect(batch).not.toHaveBeenCalled();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('sends nothing when the evaluation cannot be logged, so a redelivery does not alert twice', async () => {
+    const { env, send } = createEnv({ logFails: true });
+    await expect(new TrustComplianceService(env).evaluateLedgerChange('practice-1', change)).rejects.toThrow('D1 unavailable');
+    expect(send).not.toHaveBeenCalled();
+  });
+});
+
+describe('TrustComplianceService.evaluateExecutedTransaction', () => {
+  const withdrawal = { matterId: 'matter-1', trustTransaction: { type: 'withdrawal', amountCents: 40_000 } };
+
+  it('locks the matter when an assistant withdrawal empties it', async () => {
+    const { env, prepared } = createEnv({ balanceCents: 40_000 });
+    const results = await new TrustComplianceService(env).evaluateExecutedTransaction(
+      'practice-1',
+      'action-1',
+      withdrawal,
+      { id: 'txn-9', balance_after: 0, currency: 'usd' },
+    );
+
+    expect(results.find((result) => result.rule === 'lock_on_zero')).toMatchObject({
+      outcome: 'triggered',
+      balanceCents: 0,
+      detail: { newlyLocked: true },
+    });
+    const balance = prepared.find((call) => call.sql.includes('INSERT INTO trust_matter_balances'));
+    expect(balance?.bindings.slice(1, 6)).toEqual(['matter-1', null, 0, 'USD', 'txn-9']);
+  });
+
+  it('uses the balance the backend reports, not the recorded one', async () => {
+    const { env } = createEnv({ balanceCents: 40_000 });
+    const results = await new TrustComplianceService(env).evaluateExecutedTransaction(
+      'practice-1',
+      'action-1',
+      withdrawal,
+      { data: { id: 'txn-9', balance_after: 250_000 } },
+    );
+    expect(results.find((result) => result.rule === 'lock_on_zero')).toMatchObject({ outcome: 'passed', balanceCents: 250_000 });
+  });
+
+  it('leaves the transaction to the backend event without a transaction id or balance', async () => {
+    const { env, batch } = createEnv({ balanceCents: 40_000 });
+    const service = new TrustComplianceService(env);
+    expect(await service.evaluateExecutedTransaction('practice-1', 'action-1', withdrawal, { id: 'txn-9' })).toEqual([]);
+    expect(await service.evaluateExecutedTransaction('practice-1', 'action-1', withdrawal, { balance_after: 0 }))
+      .toEqual([]);
+    expect(batch).not.toHaveBeenCalled();
+  });
+});
+
+describe('TrustComplianceService.evaluateStagedAction', () => {
+  it('blocks a matter at zero and logs the block against the action', async () => {
+    const { env, prepared } = createEnv({ balanceCents: 0 });
+    const evaluation = await new TrustComplianceService(env).evaluateStagedAction(
+      'practice-1',
+      'action-1',
+      { matterId: 'matter-1', trustTransaction: null },
+      'stage',
+    );
+    expect(evaluation.blockedReason).toMatch(/locked/);
+    const logged = prepared.filter((call) => call.sql.includes('INSERT INTO trust_rule_evaluations'));
+    expect(logged).toHaveLength(1);
+    expect(logged[0].bindings.slice(2, 7)).toEqual(['lock_on_zero', 'blocked', 'staged_action', 'action-1', 'matter-1']);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_AI_USAGE_BUDGET,
+  decideAiModel,
+  estimateAiUsage,
+  evaluateAiBudget,
+  extractAiUsage,
+  mergeAiUsage,
+  monthStartIso,
+  resolveAiFallbackModel,
+} from '../../../../worker/utils/aiUsage';
+import { SaveAiUsageBudgetRequestSchema } from '../../../../worker/types/wire/aiUsage';
+
+const budget = {
+  ...DEFAULT_AI_USAGE_BUDGET,
+  version: 2,
+  softLimitTokens: 1_000,
+  hardLimitTokens: 5_000,
+  fallbackModel: '@cf/meta/llama-3.1-8b-instruct' as const,
+};
+
+describe('extractAiUsage', () => {
+  it('reads OpenAI-style and Anthropic usage', () => {
+    expect(extractAiUsage({ usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 } }))
+      .toEqual({ inputTokens: 120, outputTokens: 30 });
+    expect(extractAiUsage({ type: 'message_delta', usage: { output_tokens: 42 } }))
+      .toEqual({ inputTokens: 0, outputTokens: 42 });
+    expect(extractAiUsage({ type: 'message_start', message: { usage: { input_tokens: 300, output_tokens: 1 } } }))
+      .toEqual({ inputTokens: 300, outputTokens: 1 });
+  });
+
+  it('returns null when there is nothing to read', () => {
+    expect(extractAiUsage(null)).toBeNull();
+    expect(extractAiUsage({ choices: [] })).toBeNull();
+    expect(extractAiUsage({ usage: null })).toBeNull();
+    expect(extractAiUsage({ usage: { prompt_tokens: -1, completion_tokens: 'many' } })).toBeNull();
+  });
+});
+
+describe('mergeAiUsage', () => {
+  it('keeps the largest count on each side across stream events', () => {
+    const start = mergeAiUsage(null, { inputTokens: 300, outputTokens: 1 });
+    const delta = mergeAiUsage(start, { inputTokens: 0, outputTokens: 42 });
+    expect(delta).toEqual({ inputTokens: 300, outputTokens: 42 });
+    expect(mergeAiUsage(delta, null)).toEqual(delta);
+  });
+});
+
+describe('estimateAiUsage', () => {
+  it('counts roughly four characters per token for the prompt and reply', () => {
+    const usage = estimateAiUsage({ system: 'x'.repeat(40), messages: [] }, 'y'.repeat(9));
+    expect(usage).toEqual({ inputTokens: 10 + 1, outputTokens: 3 });
+  });
+});
+
+describe('evaluateAiBudget', () => {
+  it('is always ok without limits', () => {
+    expect(evaluateAiBudget(DEFAULT_AI_USAGE_BUDGET, 10_000_000)).toBe('ok');
+  });
+
+  it('moves to the soft and then the hard limit as the month fills', () => {
+    expect(evaluateAiBudget(budget, 999)).toBe('ok');
+    expect(evaluateAiBudget(budget, 1_000)).toBe('soft_limit');
+    expect(evaluateAiBudget(budget, 4_999)).toBe('soft_limit');
+    expect(evaluateAiBudget(budget, 5_000)).toBe('hard_limit');
+    expect(evaluateAiBudget({ ...budget, softLimitTokens: null }, 4_999)).toBe('ok');
+  });
+});
+
+describe('decideAiModel', () => {
+  it('switches to the fallback model once a limit is reached', () => {
+    expect(decideAiModel('gpt-4o', budget, 'ok')).toEqual({ model: 'gpt-4o', status: 'ok', fallback: false });
+    expect(decideAiModel('gpt-4o', budget, 'soft_limit'))
+      .toEqual({ model: '@cf/meta/llama-3.1-8b-instruct', status: 'soft_limit', fallback: true });
+  });
+});
+
+describe('fallback model allowlist', () => {
+  it('only saves budgets that fall back to a known cheaper Workers AI model', () => {
+    const save = { softLimitTokens: 1_000, hardLimitTokens: null };
+    expect(SaveAiUsageBudgetRequestSchema.safeParse({ ...save, fallbackModel: '@cf/meta/llama-3.1-8b-instruct' }).success)
+      .toBe(true);
+    expect(SaveAiUsageBudgetRequestSchema.safeParse({ ...save, fallbackModel: 'gpt-4o' }).success).toBe(false);
+    expect(SaveAiUsageBudgetRequestSchema.safeParse({ ...save, fallbackModel: '@cf/some/big-model' }).success).toBe(false);
+  });
+
+  it('reads a stored model that is no longer allowed as the default', () => {
+    expect(resolveAiFallbackModel('@cf/meta/llama-3.1-8b-instruct')).toBe('@cf/meta/llama-3.1-8b-instruct');
+    expect(resolveAiFallbackModel('claude-opus')).toBe(DEFAULT_AI_USAGE_BUDGET.fallbackModel);
+  });
+});
+
+describe('monthStartIso', () => {
+  it('is the first instant of the UTC month', () => {
+    expect(monthStartIso(new Date('2026-10-19T23:30:00-05:00'))).toBe('2026-10-01T00:00:00.000Z');
+    expect(monthStartIso(new Date('2026-10-31T23:30:00-05:00'))).toBe('2026-11-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BankStatementParseError,
+  parseAmountCents,
+  parseBankStatement,
+  parseStatementDate,
+} from '../../../../worker/utils/bankStatementParser';
+
+const SGML_OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKACCTFROM><BANKID>121000248<ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20260901
+<DTEND>20260930235959.000[-5:EST]
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20260903120000
+<TRNAMT>2500.00
+<FITID>FIT-1
+<NAME>DEPOSIT
+<MEMO>Retainer Smith
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CHECK
+<DTPOSTED>20260915
+<TRNAMT>-400.50
+<FITID>FIT-2
+<CHECKNUM>1042
+<NAME>CHECK 1042
+</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>12099.50<DTASOF>20260930</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+describe('parseBankStatement — OFX', () => {
+  it('reads SGML transactions, period and closing balance', () => {
+    const statement = parseBankStatement('september.qfx', SGML_OFX);
+    expect(statement).toMatchObject({
+      format: 'qfx',
+      currency: 'USD',
+      accountId: '000123456789',
+      periodStart: '2026-09-01',
+      periodEnd: '2026-09-30',
+      closingBalanceCents: 1_209_950,
+    });
+    expect(statement.lines).toEqual([
+      { postedAt: '2026-09-03', amountCents: 250_000, description: 'DEPOSIT · Retainer Smith', reference: 'FIT-1' },
+      { postedAt: '2026-09-15', amountCents: -40_050, description: 'CHECK 1042', reference: '1042' },
+    ]);
+  });
+
+  it('reads XML OFX with closed leaf elements', () => {
+    const xml = `<?xml version="1.0"?><OFX><BANKTRANLIST>
+      <STMTTRN><DTPOSTED>20261002</DTPOSTED><TRNAMT>-12.00</TRNAMT><FITID>A1</FITID><NAME>Bank fee</NAME></STMTTRN>
+      </BANKTRANLIST><LEDGERBAL><BALAMT>100.00</BALAMT><DTASOF>20261031</DTASOF></LEDGERBAL></OFX>`;
+    const statement = parseBankStatement('october.ofx', xml);
+    expect(statement.lines).toEqual([
+      { postedAt: '2026-10-02', amountCents: -1_200, description: 'Bank fee', reference: 'A1' },
+    ]);
+    expect(statement).toMatchObject({ periodStart: '2026-10-02', periodEnd: '2026-10-31', closingBalanceCents: 10_000 });
+  });
+});
+
+describe('parseBankStatement — CSV', () => {
+  it('finds columns by name and takes the closing balance from the latest row', () => {
+    const csv = [
+      'Account,Trust IOLTA',
+      'Posting Date,Description,Debit,Credit,Balance,Check Number',
+      '09/30/2026,"Check 1042, Jones",400.50,,"12,099.50",1042',
+      '09/03/2026,Retainer deposit,,"2,500.00","12,500.00",',
+    ].join('\r\n');
+    const statement = parseBankStatement('export.csv', csv);
+    expect(statement).toMatchObject({
+      format: 'csv',
+      periodStart: '2026-09-03',
+      periodEnd: '2026-09-30',
+      closingBalanceCents: 1_209_950,
+    });
+    expect(statement.lines).toEqual([
+      { postedAt: '2026-09-30', amountCents: -40_050, description: 'Check 1042, Jones', reference: '1042' },
+      { postedAt: '2026-09-03', amountCents: 250_000, description: 'Retainer deposit', reference: null },
+    ]);
+  });
+
+  it('leaves the closing balance null without a balance column', () => {
+    const statement = parseBankStatement('export.csv', 'Date,Amount,Memo\n2026-09-01,-5.00,Fee\n');
+    expect(statement.closingBalanceCents).toBeNull();
+    expect(statement.lines[0]).toMatchObject({ amountCents: -500, description: 'Fee' });
+  });
+
+  it('rejects files it cannot read', () => {
+    expect(() => parseBankStatement('export.csv', 'Foo,Bar\n1,2\n')).toThrow(BankStatementParseError);
+    expect(() => parseBankStatement('export.csv', 'Date,Amount\nyesterday,5\n')).toThrow(/row 2/);
+  });
+});
+
+describe('parseAmountCents / parseStatementDate', () => {
+  it('handles signs, separators and decimal commas', () => {
+    expect(parseAmountCents('1,234.56')).toBe(123_456);
+    expect(parseAmountCents('(40.00)')).toBe(-4_000);
+    expect(parseAmountCents('$-12.5')).toBe(-1_250);
+    expect(parseAmountCents('1.234,56')).toBe(123_456);
+    expect(parseAmountCents('75-')).toBe(-7_500);
+    expect(parseAmountCents('')).toBeNull();
+    expect(parseAmountCents('n/a')).toBeNull();
+  });
+
+  it('reads ISO and US dates and rejects impossible ones', () => {
+    expect(parseStatementDate('2026-09-03')).toBe('2026-09-03');
+    expect(parseStatementDate('9/3/26')).toBe('2026-09-03');
+    expect(parseStatementDate('02/30/2026')).toBeNull();
+  });
+});
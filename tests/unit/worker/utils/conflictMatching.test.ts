@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import {
+  POSSIBLE_MATCH_SCORE,
+  STRONG_MATCH_SCORE,
+  buildConflictQueryNames,
+  deriveConflictStatus,
+  findConflictHits,
+  jaroWinkler,
+  parseName,
+  scoreNameMatch,
+  soundex,
+} from '../../../../worker/utils/conflictMatching';
+
+const score = (a: string, b: string): number => {
+  const left = parseName(a);
+  const right = parseName(b);
+  if (!left || !right) throw new Error('unparseable name');
+  return scoreNameMatch(left, right).score;
+};
+
+describe('parseName', () => {
+  it('strips diacritics, punctuation, honorifics and suffixes', () => {
+    expect(parseName('Dr. José  O’Brien-Núñez, Jr.')).toEqual({
+      kind: 'person',
+      tokens: ['jose', 'obrien', 'nunez'],
+      normalized: 'jose obrien nunez',
+    });
+  });
+
+  it('reorders "Last, First" but not corporate designators', () => {
+    expect(parseName('Smith, John')?.normalized).toBe('john smith');
+    expect(parseName('Acme, Inc.')).toMatchObject({ kind: 'organization', normalized: 'acme' });
+    expect(parseName('National Bank, N.A.')).toMatchObject({ kind: 'organization', normalized: 'national bank' });
+  });
+
+  it('returns null for names with nothing left', () => {
+    expect(parseName('  ')).toBeNull();
+    expect(parseName('Mr.')).toBeNull();
+  });
+});
+
+describe('soundex and jaroWinkler', () => {
+  it('computes standard Soundex codes', () => {
+    expect(soundex('robert')).toBe('R163');
+    expect(soundex('rupert')).toBe('R163');
+    expect(soundex('ashcraft')).toBe('A261');
+    expect(soundex('tymczak')).toBe('T522');
+  });
+
+  it('computes Jaro-Winkler similarity', () => {
+    expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler('same', 'same')).toBe(1);
+    expect(jaroWinkler('abc', 'xyz')).toBe(0);
+  });
+});
+
+describe('scoreNameMatch', () => {
+  it('treats identical normalized names as exact', () => {
+    expect(score('ACME Corp.', 'Acme Inc')).toBe(1);
+    expect(score('Mrs. Jane Doe', 'jane doe')).toBe(1);
+  });
+
+  it('matches nicknames, initials and spelling variants', () => {
+    expect(score('Bob Jones', 'Robert Jones')).toBeGreaterThanOrEqual(STRONG_MATCH_SCORE);
+    expect(score('Jon Smith', 'John Smith')).toBeGreaterThanOrEqual(STRONG_MATCH_SCORE);
+    expect(score('John Smyth', 'John Smith')).toBeGreaterThanOrEqual(POSSIBLE_MATCH_SCORE);
+    expect(score('J. Smith', 'John Smith')).toBeGreaterThanOrEqual(POSSIBLE_MATCH_SCORE);
+    expect(score('Smith, John Paul', 'John Smith')).toBeGreaterThanOrEqual(STRONG_MATCH_SCORE);
+  });
+
+  it('matches given and family names entered in the other order', () => {
+    expect(score('Wong Mei', 'Mei Wong')).toBeGreaterThanOrEqual(POSSIBLE_MATCH_SCORE);
+  });
+
+  it('does not match on a shared surname or a bare surname', () => {
+    expect(score('John Smith', 'Jane Smith')).toBeLessThan(POSSIBLE_MATCH_SCORE);
+    expect(score('Smith', 'John Smith')).toBeLessThan(POSSIBLE_MATCH_SCORE);
+    expect(score('Maria Garcia', 'Mario Gomez')).toBeLessThan(POSSIBLE_MATCH_SCORE);
+  });
+
+  it('compares organizations by their distinctive tokens', () => {
+    expect(score('First National Bank', 'National Bank, N.A.')).toBeGreaterThanOrEqual(POSSIBLE_MATCH_SCORE);
+    expect(score('Acme Holdings LLC', 'Acme Holding Co')).toBeGreaterThanOrEqual(STRONG_MATCH_SCORE);
+    expect(score('Bank of America', 'Bank of Nevada')).toBeLessThan(POSSIBLE_MATCH_SCORE);
+  });
+});
+
+describe('buildConflictQueryNames', () => {
+  it('labels the client and opposing parties and dedupes the rest', () => {
+    expect(buildConflictQueryNames({
+      clientName: 'Ada Lovelace',
+      opposingParty: 'Charles Babbage; Analytical Engines Ltd',
+      names: ['ada lovelace', 'Charles Babbage', 'Mary Somerville', ' '],
+    })).toEqual([
+      { name: 'Ada Lovelace', role: 'client' },
+      { name: 'Charles Babbage', role: 'opposing_party' },
+      { name: 'Analytical Engines Ltd', role: 'opposing_party' },
+      { name: 'Mary Somerville', role: 'related_party' },
+    ]);
+  });
+});
+
+describe('findConflictHits', () => {
+  const parties = [
+    { id: 'p1', name: 'Robert Jones', role: 'opposing_party' as const },
+    { id: 'p2', name: 'Acme Holdings LLC', role: 'client' as const },
+    { id: 'p3', name: 'Robert Jones', role: 'client' as const },
+    { id: 'p4', name: 'Unrelated Person', role: 'client' as const },
+  ];
+
+  it('reports matches with adverse hits first', () => {
+    const hits = findConflictHits([{ name: 'Bob Jones', role: 'client' }], parties);
+    expect(hits.map((hit) => [hit.party.id, hit.adverse])).toEqual([['p1', true], ['p3', false]]);
+    expect(hits[0].reasons).toContain('nickname');
+  });
+
+  it('never reports two opposing parties sharing a name', () => {
+    const hits = findConflictHits([{ name: 'Robert Jones', role: 'opposing_party' }], parties);
+    expect(hits.map((hit) => hit.party.id)).toEqual(['p3']);
+    expect(hits[0]).toMatchObject({ adverse: true, score: 1, reasons: ['exact'] });
+  });
+});
+
+describe('deriveConflictStatus', () => {
+  const adverse = { score: 0.97, adverse: true };
+  const weak = { score: 0.88, adverse: false };
+
+  it('needs names to say anything', () => {
+    expect(deriveConflictStatus(0, [], false)).toBe('insufficient_data');
+    expect(deriveConflictStatus(2, [], false)).toBe('clear');
+  });
+
+  it('reads unreviewed strong adverse hits as conflicted and others as review required', () => {
+    expect(deriveConflictStatus(1, [{ ...adverse, decision: 'pending' }], false)).toBe('conflicted');
+    expect(deriveConflictStatus(1, [{ ...weak, decision: 'pending' }], false)).toBe('review_required');
+  });
+
+  it('follows attorney decisions', () => {
+    expect(deriveConflictStatus(1, [{ ...adverse, decision: 'cleared' }], false)).toBe('clear');
+    expect(deriveConflictStatus(1, [{ ...adverse, decision: 'cleared' }, { ...weak, decision: 'pending' }], false)).toBe('review_required');
+    expect(deriveConflictStatus(1, [{ ...weak, decision: 'confirmed' }], false)).toBe('conflicted');
+  });
+
+  it('never reports a truncated check as clear', () => {
+    expect(deriveConflictStatus(2, [], true)).toBe('review_required');
+    expect(deriveConflictStatus(1, [{ ...adverse, decision: 'cleared' }], true)).toBe('review_required');
+    expect(deriveConflictStatus(1, [{ ...weak, decision: 'confirmed' }], true)).toBe('conflicted');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  nextCronOccurrences,
+  validateCronExpression,
+  zonedTimeToUtc,
+} from '../../../../worker/utils/cron.js';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('nextCronOccurrences', () => {
+  it('keeps a weekly local time fixed across the spring DST change', () => {
+    const runs = nextCronOccurrences('0 7 * * MON', {
+      timeZone: 'America/New_York',
+      from: new Date('2026-03-01T00:00:00Z'),
+      count: 2,
+    });
+    // 7am EST, then 7am EDT after the March 8 transition.
+    expect(iso(runs)).toEqual(['2026-03-02T12:00:00.000Z', '2026-03-09T11:00:00.000Z']);
+  });
+
+  it('shifts a wall time inside the DST gap forward', () => {
+    const runs = nextCronOccurrences('30 2 * * *', {
+      timeZone: 'America/New_York',
+      from: new Date('2026-03-08T05:00:00Z'),
+      count: 2,
+    });
+    // 02:30 does not exist on March 8; it runs at 03:30 EDT instead.
+    expect(iso(runs)).toEqual(['2026-03-08T07:30:00.000Z', '2026-03-09T06:30:00.000Z']);
+  });
+
+  it('runs a repeated wall time only once during the DST overlap', () => {
+    const runs = nextCronOccurrences('30 1 * * *', {
+      timeZone: 'America/New_York',
+      from: new Date('2026-11-01T04:00:00Z'),
+      count: 2,
+    });
+    expect(iso(runs)).toEqual(['2026-11-01T05:30:00.000Z', '2026-11-02T06:30:00.000Z']);
+  });
+
+  it('supports first business day of the month (1W)', () => {
+    const runs = nextCronOccurrences('0 7 1W * *', { from: new Date('2026-07-15T00:00:00Z'), count: 2 });
+    // August 1 2026 is a Saturday, so the first business day is Monday August 3.
+    expect(iso(runs)).toEqual(['2026-08-03T07:00:00.000Z', '2026-09-01T07:00:00.000Z']);
+  });
+
+  it('supports last weekday, nth weekday and last weekday-of-month rules', () => {
+    const from = new Date('2026-05-01T00:00:00Z');
+    expect(iso(nextCronOccurrences('0 9 LW * *', { from }))).toEqual(['2026-05-29T09:00:00.000Z']);
+    expect(iso(nextCronOccurrences('0 9 * * FRI#2', { from }))).toEqual(['2026-05-08T09:00:00.000Z']);
+    expect(iso(nextCronOccurrences('0 9 * * 5L', { from }))).toEqual(['2026-05-29T09:00:00.000Z']);
+    expect(iso(nextCronOccurrences('0 9 L 2 *', { from }))).toEqual(['2027-02-28T09:00:00.000Z']);
+  });
+
+  it('supports every other Friday counted from the anchor week', () => {
+    const runs = nextCronOccurrences('0 16 * * FRI%2', {
+      timeZone: 'America/New_York',
+      from: new Date('2026-10-14T12:00:00Z'),
+      anchor: new Date('2026-10-14T12:00:00Z'),
+      count: 3,
+    });
+    expect(iso(runs)).toEqual([
+      '2026-10-16T20:00:00.000Z',
+      '2026-10-30T20:00:00.000Z',
+      '2026-11-13T21:00:00.000Z',
+    ]);
+  });
+
+  it('returns nothing for expressions that never fire', () => {
+    expect(nextCronOccurrences('0 0 30 2 *', { from: new Date('2026-01-01T00:00:00Z') })).toEqual([]);
+  });
+});
+
+describe('validateCronExpression', () => {
+  it('accepts standard and extended syntax', () => {
+    expect(validateCronExpression('*/15 8-18 * JAN-MAR MON-FRI')).toBeNull();
+    expect(validateCronExpression('0 7 1W,LW * *')).toBeNull();
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(validateCronExpression('0 7 * *')).toMatch(/expected 5 fields/);
+    expect(validateCronExpression('0 24 * * *')).toMatch(/out of range 0-23 in hour/);
+    expect(validateCronExpression('0 7 * * FUNDAY')).toMatch(/not valid in day-of-week/);
+    expect(validateCronExpression('0 7 * * FRI#6')).toMatch(/#1-#5/);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall time using the offset in effect on that date', () => {
+    expect(zonedTimeToUtc({ year: 2026, month: 1, day: 15, hour: 9, minute: 0 }, 'America/Los_Angeles').toISOString())
+      .toBe('2026-01-15T17:00:00.000Z');
+    expect(zonedTimeToUtc({ year: 2026, month: 7, day: 15, hour: 9, minute: 0 }, 'America/Los_Angeles').toISOString())
+      .toBe('2026-07-15T16:00:00.000Z');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { toCsv } from '../../../../worker/utils/csv';
+import { columnTotals, resolveCell, toCsv, type CsvColumn } from '../../../../worker/utils/csv';
 
 describe('toCsv', () => {
   it('emits header only when rows are empty', () => {
@@ -45,3 +45,27 @@ describe('toCsv', () => {
     expect(out).toBe('Amount\r\n123.45');
   });
 });
+
+describe('resolveCell / columnTotals', () => {
+  const columns: CsvColumn<Record<string, unknown>>[] = [
+    { key: 'date', header: 'Date', type: 'date' },
+    { key: 'label', header: 'Label' },
+    { key: 'cents', header: 'Amount', type: 'currency', total: true, format: (v) => (Number(v) / 100).toFixed(2) },
+    { key: 'hours', header: 'Hours', type: 'number', total: true },
+  ];
+  const rows = [
+    { date: '2026-03-01T00:00:00.000Z', label: 'A', cents: 10, hours: 0.1 },
+    { date: 'not a date', label: 'B', cents: 20, hours: 0.2 },
+  ];
+
+  it('types formatted values and falls back to text when they do not parse', () => {
+    expect(resolveCell(rows[0], columns[2])).toEqual({ kind: 'number', value: 0.1, type: 'currency' });
+    expect(resolveCell(rows[0], columns[0])).toEqual({ kind: 'date', date: new Date('2026-03-01T00:00:00.000Z') });
+    expect(resolveCell(rows[1], columns[0])).toEqual({ kind: 'text', text: 'not a date' });
+    expect(resolveCell({ label: null }, columns[1])).toEqual({ kind: 'empty' });
+  });
+
+  it('sums only total columns without float drift', () => {
+    expect(columnTotals(rows, columns)).toEqual([null, null, 0.3, 0.3]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignIntakeVariant,
+  compareToControl,
+  experimentBucket,
+  meanDifferencePValue,
+  parseExperimentVariants,
+  pickVariant,
+  resolveIntakeExperimentAssignment,
+  twoProportionPValue,
+  type IntakeExperimentArm,
+} from '../../../../worker/utils/intakeExperiments';
+
+const variants = [
+  { key: 'control', templateSlug: 'default', weight: 1 },
+  { key: 'challenger', templateSlug: 'short-intro', weight: 3 },
+];
+
+describe('variant assignment', () => {
+  it('gives a session the same bucket every time, and different buckets per experiment', async () => {
+    const first = await experimentBucket('exp-1', 'session-a');
+    expect(await experimentBucket('exp-1', 'session-a')).toBe(first);
+    expect(first).toBeGreaterThanOrEqual(0);
+    expect(first).toBeLessThan(2 ** 32);
+    const others = await Promise.all(['exp-2', 'exp-3', 'exp-4'].map((id) => experimentBucket(id, 'session-a')));
+    expect(others.some((bucket) => bucket !== first)).toBe(true);
+  });
+
+  it('maps buckets onto variants in proportion to their weights', () => {
+    expect(pickVariant(variants, 0).key).toBe('control');
+    expect(pickVariant(variants, 1).key).toBe('challenger');
+    expect(pickVariant(variants, 3).key).toBe('challenger');
+    expect(pickVariant(variants, 4).key).toBe('control');
+  });
+
+  it('splits many sessions roughly by weight', async () => {
+    const experiment = { id: 'exp-1', variants };
+    let challenger = 0;
+    for (let index = 0; index < 400; index++) {
+      if ((await assignIntakeVariant(experiment, `session-${index}`)).key === 'challenger') challenger++;
+    }
+    expect(challenger / 400).toBeGreaterThan(0.65);
+    expect(challenger / 400).toBeLessThan(0.85);
+  });
+});
+
+describe('parseExperimentVariants', () => {
+  const published = new Set(['default', 'short-intro', 'other']);
+
+  it('normalises variants and defaults the weight to 1', () => {
+    expect(parseExperimentVariants([
+      { key: ' control ', templateSlug: 'default' },
+      { key: 'challenger', templateSlug: 'short-intro', weight: 3 },
+    ], published)).toEqual({
+      variants: [
+        { key: 'control', templateSlug: 'default', weight: 1 },
+        { key: 'challenger', templateSlug: 'short-intro', weight: 3 },
+      ],
+    });
+  });
+
+  it('rejects too few variants, duplicates and bad weights', () => {
+    expect(parseExperimentVariants([{ key: 'a', templateSlug: 'default' }], published)).toHaveProperty('error');
+    expect(parseExperimentVariants([
+      { key: 'a', templateSlug: 'default' },
+      { key: 'a', templateSlug: 'other' },
+    ], published)).toEqual({ error: 'Variant keys must be unique' });
+    expect(parseExperimentVariants([
+      { key: 'a', templateSlug: 'default' },
+      { key: 'b', templateSlug: 'default' },
+    ], published)).toEqual({ error: 'Each variant must use a different template' });
+    expect(parseExperimentVariants([
+      { key: 'a', templateSlug: 'default', weight: 0 },
+      { key: 'b', templateSlug: 'other' },
+    ], published)).toHaveProperty('error');
+  });
+
+  it('rejects variants whose template is not published', () => {
+    expect(parseExperimentVariants([
+      { key: 'control', templateSlug: 'default' },
+      { key: 'challenger', templateSlug: 'draft-intro' },
+    ], published)).toEqual({ error: 'Variant "challenger" uses template "draft-intro", which is not published' });
+  });
+});
+
+describe('resolveIntakeExperimentAssignment', () => {
+  it('reads the assignment stamped on the conversation', () => {
+    expect(resolveIntakeExperimentAssignment({
+      intakeExperiment: { experimentId: 'exp-1', variantKey: 'challenger' },
+    })).toEqual({ experimentId: 'exp-1', experimentVariant: 'challenger' });
+  });
+
+  it('returns nulls for missing or malformed assignments', () => {
+    const none = { experimentId: null, experimentVariant: null };
+    expect(resolveIntakeExperimentAssignment(null)).toEqual(none);
+    expect(resolveIntakeExperimentAssignment({ intakeTemplate: { slug: 'default' } })).toEqual(none);
+    expect(resolveIntakeExperimentAssignment({ intakeExperiment: { experimentId: 'exp-1', variantKey: 'bad key!' } }))
+      .toEqual(none);
+  });
+});
+
+describe('significance', () => {
+  it('computes a two-sided two-proportion p-value', () => {
+    expect(twoProportionPValue(10, 100, 20, 100)).toBeCloseTo(0.0477, 3);
+    expect(twoProportionPValue(0, 0, 5, 10)).toBeNull();
+    expect(twoProportionPValue(0, 10, 0, 10)).toBeNull();
+  });
+
+  it('computes a two-sided p-value for a difference in means', () => {
+    const a = [40, 50, 60, 50, 45, 55];
+    const b = [60, 70, 80, 70, 65, 75];
+    expect(meanDifferencePValue(a, b)).toBeLessThan(0.001);
+    expect(meanDifferencePValue([50], b)).toBeNull();
+  });
+
+  it('only calls a result once both arms have enough uses', () => {
+    const arm = (uses: number, submitted: number, completeness: number[]): IntakeExperimentArm => ({
+      uses,
+      submitted,
+      completenessScores: completeness,
+    });
+    const small = compareToControl(arm(10, 1, [50, 60]), arm(10, 8, [80, 90]));
+    expect(small.significance).toBe('insufficient_data');
+    expect(small.conversionDelta).toBe(70);
+    expect(small.completenessDelta).toBe(30);
+
+    const clear = compareToControl(arm(100, 10, []), arm(100, 30, []));
+    expect(clear.significance).toBe('significant');
+    expect(clear.conversionDelta).toBe(20);
+    expect(clear.completenessDelta).toBeNull();
+
+    const flat = compareToControl(arm(100, 20, [50, 60]), arm(100, 21, [50, 60]));
+    expect(flat.significance).toBe('not_significant');
+    expect(flat.completenessSignificance).toBe('insufficient_data');
+  });
+
+  it('calls conversion on its own and reports completeness separately', () => {
+    const scores = (base: number) => Array.from({ length: 40 }, (_, index) => base + (index % 5));
+    const comparison = compareToControl(
+      { uses: 100, submitted: 20, completenessScores: scores(50) },
+      { uses: 100, submitted: 21, completenessScores: scores(80) },
+    );
+    expect(comparison.completenessPValue).toBeLessThan(0.001);
+    expect(comparison.completenessSignificance).toBe('significant');
+    expect(comparison.significance).toBe('not_significant');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FUNNEL_STEP_RANK_SQL,
+  resolveIntakeTemplateSlug,
+  summarizeIntakeFunnel,
+  type IntakeFunnelConversation,
+} from '../../../../worker/utils/intakeFunnel';
+
+const conversation = (
+  furthestStep: number,
+  caseTurns = 0,
+  lastPendingField: string | null = null,
+): IntakeFunnelConversation => ({ furthestStep, caseTurns, lastPendingField });
+
+describe('summarizeIntakeFunnel', () => {
+  it('counts each conversation toward every step up to the furthest it reached', () => {
+    const summary = summarizeIntakeFunnel([
+      conversation(1),
+      conversation(2),
+      conversation(3, 2, 'opposing_party'),
+      conversation(3, 4, 'opposing_party'),
+      conversation(3, 1, 'court_date'),
+      conversation(4, 5),
+      conversation(4, 7),
+      conversation(4, 6),
+    ]);
+
+    expect(summary.uses).toBe(8);
+    expect(summary.submitted).toBe(3);
+    expect(summary.steps).toEqual([
+      { step: 'disclaimer', reached: 8, dropOff: 1 },
+      { step: 'contact', reached: 7, dropOff: 1 },
+      { step: 'case', reached: 6, dropOff: 3 },
+      { step: 'submit', reached: 3, dropOff: 0 },
+    ]);
+    expect(summary.conversionPercent).toBe(37.5);
+    expect(summary.medianTurnsToSubmit).toBe(6);
+    expect(summary.mostAbandonedField).toEqual({ key: 'opposing_party', count: 2 });
+  });
+
+  it('averages the middle pair for an even number of submissions', () => {
+    const summary = summarizeIntakeFunnel([conversation(4, 3), conversation(4, 6)]);
+    expect(summary.medianTurnsToSubmit).toBe(4.5);
+    expect(summary.conversionPercent).toBe(100);
+  });
+
+  it('ignores off-funnel conversations and reports nulls when there are no uses', () => {
+    const summary = summarizeIntakeFunnel([conversation(0, 0, 'description')]);
+    expect(summary.uses).toBe(0);
+    expect(summary.conversionPercent).toBeNull();
+    expect(summary.medianTurnsToSubmit).toBeNull();
+    expect(summary.mostAbandonedField).toBeNull();
+    expect(summary.steps.every((step) => step.reached === 0)).toBe(true);
+  });
+});
+
+describe('resolveIntakeTemplateSlug', () => {
+  it('reads the stored template slug and falls back to the default template', () => {
+    expect(resolveIntakeTemplateSlug({ intakeTemplate: { slug: 'divorce', fields: [] } })).toBe('divorce');
+    expect(resolveIntakeTemplateSlug({ intakeTemplate: null })).toBe('default');
+    expect(resolveIntakeTemplateSlug({ intakeTemplate: { slug: '  ' } })).toBe('default');
+    expect(resolveIntakeTemplateSlug(null)).toBe('default');
+  });
+});
+
+describe('FUNNEL_STEP_RANK_SQL', () => {
+  it('ranks the steps in funnel order', () => {
+    expect(FUNNEL_STEP_RANK_SQL).toBe(
+      "CASE funnel_step WHEN 'disclaimer' THEN 1 WHEN 'contact' THEN 2 WHEN 'case' THEN 3 WHEN 'submit' THEN 4 ELSE 0 END"
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CLIENT_MESSAGE_EDIT_WINDOW_MS,
+  STAFF_MESSAGE_EDIT_WINDOW_MS,
+  evaluateMessageMutation,
+  resolveMessageHistoryAccess,
+} from '../../../../worker/utils/messageMutationPolicy.js';
+
+const SENT_AT = '2026-10-19T12:00:00.000Z';
+const sentAtMs = Date.parse(SENT_AT);
+
+const userMessage = (overrides: Partial<{ role: string; user_id: string | null; deleted_at: string | null }> = {}) => ({
+  role: 'user',
+  user_id: 'user-1',
+  server_ts: SENT_AT,
+  deleted_at: null,
+  ...overrides,
+});
+
+describe('evaluateMessageMutation', () => {
+  it('allows the author to edit inside the client window', () => {
+    const decision = evaluateMessageMutation({
+      action: 'edit',
+      message: userMessage(),
+      actor: { userId: 'user-1' },
+      now: sentAtMs + CLIENT_MESSAGE_EDIT_WINDOW_MS - 1,
+    });
+    expect(decision).toEqual({ kind: 'allowed' });
+  });
+
+  it('rejects client edits after the window', () => {
+    const decision = evaluateMessageMutation({
+      action: 'edit',
+      message: userMessage(),
+      actor: { userId: 'user-1' },
+      now: sentAtMs + CLIENT_MESSAGE_EDIT_WINDOW_MS + 1,
+    });
+    expect(decision).toMatchObject({ kind: 'denied', code: 'edit_window_expired' });
+  });
+
+  it('gives staff authors the longer window', () => {
+    const decision = evaluateMessageMutation({
+      action: 'edit',
+      message: userMessage(),
+      actor: { userId: 'user-1', memberRole: 'paralegal' },
+      now: sentAtMs + CLIENT_MESSAGE_EDIT_WINDOW_MS + 60_000,
+    });
+    expect(decision).toEqual({ kind: 'allowed' });
+
+    const expired = evaluateMessageMutation({
+      action: 'edit',
+      message: userMessage(),
+      actor: { userId: 'user-1', memberRole: 'paralegal' },
+      now: sentAtMs + STAFF_MESSAGE_EDIT_WINDOW_MS + 1,
+    });
+    expect(expired).toMatchObject({ kind: 'denied', code: 'edit_window_expired' });
+  });
+
+  it('never lets non-authors edit, even owners', () => {
+    const decision = evaluateMessageMutation({
+      action: 'edit',
+      message: userMessage(),
+      actor: { userId: 'owner-1', memberRole: 'owner' },
+      now: sentAtMs,
+    });
+    expect(decision).toMatchObject({ kind: 'denied', code: 'not_author' });
+  });
+
+  it('lets owners and admins delete any user message at any time', () => {
+    for (const memberRole of ['owner', 'admin']) {
+      const decision = evaluateMessageMutation({
+        action: 'delete',
+        message: userMessage(),
+        actor: { userId: 'moderator', memberRole },
+        now: sentAtMs + STAFF_MESSAGE_EDIT_WINDOW_MS * 10,
+      });
+      expect(decision).toEqual({ kind: 'allowed' });
+    }
+
+    const attorney = evaluateMessageMutation({
+      action: 'delete',
+      message: userMessage(),
+      actor: { userId: 'attorney-1', memberRole: 'attorney' },
+      now: sentAtMs,
+    });
+    expect(attorney).toMatchObject({ kind: 'denied', code: 'not_author' });
+  });
+
+  it('keeps system and assistant messages immutable', () => {
+    for (const role of ['system', 'assistant']) {
+      const decision = evaluateMessageMutation({
+        action: 'delete',
+        message: userMessage({ role, user_id: null }),
+        actor: { userId: 'owner-1', memberRole: 'owner' },
+        now: sentAtMs,
+      });
+      expect(decision).toMatchObject({ kind: 'denied', code: 'message_immutable' });
+    }
+  });
+
+  it('rejects changes to a deleted message', () => {
+    const decision = evaluateMessageMutation({
+      action: 'edit',
+      message: userMessage({ deleted_at: SENT_AT }),
+      actor: { userId: 'user-1' },
+      now: sentAtMs,
+    });
+    expect(decision).toMatchObject({ kind: 'denied', code: 'message_deleted' });
+  });
+});
+
+describe('resolveMessageHistoryAccess', () => {
+  it('gives staff the full history and the author their own', () => {
+    expect(resolveMessageHistoryAccess(userMessage(), { userId: 'para-1', memberRole: 'paralegal' })).toBe('full');
+    expect(resolveMessageHistoryAccess(userMessage(), { userId: 'user-1' })).toBe('author');
+  });
+
+  it('refuses other participants and anonymous visitors', () => {
+    expect(resolveMessageHistoryAccess(userMessage(), { userId: 'anon-2' })).toBe('denied');
+    expect(resolveMessageHistoryAccess(userMessage(), { userId: 'client-2', memberRole: 'client' })).toBe('denied');
+    expect(resolveMessageHistoryAccess(userMessage({ user_id: null }), { userId: '' })).toBe('denied');
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import {
+  currencyMinorUnitDigits,
+  formatMinorUnits,
+  minorToMajorUnits,
+  normalizeCurrencyCode,
+} from '../../../../worker/utils/money';
+
+describe('normalizeCurrencyCode', () => {
+  it('upper-cases ISO codes and defaults missing or malformed values to USD', () => {
+    expect(normalizeCurrencyCode('cad')).toBe('CAD');
+    expect(normalizeCurrencyCode(' gbp ')).toBe('GBP');
+    expect(normalizeCurrencyCode(null)).toBe('USD');
+    expect(normalizeCurrencyCode('dollars')).toBe('USD');
+  });
+});
+
+describe('minor units', () => {
+  it('uses each currency\'s minor-unit digits', () => {
+    expect(currencyMinorUnitDigits('USD')).toBe(2);
+    expect(currencyMinorUnitDigits('JPY')).toBe(0);
+    expect(currencyMinorUnitDigits('KWD')).toBe(3);
+  });
+
+  it('converts and formats minor units', () => {
+    expect(minorToMajorUnits(12345, 'GBP')).toBe(123.45);
+    expect(formatMinorUnits(12345, 'CAD')).toBe('123.45');
+    expect(formatMinorUnits(12345, 'JPY')).toBe('12345');
+    expect(formatMinorUnits(12345, 'KWD')).toBe('12.345');
+  });
+});
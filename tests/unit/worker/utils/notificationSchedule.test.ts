@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseQuietHours,
+  resolveNotificationHold,
+} from '../../../../worker/utils/notificationSchedule';
+import type { NotificationQueueMessage, NotificationRecipientSnapshot } from '../../../../worker/types';
+
+const message = (overrides: Partial<NotificationQueueMessage> = {}): NotificationQueueMessage => ({
+  eventId: 'evt-1',
+  practiceId: 'practice-1',
+  category: 'intake',
+  title: 'New intake',
+  recipients: [],
+  ...overrides,
+});
+
+const recipient = (
+  preferences: NotificationRecipientSnapshot['preferences'],
+): NotificationRecipientSnapshot => ({ userId: 'user-1', email: 'a@example.com', preferences });
+
+const overnight = { quietHours: { start: '22:00', end: '07:00' }, timeZone: 'America/New_York' };
+
+describe('parseQuietHours', () => {
+  it('requires the toggle and two distinct HH:MM times', () => {
+    expect(parseQuietHours({ quiet_hours_enabled: true, quiet_hours_start: '22:00', quiet_hours_end: '07:00' }))
+      .toEqual({ start: '22:00', end: '07:00' });
+    expect(parseQuietHours({ quiet_hours_enabled: false, quiet_hours_start: '22:00', quiet_hours_end: '07:00' })).toBeNull();
+    expect(parseQuietHours({ quiet_hours_enabled: true, quiet_hours_start: '7:00', quiet_hours_end: '22:00' })).toBeNull();
+    expect(parseQuietHours({ quiet_hours_enabled: true, quiet_hours_start: '22:00', quiet_hours_end: '22:00' })).toBeNull();
+  });
+});
+
+describe('resolveNotificationHold', () => {
+  it('holds until quiet hours end in the recipient timezone', () => {
+    // 02:00 in New York (EDT, UTC-4).
+    const hold = resolveNotificationHold(recipient(overnight), message(), new Date('2026-10-20T06:00:00Z'));
+    expect(hold).toEqual({ reason: 'quiet_hours', releaseAt: new Date('2026-10-20T11:00:00Z') });
+  });
+
+  it('holds in the evening part of an overnight window', () => {
+    // 23:30 in New York.
+    const hold = resolveNotificationHold(recipient(overnight), message(), new Date('2026-10-21T03:30:00Z'));
+    expect(hold?.releaseAt).toEqual(new Date('2026-10-21T11:00:00Z'));
+  });
+
+  it('lets notifications through outside quiet hours', () => {
+    // 12:00 in New York.
+    expect(resolveNotificationHold(recipient(overnight), message(), new Date('2026-10-20T16:00:00Z'))).toBeNull();
+  });
+
+  it('lets emergency intakes break through quiet hours and digests', () => {
+    const emergency = message({ metadata: { urgency: 'emergency' } });
+    const now = new Date('2026-10-20T06:00:00Z');
+    expect(resolveNotificationHold(recipient(overnight), emergency, now)).toBeNull();
+    expect(resolveNotificationHold(recipient({ ...overnight, digest: 'daily' }), emergency, now)).toBeNull();
+    expect(resolveNotificationHold(recipient(overnight), message({ metadata: { urgency: 'routine' } }), now))
+      .not.toBeNull();
+  });
+
+  it('never holds a released summary', () => {
+    const summary = message({ heldSummary: { reason: 'quiet_hours', count: 3 } });
+    expect(resolveNotificationHold(recipient(overnight), summary, new Date('2026-10-20T06:00:00Z'))).toBeNull();
+  });
+
+  it('sends daily digests when quiet hours end, or at 08:00 without quiet hours', () => {
+    const now = new Date('2026-10-20T16:00:00Z'); // Tuesday noon in New York
+    expect(resolveNotificationHold(recipient({ ...overnight, digest: 'daily' }), message(), now))
+      .toEqual({ reason: 'digest', releaseAt: new Date('2026-10-21T11:00:00Z') });
+    expect(resolveNotificationHold(recipient({ timeZone: 'America/New_York', digest: 'daily' }), message(), now))
+      .toEqual({ reason: 'digest', releaseAt: new Date('2026-10-21T12:00:00Z') });
+  });
+
+  it('sends weekly digests on Monday across the DST change', () => {
+    // Tuesday 2026-10-27; the next Monday (Nov 2) is after DST ends (EST, UTC-5).
+    const hold = resolveNotificationHold(
+      recipient({ timeZone: 'America/New_York', digest: 'weekly' }),
+      message(),
+      new Date('2026-10-27T16:00:00Z'),
+    );
+    expect(hold).toEqual({ reason: 'digest', releaseAt: new Date('2026-11-02T13:00:00Z') });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PDF_LOCALE_PROFILES,
+  fontFacesForTexts,
+  paragraphDirection,
+  resolvePdfLocale,
+  splitFontRuns,
+  toWinAnsi,
+  visualRuns,
+  wrapPdfText,
+  type PdfLocale,
+} from '../../../../worker/utils/pdfText';
+
+// One key fact per locale under src/locales.
+const SAMPLES: Record<PdfLocale, string> = {
+  en: 'The landlord kept my security deposit after I moved out.',
+  pt: 'O senhorio ficou com o meu depósito depois da mudança.',
+  ar: 'احتفظ المالك بمبلغ التأمين بعد أن غادرت الشقة.',
+  es: 'El propietario se quedó con mi depósito después de mudarme.',
+  ja: '引っ越した後、大家さんが敷金を返してくれません。',
+  zh: '我搬走后，房东没有退还我的押金。',
+  vi: 'Chủ nhà giữ tiền đặt cọc của tôi sau khi tôi chuyển đi.',
+  de: 'Der Vermieter hat meine Kaution nach dem Auszug behalten.',
+  fr: 'Le propriétaire a gardé ma caution après mon départ.',
+  hi: 'मकान मालिक ने मेरे जाने के बाद मेरी जमा राशि रख ली।',
+  uk: 'Орендодавець залишив мою заставу після мого виїзду.',
+  id: 'Pemilik rumah menahan uang jaminan saya setelah saya pindah.',
+  th: 'เจ้าของบ้านไม่คืนเงินประกันหลังจากที่ฉันย้ายออก',
+  ko: '이사한 후 집주인이 보증금을 돌려주지 않습니다.',
+  pl: 'Właściciel zatrzymał moją kaucję po wyprowadzce.',
+  it: 'Il proprietario ha trattenuto il mio deposito dopo il trasloco.',
+  ru: 'Арендодатель удержал мой залог после моего выезда.',
+  tr: 'Ev sahibi taşındıktan sonra depozitomu iade etmedi.',
+  nl: 'De verhuurder hield mijn borg in na mijn verhuizing.',
+};
+
+// Wide glyphs count double, combining marks count zero — close enough to real advances.
+const measure = (text: string): number =>
+  Array.from(text).reduce((width, char) => {
+    if (/\p{M}/u.test(char)) return width;
+    return width + (/[ᄀ-ᇿ　-鿿가-힯＀-￯]/u.test(char) ? 2 : 1);
+  }, 0);
+
+const withoutSpaces = (text: string) => text.replace(/\s+/g, '');
+
+describe('pdfText per locale', () => {
+  it('has a sample for every locale profile', () => {
+    expect(Object.keys(SAMPLES).sort()).toEqual(Object.keys(PDF_LOCALE_PROFILES).sort());
+  });
+
+  for (const locale of Object.keys(PDF_LOCALE_PROFILES) as PdfLocale[]) {
+    const sample = SAMPLES[locale];
+    const profile = PDF_LOCALE_PROFILES[locale];
+
+    it(`${locale}: embeds the locale face and lays out ${profile.direction}`, () => {
+      expect(resolvePdfLocale(locale)).toBe(locale);
+      expect(resolvePdfLocale(`${locale}-XX`)).toBe(locale);
+      expect(fontFacesForTexts([sample], locale).has(profile.face)).toBe(true);
+      expect(splitFontRuns(sample, locale).map((run) => run.face)).toContain(profile.face);
+      expect(paragraphDirection(sample)).toBe(profile.direction);
+    });
+
+    it(`${locale}: wraps within the width without losing text or splitting graphemes`, () => {
+      const lines = wrapPdfText(sample, 16, measure, locale);
+      expect(lines.length).toBeGreaterThan(1);
+      for (const line of lines) {
+        expect(measure(line)).toBeLessThanOrEqual(16);
+        expect(line).not.toMatch(/^\s|^\p{M}/u);
+        expect(line).not.toMatch(/^[、。，．！？）」]/u);
+      }
+      expect(withoutSpaces(lines.join(''))).toBe(withoutSpaces(sample));
+    });
+  }
+});
+
+describe('wrapPdfText', () => {
+  it('breaks Thai between dictionary words, not inside them', () => {
+    const words = Array.from(new Intl.Segmenter('th', { granularity: 'word' }).segment(SAMPLES.th), (s) => s.segment);
+    const boundaries = new Set<number>();
+    words.reduce((offset, word) => {
+      boundaries.add(offset + word.length);
+      return offset + word.length;
+    }, 0);
+    let offset = 0;
+    for (const line of wrapPdfText(SAMPLES.th, 12, measure, 'th')) {
+      offset += line.length;
+      expect(boundaries.has(offset)).toBe(true);
+    }
+  });
+
+  it('keeps English on word boundaries and honours hard line breaks', () => {
+    expect(wrapPdfText('Landlord kept the deposit\nSecond line', 14, measure, 'en')).toEqual([
+      'Landlord kept',
+      'the deposit',
+      'Second line',
+    ]);
+  });
+
+  it('breaks a word longer than the line between graphemes', () => {
+    expect(wrapPdfText('abcdefghij', 4, measure, 'en')).toEqual(['abcd', 'efgh', 'ij']);
+  });
+});
+
+describe('visualRuns', () => {
+  it('orders an Arabic paragraph right-to-left and keeps numbers left-to-right', () => {
+    expect(visualRuns('عمري 25 سنة', 'ar')).toEqual([
+      { text: ' سنة', face: 'arabic', rtl: true },
+      { text: '25', face: 'arabic', rtl: false },
+      { text: 'عمري ', face: 'arabic', rtl: true },
+    ]);
+  });
+
+  it('keeps an embedded Arabic name inside a left-to-right label', () => {
+    expect(visualRuns('Client: أحمد علي', 'en')).toEqual([
+      { text: 'Client: ', face: 'sans', rtl: false },
+      { text: 'أحمد علي', face: 'arabic', rtl: true },
+    ]);
+  });
+
+  it('pre-reverses Arabic-Indic digits that fontkit would otherwise reverse', () => {
+    const runs = visualRuns('المبلغ ٢٥٠ دولار', 'ar');
+    expect(runs.find((run) => !run.rtl)?.text).toBe('٠٥٢');
+  });
+
+  it('picks the Han font from the locale', () => {
+    expect(splitFontRuns('東京', 'ja')[0].face).toBe('jp');
+    expect(splitFontRuns('東京', 'zh')[0].face).toBe('sc');
+    expect(splitFontRuns('東京', 'en')[0].face).toBe('sc');
+  });
+});
+
+describe('toWinAnsi', () => {
+  it('keeps what Helvetica can encode and replaces the rest', () => {
+    expect(toWinAnsi('Café – “ok” 日本')).toBe('Café – “ok” ??');
+  });
+});
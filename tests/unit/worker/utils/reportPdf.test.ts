@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { toReportPdf } from '../../../../worker/utils/reportPdf';
+import type { CsvColumn } from '../../../../worker/utils/csv';
+
+const columns: CsvColumn<Record<string, unknown>>[] = [
+  { key: 'matter', header: 'Matter' },
+  { key: 'revenueCents', header: 'Revenue (USD)', type: 'currency', total: true, format: (v) => (Number(v) / 100).toFixed(2) },
+];
+
+const decode = (bytes: Uint8Array): string => Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+
+describe('toReportPdf', () => {
+  it('produces a PDF with a valid xref table', () => {
+    const pdf = decode(toReportPdf([{ matter: 'Estate (Smith)', revenueCents: 123456 }], columns, {
+      title: 'Matter Profitability',
+      practiceName: 'Acme Law',
+      brandColor: '#1e40af',
+      generatedAt: new Date('2026-10-19T12:00:00Z'),
+    }));
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const startxref = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+    // Every xref entry points at the matching "n 0 obj" header.
+    const entries: string[] = pdf.slice(startxref).match(/^\d{10} 00000 n $/gm) ?? [];
+    entries.forEach((entry, i) => {
+      const offset = Number(entry.slice(0, 10));
+      expect(pdf.slice(offset, offset + `${i + 1} 0 obj`.length)).toBe(`${i + 1} 0 obj`);
+    });
+  });
+
+  it('renders branding, escaped text, formatted amounts and a totals row', () => {
+    const pdf = decode(toReportPdf(
+      [
+        { matter: 'Estate (Smith)', revenueCents: 123456 },
+        { matter: 'Lease review', revenueCents: 50 },
+      ],
+      columns,
+      { title: 'Matter Profitability', practiceName: 'Acme Law', brandColor: '#1e40af' }
+    ));
+    expect(pdf).toContain('(Acme Law) Tj');
+    expect(pdf).toContain('(Matter Profitability) Tj');
+    expect(pdf).toContain('(Estate \\(Smith\\)) Tj');
+    expect(pdf).toContain('(1,234.56) Tj');
+    expect(pdf).toContain('(Total) Tj');
+    expect(pdf).toContain('(1,235.06) Tj');
+    // Brand colour #1e40af used for the header band.
+    expect(pdf).toContain('0.12 0.25 0.69 rg');
+  });
+
+  it('paginates long reports and repeats the page footer', () => {
+    const rows = Array.from({ length: 80 }, (_, i) => ({ matter: `Matter ${i + 1}`, revenueCents: 100 }));
+    const pdf = decode(toReportPdf(rows, columns, { title: 'Matter Profitability' }));
+    const pageCount = Number(/\/Count (\d+)/.exec(pdf)?.[1]);
+    expect(pageCount).toBeGreaterThan(1);
+    expect(pdf).toContain(`(Page ${pageCount} of ${pageCount}) Tj`);
+    expect(pdf).toContain('(Matter 80) Tj');
+  });
+
+  it('maps non-WinAnsi characters to ? instead of corrupting the stream', () => {
+    const pdf = decode(toReportPdf([{ matter: 'Café — 東京', revenueCents: 0 }], columns, { title: 'Report' }));
+    expect(pdf).toContain('(Café \u0097 ??) Tj');
+  });
+});
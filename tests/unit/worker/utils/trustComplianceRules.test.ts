@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_TRUST_COMPLIANCE_PREFERENCES,
+  evaluateLedgerRules,
+  evaluateStagedActionRules,
+} from '../../../../worker/utils/trustComplianceRules';
+
+const allOn = {
+  ...DEFAULT_TRUST_COMPLIANCE_PREFERENCES,
+  dualApprovalEnabled: true,
+  lockOnZeroEnabled: true,
+};
+
+const outcomes = (results: Array<{ rule: string; outcome: string }>) =>
+  Object.fromEntries(results.map((result) => [result.rule, result.outcome]));
+
+describe('evaluateLedgerRules', () => {
+  it('requests replenishment and alerts once when the balance drops below the threshold', () => {
+    const results = evaluateLedgerRules(allOn, { balanceBeforeCents: 150_000, balanceAfterCents: 40_000 });
+    expect(outcomes(results)).toEqual({
+      auto_replenish: 'triggered',
+      threshold_alert: 'triggered',
+      lock_on_zero: 'passed',
+    });
+    expect(results[0].detail).toMatchObject({ shortfallCents: 60_000 });
+    expect(results[1].detail).toMatchObject({ direction: 'down' });
+
+    expect(outcomes(evaluateLedgerRules(allOn, { balanceBeforeCents: 40_000, balanceAfterCents: 30_000 }))).toMatchObject({
+      auto_replenish: 'passed',
+      threshold_alert: 'passed',
+    });
+  });
+
+  it('alerts when the balance recovers above the threshold', () => {
+    const results = evaluateLedgerRules(allOn, { balanceBeforeCents: 30_000, balanceAfterCents: 100_000 });
+    expect(outcomes(results)).toMatchObject({ auto_replenish: 'passed', threshold_alert: 'triggered' });
+    expect(results[1].detail).toMatchObject({ direction: 'up' });
+  });
+
+  it('locks at zero and reports the transition', () => {
+    const locked = evaluateLedgerRules(allOn, { balanceBeforeCents: 20_000, balanceAfterCents: 0 });
+    expect(locked[2]).toMatchObject({ outcome: 'triggered', detail: { locked: true, newlyLocked: true } });
+
+    const stillLocked = evaluateLedgerRules(allOn, { balanceBeforeCents: 0, balanceAfterCents: -500 });
+    expect(stillLocked[2].detail).toMatchObject({ newlyLocked: false });
+
+    const unlocked = evaluateLedgerRules(allOn, { balanceBeforeCents: 0, balanceAfterCents: 5_000 });
+    expect(unlocked[2]).toMatchObject({ outcome: 'passed', detail: { locked: false, unlocked: true } });
+  });
+
+  it('still reports disabled rules so the log is complete', () => {
+    const results = evaluateLedgerRules(
+      { ...allOn, autoReplenishEnabled: false, alertEnabled: false, lockOnZeroEnabled: false },
+      { balanceBeforeCents: 150_000, balanceAfterCents: 0 },
+    );
+    expect(outcomes(results)).toEqual({
+      auto_replenish: 'disabled',
+      threshold_alert: 'disabled',
+      lock_on_zero: 'disabled',
+    });
+  });
+});
+
+describe('evaluateStagedActionRules', () => {
+  const withdrawal = (amountCents: number | null) => ({
+    matterId: 'matter-1',
+    trustTransaction: { type: 'withdrawal', amountCents },
+  });
+
+  it('needs two approvers for withdrawals strictly over the threshold', () => {
+    const large = evaluateStagedActionRules(allOn, withdrawal(500_001), 900_000);
+    expect(large.approvals).toBe(2);
+    expect(outcomes(large.results)).toEqual({ dual_approval: 'triggered', lock_on_zero: 'passed' });
+
+    const atThreshold = evaluateStagedActionRules(allOn, withdrawal(500_000), 900_000);
+    expect(atThreshold.approvals).toBeNull();
+    expect(outcomes(atThreshold.results)).toMatchObject({ dual_approval: 'passed' });
+
+    expect(evaluateStagedActionRules(DEFAULT_TRUST_COMPLIANCE_PREFERENCES, withdrawal(900_000), 900_000).approvals).toBeNull();
+  });
+
+  it('needs two approvers for a withdrawal whose amount cannot be read', () => {
+    const unknown = evaluateStagedActionRules(allOn, withdrawal(null), 900_000);
+    expect(unknown.approvals).toBe(2);
+    expect(unknown.results[0]).toMatchObject({
+      rule: 'dual_approval',
+      outcome: 'triggered',
+      detail: { reason: 'amount_unknown' },
+    });
+  });
+
+  it('blocks actions on a matter at zero but lets deposits through', () => {
+    const update = evaluateStagedActionRules(allOn, { matterId: 'matter-1', trustTransaction: null }, 0);
+    expect(update.blockedReason).toMatch(/locked/);
+    expect(outcomes(update.results)).toEqual({ lock_on_zero: 'blocked' });
+
+    const deposit = evaluateStagedActionRules(
+      allOn,
+      { matterId: 'matter-1', trustTransaction: { type: 'deposit', amountCents: 100_000 } },
+      0,
+    );
+    expect(deposit.blockedReason).toBeNull();
+    expect(outcomes(deposit.results)).toEqual({ lock_on_zero: 'passed' });
+  });
+
+  it('does not block when the balance is unknown or the rule is off', () => {
+    expect(evaluateStagedActionRules(allOn, { matterId: 'matter-1', trustTransaction: null }, null).blockedReason).toBeNull();
+    expect(evaluateStagedActionRules(
+      DEFAULT_TRUST_COMPLIANCE_PREFERENCES,
+      { matterId: 'matter-1', trustTransaction: null },
+      0,
+    ).results).toEqual([expect.objectContaining({ rule: 'lock_on_zero', outcome: 'disabled' })]);
+  });
+
+  it('evaluates nothing for actions outside trust and matters', () => {
+    expect(evaluateStagedActionRules(allOn, { matterId: null, trustTransaction: null }, null)).toEqual({
+      results: [],
+      approvals: null,
+      blockedReason: null,
+    });
+  });
+});
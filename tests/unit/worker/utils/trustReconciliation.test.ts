@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import {
+  autoMatchBankLines,
+  buildThreeWayReconciliation,
+  monthBounds,
+  previousMonth,
+  type ReconciliationLedgerEntry,
+} from '../../../../worker/utils/trustReconciliation';
+import type { BankStatementLine } from '../../../../worker/types/wire/trustReconciliation';
+
+const entry = (
+  id: string,
+  occurredAt: string,
+  amountCents: number,
+  extra: Partial<ReconciliationLedgerEntry> = {},
+): ReconciliationLedgerEntry => ({
+  id,
+  occurredAt: `${occurredAt}T12:00:00.000Z`,
+  amountCents,
+  type: amountCents > 0 ? 'deposit' : 'withdrawal',
+  description: null,
+  clientId: 'client-1',
+  clientName: 'Smith',
+  balanceAfterCents: null,
+  ...extra,
+});
+
+const line = (id: string, postedAt: string, amountCents: number, extra: Partial<BankStatementLine> = {}): BankStatementLine => ({
+  id,
+  statementId: 'stmt-1',
+  postedAt,
+  amountCents,
+  description: null,
+  reference: null,
+  matchStatus: 'unmatched',
+  matchedTransactionId: null,
+  matchedBy: null,
+  matchedAt: null,
+  ...extra,
+});
+
+describe('autoMatchBankLines', () => {
+  it('matches on amount within the date window, closest date first', () => {
+    const matches = autoMatchBankLines(
+      [line('l1', '2026-09-05', 50_000), line('l2', '2026-09-20', 50_000)],
+      [entry('t1', '2026-09-04', 50_000), entry('t2', '2026-09-19', 50_000), entry('t3', '2026-09-05', 49_999)],
+    );
+    expect(matches.map((match) => [match.lineId, match.transactionId])).toEqual([
+      ['l1', 't1'],
+      ['l2', 't2'],
+    ]);
+  });
+
+  it('prefers a shared reference and lets a check clear weeks later', () => {
+    const matches = autoMatchBankLines(
+      [line('l1', '2026-09-30', -40_050, { reference: '1042', description: 'CHECK 1042' })],
+      [
+        entry('t1', '2026-09-29', -40_050, { description: 'Check 1051 to Acme' }),
+        entry('t2', '2026-09-02', -40_050, { description: 'Check #1042 to Jones' }),
+      ],
+    );
+    expect(matches).toEqual([{ lineId: 'l1', transactionId: 't2', referenceMatched: true, dayGap: 28 }]);
+  });
+
+  it('leaves lines without a candidate unmatched and uses each transaction once', () => {
+    const matches = autoMatchBankLines(
+      [line('l1', '2026-09-05', 10_000), line('l2', '2026-09-05', 10_000), line('l3', '2026-09-05', -1_200)],
+      [entry('t1', '2026-09-20', -1_200), entry('t2', '2026-09-05', 10_000)],
+    );
+    expect(matches.map((match) => [match.lineId, match.transactionId])).toEqual([['l1', 't2']]);
+  });
+});
+
+describe('buildThreeWayReconciliation', () => {
+  const transactions = [
+    entry('t1', '2026-08-20', 300_000, { balanceAfterCents: 300_000 }),
+    entry('t2', '2026-09-10', 200_000, { clientId: 'client-2', clientName: 'Jones', balanceAfterCents: 500_000 }),
+    entry('t3', '2026-09-28', -50_000, { balanceAfterCents: 450_000 }),
+    entry('t4', '2026-09-30', 25_000, { clientId: 'client-2', clientName: 'Jones', balanceAfterCents: 475_000 }),
+    entry('t5', '2026-10-02', 99_000, { balanceAfterCents: 574_000 }),
+  ];
+
+  it('balances when the adjusted bank, book and client ledgers agree', () => {
+    const report = buildThreeWayReconciliation({
+      month: '2026-09',
+      currency: 'USD',
+      statement: { id: 'stmt-1', closingBalanceCents: 500_000 },
+      reconcileFrom: '2026-09-01',
+      transactions,
+      lines: [
+        line('l1', '2026-09-11', 200_000, { matchStatus: 'auto', matchedTransactionId: 't2' }),
+      ],
+      generatedAt: new Date('2026-10-01T09:00:00.000Z'),
+    });
+    expect(report).toMatchObject({
+      periodStart: '2026-09-01',
+      periodEnd: '2026-09-30',
+      bankBalanceCents: 500_000,
+      depositsInTransitCents: 25_000,
+      outstandingWithdrawalsCents: 50_000,
+      adjustedBankBalanceCents: 475_000,
+      bookBalanceCents: 475_000,
+      clientLedgerTotalCents: 475_000,
+      balanced: true,
+    });
+    // t1 predates the first statement, so it can't be outstanding; t5 is next month.
+    expect(report.outstandingTransactions.map((transaction) => transaction.id)).toEqual(['t3', 't4']);
+    expect(report.outstandingTransactions[0]).not.toHaveProperty('balanceAfterCents');
+    expect(report.clientBalances).toEqual([
+      { clientId: 'client-2', clientName: 'Jones', balanceCents: 225_000 },
+      { clientId: 'client-1', clientName: 'Smith', balanceCents: 250_000 },
+    ]);
+  });
+
+  it('is out of balance with unexplained bank lines or no statement', () => {
+    const withFee = buildThreeWayReconciliation({
+      month: '2026-09',
+      currency: 'USD',
+      statement: { id: 'stmt-1', closingBalanceCents: 498_800 },
+      reconcileFrom: '2026-09-01',
+      transactions,
+      lines: [
+        line('l1', '2026-09-11', 200_000, { matchStatus: 'manual', matchedTransactionId: 't2' }),
+        line('l2', '2026-09-30', -1_200, { description: 'Service fee' }),
+      ],
+    });
+    expect(withFee.balanced).toBe(false);
+    expect(withFee.unmatchedBankLines.map((bankLine) => bankLine.id)).toEqual(['l2']);
+
+    const noStatement = buildThreeWayReconciliation({
+      month: '2026-09',
+      currency: 'USD',
+      statement: null,
+      reconcileFrom: '2026-09-01',
+      transactions,
+      lines: [],
+    });
+    expect(noStatement).toMatchObject({ bankBalanceCents: null, adjustedBankBalanceCents: null, balanced: false });
+  });
+});
+
+describe('month helpers', () => {
+  it('resolves month bounds and the previous month across a year end', () => {
+    expect(monthBounds('2028-02')).toEqual({ periodStart: '2028-02-01', periodEnd: '2028-02-29' });
+    expect(previousMonth(new Date('2027-01-01T09:00:00.000Z'))).toBe('2026-12');
+  });
+});
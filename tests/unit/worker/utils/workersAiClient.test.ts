@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createWorkersAiClient, isAiBudgetExhausted } from '../../../../worker/utils/workersAiClient';
+import type { AiBudgetStatus } from '../../../../worker/types/wire/aiUsage';
+import type { AiUsageMeter } from '../../../../worker/utils/aiUsage';
+
+const env = { CLOUDFLARE_ACCOUNT_ID: 'acct', CF_AIG_TOKEN: 'token', AI_GATEWAY_SLUG: undefined };
+
+const meterAt = (status: AiBudgetStatus, fallbackModel = '@cf/cheap/model') => ({
+  resolveModel: vi.fn<AiUsageMeter['resolveModel']>(async (requested) => (status === 'ok'
+    ? { model: requested, status, fallback: false }
+    : { model: fallbackModel, status, fallback: true })),
+  record: vi.fn<AiUsageMeter['record']>(async () => undefined),
+});
+
+const okFetcher = (body: unknown) => vi.fn<typeof fetch>(async () => new Response(JSON.stringify(body), { status: 200 }));
+
+const sentBody = (fetcher: ReturnType<typeof okFetcher>) =>
+  JSON.parse(String(fetcher.mock.calls[0]?.[1]?.body)) as Record<string, unknown>;
+
+describe('createWorkersAiClient metering', () => {
+  it('records the usage a non-streaming response reports', async () => {
+    const meter = meterAt('ok');
+    const fetcher = okFetcher({
+      choices: [{ message: { content: 'Hello' } }],
+      usage: { prompt_tokens: 80, completion_tokens: 5 },
+    });
+    const client = createWorkersAiClient(env, { fetcher, meter });
+
+    await client.requestChatCompletions({ model: '@cf/big/model', messages: [] });
+
+    expect(sentBody(fetcher).model).toBe('@cf/big/model');
+    expect(meter.record).toHaveBeenCalledWith(
+      { model: '@cf/big/model', status: 'ok', fallback: false },
+      { inputTokens: 80, outputTokens: 5 },
+      false,
+    );
+  });
+
+  it('sends to the fallback model past the soft limit and estimates missing usage', async () => {
+    const meter = meterAt('soft_limit');
+    const fetcher = okFetcher({ choices: [{ message: { content: 'abcdefgh' } }] });
+    const client = createWorkersAiClient(env, { fetcher, meter });
+
+    await client.requestChatCompletions({ model: '@cf/big/model', messages: [] });
+
+    expect(sentBody(fetcher).model).toBe('@cf/cheap/model');
+    expect(meter.record).toHaveBeenCalledWith(
+      { model: '@cf/cheap/model', status: 'soft_limit', fallback: true },
+      { inputTokens: 1, outputTokens: 2 },
+      true,
+    );
+  });
+
+  it('keeps a payload on its model when the fallback speaks another API', async () => {
+    const meter = meterAt('soft_limit', 'claude-haiku');
+    const fetcher = okFetcher({ choices: [] });
+    const client = createWorkersAiClient(env, { fetcher, meter });
+
+    await client.requestChatCompletions({ model: '@cf/big/model', messages: [] });
+
+    expect(sentBody(fetcher).model).toBe('@cf/big/model');
+  });
+
+  it('answers with a budget 429 past the hard limit without calling a model', async () => {
+    const meter = meterAt('hard_limit');
+    const fetcher = okFetcher({});
+    const client = createWorkersAiClient(env, { fetcher, meter });
+
+    const response = await client.requestChatCompletions({ model: '@cf/big/model', messages: [] });
+
+    expect(isAiBudgetExhausted(response)).toBe(true);
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(meter.record).not.toHaveBeenCalled();
+  });
+
+  it('leaves streams to the caller to record', async () => {
+    const meter = meterAt('ok');
+    const fetcher = okFetcher({});
+    const client = createWorkersAiClient(env, { fetcher, meter });
+
+    await client.requestChatCompletions({ model: 'gpt-4o', stream: true, messages: [] });
+    expect(sentBody(fetcher).stream_options).toEqual({ include_usage: true });
+    expect(meter.record).not.toHaveBeenCalled();
+
+    await client.recordUsage({ model: 'gpt-4o', messages: [] }, { usage: { inputTokens: 10, outputTokens: 4 }, reply: '' });
+    expect(meter.record).toHaveBeenCalledWith(
+      { model: 'gpt-4o', status: 'ok', fallback: false },
+      { inputTokens: 10, outputTokens: 4 },
+      false,
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { columnLetter, toXlsx } from '../../../../worker/utils/xlsx';
+import type { CsvColumn } from '../../../../worker/utils/csv';
+
+const columns: CsvColumn<Record<string, unknown>>[] = [
+  { key: 'occurredAt', header: 'Date', type: 'date' },
+  { key: 'client', header: 'Client <Trust>' },
+  { key: 'amountCents', header: 'Amount (USD)', type: 'currency', total: true, format: (v) => (Number(v) / 100).toFixed(2) },
+];
+
+const rows = [
+  { occurredAt: '2026-01-02T00:00:00.000Z', client: 'Smith & Co', amountCents: 12345 },
+  { occurredAt: '2026-01-03T12:00:00.000Z', client: 'Jones', amountCents: 55 },
+];
+
+const readSheet = (bytes: Uint8Array) => {
+  const files = unzipSync(bytes);
+  return { files, sheet: strFromU8(files['xl/worksheets/sheet1.xml']) };
+};
+
+describe('toXlsx', () => {
+  it('writes a complete OOXML package', () => {
+    const { files } = readSheet(toXlsx(rows, columns, { sheetName: 'Trust: Ledger' }));
+    expect(Object.keys(files).sort()).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/workbook.xml',
+      'xl/worksheets/sheet1.xml',
+    ]);
+    expect(strFromU8(files['xl/workbook.xml'])).toContain('<sheet name="Trust  Ledger"');
+  });
+
+  it('emits typed currency and date cells and escapes text', () => {
+    const { sheet } = readSheet(toXlsx(rows, columns));
+    expect(sheet).toContain('<c r="C2" s="2"><v>123.45</v></c>');
+    // 2026-01-02 is Excel serial 46024; noon adds half a day.
+    expect(sheet).toContain('<c r="A2" s="3"><v>46024</v></c>');
+    expect(sheet).toContain('<c r="A3" s="3"><v>46025.5</v></c>');
+    expect(sheet).toContain('Smith &amp; Co');
+    expect(sheet).toContain('Client &lt;Trust&gt;');
+  });
+
+  it('adds a totals row with a SUM formula and cached value', () => {
+    const { sheet } = readSheet(toXlsx(rows, columns));
+    expect(sheet).toContain('<row r="4">');
+    expect(sheet).toContain('<f>SUM(C2:C3)</f><v>124</v>');
+    expect(sheet).toMatch(/<c r="A4" t="inlineStr" s="4"><is><t xml:space="preserve">Total<\/t>/);
+  });
+
+  it('writes one SUMIF subtotal row per group when subtotalBy is set', () => {
+    const mixed: CsvColumn<Record<string, unknown>>[] = [
+      { key: 'period', header: 'Period' },
+      { key: 'currency', header: 'Currency' },
+      { key: 'paid', header: 'Paid', type: 'currency', total: true },
+    ];
+    const { sheet } = readSheet(toXlsx([
+      { period: 'Jan', currency: 'GBP', paid: 10 },
+      { period: 'Jan', currency: 'CAD', paid: 5 },
+      { period: 'Feb', currency: 'CAD', paid: 2.5 },
+    ], mixed, { subtotalBy: 'currency' }));
+    expect(sheet).toContain('<f>SUMIF(B2:B4,"CAD",C2:C4)</f><v>7.5</v>');
+    expect(sheet).toContain('<f>SUMIF(B2:B4,"GBP",C2:C4)</f><v>10</v>');
+    expect(sheet).toContain('Total CAD');
+    expect(sheet).not.toContain('SUM(C2:C4)');
+  });
+
+  it('omits the totals row when there are no rows', () => {
+    const { sheet } = readSheet(toXlsx([], columns));
+    expect(sheet).not.toContain('<row r="2">');
+  });
+});
+
+describe('columnLetter', () => {
+  it('handles multi-letter columns', () => {
+    expect([0, 25, 26, 51, 701, 702].map(columnLetter)).toEqual(['A', 'Z', 'AA', 'AZ', 'ZZ', 'AAA']);
+  });
+});
@@ -5,7 +5,13 @@ import { HttpError } from '../types.js';
 import { checkPracticeMembership, requireAuth } from '../middleware/auth.js';
 import { parseEnvBool } from '../utils/safeStringUtils.js';
 import { createWorkersAiClient } from '../utils/workersAiClient.js';
-import { ConversationService } from '../services/ConversationService.js';
+import {
+  ConversationService,
+  MAX_MESSAGE_CONTENT_LENGTH,
+  type ConversationMessage,
+} from '../services/ConversationService.js';
+import { AiUsageService } from '../services/AiUsageService.js';
+import type { MessageMutationAction } from '../utils/messageMutationPolicy.js';
 import {
   extractMentionUserIds,
   listConversationParticipantRecords,
@@ -18,7 +24,6 @@ const DEFAULT_AI_MODEL = '@cf/zai-org/glm-4.7-flash';
 
 const PROTOCOL_VERSION = 1;
 const NEGOTIATION_TIMEOUT_MS = 5000;
-const MAX_CONTENT_LENGTH = 4000;
 const MAX_ATTACHMENTS = 10;
 const MAX_METADATA_BYTES = 8 * 1024;
 const MAX_FRAME_BYTES = 64 * 1024;
@@ -37,6 +42,7 @@ interface ConnectionAttachment {
   negotiationDeadline: number | null;
   lastActivityAt: number;
   isPracticeMember: boolean;
+  memberRole?: string | null;
   authCookie: string | null;
 }
 
@@ -94,6 +100,8 @@ interface PersistOptions {
   userId: string | null;
   role: 'user' | 'system';
   senderType?: MentionSenderType;
+  /** Model output tokens, for AI replies. */
+  tokenCount?: number | null;
 }
 
 type PersistResult =
@@ -171,6 +179,13 @@ export class ChatRoom {
       return this.handleInternalReaction(request);
     }
 
+    if (url.pathname === '/internal/message-update') {
+      if (request.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 });
+      }
+      return this.handleInternalMessageUpdate(request);
+    }
+
     const conversationId = this.extractConversationId(url);
 
     if (!conversationId) {
@@ -199,7 +214,8 @@ export class ChatRoom {
       throw error;
     }
 
-    const isPracticeMember = await this.isPracticeMember(request, conversationId);
+    const membership = await this.resolvePracticeMembership(request, conversationId);
+    const isPracticeMember = membership.isMember;
     if (!isPracticeMember) {
       const isMember = await this.isConversationMember(conversationId, auth.user.id);
       if (!isMember) {
@@ -224,6 +240,7 @@ export class ChatRoom {
       negotiationDeadline: null,
       lastActivityAt: Date.now(),
       isPracticeMember,
+      memberRole: membership.memberRole ?? null,
       authCookie: authCookie && authCookie.trim() ? authCookie : null
     };
 
@@ -308,6 +325,12 @@ export class ChatRoom {
       case 'read.update':
         await this.handleReadUpdate(ws, attachment, frame);
         return;
+      case 'message.edit':
+        await this.handleMessageMutation(ws, attachment, frame, 'edit');
+        return;
+      case 'message.delete':
+        await this.handleMessageMutation(ws, attachment, frame, 'delete');
+        return;
       default:
         this.rejectInvalidPayload(ws, frame.request_id, 'Unhandled frame');
         return;
@@ -371,7 +394,7 @@ export class ChatRoom {
     // normalize to an empty string so the length check below is safe and the
     // file-only path treats "no text" the same as "empty text".
     const content = this.readString(frame.data.content) ?? '';
-    if (content.length > MAX_CONTENT_LENGTH) {
+    if (content.length > MAX_MESSAGE_CONTENT_LENGTH) {
       this.rejectInvalidPayload(ws, frame.request_id, 'content invalid');
       return;
     }
@@ -598,6 +621,158 @@ export class ChatRoom {
     });
   }
 
+  private async handleMessageMutation(
+    ws: WorkerWebSocket,
+    attachment: ConnectionAttachment,
+    frame: ClientFrame,
+    action: MessageMutationAction
+  ): Promise<void> {
+    const conversationId = this.readString(frame.data.conversation_id);
+    if (!conversationId || conversationId !== attachment.conversationId) {
+      this.rejectInvalidPayload(ws, frame.request_id, 'conversation_id mismatch');
+      return;
+    }
+
+    const messageId = this.readString(frame.data.message_id);
+    if (!messageId) {
+      this.rejectInvalidPayload(ws, frame.request_id, 'message_id required');
+      return;
+    }
+
+    const content = action === 'edit' ? (this.readString(frame.data.content)?.trim() ?? '') : '';
+    if (action === 'edit' && (!content || content.length > MAX_MESSAGE_CONTENT_LENGTH)) {
+      this.rejectInvalidPayload(ws, frame.request_id, 'content invalid');
+      return;
+    }
+
+    const practiceId = await this.getPracticeId(conversationId);
+    if (!practiceId) {
+      this.sendFrame(ws, 'error', {
+        code: 'internal_error',
+        message: 'practice_id unavailable'
+      }, frame.request_id);
+      return;
+    }
+
+    const conversationService = new ConversationService(this.env);
+    const actor = {
+      userId: attachment.userId,
+      memberRole: attachment.isPracticeMember ? attachment.memberRole ?? null : null
+    };
+
+    let message: ConversationMessage;
+    try {
+      message = action === 'edit'
+        ? await conversationService.editMessage({ conversationId, practiceId, messageId, actor, content, notify: false })
+        : await conversationService.deleteMessage({ conversationId, practiceId, messageId, actor, notify: false });
+    } catch (error) {
+      // Policy rejections are recoverable: keep the socket open and let the
+      // client roll back its optimistic edit.
+      if (error instanceof HttpError) {
+        const details = error.details as { code?: unknown } | undefined;
+        this.sendFrame(ws, 'error', {
+          code: typeof details?.code === 'string' ? details.code : (error.status === 404 ? 'not_found' : 'invalid_payload'),
+          message: error.message
+        }, frame.request_id);
+        return;
+      }
+      console.error('[ChatRoom] Message mutation failed', {
+        conversationId,
+        messageId,
+        action,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      this.sendFrame(ws, 'error', {
+        code: 'internal_error',
+        message: `Message ${action} failed`
+      }, frame.request_id);
+      return;
+    }
+
+    this.sendFrame(ws, `message.${action}.ack`, {
+      conversation_id: conversationId,
+      message_id: message.id
+    }, frame.request_id);
+
+    await this.broadcastMessageChange(message, action, attachment.userId);
+  }
+
+  private async handleInternalMessageUpdate(request: Request): Promise<Response> {
+    let payload: Record<string, unknown>;
+    try {
+      payload = await request.json() as Record<string, unknown>;
+    } catch {
+      return new Response('Invalid JSON', { status: 400 });
+    }
+
+    const conversationId = this.readString(payload.conversation_id) ?? this.conversationId;
+    if (!conversationId) {
+      return new Response('conversation_id required', { status: 400 });
+    }
+    if (this.conversationId && conversationId !== this.conversationId) {
+      return new Response('conversation_id mismatch', { status: 400 });
+    }
+
+    const messageId = this.readString(payload.message_id);
+    if (!messageId) {
+      return new Response('message_id required', { status: 400 });
+    }
+
+    const action = this.readString(payload.action);
+    if (action !== 'edit' && action !== 'delete') {
+      return new Response('action must be edit or delete', { status: 400 });
+    }
+
+    const actorUserId = this.readString(payload.actor_user_id);
+    if (!actorUserId) {
+      return new Response('actor_user_id required', { status: 400 });
+    }
+
+    let message: ConversationMessage;
+    try {
+      message = await new ConversationService(this.env).getMessage(messageId);
+    } catch {
+      return new Response('Message not found', { status: 404 });
+    }
+    if (message.conversation_id !== conversationId) {
+      return new Response('conversation_id mismatch', { status: 400 });
+    }
+
+    await this.broadcastMessageChange(message, action, actorUserId);
+
+    return new Response(JSON.stringify({ success: true }), {
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+
+  private async broadcastMessageChange(
+    message: ConversationMessage,
+    action: MessageMutationAction,
+    actorUserId: string
+  ): Promise<void> {
+    if (action === 'delete') {
+      await this.broadcastFrame('message.deleted', {
+        conversation_id: message.conversation_id,
+        message_id: message.id,
+        seq: message.seq,
+        deleted_at: message.deleted_at ?? null,
+        deleted_by: actorUserId
+      });
+      return;
+    }
+
+    await this.broadcastFrame('message.updated', {
+      conversation_id: message.conversation_id,
+      message_id: message.id,
+      seq: message.seq,
+      user_id: message.user_id,
+      role: message.role,
+      content: message.content,
+      edited_at: message.edited_at ?? null,
+      ...(message.metadata ? { metadata: message.metadata } : {})
+    });
+  }
+
   private async handleInternalMessage(request: Request): Promise<Response> {
     let payload: Record<string, unknown>;
     try {
@@ -649,7 +824,7 @@ export class ChatRoom {
     if (content === null) {
       return new Response('content invalid', { status: 400 });
     }
-    if (content.length > MAX_CONTENT_LENGTH) {
+    if (content.length > MAX_MESSAGE_CONTENT_LENGTH) {
       return new Response('content invalid', { status: 400 });
     }
 
@@ -665,6 +840,7 @@ export class ChatRoom {
 
     const clientId = this.readString(payload.client_id) ?? crypto.randomUUID();
     const userId = this.readString(payload.user_id);
+    const tokenCount = this.readNumber(payload.token_count);
 
     const result = await this.persistMessage({
       conversationId,
@@ -675,7 +851,8 @@ export class ChatRoom {
       replyToMessageId,
       userId,
       role: roleValue,
-      senderType: roleValue === 'user' ? 'client' : undefined
+      senderType: roleValue === 'user' ? 'client' : undefined,
+      tokenCount: tokenCount !== null && tokenCount >= 0 ? tokenCount : null
     });
 
     if (result.kind === 'error') {
@@ -709,7 +886,8 @@ export class ChatRoom {
       replyToMessageId,
       userId,
       role,
-      senderType
+      senderType,
+      tokenCount = null
     } = options;
 
     await this.sweepPending(conversationId);
@@ -848,7 +1026,7 @@ export class ChatRoom {
           content,
           replyToMessageId ?? null,
           metadataJson,
-          null,
+          tokenCount,
           serverTs,
           pending.allocated_seq,
           clientId,
@@ -915,13 +1093,13 @@ export class ChatRoom {
       content,
       seq: pending.allocated_seq,
       client_id: clientId,
-      token_count: null,
+      token_count: tokenCount,
       metadata: sanitizedMetadata ?? null,
       created_at: serverTs,
     });
 
     if (role === 'user') {
-      void this.maybeUpdateConversationTitle(conversationId, content);
+      void this.maybeUpdateConversationTitle(conversationId, practiceId, content);
     }
 
     const broadcast: MessageBroadcast = {
@@ -991,13 +1169,15 @@ export class ChatRoom {
     return Boolean(record);
   }
 
-  private async isPracticeMember(request: Request, conversationId: string): Promise<boolean> {
+  private async resolvePracticeMembership(
+    request: Request,
+    conversationId: string
+  ): Promise<{ isMember: boolean; memberRole?: string }> {
     const practiceId = await this.getPracticeId(conversationId);
     if (!practiceId) {
-      return false;
+      return { isMember: false };
     }
-    const membership = await checkPracticeMembership(request, this.env, practiceId);
-    return membership.isMember;
+    return checkPracticeMembership(request, this.env, practiceId);
   }
 
   private buildAuthRequest(attachment: ConnectionAttachment): Request | null {
@@ -1537,7 +1717,8 @@ export class ChatRoom {
   private async broadcastFrame(type: string, data: Record<string, unknown>): Promise<void> {
     // Special-case message broadcasts: sanitize per-connection for anonymous
     // viewers when the conversation requests assistant replies to be hidden.
-    if (type === 'message.new' && typeof data.conversation_id === 'string') {
+    // Edits go through the same mask so an update can't reveal hidden content.
+    if ((type === 'message.new' || type === 'message.updated') && typeof data.conversation_id === 'string') {
       const convId = data.conversation_id as string;
 
       // Use cached value when available to avoid per-broadcast DB reads.
@@ -1648,7 +1829,7 @@ export class ChatRoom {
     return fallback || 'New Conversation';
   }
 
-  private async maybeUpdateConversationTitle(conversationId: string, content: string): Promise<void> {
+  private async maybeUpdateConversationTitle(conversationId: string, practiceId: string, content: string): Promise<void> {
     const trimmedContent = content.trim();
     if (!trimmedContent) {
       return;
@@ -1686,7 +1867,7 @@ export class ChatRoom {
         return;
       }
 
-      const aiTitle = await this.generateTitleFromMessage(trimmedContent);
+      const aiTitle = await this.generateTitleFromMessage(conversationId, practiceId, trimmedContent);
       const resolvedTitle = this.normalizeTitle(aiTitle || this.buildFallbackTitle(trimmedContent));
       if (!resolvedTitle) {
         return;
@@ -1707,10 +1888,16 @@ export class ChatRoom {
     }
   }
 
-  private async generateTitleFromMessage(content: string): Promise<string | null> {
+  private async generateTitleFromMessage(
+    conversationId: string,
+    practiceId: string,
+    content: string
+  ): Promise<string | null> {
     let aiClient;
     try {
-      aiClient = createWorkersAiClient(this.env);
+      aiClient = createWorkersAiClient(this.env, {
+        meter: new AiUsageService(this.env).meter({ practiceId, feature: 'title_generation', conversationId })
+      });
     } catch (error) {
       console.warn('[ChatRoom] AI client unavailable for title generation', error);
       return null;
@@ -5,7 +5,26 @@ import type {
   WebSocket as WorkerWebSocket,
 } from '@cloudflare/workers-types';
 import type { Env } from '../types.js';
-import { dispatchToolCall, isOk, listTools } from '../routes/mcp/tools/dispatch.js';
+import {
+  dispatchToolCall,
+  isOk,
+  listTools,
+  toolErr,
+  toolOk,
+  type JsonRpcOutcome,
+  type McpToolContext,
+} from '../routes/mcp/tools/dispatch.js';
+import {
+  MAX_RESOURCE_SUBSCRIPTIONS,
+  SUBSCRIBE_SCOPE,
+  authorizeResource,
+  isParsedResource,
+  listResourceTemplates,
+  listResources,
+  readResource,
+  resourceUrisForEvent,
+} from '../routes/mcp/resources.js';
+import { getPrompt, listPrompts } from '../routes/mcp/prompts.js';
 
 /**
  * McpSession — one Durable Object per authorized MCP session.
@@ -22,7 +41,8 @@ import { dispatchToolCall, isOk, listTools } from '../routes/mcp/tools/dispatch.
  * route to call this DO's `/internal/event` POST handler.
  *
  * This file is U6 scaffolding. Tools land in U9-U11; auth in U7; real event
- * fan-out in U8.
+ * fan-out in U8. Resources, resource subscriptions and prompts dispatch to
+ * worker/routes/mcp/resources.ts and prompts.ts.
  *
  * See docs/plans/2026-05-15-002-feat-blawby-mcp-agent-surface-plan.md.
  */
@@ -86,6 +106,7 @@ interface ReplayEventRow extends Record<string, SqlStorageValue> {
 }
 
 const STORAGE_KEY_METADATA = 'session:metadata';
+const STORAGE_KEY_SUBSCRIPTIONS = 'session:subscriptions';
 
 const isJsonRpcMessage = (value: unknown): value is JsonRpcMessage => {
   if (!value || typeof value !== 'object') return false;
@@ -187,6 +208,8 @@ export class McpSession {
         // U6 advertises no tools yet; U9-U11 fill these in.
         capabilities: {
           tools: { listChanged: false },
+          resources: { subscribe: true, listChanged: false },
+          prompts: { listChanged: false },
           // Server-side push events fan out via the WebSocket transport, not
           // the spec's `experimental` capability — U8 documents this.
         },
@@ -228,6 +251,9 @@ export class McpSession {
       return new Response(null, { status: 202 });
     }
 
+    const params = (body.params ?? {}) as Record<string, unknown>;
+    const context = this.toolContext(metadata, body.id);
+
     switch (body.method) {
       case 'ping':
         return jsonRpcOk(body.id, {});
@@ -236,7 +262,6 @@ export class McpSession {
         return jsonRpcOk(body.id, outcome.result);
       }
       case 'tools/call': {
-        const params = (body.params ?? {}) as Record<string, unknown>;
         const toolName = typeof params.name === 'string' ? params.name : '';
         const argsRaw = params.arguments;
         const args =
@@ -246,25 +271,77 @@ export class McpSession {
         if (!toolName) {
           return jsonRpcError(body.id, -32602, 'tools/call requires a `name` parameter');
         }
-        const outcome = await dispatchToolCall(toolName, args, {
-          session_id: metadata.session_id,
-          practice_id: metadata.practice_id,
-          user_id: metadata.user_id,
-          jti: metadata.jti,
-          scopes: new Set(metadata.scopes),
-          env: this.env,
-          tool_call_seq: body.id,
-        });
-        if (isOk(outcome)) {
-          return jsonRpcOk(body.id, outcome.result);
-        }
-        return jsonRpcError(body.id, outcome.error.code, outcome.error.message, outcome.error.data);
+        return jsonRpcOutcome(body.id, await dispatchToolCall(toolName, args, context));
       }
+      case 'resources/list':
+        return jsonRpcOutcome(body.id, listResources(context));
+      case 'resources/templates/list':
+        return jsonRpcOutcome(body.id, listResourceTemplates(context));
+      case 'resources/read':
+        return jsonRpcOutcome(body.id, await readResource(params.uri, context));
+      case 'resources/subscribe':
+        return jsonRpcOutcome(body.id, await this.subscribe(params.uri, context));
+      case 'resources/unsubscribe':
+        return jsonRpcOutcome(body.id, await this.unsubscribe(params.uri));
+      case 'prompts/list':
+        return jsonRpcOutcome(body.id, listPrompts(context));
+      case 'prompts/get':
+        return jsonRpcOutcome(body.id, getPrompt(params.name, params.arguments, context));
       default:
         return jsonRpcError(body.id, -32601, `Method not found: ${body.method}`);
     }
   }
 
+  private toolContext(metadata: SessionMetadata, seq: string | number): McpToolContext {
+    return {
+      session_id: metadata.session_id,
+      practice_id: metadata.practice_id,
+      user_id: metadata.user_id,
+      jti: metadata.jti,
+      scopes: new Set(metadata.scopes),
+      env: this.env,
+      tool_call_seq: seq,
+    };
+  }
+
+  /**
+   * `resources/subscribe` — needs the resource's read scope plus
+   * `events:subscribe`. Subscriptions live in DO storage so they survive
+   * hibernation; updates are pushed over the WebSocket as
+   * `notifications/resources/updated` when the event bus delivers a
+   * matching event (see handleInternalEvent).
+   */
+  private async subscribe(uri: unknown, context: McpToolContext): Promise<JsonRpcOutcome> {
+    const parsed = authorizeResource(uri, context, SUBSCRIBE_SCOPE);
+    if (!isParsedResource(parsed)) return parsed;
+    const subscriptions = await this.getSubscriptions();
+    if (!subscriptions.includes(uri as string)) {
+      if (subscriptions.length >= MAX_RESOURCE_SUBSCRIPTIONS) {
+        return toolErr(-32602, `Subscription limit reached (${MAX_RESOURCE_SUBSCRIPTIONS})`, {
+          code: 'SUBSCRIPTION_LIMIT',
+          retryable: false,
+        });
+      }
+      await this.state.storage.put(STORAGE_KEY_SUBSCRIPTIONS, [...subscriptions, uri as string]);
+    }
+    return toolOk({});
+  }
+
+  private async unsubscribe(uri: unknown): Promise<JsonRpcOutcome> {
+    const subscriptions = await this.getSubscriptions();
+    if (typeof uri === 'string' && subscriptions.includes(uri)) {
+      await this.state.storage.put(
+        STORAGE_KEY_SUBSCRIPTIONS,
+        subscriptions.filter((entry) => entry !== uri),
+      );
+    }
+    return toolOk({});
+  }
+
+  private async getSubscriptions(): Promise<string[]> {
+    return (await this.state.storage.get<string[]>(STORAGE_KEY_SUBSCRIPTIONS)) ?? [];
+  }
+
   private async handleWebSocketUpgrade(request: Request): Promise<Response> {
     const metadata = await this.getMetadata();
     if (!metadata) {
@@ -384,12 +461,21 @@ export class McpSession {
     };
     const encoded = JSON.stringify(frame);
     if (!existingRow && encoded.length <= MAX_FRAME_BYTES) {
-      for (const ws of this.state.getWebSockets('mcp')) {
-        try {
-          ws.send(encoded);
-        } catch {
-          // Closed socket — hibernation reaper picks it up.
-        }
+      this.broadcast(encoded);
+    }
+
+    // Resource subscriptions: the event bus only delivers events whose
+    // scope the session holds, so notifying on them leaks nothing the
+    // session could not already read.
+    if (!existingRow) {
+      const subscriptions = await this.getSubscriptions();
+      for (const uri of resourceUrisForEvent(eventType, payload)) {
+        if (!subscriptions.includes(uri)) continue;
+        this.broadcast(JSON.stringify({
+          jsonrpc: '2.0',
+          method: 'notifications/resources/updated',
+          params: { uri },
+        }));
       }
     }
 
@@ -399,6 +485,16 @@ export class McpSession {
     });
   }
 
+  private broadcast(encoded: string): void {
+    for (const ws of this.state.getWebSockets('mcp')) {
+      try {
+        ws.send(encoded);
+      } catch {
+        // Closed socket — hibernation reaper picks it up.
+      }
+    }
+  }
+
   async webSocketMessage(ws: WorkerWebSocket, message: string | ArrayBuffer): Promise<void> {
     // U6 scaffolding: the server->client WebSocket is push-only. Any inbound
     // message is unexpected for now; log and ignore.
@@ -622,6 +718,11 @@ const jsonRpcOk = (id: string | number, result: unknown): Response => {
   });
 };
 
+const jsonRpcOutcome = (id: string | number, outcome: JsonRpcOutcome): Response =>
+  isOk(outcome)
+    ? jsonRpcOk(id, outcome.result)
+    : jsonRpcError(id, outcome.error.code, outcome.error.message, outcome.error.data);
+
 const jsonRpcError = (
   id: string | number | null,
   code: number,
@@ -5,28 +5,70 @@
  * One DO instance per practice. Each authenticated client opens a single
  * WebSocket to it (regardless of which conversation they're viewing). The DO
  * holds a `Map<userId, Set<wsRef>>` so that a user with multiple tabs only
- * goes offline when the *last* tab disconnects. State changes broadcast a
- * compact `{ type: 'presence', online: string[] }` snapshot to every connected
- * client. Subscribers also receive a snapshot immediately on join so the UI
- * reflects current state without waiting for the next change.
+ * goes offline when the *last* tab disconnects. Each tab also reports the
+ * record it has open and the user's status; the snapshot folds tabs into one
+ * member per user. State changes broadcast the full snapshot to every
+ * connected client. Subscribers also receive a snapshot immediately on join
+ * so the UI reflects current state without waiting for the next change.
  *
  * Wire format (server → client):
- *   { type: 'presence', online: string[] }   // full snapshot
+ *   { type: 'presence', online: string[], members: PresenceMember[] }   // full snapshot
  *
- * Wire format (client → server):
+ * Wire format (client → server), see worker/types/wire/presence.ts:
  *   { type: 'identify', userId: string }     // sent right after open
  *   { type: 'ping' }                          // optional liveness keep-alive
+ *   { type: 'focus', resource: 'matter:123' | null, mode: 'viewing' | 'editing' }
+ *   { type: 'status', status: 'online' | 'away' | 'busy' }
  *
- * Hibernation-safe: connection state is reconstructed from
- * `state.acceptWebSocket(ws, [userId])` tags so the user mapping survives DO
- * eviction across cold starts.
+ * Hibernation-safe: the user is reconstructed from
+ * `state.acceptWebSocket(ws, [userId])` tags and the tab's focus/status from
+ * the socket attachment, so both survive DO eviction across cold starts.
  */
 import type { DurableObjectState, WebSocket as CFWebSocket } from '@cloudflare/workers-types';
 import type { Env } from '../types.js';
+import {
+  PresenceClientFrameSchema,
+  type PresenceFocus,
+  type PresenceMember,
+  type PresenceMode,
+  type PresenceStatus,
+} from '../types/wire/presence.js';
 
-interface IdentifyFrame { type: 'identify'; userId: string }
-interface PingFrame { type: 'ping' }
-type ClientFrame = IdentifyFrame | PingFrame;
+/** What one tab has reported; stored as the socket attachment. */
+export interface PresenceSocketState {
+  resource: string | null;
+  mode: PresenceMode;
+  status: PresenceStatus;
+}
+
+const DEFAULT_SOCKET_STATE: PresenceSocketState = { resource: null, mode: 'viewing', status: 'online' };
+
+const STATUS_RANK: Record<PresenceStatus, number> = { away: 0, online: 1, busy: 2 };
+
+/**
+ * Fold every open tab into one member per user. A user is busy if any tab
+ * says so, away only when every tab is away, and is on each record any tab
+ * has open — editing if any of those tabs is editing.
+ */
+export const summarizePresence = (
+  sockets: ReadonlyArray<{ userId: string; state: PresenceSocketState }>,
+): PresenceMember[] => {
+  const byUser = new Map<string, { status: PresenceStatus; focus: Map<string, PresenceMode> }>();
+  for (const { userId, state } of sockets) {
+    const entry = byUser.get(userId) ?? { status: 'away' as PresenceStatus, focus: new Map<string, PresenceMode>() };
+    if (STATUS_RANK[state.status] > STATUS_RANK[entry.status]) entry.status = state.status;
+    if (state.resource && entry.focus.get(state.resource) !== 'editing') {
+      entry.focus.set(state.resource, state.mode);
+    }
+    byUser.set(userId, entry);
+  }
+  return Array.from(byUser, ([userId, entry]) => ({
+    userId,
+    status: entry.status,
+    focus: Array.from(entry.focus, ([resource, mode]): PresenceFocus => ({ resource, mode }))
+      .sort((a, b) => a.resource.localeCompare(b.resource)),
+  })).sort((a, b) => a.userId.localeCompare(b.userId));
+};
 
 export class PresenceRoom {
   private readonly state: DurableObjectState;
@@ -42,7 +84,8 @@ export class PresenceRoom {
     if (upgradeHeader?.toLowerCase() !== 'websocket') {
       const url = new URL(request.url);
       if (url.pathname.endsWith('/snapshot') && request.method === 'GET') {
-        return new Response(JSON.stringify({ online: this.collectOnlineUserIds() }), {
+        const members = this.collectMembers();
+        return new Response(JSON.stringify({ online: members.map((member) => member.userId), members }), {
           headers: { 'Content-Type': 'application/json' },
         });
       }
@@ -65,6 +108,7 @@ export class PresenceRoom {
     // Tag the server-side socket with the userId so the hibernation-safe
     // `getTags(ws)` lookup tells us who hung up after a cold start.
     this.state.acceptWebSocket(server, [userId]);
+    server.serializeAttachment(DEFAULT_SOCKET_STATE);
     this.broadcastSnapshot();
 
     return new Response(null, { status: 101, webSocket: client });
@@ -72,12 +116,24 @@ export class PresenceRoom {
 
   webSocketMessage(ws: CFWebSocket, raw: string | ArrayBuffer): void {
     if (typeof raw !== 'string') return;
-    let parsed: ClientFrame | null = null;
-    try { parsed = JSON.parse(raw) as ClientFrame; } catch { return; }
-    if (!parsed || typeof parsed !== 'object') return;
-    if (parsed.type === 'ping') {
+    let json: unknown;
+    try { json = JSON.parse(raw); } catch { return; }
+    const parsed = PresenceClientFrameSchema.safeParse(json);
+    if (!parsed.success) return;
+    const frame = parsed.data;
+    if (frame.type === 'ping') {
       // Echo a snapshot so latency-sensitive clients can measure rtt + refresh.
       this.sendFrameTo(ws, this.buildSnapshotFrame());
+      return;
+    }
+    if (frame.type === 'focus' || frame.type === 'status') {
+      const current = this.readSocketState(ws);
+      const next: PresenceSocketState = frame.type === 'focus'
+        ? { ...current, resource: frame.resource, mode: frame.resource ? frame.mode : 'viewing' }
+        : { ...current, status: frame.status };
+      if (next.resource === current.resource && next.mode === current.mode && next.status === current.status) return;
+      ws.serializeAttachment(next);
+      this.broadcastSnapshot();
     }
     // 'identify' is a no-op on the wire today — userId is locked at the URL
     // query string and stored as a tag during accept. Reserved for future use.
@@ -85,7 +141,7 @@ export class PresenceRoom {
 
   webSocketClose(ws: CFWebSocket, _code: number, _reason: string, _wasClean: boolean): void {
     // The closing socket may still appear in state.getWebSockets() while the
-    // close is being processed; pass it through so collectOnlineUserIds can
+    // close is being processed; pass it through so collectMembers can
     // exclude it and remote tabs see the user drop offline immediately.
     this.broadcastSnapshot(ws);
   }
@@ -119,19 +175,26 @@ export class PresenceRoom {
     return new Response(null, { status: 204 });
   }
 
-  private collectOnlineUserIds(exclude?: CFWebSocket): string[] {
-    const ids = new Set<string>();
+  private collectMembers(exclude?: CFWebSocket): PresenceMember[] {
+    const sockets: Array<{ userId: string; state: PresenceSocketState }> = [];
     for (const ws of this.state.getWebSockets()) {
       if (exclude && ws === exclude) continue;
       const tags = this.state.getTags(ws);
       const userId = tags.find((tag) => typeof tag === 'string' && tag.length > 0);
-      if (userId) ids.add(userId);
+      if (userId) sockets.push({ userId, state: this.readSocketState(ws) });
     }
-    return Array.from(ids);
+    return summarizePresence(sockets);
+  }
+
+  private readSocketState(ws: CFWebSocket): PresenceSocketState {
+    // Sockets accepted before focus tracking carry no attachment.
+    const attachment = ws.deserializeAttachment() as Partial<PresenceSocketState> | null;
+    return { ...DEFAULT_SOCKET_STATE, ...(attachment ?? {}) };
   }
 
   private buildSnapshotFrame(exclude?: CFWebSocket): string {
-    return JSON.stringify({ type: 'presence', online: this.collectOnlineUserIds(exclude) });
+    const members = this.collectMembers(exclude);
+    return JSON.stringify({ type: 'presence', online: members.map((member) => member.userId), members });
   }
 
   private broadcastSnapshot(exclude?: CFWebSocket): void {
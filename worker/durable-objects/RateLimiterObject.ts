@@ -0,0 +1,131 @@
+import type { DurableObjectState } from '@cloudflare/workers-types';
+import type { Env } from '../types.js';
+
+/**
+ * RateLimiterObject — one Durable Object per rate-limit bucket
+ * (`<family>:<subject>`, e.g. `ai_turns:practice-123`).
+ *
+ * A token bucket that refills continuously: `capacity` tokens per
+ * `windowMs`. The read-modify-write runs inside a storage transaction, and
+ * a DO handles its requests one at a time, so concurrent callers can never
+ * spend the same token — the overshoot the old KV get-then-put limiter
+ * allowed.
+ *
+ * The bucket stores how much has been spent and drains that at
+ * `capacity / windowMs`, rather than storing the tokens left. The rule
+ * travels with every request instead of living in the DO, so a practice
+ * changing plan takes effect on its next request with what it has already
+ * used carried over: an upgrade frees up the difference at once.
+ */
+
+export interface TokenBucketState {
+  /** Tokens spent and not yet refilled, as of `updatedAt`. */
+  used: number;
+  updatedAt: number;
+}
+
+export interface TokenBucketRule {
+  capacity: number;
+  windowMs: number;
+}
+
+export interface TokenBucketResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Milliseconds until the bucket is full again. */
+  resetMs: number;
+  /** Milliseconds until `cost` tokens are available; 0 when allowed. */
+  retryAfterMs: number;
+}
+
+/** Refills `state` up to `now` and, when `cost` > 0, tries to spend it. */
+export const takeTokens = (
+  state: TokenBucketState | null,
+  rule: TokenBucketRule,
+  now: number,
+  cost: number,
+): { state: TokenBucketState; result: TokenBucketResult } => {
+  const ratePerMs = rule.capacity / rule.windowMs;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const drained = state ? Math.max(0, state.used - elapsed * ratePerMs) : 0;
+  // After a downgrade `used` can exceed the new capacity; it drains from there.
+  const available = Math.max(0, rule.capacity - drained);
+
+  const allowed = available >= cost;
+  const used = allowed ? drained + cost : drained;
+  const tokens = Math.max(0, rule.capacity - used);
+  return {
+    state: { used, updatedAt: now },
+    result: {
+      allowed,
+      limit: rule.capacity,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil(used / ratePerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((used + cost - rule.capacity) / ratePerMs),
+    },
+  };
+};
+
+const STORAGE_KEY = 'bucket';
+
+const parseRule = (url: URL): TokenBucketRule | null => {
+  const capacity = Number(url.searchParams.get('capacity'));
+  const windowMs = Number(url.searchParams.get('windowMs'));
+  if (!Number.isFinite(capacity) || capacity <= 0) return null;
+  if (!Number.isFinite(windowMs) || windowMs <= 0) return null;
+  return { capacity, windowMs };
+};
+
+const json = (body: unknown, status = 200): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+export class RateLimiterObject {
+  private state: DurableObjectState;
+
+  constructor(state: DurableObjectState, _env: Env) {
+    this.state = state;
+  }
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const rule = parseRule(url);
+    if (!rule) return json({ error: 'capacity and windowMs must be positive numbers' }, 400);
+
+    // POST /consume?capacity=&windowMs=&cost= — spend tokens if available.
+    if (url.pathname === '/consume' && request.method === 'POST') {
+      const costParam = Number(url.searchParams.get('cost') ?? '1');
+      const cost = Number.isFinite(costParam) && costParam > 0 ? costParam : 1;
+      const now = Date.now();
+
+      const result = await this.state.storage.transaction(async (tx) => {
+        const current = (await tx.get<TokenBucketState>(STORAGE_KEY)) ?? null;
+        const next = takeTokens(current, rule, now, cost);
+        await tx.put(STORAGE_KEY, next.state);
+        return next.result;
+      });
+      // A full bucket is indistinguishable from no bucket; drop storage then.
+      await this.state.storage.setAlarm(now + Math.max(result.resetMs, 1000));
+      return json(result);
+    }
+
+    // GET /peek?capacity=&windowMs= — current standing without spending.
+    if (url.pathname === '/peek' && request.method === 'GET') {
+      const current = (await this.state.storage.get<TokenBucketState>(STORAGE_KEY)) ?? null;
+      return json(takeTokens(current, rule, Date.now(), 0).result);
+    }
+
+    return new Response('Not Found', { status: 404 });
+  }
+
+  /**
+   * Every consume reschedules the alarm for the moment the bucket is full
+   * again, so when it fires the stored state carries no information.
+   */
+  async alarm(): Promise<void> {
+    await this.state.storage.deleteAll();
+  }
+}
@@ -24,6 +24,7 @@ import {
 } from './routes';
 import { handleConversations } from './routes/conversations.js';
 import { handleGlobalSearch } from './routes/search.js';
+import { handleEmail } from './routes/email.js';
 import { handlePresence } from './routes/presence.js';
 import { handleAiChat } from './routes/aiChat.js';
 import { handleAiIntent } from './routes/aiIntent.js';
@@ -43,8 +44,15 @@ import { handleAdminIntakeInspector } from './routes/adminIntakeInspector.js';
 import { handleWebsiteExtract } from './routes/handleWebsiteExtract.js';
 import { handleSearch } from './routes/handleSearch.js';
 import { handleStatus } from './routes/status.js';
-import { handleStagedActions } from './routes/stagedActions.js';
+import { handleStagedActions, handleApprovalPolicy } from './routes/stagedActions.js';
 import { handleMatterSummary } from './routes/matterSummary.js';
+import { handlePracticeUsage, PRACTICE_USAGE_PATH_RE } from './routes/practiceUsage.js';
+import { handleIntakeAnalytics, INTAKE_ANALYTICS_PATH_RE } from './routes/intakeAnalytics.js';
+import { handleIntakeExperiments, INTAKE_EXPERIMENTS_PATH_RE } from './routes/intakeExperiments.js';
+import { handleConflictChecks, CONFLICT_CHECKS_PATH_RE } from './routes/conflictChecks.js';
+import { handleTrustCompliance, TRUST_COMPLIANCE_PATH_RE } from './routes/trustCompliance.js';
+import { AI_USAGE_PATH_RE, handleAiUsage } from './routes/aiUsage.js';
+import { handleTrustReconciliation, TRUST_RECONCILIATION_PATH_RE } from './routes/trustReconciliation.js';
 import { handleAutocompleteWithCORS } from './routes/api/geo/autocomplete.js';
 import { Env } from './types';
 import type { NotificationQueueMessage } from './types';
@@ -164,14 +172,55 @@ export const routes: RouteEntry[] = [
   },
   {
     mode: 'owned',
-    match: regex(/^\/api\/practice\/[^/]+\/staged-actions$/),
+    match: regex(/^\/api\/practice\/[^/]+\/staged-actions(?:\/[^/]+(?:\/comments)?)?$/),
     handler: withAuth((req, env) => handleStagedActions(req, env), { required: true }),
   },
+  {
+    mode: 'owned',
+    match: regex(/^\/api\/practice\/[^/]+\/approval-policy$/),
+    handler: withAuth((req, env) => handleApprovalPolicy(req, env), { required: true }),
+  },
+  {
+    mode: 'owned',
+    match: regex(PRACTICE_USAGE_PATH_RE),
+    handler: withAuth((req, env) => handlePracticeUsage(req, env), { required: true }),
+  },
+  {
+    mode: 'owned',
+    match: regex(AI_USAGE_PATH_RE),
+    handler: withAuth((req, env) => handleAiUsage(req, env), { required: true }),
+  },
   {
     mode: 'owned',
     match: regex(/^\/api\/practice\/[^/]+\/matter-summary\/[^/]+$/),
     handler: withAuth((req, env) => handleMatterSummary(req, env), { required: true }),
   },
+  {
+    mode: 'owned',
+    // Before the backend proxy, which owns the rest of /intake-templates.
+    match: regex(INTAKE_ANALYTICS_PATH_RE),
+    handler: withAuth((req, env) => handleIntakeAnalytics(req, env), { required: true }),
+  },
+  {
+    mode: 'owned',
+    match: regex(INTAKE_EXPERIMENTS_PATH_RE),
+    handler: withAuth((req, env) => handleIntakeExperiments(req, env), { required: true }),
+  },
+  {
+    mode: 'owned',
+    match: regex(CONFLICT_CHECKS_PATH_RE),
+    handler: withAuth((req, env) => handleConflictChecks(req, env), { required: true }),
+  },
+  {
+    mode: 'owned',
+    match: regex(TRUST_COMPLIANCE_PATH_RE),
+    handler: withAuth((req, env) => handleTrustCompliance(req, env), { required: true }),
+  },
+  {
+    mode: 'owned',
+    match: regex(TRUST_RECONCILIATION_PATH_RE),
+    handler: withAuth((req, env) => handleTrustReconciliation(req, env), { required: true }),
+  },
   {
     mode: 'owned',
     match: regex(/^\/api\/practice-client-intakes\/[^/]+\/intake$/),
@@ -200,6 +249,9 @@ export const routes: RouteEntry[] = [
     match: prefix('/api/notifications'),
     handler: withAuth((req, env) => handleNotifications(req, env), { required: true }),
   },
+  // Unsubscribe links and the provider bounce webhook — public, each
+  // verified by its own signed token / shared secret.
+  { mode: 'owned', match: prefix('/api/email/'), handler: (req, env) => handleEmail(req, env) },
   { mode: 'owned', match: prefix('/api/widget/practice-details/'), handler: (req, env) => handleWidgetPracticeDetails(req, env) },
   { mode: 'owned', match: prefix('/api/practice/details/'), handler: (req, env) => handlePracticeDetails(req, env) },
   {
@@ -400,12 +452,28 @@ async function handleQueue(batch: MessageBatch<unknown>, env: Env): Promise<void
   return handleNotificationQueue(batch as MessageBatch<NotificationQueueMessage>, env);
 }
 
-export default {
-  fetch: handleRequest,
-  queue: handleQueue
-};
+/**
+ * Cron that releases notifications held by quiet hours and digests (see
+ * NotificationHoldService). Must match `crons` in wrangler.toml; every other
+ * cron runs the daily housekeeping below.
+ */
+export const HOLD_RELEASE_CRON = '*/5 * * * *';
 
 export async function scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
+  if (event.cron === HOLD_RELEASE_CRON) {
+    const { NotificationHoldService } = await import('./services/NotificationHoldService');
+    ctx.waitUntil(
+      new NotificationHoldService(env).releaseDue()
+        .then((count) => {
+          if (count > 0) console.log(`Notification holds: released ${count} summaries`);
+        })
+        .catch((error) => {
+          console.error('Notification hold release failed:', error);
+        }),
+    );
+    return;
+  }
+
   const { StatusService } = await import('./services/StatusService');
 
   const cleanupPromise = StatusService.cleanupExpiredStatuses(env)
@@ -429,11 +497,27 @@ export async function scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionC
       console.error('search_query_log purge failed:', error);
     });
 
-  ctx.waitUntil(Promise.all([cleanupPromise, searchPurgePromise]));
+  const { PracticeAssistantActionService } = await import('./services/practiceAssistant/actionService');
+  const stagedActionExpiryPromise = new PracticeAssistantActionService(env).expirePending()
+    .then((count) => {
+      console.log(`Staged action expiry: expired ${count} pending actions`);
+    })
+    .catch((error) => {
+      console.error('Staged action expiry failed:', error);
+    });
+
+  ctx.waitUntil(Promise.all([cleanupPromise, searchPurgePromise, stagedActionExpiryPromise]));
 }
 
+export default {
+  fetch: handleRequest,
+  queue: handleQueue,
+  scheduled
+};
+
 export { ChatRoom } from './durable-objects/ChatRoom';
 export { ChatCounterObject } from './durable-objects/ChatCounterObject';
 export { MatterProgressRoom } from './durable-objects/MatterProgressRoom';
 export { PresenceRoom } from './durable-objects/PresenceRoom';
 export { McpSession } from './durable-objects/McpSession';
+export { RateLimiterObject } from './durable-objects/RateLimiterObject';
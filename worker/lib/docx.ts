@@ -0,0 +1,138 @@
+// DOCX text extraction for Cloudflare Workers.
+//
+// A .docx is a zip; the body text lives in word/document.xml as w:p
+// paragraphs of w:r runs. Pages are split on explicit page breaks and on the
+// page breaks Word recorded at last render (w:lastRenderedPageBreak), so page
+// numbers line up with what the author saw. Legacy binary .doc is not handled.
+// word/document.xml is inflated as a stream: its declared size is checked
+// first and the output is counted as it arrives, against the same limit as a
+// PDF stream (./inflate.ts).
+
+import { strFromU8, Unzip, UnzipInflate } from 'fflate';
+import { DecompressionLimitError, MAX_INFLATED_STREAM_BYTES } from './inflate.js';
+import { extractKeyLegalInfo, PDF_PAGE_DELIMITER, type ExtractedDocumentText } from './pdf.js';
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXmlEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+  });
+
+const DOCUMENT_PART = 'word/document.xml';
+const ZIP_SLICE_BYTES = 4 * 1024;
+
+/** The inflated document part, or null when the archive has none. */
+const readDocumentPart = (data: Uint8Array): Uint8Array | null => {
+  const part: { chunks: Uint8Array[] | null; size: number } = { chunks: null, size: 0 };
+  const unzip = new Unzip((file) => {
+    if (file.name !== DOCUMENT_PART) return;
+    if ((file.originalSize ?? 0) > MAX_INFLATED_STREAM_BYTES) throw new DecompressionLimitError();
+    const chunks: Uint8Array[] = [];
+    part.chunks = chunks;
+    file.ondata = (error, chunk) => {
+      if (error) throw error;
+      part.size += chunk.length;
+      if (part.size > MAX_INFLATED_STREAM_BYTES) throw new DecompressionLimitError();
+      chunks.push(chunk);
+    };
+    file.start();
+  });
+  unzip.register(UnzipInflate);
+  for (let offset = 0; offset < data.length; offset += ZIP_SLICE_BYTES) {
+    unzip.push(data.subarray(offset, offset + ZIP_SLICE_BYTES), offset + ZIP_SLICE_BYTES >= data.length);
+  }
+
+  if (!part.chunks) return null;
+  const out = new Uint8Array(part.size);
+  let offset = 0;
+  for (const chunk of part.chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
+
+export async function extractDocxText(buf: ArrayBuffer): Promise<ExtractedDocumentText> {
+  const data = new Uint8Array(buf);
+  // Every zip starts with a local file header.
+  if (data[0] !== 0x50 || data[1] !== 0x4b || data[2] !== 0x03 || data[3] !== 0x04) {
+    throw new Error('Not a DOCX file');
+  }
+  let documentXml: Uint8Array | null;
+  try {
+    documentXml = readDocumentPart(data);
+  } catch (error) {
+    if (error instanceof DecompressionLimitError) throw error;
+    throw new Error('Not a DOCX file');
+  }
+  if (!documentXml) {
+    throw new Error('DOCX is missing word/document.xml');
+  }
+  const xml = strFromU8(documentXml);
+  const body = /<w:body\b[^>]*>([\s\S]*)<\/w:body>/.exec(xml)?.[1] ?? xml;
+
+  const pages: string[][] = [[]];
+  let paragraph = '';
+  const endParagraph = () => {
+    const text = paragraph.replace(/[ \u00a0]+/g, ' ').trim();
+    if (text) pages[pages.length - 1].push(text);
+    paragraph = '';
+  };
+  const breakPage = () => {
+    endParagraph();
+    if (pages[pages.length - 1].length > 0) pages.push([]);
+  };
+
+  // Walk the tags in document order; only the ones that carry text or layout matter.
+  const tags = /<(\/?)(w:p|w:t|w:tab|w:br|w:cr|w:lastRenderedPageBreak|w:delText|w:instrText)\b([^>]*?)(\/?)>/g;
+  let match: RegExpExecArray | null;
+  while ((match = tags.exec(body)) !== null) {
+    const [, closing, tag, attributes, selfClosing] = match;
+    switch (tag) {
+      case 'w:p':
+        if (closing || selfClosing) endParagraph();
+        break;
+      case 'w:t': {
+        if (closing || selfClosing) break;
+        const end = body.indexOf('</w:t>', tags.lastIndex);
+        if (end === -1) break;
+        paragraph += decodeXmlEntities(body.slice(tags.lastIndex, end));
+        tags.lastIndex = end + '</w:t>'.length;
+        break;
+      }
+      case 'w:tab':
+        paragraph += '\t';
+        break;
+      case 'w:br':
+        if (/w:type="page"/.test(attributes)) breakPage();
+        else paragraph += '\n';
+        break;
+      case 'w:cr':
+        paragraph += '\n';
+        break;
+      case 'w:lastRenderedPageBreak':
+        breakPage();
+        break;
+      default:
+        // Tracked deletions and field codes are not part of the visible text.
+        if (!closing && !selfClosing) {
+          const end = body.indexOf(`</${tag}>`, tags.lastIndex);
+          if (end !== -1) tags.lastIndex = end + tag.length + 3;
+        }
+        break;
+    }
+  }
+  endParagraph();
+
+  const pageTexts = pages.map((lines) => lines.join('\n'));
+  const fullText = pageTexts.filter(Boolean).join(PDF_PAGE_DELIMITER);
+  return {
+    pages: pageTexts,
+    fullText,
+    pageCount: pageTexts.length,
+    keyInfo: extractKeyLegalInfo(fullText),
+  };
+}
@@ -0,0 +1,78 @@
+// Bounded Flate decompression for uploaded documents.
+//
+// An upload under the size limit can still inflate to gigabytes (a zip or
+// deflate "bomb") and take the isolate down with it. Everything we inflate
+// from a user file goes through here: each stream has a ceiling, and an
+// InflateBudget caps the total across one document. Going over either throws
+// DecompressionLimitError, and extraction stops there.
+
+import { Inflate, Unzlib } from 'fflate';
+
+/** Largest single inflated stream (a PDF content stream, a DOCX part). */
+export const MAX_INFLATED_STREAM_BYTES = 16 * 1024 * 1024;
+/** Largest total inflated output for one document. */
+export const MAX_INFLATED_TOTAL_BYTES = 64 * 1024 * 1024;
+
+// Input is fed in slices so one push can't produce more than ~1000x its size.
+const INPUT_SLICE_BYTES = 4 * 1024;
+
+export class DecompressionLimitError extends Error {
+  constructor(message = 'Document expands beyond the size we can process') {
+    super(message);
+    this.name = 'DecompressionLimitError';
+  }
+}
+
+/** Running total of inflated bytes for one document. */
+export class InflateBudget {
+  private used = 0;
+
+  constructor(
+    readonly streamLimit = MAX_INFLATED_STREAM_BYTES,
+    readonly totalLimit = MAX_INFLATED_TOTAL_BYTES,
+  ) {}
+
+  /** Bytes the next stream may inflate to. */
+  get nextStreamLimit(): number {
+    return Math.min(this.streamLimit, this.totalLimit - this.used);
+  }
+
+  charge(bytes: number): void {
+    this.used += bytes;
+    if (this.used > this.totalLimit) throw new DecompressionLimitError();
+  }
+}
+
+/**
+ * Inflates zlib-wrapped (`zlib`) or bare DEFLATE (`raw`) data, throwing
+ * DecompressionLimitError as soon as the output passes the budget's limit for
+ * one stream. Other decode failures throw as fflate reports them.
+ */
+export const inflateWithinBudget = (data: Uint8Array, format: 'zlib' | 'raw', budget: InflateBudget): Uint8Array => {
+  const limit = budget.nextStreamLimit;
+  if (limit <= 0) throw new DecompressionLimitError();
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const stream = format === 'zlib' ? new Unzlib() : new Inflate();
+  stream.ondata = (chunk) => {
+    size += chunk.length;
+    if (size > limit) throw new DecompressionLimitError();
+    chunks.push(chunk);
+  };
+  if (data.length === 0) {
+    stream.push(data, true);
+  }
+  for (let offset = 0; offset < data.length; offset += INPUT_SLICE_BYTES) {
+    stream.push(data.subarray(offset, offset + INPUT_SLICE_BYTES), offset + INPUT_SLICE_BYTES >= data.length);
+  }
+  budget.charge(size);
+
+  const out = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+};
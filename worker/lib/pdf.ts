@@ -1,122 +1,751 @@
-// Basic PDF text extraction for Cloudflare Workers
-// Note: PDF.js and OCR libraries are not available in Workers runtime
-// This implementation uses pattern matching for text extraction
-
-export async function extractPdfText(buf: ArrayBuffer) {
-  // Enhanced PDF processing using Cloudflare AI vision model for better text extraction
-  // This approach is more reliable than regex-based text extraction for complex PDFs
-  
-  // For now, fall back to basic text extraction as a foundation
-  // Note: Could integrate with Cloudflare AI vision model for enhanced PDF processing
-  const textDecoder = new TextDecoder('utf-8');
-  const pdfContent = textDecoder.decode(buf);
-  
-  const pages: string[] = [];
-  let extractedText = '';
-  
-  // First, try to extract text using PDF-specific patterns
-  const textStreamMatches = pdfContent.match(/BT[\s\S]*?ET/g);
-  if (textStreamMatches && textStreamMatches.length > 0) {
-    extractedText = textStreamMatches.join(' ').replace(/BT|ET/g, ' ').trim();
-  }
-  
-  // Look for text between parentheses (common in PDFs)
-  const parenMatches = pdfContent.match(/\(([^)]+)\)/g);
-  if (parenMatches && parenMatches.length > 0) {
-    const parenText = parenMatches.join(' ').replace(/[()]/g, ' ').trim();
-    extractedText += ' ' + parenText;
-  }
-  
-  // Look for text between quotes
-  const quoteMatches = pdfContent.match(/"([^"]+)"/g);
-  if (quoteMatches && quoteMatches.length > 0) {
-    const quoteText = quoteMatches.join(' ').replace(/"/g, ' ').trim();
-    extractedText += ' ' + quoteText;
-  }
-  
-  // Look for text after /Text operators
-  const textOperatorMatches = pdfContent.match(/\/Text\s+([^\s]+)/g);
-  if (textOperatorMatches && textOperatorMatches.length > 0) {
-    const textOpText = textOperatorMatches.join(' ').replace(/\/Text/g, ' ').trim();
-    extractedText += ' ' + textOpText;
-  }
-  
-  // If we found structured text, use it
-  if (extractedText.length > 10) {
-    pages.push(normalize(extractedText));
-  } else {
-    // Fallback: extract readable ASCII text
-    const fallbackText = pdfContent.replace(/[^\x20-\x7E\n\r\t]/g, ' ').replace(/\s+/g, ' ').trim();
-    
-    // Remove any [object Object] artifacts
-    const cleanText = fallbackText.replace(/\[object Object\]/g, '').trim();
-    
-    if (cleanText.length > 10) {
-      pages.push(normalize(cleanText));
-    } else {
-      // Last resort: try to find any readable text
-      const anyText = pdfContent.match(/[A-Za-z0-9\s]{10,}/g);
-      if (anyText && anyText.length > 0) {
-        pages.push(normalize(anyText.join(' ')));
+// PDF text extraction for Cloudflare Workers, without external services.
+//
+// Parses the file's objects (including compressed object streams), inflates
+// content streams, walks the page tree in order, and decodes every shown
+// string through its font: the ToUnicode CMap when there is one, otherwise
+// the simple-font encoding (WinAnsi / MacRoman / Standard plus /Differences).
+// Text in Form XObjects is included. Scanned pages (images only) come back as
+// empty strings — there is no OCR here. Encrypted files are rejected, and so
+// are files whose streams inflate past the limits in ./inflate.ts.
+
+import { DecompressionLimitError, InflateBudget, inflateWithinBudget } from './inflate.js';
+
+export const PDF_PAGE_DELIMITER = '\n\n---\n\n';
+
+export interface ExtractedDocumentText {
+  /** One entry per page, in reading order; empty for pages with no text layer. */
+  pages: string[];
+  fullText: string;
+  pageCount: number;
+  keyInfo: string;
+}
+
+// ---------------------------------------------------------------------------
+// Object model and lexer
+// ---------------------------------------------------------------------------
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number) {}
+}
+
+class PdfOperator {
+  constructor(readonly op: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfOperator | Uint8Array | PdfValue[] | PdfDict;
+
+interface PdfObject {
+  value: PdfValue;
+  /** Raw (still encoded) stream bytes when the object is a stream. */
+  stream?: Uint8Array;
+}
+
+const isWhitespace = (c: number) => c === 0x00 || c === 0x09 || c === 0x0a || c === 0x0c || c === 0x0d || c === 0x20;
+const isDelimiter = (c: number) => c === 0x28 || c === 0x29 || c === 0x3c || c === 0x3e || c === 0x5b || c === 0x5d
+  || c === 0x7b || c === 0x7d || c === 0x2f || c === 0x25;
+
+const DICT_END = Symbol('>>');
+const ARRAY_END = Symbol(']');
+type Token = PdfValue | typeof DICT_END | typeof ARRAY_END;
+
+class PdfLexer {
+  pos: number;
+
+  constructor(private readonly data: Uint8Array, start = 0) {
+    this.pos = start;
+  }
+
+  skipWhitespace(): void {
+    while (this.pos < this.data.length) {
+      const c = this.data[this.pos];
+      if (isWhitespace(c)) {
+        this.pos++;
+      } else if (c === 0x25) { // % comment
+        while (this.pos < this.data.length && this.data[this.pos] !== 0x0a && this.data[this.pos] !== 0x0d) this.pos++;
       } else {
-        pages.push('PDF document - unable to extract text content');
+        break;
       }
     }
   }
 
-  const result: { pages: string[]; fullText: string; pageCount: number } = { 
-    pages, 
-    fullText: pages.join("\n\n---\n\n"),
-    pageCount: pages.length
-  };
+  /** Next complete value (arrays and dicts assembled, `n g R` folded into refs); undefined at EOF. */
+  read(): PdfValue | undefined {
+    const token = this.readToken();
+    if (token === DICT_END || token === ARRAY_END) return this.read();
+    return token;
+  }
 
-  // Check text quality and clean if needed
-  const printableChars = result.fullText.replace(/[^\x20-\x7E\n\r\t]/g, '').length;
-  const totalChars = result.fullText.length;
-  const printableRatio = totalChars > 0 ? printableChars / totalChars : 0;
-  
-  // If text is mostly garbled, try to clean it up
-  if (printableRatio < 0.7 && totalChars > 100) {
-    // Try to extract only the cleanest parts
-    const cleanText = result.fullText
-      .replace(/[^\x20-\x7E\n\r\t]/g, ' ') // Replace non-printable with spaces
-      .replace(/\s+/g, ' ') // Normalize whitespace
-      .trim();
-    
-    const cleanRatio = cleanText.length > 0 ? cleanText.replace(/[^\x20-\x7E]/g, '').length / cleanText.length : 0;
-    
-    if (cleanRatio > 0.8 && cleanText.length > 50) {
-      result.fullText = cleanText;
-      
-      // Update pages to stay consistent with cleaned fullText
-      // Split using the same delimiter consumers expect
-      const pageDelimiter = "\n\n---\n\n";
-      if (cleanText.includes(pageDelimiter)) {
-        result.pages = cleanText.split(pageDelimiter);
-      } else {
-        // If delimiter not present, treat as single page
-        result.pages = [cleanText];
+  private readToken(): Token | undefined {
+    this.skipWhitespace();
+    if (this.pos >= this.data.length) return undefined;
+    const c = this.data[this.pos];
+
+    if (c === 0x5b) { // [
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (;;) {
+        const item = this.readToken();
+        if (item === undefined || item === ARRAY_END) return items;
+        if (item !== DICT_END) items.push(item);
+      }
+    }
+    if (c === 0x5d) { this.pos++; return ARRAY_END; }
+    if (c === 0x3c && this.data[this.pos + 1] === 0x3c) { // <<
+      this.pos += 2;
+      const dict: PdfDict = new Map();
+      for (;;) {
+        const key = this.readToken();
+        if (key === undefined || key === DICT_END) return dict;
+        if (!(key instanceof PdfName)) continue;
+        const value = this.readToken();
+        if (value === undefined || value === DICT_END) return dict;
+        if (value !== ARRAY_END) dict.set(key.name, value);
+      }
+    }
+    if (c === 0x3e && this.data[this.pos + 1] === 0x3e) { this.pos += 2; return DICT_END; }
+    if (c === 0x3c) return this.readHexString();
+    if (c === 0x28) return this.readLiteralString();
+    if (c === 0x2f) {
+      this.pos++;
+      return new PdfName(this.readWord().replace(/#([0-9a-fA-F]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))));
+    }
+
+    const word = this.readWord();
+    if (!word) { this.pos++; return this.readToken(); }
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) {
+      const number = Number(word);
+      // Look ahead for an indirect reference: `num gen R`.
+      if (/^\d+$/.test(word)) {
+        const saved = this.pos;
+        this.skipWhitespace();
+        const generation = this.readWord();
+        this.skipWhitespace();
+        if (/^\d+$/.test(generation) && this.data[this.pos] === 0x52 /* R */
+          && (this.pos + 1 >= this.data.length || isWhitespace(this.data[this.pos + 1]) || isDelimiter(this.data[this.pos + 1]))) {
+          this.pos++;
+          return new PdfRef(number);
+        }
+        this.pos = saved;
+      }
+      return number;
+    }
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    return new PdfOperator(word);
+  }
+
+  private readWord(): string {
+    const start = this.pos;
+    while (this.pos < this.data.length && !isWhitespace(this.data[this.pos]) && !isDelimiter(this.data[this.pos])) this.pos++;
+    return bytesToLatin1(this.data.subarray(start, this.pos));
+  }
+
+  private readHexString(): Uint8Array {
+    this.pos++;
+    let hex = '';
+    while (this.pos < this.data.length && this.data[this.pos] !== 0x3e) {
+      const c = this.data[this.pos++];
+      if (!isWhitespace(c)) hex += String.fromCharCode(c);
+    }
+    this.pos++;
+    if (hex.length % 2) hex += '0';
+    const out = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16) || 0;
+    return out;
+  }
+
+  private readLiteralString(): Uint8Array {
+    this.pos++;
+    const out: number[] = [];
+    let depth = 1;
+    while (this.pos < this.data.length) {
+      const c = this.data[this.pos++];
+      if (c === 0x5c) { // backslash escape
+        const next = this.data[this.pos++];
+        const escapes: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+        if (next in escapes) out.push(escapes[next]);
+        else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (let i = 0; i < 2 && this.data[this.pos] >= 0x30 && this.data[this.pos] <= 0x37; i++) {
+            octal = octal * 8 + (this.data[this.pos++] - 0x30);
+          }
+          out.push(octal & 0xff);
+        } else if (next === 0x0d) {
+          if (this.data[this.pos] === 0x0a) this.pos++; // line continuation
+        } else if (next !== 0x0a) {
+          out.push(next);
+        }
+        continue;
+      }
+      if (c === 0x28) depth++;
+      if (c === 0x29 && --depth === 0) break;
+      out.push(c);
+    }
+    return Uint8Array.from(out);
+  }
+
+  /** Skips inline image data after an `ID` operator, up to and including `EI`. */
+  skipInlineImage(): void {
+    this.pos++;
+    while (this.pos < this.data.length - 2) {
+      if (this.data[this.pos] === 0x45 && this.data[this.pos + 1] === 0x49 /* EI */
+        && isWhitespace(this.data[this.pos - 1]) && (isWhitespace(this.data[this.pos + 2]) || this.pos + 2 >= this.data.length)) {
+        this.pos += 2;
+        return;
+      }
+      this.pos++;
+    }
+    this.pos = this.data.length;
+  }
+}
+
+const bytesToLatin1 = (bytes: Uint8Array): string => {
+  let out = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return out;
+};
+
+const nameOf = (value: PdfValue | undefined): string | null => (value instanceof PdfName ? value.name : null);
+const isDict = (value: PdfValue | undefined): value is PdfDict => value instanceof Map;
+
+// ---------------------------------------------------------------------------
+// Document: objects, streams, page tree
+// ---------------------------------------------------------------------------
+
+const decodeAscii85 = (data: Uint8Array): Uint8Array => {
+  const out: number[] = [];
+  let group: number[] = [];
+  const text = bytesToLatin1(data).replace(/\s+/g, '').replace(/^<~/, '');
+  for (const char of text) {
+    if (char === '~') break;
+    if (char === 'z' && group.length === 0) { out.push(0, 0, 0, 0); continue; }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      const value = group.reduce((acc, digit) => acc * 85 + digit, 0);
+      out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+      group = [];
+    }
+  }
+  if (group.length > 1) {
+    const missing = 5 - group.length;
+    const value = [...group, ...Array(missing).fill(84)].reduce((acc, digit) => acc * 85 + digit, 0);
+    out.push(...[(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff].slice(0, 4 - missing));
+  }
+  return Uint8Array.from(out);
+};
+
+const decodeAsciiHex = (data: Uint8Array): Uint8Array => {
+  const hex = bytesToLatin1(data).replace(/[^0-9a-fA-F]/g, '');
+  const padded = hex.length % 2 ? `${hex}0` : hex;
+  const out = new Uint8Array(padded.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(padded.slice(i * 2, i * 2 + 2), 16);
+  return out;
+};
+
+class PdfDocumentReader {
+  private readonly objects = new Map<number, PdfObject>();
+  private readonly decoded = new Map<number, Uint8Array | null>();
+  private readonly inflateBudget = new InflateBudget();
+
+  constructor(private readonly data: Uint8Array) {
+    this.scanObjects();
+  }
+
+  private scanObjects(): void {
+    const text = bytesToLatin1(this.data);
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    const objectStreams: PdfObject[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(text)) !== null) {
+      const lexer = new PdfLexer(this.data, match.index + match[0].length);
+      const value = lexer.read();
+      if (value === undefined) continue;
+      const object: PdfObject = { value };
+      lexer.skipWhitespace();
+      if (isDict(value) && text.startsWith('stream', lexer.pos)) {
+        let start = lexer.pos + 'stream'.length;
+        if (this.data[start] === 0x0d) start++;
+        if (this.data[start] === 0x0a) start++;
+        const declared = value.get('Length');
+        let end = typeof declared === 'number' ? start + declared : -1;
+        if (end < start || !/^\s*endstream/.test(text.slice(end, end + 20))) {
+          end = text.indexOf('endstream', start);
+          if (end === -1) end = this.data.length;
+          if (this.data[end - 1] === 0x0a) end--;
+          if (this.data[end - 1] === 0x0d) end--;
+        }
+        object.stream = this.data.subarray(start, end);
+        header.lastIndex = end;
+        if (nameOf(value.get('Type')) === 'ObjStm') objectStreams.push(object);
+      }
+      // Later definitions (incremental updates) replace earlier ones.
+      this.objects.set(Number(match[1]), object);
+    }
+
+    // Objects packed into object streams (PDF 1.5+) — pages and fonts usually live here.
+    for (const objectStream of objectStreams) {
+      const bytes = this.decodeStream(objectStream);
+      const dict = objectStream.value as PdfDict;
+      const count = dict.get('N');
+      const first = dict.get('First');
+      if (!bytes || typeof count !== 'number' || typeof first !== 'number') continue;
+      const index = new PdfLexer(bytes);
+      const entries: Array<[number, number]> = [];
+      for (let i = 0; i < count; i++) {
+        const num = index.read();
+        const offset = index.read();
+        if (typeof num === 'number' && typeof offset === 'number') entries.push([num, offset]);
+      }
+      for (const [num, offset] of entries) {
+        if (this.objects.has(num)) continue;
+        const value = new PdfLexer(bytes, first + offset).read();
+        if (value !== undefined) this.objects.set(num, { value });
+      }
+    }
+  }
+
+  get isEncrypted(): boolean {
+    for (const object of this.objects.values()) {
+      if (isDict(object.value) && object.value.has('Encrypt') && (object.value.has('Root') || nameOf(object.value.get('Type')) === 'XRef')) {
+        return true;
+      }
+    }
+    return /trailer\s*<<[^]*?\/Encrypt\b/.test(bytesToLatin1(this.data.subarray(Math.max(0, this.data.length - 4096))));
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value instanceof PdfRef && depth < 16) return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+    return value;
+  }
+
+  resolveDict(value: PdfValue | undefined): PdfDict | null {
+    const resolved = this.resolve(value);
+    return isDict(resolved) ? resolved : null;
+  }
+
+  /** Decoded stream bytes for a reference (or stream object); null if unsupported or corrupt. */
+  streamBytes(value: PdfValue | undefined): Uint8Array | null {
+    if (!(value instanceof PdfRef)) return null;
+    if (this.decoded.has(value.num)) return this.decoded.get(value.num) ?? null;
+    const object = this.objects.get(value.num);
+    const bytes = object ? this.decodeStream(object) : null;
+    this.decoded.set(value.num, bytes);
+    return bytes;
+  }
+
+  private decodeStream(object: PdfObject): Uint8Array | null {
+    if (!object.stream || !isDict(object.value)) return null;
+    const filter = this.resolve(object.value.get('Filter'));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map((entry) => nameOf(this.resolve(entry)));
+    let bytes: Uint8Array = object.stream;
+    try {
+      for (const name of filters) {
+        if (name === 'FlateDecode' || name === 'Fl') {
+          try {
+            bytes = inflateWithinBudget(bytes, 'zlib', this.inflateBudget);
+          } catch (error) {
+            if (error instanceof DecompressionLimitError) throw error;
+            bytes = inflateWithinBudget(bytes, 'raw', this.inflateBudget);
+          }
+        } else if (name === 'ASCII85Decode' || name === 'A85') {
+          bytes = decodeAscii85(bytes);
+        } else if (name === 'ASCIIHexDecode' || name === 'AHx') {
+          bytes = decodeAsciiHex(bytes);
+        } else {
+          return null; // Image codecs (DCT, JBIG2, CCITT) and LZW carry no text we can use.
+        }
       }
-      
-      // Update page count metadata
-      result.pageCount = result.pages.length;
-    } else {
-      throw new Error('PDF text extraction produced garbled content, using fallback strategy');
+    } catch (error) {
+      // A corrupt stream is skipped; one that inflates past the limits ends extraction.
+      if (error instanceof DecompressionLimitError) throw error;
+      return null;
+    }
+    return bytes;
+  }
+
+  /** Page dicts in reading order, with inherited /Resources applied. */
+  pages(): PdfDict[] {
+    let catalog: PdfDict | null = null;
+    for (const object of this.objects.values()) {
+      if (isDict(object.value) && nameOf(object.value.get('Type')) === 'Catalog') catalog = object.value;
     }
+    const pages: PdfDict[] = [];
+    const visited = new Set<PdfDict>();
+    const walk = (node: PdfDict | null, inheritedResources: PdfValue | undefined) => {
+      if (!node || visited.has(node)) return;
+      visited.add(node);
+      const resources = node.get('Resources') ?? inheritedResources;
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) {
+        for (const kid of kids) walk(this.resolveDict(kid), resources);
+      } else if (nameOf(node.get('Type')) === 'Page' || node.has('Contents')) {
+        const page = new Map(node);
+        if (resources !== undefined) page.set('Resources', resources);
+        pages.push(page);
+      }
+    };
+    walk(catalog ? this.resolveDict(catalog.get('Pages')) : null, undefined);
+    if (pages.length > 0) return pages;
+
+    // No usable page tree (damaged file): fall back to page objects in object order.
+    return [...this.objects.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([, object]) => object.value)
+      .filter((value): value is PdfDict => isDict(value) && nameOf(value.get('Type')) === 'Page');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fonts
+// ---------------------------------------------------------------------------
+
+// WinAnsiEncoding differs from Latin-1 only in 0x80–0x9F.
+const WIN_ANSI_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+// MacRomanEncoding, 0x80–0xFF.
+const MAC_ROMAN_HIGH = 'ÄÅÇÉÑÖÜáàâäãåçéèêëíìîïñóòôöõúùûü†°¢£§•¶ß®©™´¨≠ÆØ∞±≤≥¥µ∂∑∏π∫ªºΩæø¿¡¬√ƒ≈∆«»… ÀÃÕŒœ–—“”‘’÷◊ÿŸ⁄€‹›ﬁﬂ‡·‚„‰ÂÊÁËÈÍÎÏÌÓÔÒÚÛÙıˆ˜¯˘˙˚¸˝˛ˇ';
+
+const baseEncoding = (name: string | null): string[] => {
+  const table = Array.from({ length: 256 }, (_, code) => String.fromCharCode(code));
+  if (name === 'MacRomanEncoding') {
+    Array.from(MAC_ROMAN_HIGH).forEach((char, i) => { table[0x80 + i] = char; });
+  } else if (name === 'StandardEncoding') {
+    table[0x27] = '’';
+    table[0x60] = '‘';
+  } else {
+    Array.from(WIN_ANSI_HIGH).forEach((char, i) => { table[0x80 + i] = char; });
   }
+  return table;
+};
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", quoteright: '’', quoteleft: '‘', parenleft: '(', parenright: ')', asterisk: '*', plus: '+',
+  comma: ',', hyphen: '-', minus: '−', period: '.', slash: '/', colon: ':', semicolon: ';', less: '<', equal: '=',
+  greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', asciicircum: '^',
+  underscore: '_', grave: '`', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~', bullet: '•',
+  endash: '–', emdash: '—', quotedblleft: '“', quotedblright: '”', quotesinglbase: '‚', quotedblbase: '„',
+  ellipsis: '…', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', section: '§', paragraph: '¶',
+  copyright: '©', registered: '®', trademark: '™', degree: '°', dagger: '†', daggerdbl: '‡', germandbls: 'ß',
+  ae: 'æ', AE: 'Æ', oe: 'œ', OE: 'Œ', oslash: 'ø', Oslash: 'Ø', dotlessi: 'ı', Euro: '€', sterling: '£',
+  yen: '¥', cent: '¢', nbspace: '\u00a0', periodcentered: '·', guillemotleft: '«', guillemotright: '»',
+  zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+};
+
+const ACCENTS: Record<string, string> = {
+  acute: '\u0301', grave: '\u0300', circumflex: '\u0302', tilde: '\u0303', dieresis: '\u0308',
+  ring: '\u030a', cedilla: '\u0327', caron: '\u030c', macron: '\u0304', breve: '\u0306', ogonek: '\u0328',
+  dotaccent: '\u0307', hungarumlaut: '\u030b',
+};
 
-  // Extract key information for legal intake
-  const keyInfo = extractKeyLegalInfo(result.fullText);
+/** Unicode for an Adobe glyph name (common names, uniXXXX, uXXXX, and accented letters like `eacute`). */
+const glyphNameToUnicode = (name: string): string | null => {
+  if (name in GLYPH_NAMES) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const uni = /^uni([0-9A-Fa-f]{4})+$/.test(name)
+    ? name.slice(3).match(/.{4}/g)?.map((hex) => String.fromCharCode(parseInt(hex, 16))).join('') ?? null
+    : null;
+  if (uni) return uni;
+  const u = /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  if (u) return String.fromCodePoint(parseInt(u[1], 16));
+  const accented = /^([A-Za-z])([a-z]+)$/.exec(name);
+  if (accented && accented[2] in ACCENTS) return (accented[1] + ACCENTS[accented[2]]).normalize('NFC');
+  return null;
+};
 
-  return { ...result, keyInfo };
+interface PdfFontDecoder {
+  decode(bytes: Uint8Array): string;
 }
 
-function normalize(s: string) {
-  return s.replace(/\s+/g, " ").replace(/\u00AD/g, "") // soft hyphen
-          .replace(/-\s+/g, "-").trim();
+const utf16beToString = (bytes: Uint8Array): string => {
+  let out = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) out += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+  return out;
+};
+
+const bytesToCode = (bytes: Uint8Array): number => bytes.reduce((code, byte) => code * 256 + byte, 0);
+
+/** Parses a ToUnicode CMap into code → text, plus the code width in bytes. */
+const parseToUnicode = (bytes: Uint8Array): { map: Map<number, string>; codeLength: number } => {
+  const map = new Map<number, string>();
+  let codeLength = 1;
+  const lexer = new PdfLexer(bytes);
+  const operands: PdfValue[] = [];
+  for (let value = lexer.read(); value !== undefined; value = lexer.read()) {
+    if (!(value instanceof PdfOperator)) {
+      operands.push(value);
+      continue;
+    }
+    if (value.op === 'endcodespacerange') {
+      for (const operand of operands) if (operand instanceof Uint8Array) codeLength = Math.max(codeLength, operand.length);
+    } else if (value.op === 'endbfchar') {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const [src, dst] = [operands[i], operands[i + 1]];
+        if (src instanceof Uint8Array && dst instanceof Uint8Array) map.set(bytesToCode(src), utf16beToString(dst));
+      }
+    } else if (value.op === 'endbfrange') {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const [lo, hi, dst] = [operands[i], operands[i + 1], operands[i + 2]];
+        if (!(lo instanceof Uint8Array) || !(hi instanceof Uint8Array)) continue;
+        const start = bytesToCode(lo);
+        const end = Math.min(bytesToCode(hi), start + 0xffff);
+        for (let code = start; code <= end; code++) {
+          if (Array.isArray(dst)) {
+            const entry = dst[code - start];
+            if (entry instanceof Uint8Array) map.set(code, utf16beToString(entry));
+          } else if (dst instanceof Uint8Array && dst.length >= 2) {
+            // Increment the last UTF-16 unit across the range.
+            const base = utf16beToString(dst);
+            map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + (code - start)));
+          }
+        }
+      }
+    }
+    operands.length = 0;
+  }
+  return { map, codeLength };
+};
+
+const buildFontDecoder = (doc: PdfDocumentReader, font: PdfDict): PdfFontDecoder => {
+  const subtype = nameOf(font.get('Subtype'));
+  const toUnicodeBytes = doc.streamBytes(font.get('ToUnicode'));
+  const toUnicode = toUnicodeBytes ? parseToUnicode(toUnicodeBytes) : null;
+
+  if (subtype === 'Type0') {
+    // Composite fonts use two-byte CIDs; without a ToUnicode map the CIDs
+    // are glyph indexes with no recoverable text.
+    const codeLength = toUnicode?.codeLength ?? 2;
+    return {
+      decode(bytes) {
+        if (!toUnicode) return '';
+        let out = '';
+        for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+          out += toUnicode.map.get(bytesToCode(bytes.subarray(i, i + codeLength))) ?? '';
+        }
+        return out;
+      },
+    };
+  }
+
+  const encodingValue = doc.resolve(font.get('Encoding'));
+  const encodingDict = isDict(encodingValue) ? encodingValue : null;
+  const table = baseEncoding(nameOf(encodingDict ? encodingDict.get('BaseEncoding') : encodingValue));
+  const differences = doc.resolve(encodingDict?.get('Differences'));
+  if (Array.isArray(differences)) {
+    let code = 0;
+    for (const entry of differences) {
+      if (typeof entry === 'number') {
+        code = entry;
+      } else if (entry instanceof PdfName) {
+        const text = glyphNameToUnicode(entry.name);
+        if (text !== null && code < 256) table[code] = text;
+        code++;
+      }
+    }
+  }
+  return {
+    decode(bytes) {
+      let out = '';
+      for (const byte of bytes) out += toUnicode?.map.get(byte) ?? table[byte];
+      return out;
+    },
+  };
+};
+
+const WIN_ANSI_TABLE = baseEncoding(null);
+// Strings shown before any Tf (or with a missing font resource) are read as WinAnsi.
+const FALLBACK_DECODER: PdfFontDecoder = { decode: (bytes) => Array.from(bytes, (byte) => WIN_ANSI_TABLE[byte]).join('') };
+
+// ---------------------------------------------------------------------------
+// Content streams
+// ---------------------------------------------------------------------------
+
+// TJ adjustments more negative than this (thousandths of an em) read as a word gap.
+const TJ_SPACE_THRESHOLD = -180;
+const MAX_FORM_DEPTH = 4;
+
+class PageTextCollector {
+  private lines: string[] = [''];
+  private lastY: number | null = null;
+
+  newLine(): void {
+    if (this.lines[this.lines.length - 1].trim()) this.lines.push('');
+  }
+
+  moveTo(y: number): void {
+    if (this.lastY !== null && Math.abs(y - this.lastY) > 1) this.newLine();
+    this.lastY = y;
+  }
+
+  append(text: string): void {
+    this.lines[this.lines.length - 1] += text;
+  }
+
+  space(): void {
+    const line = this.lines[this.lines.length - 1];
+    if (line && !line.endsWith(' ')) this.lines[this.lines.length - 1] += ' ';
+  }
+
+  text(): string {
+    return this.lines
+      .map((line) => line.replace(/\u00ad/g, '').replace(/[ \t\u00a0]+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n');
+  }
+}
+
+const collectContentText = (
+  doc: PdfDocumentReader,
+  content: Uint8Array,
+  resources: PdfDict | null,
+  collector: PageTextCollector,
+  fontCache: Map<PdfDict, PdfFontDecoder>,
+  depth: number,
+): void => {
+  const fontsDict = doc.resolveDict(resources?.get('Font'));
+  const xObjects = doc.resolveDict(resources?.get('XObject'));
+  const lexer = new PdfLexer(content);
+  const operands: PdfValue[] = [];
+  let decoder: PdfFontDecoder = FALLBACK_DECODER;
+
+  const show = (value: PdfValue | undefined) => {
+    if (value instanceof Uint8Array) collector.append(decoder.decode(value));
+  };
+
+  for (let value = lexer.read(); value !== undefined; value = lexer.read()) {
+    if (!(value instanceof PdfOperator)) {
+      operands.push(value);
+      continue;
+    }
+    switch (value.op) {
+      case 'Tf': {
+        const font = doc.resolveDict(fontsDict?.get(nameOf(operands[0]) ?? ''));
+        if (font) {
+          let cached = fontCache.get(font);
+          if (!cached) {
+            cached = buildFontDecoder(doc, font);
+            fontCache.set(font, cached);
+          }
+          decoder = cached;
+        } else {
+          decoder = FALLBACK_DECODER;
+        }
+        break;
+      }
+      case 'Td':
+      case 'TD': {
+        const ty = operands[1];
+        if (typeof ty === 'number' && Math.abs(ty) > 0.5) collector.newLine();
+        else if (typeof operands[0] === 'number' && operands[0] > 0) collector.space();
+        break;
+      }
+      case 'Tm': {
+        const y = operands[5];
+        if (typeof y === 'number') collector.moveTo(y);
+        break;
+      }
+      case 'T*':
+        collector.newLine();
+        break;
+      case "'":
+        collector.newLine();
+        show(operands[0]);
+        break;
+      case '"':
+        collector.newLine();
+        show(operands[2]);
+        break;
+      case 'Tj':
+        show(operands[0]);
+        break;
+      case 'TJ': {
+        const items = operands[0];
+        if (Array.isArray(items)) {
+          for (const item of items) {
+            if (typeof item === 'number') {
+              if (item < TJ_SPACE_THRESHOLD) collector.space();
+            } else {
+              show(item);
+            }
+          }
+        }
+        break;
+      }
+      case 'ET':
+        collector.space();
+        break;
+      case 'ID':
+        lexer.skipInlineImage();
+        break;
+      case 'Do': {
+        const ref = xObjects?.get(nameOf(operands[0]) ?? '');
+        const form = doc.resolveDict(ref);
+        if (form && nameOf(form.get('Subtype')) === 'Form' && depth < MAX_FORM_DEPTH) {
+          const formContent = doc.streamBytes(ref);
+          if (formContent) {
+            const formResources = doc.resolveDict(form.get('Resources')) ?? resources;
+            collectContentText(doc, formContent, formResources, collector, fontCache, depth + 1);
+          }
+        }
+        break;
+      }
+      default:
+        break;
+    }
+    operands.length = 0;
+  }
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length + 1, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    out[offset + part.length] = 0x0a; // keep tokens from fusing across stream boundaries
+    offset += part.length + 1;
+  }
+  return out;
+};
+
+export async function extractPdfText(buf: ArrayBuffer): Promise<ExtractedDocumentText> {
+  const data = new Uint8Array(buf);
+  if (bytesToLatin1(data.subarray(0, 1024)).indexOf('%PDF-') === -1) {
+    throw new Error('Not a PDF file');
+  }
+  const doc = new PdfDocumentReader(data);
+  if (doc.isEncrypted) {
+    throw new Error('Encrypted PDFs are not supported');
+  }
+
+  const fontCache = new Map<PdfDict, PdfFontDecoder>();
+  const pages = doc.pages().map((page) => {
+    const contents = doc.resolve(page.get('Contents'));
+    const refs = Array.isArray(contents) ? contents : [page.get('Contents')];
+    const streams = refs
+      .map((ref) => doc.streamBytes(ref))
+      .filter((bytes): bytes is Uint8Array => Boolean(bytes));
+    const collector = new PageTextCollector();
+    collectContentText(doc, concatBytes(streams), doc.resolveDict(page.get('Resources')), collector, fontCache, 0);
+    return collector.text();
+  });
+
+  const fullText = pages.filter(Boolean).join(PDF_PAGE_DELIMITER);
+  return {
+    pages,
+    fullText,
+    pageCount: pages.length,
+    keyInfo: extractKeyLegalInfo(fullText),
+  };
 }
 
-function extractKeyLegalInfo(text: string): string {
+export function extractKeyLegalInfo(text: string): string {
   // Extract key information for legal intake analysis using regex patterns
   const lines = text.split('\n').map(line => line.trim()).filter(line => line.length > 0);
 
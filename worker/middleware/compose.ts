@@ -20,6 +20,7 @@ import { HttpErrors } from '../errorHandler.js';
 import { optionalAuth, requireAuth, type AuthContext } from './auth.js';
 import { edgeCache } from '../utils/edgeCache.js';
 import { policyTtlMs } from '../utils/cachePolicy.js';
+import { consumeRateLimitRule, withRateLimitHeaders } from './rateLimit.js';
 
 export type RouteHandler = (
   request: Request,
@@ -129,13 +130,14 @@ export const withCache = (
 };
 
 /**
- * `withRateLimit(handler, { keyFn, max, windowMs })` — token-bucket
- * style rate limit using edgeCache as the counter store.
+ * `withRateLimit(handler, { keyFn, max, windowMs })` — `max` requests
+ * per `windowMs` per key.
  *
- * Per-isolate scope means a request hitting a fresh isolate gets a
- * fresh budget; that's an explicit trade for simplicity vs. KV-backed
- * exact counting. Use this for UX guardrails (avoid one abusive client
- * spamming a single isolate), not for security-critical quotas.
+ * With the RATE_LIMITER binding the budget is a token bucket in
+ * `RateLimiterObject`, shared across isolates, and responses carry
+ * `RateLimit-*` headers. Without it the counter lives in edgeCache, so a
+ * fresh isolate gets a fresh budget — fine for UX guardrails, not for
+ * quotas.
  *
  * Returns 429 with a JSON body when the limit is exceeded; passes
  * through to the handler otherwise.
@@ -152,6 +154,18 @@ export const withRateLimit = (
     const key = opts.keyFn(request, env);
     if (!key) return handler(request, env, ctx);
 
+    if (env.RATE_LIMITER) {
+      const decision = await consumeRateLimitRule(env, `route:${key}`, opts.max, opts.windowMs / 1000);
+      if (!decision.allowed) {
+        const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
+        return withRateLimitHeaders(new Response(
+          JSON.stringify({ success: false, error: 'Rate limit exceeded', retryAfter }),
+          { status: 429, headers: { 'Content-Type': 'application/json' } },
+        ), decision);
+      }
+      return withRateLimitHeaders(await handler(request, env, ctx), decision);
+    }
+
     const bucketKey = `ratelimit:${key}`;
     const now = Date.now();
     const bucket = edgeCache.get<{ count: number; expiresAt: number }>(bucketKey);
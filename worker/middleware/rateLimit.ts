@@ -1,16 +1,288 @@
+import type { Request as WorkerRequest } from '@cloudflare/workers-types';
 import type { Env } from '../types';
+import { createRateLimitResponse } from '../errorHandler.js';
+import { RemoteApiService } from '../services/RemoteApiService.js';
+import { takeTokens, type TokenBucketResult, type TokenBucketState } from '../durable-objects/RateLimiterObject.js';
 import { parseEnvBool } from '../utils/safeStringUtils.js';
 
+/**
+ * Rate limits and quotas.
+ *
+ * Limits are grouped into route families. Each family has one limit per
+ * practice subscription tier and a window; the bucket is a token bucket
+ * in `RateLimiterObject` (one DO per `<family>:<subject>`), so counting is
+ * atomic under concurrency. `subject` is the practice for practice-scoped
+ * families (AI turns, uploads), the practice plus one chat visitor for
+ * visitor-scoped families, and the client IP for the rest.
+ *
+ * When the RATE_LIMITER binding is missing (unit tests, old local
+ * configs) buckets fall back to per-isolate memory — fine for UX
+ * guardrails, not for quotas.
+ */
+
+export type RateLimitTier = 'free' | 'trial' | 'paid';
+
+export type RateLimitFamily =
+  | 'ai_turns'
+  | 'ai_turns_visitor'
+  | 'uploads'
+  | 'analyze'
+  | 'activity';
+
+interface RateLimitFamilyConfig {
+  label: string;
+  scope: 'practice' | 'visitor' | 'client';
+  windowSec: number;
+  limits: Record<RateLimitTier, number>;
+}
+
+const DAY_SEC = 24 * 60 * 60;
+const HOUR_SEC = 60 * 60;
+
+export const RATE_LIMIT_FAMILIES: Readonly<Record<RateLimitFamily, RateLimitFamilyConfig>> = {
+  ai_turns: {
+    label: 'AI turns per day',
+    scope: 'practice',
+    windowSec: DAY_SEC,
+    limits: { free: 100, trial: 300, paid: 3000 },
+  },
+  // Caps one visitor's share of the practice's ai_turns, so a single
+  // widget visitor can't use up the practice's day.
+  ai_turns_visitor: {
+    label: 'AI turns per visitor per day',
+    scope: 'visitor',
+    windowSec: DAY_SEC,
+    limits: { free: 25, trial: 40, paid: 100 },
+  },
+  uploads: {
+    label: 'File uploads per hour',
+    scope: 'practice',
+    windowSec: HOUR_SEC,
+    limits: { free: 20, trial: 60, paid: 300 },
+  },
+  analyze: {
+    label: 'Document analyses per minute',
+    scope: 'client',
+    windowSec: 60,
+    limits: { free: 30, trial: 30, paid: 30 },
+  },
+  activity: {
+    label: 'Activity requests per minute',
+    scope: 'client',
+    windowSec: 60,
+    limits: { free: 50, trial: 50, paid: 50 },
+  },
+};
+
+export interface RateLimitDecision extends TokenBucketResult {
+  family: RateLimitFamily | null;
+  tier: RateLimitTier;
+  windowSec: number;
+}
+
+/**
+ * Plan tier for a practice. Workspaces and lapsed subscriptions are
+ * `free`; lookups that fail also land on `free` rather than blocking.
+ */
+export async function resolveRateLimitTier(
+  env: Env,
+  practiceId: string,
+  request?: Request,
+): Promise<RateLimitTier> {
+  try {
+    const status = await RemoteApiService.getSubscriptionStatus(env, practiceId, request);
+    if (status === 'trialing') return 'trial';
+    if (status === 'active' || status === 'past_due') return 'paid';
+    return 'free';
+  } catch {
+    return 'free';
+  }
+}
+
+const localBuckets = new Map<string, TokenBucketState>();
+const MAX_LOCAL_BUCKETS = 10_000;
+
+const callBucket = async (
+  env: Env,
+  bucketKey: string,
+  rule: { capacity: number; windowMs: number },
+  cost: number,
+): Promise<TokenBucketResult> => {
+  if (!env.RATE_LIMITER) {
+    const next = takeTokens(localBuckets.get(bucketKey) ?? null, rule, Date.now(), cost);
+    if (cost > 0) {
+      if (localBuckets.size >= MAX_LOCAL_BUCKETS) localBuckets.clear();
+      localBuckets.set(bucketKey, next.state);
+    }
+    return next.result;
+  }
+
+  const query = new URLSearchParams({
+    capacity: String(rule.capacity),
+    windowMs: String(rule.windowMs),
+    cost: String(cost),
+  });
+  const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(bucketKey));
+  const response = await stub.fetch(
+    new Request(`https://rate-limiter/${cost > 0 ? 'consume' : 'peek'}?${query}`, {
+      method: cost > 0 ? 'POST' : 'GET',
+    }) as unknown as WorkerRequest,
+  );
+  if (!response.ok) {
+    throw new Error(`Rate limiter responded ${response.status}`);
+  }
+  return await response.json() as TokenBucketResult;
+};
+
+/**
+ * Spends `cost` from the bucket at `bucketKey` holding `limit` tokens per
+ * `windowSec`. Fails open (allowed, with a warning) if the limiter itself
+ * errors — availability beats enforcement during a limiter outage.
+ */
+export async function consumeRateLimitRule(
+  env: Env,
+  bucketKey: string,
+  limit: number,
+  windowSec: number,
+  options: { cost?: number; family?: RateLimitFamily; tier?: RateLimitTier } = {},
+): Promise<RateLimitDecision> {
+  const rule = { capacity: limit, windowMs: windowSec * 1000 };
+  const context = { family: options.family ?? null, tier: options.tier ?? 'free', windowSec };
+  try {
+    return { ...(await callBucket(env, bucketKey, rule, options.cost ?? 1)), ...context };
+  } catch (error) {
+    console.warn(`[rateLimit] limiter unavailable for ${bucketKey}, allowing request:`, error);
+    return { allowed: true, limit, remaining: limit, resetMs: 0, retryAfterMs: 0, ...context };
+  }
+}
+
+/** Spends `cost` from `family`'s bucket for `subject` at `tier`'s limit. */
+export async function consumeRateLimit(
+  env: Env,
+  family: RateLimitFamily,
+  subject: string,
+  tier: RateLimitTier = 'free',
+  cost = 1,
+): Promise<RateLimitDecision> {
+  const config = RATE_LIMIT_FAMILIES[family];
+  return consumeRateLimitRule(env, `${family}:${subject}`, config.limits[tier], config.windowSec, {
+    cost,
+    family,
+    tier,
+  });
+}
+
+/** Current standing of `family` for `subject`, without spending. */
+export async function peekRateLimit(
+  env: Env,
+  family: RateLimitFamily,
+  subject: string,
+  tier: RateLimitTier,
+): Promise<RateLimitDecision> {
+  return consumeRateLimit(env, family, subject, tier, 0);
+}
+
+/**
+ * Practice-scoped quota: resolves the practice's tier, then spends from
+ * its bucket.
+ */
+export async function consumePracticeQuota(
+  env: Env,
+  family: RateLimitFamily,
+  practiceId: string,
+  request?: Request,
+): Promise<RateLimitDecision> {
+  const tier = await resolveRateLimitTier(env, practiceId, request);
+  return consumeRateLimit(env, family, practiceId, tier);
+}
+
+/**
+ * AI-turn quota for one chat turn. When `visitorId` is given, the visitor's
+ * bucket within the practice is spent first and a refusal there leaves the
+ * practice's bucket untouched; then the practice's daily bucket is spent.
+ * Call it only once the turn has passed request validation, so rejected
+ * requests don't cost a turn.
+ */
+export async function consumeAiTurnQuota(
+  env: Env,
+  practiceId: string,
+  visitorId: string | null,
+  request?: Request,
+): Promise<RateLimitDecision> {
+  const tier = await resolveRateLimitTier(env, practiceId, request);
+  if (visitorId) {
+    const visitor = await consumeRateLimit(env, 'ai_turns_visitor', `${practiceId}:${visitorId}`, tier);
+    if (!visitor.allowed) return visitor;
+  }
+  return consumeRateLimit(env, 'ai_turns', practiceId, tier);
+}
+
+/**
+ * `RateLimit-*` headers (IETF draft-ietf-httpapi-ratelimit-headers) plus
+ * `Retry-After` when the request was refused.
+ */
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(Math.max(0, decision.remaining)),
+    'RateLimit-Reset': String(Math.ceil(decision.resetMs / 1000)),
+    'RateLimit-Policy': `${decision.limit};w=${decision.windowSec}`,
+  };
+  if (!decision.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil(decision.retryAfterMs / 1000)));
+  }
+  return headers;
+}
+
+/** Copies the decision's headers onto `response`. */
+export function withRateLimitHeaders(response: Response, decision: RateLimitDecision): Response {
+  // WebSocket upgrades and other immutable responses pass through as-is.
+  if (response.status === 101) return response;
+  const headers = new Headers(response.headers);
+  for (const [name, value] of Object.entries(rateLimitHeaders(decision))) {
+    headers.set(name, value);
+  }
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/** 429 for a refused decision, with both header sets. */
+export function rateLimitExceededResponse(
+  decision: RateLimitDecision,
+  errorMessage = 'Rate limit exceeded. Please try again later.',
+): Response {
+  const retryAfter = Math.max(1, Math.ceil(decision.retryAfterMs / 1000));
+  const response = createRateLimitResponse(retryAfter, {
+    limit: decision.limit,
+    remaining: 0,
+    reset: Math.floor(Date.now() / 1000) + Math.ceil(decision.resetMs / 1000),
+    errorMessage,
+  });
+  return withRateLimitHeaders(response, decision);
+}
+
+/**
+ * Ad-hoc limit of `limit` requests per `windowSec` for `key`, outside the
+ * family table. Atomic when the RATE_LIMITER binding is configured;
+ * otherwise falls back to a fixed-window KV counter.
+ */
 export async function rateLimit(env: Env, key: string, limit = 60, windowSec = 60): Promise<boolean> {
   // Guard clause: validate numeric parameters
   if (typeof limit !== 'number' || !Number.isFinite(limit) || limit <= 0) {
     throw new RangeError(`Invalid limit parameter: expected a positive finite number, got ${limit}`);
   }
-  
+
   if (typeof windowSec !== 'number' || !Number.isFinite(windowSec) || windowSec <= 0) {
     throw new RangeError(`Invalid windowSec parameter: expected a positive finite number, got ${windowSec}`);
   }
 
+  if (env.RATE_LIMITER) {
+    return (await consumeRateLimitRule(env, `adhoc:${key}`, limit, windowSec)).allowed;
+  }
+
   // Check if we're in a test environment
   const isTestEnv = env.NODE_ENV === 'test' || parseEnvBool(env.ENV_TEST);
 
@@ -26,26 +298,26 @@ export async function rateLimit(env: Env, key: string, limit = 60, windowSec = 6
       return true;
     }
   }
-  
+
   const bucketKey = `rl:${key}:${Math.floor(Date.now() / (windowSec * 1000))}`;
   const current = parseInt((await env.CHAT_SESSIONS.get(bucketKey)) || "0", 10);
-  
+
   if (current >= limit) {
     return false;
   }
-  
-  await env.CHAT_SESSIONS.put(bucketKey, String(current + 1), { 
-    expirationTtl: windowSec + 5 
+
+  await env.CHAT_SESSIONS.put(bucketKey, String(current + 1), {
+    expirationTtl: windowSec + 5
   });
-  
+
   return true;
 }
 
 // Helper to get client identifier for rate limiting
 export function getClientId(request: Request): string {
   // Try Cloudflare IP first, then fallback to other headers
-  return request.headers.get("cf-connecting-ip") || 
-         request.headers.get("x-forwarded-for") || 
-         request.headers.get("x-real-ip") || 
+  return request.headers.get("cf-connecting-ip") ||
+         request.headers.get("x-forwarded-for") ||
+         request.headers.get("x-real-ip") ||
          "anonymous";
 }
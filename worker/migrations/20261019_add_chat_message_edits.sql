@@ -0,0 +1,22 @@
+-- Message edit/delete support for chat messages.
+-- chat_messages carries the current state; chat_message_edits keeps the
+-- prior content for every edit and delete so the history survives.
+
+ALTER TABLE chat_messages ADD COLUMN edited_at TEXT;
+ALTER TABLE chat_messages ADD COLUMN deleted_at TEXT;
+ALTER TABLE chat_messages ADD COLUMN deleted_by TEXT;
+
+CREATE TABLE IF NOT EXISTS chat_message_edits (
+  id TEXT PRIMARY KEY,
+  message_id TEXT NOT NULL,
+  conversation_id TEXT NOT NULL,
+  practice_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete')),
+  actor_user_id TEXT NOT NULL,
+  previous_content TEXT NOT NULL,
+  previous_metadata TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_message_edits_message
+ON chat_message_edits(message_id, created_at);
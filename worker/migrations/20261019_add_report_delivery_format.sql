@@ -0,0 +1,5 @@
+-- Report deliveries can be rendered as CSV, XLSX or PDF.
+-- Existing rows were all CSV exports.
+
+ALTER TABLE report_deliveries ADD COLUMN format TEXT NOT NULL DEFAULT 'csv'
+  CHECK (format IN ('csv', 'xlsx', 'pdf'));
@@ -0,0 +1,32 @@
+-- Saved searches for the command palette.
+-- A saved search belongs to the user who created it and can be shared with
+-- the whole practice. Pins are per user so anyone who can see a shared
+-- search can pin it to their own sidebar.
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  owner_user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  shared INTEGER NOT NULL DEFAULT 0 CHECK (shared IN (0, 1)),
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_practice_owner
+  ON saved_searches(practice_id, owner_user_id);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_practice_shared
+  ON saved_searches(practice_id, shared) WHERE shared = 1;
+
+CREATE TABLE IF NOT EXISTS saved_search_pins (
+  saved_search_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  practice_id TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  PRIMARY KEY (saved_search_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_pins_user
+  ON saved_search_pins(practice_id, user_id);
@@ -0,0 +1,13 @@
+-- Addresses the email notification channel must not send to.
+-- scope is '*' for bounces and complaints (nothing goes out) or a
+-- notification category for a per-category unsubscribe.
+
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  email TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('bounce', 'complaint', 'unsubscribe')),
+  user_id TEXT,
+  detail TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  PRIMARY KEY (email, scope)
+);
@@ -0,0 +1,21 @@
+-- Push/email notifications held back by quiet hours or a digest preference.
+-- Rows are collapsed into one summary per (user, practice, reason,
+-- release_at) and deleted once the summary is enqueued.
+
+CREATE TABLE IF NOT EXISTS notification_holds (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  practice_id TEXT,
+  reason TEXT NOT NULL CHECK (reason IN ('quiet_hours', 'digest')),
+  category TEXT NOT NULL,
+  notification_type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  link TEXT,
+  push INTEGER NOT NULL DEFAULT 0 CHECK (push IN (0, 1)),
+  email TEXT,
+  release_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_holds_release
+  ON notification_holds(release_at);
@@ -0,0 +1,100 @@
+-- Intake template funnel analytics on the intake_events timeline.
+--
+-- Adds two columns and one provenance:
+--   template_slug — the intake template the conversation ran (from
+--                   conversations.user_info.intakeTemplate), so funnels can
+--                   be computed per template without joining conversations.
+--   funnel_step   — disclaimer → contact → case → submit. AI turns are
+--                   'case', submit_intake turns are 'submit'.
+--   'intake_step' — marker rows for the disclaimer and contact steps, which
+--                   happen before the first AI turn.
+--
+-- SQLite cannot alter a CHECK constraint in place, so the table is rebuilt.
+-- Existing rows are backfilled: funnel_step from provenance, template_slug
+-- from the conversation's stored template.
+
+CREATE TABLE intake_events_new (
+  id TEXT PRIMARY KEY,
+  conversation_id TEXT NOT NULL,
+  practice_id TEXT NOT NULL,
+  turn_seq INTEGER NOT NULL,
+  provenance TEXT NOT NULL CHECK (provenance IN (
+    'ai_intake',
+    'ai_intake_no_tool_call',
+    'safety_rail.legal_disclaimer',
+    'ai_failure',
+    'submit_intake',
+    'mode_unresolved',
+    'intake_step'
+  )),
+  mode_resolution_json TEXT,
+  user_message TEXT,
+  model_request_json TEXT,
+  model_response_json TEXT,
+  tool_calls_json TEXT,
+  tool_results_json TEXT,
+  failure_reason TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  template_slug TEXT,
+  funnel_step TEXT CHECK (funnel_step IS NULL OR funnel_step IN ('disclaimer', 'contact', 'case', 'submit')),
+  UNIQUE (conversation_id, turn_seq)
+);
+
+INSERT INTO intake_events_new (
+  id,
+  conversation_id,
+  practice_id,
+  turn_seq,
+  provenance,
+  mode_resolution_json,
+  user_message,
+  model_request_json,
+  model_response_json,
+  tool_calls_json,
+  tool_results_json,
+  failure_reason,
+  created_at,
+  template_slug,
+  funnel_step
+)
+SELECT
+  e.id,
+  e.conversation_id,
+  e.practice_id,
+  e.turn_seq,
+  e.provenance,
+  e.mode_resolution_json,
+  e.user_message,
+  e.model_request_json,
+  e.model_response_json,
+  e.tool_calls_json,
+  e.tool_results_json,
+  e.failure_reason,
+  e.created_at,
+  (
+    SELECT COALESCE(json_extract(c.user_info, '$.intakeTemplate.slug'), 'default')
+    FROM conversations c
+    WHERE c.id = e.conversation_id AND json_valid(c.user_info)
+  ),
+  CASE e.provenance
+    WHEN 'ai_intake' THEN 'case'
+    WHEN 'ai_intake_no_tool_call' THEN 'case'
+    WHEN 'submit_intake' THEN 'submit'
+    ELSE NULL
+  END
+FROM intake_events e;
+
+DROP TABLE intake_events;
+ALTER TABLE intake_events_new RENAME TO intake_events;
+
+CREATE INDEX IF NOT EXISTS idx_intake_events_conversation_seq
+  ON intake_events(conversation_id, turn_seq);
+
+CREATE INDEX IF NOT EXISTS idx_intake_events_practice_created
+  ON intake_events(practice_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_intake_events_provenance
+  ON intake_events(provenance, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_intake_events_practice_template
+  ON intake_events(practice_id, template_slug, conversation_id);
@@ -0,0 +1,31 @@
+-- A/B experiments across intake templates.
+--
+-- An experiment splits anonymous widget sessions deterministically across
+-- published intake templates (variants). variants_json is an ordered array
+-- of { key, templateSlug, weight }; the first variant is the control. At
+-- most one experiment per practice is 'running' (enforced by the service).
+--
+-- intake_events gains the assignment so per-variant funnels can be computed
+-- without joining conversations.
+
+CREATE TABLE IF NOT EXISTS intake_experiments (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'paused', 'completed')),
+  variants_json TEXT NOT NULL,
+  winner_variant TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  ended_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_intake_experiments_practice_status
+  ON intake_experiments(practice_id, status, created_at DESC);
+
+ALTER TABLE intake_events ADD COLUMN experiment_id TEXT;
+ALTER TABLE intake_events ADD COLUMN experiment_variant TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_intake_events_experiment
+  ON intake_events(experiment_id, conversation_id);
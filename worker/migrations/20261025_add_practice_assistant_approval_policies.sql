@@ -0,0 +1,88 @@
+-- Configurable approval policies for practice assistant staged actions.
+--
+-- practice_assistant_approval_policies is append-only: every save inserts the
+-- next version for the practice and the highest version is active. Version 0
+-- is the built-in default (one approver, paralegal or above, 72h TTL) and is
+-- never stored. rules_json is an ordered array of
+-- { actions?, amountOver?, approvals, minRole?, requireRole? }.
+--
+-- practice_assistant_action_approvals is the decision trail: one row per
+-- approve / reject / comment, with the approver's role and the policy
+-- version the action was staged under.
+--
+-- practice_assistant_actions gains the policy snapshot taken when the action
+-- was staged (so later policy edits never change what an in-flight action
+-- needs), an expiry, and the 'expired' status. SQLite cannot alter a CHECK
+-- constraint in place, so the table is rebuilt. Existing rows keep a NULL
+-- expires_at and never expire.
+
+CREATE TABLE IF NOT EXISTS practice_assistant_approval_policies (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  rules_json TEXT NOT NULL,
+  pending_ttl_hours INTEGER NOT NULL DEFAULT 72,
+  created_by_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (practice_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS practice_assistant_action_approvals (
+  id TEXT PRIMARY KEY,
+  action_id TEXT NOT NULL,
+  practice_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  member_role TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approve', 'reject', 'comment')),
+  comment TEXT,
+  policy_version INTEGER NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_assistant_action_approvals_action
+ON practice_assistant_action_approvals(action_id, created_at);
+
+CREATE TABLE practice_assistant_actions_new (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  conversation_id TEXT NOT NULL,
+  created_by_user_id TEXT NOT NULL,
+  tool_use_id TEXT NOT NULL,
+  tool_name TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('pending', 'approved', 'rejected', 'executed', 'failed', 'expired')),
+  approval_summary_json TEXT NOT NULL,
+  payload_json TEXT NOT NULL,
+  result_json TEXT,
+  error_message TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  approved_at TEXT,
+  rejected_at TEXT,
+  executed_at TEXT,
+  policy_version INTEGER NOT NULL DEFAULT 0,
+  approval_requirement_json TEXT,
+  expires_at TEXT,
+  expired_at TEXT
+);
+
+INSERT INTO practice_assistant_actions_new (
+  id, practice_id, conversation_id, created_by_user_id, tool_use_id, tool_name,
+  status, approval_summary_json, payload_json, result_json, error_message,
+  created_at, approved_at, rejected_at, executed_at
+)
+SELECT
+  id, practice_id, conversation_id, created_by_user_id, tool_use_id, tool_name,
+  status, approval_summary_json, payload_json, result_json, error_message,
+  created_at, approved_at, rejected_at, executed_at
+FROM practice_assistant_actions;
+
+DROP TABLE practice_assistant_actions;
+ALTER TABLE practice_assistant_actions_new RENAME TO practice_assistant_actions;
+
+CREATE INDEX IF NOT EXISTS idx_practice_assistant_actions_practice_status
+ON practice_assistant_actions(practice_id, status, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_practice_assistant_actions_conversation
+ON practice_assistant_actions(conversation_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_practice_assistant_actions_expiry
+ON practice_assistant_actions(status, expires_at);
@@ -0,0 +1,90 @@
+-- Conflict-of-interest checks.
+--
+-- conflict_parties is the searchable index: every client, opposing party,
+-- related party and matter participant the practice knows about, one row
+-- per (source record, role, normalized name). Rows are replaced wholesale
+-- whenever their source client, matter or intake is re-indexed.
+--
+-- conflict_checks records each search (usually one per submitted intake)
+-- with the names searched and the rolled-up status. conflict_check_hits
+-- snapshots the evidence for every match, so later index changes never
+-- rewrite what an attorney reviewed. conflict_check_decisions is the
+-- append-only trail of attorneys clearing or confirming hits.
+
+CREATE TABLE IF NOT EXISTS conflict_parties (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('client', 'matter', 'intake')),
+  source_id TEXT NOT NULL,
+  source_label TEXT,
+  party_role TEXT NOT NULL CHECK (party_role IN ('client', 'opposing_party', 'related_party', 'matter_participant')),
+  display_name TEXT NOT NULL,
+  normalized_name TEXT NOT NULL,
+  matter_id TEXT,
+  client_id TEXT,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (practice_id, source_type, source_id, party_role, normalized_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_parties_source
+  ON conflict_parties(source_type, source_id);
+
+CREATE TABLE IF NOT EXISTS conflict_checks (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  intake_uuid TEXT,
+  conversation_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('clear', 'review_required', 'conflicted', 'insufficient_data')),
+  names_json TEXT NOT NULL,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_checks_practice
+  ON conflict_checks(practice_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_checks_intake
+  ON conflict_checks(practice_id, intake_uuid, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS conflict_check_hits (
+  id TEXT PRIMARY KEY,
+  check_id TEXT NOT NULL,
+  practice_id TEXT NOT NULL,
+  query_name TEXT NOT NULL,
+  query_role TEXT NOT NULL,
+  party_id TEXT,
+  matched_name TEXT NOT NULL,
+  matched_role TEXT NOT NULL,
+  source_type TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  source_label TEXT,
+  matter_id TEXT,
+  client_id TEXT,
+  score REAL NOT NULL,
+  reasons_json TEXT NOT NULL,
+  adverse INTEGER NOT NULL DEFAULT 0,
+  decision TEXT NOT NULL DEFAULT 'pending' CHECK (decision IN ('pending', 'cleared', 'confirmed')),
+  decided_by TEXT,
+  decided_at TEXT,
+  decision_note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_check_hits_check
+  ON conflict_check_hits(check_id, score DESC);
+
+CREATE TABLE IF NOT EXISTS conflict_check_decisions (
+  id TEXT PRIMARY KEY,
+  check_id TEXT NOT NULL,
+  hit_id TEXT NOT NULL,
+  practice_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  member_role TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('cleared', 'confirmed')),
+  previous_decision TEXT NOT NULL,
+  note TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_check_decisions_check
+  ON conflict_check_decisions(check_id, created_at);
@@ -0,0 +1,63 @@
+-- Trust account compliance rules.
+--
+-- trust_compliance_preferences holds the practice's rule settings,
+-- versioned and append-only like practice_assistant_approval_policies: the
+-- highest version per practice is active and every evaluation records the
+-- version it ran under.
+--
+-- trust_matter_balances is the latest trust balance per matter as reported
+-- by backend ledger events; staged actions are checked against it.
+--
+-- trust_rule_evaluations is the bar-audit log: one row per rule per ledger
+-- event or staged action, whatever the outcome. Rows are never updated.
+
+CREATE TABLE IF NOT EXISTS trust_compliance_preferences (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  auto_replenish_enabled INTEGER NOT NULL DEFAULT 1,
+  auto_replenish_threshold_cents INTEGER NOT NULL,
+  alert_enabled INTEGER NOT NULL DEFAULT 1,
+  alert_threshold_cents INTEGER NOT NULL,
+  dual_approval_enabled INTEGER NOT NULL DEFAULT 0,
+  dual_approval_threshold_cents INTEGER NOT NULL,
+  lock_on_zero_enabled INTEGER NOT NULL DEFAULT 0,
+  notify_user_ids_json TEXT NOT NULL DEFAULT '[]',
+  created_by_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (practice_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS trust_matter_balances (
+  practice_id TEXT NOT NULL,
+  matter_id TEXT NOT NULL,
+  client_id TEXT,
+  balance_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  last_transaction_id TEXT,
+  last_transaction_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  PRIMARY KEY (practice_id, matter_id)
+);
+
+CREATE TABLE IF NOT EXISTS trust_rule_evaluations (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  rule TEXT NOT NULL CHECK (rule IN ('auto_replenish', 'threshold_alert', 'dual_approval', 'lock_on_zero')),
+  outcome TEXT NOT NULL CHECK (outcome IN ('passed', 'triggered', 'blocked', 'disabled')),
+  subject_type TEXT NOT NULL CHECK (subject_type IN ('ledger_event', 'staged_action')),
+  subject_id TEXT NOT NULL,
+  matter_id TEXT,
+  client_id TEXT,
+  balance_cents INTEGER,
+  threshold_cents INTEGER,
+  preferences_version INTEGER NOT NULL,
+  detail_json TEXT NOT NULL DEFAULT '{}',
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_trust_rule_evaluations_practice
+  ON trust_rule_evaluations(practice_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_trust_rule_evaluations_matter
+  ON trust_rule_evaluations(practice_id, matter_id, created_at DESC);
@@ -0,0 +1,55 @@
+-- Three-way trust reconciliation.
+--
+-- trust_bank_statements is one imported OFX/QFX/CSV bank statement for the
+-- practice's trust account. content_sha256 stops the same file being
+-- imported twice.
+--
+-- trust_bank_statement_lines holds the statement's transactions and what
+-- each one is matched to in the trust ledger (backend
+-- /api/trust-ledger/:practiceId). A ledger transaction can be matched to at
+-- most one bank line; unmatched ledger transactions are the outstanding
+-- items of the monthly reconciliation.
+
+CREATE TABLE IF NOT EXISTS trust_bank_statements (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  account_label TEXT,
+  format TEXT NOT NULL CHECK (format IN ('ofx', 'qfx', 'csv')),
+  filename TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  period_start TEXT NOT NULL,
+  period_end TEXT NOT NULL,
+  opening_balance_cents INTEGER,
+  closing_balance_cents INTEGER NOT NULL,
+  content_sha256 TEXT NOT NULL,
+  imported_by_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (practice_id, content_sha256)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trust_bank_statements_period
+  ON trust_bank_statements(practice_id, period_end DESC);
+
+CREATE TABLE IF NOT EXISTS trust_bank_statement_lines (
+  id TEXT PRIMARY KEY,
+  statement_id TEXT NOT NULL REFERENCES trust_bank_statements(id) ON DELETE CASCADE,
+  practice_id TEXT NOT NULL,
+  posted_at TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL,
+  description TEXT,
+  reference TEXT,
+  match_status TEXT NOT NULL DEFAULT 'unmatched' CHECK (match_status IN ('unmatched', 'auto', 'manual')),
+  matched_transaction_id TEXT,
+  matched_by_user_id TEXT,
+  matched_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_trust_bank_statement_lines_statement
+  ON trust_bank_statement_lines(statement_id, posted_at);
+
+CREATE INDEX IF NOT EXISTS idx_trust_bank_statement_lines_posted
+  ON trust_bank_statement_lines(practice_id, posted_at);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trust_bank_statement_lines_matched
+  ON trust_bank_statement_lines(practice_id, matched_transaction_id)
+  WHERE matched_transaction_id IS NOT NULL;
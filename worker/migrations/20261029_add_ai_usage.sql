@@ -0,0 +1,41 @@
+-- AI usage metering and monthly budgets.
+--
+-- ai_usage_events has one row per model call the worker makes for a
+-- practice: the feature that made it, the model actually called and its
+-- input/output tokens. `estimated` is set when the provider returned no
+-- usage and the counts were derived from the text; `fallback` when the call
+-- was moved to the budget's fallback model. Rows are never updated.
+--
+-- ai_usage_budgets holds the practice's monthly token limits, versioned and
+-- append-only like trust_compliance_preferences: the highest version per
+-- practice is active.
+
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  feature TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated INTEGER NOT NULL DEFAULT 0,
+  fallback INTEGER NOT NULL DEFAULT 0,
+  budget_status TEXT NOT NULL DEFAULT 'ok' CHECK (budget_status IN ('ok', 'soft_limit', 'hard_limit')),
+  conversation_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_practice_created
+  ON ai_usage_events(practice_id, created_at);
+
+CREATE TABLE IF NOT EXISTS ai_usage_budgets (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  soft_limit_tokens INTEGER,
+  hard_limit_tokens INTEGER,
+  fallback_model TEXT NOT NULL,
+  created_by_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (practice_id, version)
+);
@@ -0,0 +1,5 @@
+-- Conflict checks score at most a fixed number of indexed parties (newest
+-- first). truncated marks a check that had to skip older parties; such a
+-- check is never reported clear.
+
+ALTER TABLE conflict_checks ADD COLUMN truncated INTEGER NOT NULL DEFAULT 0;
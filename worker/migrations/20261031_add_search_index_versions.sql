@@ -0,0 +1,11 @@
+-- Search filters read metadata fields that rows indexed by older workers
+-- don't carry. search_index_versions records the metadata version each
+-- practice was last fully backfilled at (SEARCH_METADATA_VERSION in
+-- SearchIndexService); a filtered search in a practice behind the current
+-- version queues a SearchBackfillService run.
+
+CREATE TABLE IF NOT EXISTS search_index_versions (
+  practice_id TEXT PRIMARY KEY,
+  metadata_version INTEGER NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
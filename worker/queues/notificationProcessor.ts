@@ -4,8 +4,13 @@ import { Logger } from '../utils/logger.js';
 import { NotificationDeliveryStore } from '../services/NotificationDeliveryStore.js';
 import { NotificationDestinationStore } from '../services/NotificationDestinationStore.js';
 import { OneSignalService, type OneSignalSendResult } from '../services/OneSignalService.js';
+import { createEmailProvider } from '../services/EmailProvider.js';
+import { EmailNotificationService } from '../services/EmailNotificationService.js';
+import { NotificationHoldService } from '../services/NotificationHoldService.js';
+import { resolveNotificationHold } from '../utils/notificationSchedule.js';
 import { parseEnvBool } from '../utils/safeStringUtils.js';
 import { ConversationService } from '../services/ConversationService.js';
+import { resolveConsultationState } from '../../src/shared/utils/consultationState';
 
 const RATE_WINDOW_MS = 5 * 60 * 1000;
 const USER_WINDOW_MS = 60 * 60 * 1000;
@@ -57,6 +62,15 @@ function shouldSendPush(recipient: NotificationRecipientSnapshot): boolean {
   return true;
 }
 
+function shouldSendEmail(
+  recipient: NotificationRecipientSnapshot
+): recipient is NotificationRecipientSnapshot & { email: string } {
+  if (typeof recipient.email !== 'string' || !recipient.email.includes('@')) {
+    return false;
+  }
+  return recipient.preferences?.emailEnabled !== false;
+}
+
 function shouldSendInApp(recipient: NotificationRecipientSnapshot): boolean {
   return recipient.preferences?.inAppEnabled !== false;
 }
@@ -97,6 +111,35 @@ function resolveConversationId(payload: NotificationQueueMessage): string | null
   return null;
 }
 
+/**
+ * Intake notifications arrive from the backend without an urgency, so the
+ * quiet-hours breakthrough (isHoldBreakthrough) reads it from the intake the
+ * conversation collected. Messages that already carry one, or that have no
+ * conversation in the same practice, pass through unchanged.
+ */
+async function withIntakeUrgency(
+  conversationService: ConversationService,
+  payload: NotificationQueueMessage,
+  conversationId: string | null
+): Promise<NotificationQueueMessage> {
+  if (payload.category !== 'intake' || !conversationId || payload.metadata?.urgency) {
+    return payload;
+  }
+  try {
+    const conversation = await conversationService.getConversationById(conversationId, { repair: false });
+    if (conversation.practice_id !== payload.practiceId) return payload;
+    const urgency = resolveConsultationState(conversation.user_info)?.case.urgency ?? null;
+    return urgency ? { ...payload, metadata: { ...payload.metadata, urgency } } : payload;
+  } catch (error) {
+    Logger.warn('Failed to read intake urgency for notification', {
+      eventId: payload.eventId,
+      conversationId,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return payload;
+  }
+}
+
 function resolveNotificationType(payload: NotificationQueueMessage): string {
   const metadata = payload.metadata as Record<string, unknown> | null | undefined;
   const raw = metadata?.notificationType;
@@ -575,10 +618,14 @@ export async function handleNotificationQueue(
   });
 
   const pushEnabled = readEnvToggle(env.ENABLE_PUSH_NOTIFICATIONS, true);
+  const emailEnabled = readEnvToggle(env.ENABLE_EMAIL_NOTIFICATIONS, true);
 
   if (!pushEnabled) {
     Logger.info('Push notifications disabled via ENABLE_PUSH_NOTIFICATIONS');
   }
+  if (!emailEnabled) {
+    Logger.info('Email notifications disabled via ENABLE_EMAIL_NOTIFICATIONS');
+  }
 
   const deliveryStore = new NotificationDeliveryStore(env);
   const destinationStore = new NotificationDestinationStore(env);
@@ -586,20 +633,30 @@ export async function handleNotificationQueue(
   if (!oneSignal) {
     Logger.warn('OneSignal delivery disabled - missing credentials');
   }
+  const emailProvider = emailEnabled ? createEmailProvider(env) : null;
+  const emailService = emailProvider ? new EmailNotificationService(env, emailProvider) : null;
+  if (emailEnabled && !emailService) {
+    Logger.warn('Email delivery disabled - no provider configured');
+  }
 
   const conversationService = new ConversationService(env);
+  const holdService = new NotificationHoldService(env);
 
   for (const msg of batch.messages) {
-    const payload = msg.body;
     let hadFailure = false;
+    const conversationId = resolveConversationId(msg.body);
+    const payload = await withIntakeUrgency(conversationService, msg.body, conversationId);
     const createdAtMs = payload.createdAt ? new Date(payload.createdAt).getTime() : NaN;
     const nowMs = Number.isFinite(createdAtMs) ? createdAtMs : Date.now();
-    const conversationId = resolveConversationId(payload);
 
     let sharedMessageId: string | null = null;
     const perRecipientMessageIds = new Map<string, string>();
 
-    if (payload.practiceId && conversationId) {
+    // A released hold summary only goes out by push/email: the notifications
+    // it summarizes already produced their in-app messages.
+    const deliverInApp = !payload.heldSummary;
+
+    if (deliverInApp && payload.practiceId && conversationId) {
       const inAppRecipients = payload.recipients.filter((recipient) =>
         shouldSendInApp(recipient) && shouldProcessRecipient(recipient, payload)
       );
@@ -633,7 +690,7 @@ export async function handleNotificationQueue(
           });
         }
       }
-    } else if (payload.practiceId) {
+    } else if (deliverInApp && payload.practiceId) {
       for (const recipient of payload.recipients) {
         if (!shouldSendInApp(recipient) || !shouldProcessRecipient(recipient, payload)) {
           continue;
@@ -661,17 +718,43 @@ export async function handleNotificationQueue(
     }
 
     for (const recipient of payload.recipients) {
-      try {
-        if (!shouldProcessRecipient(recipient, payload)) {
+      if (!shouldProcessRecipient(recipient, payload)) {
+        continue;
+      }
+
+      const deliveryId = perRecipientMessageIds.get(recipient.userId)
+        ?? sharedMessageId
+        ?? payload.eventId
+        ?? crypto.randomUUID();
+
+      const wantsPush = pushEnabled && shouldSendPush(recipient) && Boolean(oneSignal);
+      const wantsEmail = Boolean(emailService) && shouldSendEmail(recipient);
+      if (wantsPush || wantsEmail) {
+        const hold = resolveNotificationHold(recipient, payload, new Date());
+        if (hold) {
+          try {
+            await holdService.hold({
+              recipient,
+              message: payload,
+              notificationType: resolveNotificationType(payload),
+              reason: hold.reason,
+              releaseAt: hold.releaseAt,
+              channels: { push: wantsPush, email: wantsEmail ? recipient.email ?? null : null }
+            });
+          } catch (error) {
+            Logger.warn('Failed to hold notification', {
+              eventId: payload.eventId,
+              recipient: recipient.userId,
+              error: error instanceof Error ? error.message : String(error)
+            });
+            hadFailure = true;
+          }
           continue;
         }
+      }
 
-        const deliveryId = perRecipientMessageIds.get(recipient.userId)
-          ?? sharedMessageId
-          ?? payload.eventId
-          ?? crypto.randomUUID();
-
-        if (pushEnabled && shouldSendPush(recipient) && oneSignal) {
+      try {
+        if (wantsPush && oneSignal) {
           try {
             await sendPushNotification(oneSignal, recipient, payload);
             await deliveryStore.recordResult({
@@ -706,6 +789,21 @@ export async function handleNotificationQueue(
         });
         hadFailure = true;
       }
+
+      // Email runs independently of push so a failure on one channel
+      // doesn't cost the recipient the other.
+      if (wantsEmail && emailService && shouldSendEmail(recipient)) {
+        try {
+          await emailService.send(recipient, payload, deliveryId);
+        } catch (error) {
+          Logger.warn('Failed to send notification email', {
+            eventId: payload.eventId,
+            recipient: recipient.userId,
+            error: error instanceof Error ? error.message : String(error)
+          });
+          hadFailure = true;
+        }
+      }
     }
 
     if (hadFailure) {
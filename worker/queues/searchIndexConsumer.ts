@@ -3,6 +3,7 @@ import type { SearchIndexEvent } from '../types/search.js';
 import { SearchIndexService } from '../services/SearchIndexService.js';
 import { SearchVectorService } from '../services/SearchVectorService.js';
 import { SearchBackfillService } from '../services/SearchBackfillService.js';
+import { ConflictCheckService, conflictPartiesFromSearchPayload } from '../services/ConflictCheckService.js';
 import { Logger } from '../utils/logger.js';
 
 type QueueMessage<T> = {
@@ -105,10 +106,12 @@ async function applyEvent(
           pageNumber: event.payload.metadata?.pageNumber as number | undefined,
         });
       }
+      await syncConflictIndex(event, env);
       return;
     }
     case 'delete': {
       await indexService.delete(event.entityType, event.entityId);
+      await syncConflictIndex(event, env);
       if (vectorService.isEnabled()) {
         await vectorService.deleteByIds([
           vectorService.vectorIdFor(event.entityType, event.entityId, 0),
@@ -121,6 +124,7 @@ async function applyEvent(
         event.entityType,
         event.entityId,
       );
+      await syncConflictIndex(event, env);
       if (vectorService.isEnabled() && removed.length > 0) {
         const ids = removed.map((r) =>
           vectorService.vectorIdFor(
@@ -144,3 +148,35 @@ async function applyEvent(
     }
   }
 }
+
+const CONFLICT_SOURCE_TYPES = new Set<string>(['client', 'matter', 'intake']);
+
+/**
+ * Mirror client, matter and intake changes into the conflict-of-interest
+ * index. Best-effort: a failure here never fails the search update.
+ */
+async function syncConflictIndex(
+  event: Exclude<SearchIndexEvent, { op: 'backfill' }>,
+  env: Env,
+): Promise<void> {
+  if (!CONFLICT_SOURCE_TYPES.has(event.entityType)) return;
+  const conflicts = new ConflictCheckService(env);
+  try {
+    if (event.op !== 'upsert') {
+      await conflicts.removeSource(
+        event.practiceId,
+        event.entityType as 'client' | 'matter' | 'intake',
+        event.entityId,
+      );
+      return;
+    }
+    const extracted = conflictPartiesFromSearchPayload(event.entityType, event.entityId, event.payload);
+    if (extracted) await conflicts.indexSource(event.practiceId, extracted.source, extracted.parties);
+  } catch (error) {
+    Logger.warn('conflict index sync failed', {
+      op: event.op,
+      entityType: event.entityType,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -1,7 +1,6 @@
 import { ActivityService, type ActivityEvent } from '../services/ActivityService';
 // SessionService removed - using conversations instead
-import { rateLimit, getClientId } from '../middleware/rateLimit';
-import { createRateLimitResponse } from '../errorHandler';
+import { consumeRateLimit, getClientId, rateLimitExceededResponse } from '../middleware/rateLimit';
 import { HttpErrors, handleError } from '../errorHandler';
 import { parseJsonBody } from '../utils.js';
 import type { Env } from '../types';
@@ -24,13 +23,9 @@ export async function handleActivity(request: Request, env: Env): Promise<Respon
 
   // Rate limiting
   const clientId = getClientId(request);
-  if (!(await rateLimit(env, clientId, 50, 60))) { // 50 requests per minute
-    return createRateLimitResponse(60, {
-      limit: 50,
-      remaining: 0,
-      reset: Math.floor(Date.now() / 1000) + 60,
-      errorMessage: 'Rate limit exceeded. Please try again later.'
-    });
+  const rateLimitDecision = await consumeRateLimit(env, 'activity', clientId);
+  if (!rateLimitDecision.allowed) {
+    return rateLimitExceededResponse(rateLimitDecision);
   }
 
   try {
@@ -6,16 +6,29 @@ import type { ExecutionContext } from '@cloudflare/workers-types';
 import { ConversationService } from '../services/ConversationService.js';
 import { getAttachedAuthContext } from '../middleware/compose.js';
 import { requirePracticeMemberRole } from '../middleware/auth.js';
+import {
+  consumeAiTurnQuota,
+  getClientId,
+  rateLimitExceededResponse,
+  withRateLimitHeaders,
+} from '../middleware/rateLimit.js';
 import { runPracticeAssistantTurn } from './practiceAssistant.js';
 import { SessionAuditService } from '../services/SessionAuditService.js';
 import { IntakeEventService, writeIntakeTurn } from '../services/IntakeEventService.js';
+import { resolveIntakeExperimentAssignment } from '../utils/intakeExperiments.js';
 import type { IntakeEventRecordInput } from '../types/intakeEvent.js';
 import {
   PartialIntakeSubmissionService,
   type PartialCollectedFields,
   type PartialSlimContactInput,
 } from '../services/PartialIntakeSubmissionService.js';
-import { createWorkersAiClient, resolveWorkersAiModel } from '../utils/workersAiClient.js';
+import {
+  AI_BUDGET_EXHAUSTED_MESSAGE,
+  createWorkersAiClient,
+  isAiBudgetExhausted,
+  resolveWorkersAiModel,
+} from '../utils/workersAiClient.js';
+import { AiUsageService } from '../services/AiUsageService.js';
 import { fetchPracticeDetailsWithCache } from '../utils/practiceDetailsCache.js';
 import { Logger } from '../utils/logger.js';
 import { resolveConsultationState } from '../../src/shared/utils/consultationState';
@@ -54,6 +67,10 @@ import {
   shouldRequireDisclaimer,
   buildCompactPracticeContextForPrompt,
   executeIntakeTool,
+  hashIntakePrompt,
+  lookupIntakeAddresses,
+  unwrapToolCallJsonArgs,
+  isIntakeSubmittable,
   resolveNextField,
   computeCompletenessScore,
   isIntakeCompleteForTemplate,
@@ -71,6 +88,7 @@ import { hasTerminalChatAction, normalizeChatActions } from '../../src/shared/ut
 import type { IntakeFieldDefinition } from '../../src/shared/types/intake.js';
 import type { IntakeTemplate } from '../../src/shared/types/intake.js';
 import { STANDARD_FIELD_DEFINITIONS } from '../../src/shared/constants/intakeTemplates.js';
+import { getFieldType } from '../../src/shared/utils/intakeFieldTypes.js';
 
 const readBooleanField = (record: Record<string, unknown> | null, keys: string[]): boolean | null => {
   if (!record) return null;
@@ -117,22 +135,30 @@ const resolveTemplatePaymentConfig = (template: IntakeTemplate | null): {
   };
 };
 
-const unwrapToolCallJsonArgs = (rawArgs: string): string => {
-  let cleanArgs = rawArgs.trim();
-
-  const xmlMatch = cleanArgs.match(/<tool_call[^>]*>([\s\S]*?)<\/tool_call>/i);
-  if (xmlMatch) cleanArgs = xmlMatch[1].trim();
-
-  const fenceMatch = cleanArgs.match(/```(?:json)?\s*([\s\S]*?)```/i);
-  if (fenceMatch) cleanArgs = fenceMatch[1].trim();
-
-  const functionWrapperMatch = cleanArgs.match(/^[a-zA-Z0-9_]+\s*\(([\s\S]*)\)\s*;?$/);
-  if (functionWrapperMatch) cleanArgs = functionWrapperMatch[1].trim();
-
-  const objectMatch = cleanArgs.match(/\{[\s\S]*\}/);
-  if (objectMatch) cleanArgs = objectMatch[0].trim();
-
-  return cleanArgs;
+/**
+ * Original names of the files uploaded to the conversation, which are the
+ * only names a file_upload answer may hold. A failed lookup yields none, so
+ * file_upload answers wait for the next turn rather than saving unchecked.
+ */
+const loadConversationFileNames = async (
+  env: Env,
+  practiceId: string,
+  conversationId: string,
+): Promise<Set<string>> => {
+  try {
+    const rows = await env.DB.prepare(`
+      SELECT original_name
+      FROM files
+      WHERE practice_id = ? AND conversation_id = ? AND is_deleted = FALSE
+    `).bind(practiceId, conversationId).all<{ original_name: string }>();
+    return new Set((rows.results ?? []).map((row) => row.original_name));
+  } catch (error) {
+    Logger.warn('Failed to load conversation files for intake', {
+      conversationId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return new Set();
+  }
 };
 
 const persistMergedIntakeState = async (
@@ -315,6 +341,15 @@ const deriveQuickActionState = (params: {
 // Main handler
 // ---------------------------------------------------------------------------
 
+const AI_CHAT_MODES: ReadonlySet<string> = new Set([
+  'ASK_QUESTION',
+  'REQUEST_CONSULTATION',
+  'PRACTICE_ONBOARDING',
+  'PRACTICE_ASSISTANT',
+]);
+
+const AI_TURN_QUOTA_MESSAGE = 'This practice has used its AI turns for today. Please try again later.';
+
 export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionContext): Promise<Response> {
   const requestStartedAt = Date.now();
 
@@ -377,6 +412,9 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
   if (oversizeMessage) {
     throw HttpErrors.badRequest(`message content exceeds ${MAX_MESSAGE_LENGTH} characters`);
   }
+  if (body.mode != null && !AI_CHAT_MODES.has(body.mode)) {
+    throw HttpErrors.badRequest('mode is not supported');
+  }
 
   // For anonymous widget sessions the slug is on the body, so slug-based
   // practice details can load concurrently with getConversationById.
@@ -430,7 +468,12 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
     if (lastUserMsg.content.length > 6000) {
       throw HttpErrors.badRequest('User message exceeds 6000 characters');
     }
-    return runPracticeAssistantTurn({
+    // Metered only once the turn is valid; staff turns spend the practice's bucket alone.
+    const assistantTurnQuota = await consumeAiTurnQuota(env, practiceId, null, request);
+    if (!assistantTurnQuota.allowed) {
+      return rateLimitExceededResponse(assistantTurnQuota, AI_TURN_QUOTA_MESSAGE);
+    }
+    return withRateLimitHeaders(await runPracticeAssistantTurn({
       conversationId: body.conversationId,
       practiceId,
       practiceSlug,
@@ -440,7 +483,7 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
       env,
       request,
       messages: body.messages.map((message) => ({ role: message.role, content: message.content })),
-    });
+    }), assistantTurnQuota);
   }
 
   const auditService = new SessionAuditService(env);
@@ -777,9 +820,33 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
   // Streaming path
   // ------------------------------------------------------------------
 
+  // Only turns that reach a model are metered: per practice per day at the
+  // practice's plan tier, and per visitor within the practice. Anonymous
+  // widget sessions are cheap to recreate, so they count by client IP.
+  const visitorId = authContext.isAnonymous === true
+    ? `ip:${getClientId(request)}`
+    : `user:${authContext.user.id}`;
+  const aiTurnQuota = await consumeAiTurnQuota(env, practiceId, visitorId, request);
+  if (!aiTurnQuota.allowed) {
+    return rateLimitExceededResponse(
+      aiTurnQuota,
+      aiTurnQuota.family === 'ai_turns_visitor'
+        ? 'You have reached the AI message limit for today. Please try again later.'
+        : AI_TURN_QUOTA_MESSAGE,
+    );
+  }
+
   const aiPromptContext = buildCompactPracticeContextForPrompt(details);
-  const aiClient = createWorkersAiClient(env);
-  const model = resolveWorkersAiModel(env, DEFAULT_AI_MODEL);
+  const aiClient = createWorkersAiClient(env, {
+    meter: new AiUsageService(env).meter({
+      practiceId,
+      feature: isIntakeMode ? 'intake' : isOnboardingMode ? 'onboarding' : 'chat',
+      conversationId: body.conversationId,
+    }),
+  });
+  // Resolved before the payload is built: past the practice's soft limit the
+  // fallback model may use the other provider's API.
+  const { model } = await aiClient.resolveModel(resolveWorkersAiModel(env, DEFAULT_AI_MODEL));
   const isAnthropicModel = model.startsWith('claude-');
 
   const servicesForPrompt = normalizeServicesForPrompt(details);
@@ -839,6 +906,7 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
   // Compute the completeness score from the current state so the prompt can
   // tell the AI how close the intake is to complete.
   const completenessScore = computeCompletenessScore(activeTemplate, flatState);
+  const intakeExperimentAssignment = resolveIntakeExperimentAssignment(conversationMetadata);
 
   // True when all required fields are collected — shifts AI into summary+choice mode.
   const requiredComplete = isIntakeCompleteForTemplate(activeTemplate, flatState);
@@ -850,6 +918,8 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
 
   const templatePaymentConfig = resolveTemplatePaymentConfig(activeTemplate);
 
+  // Filled by lookupIntakeAddresses before each save_case_details call.
+  const verifiedAddresses = new Map<string, string>();
   const intakeSubmissionGate: IntakeSubmissionGate = {
     paymentRequiredBeforeSubmit:
       (consultation?.submission?.paymentRequired === true) ||
@@ -862,6 +932,10 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
     activeTemplate,
     // Template fee takes precedence over practice-level details fee.
     templateConsultationFee: templatePaymentConfig.hasConfig ? templatePaymentConfig.consultationFee : null,
+    uploadedFileNames: isIntakeMode && activeTemplate.fields.some((field) => getFieldType(field) === 'file_upload')
+      ? await loadConversationFileNames(env, practiceId, body.conversationId)
+      : null,
+    verifiedAddresses,
   };
 
   const requestPayload: Record<string, unknown> = {
@@ -1115,6 +1189,8 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
           practiceId: conversation.practice_id,
           provenance: 'ai_failure',
           modeResolution: failureModeResolution,
+          templateSlug: activeTemplate.slug,
+          ...intakeExperimentAssignment,
           userMessage: lastUserMessage?.content ?? null,
           modelResponse: accumulatedReply.trim()
             ? { reply: accumulatedReply, truncated: Boolean(options?.persistPartial) }
@@ -1218,6 +1294,16 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
 
           const errorText = await candidate.text().catch(() => '');
 
+          // Hard budget limit: no model was called.
+          if (isAiBudgetExhausted(candidate)) {
+            Logger.warn('AI budget exhausted; no model call', {
+              conversationId: body.conversationId,
+              practiceId,
+            });
+            preStreamFailureReason = 'ai_budget_exhausted';
+            break;
+          }
+
           // 4xx: logic error — fail immediately, no retry.
           if (candidate.status >= 400 && candidate.status < 500) {
             Logger.warn('AI upstream returned 4xx; no retry', {
@@ -1292,11 +1378,17 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
         }
         // Non-intake (e.g. onboarding) keeps the existing toast-error path so
         // a brief outage doesn't permanently brick the practice onboarding flow.
-        write({
-          error: true,
-          code: 'ai_request_failed',
-          message: 'AI request failed',
-        });
+        write(preStreamFailureReason === 'ai_budget_exhausted'
+          ? {
+            error: true,
+            code: 'ai_budget_exhausted',
+            message: AI_BUDGET_EXHAUSTED_MESSAGE,
+          }
+          : {
+            error: true,
+            code: 'ai_request_failed',
+            message: 'AI request failed',
+          });
         return;
       }
 
@@ -1319,6 +1411,7 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
         requestId,
         sendSseDebug,
       );
+      await aiClient.recordUsage(requestPayload, streamResult);
       const conversationTotalResponseMs = Date.now() - conversationRequestStartedAt;
       const latencyMs = Date.now() - startedAt;
 
@@ -1394,6 +1487,10 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
           toolCall.name === 'ask_user_question'
         )) {
           const cleanArgs = unwrapToolCallJsonArgs(toolCall.arguments);
+          if (toolCall.name === 'save_case_details') {
+            const found = await lookupIntakeAddresses(cleanArgs, intakeSubmissionGate, env.GEOAPIFY_API_KEY);
+            found.forEach((geocoded, line) => verifiedAddresses.set(line, geocoded));
+          }
           const result = executeIntakeTool(
             toolCall.name,
             cleanArgs,
@@ -1567,6 +1664,7 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
           },
           recipientUserId: authContext.user.id,
           skipPracticeValidation: shouldSkipPracticeValidation,
+          tokenCount: streamResult.usage?.outputTokens ?? null,
           request
         });
 
@@ -1656,18 +1754,55 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
           isIntakeMode,
           isOnboardingMode,
           isGeneralQaMode,
+          // Funnel analytics: the field the AI was told to ask, and the one
+          // still outstanding after this turn's tool calls were merged — the
+          // latter is what an abandoned intake was stuck on.
+          nextField: nextField?.key ?? null,
+          pendingField: mergedIntakeState
+            ? (resolveNextField(activeTemplate, mergedIntakeState, 'required')
+              ?? resolveNextField(activeTemplate, mergedIntakeState, 'enrichment'))?.key ?? null
+            : null,
+          // Experiment results compare variants on completeness after the turn.
+          completenessScore: mergedIntakeState
+            ? computeCompletenessScore(activeTemplate, mergedIntakeState)
+            : completenessScore,
+          // Replay compares its own outcome for the turn against these.
+          intakePatch: patchToMerge,
+          requiredComplete: allRequiredDone,
+          submittable: mergedIntakeState ? isIntakeSubmittable(mergedIntakeState, intakeSubmissionGate) : null,
         };
 
         const turnModelRequest: Record<string, unknown> = {
           model,
           temperature: requestPayload.temperature ?? null,
           systemPromptLength: systemPrompt.length,
+          // Only a fingerprint: replay re-renders the prompt from replayInputs.
+          systemPromptHash: hashIntakePrompt(systemPrompt),
           toolNames: Array.isArray(requestPayload.tools)
             ? requestPayload.tools
                 .map((tool) => { const t = tool as { name?: string; function?: { name?: string } }; return t.name ?? t.function?.name ?? null; })
                 .filter((name): name is string => Boolean(name))
             : [],
           messageCount: body.messages.length,
+          // Everything buildIntakeSystemPrompt and executeIntakeTool saw this
+          // turn, so scripts/replay-intake.ts can re-run it offline.
+          replayInputs: {
+            intakeState: storedIntakeState,
+            template: activeTemplate,
+            services: servicesForPrompt,
+            practiceName: aiPromptContext?.['practiceName'] ?? null,
+            userName: userName ?? null,
+            submissionGate: {
+              paymentRequiredBeforeSubmit: intakeSubmissionGate.paymentRequiredBeforeSubmit,
+              paymentCompleted: intakeSubmissionGate.paymentCompleted,
+              templateConsultationFee: intakeSubmissionGate.templateConsultationFee ?? null,
+              practiceConsultationFee: details?.['consultation_fee'] ?? null,
+              uploadedFileNames: intakeSubmissionGate.uploadedFileNames
+                ? Array.from(intakeSubmissionGate.uploadedFileNames)
+                : null,
+              verifiedAddresses: verifiedAddresses.size > 0 ? Object.fromEntries(verifiedAddresses) : null,
+            },
+          },
         };
 
         const turnModelResponse: Record<string, unknown> = {
@@ -1685,6 +1820,7 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
           ? streamResult.toolCalls.map((call) => ({
               name: call.name,
               argLength: call.arguments.length,
+              arguments: call.arguments,
             }))
           : null;
 
@@ -1699,6 +1835,8 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
             practiceId: conversation.practice_id,
             provenance: turnProvenance,
             modeResolution: turnModeResolution,
+            templateSlug: activeTemplate.slug,
+            ...intakeExperimentAssignment,
             userMessage: lastUserMessage?.content ?? null,
             modelRequest: turnModelRequest,
             modelResponse: turnModelResponse,
@@ -1776,5 +1914,5 @@ export async function handleAiChat(request: Request, env: Env, ctx?: ExecutionCo
     });
   }
 
-  return sseResponse;
+  return withRateLimitHeaders(sseResponse, aiTurnQuota);
 }
@@ -8,7 +8,7 @@ import {
 } from '../../src/shared/utils/consultationState';
 import type { ChatMessageAction } from '../../src/shared/types/conversation';
 import { createSubmitAction, createBuildBriefAction } from '../../src/shared/utils/chatActions';
-import type { IntakeFieldDefinition, IntakeTemplate } from '../../src/shared/types/intake.js';
+import type { FieldCondition, IntakeFieldDefinition, IntakeTemplate } from '../../src/shared/types/intake.js';
 import { STANDARD_FIELD_KEYS, STANDARD_FIELD_DEFINITIONS } from '../../src/shared/constants/intakeTemplates.js';
 import {
   resolveNextField,
@@ -19,6 +19,10 @@ import {
   COMPLETENESS_THRESHOLD_SHOW_CTA,
   COMPLETENESS_THRESHOLD_SUGGEST_SUBMIT,
 } from '../../src/shared/utils/intakeOrchestration.js';
+import { describeFieldCondition } from '../../src/shared/utils/fieldConditions.js';
+import { getFieldType, isChoiceFieldType } from '../../src/shared/utils/intakeFieldTypes.js';
+import { callGeoapifyAutocomplete } from '../lib/geoapify.js';
+import { Logger } from '../utils/logger.js';
 
 const MAX_SERVICES_IN_PROMPT = 20;
 type IntakePromptService = { name: string; uuid: string };
@@ -41,6 +45,68 @@ const US_STATE_NAME_TO_CODE: Record<string, string> = {
 // Tool definitions — three discrete tools the model calls naturally
 // ---------------------------------------------------------------------------
 
+const ADDRESS_SCHEMA_PROPERTIES = {
+  address: { type: 'string', description: 'Street address (number and street)' },
+  apartment: { type: 'string', description: 'Apartment, suite or unit, if any' },
+  city: { type: 'string', description: 'City' },
+  state: { type: 'string', description: 'Two-letter US state code' },
+  postalCode: { type: 'string', description: 'ZIP / postal code' },
+  country: { type: 'string', description: 'Two-letter country code, default US' },
+} as const;
+
+/** JSON schema for a single template field inside save_case_details. */
+const buildFieldSchema = (field: IntakeFieldDefinition): object => {
+  const fieldType = getFieldType(field);
+  const hasOptions = Array.isArray(field.options) && field.options.length > 0;
+
+  switch (fieldType) {
+    case 'select':
+      return hasOptions
+        ? { type: 'string', enum: field.options, description: field.label }
+        : { type: 'string', description: field.label };
+    case 'multiselect':
+      return {
+        type: 'array',
+        items: hasOptions ? { type: 'string', enum: field.options } : { type: 'string' },
+        description: `${field.label}. Use only the listed option text; include every option that applies.`,
+      };
+    case 'boolean':
+      return { type: 'boolean', description: field.label };
+    case 'date':
+      return {
+        type: 'string',
+        description: `Date in ISO 8601 format (YYYY-MM-DD) for: ${field.label}. Omit if not explicitly stated.`,
+      };
+    case 'number':
+      return { type: 'number', description: field.label };
+    case 'currency':
+      return {
+        type: 'number',
+        minimum: 0,
+        description: `Amount in US dollars (e.g. 1250.50) for: ${field.label}. No currency symbols or commas.`,
+      };
+    case 'address':
+      return {
+        type: 'object',
+        properties: ADDRESS_SCHEMA_PROPERTIES,
+        required: ['address', 'city'],
+        description: `Mailing or street address for: ${field.label}`,
+      };
+    case 'phone':
+      return { type: 'string', description: `Phone number including area code for: ${field.label}` };
+    case 'email':
+      return { type: 'string', description: `Email address for: ${field.label}` };
+    case 'file_upload':
+      return {
+        type: 'array',
+        items: { type: 'string' },
+        description: `File names the client has already uploaded in this conversation for: ${field.label}. Never invent file names.`,
+      };
+    default:
+      return { type: 'string', description: field.label };
+  }
+};
+
 /**
  * Builds the save_case_details tool schema dynamically from the resolved
  * IntakeTemplate fields. Falls back to the default template if fields are empty.
@@ -50,37 +116,7 @@ export function buildSaveCaseDetailsTool(fields: IntakeFieldDefinition[]) {
   const properties: Record<string, object> = {};
 
   for (const field of activeFields) {
-    const isMultiSelect = field.backendFieldType === 'multiselect';
-    if (field.type === 'select' && Array.isArray(field.options) && field.options.length > 0) {
-      properties[field.key] = {
-        type: 'string',
-        ...(isMultiSelect ? {} : { enum: field.options }),
-        description: isMultiSelect
-          ? `${field.label}. Use only the listed option text. If multiple options apply, join the exact option labels with commas.`
-          : field.label,
-      };
-    } else if (field.type === 'boolean') {
-      properties[field.key] = {
-        type: 'boolean',
-        description: field.label,
-      };
-    } else if (field.type === 'date') {
-      properties[field.key] = {
-        type: 'string',
-        description: `Date in ISO 8601 format (YYYY-MM-DD) for: ${field.label}. Omit if not explicitly stated.`,
-      };
-    } else if (field.type === 'number') {
-      properties[field.key] = {
-        type: 'number',
-        description: field.label,
-      };
-    } else {
-      // 'text' and any other type
-      properties[field.key] = {
-        type: 'string',
-        description: field.label,
-      };
-    }
+    properties[field.key] = buildFieldSchema(field);
   }
 
   // Always include practiceServiceUuid even if not in a custom template
@@ -109,34 +145,40 @@ export function buildSaveCaseDetailsTool(fields: IntakeFieldDefinition[]) {
 const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
 
 const getFieldValueTypeInstruction = (field: IntakeFieldDefinition): string => {
-  const fieldType = field.backendFieldType === 'multiselect' ? 'multiselect' : field.type;
+  const fieldType = getFieldType(field);
 
-  if ((fieldType === 'select' || fieldType === 'multiselect') && Array.isArray(field.options) && field.options.length > 0) {
+  if (isChoiceFieldType(fieldType) && Array.isArray(field.options) && field.options.length > 0) {
     if (fieldType === 'multiselect') {
-      return `This field allows multiple selections. Only accept values exactly matching these options: [${field.options.join(', ')}]. Do not make up values. If multiple options apply, keep only exact option labels and save them as a comma-separated string in the order mentioned. Use ask_user_question when you need to present the choices.`;
+      return `This field allows multiple selections. Only accept values exactly matching these options: [${field.options.join(', ')}]. Do not make up values. If multiple options apply, save every exact option label that applies as a list. Use ask_user_question when you need to present the choices.`;
     }
     return `Only accept values exactly matching these options: [${field.options.join(', ')}]. Do not make up values. If the client answers loosely, clarify which exact option matches. Use ask_user_question when you present the choices.`;
   }
 
-  if (fieldType === 'date') {
-    return 'Format this value strictly as YYYY-MM-DD. Ask the user to clarify if they give an ambiguous date or only a partial timeframe.';
-  }
-
-  if (fieldType === 'boolean') {
-    return 'Resolve this to strictly true or false. If the client is unclear, ask a yes/no clarifying question.';
-  }
-
-  if (fieldType === 'number') {
-    return 'Extract the numerical value only. If they give a range or vague estimate, ask for one best numeric estimate.';
+  switch (fieldType) {
+    case 'date':
+      return 'Format this value strictly as YYYY-MM-DD. Ask the user to clarify if they give an ambiguous date or only a partial timeframe.';
+    case 'boolean':
+      return 'Resolve this to strictly true or false. If the client is unclear, ask a yes/no clarifying question.';
+    case 'number':
+      return 'Extract the numerical value only. If they give a range or vague estimate, ask for one best numeric estimate.';
+    case 'currency':
+      return 'Save the dollar amount as a plain number (e.g. 1250.50). If they give a range or vague estimate, ask for one best estimate.';
+    case 'address':
+      return 'Collect at least the street address and city. Split the address into its parts when saving; ask for anything missing rather than guessing.';
+    case 'phone':
+      return 'Save a phone number with area code. If it looks incomplete, ask the client to repeat it.';
+    case 'email':
+      return 'Save a single email address. If it looks mistyped, read it back and ask the client to confirm.';
+    case 'file_upload':
+      return 'Ask the client to attach the document using the upload button. Save only the names of files they actually uploaded; never ask them to paste the contents.';
+    default:
+      return '';
   }
-
-  return '';
 };
 
-const normalizeMultiselectValue = (value: string, options: string[]): string | null => {
-  const rawParts = value
-    .split(',')
-    .map((part) => part.trim())
+const normalizeMultiselectValue = (value: unknown, options: string[]): string | null => {
+  const rawParts = (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+    .map((part) => (typeof part === 'string' ? part.trim() : ''))
     .filter(Boolean);
   if (rawParts.length === 0) return null;
 
@@ -149,9 +191,73 @@ const normalizeMultiselectValue = (value: string, options: string[]): string | n
   return normalizedParts.length > 0 ? normalizedParts.join(', ') : null;
 };
 
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+const PHONE_INPUT_RE = /^\+?[\d\s\-().]+$/;
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+const normalizeEmailValue = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim().toLowerCase();
+  return EMAIL_RE.test(trimmed) ? trimmed : null;
+};
+
+const normalizePhoneValue = (value: unknown): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (!trimmed || !PHONE_INPUT_RE.test(trimmed)) return null;
+  const digitCount = trimmed.replace(/\D/g, '').length;
+  return digitCount >= MIN_PHONE_DIGITS && digitCount <= MAX_PHONE_DIGITS ? trimmed : null;
+};
+
+// Accepts 1250.5, "1250.50", "$1,250.50". Negative amounts are rejected.
+const normalizeCurrencyValue = (value: unknown): number | null => {
+  let amount: number | null = null;
+  if (typeof value === 'number') {
+    amount = value;
+  } else if (typeof value === 'string') {
+    const cleaned = value.trim().replace(/^\$/, '').replace(/,/g, '');
+    if (/^\d+(\.\d+)?$/.test(cleaned)) amount = Number(cleaned);
+  }
+  if (amount === null || !Number.isFinite(amount) || amount < 0) return null;
+  return Math.round(amount * 100) / 100;
+};
+
+// Formats a structured address into one line, e.g. "123 Main St, Apt 4, Austin, TX 78701".
+// A plain string is accepted as-is so partially structured answers still save.
+const normalizeAddressValue = (value: unknown): string | null => {
+  if (typeof value === 'string') return value.trim() || null;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const record = value as Record<string, unknown>;
+  const part = (key: keyof typeof ADDRESS_SCHEMA_PROPERTIES): string =>
+    typeof record[key] === 'string' ? (record[key] as string).trim() : '';
+
+  const street = part('address');
+  const city = part('city');
+  if (!street || !city) return null;
+
+  const state = normalizeStateCode(part('state')) || part('state');
+  const country = part('country').toUpperCase();
+  const region = [state, part('postalCode')].filter(Boolean).join(' ');
+  return [street, part('apartment'), city, region, country && country !== 'US' ? country : '']
+    .filter(Boolean)
+    .join(', ');
+};
+
+// Keeps only names of files actually uploaded to the conversation (matched
+// case-insensitively, stored as uploaded); anything else the model names is dropped.
+const normalizeFileUploadValue = (value: unknown, uploadedFileNames: ReadonlySet<string> | null | undefined): string | null => {
+  const uploadedByKey = new Map(Array.from(uploadedFileNames ?? [], (name) => [name.trim().toLowerCase(), name.trim()]));
+  const names = (Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [])
+    .map((name) => (typeof name === 'string' ? uploadedByKey.get(name.trim().toLowerCase()) : undefined))
+    .filter((name): name is string => Boolean(name));
+  return names.length > 0 ? Array.from(new Set(names)).join(', ') : null;
+};
+
 const validateCustomFieldValue = (
   field: IntakeFieldDefinition | undefined,
   value: unknown,
+  submissionGate: IntakeSubmissionGate,
 ): string | boolean | number | null => {
   if (!field) {
     if (typeof value === 'string' && value.trim()) return value.trim();
@@ -160,35 +266,38 @@ const validateCustomFieldValue = (
     return null;
   }
 
-  const fieldType = field.backendFieldType === 'multiselect' ? 'multiselect' : field.type;
-
-  if (fieldType === 'select') {
-    if (typeof value !== 'string' || !Array.isArray(field.options)) return null;
-    const trimmed = value.trim();
-    return field.options.includes(trimmed) ? trimmed : null;
-  }
-
-  if (fieldType === 'multiselect') {
-    if (typeof value !== 'string' || !Array.isArray(field.options)) return null;
-    return normalizeMultiselectValue(value, field.options);
-  }
-
-  if (fieldType === 'date') {
-    if (typeof value !== 'string') return null;
-    const trimmed = value.trim();
-    return ISO_DATE_RE.test(trimmed) ? trimmed : null;
-  }
-
-  if (fieldType === 'boolean') {
-    return typeof value === 'boolean' ? value : null;
-  }
-
-  if (fieldType === 'number') {
-    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  switch (getFieldType(field)) {
+    case 'select': {
+      if (typeof value !== 'string' || !Array.isArray(field.options)) return null;
+      const trimmed = value.trim();
+      return field.options.includes(trimmed) ? trimmed : null;
+    }
+    case 'multiselect':
+      return Array.isArray(field.options) ? normalizeMultiselectValue(value, field.options) : null;
+    case 'date': {
+      if (typeof value !== 'string') return null;
+      const trimmed = value.trim();
+      return ISO_DATE_RE.test(trimmed) ? trimmed : null;
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : null;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? value : null;
+    case 'currency':
+      return normalizeCurrencyValue(value);
+    case 'address': {
+      const line = normalizeAddressValue(value);
+      return line ? submissionGate.verifiedAddresses?.get(line) ?? line : null;
+    }
+    case 'phone':
+      return normalizePhoneValue(value);
+    case 'email':
+      return normalizeEmailValue(value);
+    case 'file_upload':
+      return normalizeFileUploadValue(value, submissionGate.uploadedFileNames);
+    default:
+      return typeof value === 'string' && value.trim() ? value.trim() : null;
   }
-
-  if (typeof value === 'string' && value.trim()) return value.trim();
-  return null;
 };
 
 /** Convenience constant: the default tool schema using the default template. */
@@ -204,13 +313,13 @@ export function buildFieldInstructions(fields: IntakeFieldDefinition[]): string
     const req = f.required ? '(required)' : '(optional)';
     const questionText = f.isStandard ? (f.previewQuestion?.trim() || f.label) : f.label;
     const opts =
-      f.type === 'select' && Array.isArray(f.options) && f.options.length > 0
+      isChoiceFieldType(getFieldType(f)) && Array.isArray(f.options) && f.options.length > 0
         ? ` Options: ${f.options.join(', ')}.`
         : '';
     const typeRule = getFieldValueTypeInstruction(f);
     const validation = f.validationHint ? ` Valid answer: ${f.validationHint}` : '';
     const cond = f.condition
-      ? ` Only ask if ${f.condition.dependsOn} is "${f.condition.value}".`
+      ? ` Only ask if ${describeFieldCondition(f.condition)}.`
       : '';
     return `- ${questionText} ${req}${opts}${typeRule ? ` ${typeRule}` : ''}${validation}${cond}`;
   }).join('\n');
@@ -381,7 +490,7 @@ export const handleSaveCaseDetails = (
       }
     } else {
       // Non-standard field — goes into customFields
-      const normalized = validateCustomFieldValue(templateFieldByKey.get(key), value);
+      const normalized = validateCustomFieldValue(templateFieldByKey.get(key), value, submissionGate);
       if (typeof normalized === 'string' && normalized.trim()) {
         customFieldsPatch[key] = normalized.trim();
       } else if (typeof normalized === 'boolean') {
@@ -490,6 +599,85 @@ export const handleAskUserQuestion = (
   };
 };
 
+// ---------------------------------------------------------------------------
+// Tool-call argument cleanup
+// ---------------------------------------------------------------------------
+
+/**
+ * Strips the wrappers some models put around streamed tool arguments
+ * (`<tool_call>` tags, markdown fences, `fn(...)` calls) down to the JSON object.
+ */
+export const unwrapToolCallJsonArgs = (rawArgs: string): string => {
+  let cleanArgs = rawArgs.trim();
+
+  const xmlMatch = cleanArgs.match(/<tool_call[^>]*>([\s\S]*?)<\/tool_call>/i);
+  if (xmlMatch) cleanArgs = xmlMatch[1].trim();
+
+  const fenceMatch = cleanArgs.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenceMatch) cleanArgs = fenceMatch[1].trim();
+
+  const functionWrapperMatch = cleanArgs.match(/^[a-zA-Z0-9_]+\s*\(([\s\S]*)\)\s*;?$/);
+  if (functionWrapperMatch) cleanArgs = functionWrapperMatch[1].trim();
+
+  const objectMatch = cleanArgs.match(/\{[\s\S]*\}/);
+  if (objectMatch) cleanArgs = objectMatch[0].trim();
+
+  return cleanArgs;
+};
+
+// ---------------------------------------------------------------------------
+// Address lookup ahead of save_case_details
+// ---------------------------------------------------------------------------
+
+/**
+ * Looks up the address answers in a save_case_details call with Geoapify and
+ * returns the geocoded line for each one that resolves to a building, keyed
+ * by the line the model gave. The caller passes them to executeIntakeTool in
+ * submissionGate.verifiedAddresses, so the tool itself stays synchronous and
+ * replays from the recorded lookups. Answers Geoapify cannot place, or a
+ * failed lookup, leave the model's line as it is.
+ */
+export const lookupIntakeAddresses = async (
+  rawArgs: string,
+  submissionGate: IntakeSubmissionGate,
+  apiKey: string | undefined,
+): Promise<Map<string, string>> => {
+  const verified = new Map<string, string>();
+  const addressFields = (submissionGate.activeTemplate?.fields ?? [])
+    .filter((field) => !STANDARD_FIELD_KEYS.has(field.key) && getFieldType(field) === 'address');
+  if (!apiKey || addressFields.length === 0) return verified;
+
+  let args: Record<string, unknown>;
+  try {
+    const parsed = JSON.parse(rawArgs);
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) return verified;
+    args = parsed as Record<string, unknown>;
+  } catch {
+    return verified;
+  }
+
+  for (const field of addressFields) {
+    const value = args[field.key];
+    const line = normalizeAddressValue(value);
+    if (!line || verified.has(line) || submissionGate.verifiedAddresses?.has(line)) continue;
+
+    const result = await callGeoapifyAutocomplete({ text: line, limit: 1, apiKey });
+    if ('code' in result) {
+      Logger.warn('[aiChatIntake] Address lookup failed, keeping the answer as given', { field: field.key, code: result.code });
+      continue;
+    }
+    const match = result.suggestions[0];
+    if (!match || match.properties?.result_type !== 'building') continue;
+
+    // Geoapify rarely knows the unit, so keep the one the model collected.
+    const record = value && typeof value === 'object' ? value as Record<string, unknown> : null;
+    const apartment = typeof record?.apartment === 'string' ? record.apartment : match.address.apartment;
+    const geocoded = normalizeAddressValue({ ...match.address, apartment });
+    if (geocoded) verified.set(line, geocoded);
+  }
+  return verified;
+};
+
 // ---------------------------------------------------------------------------
 // Execute a tool call by name
 // ---------------------------------------------------------------------------
@@ -700,12 +888,26 @@ const mergeIntakeState = (
   return { ...(base ?? {}), ...(patch ?? {}) };
 };
 
+/**
+ * FNV-1a fingerprint of a rendered intake prompt. Turns record it instead of
+ * the prompt text (which names the client), so replay can still tell when
+ * the prompt code has changed.
+ */
+export const hashIntakePrompt = (prompt: string): string => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < prompt.length; index++) {
+    hash ^= prompt.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
 // ---------------------------------------------------------------------------
 // Submission gate
 // ---------------------------------------------------------------------------
 
 /** Shape of a required field as passed to the submission gate */
-type GateField = { key: string; isStandard: boolean; condition?: { dependsOn: string; value: string | boolean | number } | null };
+type GateField = { key: string; isStandard: boolean; condition?: FieldCondition | null };
 
 export interface IntakeSubmissionGate {
   paymentRequiredBeforeSubmit: boolean;
@@ -726,6 +928,18 @@ export interface IntakeSubmissionGate {
    * Takes precedence over the practice-level fee in submissionGate.details.
    */
   templateConsultationFee?: number | null;
+  /**
+   * Original names of the files uploaded to this conversation in this
+   * practice. file_upload answers keep only these names; without it they
+   * are never saved.
+   */
+  uploadedFileNames?: ReadonlySet<string> | null;
+  /**
+   * Geocoded address answers from lookupIntakeAddresses, keyed by the
+   * one-line address the model gave. address answers found here are saved
+   * in Geoapify's form; others are saved as given.
+   */
+  verifiedAddresses?: ReadonlyMap<string, string> | null;
 }
 
 function isIntakeReadyForSubmission(
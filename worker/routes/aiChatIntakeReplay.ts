@@ -0,0 +1,361 @@
+/**
+ * Offline replay of recorded intake AI turns.
+ *
+ * Every AI intake turn writes an intake_events row with the inputs the worker
+ * used (pre-turn state, active template, prompt inputs, submission gate), the
+ * raw tool calls the model emitted, and the outcome (merged patch, next field,
+ * submission gate). Replay feeds the recorded tool calls back through the
+ * CURRENT buildIntakeSystemPrompt / executeIntakeTool / orchestration code via
+ * a stubbed model client and diffs the outcome against the recording — run it
+ * before shipping prompt or tool-schema changes (`npm run replay:intake`).
+ *
+ * Each turn replays against its own recorded inputs, so one divergence does
+ * not cascade into every later turn of the conversation.
+ */
+
+import type { IntakeFieldDefinition, IntakeTemplate } from '../../src/shared/types/intake.js';
+import { STANDARD_FIELD_DEFINITIONS } from '../../src/shared/constants/intakeTemplates.js';
+import type { IntakeEventProvenance, IntakeEventTurn } from '../types/intakeEvent.js';
+import {
+  buildIntakeSystemPrompt,
+  computeCompletenessScore,
+  executeIntakeTool,
+  hashIntakePrompt,
+  isIntakeCompleteForTemplate,
+  isIntakeSubmittable,
+  mergeIntakeState,
+  resolveNextField,
+  unwrapToolCallJsonArgs,
+  type IntakeSubmissionGate,
+  type ToolResult,
+} from './aiChatIntake.js';
+
+const REPLAYABLE_PROVENANCES: ReadonlySet<IntakeEventProvenance> = new Set([
+  'ai_intake',
+  'ai_intake_no_tool_call',
+  'submit_intake',
+]);
+
+const INTAKE_TOOL_NAMES: ReadonlySet<string> = new Set([
+  'save_case_details',
+  'request_payment',
+  'submit_intake',
+  'ask_user_question',
+]);
+
+type PromptServices = Parameters<typeof buildIntakeSystemPrompt>[0];
+
+export interface IntakeReplayToolCall {
+  name: string;
+  arguments: string;
+}
+
+export interface IntakeReplayModelContext {
+  systemPrompt: string;
+  nextField: IntakeFieldDefinition | null;
+}
+
+/**
+ * Stands in for the model during replay. Returns the tool calls to execute
+ * for a turn, or null when the turn cannot be replayed.
+ */
+export interface IntakeReplayModelClient {
+  toolCalls(turn: IntakeEventTurn, context: IntakeReplayModelContext): IntakeReplayToolCall[] | null;
+}
+
+/** Replays exactly what the model emitted on the recorded turn. */
+export const recordedModelClient: IntakeReplayModelClient = {
+  toolCalls(turn) {
+    const calls: IntakeReplayToolCall[] = [];
+    for (const raw of turn.tool_calls ?? []) {
+      if (!isRecord(raw) || typeof raw.name !== 'string' || typeof raw.arguments !== 'string') return null;
+      calls.push({ name: raw.name, arguments: raw.arguments });
+    }
+    return calls;
+  },
+};
+
+export interface IntakeReplayDiff {
+  /** e.g. `nextField`, `submittable`, `state.city`, `toolResult.success` */
+  path: string;
+  recorded: unknown;
+  replayed: unknown;
+}
+
+/** Turns record only the prompt's length and hash, so this says that it changed, not where. */
+export interface IntakeReplayPromptChange {
+  recordedLength: number | null;
+  replayedLength: number;
+  recordedHash: string;
+  replayedHash: string;
+}
+
+export type IntakeReplayTurnStatus = 'match' | 'diverged' | 'skipped';
+
+export interface IntakeReplayTurnResult {
+  turnSeq: number;
+  provenance: IntakeEventProvenance;
+  status: IntakeReplayTurnStatus;
+  skipReason: string | null;
+  /** Outcome diffs — state, next field and submission gate. */
+  diffs: IntakeReplayDiff[];
+  /** Informational: the prompt is expected to change when the prompt code does. */
+  promptChange: IntakeReplayPromptChange | null;
+}
+
+export interface IntakeReplayConversationReport {
+  conversationId: string;
+  templateSlug: string | null;
+  replayed: number;
+  diverged: number;
+  skipped: number;
+  promptChanged: number;
+  turns: IntakeReplayTurnResult[];
+}
+
+export interface IntakeReplayOptions {
+  modelClient?: IntakeReplayModelClient;
+}
+
+interface RecordedReplayInputs {
+  intakeState: Record<string, unknown> | null;
+  template: IntakeTemplate;
+  services: PromptServices;
+  practiceName: string | null;
+  userName: string | null;
+  gate: IntakeSubmissionGate;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readRecordedInputs = (turn: IntakeEventTurn): RecordedReplayInputs | null => {
+  const inputs = turn.model_request?.replayInputs;
+  if (!isRecord(inputs)) return null;
+
+  const rawTemplate = inputs.template;
+  const template: IntakeTemplate = isRecord(rawTemplate) && Array.isArray(rawTemplate.fields) && rawTemplate.fields.length > 0
+    ? rawTemplate as unknown as IntakeTemplate
+    : { slug: 'default', name: 'Default', is_default: true, fields: STANDARD_FIELD_DEFINITIONS };
+  const templateFields = template.fields;
+  const rawGate = isRecord(inputs.submissionGate) ? inputs.submissionGate : {};
+
+  return {
+    intakeState: isRecord(inputs.intakeState) ? inputs.intakeState : null,
+    template,
+    services: Array.isArray(inputs.services) ? inputs.services as PromptServices : [],
+    practiceName: typeof inputs.practiceName === 'string' ? inputs.practiceName : null,
+    userName: typeof inputs.userName === 'string' ? inputs.userName : null,
+    // Mirrors the gate aiChat builds; requiredFields are re-derived from the
+    // recorded template so a changed required-field rule shows up as a diff.
+    gate: {
+      paymentRequiredBeforeSubmit: rawGate.paymentRequiredBeforeSubmit === true,
+      paymentCompleted: rawGate.paymentCompleted === true,
+      details: rawGate.practiceConsultationFee === null || rawGate.practiceConsultationFee === undefined
+        ? null
+        : { consultation_fee: rawGate.practiceConsultationFee },
+      requiredFields: templateFields.filter((field) => field.required || field.phase === 'required'),
+      activeTemplate: template,
+      templateConsultationFee: typeof rawGate.templateConsultationFee === 'number'
+        ? rawGate.templateConsultationFee
+        : null,
+      uploadedFileNames: Array.isArray(rawGate.uploadedFileNames)
+        ? new Set(rawGate.uploadedFileNames.filter((name): name is string => typeof name === 'string'))
+        : null,
+      // The Geoapify lookups made on the live turn; replay never calls Geoapify.
+      verifiedAddresses: isRecord(rawGate.verifiedAddresses)
+        ? new Map(Object.entries(rawGate.verifiedAddresses)
+          .filter((entry): entry is [string, string] => typeof entry[1] === 'string'))
+        : null,
+    },
+  };
+};
+
+const resolveAnyNextField = (
+  template: IntakeTemplate,
+  state: Record<string, unknown>,
+): IntakeFieldDefinition | null =>
+  resolveNextField(template, state, 'required') ?? resolveNextField(template, state, 'enrichment');
+
+const comparePrompts = (
+  modelRequest: Record<string, unknown> | null,
+  replayed: string,
+): IntakeReplayPromptChange | null => {
+  const recordedHash = modelRequest?.systemPromptHash;
+  const replayedHash = hashIntakePrompt(replayed);
+  if (typeof recordedHash !== 'string' || recordedHash === replayedHash) return null;
+  return {
+    recordedLength: typeof modelRequest?.systemPromptLength === 'number' ? modelRequest.systemPromptLength : null,
+    replayedLength: replayed.length,
+    recordedHash,
+    replayedHash,
+  };
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const diffStates = (
+  recorded: Record<string, unknown>,
+  replayed: Record<string, unknown>,
+): IntakeReplayDiff[] => {
+  const keys = [...new Set([...Object.keys(recorded), ...Object.keys(replayed)])].sort();
+  return keys
+    .filter((key) => !sameValue(recorded[key], replayed[key]))
+    .map((key) => ({ path: `state.${key}`, recorded: recorded[key] ?? null, replayed: replayed[key] ?? null }));
+};
+
+const skipped = (turn: IntakeEventTurn, reason: string): IntakeReplayTurnResult => ({
+  turnSeq: turn.turn_seq,
+  provenance: turn.provenance,
+  status: 'skipped',
+  skipReason: reason,
+  diffs: [],
+  promptChange: null,
+});
+
+/** Replays a single recorded AI turn against the current intake code. */
+export const replayIntakeTurn = (
+  turn: IntakeEventTurn,
+  modelClient: IntakeReplayModelClient = recordedModelClient,
+): IntakeReplayTurnResult => {
+  if (!REPLAYABLE_PROVENANCES.has(turn.provenance)) return skipped(turn, 'not an AI turn');
+  const inputs = readRecordedInputs(turn);
+  if (!inputs) return skipped(turn, 'recorded before replay inputs were captured');
+
+  const { template, gate } = inputs;
+  const stateBefore = inputs.intakeState ?? {};
+  const nextField = resolveAnyNextField(template, stateBefore);
+  const systemPrompt = buildIntakeSystemPrompt(
+    inputs.services,
+    { practiceName: inputs.practiceName },
+    inputs.intakeState,
+    inputs.userName,
+    nextField,
+    computeCompletenessScore(template, stateBefore),
+    template.fields,
+    isIntakeCompleteForTemplate(template, stateBefore),
+  );
+
+  const toolCalls = modelClient.toolCalls(turn, { systemPrompt, nextField });
+  if (!toolCalls) return skipped(turn, 'tool call arguments were not recorded');
+
+  // Same loop as the streaming path in aiChat.ts: each call sees the state
+  // with the patches of earlier calls in the turn applied.
+  let lastToolResult: ToolResult | null = null;
+  let lastQuestionResult: ToolResult | null = null;
+  let accumulatedPatch: Record<string, unknown> = {};
+  for (const call of toolCalls) {
+    if (!INTAKE_TOOL_NAMES.has(call.name)) continue;
+    const result = executeIntakeTool(
+      call.name,
+      unwrapToolCallJsonArgs(call.arguments),
+      mergeIntakeState(inputs.intakeState, Object.keys(accumulatedPatch).length > 0 ? accumulatedPatch : null),
+      gate,
+    );
+    if (result.question) {
+      lastQuestionResult = result;
+    } else {
+      lastToolResult = result;
+    }
+    if (result.success && result.intakeFields) {
+      accumulatedPatch = { ...accumulatedPatch, ...result.intakeFields };
+    }
+  }
+
+  // aiChat records the last tool result and the last question result.
+  const recordedResults = (turn.tool_results ?? []).filter(isRecord);
+  const recordedQuestionResult = recordedResults.find((result) => result.question) ?? null;
+  const recordedToolResult = recordedResults.find((result) => !result.question) ?? null;
+  const modeResolution = isRecord(turn.mode_resolution) ? turn.mode_resolution : {};
+  const recordedPatch = isRecord(modeResolution.intakePatch) ? modeResolution.intakePatch : null;
+  const recordedAfter = mergeIntakeState(inputs.intakeState, recordedPatch) ?? {};
+  const replayedAfter = mergeIntakeState(
+    inputs.intakeState,
+    Object.keys(accumulatedPatch).length > 0 ? accumulatedPatch : null,
+  ) ?? {};
+
+  const outcome: Array<[string, unknown, unknown]> = [
+    ['nextField', modeResolution.nextField ?? null, nextField?.key ?? null],
+    ['pendingField', modeResolution.pendingField ?? null, resolveAnyNextField(template, replayedAfter)?.key ?? null],
+    ['requiredComplete', modeResolution.requiredComplete ?? null, isIntakeCompleteForTemplate(template, replayedAfter)],
+    ['submittable', modeResolution.submittable ?? null, isIntakeSubmittable(replayedAfter, gate)],
+    ['toolResult.success', recordedToolResult?.success ?? null, lastToolResult?.success ?? null],
+    ['toolResult.triggerSubmit', recordedToolResult?.triggerSubmit ?? null, lastToolResult?.triggerSubmit ?? null],
+    ['questionResult.success', recordedQuestionResult?.success ?? null, lastQuestionResult?.success ?? null],
+  ];
+  const diffs: IntakeReplayDiff[] = [];
+  for (const [path, recorded, replayed] of outcome) {
+    if (!sameValue(recorded, replayed)) diffs.push({ path, recorded, replayed });
+  }
+  diffs.push(...diffStates(recordedAfter, replayedAfter));
+
+  return {
+    turnSeq: turn.turn_seq,
+    provenance: turn.provenance,
+    status: diffs.length > 0 ? 'diverged' : 'match',
+    skipReason: null,
+    diffs,
+    promptChange: comparePrompts(turn.model_request, systemPrompt),
+  };
+};
+
+/** Replays every AI turn of one conversation's timeline, in turn order. */
+export const replayIntakeConversation = (
+  turns: IntakeEventTurn[],
+  options: IntakeReplayOptions = {},
+): IntakeReplayConversationReport => {
+  const ordered = [...turns].sort((a, b) => a.turn_seq - b.turn_seq);
+  const results = ordered
+    .filter((turn) => REPLAYABLE_PROVENANCES.has(turn.provenance))
+    .map((turn) => replayIntakeTurn(turn, options.modelClient));
+
+  return {
+    conversationId: ordered[0]?.conversation_id ?? '',
+    templateSlug: ordered.find((turn) => turn.template_slug)?.template_slug ?? null,
+    replayed: results.filter((result) => result.status !== 'skipped').length,
+    diverged: results.filter((result) => result.status === 'diverged').length,
+    skipped: results.filter((result) => result.status === 'skipped').length,
+    promptChanged: results.filter((result) => result.promptChange).length,
+    turns: results,
+  };
+};
+
+const formatValue = (value: unknown): string => {
+  const text = JSON.stringify(value ?? null);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
+
+/** Plain-text report for the terminal. */
+export const formatIntakeReplayReport = (reports: IntakeReplayConversationReport[]): string => {
+  const lines: string[] = [];
+  for (const report of reports) {
+    lines.push(
+      `Conversation ${report.conversationId} (template: ${report.templateSlug ?? 'unknown'}) — `
+        + `${report.replayed} replayed, ${report.diverged} diverged, ${report.skipped} skipped, `
+        + `${report.promptChanged} prompt changes`,
+    );
+    for (const turn of report.turns) {
+      if (turn.status === 'skipped') {
+        lines.push(`  turn ${turn.turnSeq} [${turn.provenance}] skipped: ${turn.skipReason}`);
+        continue;
+      }
+      if (turn.status === 'match' && !turn.promptChange) continue;
+      lines.push(`  turn ${turn.turnSeq} [${turn.provenance}] ${turn.status}`);
+      for (const diff of turn.diffs) {
+        lines.push(`    ${diff.path}: ${formatValue(diff.recorded)} -> ${formatValue(diff.replayed)}`);
+      }
+      if (turn.promptChange) {
+        const change = turn.promptChange;
+        lines.push(
+          `    prompt changed: ${change.recordedLength ?? '?'} -> ${change.replayedLength} chars `
+            + `(${change.recordedHash} -> ${change.replayedHash})`,
+        );
+      }
+    }
+  }
+  const totalDiverged = reports.reduce((sum, report) => sum + report.diverged, 0);
+  lines.push(totalDiverged > 0
+    ? `${totalDiverged} turn(s) diverged from the recording.`
+    : 'No divergence from the recording.');
+  return lines.join('\n');
+};
@@ -20,6 +20,7 @@ import {
   INTAKE_HARD_ERROR_CODE as HARD_ERROR_CODE,
   INTAKE_HARD_ERROR_MESSAGE as HARD_ERROR_MESSAGE,
 } from '../../src/shared/constants/intakeErrors';
+import { extractAiUsage, mergeAiUsage, type AiTokenUsage } from '../utils/aiUsage.js';
 const AI_RETRY_BACKOFF_MS = 500;
 
 const encoder = new TextEncoder();
@@ -71,6 +72,8 @@ const consumeAiStream = async (
   toolCalls: Array<{name: string, arguments: string}>;
   streamStalled: boolean;
   emittedToken: boolean;
+  /** Token counts reported in the stream, or null when it carried none. */
+  usage: AiTokenUsage | null;
   diagnostics: {
     chunkCount: number;
     parsedChunkCount: number;
@@ -91,6 +94,7 @@ const consumeAiStream = async (
       toolCalls: [],
       streamStalled: false,
       emittedToken: false,
+      usage: null,
       diagnostics: {
         chunkCount: 0,
         parsedChunkCount: 0,
@@ -116,6 +120,7 @@ const consumeAiStream = async (
   let localToolCalls: Array<{name: string, arguments: string}> = [];
   let localToolCallsByIndex = new Map<number, {name: string, arguments: string}>();
   let localEmittedToken = false;
+  let usage: AiTokenUsage | null = null;
   const diagnostics = {
     chunkCount: 0,
     parsedChunkCount: 0,
@@ -189,6 +194,8 @@ const consumeAiStream = async (
         continue;
       }
       diagnostics.parsedChunkCount += 1;
+      // OpenAI sends usage on a final chunk with no choices.
+      usage = mergeAiUsage(usage, extractAiUsage(chunk));
       
       // Log provider delta
       if (requestId && sendSseDebug) {
@@ -376,6 +383,7 @@ const consumeAiStream = async (
             finish_reason?: string | null;
           }>;
         };
+        usage = mergeAiUsage(usage, extractAiUsage(chunk));
         if (requestId) {
           const choice = chunk.choices?.[0];
           const message = choice?.message as Record<string, unknown> | undefined;
@@ -510,6 +518,7 @@ const consumeAiStream = async (
       toolCalls: finalToolCalls,
       streamStalled,
       emittedToken: localEmittedToken,
+      usage,
       diagnostics: {
         ...diagnostics,
         failClosedReason: 'potential_tool_leak'
@@ -522,6 +531,7 @@ const consumeAiStream = async (
     toolCalls: finalToolCalls,
     streamStalled,
     emittedToken: localEmittedToken,
+    usage,
     diagnostics
   };
 };
@@ -613,7 +623,8 @@ const isDebugEnabled = (value: unknown): boolean => value === '1' || value === '
 //   event: content_block_start  → opens a text or tool_use block (has index, type, name/id for tools)
 //   event: content_block_delta  → text_delta or input_json_delta fragments
 //   event: content_block_stop   → closes a block
-//   event: message_delta        → carries stop_reason
+//   event: message_start        → carries input token usage
+//   event: message_delta        → carries stop_reason and output token usage
 //   event: message_stop         → stream finished
 // Returns the same shape as consumeAiStream so callers are provider-agnostic.
 const consumeAnthropicStream = async (
@@ -628,6 +639,8 @@ const consumeAnthropicStream = async (
   toolCalls: Array<{ name: string; arguments: string }>;
   streamStalled: boolean;
   emittedToken: boolean;
+  /** Token counts reported in the stream, or null when it carried none. */
+  usage: AiTokenUsage | null;
   diagnostics: {
     chunkCount: number;
     parsedChunkCount: number;
@@ -647,6 +660,7 @@ const consumeAnthropicStream = async (
     toolCalls: [] as Array<{ name: string; arguments: string }>,
     streamStalled: false,
     emittedToken: false,
+    usage: null,
     diagnostics: {
       chunkCount: 0, parsedChunkCount: 0, malformedChunkCount: 0,
       contentChunkCount: 0, deltaToolCallChunkCount: 0,
@@ -667,6 +681,8 @@ const consumeAnthropicStream = async (
   let localReply = '';
   let localEmittedToken = false;
   let blockedByPotentialToolLeak = false;
+  // Input tokens arrive on message_start, the running output total on message_delta.
+  let usage: AiTokenUsage | null = null;
 
   // Tracks open content blocks by index
   const blocks = new Map<number, { type: 'text' | 'tool_use'; name?: string; args: string }>();
@@ -683,6 +699,10 @@ const consumeAnthropicStream = async (
   const processAnthropicEvent = (event: Record<string, unknown>): void => {
     const type = event.type as string | undefined;
 
+    if (type === 'message_start' || type === 'message_delta') {
+      usage = mergeAiUsage(usage, extractAiUsage(event));
+    }
+
     if (type === 'content_block_start') {
       const index = event.index as number;
       const block = event.content_block as Record<string, unknown> | undefined;
@@ -801,6 +821,7 @@ const consumeAnthropicStream = async (
     toolCalls,
     streamStalled,
     emittedToken: localEmittedToken,
+    usage,
     diagnostics,
   };
 };
@@ -5,6 +5,7 @@ import { ConversationService } from '../services/ConversationService.js';
 import { getAttachedAuthContext } from '../middleware/compose.js';
 import { SessionAuditService } from '../services/SessionAuditService.js';
 import { createWorkersAiClient } from '../utils/workersAiClient.js';
+import { AiUsageService } from '../services/AiUsageService.js';
 
 type IntentResult = {
   intent: 'ASK_QUESTION' | 'REQUEST_CONSULTATION' | 'UNCLEAR';
@@ -75,7 +76,14 @@ export async function handleAiIntent(request: Request, env: Env): Promise<Respon
     throw HttpErrors.forbidden('User is not a participant in this conversation');
   }
 
-  const aiClient = createWorkersAiClient(env);
+  // Past the hard budget limit the request is refused and the fallback intent is used.
+  const aiClient = createWorkersAiClient(env, {
+    meter: new AiUsageService(env).meter({
+      practiceId: conversation.practice_id,
+      feature: 'intent',
+      conversationId: body.conversationId,
+    }),
+  });
   const model = '@cf/zai-org/glm-4.7-flash';
   const response = await aiClient.requestChatCompletions({
     model,
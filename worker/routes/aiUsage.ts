@@ -0,0 +1,66 @@
+/**
+ * /api/practice/:practiceId/ai-usage
+ *
+ * The practice's metered AI usage and its monthly token budget.
+ *
+ *   GET …/ai-usage?from=&to=   budget, month-to-date status and usage by feature and model
+ *   PUT …/ai-usage             save the next budget version (admin)
+ *
+ * Usage is recorded by the AI clients themselves (see AiUsageService.meter);
+ * nothing here calls a model.
+ */
+import type { Env } from '../types.js';
+import { createSuccessResponse, HttpErrors } from '../errorHandler.js';
+import { requirePracticeMember } from '../middleware/auth.js';
+import { AiUsageService, type AiUsageRange } from '../services/AiUsageService.js';
+import { SaveAiUsageBudgetRequestSchema } from '../types/wire/aiUsage.js';
+
+export const AI_USAGE_PATH_RE = /^\/api\/practice\/([^/]+)\/ai-usage$/;
+
+const decodePracticeId = (raw: string | undefined): string => {
+  try {
+    const value = decodeURIComponent(raw ?? '');
+    if (value) return value;
+  } catch {
+    // fall through
+  }
+  throw HttpErrors.badRequest('Practice ID required');
+};
+
+const parseRange = (url: URL): AiUsageRange | null => {
+  const from = url.searchParams.get('from');
+  const to = url.searchParams.get('to');
+  if (!from && !to) return null;
+  const start = new Date(from ?? '');
+  const end = to ? new Date(to) : new Date();
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start > end) {
+    throw HttpErrors.badRequest('from and to must be ISO dates, from before to');
+  }
+  return { startIso: start.toISOString(), endIso: end.toISOString() };
+};
+
+export async function handleAiUsage(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(AI_USAGE_PATH_RE);
+  if (!match) throw HttpErrors.notFound('Route not found');
+
+  const practiceId = decodePracticeId(match[1]);
+  const service = new AiUsageService(env);
+
+  if (request.method === 'GET') {
+    await requirePracticeMember(request, env, practiceId, 'paralegal');
+    return createSuccessResponse(await service.getSummary(practiceId, parseRange(url)));
+  }
+
+  if (request.method === 'PUT') {
+    const auth = await requirePracticeMember(request, env, practiceId, 'admin');
+    const raw = await request.json().catch(() => null) as unknown;
+    const parsed = SaveAiUsageBudgetRequestSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw HttpErrors.badRequest(`Invalid AI budget: ${parsed.error.message}`);
+    }
+    return createSuccessResponse(await service.saveBudget(practiceId, parsed.data, auth.user.id));
+  }
+
+  throw HttpErrors.methodNotAllowed('Method not allowed');
+}
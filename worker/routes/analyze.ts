@@ -1,6 +1,6 @@
 import type { Env } from '../types';
 import { HttpErrors, createSuccessResponse } from '../errorHandler';
-import { rateLimit, getClientId } from '../middleware/rateLimit.js';
+import { consumeRateLimit, getClientId, rateLimitExceededResponse } from '../middleware/rateLimit.js';
 import { AdobeDocumentService, type IAdobeExtractor } from '../services/AdobeDocumentService.js';
 import { type AnalysisResult } from '../types.js';
 import { 
@@ -10,7 +10,8 @@ import {
   logWarning 
 } from '../utils/logging.js';
 import { parseEnvBool } from '../utils/safeStringUtils.js';
-import { createRateLimitResponse } from '../errorHandler';
+import { extractPdfText, type ExtractedDocumentText } from '../lib/pdf.js';
+import { extractDocxText } from '../lib/docx.js';
 
 // Extended AnalysisResult for debugging purposes
 interface ExtendedAnalysisResult extends AnalysisResult {
@@ -189,8 +190,69 @@ async function attemptAdobeExtract(
 }
 
 
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
 
+/**
+ * In-worker extraction for PDF and DOCX, used when Adobe is not configured or
+ * fails. Legacy .doc is not supported locally. Returns null when the file
+ * yields no text (e.g. a scanned PDF) or cannot be parsed.
+ */
+async function attemptLocalExtract(
+  file: File,
+  requestId?: string
+): Promise<ExtendedAnalysisResult | null> {
+  const extractor = file.type === 'application/pdf'
+    ? { method: 'local_pdf', extract: extractPdfText }
+    : file.type === DOCX_MIME_TYPE
+      ? { method: 'local_docx', extract: extractDocxText }
+      : null;
+  if (!extractor) {
+    log('info', 'local_extract_skipped', { reason: 'not_eligible_type', fileType: file.type, requestId });
+    return null;
+  }
+
+  let extracted: ExtractedDocumentText;
+  try {
+    extracted = await extractor.extract(await file.arrayBuffer());
+  } catch (error) {
+    logWarning('analyze', 'local_extract_failed', 'Local extract failed', {
+      fileName: file.name,
+      fileType: file.type,
+      error: error instanceof Error ? error.message : String(error),
+      requestId
+    });
+    return null;
+  }
+
+  if (!extracted.fullText.trim()) {
+    log('info', 'local_extract_empty', { fileName: file.name, pageCount: extracted.pageCount, requestId });
+    return null;
+  }
 
+  log('info', 'local_extraction_success', {
+    fileName: file.name,
+    method: extractor.method,
+    pageCount: extracted.pageCount,
+    textLength: extracted.fullText.length,
+    requestId
+  });
+  return {
+    summary: 'Document extracted successfully',
+    key_facts: [],
+    entities: { people: [], orgs: [], dates: [] },
+    action_items: [],
+    confidence: 1.0,
+    extraction_state: 'extracted',
+    extraction_only: true,
+    extraction_method: extractor.method,
+    localExtract: {
+      text: extracted.fullText,
+      pages: extracted.pages,
+      pageCount: extracted.pageCount,
+      keyInfo: extracted.keyInfo
+    }
+  };
+}
 
 /**
  * Extracts the first complete JSON object from a string, handling escaped characters.
@@ -239,12 +301,12 @@ function _extractFirstJsonObject(text: string): string | null {
 }
 
 
-// MIME types allowed for analysis - only Adobe-supported types since AI analysis was removed
-// Adobe PDF Services only supports: PDF, DOC, DOCX
+// MIME types allowed for analysis. PDF and DOCX are extracted in-worker when
+// Adobe is unavailable; DOC needs Adobe PDF Services.
 const ALLOWED_ANALYSIS_MIME_TYPES = [
   'application/pdf',
   'application/msword',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+  DOCX_MIME_TYPE
 ];
 
 const MAX_ANALYSIS_FILE_SIZE = 8 * 1024 * 1024; // 8MB for inline analysis
@@ -291,24 +353,29 @@ export async function analyzeWithCloudflareAI(
     return adobeAnalysis;
   }
   
-  // Adobe extraction failed or ineligible - return error (no AI fallback)
-  log('debug', 'adobe_extraction_failed', { message: 'Adobe extraction failed, no fallback available', requestId });
-  log('info', 'adobe_extract_failed', {
+  // Adobe unavailable or failed - fall back to in-worker extraction
+  log('debug', 'attempting_local_extraction', { message: 'Adobe extraction unavailable, attempting local extraction', requestId });
+  const localAnalysis = await attemptLocalExtract(file, requestId);
+  if (localAnalysis) {
+    return localAnalysis;
+  }
+
+  log('info', 'document_extract_failed', {
     fileName: file.name,
     fileType: file.type,
-    reason: 'adobe_extraction_failed_or_ineligible',
+    reason: 'no_text_extracted',
     requestId
   });
   
   // Return error response - no AI fallback
   return {
-    summary: "Document extraction failed. Adobe PDF Services extraction is not available for this file type or is not configured.",
-    key_facts: ["Adobe extraction failed or file type not supported"],
+    summary: "Document extraction failed. No text could be extracted from this file.",
+    key_facts: ["The file may be scanned, encrypted, damaged, or a legacy .doc file"],
     entities: { people: [], orgs: [], dates: [] },
-    action_items: ["Ensure Adobe PDF Services is configured", "Try a different file format (PDF, DOC, DOCX)"],
+    action_items: ["Upload a text-based PDF or a DOCX file"],
     confidence: 0.0,
     extraction_failed: true,
-    extraction_method: 'adobe_extract_failed'
+    extraction_method: 'extract_failed'
   } as ExtendedAnalysisResult;
 }
 
@@ -322,11 +389,10 @@ export async function handleAnalyze(request: Request, env: Env): Promise<Respons
 
   // Rate limiting for analysis endpoint
   const clientId = getClientId(request);
-  if (!(await rateLimit(env, clientId, 30, 60))) { // 30 requests per minute
+  const rateLimitDecision = await consumeRateLimit(env, 'analyze', clientId);
+  if (!rateLimitDecision.allowed) {
     logWarning('analyze', 'rate_limit.exceeded', 'Rate limit exceeded', { clientId });
-    return createRateLimitResponse(60, {
-      errorMessage: 'Rate limit exceeded. Please try again later.'
-    });
+    return rateLimitExceededResponse(rateLimitDecision);
   }
 
   try {
@@ -382,7 +448,7 @@ export async function handleAnalyze(request: Request, env: Env): Promise<Respons
       adobeClientIdSet: !!env.ADOBE_CLIENT_ID,
       adobeClientSecretSet: !!env.ADOBE_CLIENT_SECRET,
       fileTypeEligible: ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'].includes(file.type),
-      analysisMethod: analysis.summary?.includes('Unable to analyze') ? 'fallback' : 'adobe',
+      analysisMethod: extendedAnalysis.extraction_method || 'unknown',
       debugTimestamp: new Date().toISOString(),
       codeVersion: 'v2.3-debug',
       summaryContainsUnable: analysis.summary?.includes('Unable to analyze') || false,
@@ -12,7 +12,20 @@ import {
   deriveOp,
   normalizeForIndex,
 } from '../utils/normalizeForIndex.js';
+import { ConflictCheckService } from '../services/ConflictCheckService.js';
 import { SearchIndexEventPublisher } from '../services/SearchIndexEventPublisher.js';
+import { buildForwardHeaders } from '../utils/intakeVisibility.js';
+import {
+  diffStaleWrite,
+  extractVersionedRecord,
+  parseIfMatch,
+  recordVersion,
+  versionedRecordForPath,
+  versionsMatch,
+  type VersionedRecord,
+} from '../utils/recordVersion.js';
+import type { StaleWriteDetails } from '../types/wire/presence.js';
+import { validateTemplateFieldInputs } from '../../src/shared/utils/fieldConditions.js';
 
 const AUTH_PATH_PREFIX = '/api/auth';
 const SUBSCRIPTIONS_CURRENT_PATH = '/api/subscriptions/current';
@@ -154,6 +167,99 @@ const getPracticeIdForDetailsCacheInvalidation = (pathname: string): string | nu
   return null;
 };
 
+const ENGAGEMENT_CREATE_RE = /^\/api\/engagement-contracts\/([^/]+)$/;
+const INTAKE_TEMPLATE_CREATE_RE = /^\/api\/practice\/[^/]+\/intake-templates$/;
+const INTAKE_TEMPLATE_UPDATE_RE = /^\/api\/practice\/[^/]+\/intake-templates\/[^/]+$/;
+
+const isIntakeTemplateSave = (method: string, pathname: string): boolean =>
+  (method === 'POST' && INTAKE_TEMPLATE_CREATE_RE.test(pathname))
+  || ((method === 'PUT' || method === 'PATCH') && INTAKE_TEMPLATE_UPDATE_RE.test(pathname));
+
+/**
+ * Rejects an intake template create or update whose field conditions are
+ * malformed, reference unknown fields or form a cycle. The backend stores
+ * conditions as opaque JSON, so this is the check that holds; the editor's
+ * copy is only for fast feedback. Bodies that aren't JSON objects are
+ * forwarded for the backend to reject.
+ */
+const validateIntakeTemplateSave = async (request: Request): Promise<void> => {
+  const body = await request.clone().json().catch(() => null) as unknown;
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return;
+  const errors = validateTemplateFieldInputs((body as Record<string, unknown>).fields);
+  if (errors.length > 0) {
+    throw HttpErrors.badRequest('Invalid field conditions', { errors });
+  }
+};
+
+/**
+ * Fills an engagement create's conflict status from the intake's latest
+ * conflict check (see ConflictCheckService.withIntakeConflictStatus), so
+ * every engagement created through the worker starts from the check result.
+ * Any failure forwards the body unchanged.
+ */
+const applyIntakeConflictStatus = async (
+  env: Env,
+  practiceId: string,
+  init: globalThis.RequestInit,
+): Promise<void> => {
+  if (!(init.body instanceof ArrayBuffer)) return;
+  try {
+    const body = JSON.parse(new TextDecoder().decode(init.body)) as unknown;
+    const next = await new ConflictCheckService(env).withIntakeConflictStatus(practiceId, body);
+    if (!next) return;
+    init.body = JSON.stringify(next);
+    if (init.headers instanceof Headers) init.headers.delete('Content-Length');
+  } catch (error) {
+    Logger.warn('[engagement-contracts] conflict status lookup failed; forwarding create unchanged', {
+      practiceId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
+/**
+ * Rejects a versioned save (If-Match on a matter/invoice PUT or PATCH) when
+ * the record has changed since the caller loaded it. The check reads the
+ * record through the backend with the caller's credentials; if that read
+ * fails the save is forwarded and the backend decides.
+ *
+ * Best-effort only: this is a read followed by a separate write, and the
+ * backend doesn't enforce the version, so a save that lands in between is
+ * not caught.
+ */
+const enforceRecordVersion = async (
+  request: Request,
+  env: Env,
+  record: VersionedRecord,
+  expectedVersion: string,
+): Promise<void> => {
+  const url = new URL(request.url);
+  let current: Record<string, unknown> | null = null;
+  try {
+    const response = await fetch(new URL(url.pathname, env.BACKEND_API_URL).toString(), {
+      headers: buildForwardHeaders(request),
+    });
+    if (response.ok) current = extractVersionedRecord(await response.json(), record.envelopeKeys);
+  } catch (error) {
+    Logger.warn('[recordVersion] current record read failed; forwarding save', {
+      resource: record.resource,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  const currentVersion = current ? recordVersion(current) : null;
+  if (!current || !currentVersion || versionsMatch(expectedVersion, currentVersion)) return;
+
+  const payload = await request.clone().json().catch(() => null) as unknown;
+  const details: StaleWriteDetails = {
+    code: 'STALE_WRITE',
+    resource: record.resource,
+    expectedVersion,
+    currentVersion,
+    changes: diffStaleWrite(payload, current),
+  };
+  throw HttpErrors.conflict('This record was changed by someone else since you opened it.', details);
+};
+
 const responseFromCache = (cached: CachedProxyResponse): Response =>
   new Response(cached.body.slice(0), {
     status: cached.status,
@@ -214,8 +320,28 @@ export async function handleBackendProxy(
       }
     : undefined;
 
+  // Optimistic concurrency: matter/invoice saves carrying If-Match are
+  // checked here; the header itself is the worker's and isn't forwarded.
+  const versionedRecord = versionedRecordForPath(method, url.pathname);
+  const expectedVersion = versionedRecord ? parseIfMatch(request.headers.get('If-Match')) : null;
+  if (versionedRecord && expectedVersion) {
+    await enforceRecordVersion(request, env, versionedRecord, expectedVersion);
+  }
+
+  if (isIntakeTemplateSave(method, url.pathname)) {
+    await validateIntakeTemplateSave(request);
+  }
+
+  const engagementCreatePracticeId = method === 'POST'
+    ? url.pathname.match(ENGAGEMENT_CREATE_RE)?.[1] ?? null
+    : null;
+
   // Debug body logging for PUT /matters/, gated on env.DEBUG.
-  const onBeforeFetch = (init: globalThis.RequestInit) => {
+  const onBeforeFetch = async (init: globalThis.RequestInit) => {
+    if (versionedRecord && init.headers instanceof Headers) init.headers.delete('If-Match');
+    if (engagementCreatePracticeId) {
+      await applyIntakeConflictStatus(env, decodeURIComponent(engagementCreatePracticeId), init);
+    }
     if (
       method !== 'PUT' ||
       !url.pathname.match(/\/matters\//) ||
@@ -0,0 +1,113 @@
+/**
+ * /api/practice/:practiceId/conflict-checks[/:checkId[/hits/:hitId]]
+ *
+ * Conflict-of-interest checks against the practice's party index.
+ *
+ *   GET  …/conflict-checks?intakeUuid=&status=&limit=   list, newest first
+ *   POST …/conflict-checks                              run one { names, clientName?, opposingParty?, intakeUuid?, conversationId? }
+ *   GET  …/conflict-checks/:checkId                     check + hits + decision trail
+ *   POST …/conflict-checks/:checkId/hits/:hitId         { decision: 'cleared' | 'confirmed', note }
+ *
+ * Submitted intakes are checked automatically (see submitIntake); POST here
+ * re-runs a check, e.g. after the index has caught up with new matters.
+ * Clearing or confirming a hit takes an attorney.
+ */
+import type { Env } from '../types.js';
+import { createSuccessResponse, HttpErrors } from '../errorHandler.js';
+import { requirePracticeMember } from '../middleware/auth.js';
+import { ConflictCheckService } from '../services/ConflictCheckService.js';
+import { buildConflictQueryNames } from '../utils/conflictMatching.js';
+import {
+  ConflictCheckStatusSchema,
+  DecideConflictHitRequestSchema,
+  RunConflictCheckRequestSchema,
+} from '../types/wire/conflictCheck.js';
+
+export const CONFLICT_CHECKS_PATH_RE = /^\/api\/practice\/([^/]+)\/conflict-checks(?:\/([^/]+)(?:\/hits\/([^/]+))?)?$/;
+
+const decodeSegment = (raw: string | undefined, label: string): string => {
+  try {
+    const value = decodeURIComponent(raw ?? '');
+    if (value) return value;
+  } catch {
+    // fall through
+  }
+  throw HttpErrors.badRequest(`${label} required`);
+};
+
+const readBody = async (request: Request): Promise<unknown> => {
+  const raw = await request.json().catch(() => null) as unknown;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw HttpErrors.badRequest('Request body must be an object');
+  }
+  return raw;
+};
+
+export async function handleConflictChecks(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(CONFLICT_CHECKS_PATH_RE);
+  if (!match) throw HttpErrors.notFound('Route not found');
+
+  const practiceId = decodeSegment(match[1], 'Practice ID');
+  const checkId = match[2] ? decodeSegment(match[2], 'Check ID') : null;
+  const hitId = match[3] ? decodeSegment(match[3], 'Hit ID') : null;
+  const method = request.method;
+  const service = new ConflictCheckService(env);
+
+  if (!checkId) {
+    if (method === 'GET') {
+      await requirePracticeMember(request, env, practiceId, 'paralegal');
+      const rawStatus = url.searchParams.get('status');
+      const status = rawStatus ? ConflictCheckStatusSchema.safeParse(rawStatus) : null;
+      if (status && !status.success) throw HttpErrors.badRequest('Unknown status filter');
+      const limit = Number(url.searchParams.get('limit'));
+      return createSuccessResponse(await service.list(practiceId, {
+        intakeUuid: url.searchParams.get('intakeUuid'),
+        status: status?.data ?? null,
+        limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+      }));
+    }
+    if (method === 'POST') {
+      const auth = await requirePracticeMember(request, env, practiceId, 'paralegal');
+      const parsed = RunConflictCheckRequestSchema.safeParse(await readBody(request));
+      if (!parsed.success) {
+        throw HttpErrors.badRequest(`Invalid conflict check: ${parsed.error.message}`);
+      }
+      const names = buildConflictQueryNames(parsed.data);
+      if (names.length === 0) throw HttpErrors.badRequest('At least one name is required');
+      const intakeUuid = parsed.data.intakeUuid ?? null;
+      return createSuccessResponse(await service.run(practiceId, {
+        names,
+        intakeUuid,
+        conversationId: parsed.data.conversationId ?? null,
+        createdBy: auth.user.id,
+        exclude: intakeUuid ? { type: 'intake', id: intakeUuid } : null,
+      }));
+    }
+    throw HttpErrors.methodNotAllowed('Method not allowed');
+  }
+
+  if (hitId) {
+    if (method !== 'POST') throw HttpErrors.methodNotAllowed('Method not allowed');
+    const auth = await requirePracticeMember(request, env, practiceId, 'attorney');
+    const parsed = DecideConflictHitRequestSchema.safeParse(await readBody(request));
+    if (!parsed.success) {
+      throw HttpErrors.badRequest(`Invalid decision: ${parsed.error.message}`);
+    }
+    return createSuccessResponse(await service.decide(practiceId, checkId, hitId, {
+      decision: parsed.data.decision,
+      note: parsed.data.note,
+      userId: auth.user.id,
+      memberRole: auth.memberRole,
+    }));
+  }
+
+  if (method === 'GET') {
+    await requirePracticeMember(request, env, practiceId, 'paralegal');
+    const check = await service.get(practiceId, checkId);
+    if (!check) throw HttpErrors.notFound('Conflict check not found');
+    return createSuccessResponse(check);
+  }
+
+  throw HttpErrors.methodNotAllowed('Method not allowed');
+}
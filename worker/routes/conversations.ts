@@ -10,9 +10,15 @@ import type { AuthContext } from '../middleware/auth.js';
 import { withPracticeContext, getPracticeId } from '../middleware/practiceContext.js';
 import { Logger } from '../utils/logger.js';
 import { SessionAuditService } from '../services/SessionAuditService.js';
+import { IntakeEventService, writeIntakeTurn } from '../services/IntakeEventService.js';
+import { IntakeExperimentService } from '../services/IntakeExperimentService.js';
+import { resolveIntakeTemplateSlug } from '../utils/intakeFunnel.js';
+import { resolveIntakeExperimentAssignment } from '../utils/intakeExperiments.js';
 import { listConversationParticipantRecords, validateMentionTargets, type MentionSenderType } from '../services/ConversationParticipantService.js';
 import { handleSubmitIntake } from './submitIntake.js';
 import { getAcceptedIntakeConversationIds, materializeAcceptedConversations } from '../utils/intakeVisibility.js';
+import { ConversationTranscriptService } from '../services/ConversationTranscriptService.js';
+import { TRANSCRIPT_EXPORT_FORMATS, TranscriptExportFormatSchema } from '../types/wire/conversationTranscript.js';
 
 const SYSTEM_MESSAGE_ALLOWLIST = new Set([
   'system-intro',
@@ -304,6 +310,73 @@ export async function handleConversations(request: Request, env: Env): Promise<R
     return createJsonResponse({ message: storedMessage });
   }
 
+  // PATCH/DELETE /api/conversations/:id/messages/:messageId - Edit or delete a message
+  // GET /api/conversations/:id/messages/:messageId/edits - Edit/delete history
+  if (
+    (segments.length === 5 && segments[3] === 'messages' && (request.method === 'PATCH' || request.method === 'DELETE')) ||
+    (segments.length === 6 && segments[3] === 'messages' && segments[5] === 'edits' && request.method === 'GET')
+  ) {
+    const requestWithContext = await withPracticeContext(request, env, {
+      requirePractice: true,
+      authContext,
+      allowAuthenticatedUrlPracticeId: true,
+    });
+    const conversationId = segments[2];
+    const messageId = segments[4];
+    if (!messageId) {
+      throw HttpErrors.badRequest('messageId is required');
+    }
+
+    const conversationPracticeId = getPracticeId(requestWithContext);
+
+    let memberRole: string | null = null;
+    if (authContext.isAnonymous) {
+      await conversationService.validateParticipantAccess(conversationId, conversationPracticeId, userId, { previousAnonUserId: prevAnonId });
+    } else {
+      const membership = await checkPracticeMembership(request, env, conversationPracticeId, { authContext });
+      if (isStaffMemberRole(membership.memberRole)) {
+        memberRole = membership.memberRole ?? null;
+      } else {
+        await conversationService.validateParticipantAccess(conversationId, conversationPracticeId, userId, { previousAnonUserId: prevAnonId });
+      }
+    }
+
+    if (request.method === 'GET') {
+      const edits = await conversationService.getMessageEditHistory({
+        conversationId,
+        practiceId: conversationPracticeId,
+        messageId,
+        viewer: { userId, memberRole }
+      });
+      return createJsonResponse({ messageId, edits });
+    }
+
+    const actor = { userId, memberRole };
+
+    if (request.method === 'PATCH') {
+      const body = await parseJsonBody(request) as { content?: unknown };
+      if (typeof body?.content !== 'string') {
+        throw HttpErrors.badRequest('content is required');
+      }
+      const message = await conversationService.editMessage({
+        conversationId,
+        practiceId: conversationPracticeId,
+        messageId,
+        actor,
+        content: body.content
+      });
+      return createJsonResponse({ message });
+    }
+
+    const message = await conversationService.deleteMessage({
+      conversationId,
+      practiceId: conversationPracticeId,
+      messageId,
+      actor
+    });
+    return createJsonResponse({ message });
+  }
+
   // GET/POST/DELETE /api/conversations/:id/messages/:messageId/reactions
   if (segments.length === 6 && segments[3] === 'messages' && segments[5] === 'reactions') {
     const requestWithContext = await withPracticeContext(request, env, {
@@ -470,13 +543,34 @@ export async function handleConversations(request: Request, env: Env): Promise<R
       && practiceContext.isMember
       && isStaffMemberRole(practiceContext.memberRole);
 
+    // The intake experiment assignment is the worker's to make: drop whatever
+    // the client sent and stamp the running experiment's variant for this
+    // session. A failed lookup leaves the conversation out of the experiment.
+    const metadata = body.metadata ? { ...body.metadata } : undefined;
+    if (metadata) delete metadata.intakeExperiment;
+    if (isAnonymous && metadata) {
+      try {
+        const intakeExperiment = await new IntakeExperimentService(env).assignConversation(
+          practiceId,
+          authContext.session.id,
+          resolveIntakeTemplateSlug(metadata),
+        );
+        if (intakeExperiment) metadata.intakeExperiment = intakeExperiment;
+      } catch (error) {
+        Logger.warn('intake.experiment.assignment_failed', {
+          practiceId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
     const conversation = await conversationService.createConversation({
       practiceId,
       userId,
       isAnonymous,
       matterId: body.matterId || null,
       participantUserIds: participants,
-      metadata: body.metadata,
+      metadata,
       skipPracticeValidation: !practiceContext.isMember,
       lifecycleStatus: staffInitiated ? 'visible' : 'pending_visibility',
     }, request);
@@ -1062,6 +1156,11 @@ export async function handleConversations(request: Request, env: Env): Promise<R
       internalNotes?: string | null;
     };
 
+    // Set once at creation (see POST above); never patched by clients.
+    if (body.metadata && 'intakeExperiment' in body.metadata) {
+      delete body.metadata.intakeExperiment;
+    }
+
     const isTriageUpdate = body.assignedTo !== undefined
       || body.priority !== undefined
       || body.internalNotes !== undefined;
@@ -1165,12 +1264,92 @@ export async function handleConversations(request: Request, env: Env): Promise<R
           });
           throw error;
         }
+        // Funnel: activation happens once, when the slim contact form is
+        // submitted — that's the contact step.
+        await writeIntakeTurn(
+          new IntakeEventService(env),
+          {
+            conversationId,
+            practiceId,
+            provenance: 'intake_step',
+            funnelStep: 'contact',
+            templateSlug: resolveIntakeTemplateSlug(userInfo),
+            ...resolveIntakeExperimentAssignment(userInfo),
+          },
+          'fire_and_forget',
+        );
       }
     }
 
     return createJsonResponse(conversation);
   }
 
+  // GET /api/conversations/:id/export?format=pdf|html|json - Download a transcript
+  // POST /api/conversations/:id/export { format } - Save a transcript to the linked matter
+  if (segments.length === 4 && segments[3] === 'export' && (request.method === 'GET' || request.method === 'POST')) {
+    const requestWithContext = await withPracticeContext(request, env, {
+      requirePractice: true,
+      authContext
+    });
+    const conversationId = segments[2];
+    const practiceId = getPracticeId(requestWithContext);
+
+    if (authContext.isAnonymous) {
+      throw HttpErrors.forbidden('Only practice staff can export conversation transcripts');
+    }
+    const membership = await checkPracticeMembership(request, env, practiceId, { authContext });
+    if (!isStaffMemberRole(membership.memberRole)) {
+      throw HttpErrors.forbidden('Only practice staff can export conversation transcripts');
+    }
+
+    const saveToMatter = request.method === 'POST';
+    const rawFormat = saveToMatter
+      ? (await parseJsonBody(request) as { format?: unknown }).format ?? 'pdf'
+      : url.searchParams.get('format') ?? 'pdf';
+    const parsedFormat = TranscriptExportFormatSchema.safeParse(
+      typeof rawFormat === 'string' ? rawFormat.toLowerCase() : rawFormat
+    );
+    if (!parsedFormat.success) {
+      throw HttpErrors.badRequest(`format must be one of: ${TRANSCRIPT_EXPORT_FORMATS.join(', ')}`);
+    }
+    const format = parsedFormat.data;
+
+    const transcriptService = new ConversationTranscriptService(env);
+    const transcript = await transcriptService.load({
+      conversationId,
+      practiceId,
+      // Attachment links point back at this worker's /api/files route.
+      publicOrigin: url.origin,
+      exportedBy: userId,
+      request,
+    });
+    const rendered = await transcriptService.render(transcript, format, {
+      request,
+      locale: request.headers.get('Accept-Language')?.split(',')[0]?.split(';')[0]?.trim()
+    });
+
+    if (saveToMatter) {
+      const saved = await transcriptService.saveToMatter(transcript, format, rendered, request);
+      await transcriptService.recordExport(transcript, {
+        format,
+        destination: 'matter',
+        actorId: userId,
+        uploadId: saved.uploadId
+      });
+      return createJsonResponse(saved);
+    }
+
+    await transcriptService.recordExport(transcript, { format, destination: 'download', actorId: userId });
+    return new Response(rendered.body as BodyInit, {
+      status: 200,
+      headers: {
+        'Content-Type': rendered.contentType,
+        'Content-Disposition': `attachment; filename="${rendered.fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  }
+
   // POST /api/conversations/:id/audit - Log conversation audit events
   if (segments.length === 4 && segments[3] === 'audit' && request.method === 'POST') {
     const requestWithContext = await withPracticeContext(request, env, {
@@ -1200,6 +1379,24 @@ export async function handleConversations(request: Request, env: Env): Promise<R
       payload: body.payload ?? null
     });
 
+    // Funnel: the widget starts the consult flow once the visitor is past
+    // the legal disclaimer — that's the disclaimer step.
+    if (body.eventType === 'consult_flow_started') {
+      const conversation = await conversationService.getConversation(conversationId, practiceId);
+      await writeIntakeTurn(
+        new IntakeEventService(env),
+        {
+          conversationId,
+          practiceId,
+          provenance: 'intake_step',
+          funnelStep: 'disclaimer',
+          templateSlug: resolveIntakeTemplateSlug(conversation.user_info),
+          ...resolveIntakeExperimentAssignment(conversation.user_info),
+        },
+        'fire_and_forget',
+      );
+    }
+
     return createJsonResponse({ logged: true });
   }
 
@@ -12,7 +12,8 @@ import { parseJsonBody } from '../utils.js';
 import { HttpErrors } from '../errorHandler.js';
 import { withPracticeContext, getPracticeId } from '../middleware/practiceContext.js';
 import { requirePracticeMember } from '../middleware/auth.js';
-import { createWorkersAiClient } from '../utils/workersAiClient.js';
+import { AI_BUDGET_EXHAUSTED_MESSAGE, createWorkersAiClient, isAiBudgetExhausted } from '../utils/workersAiClient.js';
+import { AiUsageService } from '../services/AiUsageService.js';
 import { Logger } from '../utils/logger.js';
 import type { Env } from '../types.js';
 
@@ -39,13 +40,16 @@ const DRAFT_MAX_TOKENS = 1800;
 
 const draftTemplate = async (
   env: Env,
+  practiceId: string,
   input: DraftTemplateInput,
 ): Promise<DraftedTemplate> => {
   const { prompt, practiceArea = '', feeType = 'hourly' } = input;
 
   let aiClient;
   try {
-    aiClient = createWorkersAiClient(env);
+    aiClient = createWorkersAiClient(env, {
+      meter: new AiUsageService(env).meter({ practiceId, feature: 'engagement_template' }),
+    });
   } catch {
     throw HttpErrors.serviceUnavailable('AI service is not available');
   }
@@ -98,6 +102,9 @@ const draftTemplate = async (
     throw HttpErrors.serviceUnavailable('AI draft failed');
   }
 
+  if (isAiBudgetExhausted(response)) {
+    throw HttpErrors.tooManyRequests(AI_BUDGET_EXHAUSTED_MESSAGE);
+  }
   if (!response.ok) {
     Logger.warn('[draftEngagementTemplate] AI response not ok', { status: response.status });
     throw HttpErrors.serviceUnavailable('AI draft failed');
@@ -171,7 +178,7 @@ export const handleDraftEngagementTemplate = async (request: Request, env: Env):
     ? (body.feeType as EngagementFeeType)
     : undefined;
 
-  const template = await draftTemplate(env, {
+  const template = await draftTemplate(env, practiceId, {
     prompt: body.prompt.trim(),
     practiceArea: typeof body.practiceArea === 'string' ? body.practiceArea : undefined,
     feeType,
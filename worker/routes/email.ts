@@ -0,0 +1,151 @@
+import type { Env } from '../types.js';
+import { HttpErrors } from '../errorHandler.js';
+import { EmailSuppressionStore, normalizeEmailAddress } from '../services/EmailSuppressionStore.js';
+import { verifyUnsubscribeToken } from '../utils/emailUnsubscribeToken.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Public email endpoints — no session auth, each gated on its own secret.
+ *
+ *   GET  /api/email/unsubscribe?token=…  confirmation page (link scanners
+ *                                        prefetch GETs, so it doesn't act)
+ *   POST /api/email/unsubscribe?token=…  unsubscribes; also the RFC 8058
+ *                                        one-click target of List-Unsubscribe
+ *   POST /api/email/events               provider bounce/complaint webhook,
+ *                                        x-email-webhook-secret header
+ */
+
+const CATEGORY_LABELS: Record<string, string> = {
+  message: 'message',
+  payment: 'payment',
+  intake: 'intake',
+  matter: 'matter',
+  system: 'account',
+  '*': 'all',
+};
+
+const htmlPage = (title: string, body: string, status = 200): Response =>
+  new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1"><title>${title}</title></head>`
+      + `<body style="font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;max-width:480px;margin:48px auto;padding:0 16px;color:#1c1917;">`
+      + `<h1 style="font-size:20px;">${title}</h1>${body}</body></html>`,
+    { status, headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' } },
+  );
+
+const invalidLinkPage = () =>
+  htmlPage('Link not valid', '<p>This unsubscribe link is invalid. You can change email settings from your notification preferences.</p>', 400);
+
+async function readToken(request: Request): Promise<string> {
+  const fromQuery = new URL(request.url).searchParams.get('token');
+  if (fromQuery) return fromQuery;
+  if (request.method !== 'POST') return '';
+  const form = await request.formData().catch(() => null);
+  const fromForm = form?.get('token');
+  return typeof fromForm === 'string' ? fromForm : '';
+}
+
+async function handleUnsubscribe(request: Request, env: Env): Promise<Response> {
+  if (request.method !== 'GET' && request.method !== 'POST') {
+    throw HttpErrors.methodNotAllowed();
+  }
+  const token = await readToken(request);
+  const claims = token ? await verifyUnsubscribeToken(env, token) : null;
+  if (!claims) return invalidLinkPage();
+  const label = CATEGORY_LABELS[claims.scope] ?? 'these';
+
+  if (request.method === 'GET') {
+    return htmlPage(
+      'Unsubscribe',
+      `<p>Stop sending ${label} notification emails to this address?</p>`
+        + `<form method="post"><input type="hidden" name="token" value="${token.replace(/"/g, '&quot;')}">`
+        + '<button type="submit" style="padding:8px 14px;">Unsubscribe</button></form>',
+    );
+  }
+
+  await new EmailSuppressionStore(env).suppress({
+    email: claims.email,
+    scope: claims.scope,
+    reason: 'unsubscribe',
+    userId: claims.userId,
+  });
+  return htmlPage('Unsubscribed', `<p>You won't receive ${label} notification emails at this address anymore.</p>`);
+}
+
+const constantTimeEquals = (a: string, b: string): boolean => {
+  let diff = a.length ^ b.length;
+  const len = Math.max(a.length, b.length);
+  for (let i = 0; i < len; i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+};
+
+type EmailEvent = { kind: 'bounce' | 'complaint'; emails: string[]; detail: string | null };
+
+/**
+ * Accepts the generic `{ type: 'bounce' | 'complaint', email }` shape and
+ * Resend's `{ type: 'email.bounced' | 'email.complained', data: { to } }`.
+ * Other event types (delivered, opened, …) are acknowledged and ignored.
+ */
+const parseEmailEvent = (raw: unknown): EmailEvent | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const record = raw as Record<string, unknown>;
+  const type = typeof record.type === 'string' ? record.type : '';
+  const kind = type === 'bounce' || type === 'email.bounced'
+    ? 'bounce'
+    : type === 'complaint' || type === 'email.complained'
+      ? 'complaint'
+      : null;
+  if (!kind) return null;
+
+  const data = record.data && typeof record.data === 'object' ? record.data as Record<string, unknown> : {};
+  const candidates = [record.email, data.email, data.to].flat();
+  const emails = candidates.filter((value): value is string => typeof value === 'string' && value.includes('@'));
+  const bounce = data.bounce && typeof data.bounce === 'object' ? data.bounce as Record<string, unknown> : null;
+  const detail = typeof record.reason === 'string'
+    ? record.reason
+    : typeof bounce?.message === 'string' ? bounce.message : null;
+  return { kind, emails, detail };
+};
+
+async function handleEmailEvents(request: Request, env: Env): Promise<Response> {
+  if (request.method !== 'POST') throw HttpErrors.methodNotAllowed();
+  if (!env.EMAIL_WEBHOOK_SECRET) {
+    throw HttpErrors.serviceUnavailable('Email webhook not configured');
+  }
+  const secret = request.headers.get('x-email-webhook-secret') ?? '';
+  if (!constantTimeEquals(secret, env.EMAIL_WEBHOOK_SECRET)) {
+    throw HttpErrors.unauthorized('Invalid webhook secret');
+  }
+
+  const body = await request.json().catch(() => null);
+  const event = parseEmailEvent(body);
+  if (!event) {
+    return new Response(JSON.stringify({ success: true, data: { suppressed: 0 } }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  const store = new EmailSuppressionStore(env);
+  const emails = Array.from(new Set(event.emails.map(normalizeEmailAddress)));
+  for (const email of emails) {
+    await store.suppress({
+      email,
+      scope: '*',
+      reason: event.kind,
+      detail: event.detail?.slice(0, 500) ?? null,
+    });
+  }
+  Logger.info('Email suppression recorded from provider webhook', { kind: event.kind, count: emails.length });
+
+  return new Response(JSON.stringify({ success: true, data: { suppressed: emails.length } }), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export async function handleEmail(request: Request, env: Env): Promise<Response> {
+  const path = new URL(request.url).pathname;
+  if (path === '/api/email/unsubscribe') return handleUnsubscribe(request, env);
+  if (path === '/api/email/events') return handleEmailEvents(request, env);
+  throw HttpErrors.notFound('Email endpoint not found');
+}
@@ -7,6 +7,7 @@ import { StatusService, type StatusUpdate } from '../services/StatusService.js';
 import { Logger } from '../utils/logger';
 import { withPracticeContext, getPracticeId } from '../middleware/practiceContext.js';
 import { RemoteApiService } from '../services/RemoteApiService.js';
+import { consumePracticeQuota, rateLimitExceededResponse, withRateLimitHeaders } from '../middleware/rateLimit.js';
 
 /**
  * Updates status once and logs failures for debugging.
@@ -416,6 +417,12 @@ export async function handleFiles(request: Request, env: Env): Promise<Response>
         resolvedConversationId = storageConversationId;
       }
 
+      // Uploads per hour, per practice, at the practice's plan tier
+      const uploadQuota = await consumePracticeQuota(env, 'uploads', resolvedPracticeId, request);
+      if (!uploadQuota.allowed) {
+        return rateLimitExceededResponse(uploadQuota, 'Upload limit reached for this practice. Please try again later.');
+      }
+
       // Update status to indicate file stored
       let statusId: string | null = null;
       let statusCreatedAt: number | null = null;
@@ -512,10 +519,10 @@ export async function handleFiles(request: Request, env: Env): Promise<Response>
 
       const responseHeaders = new Headers({ 'Content-Type': 'application/json' });
 
-      return new Response(JSON.stringify(responseBody), {
+      return withRateLimitHeaders(new Response(JSON.stringify(responseBody), {
         status: 200,
         headers: responseHeaders
-      });
+      }), uploadQuota);
 
     } catch (error) {
       // Handle upload failure
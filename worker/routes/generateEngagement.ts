@@ -17,6 +17,7 @@ import { HttpErrors } from '../errorHandler.js';
 import { withPracticeContext, getPracticeId } from '../middleware/practiceContext.js';
 import { requirePracticeMember } from '../middleware/auth.js';
 import { createWorkersAiClient } from '../utils/workersAiClient.js';
+import { AiUsageService } from '../services/AiUsageService.js';
 import { Logger } from '../utils/logger.js';
 import type { Env } from '../types.js';
 import type { IntakeEnrichedData } from '../../src/shared/types/intake.js';
@@ -116,6 +117,7 @@ const ENGAGEMENT_MAX_TOKENS = 1200;
 
 const generateContractBody = async (
   env: Env,
+  practiceId: string,
   partialBody: string,
   enriched: IntakeEnrichedData | null,
   intake: IntakeFields,
@@ -123,7 +125,9 @@ const generateContractBody = async (
 ): Promise<string> => {
   let aiClient;
   try {
-    aiClient = createWorkersAiClient(env);
+    aiClient = createWorkersAiClient(env, {
+      meter: new AiUsageService(env).meter({ practiceId, feature: 'engagement_generation' }),
+    });
   } catch (error) {
     Logger.warn('[generateEngagement] AI client unavailable', {
       error: error instanceof Error ? error.message : String(error),
@@ -217,6 +221,7 @@ const isValidTemplate = (v: unknown): v is EngagementLetterTemplate => {
 
 export const generateEngagementDraft = async (
   env: Env,
+  practiceId: string,
   input: GenerateEngagementDraftInput,
 ): Promise<{ contractBody: string; partialBody: string }> => {
   if (!isValidTemplate(input.template)) {
@@ -237,7 +242,7 @@ export const generateEngagementDraft = async (
     input.intakeFields,
   );
 
-  const contractBody = await generateContractBody(env, partialBody, enriched, input.intakeFields, input.template);
+  const contractBody = await generateContractBody(env, practiceId, partialBody, enriched, input.intakeFields, input.template);
   return { contractBody, partialBody };
 };
 
@@ -261,7 +266,7 @@ export const handleGenerateEngagement = async (request: Request, env: Env): Prom
     intakeFields?: unknown;
   };
 
-  const { contractBody } = await generateEngagementDraft(env, body);
+  const { contractBody } = await generateEngagementDraft(env, practiceId, body);
 
   return new Response(JSON.stringify({ contractBody }), {
     status: 200,
@@ -15,6 +15,7 @@ import { HttpErrors } from '../errorHandler.js';
 import type { Env } from '../types.js';
 import { requirePracticeMember } from '../middleware/auth.js';
 import { createWorkersAiClient } from '../utils/workersAiClient.js';
+import { AiUsageService } from '../services/AiUsageService.js';
 import { Logger } from '../utils/logger.js';
 
 const FETCH_TIMEOUT_MS = 8_000;
@@ -137,7 +138,9 @@ export async function handleWebsiteExtract(request: Request, env: Env): Promise<
   }
 
   // ── 2. Extract fields via AI ───────────────────────────────────────────────
-  const aiClient = createWorkersAiClient(env);
+  const aiClient = createWorkersAiClient(env, {
+    meter: new AiUsageService(env).meter({ practiceId: body.practiceId, feature: 'website_extract' }),
+  });
   const model = DEFAULT_WEBSITE_EXTRACT_MODEL;
 
   const extractionTool = {
@@ -0,0 +1,69 @@
+/**
+ * GET /api/practice/:practiceId/intake-templates/:slug/analytics
+ *
+ * Funnel analytics for one intake template, computed from intake_events:
+ * uses, disclaimer → contact → case → submit drop-off, median turns to
+ * submit, most-abandoned field and conversion rate.
+ *
+ * Query params:
+ *   start, end – ISO timestamps; default is the last 30 days.
+ */
+import type { Env } from '../types.js';
+import { HttpErrors } from '../errorHandler.js';
+import { requirePracticeMember } from '../middleware/auth.js';
+import { IntakeFunnelService, type IntakeFunnelRange } from '../services/IntakeFunnelService.js';
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SLUG_RE = /^[a-z0-9][a-z0-9_-]{0,127}$/i;
+
+export const INTAKE_ANALYTICS_PATH_RE = /^\/api\/practice\/([^/]+)\/intake-templates\/([^/]+)\/analytics$/;
+
+const decodeSegment = (raw: string | undefined, label: string): string => {
+  try {
+    const value = decodeURIComponent(raw ?? '');
+    if (value) return value;
+  } catch {
+    // fall through
+  }
+  throw HttpErrors.badRequest(`${label} required`);
+};
+
+export const parseAnalyticsRange = (url: URL, now: Date = new Date()): IntakeFunnelRange => {
+  const startRaw = url.searchParams.get('start');
+  const endRaw = url.searchParams.get('end');
+  const endMs = endRaw ? Date.parse(endRaw) : now.getTime();
+  const startMs = startRaw ? Date.parse(startRaw) : endMs - DEFAULT_RANGE_DAYS * DAY_MS;
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || startMs > endMs) {
+    throw HttpErrors.badRequest('start and end must be ISO dates with start before end');
+  }
+  if (endMs - startMs > MAX_RANGE_DAYS * DAY_MS) {
+    throw HttpErrors.badRequest(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+  }
+  return { startIso: new Date(startMs).toISOString(), endIso: new Date(endMs).toISOString() };
+};
+
+export async function handleIntakeAnalytics(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(INTAKE_ANALYTICS_PATH_RE);
+  if (!match) throw HttpErrors.notFound('Route not found');
+  if (request.method !== 'GET') throw HttpErrors.methodNotAllowed('Method not allowed');
+
+  const practiceId = decodeSegment(match[1], 'Practice ID');
+  const templateSlug = decodeSegment(match[2], 'Template slug');
+  if (!SLUG_RE.test(templateSlug)) throw HttpErrors.badRequest('Invalid template slug');
+
+  await requirePracticeMember(request, env, practiceId, 'paralegal');
+
+  const range = parseAnalyticsRange(url);
+  const funnel = await new IntakeFunnelService(env).getTemplateFunnel(practiceId, templateSlug, range);
+
+  return new Response(JSON.stringify({
+    success: true,
+    data: { ...funnel, start: range.startIso, end: range.endIso },
+  }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
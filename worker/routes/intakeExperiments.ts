@@ -0,0 +1,133 @@
+/**
+ * /api/practice/:practiceId/intake-experiments[/:experimentId[/promote]]
+ *
+ * A/B experiments across intake templates.
+ *
+ *   GET    …/intake-experiments               list, newest first
+ *   POST   …/intake-experiments               start one { name, variants: [{ key, templateSlug, weight? }] }
+ *                                              — every templateSlug must be a published template
+ *   GET    …/intake-experiments/:id           experiment + per-variant results vs the control
+ *   PATCH  …/intake-experiments/:id           { status: 'running' | 'paused' } — resuming rechecks the templates
+ *   POST   …/intake-experiments/:id/promote   { variantKey } — ends the experiment
+ *
+ * Promotion only records the winner and stops assignment; the client makes
+ * the winning template the practice default through the backend template
+ * API first, so a failed default switch leaves the experiment running.
+ */
+import type { Env } from '../types.js';
+import { createSuccessResponse, HttpErrors } from '../errorHandler.js';
+import { requirePracticeMember } from '../middleware/auth.js';
+import {
+  EXPERIMENT_NAME_MAX,
+  IntakeExperimentService,
+} from '../services/IntakeExperimentService.js';
+import { RemoteApiService } from '../services/RemoteApiService.js';
+import { parseExperimentVariants } from '../utils/intakeExperiments.js';
+
+export const INTAKE_EXPERIMENTS_PATH_RE = /^\/api\/practice\/([^/]+)\/intake-experiments(?:\/([^/]+)(?:\/(promote))?)?$/;
+
+const decodeSegment = (raw: string | undefined, label: string): string => {
+  try {
+    const value = decodeURIComponent(raw ?? '');
+    if (value) return value;
+  } catch {
+    // fall through
+  }
+  throw HttpErrors.badRequest(`${label} required`);
+};
+
+const readBody = async (request: Request): Promise<Record<string, unknown>> => {
+  const raw = await request.json().catch(() => null) as unknown;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw HttpErrors.badRequest('Request body must be an object');
+  }
+  return raw as Record<string, unknown>;
+};
+
+export async function handleIntakeExperiments(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(INTAKE_EXPERIMENTS_PATH_RE);
+  if (!match) throw HttpErrors.notFound('Route not found');
+
+  const practiceId = decodeSegment(match[1], 'Practice ID');
+  const experimentId = match[2] ? decodeSegment(match[2], 'Experiment ID') : null;
+  const isPromote = match[3] === 'promote';
+  const method = request.method;
+  const service = new IntakeExperimentService(env);
+
+  if (!experimentId) {
+    if (method === 'GET') {
+      await requirePracticeMember(request, env, practiceId, 'paralegal');
+      return createSuccessResponse(await service.list(practiceId));
+    }
+    if (method === 'POST') {
+      const auth = await requirePracticeMember(request, env, practiceId, 'admin');
+      const body = await readBody(request);
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) throw HttpErrors.badRequest('name is required');
+      if (name.length > EXPERIMENT_NAME_MAX) {
+        throw HttpErrors.badRequest(`name must be at most ${EXPERIMENT_NAME_MAX} characters`);
+      }
+      const publishedSlugs = await RemoteApiService.getPublishedIntakeTemplateSlugs(env, practiceId, request);
+      const parsed = parseExperimentVariants(body.variants, publishedSlugs);
+      if ('error' in parsed) throw HttpErrors.badRequest(parsed.error);
+      if (await service.getRunning(practiceId)) {
+        throw HttpErrors.conflict('Another intake experiment is already running');
+      }
+      const created = await service.create(practiceId, {
+        name,
+        variants: parsed.variants,
+        createdBy: auth.user.id,
+      });
+      return createSuccessResponse(created);
+    }
+    throw HttpErrors.methodNotAllowed('Method not allowed');
+  }
+
+  if (isPromote) {
+    if (method !== 'POST') throw HttpErrors.methodNotAllowed('Method not allowed');
+    await requirePracticeMember(request, env, practiceId, 'admin');
+    const experiment = await service.get(practiceId, experimentId);
+    if (!experiment) throw HttpErrors.notFound('Experiment not found');
+    if (experiment.status === 'completed') throw HttpErrors.conflict('Experiment has already ended');
+    const body = await readBody(request);
+    const winner = experiment.variants.find((variant) => variant.key === body.variantKey);
+    if (!winner) throw HttpErrors.badRequest('variantKey must name one of the experiment variants');
+    await service.complete(practiceId, experimentId, winner.key);
+    const promoted = await service.get(practiceId, experimentId);
+    if (!promoted) throw HttpErrors.notFound('Experiment not found');
+    return createSuccessResponse(await service.getResults(promoted));
+  }
+
+  if (method === 'GET') {
+    await requirePracticeMember(request, env, practiceId, 'paralegal');
+    const experiment = await service.get(practiceId, experimentId);
+    if (!experiment) throw HttpErrors.notFound('Experiment not found');
+    return createSuccessResponse(await service.getResults(experiment));
+  }
+
+  if (method === 'PATCH') {
+    await requirePracticeMember(request, env, practiceId, 'admin');
+    const experiment = await service.get(practiceId, experimentId);
+    if (!experiment) throw HttpErrors.notFound('Experiment not found');
+    const body = await readBody(request);
+    if (body.status !== 'running' && body.status !== 'paused') {
+      throw HttpErrors.badRequest("status must be 'running' or 'paused'");
+    }
+    if (experiment.status === 'completed') throw HttpErrors.conflict('Experiment has already ended');
+    if (body.status === 'running' && experiment.status !== 'running') {
+      const running = await service.getRunning(practiceId);
+      if (running && running.id !== experimentId) {
+        throw HttpErrors.conflict('Another intake experiment is already running');
+      }
+      // A template may have been unpublished while the experiment was paused.
+      const publishedSlugs = await RemoteApiService.getPublishedIntakeTemplateSlugs(env, practiceId, request);
+      const recheck = parseExperimentVariants(experiment.variants, publishedSlugs);
+      if ('error' in recheck) throw HttpErrors.badRequest(recheck.error);
+    }
+    await service.setStatus(practiceId, experimentId, body.status);
+    return createSuccessResponse(await service.get(practiceId, experimentId));
+  }
+
+  throw HttpErrors.methodNotAllowed('Method not allowed');
+}
@@ -169,8 +169,9 @@ export async function handleMatterSummary(request: Request, env: Env): Promise<R
           SELECT id, tool_name, approval_summary_json, created_at
           FROM practice_assistant_actions
           WHERE practice_id = ? AND status = 'pending'
+            AND (expires_at IS NULL OR expires_at > ?)
           ORDER BY created_at DESC LIMIT 5
-        `).bind(practiceId).all<{ id: string; tool_name: string; approval_summary_json: string; created_at: string }>(),
+        `).bind(practiceId, new Date().toISOString()).all<{ id: string; tool_name: string; approval_summary_json: string; created_at: string }>(),
       ]);
 
       const { hours: unbilledHours, amount: unbilledAmount } = parseUnbilled(
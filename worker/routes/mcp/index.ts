@@ -1,6 +1,9 @@
 import type { Request as WorkerRequest } from '@cloudflare/workers-types';
 import type { Env } from '../../types.js';
-import { McpEventBatchSchema, fanOutEventToSessions } from '../../services/MCPEventBus.js';
+import { McpEventBatchSchema, fanOutEventToSessions, type McpEventWire } from '../../services/MCPEventBus.js';
+import { TrustComplianceService } from '../../services/TrustComplianceService.js';
+import { TrustLedgerChangeSchema } from '../../types/wire/trustCompliance.js';
+import { Logger } from '../../utils/logger.js';
 
 /**
  * MCP route handlers — U6 scaffolding.
@@ -235,6 +238,10 @@ export async function handleMcpWebSocket(request: Request, env: Env): Promise<Re
  * out to every active McpSession DO for the practice whose granted
  * scopes cover the event class. At-least-once delivery; per-session
  * dedup happens inside the DO via `event_id` PK.
+ *
+ * `trust:ledger_changed` events are also evaluated against the practice's
+ * trust compliance rules before fan-out; the payload contract is
+ * documented on TrustLedgerChangeSchema.
  */
 const constantTimeEquals = (a: string, b: string): boolean => {
   let diff = a.length ^ b.length;
@@ -245,6 +252,21 @@ const constantTimeEquals = (a: string, b: string): boolean => {
   return diff === 0;
 };
 
+const TRUST_LEDGER_CHANGED_EVENT = 'trust:ledger_changed';
+
+const evaluateTrustLedgerEvent = async (env: Env, event: McpEventWire): Promise<void> => {
+  const change = TrustLedgerChangeSchema.safeParse(event.payload);
+  if (!change.success) {
+    Logger.warn('Ignoring malformed trust ledger event', {
+      eventId: event.event_id,
+      practiceId: event.practice_id,
+      issues: change.error.issues.slice(0, 5),
+    });
+    return;
+  }
+  await new TrustComplianceService(env).evaluateLedgerChange(event.practice_id, change.data);
+};
+
 export async function handleMcpInternalEvents(request: Request, env: Env): Promise<Response> {
   if (request.method !== 'POST') {
     return new Response('Method not allowed', { status: 405 });
@@ -281,6 +303,13 @@ export async function handleMcpInternalEvents(request: Request, env: Env): Promi
     );
   }
 
+  // Trust ledger changes feed the practice's compliance rules before fan-out.
+  // A failure here fails the batch so the outbox redelivers it; already
+  // evaluated transactions are skipped on the retry.
+  for (const event of batchResult.data.events) {
+    if (event.event_type === TRUST_LEDGER_CHANGED_EVENT) await evaluateTrustLedgerEvent(env, event);
+  }
+
   const results = await Promise.all(
     batchResult.data.events.map((event) => fanOutEventToSessions(env, event)),
   );
@@ -0,0 +1,138 @@
+import { toolErr, toolOk, type JsonRpcOutcome, type McpToolContext } from './tools/dispatch.js';
+
+/**
+ * MCP prompts — canned workflows an agent can offer the lawyer as
+ * one-click starting points ("triage today's intakes").
+ *
+ * A prompt only renders instructions; the agent then calls the regular
+ * tools, which enforce their own scopes. Each prompt still lists the
+ * scopes its workflow depends on so `prompts/list` doesn't advertise a
+ * workflow the session could not carry out.
+ */
+
+interface McpPromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+interface McpPromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: McpPromptArgument[];
+  requiredScopes: readonly string[];
+  render: (args: Record<string, string>) => string;
+}
+
+export const PROMPT_DEFINITIONS: readonly McpPromptDefinition[] = [
+  {
+    name: 'triage_todays_intakes',
+    title: "Triage today's intakes",
+    description: 'Review intakes submitted today that have not been triaged and recommend accept or reject for each.',
+    arguments: [
+      { name: 'focus', description: 'Optional practice area or criteria to weigh, e.g. "family law only".', required: false },
+    ],
+    requiredScopes: ['intakes:read'],
+    render: (args) => [
+      "Triage today's intakes for this practice.",
+      '',
+      '1. Call list_intakes with triage_status "untriaged" and keep the ones submitted today.',
+      '2. For each, call get_intake and read the answers and description.',
+      '3. Recommend accept or reject with a one-line reason, and flag anything urgent (deadlines, court dates, safety concerns).',
+      args.focus ? `4. Weigh this criteria when recommending: ${args.focus}` : null,
+      '',
+      'Present the recommendations as a table. Do not call triage_intake until I confirm each decision.',
+    ].filter((line): line is string => line !== null).join('\n'),
+  },
+  {
+    name: 'matter_status_brief',
+    title: 'Matter status brief',
+    description: 'Summarise where one matter stands: recent notes, open tasks, upcoming milestones and unbilled time.',
+    arguments: [
+      { name: 'matter_id', description: "Matter UUID, e.g. 'mat_01...'.", required: true },
+    ],
+    requiredScopes: ['matters:read'],
+    render: (args) => [
+      `Brief me on matter ${args.matter_id}.`,
+      '',
+      'Call get_matter and summarise in under 200 words:',
+      '- current status and the most recent note',
+      '- open tasks, with owners and due dates',
+      '- the next milestone',
+      '- time logged since the last invoice, if any',
+      '',
+      'End with the single most important next step.',
+    ].join('\n'),
+  },
+  {
+    name: 'chase_overdue_invoices',
+    title: 'Chase overdue invoices',
+    description: 'List overdue invoices and draft a short, polite reminder for each client.',
+    arguments: [],
+    requiredScopes: ['invoices:read'],
+    render: () => [
+      'Find overdue invoices for this practice.',
+      '',
+      '1. Call list_invoices with status "overdue".',
+      '2. For each, call get_invoice for the amount due, due date and matter.',
+      '3. Draft a two or three sentence reminder per client. Keep it courteous and include the amount and due date.',
+      '',
+      'Show me the drafts. Do not send any message until I approve it.',
+    ].join('\n'),
+  },
+];
+
+const isAvailable = (prompt: McpPromptDefinition, context: McpToolContext): boolean =>
+  prompt.requiredScopes.every((scope) => context.scopes.has(scope));
+
+/** `prompts/list` — prompts whose workflows the session's scopes cover. */
+export const listPrompts = (context: McpToolContext): JsonRpcOutcome =>
+  toolOk({
+    prompts: PROMPT_DEFINITIONS
+      .filter((prompt) => isAvailable(prompt, context))
+      .map(({ name, title, description, arguments: args }) => ({ name, title, description, arguments: args })),
+  });
+
+/** `prompts/get` — renders one prompt as a single user message. */
+export const getPrompt = (
+  name: unknown,
+  rawArgs: unknown,
+  context: McpToolContext,
+): JsonRpcOutcome => {
+  const prompt = PROMPT_DEFINITIONS.find((candidate) => candidate.name === name);
+  if (!prompt) {
+    return toolErr(-32602, `Unknown prompt: ${String(name)}`, { code: 'UNKNOWN_PROMPT', retryable: false });
+  }
+
+  const missingScope = prompt.requiredScopes.find((scope) => !context.scopes.has(scope));
+  if (missingScope) {
+    return toolErr(-32002, `Insufficient scope: ${missingScope}`, {
+      code: 'SCOPE_INSUFFICIENT',
+      retryable: false,
+      required_scope: missingScope,
+      granted_scopes: Array.from(context.scopes),
+    });
+  }
+
+  const args: Record<string, string> = {};
+  if (rawArgs && typeof rawArgs === 'object' && !Array.isArray(rawArgs)) {
+    for (const argument of prompt.arguments) {
+      const value = (rawArgs as Record<string, unknown>)[argument.name];
+      if (typeof value === 'string' && value.trim()) args[argument.name] = value.trim();
+    }
+  }
+  const missing = prompt.arguments.filter((argument) => argument.required && !args[argument.name]);
+  if (missing.length > 0) {
+    return toolErr(-32602, 'Invalid params', {
+      code: 'INVALID_PARAMS',
+      retryable: false,
+      details: missing.map((argument) => ({ field: argument.name, message: 'required' })),
+    });
+  }
+
+  return toolOk({
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: prompt.render(args) } }],
+  });
+};
@@ -0,0 +1,207 @@
+import { findToolByName, type McpToolDefinition } from './toolDefinitions.js';
+import { handleReadTool } from './tools/read.js';
+import {
+  isOk,
+  toolErr,
+  toolOk,
+  type JsonRpcOutcome,
+  type McpToolContext,
+} from './tools/dispatch.js';
+
+/**
+ * MCP resources — matters, intakes and invoices exposed as browsable,
+ * subscribable `blawby://` URIs.
+ *
+ *   blawby://matters            — list (same as list_matters)
+ *   blawby://matters/{id}       — one matter (same as get_matter)
+ *   blawby://intakes[/{id}]     — list_intakes / get_intake
+ *   blawby://invoices[/{id}]    — list_invoices / get_invoice
+ *
+ * Each resource type is backed by the read tools that already exist, so
+ * reads share their backend proxy, untrusted-input wrapping and scope:
+ * a resource needs exactly the scope its tool needs. Subscribing also
+ * needs `events:subscribe`, the scope that governs server push.
+ *
+ * Update notifications ride the MCPEventBus fan-out: the McpSession DO
+ * maps each delivered event to the URIs it touches
+ * (`resourceUrisForEvent`) and notifies the ones the client subscribed to.
+ */
+
+export const RESOURCE_URI_SCHEME = 'blawby://';
+export const SUBSCRIBE_SCOPE = 'events:subscribe';
+export const MAX_RESOURCE_SUBSCRIPTIONS = 100;
+
+interface McpResourceType {
+  /** URI path segment, e.g. `matters`. */
+  collection: string;
+  title: string;
+  description: string;
+  listTool: string;
+  getTool: string;
+  /** Argument the get tool takes the id in. */
+  idArg: string;
+  /** Event types whose payload `idArg` identifies an updated record. */
+  eventTypes: readonly string[];
+}
+
+export const RESOURCE_TYPES: readonly McpResourceType[] = [
+  {
+    collection: 'matters',
+    title: 'Matters',
+    description: 'Matters for this practice, with notes, milestones, tasks, time entries and retainer balance per matter.',
+    listTool: 'list_matters',
+    getTool: 'get_matter',
+    idArg: 'matter_id',
+    eventTypes: ['matter:status_changed', 'engagement:signed'],
+  },
+  {
+    collection: 'intakes',
+    title: 'Intakes',
+    description: 'Client intakes for this practice, with triage history and submitted answers per intake.',
+    listTool: 'list_intakes',
+    getTool: 'get_intake',
+    idArg: 'intake_id',
+    eventTypes: ['intake:submitted', 'intake:triaged', 'intake:payment_succeeded'],
+  },
+  {
+    collection: 'invoices',
+    title: 'Invoices',
+    description: 'Invoices for this practice, with line items, payment history and matter linkage per invoice.',
+    listTool: 'list_invoices',
+    getTool: 'get_invoice',
+    idArg: 'invoice_id',
+    eventTypes: ['invoice:sent', 'invoice:paid', 'invoice:overdue', 'payment:received'],
+  },
+];
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+
+export interface ParsedResourceUri {
+  type: McpResourceType;
+  id: string | null;
+}
+
+export const parseResourceUri = (uri: string): ParsedResourceUri | null => {
+  if (!uri.startsWith(RESOURCE_URI_SCHEME)) return null;
+  const [collection, id, ...rest] = uri.slice(RESOURCE_URI_SCHEME.length).split('/');
+  if (rest.length > 0) return null;
+  const type = RESOURCE_TYPES.find((candidate) => candidate.collection === collection);
+  if (!type) return null;
+  if (id === undefined) return { type, id: null };
+  return ID_PATTERN.test(id) ? { type, id } : null;
+};
+
+const collectionUri = (type: McpResourceType): string => `${RESOURCE_URI_SCHEME}${type.collection}`;
+const recordUri = (type: McpResourceType, id: string): string => `${collectionUri(type)}/${id}`;
+
+/** The scope a resource needs; both tools of a type share one scope. */
+const scopeFor = (type: McpResourceType): string =>
+  findToolByName(type.getTool)?.requiredScope ?? SUBSCRIBE_SCOPE;
+
+const scopeError = (requiredScope: string, context: McpToolContext): JsonRpcOutcome =>
+  toolErr(-32002, `Insufficient scope: ${requiredScope}`, {
+    code: 'SCOPE_INSUFFICIENT',
+    retryable: false,
+    required_scope: requiredScope,
+    granted_scopes: Array.from(context.scopes),
+  });
+
+const unknownResource = (uri: string): JsonRpcOutcome =>
+  toolErr(-32602, `Unknown resource: ${uri}`, {
+    code: 'RESOURCE_NOT_FOUND',
+    retryable: false,
+    uri,
+  });
+
+/**
+ * Resolves a URI and checks the session may read it. Returns the parsed
+ * URI or the JSON-RPC error to send back.
+ */
+export const authorizeResource = (
+  uri: unknown,
+  context: McpToolContext,
+  extraScope?: string,
+): ParsedResourceUri | JsonRpcOutcome => {
+  if (typeof uri !== 'string' || uri.length === 0) {
+    return toolErr(-32602, 'A `uri` parameter is required', { code: 'INVALID_PARAMS', retryable: false });
+  }
+  const parsed = parseResourceUri(uri);
+  if (!parsed) return unknownResource(uri);
+  for (const scope of [scopeFor(parsed.type), ...(extraScope ? [extraScope] : [])]) {
+    if (!context.scopes.has(scope)) return scopeError(scope, context);
+  }
+  return parsed;
+};
+
+export const isParsedResource = (value: ParsedResourceUri | JsonRpcOutcome): value is ParsedResourceUri =>
+  'type' in value;
+
+/** `resources/list` — the collections the session's scopes can read. */
+export const listResources = (context: McpToolContext): JsonRpcOutcome =>
+  toolOk({
+    resources: RESOURCE_TYPES
+      .filter((type) => context.scopes.has(scopeFor(type)))
+      .map((type) => ({
+        uri: collectionUri(type),
+        name: type.collection,
+        title: type.title,
+        description: type.description,
+        mimeType: 'application/json',
+      })),
+  });
+
+/** `resources/templates/list` — one `{id}` template per readable collection. */
+export const listResourceTemplates = (context: McpToolContext): JsonRpcOutcome =>
+  toolOk({
+    resourceTemplates: RESOURCE_TYPES
+      .filter((type) => context.scopes.has(scopeFor(type)))
+      .map((type) => ({
+        uriTemplate: `${collectionUri(type)}/{id}`,
+        name: type.getTool.replace(/^get_/, ''),
+        title: type.title.replace(/s$/, ''),
+        description: `One record from ${type.collection}. Same data as the ${type.getTool} tool.`,
+        mimeType: 'application/json',
+      })),
+  });
+
+/** `resources/read` — proxies to the backing read tool and reshapes the result. */
+export const readResource = async (
+  uri: unknown,
+  context: McpToolContext,
+): Promise<JsonRpcOutcome> => {
+  const parsed = authorizeResource(uri, context);
+  if (!isParsedResource(parsed)) return parsed;
+
+  const toolName = parsed.id ? parsed.type.getTool : parsed.type.listTool;
+  const tool = findToolByName(toolName) as McpToolDefinition;
+  const args = parsed.id ? { [parsed.type.idArg]: parsed.id } : {};
+  const outcome = await handleReadTool(tool, args, context);
+  if (!isOk(outcome)) return outcome;
+
+  const result = outcome.result as { structuredContent?: unknown };
+  return toolOk({
+    contents: [{
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(result.structuredContent ?? null, null, 2),
+    }],
+  });
+};
+
+/**
+ * URIs an event touches: the record named in its payload, plus the
+ * collection it belongs to. Events that name no known record touch nothing.
+ */
+export const resourceUrisForEvent = (
+  eventType: string,
+  payload: Record<string, unknown>,
+): string[] => {
+  const uris: string[] = [];
+  for (const type of RESOURCE_TYPES) {
+    if (!type.eventTypes.includes(eventType)) continue;
+    const id = payload[type.idArg];
+    if (typeof id !== 'string' || !ID_PATTERN.test(id)) continue;
+    uris.push(recordUri(type, id), collectionUri(type));
+  }
+  return uris;
+};
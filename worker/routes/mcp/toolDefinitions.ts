@@ -245,6 +245,36 @@ export const READ_TOOLS: McpToolDefinition[] = [
     requiredScope: 'events:subscribe',
     _meta: { risk_tier: 'read', implementation_status: 'live' },
   },
+  {
+    name: 'list_saved_searches',
+    description:
+      "List the lawyer's saved searches: their own plus any shared with the practice. Returns id, name, query, shared, and pinned. Use run_saved_search to get the matching records.",
+    inputSchema: { type: 'object', properties: {} },
+    // Worker-only (D1). Saved searches carry no record data themselves; the
+    // records they match are scope-checked per entity in run_saved_search.
+    requiredScope: 'events:subscribe',
+    _meta: { risk_tier: 'read', implementation_status: 'live' },
+  },
+  {
+    name: 'run_saved_search',
+    description:
+      "Run a saved search and return the matching records grouped by type (clients, matters, invoices, messages, files, intakes, notes). Results are keyword matches only, so they are the same records the lawyer sees in the sidebar count. Records of a type this session has no read scope for are left out and listed in `omitted_types`.",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        saved_search_id: idParam('Saved search UUID from list_saved_searches.'),
+        limit: {
+          type: 'integer',
+          description: 'Records per type (default 10, max 25).',
+          minimum: 1,
+          maximum: 25,
+        },
+      },
+      required: ['saved_search_id'],
+    },
+    requiredScope: 'events:subscribe',
+    _meta: { risk_tier: 'read', implementation_status: 'live' },
+  },
   {
     name: 'revoke_my_session',
     description:
@@ -8,6 +8,7 @@ import {
 import { handleReadTool } from './read.js';
 import { handleBriefingTool } from './briefing.js';
 import { handleRevokeMySession } from './revoke.js';
+import { handleListSavedSearches, handleRunSavedSearch } from './savedSearches.js';
 import { handleDirectWriteTool } from './writes-direct.js';
 import { handleHighRiskTool } from './writes-high-risk.js';
 
@@ -22,6 +23,8 @@ import { handleHighRiskTool } from './writes-high-risk.js';
  *   * Briefing — synthesis across multiple reads (worker/routes/mcp/tools/briefing.ts)
  *   * revoke_my_session — Worker-only, mutates revocation epoch
  *     (worker/routes/mcp/tools/revoke.ts)
+ *   * Saved searches — Worker-only reads over D1 + the search index
+ *     (worker/routes/mcp/tools/savedSearches.ts)
  *
  * U10 adds direct-write tools; U11 adds high-risk tools — both register
  * with this dispatcher.
@@ -202,6 +205,8 @@ export const dispatchToolCall = async (
     // Synthesis + Worker-only tools dispatched by name.
     if (tool.name === 'get_practice_briefing') return await handleBriefingTool(args, context);
     if (tool.name === 'revoke_my_session') return await handleRevokeMySession(args, context);
+    if (tool.name === 'list_saved_searches') return await handleListSavedSearches(args, context);
+    if (tool.name === 'run_saved_search') return await handleRunSavedSearch(args, context);
 
     // Risk-tier dispatch: direct writes (U10) and high-risk writes (U11)
     // both require tool_call_seq for idempotency derivation; reads don't.
@@ -0,0 +1,112 @@
+import { SavedSearchService } from '../../../services/SavedSearchService.js';
+import type { SearchEntityType, SearchResultItem } from '../../../types/search.js';
+import { wrapUntrusted } from '../../../utils/wrapUntrusted.js';
+import { groupStoredSearchResults, runStoredSearch } from '../../search.js';
+import type { McpToolContext, JsonRpcOutcome } from './dispatch.js';
+import { toolOk, toolErr } from './dispatch.js';
+
+/**
+ * list_saved_searches / run_saved_search — Worker-only reads over the
+ * command palette's saved searches.
+ *
+ * Both tools sit behind the umbrella events:subscribe scope because a saved
+ * search spans entity types. run_saved_search then drops every record whose
+ * type the session can't read (same skip-don't-fail approach as the
+ * briefing) and reports the dropped types so Claude can tell the lawyer.
+ *
+ * Results come from runStoredSearch, the keyword-only path the sidebar
+ * count uses, so the records returned match the count the lawyer sees.
+ */
+
+const DEFAULT_PER_TYPE = 10;
+const RESULT_LIMIT = 100;
+
+// Files and notes hang off matters, so matters:read covers them.
+const ENTITY_SCOPES: Record<SearchEntityType, string | null> = {
+  client: 'clients:read',
+  matter: 'matters:read',
+  invoice: 'invoices:read',
+  conversation: 'conversations:read',
+  file: 'matters:read',
+  file_chunk: 'matters:read',
+  intake: 'intakes:read',
+  note: 'matters:read',
+  report: null,
+};
+
+const projectItem = (item: SearchResultItem): Record<string, unknown> => ({
+  entity_type: item.entityType,
+  entity_id: item.entityId,
+  title: wrapUntrusted(item.title, 'search.title'),
+  subtitle: item.subtitle ? wrapUntrusted(item.subtitle, 'search.subtitle') : null,
+  snippet: item.snippet
+    ? wrapUntrusted(item.snippet.replace(/<\/?mark>/g, ''), 'search.snippet')
+    : null,
+  status: typeof item.metadata?.status === 'string' ? item.metadata.status : null,
+  archived: Boolean(item.archived),
+});
+
+export const handleListSavedSearches = async (
+  _args: Record<string, unknown>,
+  context: McpToolContext,
+): Promise<JsonRpcOutcome> => {
+  const searches = await new SavedSearchService(context.env).list(context.practice_id, context.user_id);
+  const results = searches.map((search) => ({
+    saved_search_id: search.id,
+    name: search.name,
+    query: search.query,
+    shared: search.shared,
+    pinned: search.pinned,
+    owned: search.ownerUserId === context.user_id,
+  }));
+  return toolOk({
+    content: [{ type: 'text', text: JSON.stringify({ results }, null, 2) }],
+    structuredContent: { results },
+    _meta: { tool: 'list_saved_searches', source: 'worker' },
+  });
+};
+
+export const handleRunSavedSearch = async (
+  args: Record<string, unknown>,
+  context: McpToolContext,
+): Promise<JsonRpcOutcome> => {
+  const id = String(args.saved_search_id);
+  const perType = typeof args.limit === 'number' ? args.limit : DEFAULT_PER_TYPE;
+  const search = await new SavedSearchService(context.env).get(context.practice_id, context.user_id, id);
+  if (!search) {
+    return toolErr(-32603, 'Saved search not found', {
+      code: 'NOT_FOUND',
+      retryable: false,
+    });
+  }
+
+  const { items, capped } = await runStoredSearch(context.env, context.practice_id, search.query, RESULT_LIMIT);
+  const omitted = new Set<string>();
+  const readable = items.filter((item) => {
+    const scope = ENTITY_SCOPES[item.entityType];
+    if (scope && context.scopes.has(scope)) return true;
+    omitted.add(item.entityType);
+    return false;
+  });
+
+  const stateAt = new Date().toISOString();
+  const groups = groupStoredSearchResults(readable, perType).map((group) => ({
+    type: group.id,
+    label: group.label,
+    has_more: group.hasMore,
+    items: group.items.map(projectItem),
+  }));
+  const payload = {
+    state_at: stateAt,
+    saved_search: { saved_search_id: search.id, name: search.name, query: search.query },
+    total: readable.length,
+    capped,
+    groups,
+    omitted_types: Array.from(omitted),
+  };
+  return toolOk({
+    content: [{ type: 'text', text: JSON.stringify(payload, null, 2) }],
+    structuredContent: payload,
+    _meta: { tool: 'run_saved_search', source: 'worker' },
+  });
+};
@@ -65,7 +65,7 @@ export async function handlePDF(request: Request, env: Env): Promise<Response> {
       }
 
       // REMOVED: ConversationContextManager - case draft must be provided in request body
-      const { caseDraft, clientName } = body as {
+      const { caseDraft, clientName, locale } = body as {
         caseDraft?: {
           matter_type?: string;
           key_facts?: string[];
@@ -78,6 +78,7 @@ export async function handlePDF(request: Request, env: Env): Promise<Response> {
           [key: string]: unknown;
         };
         clientName?: string;
+        locale?: string;
       };
 
       if (!caseDraft) {
@@ -127,7 +128,11 @@ export async function handlePDF(request: Request, env: Env): Promise<Response> {
         caseDraft: pdfCaseDraft,
         clientName: clientName,
         practiceName: practice?.name || conversationConfig?.description || 'Legal Services',
-        practiceBrandColor: conversationConfig?.brandColor || '#2563eb'
+        practiceBrandColor: conversationConfig?.brandColor || '#2563eb',
+        // Falls back to the browser's preferred language when the client doesn't say.
+        locale: typeof locale === 'string' && locale.trim()
+          ? locale
+          : request.headers.get('Accept-Language')?.split(',')[0]?.split(';')[0]?.trim()
       }, env);
 
       if (pdfResult.success && pdfResult.pdfBuffer) {
@@ -6,6 +6,7 @@ import type { AuthContext } from '../middleware/auth.js';
 import { createSseResponse } from './aiChatShared.js';
 import { PracticeAssistantAuditService } from '../services/practiceAssistant/auditService.js';
 import { PracticeAssistantActionService } from '../services/practiceAssistant/actionService.js';
+import type { PracticeAssistantActionSummary } from '../services/practiceAssistant/types.js';
 import { PracticeAssistantQueryEngine } from '../services/practiceAssistant/PracticeAssistantQueryEngine.js';
 import { Logger } from '../utils/logger.js';
 
@@ -93,24 +94,38 @@ export function runPracticeAssistantTurn(params: PracticeAssistantTurnParams): R
 
 async function handleAction(request: Request, env: Env, actionId: string, decision: 'approve' | 'reject'): Promise<Response> {
   if (request.method !== 'POST') throw HttpErrors.methodNotAllowed('Only POST is supported');
-  const body = await parseJsonBody(request) as { practiceId?: unknown };
+  const body = await parseJsonBody(request) as { practiceId?: unknown; comment?: unknown };
   const practiceId = getString(body.practiceId, 'practiceId');
+  if (body.comment !== undefined && body.comment !== null && typeof body.comment !== 'string') {
+    throw HttpErrors.badRequest('comment must be a string');
+  }
+  const comment = typeof body.comment === 'string' ? body.comment : null;
   const auth = await requirePracticeMember(request, env, practiceId, 'paralegal');
+  const approver = { userId: auth.user.id, memberRole: auth.memberRole, comment };
   const service = new PracticeAssistantActionService(env);
   const row = await service.getRow(actionId, practiceId);
-  const approvedOrRejected = decision === 'approve'
-    ? await service.approve(actionId, practiceId)
-    : await service.reject(actionId, practiceId);
-  const finalSummary = decision === 'approve'
-    ? await service.executeApproved(actionId, practiceId, request)
-    : approvedOrRejected;
+  let finalSummary: PracticeAssistantActionSummary;
+  if (decision === 'approve') {
+    const { action, readyToExecute } = await service.approve(actionId, practiceId, approver);
+    // Still pending when the policy needs more approvers.
+    finalSummary = readyToExecute ? await service.executeApproved(actionId, practiceId, request) : action;
+  } else {
+    finalSummary = await service.reject(actionId, practiceId, approver);
+  }
   await new PracticeAssistantAuditService(env).record({
     conversationId: row.conversation_id,
     practiceId,
     eventType: decision === 'approve' ? 'practice_assistant.action_approved' : 'practice_assistant.action_rejected',
     actorType: 'lawyer',
     actorId: auth.user.id,
-    payload: { actionId, status: finalSummary.status },
+    payload: {
+      actionId,
+      status: finalSummary.status,
+      memberRole: auth.memberRole,
+      policyVersion: finalSummary.approval?.policyVersion ?? null,
+      approvalsReceived: finalSummary.approval?.approvalsReceived ?? null,
+      approvalsRequired: finalSummary.approval?.approvalsRequired ?? null,
+    },
   });
   return json({ action: finalSummary });
 }
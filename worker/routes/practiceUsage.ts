@@ -0,0 +1,58 @@
+import type { Env } from '../types.js';
+import { HttpErrors, createSuccessResponse } from '../errorHandler.js';
+import { requirePracticeMember } from '../middleware/auth.js';
+import {
+  RATE_LIMIT_FAMILIES,
+  peekRateLimit,
+  resolveRateLimitTier,
+  type RateLimitFamily,
+} from '../middleware/rateLimit.js';
+import type { PracticeUsage, PracticeUsageFamily } from '../types/wire/practiceUsage.js';
+
+/**
+ * GET /api/practice/:practiceId/usage
+ *
+ * Where the practice stands against its plan's quotas (AI turns per day,
+ * uploads per hour). Reads each bucket without spending from it, so the
+ * settings page can poll this freely.
+ */
+
+export const PRACTICE_USAGE_PATH_RE = /^\/api\/practice\/([^/]+)\/usage$/;
+
+const PRACTICE_ID_RE = /^[a-zA-Z0-9_-]{1,128}$/;
+
+export async function handlePracticeUsage(request: Request, env: Env): Promise<Response> {
+  if (request.method !== 'GET') throw HttpErrors.methodNotAllowed('Method not allowed');
+
+  const match = new URL(request.url).pathname.match(PRACTICE_USAGE_PATH_RE);
+  if (!match) throw HttpErrors.notFound('Route not found');
+
+  let practiceId = '';
+  try {
+    practiceId = decodeURIComponent(match[1] ?? '');
+  } catch {
+    throw HttpErrors.badRequest('Invalid practice ID');
+  }
+  if (!PRACTICE_ID_RE.test(practiceId)) throw HttpErrors.badRequest('Invalid practice ID');
+
+  await requirePracticeMember(request, env, practiceId, 'paralegal');
+
+  const tier = await resolveRateLimitTier(env, practiceId, request);
+  const practiceFamilies = (Object.keys(RATE_LIMIT_FAMILIES) as RateLimitFamily[])
+    .filter((family) => RATE_LIMIT_FAMILIES[family].scope === 'practice');
+
+  const families = await Promise.all(practiceFamilies.map(async (family): Promise<PracticeUsageFamily> => {
+    const decision = await peekRateLimit(env, family, practiceId, tier);
+    return {
+      family,
+      label: RATE_LIMIT_FAMILIES[family].label,
+      limit: decision.limit,
+      used: Math.max(0, decision.limit - decision.remaining),
+      remaining: decision.remaining,
+      windowSec: decision.windowSec,
+      resetSec: Math.ceil(decision.resetMs / 1000),
+    };
+  }));
+
+  return createSuccessResponse<PracticeUsage>({ tier, families });
+}
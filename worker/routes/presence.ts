@@ -13,7 +13,8 @@ import { RemoteApiService } from '../services/RemoteApiService.js';
  *
  * Anonymous users get rejected — only authenticated members track presence.
  * The DO itself is hibernation-safe and broadcasts a `{type:'presence',
- * online:string[]}` snapshot on every connect/disconnect.
+ * online:string[], members}` snapshot on every connect/disconnect and
+ * whenever a tab reports a new focused record or status.
  *
  * Note: lives under /api/presence/, not /api/practice/presence/, because
  * /api/practice/* is owned by the backend proxy (matchesBackendProxy in
@@ -1,7 +1,7 @@
 /**
  * /api/reports/:practiceId/* — legal-firm reports.
  *
- * Phase 1: revenue, aging + CSV export
+ * Phase 1: revenue, aging + CSV/XLSX/PDF export
  * Phase 2: profitability, utilization, schedules, send-now, deliveries
  * Phase 3: stubbed to 503 BACKEND_NOT_AVAILABLE until #233 ships.
  */
@@ -18,25 +18,49 @@ import {
   type ResolvedDateRange,
 } from '../services/ReportService.js';
 import {
+  InvalidScheduleError,
   ReportScheduleService,
+  SCHEDULE_PREVIEW_COUNT,
+  computeDeliveryPreview,
   type ReportFrequency,
 } from '../services/ReportScheduleService.js';
 import { ReportDeliveryService } from '../services/ReportDeliveryService.js';
-import { toCsv, type CsvColumn } from '../utils/csv.js';
+import { IntakeFunnelService, type IntakeTemplateFunnel } from '../services/IntakeFunnelService.js';
+import { TrustReconciliationService } from '../services/TrustReconciliationService.js';
+import { AiUsageService } from '../services/AiUsageService.js';
+import type { AiUsageBreakdownRow } from '../types/wire/aiUsage.js';
+import { RECONCILIATION_MONTH_RE, previousMonth } from '../utils/trustReconciliation.js';
+import type { TrustReconciliationReport } from '../types/wire/trustReconciliation.js';
+import type { CsvColumn } from '../utils/csv.js';
+import {
+  REPORT_CONTENT_TYPES,
+  REPORT_EXPORT_FORMATS,
+  isReportExportFormat,
+  renderReport,
+  type ReportExportFormat,
+} from '../utils/reportExport.js';
+import { RemoteApiService } from '../services/RemoteApiService.js';
+import { formatMinorUnits, normalizeCurrencyCode } from '../utils/money.js';
 import { parseJsonBody } from '../utils.js';
 
 const PRACTICE_ID_RE = /^[a-zA-Z0-9_-]{1,128}$/;
-const VALID_REPORT_TYPES = new Set<string>([
-  'revenue',
-  'aging',
-  'profitability',
-  'utilization',
-  'trust-ledger',
-  'wip',
-  'originating-attorney',
-  'matters-by-attorney',
-  'task-productivity',
-]);
+// Titles mirror src/features/reports/config/reportCollection.ts; used for PDF
+// headings and XLSX sheet names.
+const REPORT_TITLES: Record<string, string> = {
+  revenue: 'Revenue',
+  aging: 'Accounts Receivable Aging',
+  profitability: 'Matter Profitability',
+  utilization: 'Attorney Utilization',
+  'trust-ledger': 'Trust Ledger',
+  'trust-reconciliation': 'Three-Way Trust Reconciliation',
+  wip: 'Work in Progress',
+  'originating-attorney': 'Originating Attorney',
+  'matters-by-attorney': 'Matters by Attorney',
+  'task-productivity': 'Task Productivity',
+  'intake-funnel': 'Intake Funnel',
+  'ai-usage': 'AI Usage',
+};
+const VALID_REPORT_TYPES = new Set<string>(Object.keys(REPORT_TITLES));
 
 const VALID_PERIODS = new Set(['month', 'quarter', 'year']);
 
@@ -54,11 +78,11 @@ const envelope = <T>(payload: ReportEnvelope<T>): Response =>
     headers: { 'Content-Type': 'application/json' },
   });
 
-const csvResponse = (filename: string, body: string): Response =>
-  new Response(body, {
+const exportResponse = (filename: string, format: ReportExportFormat, body: Uint8Array): Response =>
+  new Response(body as BodyInit, {
     status: 200,
     headers: {
-      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Type': REPORT_CONTENT_TYPES[format],
       'Content-Disposition': `attachment; filename="${filename}"`,
     },
   });
@@ -98,47 +122,105 @@ const parsePracticeId = (raw: string | undefined): string => {
   return practiceId;
 };
 
-const filenameFor = (reportType: string, practiceId: string): string => {
+const filenameFor = (reportType: string, practiceId: string, format: ReportExportFormat): string => {
   const date = new Date().toISOString().slice(0, 10);
-  return `${reportType}-${practiceId}-${date}.csv`;
+  return `${reportType}-${practiceId}-${date}.${format}`;
+};
+
+const readExportFormat = (value: unknown): ReportExportFormat => {
+  if (value === undefined || value === null || value === '') return 'csv';
+  const format = typeof value === 'string' ? value.toLowerCase() : value;
+  if (!isReportExportFormat(format)) {
+    throw HttpErrors.unprocessableEntity(`format must be one of: ${REPORT_EXPORT_FORMATS.join(', ')}`);
+  }
+  return format;
 };
 
-// ─── CSV column maps (mirror the report column specs) ───────────────────
+// ─── export column maps (mirror the report column specs) ────────────────
+// Shared by the CSV, XLSX and PDF renderers; `type`/`total` only affect the
+// typed formats. Money columns are built per export from the currencies on
+// the rows: a single currency goes in the header ("Paid (CAD)"), while a
+// mixed-currency report gets a Currency column and per-currency subtotals.
 
-const REVENUE_CSV_COLUMNS: CsvColumn<{
+interface ExportCurrencyContext {
+  /** The rows' only currency; null when they span several or carry none. */
+  currency: string | null;
+  /** Rows span more than one currency. */
+  mixed: boolean;
+}
+
+type ExportColumnsBuilder = (ctx: ExportCurrencyContext) => CsvColumn<Record<string, unknown>>[];
+
+const exportCurrencyContext = (rows: readonly Record<string, unknown>[]): ExportCurrencyContext => {
+  const currencies = new Set(
+    rows.filter((row) => typeof row.currency === 'string').map((row) => normalizeCurrencyCode(row.currency))
+  );
+  const [only] = currencies;
+  return { currency: currencies.size === 1 ? only : null, mixed: currencies.size > 1 };
+};
+
+const moneyColumn = <TRow extends { currency?: string }>(
+  ctx: ExportCurrencyContext,
+  key: keyof TRow & string,
+  label: string,
+  total = true
+): CsvColumn<TRow> => ({
+  key,
+  header: ctx.currency ? `${label} (${ctx.currency})` : label,
+  type: 'currency',
+  total,
+  format: (v, row) => formatMinorUnits(Number(v), ctx.currency ?? normalizeCurrencyCode(row.currency)),
+});
+
+const currencyColumns = <TRow extends { currency?: string }>(ctx: ExportCurrencyContext): CsvColumn<TRow>[] =>
+  ctx.mixed ? [{ key: 'currency' as keyof TRow & string, header: 'Currency' }] : [];
+
+type RevenueCsvRow = {
   periodLabel: string;
+  currency: string;
   invoiceCount: number;
   paidAmountCents: number;
   outstandingAmountCents: number;
-}>[] = [
+};
+
+const revenueCsvColumns = (ctx: ExportCurrencyContext): CsvColumn<RevenueCsvRow>[] => [
   { key: 'periodLabel', header: 'Period' },
-  { key: 'invoiceCount', header: 'Invoices' },
-  { key: 'paidAmountCents', header: 'Paid (USD)', format: (v) => (Number(v) / 100).toFixed(2) },
-  { key: 'outstandingAmountCents', header: 'Outstanding (USD)', format: (v) => (Number(v) / 100).toFixed(2) },
+  ...currencyColumns<RevenueCsvRow>(ctx),
+  { key: 'invoiceCount', header: 'Invoices', type: 'number', total: true },
+  moneyColumn<RevenueCsvRow>(ctx, 'paidAmountCents', 'Paid'),
+  moneyColumn<RevenueCsvRow>(ctx, 'outstandingAmountCents', 'Outstanding'),
 ];
 
-const AGING_CSV_COLUMNS: CsvColumn<{
+type AgingCsvRow = {
   bucketLabel: string;
+  currency: string;
   invoiceCount: number;
   totalAmountCents: number;
-}>[] = [
+};
+
+const agingCsvColumns = (ctx: ExportCurrencyContext): CsvColumn<AgingCsvRow>[] => [
   { key: 'bucketLabel', header: 'Bucket' },
-  { key: 'invoiceCount', header: 'Invoices' },
-  { key: 'totalAmountCents', header: 'Amount (USD)', format: (v) => (Number(v) / 100).toFixed(2) },
+  ...currencyColumns<AgingCsvRow>(ctx),
+  { key: 'invoiceCount', header: 'Invoices', type: 'number', total: true },
+  moneyColumn<AgingCsvRow>(ctx, 'totalAmountCents', 'Amount'),
 ];
 
-const PROFITABILITY_CSV_COLUMNS: CsvColumn<{
+type ProfitabilityCsvRow = {
   matterTitle: string;
+  currency: string;
   revenueCents: number;
   estimatedCostCents: number;
   marginCents: number;
   billableHours: number;
-}>[] = [
+};
+
+const profitabilityCsvColumns = (ctx: ExportCurrencyContext): CsvColumn<ProfitabilityCsvRow>[] => [
   { key: 'matterTitle', header: 'Matter' },
-  { key: 'revenueCents', header: 'Revenue (USD)', format: (v) => (Number(v) / 100).toFixed(2) },
-  { key: 'estimatedCostCents', header: 'Est. cost (USD)', format: (v) => (Number(v) / 100).toFixed(2) },
-  { key: 'marginCents', header: 'Margin (USD)', format: (v) => (Number(v) / 100).toFixed(2) },
-  { key: 'billableHours', header: 'Billable hours' },
+  ...currencyColumns<ProfitabilityCsvRow>(ctx),
+  moneyColumn<ProfitabilityCsvRow>(ctx, 'revenueCents', 'Revenue'),
+  moneyColumn<ProfitabilityCsvRow>(ctx, 'estimatedCostCents', 'Est. cost'),
+  moneyColumn<ProfitabilityCsvRow>(ctx, 'marginCents', 'Margin'),
+  { key: 'billableHours', header: 'Billable hours', type: 'number', total: true },
 ];
 
 const UTILIZATION_CSV_COLUMNS: CsvColumn<{
@@ -149,46 +231,80 @@ const UTILIZATION_CSV_COLUMNS: CsvColumn<{
   utilizationPercent: number;
 }>[] = [
   { key: 'userId', header: 'User' },
-  { key: 'billableHours', header: 'Billable hours' },
-  { key: 'nonBillableHours', header: 'Non-billable hours' },
-  { key: 'totalHours', header: 'Total hours' },
-  { key: 'utilizationPercent', header: 'Utilization (%)' },
+  { key: 'billableHours', header: 'Billable hours', type: 'number', total: true },
+  { key: 'nonBillableHours', header: 'Non-billable hours', type: 'number', total: true },
+  { key: 'totalHours', header: 'Total hours', type: 'number', total: true },
+  { key: 'utilizationPercent', header: 'Utilization (%)', type: 'number' },
 ];
 
-const TRUST_LEDGER_CSV_COLUMNS: CsvColumn<{
+type TrustLedgerCsvRow = {
   occurredAt: string;
   clientName: string | null;
   description: string | null;
   type: string | null;
+  currency: string;
   amountCents: number;
   balanceCents: number;
-}>[] = [
-  { key: 'occurredAt', header: 'Date' },
+};
+
+const trustLedgerCsvColumns = (ctx: ExportCurrencyContext): CsvColumn<TrustLedgerCsvRow>[] => [
+  { key: 'occurredAt', header: 'Date', type: 'date' },
   { key: 'clientName', header: 'Client' },
   { key: 'type', header: 'Type' },
   { key: 'description', header: 'Description' },
-  { key: 'amountCents', header: 'Amount (USD)', format: (v) => (Number(v) / 100).toFixed(2) },
-  { key: 'balanceCents', header: 'Balance (USD)', format: (v) => (Number(v) / 100).toFixed(2) },
+  ...currencyColumns<TrustLedgerCsvRow>(ctx),
+  moneyColumn<TrustLedgerCsvRow>(ctx, 'amountCents', 'Amount'),
+  moneyColumn<TrustLedgerCsvRow>(ctx, 'balanceCents', 'Balance', false),
 ];
 
-const WIP_CSV_COLUMNS: CsvColumn<{
+type TrustReconciliationCsvRow = {
+  section: string;
+  item: string;
+  date: string | null;
+  currency: string;
+  amountCents: number | null;
+};
+
+// Lines are in the reconciliation's one currency; rows without an amount
+// (the status line, a missing statement) stay blank rather than $0.00.
+const trustReconciliationCsvColumns = (ctx: ExportCurrencyContext): CsvColumn<TrustReconciliationCsvRow>[] => [
+  { key: 'section', header: 'Section' },
+  { key: 'item', header: 'Item' },
+  { key: 'date', header: 'Date', type: 'date' },
+  {
+    key: 'amountCents',
+    header: ctx.currency ? `Amount (${ctx.currency})` : 'Amount',
+    type: 'currency',
+    format: (v, row) => (v == null ? null : formatMinorUnits(Number(v), ctx.currency ?? normalizeCurrencyCode(row.currency))),
+  },
+];
+
+type WipCsvRow = {
   matterTitle: string;
+  currency: string;
   unbilledHours: number;
   unbilledAmountCents: number;
-}>[] = [
+};
+
+const wipCsvColumns = (ctx: ExportCurrencyContext): CsvColumn<WipCsvRow>[] => [
   { key: 'matterTitle', header: 'Matter' },
-  { key: 'unbilledHours', header: 'Unbilled hours' },
-  { key: 'unbilledAmountCents', header: 'Unbilled amount (USD)', format: (v) => (Number(v) / 100).toFixed(2) },
+  ...currencyColumns<WipCsvRow>(ctx),
+  { key: 'unbilledHours', header: 'Unbilled hours', type: 'number', total: true },
+  moneyColumn<WipCsvRow>(ctx, 'unbilledAmountCents', 'Unbilled amount'),
 ];
 
-const ORIGINATING_ATTORNEY_CSV_COLUMNS: CsvColumn<{
+type OriginatingAttorneyCsvRow = {
   attorneyName: string;
+  currency: string;
   matterCount: number;
   revenueCents: number;
-}>[] = [
+};
+
+const originatingAttorneyCsvColumns = (ctx: ExportCurrencyContext): CsvColumn<OriginatingAttorneyCsvRow>[] => [
   { key: 'attorneyName', header: 'Attorney' },
-  { key: 'matterCount', header: 'Matters' },
-  { key: 'revenueCents', header: 'Revenue (USD)', format: (v) => (Number(v) / 100).toFixed(2) },
+  ...currencyColumns<OriginatingAttorneyCsvRow>(ctx),
+  { key: 'matterCount', header: 'Matters', type: 'number', total: true },
+  moneyColumn<OriginatingAttorneyCsvRow>(ctx, 'revenueCents', 'Revenue'),
 ];
 
 const MATTERS_BY_ATTORNEY_CSV_COLUMNS: CsvColumn<{
@@ -198,9 +314,9 @@ const MATTERS_BY_ATTORNEY_CSV_COLUMNS: CsvColumn<{
   closedCount: number;
 }>[] = [
   { key: 'attorneyName', header: 'Attorney' },
-  { key: 'matterCount', header: 'Matters' },
-  { key: 'openCount', header: 'Open' },
-  { key: 'closedCount', header: 'Closed' },
+  { key: 'matterCount', header: 'Matters', type: 'number', total: true },
+  { key: 'openCount', header: 'Open', type: 'number', total: true },
+  { key: 'closedCount', header: 'Closed', type: 'number', total: true },
 ];
 
 const TASK_PRODUCTIVITY_CSV_COLUMNS: CsvColumn<{
@@ -210,11 +326,106 @@ const TASK_PRODUCTIVITY_CSV_COLUMNS: CsvColumn<{
   avgCycleDays: number;
 }>[] = [
   { key: 'assigneeName', header: 'Assignee' },
-  { key: 'completed', header: 'Completed' },
-  { key: 'pending', header: 'Pending' },
-  { key: 'avgCycleDays', header: 'Avg cycle (days)' },
+  { key: 'completed', header: 'Completed', type: 'number', total: true },
+  { key: 'pending', header: 'Pending', type: 'number', total: true },
+  { key: 'avgCycleDays', header: 'Avg cycle (days)', type: 'number' },
 ];
 
+const AI_USAGE_CSV_COLUMNS: CsvColumn<AiUsageBreakdownRow>[] = [
+  { key: 'feature', header: 'Feature' },
+  { key: 'model', header: 'Model' },
+  { key: 'calls', header: 'Calls', type: 'number', total: true },
+  { key: 'fallbackCalls', header: 'Fallback calls', type: 'number', total: true },
+  { key: 'estimatedCalls', header: 'Estimated calls', type: 'number', total: true },
+  { key: 'inputTokens', header: 'Input tokens', type: 'number', total: true },
+  { key: 'outputTokens', header: 'Output tokens', type: 'number', total: true },
+  { key: 'totalTokens', header: 'Total tokens', type: 'number', total: true },
+];
+
+type IntakeFunnelCsvRow = {
+  templateSlug: string;
+  uses: number;
+  contactCount: number;
+  caseCount: number;
+  submitted: number;
+  conversionPercent: number | null;
+  medianTurnsToSubmit: number | null;
+  mostAbandonedField: string | null;
+};
+
+const INTAKE_FUNNEL_CSV_COLUMNS: CsvColumn<IntakeFunnelCsvRow>[] = [
+  { key: 'templateSlug', header: 'Template' },
+  { key: 'uses', header: 'Uses', type: 'number', total: true },
+  { key: 'contactCount', header: 'Contact', type: 'number', total: true },
+  { key: 'caseCount', header: 'Case', type: 'number', total: true },
+  { key: 'submitted', header: 'Submitted', type: 'number', total: true },
+  { key: 'conversionPercent', header: 'Conversion (%)', type: 'number' },
+  { key: 'medianTurnsToSubmit', header: 'Median turns to submit', type: 'number' },
+  { key: 'mostAbandonedField', header: 'Most abandoned field' },
+];
+
+const toIntakeFunnelRow = (funnel: IntakeTemplateFunnel): IntakeFunnelCsvRow => {
+  const reached = (step: string) => funnel.steps.find((entry) => entry.step === step)?.reached ?? 0;
+  return {
+    templateSlug: funnel.templateSlug,
+    uses: funnel.uses,
+    contactCount: reached('contact'),
+    caseCount: reached('case'),
+    submitted: funnel.submitted,
+    conversionPercent: funnel.conversionPercent,
+    medianTurnsToSubmit: funnel.medianTurnsToSubmit,
+    mostAbandonedField: funnel.mostAbandonedField?.key ?? null,
+  };
+};
+
+/** Flattens the three-way reconciliation into one table: summary, client ledgers, then open items. */
+const toTrustReconciliationRows = (report: TrustReconciliationReport): TrustReconciliationCsvRow[] => {
+  const row = (section: string, item: string, amountCents: number | null, date: string | null = report.periodEnd) => ({
+    section,
+    item,
+    date,
+    currency: report.currency,
+    amountCents,
+  });
+  return [
+    row(
+      'Summary',
+      report.bankBalanceCents === null ? 'Bank statement balance (no statement imported)' : 'Bank statement balance',
+      report.bankBalanceCents,
+    ),
+    row('Summary', 'Add: deposits in transit', report.depositsInTransitCents),
+    row('Summary', 'Less: outstanding withdrawals', -report.outstandingWithdrawalsCents),
+    row('Summary', 'Adjusted bank balance', report.adjustedBankBalanceCents),
+    row('Summary', 'Trust ledger (book) balance', report.bookBalanceCents),
+    row('Summary', 'Client ledgers total', report.clientLedgerTotalCents),
+    row('Summary', report.balanced ? 'Status: balanced' : 'Status: out of balance', null),
+    ...report.clientBalances.map((client) => row('Client ledger', client.clientName, client.balanceCents)),
+    ...report.outstandingTransactions.map((transaction) => row(
+      'Outstanding',
+      [transaction.description || transaction.type || 'Ledger transaction', transaction.clientName]
+        .filter(Boolean)
+        .join(' · '),
+      transaction.amountCents,
+      transaction.occurredAt.slice(0, 10),
+    )),
+    ...report.unmatchedBankLines.map((line) => row(
+      'Bank only',
+      line.description || line.reference || 'Bank transaction',
+      line.amountCents,
+      line.postedAt,
+    )),
+  ];
+};
+
+/** `month` filter, else the month the date range ends in, else last month. */
+const reconciliationMonth = (url: URL): string => {
+  const month = url.searchParams.get('month');
+  if (month && RECONCILIATION_MONTH_RE.test(month)) return month;
+  const end = url.searchParams.get('end');
+  if (url.searchParams.get('start') && end && RECONCILIATION_MONTH_RE.test(end.slice(0, 7))) return end.slice(0, 7);
+  return previousMonth();
+};
+
 // ─── per-report handlers ─────────────────────────────────────────────────
 
 const runReport = async (
@@ -237,6 +448,8 @@ const runReport = async (
         totalPaidCents: result.totalPaidCents,
         totalOutstandingCents: result.totalOutstandingCents,
         totalInvoiceCount: result.totalInvoiceCount,
+        currencies: result.currencies,
+        subtotals: result.subtotals,
       },
       filters: { period, start: range.startIso, end: range.endIso },
     };
@@ -249,6 +462,8 @@ const runReport = async (
       meta: {
         totalOutstandingCents: result.totalOutstandingCents,
         totalInvoiceCount: result.totalInvoiceCount,
+        currencies: result.currencies,
+        subtotals: result.subtotals,
       },
       filters: { start: range.startIso, end: range.endIso },
     };
@@ -267,6 +482,8 @@ const runReport = async (
         totalRevenueCents: result.totalRevenueCents,
         totalCostCents: result.totalCostCents,
         totalMarginCents: result.totalMarginCents,
+        currencies: result.currencies,
+        subtotals: result.subtotals,
         truncated: result.truncated,
       },
       filters: {
@@ -300,10 +517,29 @@ const runReport = async (
         totalDebitsCents: result.totalDebitsCents,
         endingBalanceCents: result.endingBalanceCents,
         transactionCount: result.transactionCount,
+        currencies: result.currencies,
+        subtotals: result.subtotals,
       },
       filters: { start: range.startIso, end: range.endIso },
     };
   }
+  if (reportType === 'trust-reconciliation') {
+    const month = reconciliationMonth(url);
+    const report = await new TrustReconciliationService(env).buildReport(practiceId, month, headers);
+    return {
+      rows: toTrustReconciliationRows(report) as unknown as Record<string, unknown>[],
+      meta: {
+        bankBalanceCents: report.bankBalanceCents,
+        adjustedBankBalanceCents: report.adjustedBankBalanceCents,
+        bookBalanceCents: report.bookBalanceCents,
+        clientLedgerTotalCents: report.clientLedgerTotalCents,
+        balanced: report.balanced,
+        statementId: report.statementId,
+        currencies: [report.currency],
+      },
+      filters: { month, start: report.periodStart, end: report.periodEnd },
+    };
+  }
   if (reportType === 'wip') {
     const result = await service.wip(practiceId, headers);
     return {
@@ -312,6 +548,8 @@ const runReport = async (
         totalUnbilledHours: result.totalUnbilledHours,
         totalUnbilledAmountCents: result.totalUnbilledAmountCents,
         matterCount: result.matterCount,
+        currencies: result.currencies,
+        subtotals: result.subtotals,
       },
       filters: {},
     };
@@ -324,6 +562,8 @@ const runReport = async (
       meta: {
         totalRevenueCents: result.totalRevenueCents,
         totalMatterCount: result.totalMatterCount,
+        currencies: result.currencies,
+        subtotals: result.subtotals,
       },
       filters: { start: range.startIso, end: range.endIso },
     };
@@ -353,6 +593,43 @@ const runReport = async (
       filters: { start: range.startIso, end: range.endIso },
     };
   }
+  if (reportType === 'intake-funnel') {
+    const range = parseRange(url, 'month');
+    const funnels = await new IntakeFunnelService(env).listTemplateFunnels(practiceId, range);
+    const rows = funnels.map(toIntakeFunnelRow);
+    const totalUses = rows.reduce((sum, row) => sum + row.uses, 0);
+    const totalSubmitted = rows.reduce((sum, row) => sum + row.submitted, 0);
+    return {
+      rows: rows as unknown as Record<string, unknown>[],
+      meta: {
+        totalUses,
+        totalSubmitted,
+        overallConversionPercent: totalUses > 0 ? Math.round((totalSubmitted / totalUses) * 1000) / 10 : null,
+        truncated: funnels.some((funnel) => funnel.truncated),
+      },
+      filters: { start: range.startIso, end: range.endIso },
+    };
+  }
+  if (reportType === 'ai-usage') {
+    const range = parseRange(url, 'month');
+    const summary = await new AiUsageService(env).getSummary(practiceId, range);
+    const sum = (key: 'calls' | 'fallbackCalls' | 'totalTokens') =>
+      summary.breakdown.reduce((total, row) => total + row[key], 0);
+    return {
+      rows: summary.breakdown as unknown as Record<string, unknown>[],
+      meta: {
+        totalTokens: sum('totalTokens'),
+        totalCalls: sum('calls'),
+        fallbackCalls: sum('fallbackCalls'),
+        // The budget is monthly, whatever range the report covers.
+        monthToDateTokens: summary.monthToDateTokens,
+        softLimitTokens: summary.budget.softLimitTokens,
+        hardLimitTokens: summary.budget.hardLimitTokens,
+        budgetStatus: summary.status,
+      },
+      filters: { start: range.startIso, end: range.endIso },
+    };
+  }
   throw HttpErrors.notFound(`Unknown report type: ${reportType}`);
 };
 
@@ -372,21 +649,75 @@ const handleGetReport = async (
   });
 };
 
-const csvColumnsFor = (reportType: string): CsvColumn<Record<string, unknown>>[] | null => {
-  switch (reportType) {
-    case 'revenue': return REVENUE_CSV_COLUMNS as unknown as CsvColumn<Record<string, unknown>>[];
-    case 'aging': return AGING_CSV_COLUMNS as unknown as CsvColumn<Record<string, unknown>>[];
-    case 'profitability': return PROFITABILITY_CSV_COLUMNS as unknown as CsvColumn<Record<string, unknown>>[];
-    case 'utilization': return UTILIZATION_CSV_COLUMNS as unknown as CsvColumn<Record<string, unknown>>[];
-    case 'trust-ledger': return TRUST_LEDGER_CSV_COLUMNS as unknown as CsvColumn<Record<string, unknown>>[];
-    case 'wip': return WIP_CSV_COLUMNS as unknown as CsvColumn<Record<string, unknown>>[];
-    case 'originating-attorney': return ORIGINATING_ATTORNEY_CSV_COLUMNS as unknown as CsvColumn<Record<string, unknown>>[];
-    case 'matters-by-attorney': return MATTERS_BY_ATTORNEY_CSV_COLUMNS as unknown as CsvColumn<Record<string, unknown>>[];
-    case 'task-productivity': return TASK_PRODUCTIVITY_CSV_COLUMNS as unknown as CsvColumn<Record<string, unknown>>[];
-    default: return null;
+const asExportColumns = <TRow>(columns: CsvColumn<TRow>[]): CsvColumn<Record<string, unknown>>[] =>
+  columns as unknown as CsvColumn<Record<string, unknown>>[];
+
+const EXPORT_COLUMNS: Record<string, ExportColumnsBuilder> = {
+  revenue: (ctx) => asExportColumns(revenueCsvColumns(ctx)),
+  aging: (ctx) => asExportColumns(agingCsvColumns(ctx)),
+  profitability: (ctx) => asExportColumns(profitabilityCsvColumns(ctx)),
+  utilization: () => asExportColumns(UTILIZATION_CSV_COLUMNS),
+  'trust-ledger': (ctx) => asExportColumns(trustLedgerCsvColumns(ctx)),
+  'trust-reconciliation': (ctx) => asExportColumns(trustReconciliationCsvColumns(ctx)),
+  wip: (ctx) => asExportColumns(wipCsvColumns(ctx)),
+  'originating-attorney': (ctx) => asExportColumns(originatingAttorneyCsvColumns(ctx)),
+  'matters-by-attorney': () => asExportColumns(MATTERS_BY_ATTORNEY_CSV_COLUMNS),
+  'task-productivity': () => asExportColumns(TASK_PRODUCTIVITY_CSV_COLUMNS),
+  'intake-funnel': () => asExportColumns(INTAKE_FUNNEL_CSV_COLUMNS),
+  'ai-usage': () => asExportColumns(AI_USAGE_CSV_COLUMNS),
+};
+
+const csvColumnsFor = (reportType: string): ExportColumnsBuilder | null =>
+  EXPORT_COLUMNS[reportType] ?? null;
+
+const describeFilters = (filters: Record<string, string | undefined>): string => {
+  const parts: string[] = [];
+  if (filters.start && filters.end) parts.push(`${filters.start.slice(0, 10)} to ${filters.end.slice(0, 10)}`);
+  if (filters.period) parts.push(`by ${filters.period}`);
+  if (filters.hourlyRate) parts.push(`cost rate ${filters.hourlyRate}/hr`);
+  return parts.join(' · ');
+};
+
+/** Practice name + brand colour for PDF headers. Branding is best-effort. */
+const resolveReportBranding = async (
+  env: Env,
+  practiceId: string,
+  request: Request
+): Promise<{ practiceName?: string; brandColor?: string }> => {
+  try {
+    const practice = await RemoteApiService.getPractice(env, practiceId, request);
+    const config = await RemoteApiService.getPracticeConfig(env, practiceId, request);
+    return {
+      practiceName: practice?.name || undefined,
+      brandColor: config?.brandColor || undefined,
+    };
+  } catch {
+    return {};
   }
 };
 
+/** Runs a report and renders it in the requested format. */
+const buildReportExport = async (
+  reportType: string,
+  format: ReportExportFormat,
+  request: Request,
+  env: Env,
+  practiceId: string,
+  columnsFor: ExportColumnsBuilder
+): Promise<Uint8Array> => {
+  const result = await runReport(reportType, request, env, practiceId);
+  const branding = format === 'pdf' ? await resolveReportBranding(env, practiceId, request) : {};
+  const currencyContext = exportCurrencyContext(result.rows);
+  return renderReport(format, result.rows, columnsFor(currencyContext), {
+    title: REPORT_TITLES[reportType] ?? reportType,
+    subtitle: result.meta.truncated === true
+      ? `${describeFilters(result.filters)} · partial: row limit reached`
+      : describeFilters(result.filters),
+    subtotalBy: currencyContext.mixed ? 'currency' : undefined,
+    ...branding,
+  });
+};
+
 const handleExport = async (
   reportType: string,
   request: Request,
@@ -394,20 +725,19 @@ const handleExport = async (
   practiceId: string
 ): Promise<Response> => {
   const url = new URL(request.url);
-  const format = (url.searchParams.get('format') ?? 'csv').toLowerCase();
-  if (format !== 'csv') throw HttpErrors.unprocessableEntity('Only CSV format is supported');
-  const columns = csvColumnsFor(reportType);
-  if (!columns) {
-    throw HttpErrors.unprocessableEntity(`CSV export not supported for '${reportType}'`);
+  const format = readExportFormat(url.searchParams.get('format'));
+  const columnsFor = csvColumnsFor(reportType);
+  if (!columnsFor) {
+    throw HttpErrors.unprocessableEntity(`Export not supported for '${reportType}'`);
   }
-  const result = await runReport(reportType, request, env, practiceId);
-  const body = toCsv(result.rows, columns);
-  return csvResponse(filenameFor(reportType, practiceId), body);
+  const body = await buildReportExport(reportType, format, request, env, practiceId, columnsFor);
+  return exportResponse(filenameFor(reportType, practiceId, format), format, body);
 };
 
 // ─── schedules ───────────────────────────────────────────────────────────
 
-const FREQUENCIES = new Set<ReportFrequency>(['daily', 'weekly', 'monthly']);
+const FREQUENCIES = new Set<ReportFrequency>(['daily', 'weekly', 'monthly', 'custom']);
+const MAX_CRON_LENGTH = 120;
 
 const requireIntegerInRange = (
   value: unknown,
@@ -430,38 +760,73 @@ const handleSchedulesList = async (env: Env, practiceId: string): Promise<Respon
   });
 };
 
-const handleScheduleCreate = async (
-  request: Request,
-  env: Env,
-  practiceId: string
-): Promise<Response> => {
-  const body = await parseJsonBody(request) as {
-    reportType?: string;
-    frequency?: string;
-    dayOfWeek?: number;
-    dayOfMonth?: number;
-    hourUtc?: number;
-    recipients?: unknown;
-    filters?: unknown;
-    active?: boolean;
-  };
-  if (!body.reportType || !VALID_REPORT_TYPES.has(body.reportType)) {
-    throw HttpErrors.badRequest('Invalid reportType');
+const readTimezone = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.length > 64) throw HttpErrors.badRequest('timezone must be an IANA timezone name');
+  return value;
+};
+
+const readCron = (value: unknown): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string' || value.length > MAX_CRON_LENGTH) {
+    throw HttpErrors.badRequest(`cron must be a string of at most ${MAX_CRON_LENGTH} characters`);
   }
-  if (!body.frequency || !FREQUENCIES.has(body.frequency as ReportFrequency)) {
+  return value.trim();
+};
+
+interface ScheduleTiming {
+  frequency: ReportFrequency;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  hour?: number;
+  timezone?: string;
+  cron?: string;
+}
+
+/**
+ * Validates the timing part of a create/preview body. `hour` is wall-clock
+ * time in `timezone`; the legacy `hourUtc` field is still accepted and means
+ * the same hour in UTC.
+ */
+const parseScheduleTiming = (body: Record<string, unknown>): ScheduleTiming => {
+  if (typeof body.frequency !== 'string' || !FREQUENCIES.has(body.frequency as ReportFrequency)) {
     throw HttpErrors.badRequest('Invalid frequency');
   }
-  const hourUtc = requireIntegerInRange(body.hourUtc, 'hourUtc', 0, 23);
-  const dayOfWeek = body.frequency === 'weekly'
+  const frequency = body.frequency as ReportFrequency;
+  if (frequency === 'custom') {
+    const cron = readCron(body.cron);
+    if (!cron) throw HttpErrors.badRequest('cron is required for custom schedules');
+    return { frequency, cron, timezone: readTimezone(body.timezone) ?? 'UTC' };
+  }
+
+  const usesLegacyHour = body.hour === undefined && body.hourUtc !== undefined;
+  const hour = usesLegacyHour
+    ? requireIntegerInRange(body.hourUtc, 'hourUtc', 0, 23)
+    : requireIntegerInRange(body.hour, 'hour', 0, 23);
+  const timezone = usesLegacyHour ? 'UTC' : readTimezone(body.timezone) ?? 'UTC';
+  const dayOfWeek = frequency === 'weekly'
     ? requireIntegerInRange(body.dayOfWeek, 'dayOfWeek', 0, 6)
     : body.dayOfWeek === undefined
       ? undefined
       : requireIntegerInRange(body.dayOfWeek, 'dayOfWeek', 0, 6);
-  const dayOfMonth = body.frequency === 'monthly'
+  const dayOfMonth = frequency === 'monthly'
     ? requireIntegerInRange(body.dayOfMonth, 'dayOfMonth', 1, 31)
     : body.dayOfMonth === undefined
       ? undefined
       : requireIntegerInRange(body.dayOfMonth, 'dayOfMonth', 1, 31);
+  return { frequency, hour, timezone, dayOfWeek, dayOfMonth };
+};
+
+const handleScheduleCreate = async (
+  request: Request,
+  env: Env,
+  practiceId: string
+): Promise<Response> => {
+  const body = await parseJsonBody(request) as Record<string, unknown>;
+  if (typeof body.reportType !== 'string' || !VALID_REPORT_TYPES.has(body.reportType)) {
+    throw HttpErrors.badRequest('Invalid reportType');
+  }
+  const timing = parseScheduleTiming(body);
   const recipients = Array.isArray(body.recipients)
     ? (body.recipients as unknown[]).filter((r): r is string => typeof r === 'string')
     : [];
@@ -474,13 +839,11 @@ const handleScheduleCreate = async (
   const service = new ReportScheduleService(env);
   const created = await service.create(practiceId, {
     reportType: body.reportType,
-    frequency: body.frequency as ReportFrequency,
-    dayOfWeek,
-    dayOfMonth,
-    hourUtc,
+    format: readExportFormat(body.format),
+    ...timing,
     recipients,
     filters,
-    active: body.active ?? true,
+    active: typeof body.active === 'boolean' ? body.active : true,
   });
   return new Response(JSON.stringify({ success: true, data: created }), {
     status: 201,
@@ -488,6 +851,22 @@ const handleScheduleCreate = async (
   });
 };
 
+/** POST schedules/preview — next run times for an unsaved schedule. */
+const handleSchedulePreview = async (request: Request): Promise<Response> => {
+  const body = await parseJsonBody(request) as Record<string, unknown>;
+  const timing = parseScheduleTiming(body);
+  const runs = computeDeliveryPreview(timing.frequency, timing.hour ?? 0, SCHEDULE_PREVIEW_COUNT, {
+    dayOfWeek: timing.dayOfWeek,
+    dayOfMonth: timing.dayOfMonth,
+    timezone: timing.timezone,
+    cron: timing.cron,
+  });
+  return new Response(JSON.stringify({ success: true, data: { runs, timezone: timing.timezone ?? 'UTC' } }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
 const handleScheduleUpdate = async (
   request: Request,
   env: Env,
@@ -503,6 +882,10 @@ const handleScheduleUpdate = async (
     patch.frequency = body.frequency;
   }
   if (body.hourUtc !== undefined) patch.hourUtc = requireIntegerInRange(body.hourUtc, 'hourUtc', 0, 23);
+  if (body.hour !== undefined) patch.hour = requireIntegerInRange(body.hour, 'hour', 0, 23);
+  if (body.timezone !== undefined) patch.timezone = readTimezone(body.timezone) ?? 'UTC';
+  if (body.cron !== undefined) patch.cron = readCron(body.cron);
+  if (body.format !== undefined) patch.format = readExportFormat(body.format);
   if (body.dayOfWeek !== undefined) patch.dayOfWeek = requireIntegerInRange(body.dayOfWeek, 'dayOfWeek', 0, 6);
   if (body.dayOfMonth !== undefined) patch.dayOfMonth = requireIntegerInRange(body.dayOfMonth, 'dayOfMonth', 1, 31);
   if (Array.isArray(body.recipients)) {
@@ -548,15 +931,17 @@ const handleSendNow = async (
 ): Promise<Response> => {
   const body = await parseJsonBody(request) as {
     reportType?: string;
+    format?: unknown;
     recipients?: unknown;
     filters?: unknown;
   };
   if (!body.reportType || !VALID_REPORT_TYPES.has(body.reportType)) {
     throw HttpErrors.badRequest('Invalid reportType');
   }
-  const columns = csvColumnsFor(body.reportType);
-  if (!columns) {
-    throw HttpErrors.unprocessableEntity(`CSV export not supported for '${body.reportType}'`);
+  const format = readExportFormat(body.format);
+  const columnsFor = csvColumnsFor(body.reportType);
+  if (!columnsFor) {
+    throw HttpErrors.unprocessableEntity(`Export not supported for '${body.reportType}'`);
   }
   const recipients = Array.isArray(body.recipients)
     ? (body.recipients as unknown[]).filter((r): r is string => typeof r === 'string')
@@ -580,19 +965,19 @@ const handleSendNow = async (
   const delivery = await deliveryService.create({
     practiceId,
     reportType: body.reportType,
+    format,
     filters,
     recipients,
     createdBy: authUserId,
   });
 
   try {
-    const result = await runReport(body.reportType, synthRequest, env, practiceId);
-    const csv = toCsv(result.rows, columns);
-    const stored = await deliveryService.storeCsv(practiceId, delivery.id, body.reportType, csv);
+    const bytes = await buildReportExport(body.reportType, format, synthRequest, env, practiceId, columnsFor);
+    const stored = await deliveryService.storeExport(delivery, bytes);
     await deliveryService.markCompleted(delivery.id, stored);
     const completed = { ...delivery, status: 'completed' as const, ...stored, completedAt: new Date().toISOString() };
     if (recipients.length > 0) {
-      await deliveryService.notifyRecipients({ practiceId, delivery: completed, practiceSlug });
+      await deliveryService.notifyRecipients({ practiceId, delivery: completed, practiceSlug, request });
     }
     return new Response(JSON.stringify({ success: true, data: completed }), {
       status: 201,
@@ -650,7 +1035,7 @@ const handleDeliveryDownload = async (
   if (!body) throw HttpErrors.notFound('Delivery file not found in storage');
   const headers: Record<string, string> = {
     'Content-Type': contentType,
-    'Content-Disposition': `attachment; filename="${filenameFor(delivery.reportType, practiceId)}"`,
+    'Content-Disposition': `attachment; filename="${filenameFor(delivery.reportType, practiceId, delivery.format)}"`,
   };
   if (size != null) headers['Content-Length'] = String(size);
   return new Response(body, { status: 200, headers });
@@ -698,6 +1083,10 @@ export async function handleReports(request: Request, env: Env): Promise<Respons
       if (request.method === 'POST') return await handleScheduleCreate(request, env, practiceId);
       throw HttpErrors.methodNotAllowed('GET or POST');
     }
+    if (remainder === 'schedules/preview') {
+      if (request.method !== 'POST') throw HttpErrors.methodNotAllowed('POST');
+      return await handleSchedulePreview(request);
+    }
     const schedMatch = /^schedules\/([^/]+)$/.exec(remainder);
     if (schedMatch) {
       const scheduleId = decodeURIComponent(schedMatch[1]);
@@ -757,6 +1146,9 @@ export async function handleReports(request: Request, env: Env): Promise<Respons
     if (err instanceof BackendUnavailableError) {
       return backendUnavailable(err.reportType);
     }
+    if (err instanceof InvalidScheduleError) {
+      return handleError(HttpErrors.badRequest(err.message));
+    }
     return handleError(err);
   }
 }
@@ -3,19 +3,38 @@ import { requirePracticeMember, requirePracticeOwner } from '../middleware/auth.
 import { handleError, HttpErrors } from '../errorHandler.js';
 import { Logger } from '../utils/logger.js';
 import {
+  SEARCH_METADATA_VERSION,
   SearchIndexService,
+  type SearchIndexConstraints,
   type SearchIndexQueryOptions,
 } from '../services/SearchIndexService.js';
 import { SearchVectorService } from '../services/SearchVectorService.js';
+import {
+  MAX_SAVED_SEARCHES_PER_USER,
+  SAVED_SEARCH_NAME_MAX,
+  SAVED_SEARCH_QUERY_MAX,
+  SavedSearchService,
+  type SavedSearchInput,
+  type SavedSearchPatch,
+} from '../services/SavedSearchService.js';
 import { SearchIndexEventPublisher } from '../services/SearchIndexEventPublisher.js';
 import {
   SearchBackfillService,
   makeBackfillCookieKey,
 } from '../services/SearchBackfillService.js';
 import { matchReports } from '../utils/reportsCatalog.js';
+import { edgeCache } from '../utils/edgeCache.js';
 import {
+  SEARCH_FILTER_KEYS,
+  highlightTerms,
+  parseAmountRange,
+  parseDateRange,
   parseQuery,
+  parseTerms,
+  type ParsedQuery,
+  type SearchRange,
   type SearchScope,
+  type SearchTerm,
 } from '../../src/features/search/utils/parseQuery.js';
 import {
   type SearchEntityType,
@@ -23,6 +42,7 @@ import {
   type SearchGroup,
   type SearchEnvelope,
   type SearchSuggestion,
+  type SavedSearchResults,
   SEARCH_ENTITY_LABELS,
 } from '../types/search.js';
 
@@ -56,6 +76,8 @@ const EMPTY_ENVELOPE = (semanticEnabled: boolean): SearchEnvelope => ({
 });
 
 const SUGGESTION_LIMIT = 1;
+const METADATA_BACKFILL_KV_PREFIX = 'search-metadata-backfill:';
+const METADATA_BACKFILL_RETRY_SECONDS = 60 * 60;
 
 /**
  * Returns the top autocomplete suggestions for a prefix, preferring the
@@ -172,6 +194,10 @@ export async function handleGlobalSearch(
       return await handlePins(request, env, practiceId, parsed.rest, method);
     }
 
+    if (action === 'saved') {
+      return await handleSavedSearches(request, env, practiceId, parsed.rest, method, url);
+    }
+
     // For the remaining actions, recognize the action first and 405 if the
     // method doesn't match — that's a more useful signal than 'not found'
     // (which obscures whether the route exists at all).
@@ -245,17 +271,21 @@ async function handleSearchQuery(
     ? Math.min(Math.max(Math.trunc(limitParam), 1), 25)
     : DEFAULT_GROUP_LIMIT;
 
-  const allowedEntities: SearchEntityType[] = requestedScopes.length === 0
-    ? []
-    : requestedScopes.flatMap((s) => SCOPE_TO_ENTITY[s]);
-
-  const terms = parsedQ.terms.trim();
-  if (!terms) {
+  const compiled = compileSearch(parsedQ);
+  if (!compiled) {
     return SUCCESS(EMPTY_ENVELOPE(semanticEnabled));
   }
-
-  const ftsQuery = buildFtsQuery(terms);
+  const { terms, ftsQuery, ftsExclude, hasConstraints } = compiled;
   const indexService = new SearchIndexService(env);
+  if (hasConstraints) {
+    const backfillPromise = maybeBackfillSearchMetadata(request, env, practiceId, indexService).catch((error) => {
+      Logger.warn('search.metadata_backfill.failed', {
+        practiceId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+    if (ctx) ctx.waitUntil(backfillPromise);
+  }
   const vectorService = new SearchVectorService(env);
 
   // FTS5 and Vectorize run in parallel and we RRF-merge the results.
@@ -266,12 +296,7 @@ async function handleSearchQuery(
   // visibility signal — surface in dashboards/alerts.
   const ftsStart = Date.now();
   const ftsItemsPromise = indexService
-    .query({
-      practiceId,
-      fts: ftsQuery,
-      scopes: allowedEntities.length > 0 ? allowedEntities : undefined,
-      limit: groupLimit * 8,
-    } satisfies SearchIndexQueryOptions)
+    .query(toIndexQuery(practiceId, compiled, groupLimit * 8))
     .catch((error) => {
       Logger.warn('search.fts.failed', {
         practiceId,
@@ -282,7 +307,10 @@ async function handleSearchQuery(
     });
 
   const vectorStart = Date.now();
-  const vectorMatchesPromise = semanticEnabled && vectorService.isEnabled()
+  // Semantic matches can't honor exclusions or structured filters, so they
+  // only join plain free-text queries.
+  const semanticEligible = Boolean(terms) && !ftsExclude && !hasConstraints;
+  const vectorMatchesPromise = semanticEligible && semanticEnabled && vectorService.isEnabled()
     ? vectorService.query(terms, practiceId, { topK: groupLimit * 4 }).catch((error) => {
         Logger.warn('search.vector.failed', {
           practiceId,
@@ -316,7 +344,7 @@ async function handleSearchQuery(
 
   // Optional cross-encoder rerank on top-K to bump precision. Gated behind
   // env.SEARCH_RERANK_ENABLED because it costs one extra Workers AI call.
-  if (env.SEARCH_RERANK_ENABLED === 'true' && merged.length > 1) {
+  if (env.SEARCH_RERANK_ENABLED === 'true' && terms && merged.length > 1) {
     merged = await maybeRerank(env, terms, merged, 20);
   }
 
@@ -335,7 +363,7 @@ async function handleSearchQuery(
   const onlyReports =
     requestedScopes.length > 0 && requestedScopes.every((s) => s === 'reports');
   let withReports = filteredByStatusFilter;
-  if (allowReports) {
+  if (allowReports && terms && !hasConstraints) {
     const reportMatches = matchReports(terms, groupLimit);
     if (reportMatches.length > 0) {
       const reportItems: SearchResultItem[] = reportMatches.map((r) => ({
@@ -355,6 +383,9 @@ async function handleSearchQuery(
     } else if (onlyReports) {
       withReports = [];
     }
+  } else if (onlyReports) {
+    // Reports carry no dates/amounts/relations, so filters rule them out.
+    withReports = [];
   } else {
     // Scope explicitly excludes reports: nothing to add.
     withReports = filteredByStatusFilter;
@@ -371,7 +402,7 @@ async function handleSearchQuery(
   // Did-you-mean: on zero results, fire a single Vectorize nearest-neighbor
   // and surface the top title as a suggestion. Mostly useful for typos that
   // FTS5 misses but semantic embedding catches.
-  if (grouped.length === 0 && semanticEnabled && vectorService.isEnabled()) {
+  if (grouped.length === 0 && semanticEligible && semanticEnabled && vectorService.isEnabled()) {
     const fallback = await vectorService
       .query(q, practiceId, { topK: 1 })
       .catch(() => []);
@@ -473,7 +504,7 @@ async function maybeRerank(
 const VALID_SCOPES = new Set<SearchScope>([
   'clients', 'matters', 'invoices', 'conversations', 'files', 'intakes', 'notes', 'reports',
 ]);
-const VALID_FILTER_KEYS = new Set<string>(['status', 'archived', 'assignee']);
+const VALID_FILTER_KEYS = new Set<string>(SEARCH_FILTER_KEYS);
 
 type LlmRewriteOutput = {
   terms: string;
@@ -490,7 +521,8 @@ async function maybeLlmRewrite(env: Env, rawQuery: string): Promise<LlmRewriteOu
     `Output ONLY a JSON object with keys: ` +
     `"terms" (string, free-text remainder), ` +
     `"scopes" (optional array of: clients, matters, invoices, conversations, files, intakes, notes), ` +
-    `"filters" (optional object with keys status/archived/assignee). ` +
+    `"filters" (optional object with keys status/archived/assignee/client/matter/created/due/amount; ` +
+    `dates as ">2026-01-01", "2026-01-01..2026-03-31" or "this-week", amounts as ">500"). ` +
     `Do not include any commentary.`;
 
   try {
@@ -600,70 +632,159 @@ const LEGAL_SYNONYMS: Record<string, string[]> = {
 
 
 /**
- * FTS5 query builder.
+ * FTS5 query builder over the clauses from parseTerms.
  *
  * Supports:
- *   - Bare terms: `steve smith`        → `steve* smith*`     (prefix-match)
+ *   - Bare terms: `steve smith`        → `steve* AND smith*` (prefix-match)
  *   - Exact phrase: `"smith v jones"`  → `"smith v jones"`   (FTS5 phrase)
  *   - Field operators: `title:steve`   → `{title:steve*}`    (FTS5 column filter)
+ *   - OR groups: `depo OR hearing`     → `(depo* … OR hearing*)`
  *
  * Recognized field names match the indexed columns: title, subtitle, body.
+ * Exclusions are built with the same function (joined with OR) and applied
+ * by SearchIndexService as a NOT IN subquery, since FTS5 can't express a
+ * query that is only negative.
  */
 const FTS_FIELDS = new Set(['title', 'subtitle', 'body']);
 
-function buildFtsQuery(terms: string): string {
-  if (!terms || terms.trim().length === 0) return '';
-
-  const tokens: string[] = [];
-  let i = 0;
-  while (i < terms.length) {
-    const ch = terms[i];
-    if (ch === ' ' || ch === '\t' || ch === '\n') {
-      i += 1;
-      continue;
-    }
-    if (ch === '"') {
-      // Exact phrase. Scan until closing quote or end of string.
-      const close = terms.indexOf('"', i + 1);
-      if (close === -1) {
-        // Unterminated quote — consume rest as a phrase.
-        const phrase = terms.slice(i + 1).trim();
-        if (phrase) tokens.push(`"${escapeFtsPhrase(phrase)}"`);
-        break;
-      }
-      const phrase = terms.slice(i + 1, close).trim();
-      if (phrase) tokens.push(`"${escapeFtsPhrase(phrase)}"`);
-      i = close + 1;
-      continue;
-    }
-
-    // Read until next whitespace
-    let end = i;
-    while (end < terms.length && terms[end] !== ' ' && terms[end] !== '\t' && terms[end] !== '\n') {
-      end += 1;
-    }
-    const raw = terms.slice(i, end);
-    i = end;
-
-    const colonIdx = raw.indexOf(':');
-    if (colonIdx > 0 && colonIdx < raw.length - 1) {
-      const field = raw.slice(0, colonIdx).toLowerCase();
-      const value = raw.slice(colonIdx + 1);
-      if (FTS_FIELDS.has(field)) {
-        const safe = escapeFtsTerm(value);
-        if (safe) tokens.push(`{${field}:${expandWithSynonyms(safe)}}`);
-        continue;
-      }
+function termToFts(term: SearchTerm): string {
+  if (term.phrase) {
+    const phrase = escapeFtsPhrase(term.text);
+    return phrase ? `"${phrase}"` : '';
+  }
+  const colonIdx = term.text.indexOf(':');
+  if (colonIdx > 0 && colonIdx < term.text.length - 1) {
+    const field = term.text.slice(0, colonIdx).toLowerCase();
+    if (FTS_FIELDS.has(field)) {
+      const safe = escapeFtsTerm(term.text.slice(colonIdx + 1));
+      return safe ? `{${field}:${expandWithSynonyms(safe)}}` : '';
     }
-    const safe = escapeFtsTerm(raw);
-    if (safe) tokens.push(expandWithSynonyms(safe));
   }
+  const safe = escapeFtsTerm(term.text);
+  return safe ? expandWithSynonyms(safe) : '';
+}
 
-  // Use explicit AND between tokens. FTS5 normally allows implicit AND on
+function buildFtsQuery(groups: SearchTerm[][], joiner = ' AND '): string {
+  const parts = groups
+    .map((group) => {
+      const alternatives = group.map(termToFts).filter(Boolean);
+      if (alternatives.length <= 1) return alternatives[0] ?? '';
+      return `(${alternatives.join(' OR ')})`;
+    })
+    .filter(Boolean);
+
+  // Use explicit AND between groups. FTS5 normally allows implicit AND on
   // whitespace, but it errors on `term* (alt OR alt)` — needs the keyword.
   // Explicit AND is always safe and produces identical results for bare-term
   // sequences too.
-  return tokens.join(' AND ');
+  return parts.join(joiner);
+}
+
+function toConstraintRange(range: SearchRange | null, scale = 1): SearchRange | undefined {
+  if (!range) return undefined;
+  return {
+    ...range,
+    min: range.min === null ? null : Math.round(range.min * scale),
+    max: range.max === null ? null : Math.round(range.max * scale),
+  };
+}
+
+/**
+ * Structured filters (`created:`, `due:`, `amount:`, `client:`, `matter:`)
+ * resolved for SearchIndexService. Values that don't parse are ignored,
+ * matching how unknown syntax falls back to a broader search elsewhere.
+ * `amount:` is in major units; the index stores minor units.
+ */
+function buildConstraints(filters: Record<string, string>, now = new Date()): SearchIndexConstraints {
+  const constraints: SearchIndexConstraints = {};
+  const createdAt = filters.created ? toConstraintRange(parseDateRange(filters.created, now)) : undefined;
+  const dueDate = filters.due ? toConstraintRange(parseDateRange(filters.due, now)) : undefined;
+  const amountCents = filters.amount ? toConstraintRange(parseAmountRange(filters.amount), 100) : undefined;
+  if (createdAt) constraints.createdAt = createdAt;
+  if (dueDate) constraints.dueDate = dueDate;
+  if (amountCents) constraints.amountCents = amountCents;
+  if (filters.client?.trim()) constraints.client = filters.client.trim();
+  if (filters.matter?.trim()) constraints.matter = filters.matter.trim();
+  return constraints;
+}
+
+type CompiledSearch = {
+  /** Positive free text for ranking, semantic search and report matching. */
+  terms: string;
+  ftsQuery: string;
+  ftsExclude: string;
+  constraints: SearchIndexConstraints;
+  hasConstraints: boolean;
+  entityScopes: SearchEntityType[];
+};
+
+/**
+ * Compiles a parsed query for SearchIndexService: phrases, exclusions, OR
+ * groups and structured filters all go into the FTS query so results match
+ * what the palette parsed. Returns null when there is nothing to match on
+ * (empty text, or only punctuation survived escaping, and no filters).
+ */
+function compileSearch(parsedQ: ParsedQuery): CompiledSearch | null {
+  const clauses = parseTerms(parsedQ.terms);
+  const terms = highlightTerms(parsedQ.terms);
+  const constraints = buildConstraints(parsedQ.filters);
+  const hasConstraints = Object.keys(constraints).length > 0;
+  const ftsQuery = buildFtsQuery(clauses.groups);
+  const ftsExclude = buildFtsQuery(clauses.excluded.map((term) => [term]), ' OR ');
+  if (!ftsQuery && !hasConstraints) return null;
+  return {
+    terms,
+    ftsQuery,
+    ftsExclude,
+    constraints,
+    hasConstraints,
+    entityScopes: parsedQ.scopes.flatMap((scope) => SCOPE_TO_ENTITY[scope]),
+  };
+}
+
+function toIndexQuery(practiceId: string, compiled: CompiledSearch, limit: number): SearchIndexQueryOptions {
+  return {
+    practiceId,
+    fts: compiled.ftsQuery,
+    exclude: compiled.ftsExclude || undefined,
+    constraints: compiled.hasConstraints ? compiled.constraints : undefined,
+    scopes: compiled.entityScopes.length > 0 ? compiled.entityScopes : undefined,
+    limit,
+  };
+}
+
+/**
+ * Runs a stored query (saved searches, sidebar counts, MCP) through the
+ * keyword index only. No LLM rewrite, semantic matches, personalization or
+ * report entries, so the same query always returns the same records and its
+ * count is stable. At most `limit` records are read; `capped` reports when
+ * there may be more.
+ */
+export async function runStoredSearch(
+  env: Env,
+  practiceId: string,
+  query: string,
+  limit: number,
+): Promise<{ items: SearchResultItem[]; capped: boolean }> {
+  const parsedQ = parseQuery(query);
+  const compiled = compileSearch(parsedQ);
+  if (!compiled) return { items: [], capped: false };
+  const rows = await new SearchIndexService(env).query(toIndexQuery(practiceId, compiled, limit));
+  // Several chunks of one file count as one result, as in groupByEntity.
+  const seenFiles = new Set<string>();
+  const deduped = rows.filter((item) => {
+    if (item.entityType !== 'file_chunk') return true;
+    const fileId = (item.metadata?.fileId as string) ?? item.entityId;
+    if (seenFiles.has(fileId)) return false;
+    seenFiles.add(fileId);
+    return true;
+  });
+  return { items: applyStatusFilter(deduped, parsedQ.filters), capped: rows.length >= limit };
+}
+
+/** Groups stored-search results for display, `perGroup` items per entity type. */
+export function groupStoredSearchResults(items: SearchResultItem[], perGroup: number): SearchGroup[] {
+  return groupByEntity(items, perGroup);
 }
 
 /**
@@ -939,6 +1060,121 @@ async function handlePins(
   throw HttpErrors.methodNotAllowed();
 }
 
+const SAVED_SEARCH_RESULT_LIMIT = 100;
+
+function readSavedSearchBody(raw: unknown, partial: boolean): SavedSearchPatch {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw HttpErrors.badRequest('Request body must be an object');
+  }
+  const body = raw as Record<string, unknown>;
+  const out: SavedSearchPatch = {};
+  for (const [field, max] of [['name', SAVED_SEARCH_NAME_MAX], ['query', SAVED_SEARCH_QUERY_MAX]] as const) {
+    const value = body[field];
+    if (value === undefined && partial) continue;
+    if (typeof value !== 'string' || !value.trim()) {
+      throw HttpErrors.badRequest(`${field} is required`);
+    }
+    if (value.trim().length > max) {
+      throw HttpErrors.badRequest(`${field} must be at most ${max} characters`);
+    }
+    out[field] = value.trim();
+  }
+  for (const field of ['shared', 'pinned'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') throw HttpErrors.badRequest(`${field} must be a boolean`);
+    out[field] = value;
+  }
+  return out;
+}
+
+/**
+ * /api/search/:practiceId/saved[/:id[/results]]
+ *
+ * Saved searches are stored server-side per user and optionally shared with
+ * the practice. Pinned searches show up in the sidebar with a live count
+ * (see handleSidebarCounts), so every change drops the practice's cached
+ * counts.
+ */
+async function handleSavedSearches(
+  request: Request,
+  env: Env,
+  practiceId: string,
+  rest: string[],
+  method: string,
+  url: URL,
+): Promise<Response> {
+  const auth = await requirePracticeMember(request, env, practiceId, 'paralegal');
+  const userId = auth.user.id;
+  const service = new SavedSearchService(env);
+  const [id, sub] = rest;
+  const invalidateCounts = () => edgeCache.invalidate(`sidebar:counts:${practiceId}:`, true);
+
+  if (!id) {
+    if (method === 'GET') {
+      return SUCCESS(await service.list(practiceId, userId));
+    }
+    if (method === 'POST') {
+      const input = readSavedSearchBody(await request.json().catch(() => null), false) as SavedSearchInput;
+      if (await service.countOwned(practiceId, userId) >= MAX_SAVED_SEARCHES_PER_USER) {
+        throw HttpErrors.conflict(`You can save at most ${MAX_SAVED_SEARCHES_PER_USER} searches`);
+      }
+      const created = await service.create(practiceId, userId, input);
+      if (created.pinned) invalidateCounts();
+      return SUCCESS(created, { status: 201 });
+    }
+    throw HttpErrors.methodNotAllowed();
+  }
+
+  const existing = await service.get(practiceId, userId, id);
+  if (!existing) throw HttpErrors.notFound('Saved search not found');
+  const isOwner = existing.ownerUserId === userId;
+
+  if (sub === 'results') {
+    if (method !== 'GET') throw HttpErrors.methodNotAllowed();
+    const limitParam = Number(url.searchParams.get('limit') ?? DEFAULT_GROUP_LIMIT);
+    const groupLimit = Number.isFinite(limitParam)
+      ? Math.min(Math.max(Math.trunc(limitParam), 1), 25)
+      : DEFAULT_GROUP_LIMIT;
+    const { items, capped } = await runStoredSearch(env, practiceId, existing.query, SAVED_SEARCH_RESULT_LIMIT);
+    const results: SavedSearchResults = {
+      savedSearch: existing,
+      groups: groupStoredSearchResults(items, groupLimit),
+      total: items.length,
+      capped,
+    };
+    return SUCCESS(results);
+  }
+  if (sub) throw HttpErrors.notFound('Saved search subroute not found');
+
+  if (method === 'GET') {
+    return SUCCESS(existing);
+  }
+
+  if (method === 'PATCH') {
+    const patch = readSavedSearchBody(await request.json().catch(() => null), true);
+    const { pinned, ...ownerFields } = patch;
+    if (Object.keys(ownerFields).length > 0) {
+      if (!isOwner) throw HttpErrors.forbidden('Only the owner can edit a saved search');
+      await service.update(practiceId, userId, id, ownerFields);
+    }
+    if (pinned !== undefined) await service.setPinned(practiceId, userId, id, pinned);
+    invalidateCounts();
+    const updated = await service.get(practiceId, userId, id);
+    if (!updated) throw HttpErrors.notFound('Saved search not found');
+    return SUCCESS(updated);
+  }
+
+  if (method === 'DELETE') {
+    if (!isOwner) throw HttpErrors.forbidden('Only the owner can delete a saved search');
+    await service.delete(practiceId, userId, id);
+    invalidateCounts();
+    return SUCCESS({ ok: true });
+  }
+
+  throw HttpErrors.methodNotAllowed();
+}
+
 async function handleClick(
   request: Request,
   env: Env,
@@ -955,6 +1191,34 @@ async function handleClick(
   return SUCCESS({ ok: true });
 }
 
+/**
+ * Structured filters read metadata that rows indexed before
+ * SEARCH_METADATA_VERSION don't carry. The first filtered search in such a
+ * practice queues a backfill with the searcher's session, at most once an
+ * hour until a backfill completes.
+ */
+async function maybeBackfillSearchMetadata(
+  request: Request,
+  env: Env,
+  practiceId: string,
+  indexService: SearchIndexService,
+): Promise<void> {
+  const cookie = request.headers.get('Cookie');
+  if (!cookie || !env.CHAT_SESSIONS) return;
+  if ((await indexService.metadataVersion(practiceId)) >= SEARCH_METADATA_VERSION) return;
+
+  const pendingKey = `${METADATA_BACKFILL_KV_PREFIX}${practiceId}`;
+  if (await env.CHAT_SESSIONS.get(pendingKey)) return;
+  await env.CHAT_SESSIONS.put(pendingKey, String(SEARCH_METADATA_VERSION), {
+    expirationTtl: METADATA_BACKFILL_RETRY_SECONDS,
+  });
+
+  const cookieKey = makeBackfillCookieKey(practiceId);
+  await new SearchBackfillService(env).storeCookie(cookieKey, cookie);
+  await new SearchIndexEventPublisher(env).publishBackfill(practiceId, cookieKey);
+  Logger.info('search.metadata_backfill.queued', { practiceId, version: SEARCH_METADATA_VERSION });
+}
+
 async function handleReindex(
   request: Request,
   env: Env,
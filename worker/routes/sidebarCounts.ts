@@ -6,6 +6,8 @@ import { policyTtlMs } from '../utils/cachePolicy.js';
 import { Logger } from '../utils/logger.js';
 import { getAcceptedIntakeConversationIds, materializeAcceptedConversations, buildForwardHeaders } from '../utils/intakeVisibility.js';
 import type { BackendSidebarCounts } from '../types/wire/sidebarCounts.js';
+import { SavedSearchService } from '../services/SavedSearchService.js';
+import { runStoredSearch } from './search.js';
 
 /**
  * GET /api/practice/:id/sidebar/counts
@@ -23,6 +25,9 @@ import type { BackendSidebarCounts } from '../types/wire/sidebarCounts.js';
  *     bucket by status into MATTERS_FILTER_MAP groups.
  *   - invoices: same approach using PRACTICE_INVOICES_FILTER_MAP.
  *   - files: worker D1 COUNT(*) over non-deleted files.
+ *   - savedSearches: the user's pinned saved searches, each run through the
+ *     keyword index (runStoredSearch) and counted, capped at
+ *     SAVED_SEARCH_COUNT_CAP.
  *
  * Pagination cap: the matter/invoice list endpoints don't return a `total`
  * field, so the worker has to read records to bucket them. We cap at
@@ -38,6 +43,7 @@ type IntakeStatus = typeof INTAKE_STATUSES[number];
 // without the validation rejection.
 const MAX_LIST_PAGES = 10;
 const MAX_LIST_PAGE_SIZE = 100;
+const SAVED_SEARCH_COUNT_CAP = 100;
 
 // Filter buckets — kept in sync with src/shared/config/navConfig.ts. Duplicated
 // here because navConfig.ts is a frontend module and the worker shouldn't
@@ -237,6 +243,43 @@ const fetchFilesCount = async (
   }
 };
 
+const fetchSavedSearchCounts = async (
+  env: Env,
+  practiceId: string,
+  userId: string,
+): Promise<BackendSidebarCounts['savedSearches']> => {
+  try {
+    const pinned = await new SavedSearchService(env).listPinned(practiceId, userId);
+    if (pinned.length === 0) return undefined;
+    const counts = await Promise.all(
+      pinned.map(async (search) => {
+        try {
+          const { items } = await runStoredSearch(env, practiceId, search.query, SAVED_SEARCH_COUNT_CAP);
+          return [search.id, items.length] as const;
+        } catch (error) {
+          Logger.warn('sidebar-counts: saved search failed', {
+            practiceId,
+            savedSearchId: search.id,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return null;
+        }
+      }),
+    );
+    const byId: Record<string, number> = {};
+    for (const entry of counts) {
+      if (entry) byId[entry[0]] = entry[1];
+    }
+    return { byId };
+  } catch (error) {
+    Logger.warn('sidebar-counts: saved searches D1 query failed', {
+      practiceId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+};
+
 type ConversationRow = {
   id: string;
   matter_id: string | null;
@@ -368,12 +411,13 @@ export async function handleSidebarCounts(request: Request, env: Env): Promise<R
       // runs in parallel. The accepted-intake lookup is shared with
       // GET /api/conversations via worker/utils/intakeVisibility.ts, so the
       // badge count and the inbox list use exactly the same set.
-      const [intakes, acceptedIntakeIds, matters, invoices, files] = await Promise.all([
+      const [intakes, acceptedIntakeIds, matters, invoices, files, savedSearches] = await Promise.all([
         fetchIntakeCounts(env.BACKEND_API_URL, practiceId, forwardHeaders),
         getAcceptedIntakeConversationIds(env, practiceId, request),
         fetchMattersCounts(env.BACKEND_API_URL, practiceId, forwardHeaders),
         fetchInvoicesCounts(env.BACKEND_API_URL, practiceId, forwardHeaders),
         fetchFilesCount(env, practiceId),
+        fetchSavedSearchCounts(env, practiceId, userId),
       ]);
       const acceptedIdsSet = acceptedIntakeIds ?? new Set<string>();
       if (acceptedIdsSet.size > 0) {
@@ -385,7 +429,7 @@ export async function handleSidebarCounts(request: Request, env: Env): Promise<R
         userId,
         acceptedIdsSet,
       );
-      return { intakes, conversations, matters, invoices, files };
+      return { intakes, conversations, matters, invoices, files, savedSearches };
     },
     { ttlMs: policyTtlMs(cacheKey) },
   );
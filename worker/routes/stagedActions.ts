@@ -1,6 +1,11 @@
 import type { Env } from '../types.js';
 import { HttpErrors } from '../errorHandler.js';
 import { requirePracticeMember } from '../middleware/auth.js';
+import { parseJsonBody } from '../utils.js';
+import { PracticeAssistantActionService } from '../services/practiceAssistant/actionService.js';
+import { PracticeAssistantApprovalPolicyService } from '../services/practiceAssistant/approvalPolicyService.js';
+import { approvalPolicyInputSchema } from '../services/practiceAssistant/approvalPolicy.js';
+import type { PracticeAssistantApprovalState } from '../types/wire/practiceAssistant.js';
 
 interface StagedActionRow {
   id: string;
@@ -9,6 +14,10 @@ interface StagedActionRow {
   approval_summary_json: string;
   created_at: string;
   conversation_id: string;
+  policy_version: number | null;
+  approval_requirement_json: string | null;
+  expires_at: string | null;
+  approvals_received: number | null;
 }
 
 export interface StagedActionItem {
@@ -18,27 +27,54 @@ export interface StagedActionItem {
   description: string;
   createdAt: string;
   conversationId: string;
+  approval: PracticeAssistantApprovalState;
 }
 
-export async function handleStagedActions(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
-  const match = url.pathname.match(/^\/api\/practice\/([^/]+)\/staged-actions$/);
-  if (!match) throw HttpErrors.notFound('Route not found');
+const DEFAULT_LIST_LIMIT = 5;
+const MAX_LIST_LIMIT = 50;
 
-  const practiceId = decodeURIComponent(match[1] ?? '');
-  if (!practiceId) throw HttpErrors.badRequest('Practice ID required');
+const jsonResponse = (data: unknown, status = 200): Response =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
 
-  await requirePracticeMember(request, env, practiceId, 'paralegal');
+const toApprovalState = (row: StagedActionRow): PracticeAssistantApprovalState => {
+  let requirement: { approvals?: number; minRole?: PracticeAssistantApprovalState['minRole']; requireRole?: PracticeAssistantApprovalState['requireRole'] } = {};
+  try {
+    requirement = row.approval_requirement_json ? JSON.parse(row.approval_requirement_json) : {};
+  } catch { /* legacy defaults */ }
+  return {
+    policyVersion: Number(row.policy_version ?? 0),
+    approvalsRequired: requirement.approvals ?? 1,
+    approvalsReceived: Number(row.approvals_received ?? 0),
+    minRole: requirement.minRole ?? 'paralegal',
+    requireRole: requirement.requireRole ?? null,
+    expiresAt: row.expires_at,
+  };
+};
 
+async function listStagedActions(request: Request, env: Env, practiceId: string): Promise<Response> {
   if (request.method !== 'GET') throw HttpErrors.methodNotAllowed('Method not allowed');
 
+  const requestedLimit = Number(new URL(request.url).searchParams.get('limit'));
+  const limit = Number.isInteger(requestedLimit) && requestedLimit > 0
+    ? Math.min(requestedLimit, MAX_LIST_LIMIT)
+    : DEFAULT_LIST_LIMIT;
+
+  await new PracticeAssistantActionService(env).expirePending(practiceId);
+
   const rows = await env.DB.prepare(`
-    SELECT id, tool_name, status, approval_summary_json, created_at, conversation_id
-    FROM practice_assistant_actions
-    WHERE practice_id = ? AND status = 'pending'
-    ORDER BY created_at DESC
-    LIMIT 5
-  `).bind(practiceId).all<StagedActionRow>();
+    SELECT a.id, a.tool_name, a.status, a.approval_summary_json, a.created_at, a.conversation_id,
+           a.policy_version, a.approval_requirement_json, a.expires_at,
+           (SELECT COUNT(DISTINCT d.user_id)
+              FROM practice_assistant_action_approvals d
+             WHERE d.action_id = a.id AND d.decision = 'approve') AS approvals_received
+    FROM practice_assistant_actions a
+    WHERE a.practice_id = ? AND a.status = 'pending'
+    ORDER BY a.created_at DESC
+    LIMIT ?
+  `).bind(practiceId, limit).all<StagedActionRow>();
 
   const actions: StagedActionItem[] = (rows.results ?? []).map((row) => {
     let title = row.tool_name;
@@ -55,11 +91,93 @@ export async function handleStagedActions(request: Request, env: Env): Promise<R
       description,
       createdAt: row.created_at,
       conversationId: row.conversation_id,
+      approval: toApprovalState(row),
     };
   });
 
-  return new Response(JSON.stringify({ actions }), {
-    status: 200,
-    headers: { 'Content-Type': 'application/json' },
+  return jsonResponse({ actions });
+}
+
+async function handleStagedAction(request: Request, env: Env, practiceId: string, actionId: string): Promise<Response> {
+  if (request.method !== 'GET') throw HttpErrors.methodNotAllowed('Method not allowed');
+  const service = new PracticeAssistantActionService(env);
+  const { action, trail } = await service.getWithTrail(actionId, practiceId);
+  const policy = await new PracticeAssistantApprovalPolicyService(env)
+    .getVersion(practiceId, action.approval?.policyVersion ?? 0);
+  return jsonResponse({ action, trail, policy });
+}
+
+async function handleStagedActionComment(
+  request: Request,
+  env: Env,
+  practiceId: string,
+  actionId: string,
+  auth: { user: { id: string }; memberRole: string },
+): Promise<Response> {
+  if (request.method !== 'POST') throw HttpErrors.methodNotAllowed('Method not allowed');
+  const body = await parseJsonBody(request) as { comment?: unknown };
+  if (typeof body.comment !== 'string') throw HttpErrors.badRequest('comment is required');
+  const entry = await new PracticeAssistantActionService(env).comment(actionId, practiceId, {
+    userId: auth.user.id,
+    memberRole: auth.memberRole,
+    comment: body.comment,
   });
+  return jsonResponse({ entry }, 201);
+}
+
+/**
+ * Staged practice assistant actions:
+ *   GET  /api/practice/:practiceId/staged-actions[?limit=]
+ *   GET  /api/practice/:practiceId/staged-actions/:actionId          — action, trail, policy
+ *   POST /api/practice/:practiceId/staged-actions/:actionId/comments
+ *
+ * Approve / reject go through the practice assistant route so execution
+ * stays in one place.
+ */
+export async function handleStagedActions(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(/^\/api\/practice\/([^/]+)\/staged-actions(?:\/([^/]+)(\/comments)?)?$/);
+  if (!match) throw HttpErrors.notFound('Route not found');
+
+  const practiceId = decodeURIComponent(match[1] ?? '');
+  if (!practiceId) throw HttpErrors.badRequest('Practice ID required');
+
+  const auth = await requirePracticeMember(request, env, practiceId, 'paralegal');
+
+  const actionId = match[2] ? decodeURIComponent(match[2]) : null;
+  if (!actionId) return listStagedActions(request, env, practiceId);
+  if (match[3]) return handleStagedActionComment(request, env, practiceId, actionId, auth);
+  return handleStagedAction(request, env, practiceId, actionId);
+}
+
+/**
+ * Practice approval policy:
+ *   GET /api/practice/:practiceId/approval-policy — active policy (version 0 = built-in default)
+ *   PUT /api/practice/:practiceId/approval-policy — saves a new version (admin or owner)
+ */
+export async function handleApprovalPolicy(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(/^\/api\/practice\/([^/]+)\/approval-policy$/);
+  if (!match) throw HttpErrors.notFound('Route not found');
+
+  const practiceId = decodeURIComponent(match[1] ?? '');
+  if (!practiceId) throw HttpErrors.badRequest('Practice ID required');
+
+  const service = new PracticeAssistantApprovalPolicyService(env);
+
+  if (request.method === 'GET') {
+    await requirePracticeMember(request, env, practiceId, 'paralegal');
+    return jsonResponse({ policy: await service.getActive(practiceId) });
+  }
+
+  if (request.method === 'PUT') {
+    const auth = await requirePracticeMember(request, env, practiceId, 'admin');
+    const parsed = approvalPolicyInputSchema.safeParse(await parseJsonBody(request));
+    if (!parsed.success) {
+      throw HttpErrors.badRequest(`Invalid approval policy: ${parsed.error.message}`);
+    }
+    return jsonResponse({ policy: await service.save(practiceId, parsed.data, auth.user.id) });
+  }
+
+  throw HttpErrors.methodNotAllowed('Method not allowed');
 }
@@ -12,15 +12,21 @@
 import { HttpErrors } from '../errorHandler.js';
 import { ConversationService } from '../services/ConversationService.js';
 import { RemoteApiService } from '../services/RemoteApiService.js';
+import { ConflictCheckService } from '../services/ConflictCheckService.js';
+import { IntakeEventService } from '../services/IntakeEventService.js';
+import { buildConflictQueryNames } from '../utils/conflictMatching.js';
 import { optionalAuth, checkPracticeMembership } from '../middleware/auth.js';
 import { getAttachedAuthContext } from '../middleware/compose.js';
 import type { AuthContext } from '../middleware/auth.js';
 import { withPracticeContext, getPracticeId } from '../middleware/practiceContext.js';
 import { Logger } from '../utils/logger.js';
+import { resolveIntakeTemplateSlug } from '../utils/intakeFunnel.js';
+import { resolveIntakeExperimentAssignment } from '../utils/intakeExperiments.js';
 import type { Env } from '../types.js';
 import { isIntakeReadyForSubmission, resolveConsultationState } from '../../src/shared/utils/consultationState';
 import { fetchPracticeDetailsWithCache } from '../utils/practiceDetailsCache.js';
 import { createWorkersAiClient } from '../utils/workersAiClient.js';
+import { AiUsageService, type AiUsageContext } from '../services/AiUsageService.js';
 import type { IntakeEnrichedData, IntakeFieldDefinition, IntakeTemplate } from '../../src/shared/types/intake.js';
 
 // ------------------------------------------------------------------
@@ -299,6 +305,7 @@ const buildFallbackIntakeTitle = (draft: SlimContactDraft, intake: IntakeConvers
 
 const generateIntakeTitle = async (
   env: Env,
+  usage: Omit<AiUsageContext, 'feature'>,
   draft: SlimContactDraft,
   intake: IntakeConversationState | null | undefined,
   transcriptSummary?: string | null
@@ -306,7 +313,9 @@ const generateIntakeTitle = async (
   const fallbackTitle = buildFallbackIntakeTitle(draft, intake);
   let aiClient;
   try {
-    aiClient = createWorkersAiClient(env);
+    aiClient = createWorkersAiClient(env, {
+      meter: new AiUsageService(env).meter({ ...usage, feature: 'title_generation' }),
+    });
   } catch (error) {
     Logger.warn('[submitIntake] AI client unavailable for intake title generation', {
       error: error instanceof Error ? error.message : String(error),
@@ -400,6 +409,53 @@ const persistConversationIntakeTitle = async (
   ).run();
 };
 
+/**
+ * Search the intake's names (client, opposing party and the enrichment's
+ * conflict_check_names) against the practice's conflict index, then add
+ * this intake to the index so later intakes are checked against it.
+ * Best-effort: a failure never blocks submission.
+ */
+const runIntakeConflictCheck = async (
+  env: Env,
+  input: {
+    practiceId: string;
+    conversationId: string;
+    intakeUuid: string;
+    title: string;
+    clientName: string;
+    opposingParty: string | null;
+    names: string[];
+  }
+): Promise<void> => {
+  const service = new ConflictCheckService(env);
+  const names = buildConflictQueryNames(input);
+  try {
+    const check = await service.run(input.practiceId, {
+      names,
+      intakeUuid: input.intakeUuid,
+      conversationId: input.conversationId,
+      exclude: { type: 'intake', id: input.intakeUuid },
+    });
+    Logger.info('[submitIntake] Conflict check ran', {
+      conversationId: input.conversationId,
+      intakeUuid: input.intakeUuid,
+      status: check.status,
+      hitCount: check.hitCount,
+    });
+    await service.indexSource(
+      input.practiceId,
+      { type: 'intake', id: input.intakeUuid, label: input.title, matterId: null, clientId: null },
+      names
+    );
+  } catch (error) {
+    Logger.warn('[submitIntake] Conflict check failed', {
+      conversationId: input.conversationId,
+      intakeUuid: input.intakeUuid,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
+
 // ------------------------------------------------------------------
 // Intake enrichment — structured AI inference at submission time
 // ------------------------------------------------------------------
@@ -458,6 +514,7 @@ const sanitizeFactText = (value: unknown, maxLength: number): string | null => {
 
 const generateIntakeEnrichment = async (
   env: Env,
+  usage: Omit<AiUsageContext, 'feature'>,
   draft: SlimContactDraft,
   intake: IntakeConversationState | null | undefined,
   transcriptSummary: string | null,
@@ -465,7 +522,9 @@ const generateIntakeEnrichment = async (
 ): Promise<IntakeEnrichedData | null> => {
   let aiClient;
   try {
-    aiClient = createWorkersAiClient(env);
+    aiClient = createWorkersAiClient(env, {
+      meter: new AiUsageService(env).meter({ ...usage, feature: 'intake_enrichment' }),
+    });
   } catch {
     return null;
   }
@@ -1107,8 +1166,8 @@ export async function handleSubmitIntake(
     : [];
 
   const [intakeTitle, enrichedData] = await Promise.all([
-    generateIntakeTitle(env, draft, intake, transcriptSummary),
-    generateIntakeEnrichment(env, draft, intake, transcriptSummary, practiceServiceNames),
+    generateIntakeTitle(env, { practiceId, conversationId }, draft, intake, transcriptSummary),
+    generateIntakeEnrichment(env, { practiceId, conversationId }, draft, intake, transcriptSummary, practiceServiceNames),
   ]);
 
   await persistConversationIntakeTitle(env, conversationId, intakeTitle);
@@ -1233,6 +1292,35 @@ export async function handleSubmitIntake(
     requiresPayment: Boolean(payment_link_url),
   });
 
+  await runIntakeConflictCheck(env, {
+    practiceId,
+    conversationId,
+    intakeUuid,
+    title: intakeTitle,
+    clientName: draft.name,
+    opposingParty: intake?.opposingParty ?? null,
+    names: enrichedData?.conflict_check_names ?? [],
+  });
+
+  // Funnel: the submit step. Submissions from the submit_intake tool turn
+  // have already recorded it; recordSubmitStep skips those.
+  try {
+    await new IntakeEventService(env).recordSubmitStep({
+      conversationId,
+      practiceId,
+      templateSlug: resolveIntakeTemplateSlug(userInfo),
+      ...resolveIntakeExperimentAssignment(userInfo),
+    });
+  } catch (error) {
+    Logger.warn('intake.timeline.write_failed', {
+      conversationId,
+      practiceId,
+      provenance: 'intake_step',
+      funnelStep: 'submit',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
   return new Response(
     JSON.stringify({
       success: true,
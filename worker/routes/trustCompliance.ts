@@ -0,0 +1,67 @@
+/**
+ * /api/practice/:practiceId/trust-compliance[/evaluations]
+ *
+ * The practice's trust account rules and their evaluation log.
+ *
+ *   GET …/trust-compliance                                active rules (version 0 = defaults)
+ *   PUT …/trust-compliance                                save the next version (admin)
+ *   GET …/trust-compliance/evaluations?matterId=&limit=   every rule evaluation, newest first
+ *
+ * The rules themselves run on backend ledger events and staged assistant
+ * actions (see TrustComplianceService); nothing here evaluates them.
+ */
+import type { Env } from '../types.js';
+import { createSuccessResponse, HttpErrors } from '../errorHandler.js';
+import { requirePracticeMember } from '../middleware/auth.js';
+import { TrustComplianceService } from '../services/TrustComplianceService.js';
+import { SaveTrustCompliancePreferencesRequestSchema } from '../types/wire/trustCompliance.js';
+
+export const TRUST_COMPLIANCE_PATH_RE = /^\/api\/practice\/([^/]+)\/trust-compliance(\/evaluations)?$/;
+
+const decodePracticeId = (raw: string | undefined): string => {
+  try {
+    const value = decodeURIComponent(raw ?? '');
+    if (value) return value;
+  } catch {
+    // fall through
+  }
+  throw HttpErrors.badRequest('Practice ID required');
+};
+
+export async function handleTrustCompliance(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(TRUST_COMPLIANCE_PATH_RE);
+  if (!match) throw HttpErrors.notFound('Route not found');
+
+  const practiceId = decodePracticeId(match[1]);
+  const service = new TrustComplianceService(env);
+
+  if (match[2]) {
+    if (request.method !== 'GET') throw HttpErrors.methodNotAllowed('Method not allowed');
+    await requirePracticeMember(request, env, practiceId, 'paralegal');
+    const limit = Number(url.searchParams.get('limit'));
+    return createSuccessResponse(await service.listEvaluations(practiceId, {
+      matterId: url.searchParams.get('matterId'),
+      limit: Number.isFinite(limit) && limit > 0 ? limit : undefined,
+    }));
+  }
+
+  if (request.method === 'GET') {
+    await requirePracticeMember(request, env, practiceId, 'paralegal');
+    return createSuccessResponse(await service.getPreferences(practiceId));
+  }
+
+  if (request.method === 'PUT') {
+    const auth = await requirePracticeMember(request, env, practiceId, 'admin');
+    const raw = await request.json().catch(() => null) as unknown;
+    const parsed = SaveTrustCompliancePreferencesRequestSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw HttpErrors.badRequest(`Invalid trust rules: ${parsed.error.message}`);
+    }
+    // Someone has to receive replenishment requests and alerts.
+    const notifyUserIds = parsed.data.notifyUserIds.length > 0 ? parsed.data.notifyUserIds : [auth.user.id];
+    return createSuccessResponse(await service.savePreferences(practiceId, { ...parsed.data, notifyUserIds }, auth.user.id));
+  }
+
+  throw HttpErrors.methodNotAllowed('Method not allowed');
+}
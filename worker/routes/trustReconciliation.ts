@@ -0,0 +1,105 @@
+/**
+ * /api/practice/:practiceId/trust-reconciliation/*
+ *
+ * Bank statement import and matching for the trust account, and the
+ * monthly three-way reconciliation.
+ *
+ *   GET  …/statements            imported statements, newest first
+ *   POST …/statements            import an OFX/QFX/CSV statement (attorney)
+ *   GET  …/statements/:id        lines + ledger transactions still unmatched
+ *   PUT  …/lines/:id             match a line to a ledger transaction, or clear it (attorney)
+ *   GET  …/report?month=YYYY-MM  three-way reconciliation (defaults to last month)
+ *
+ * The PDF of the report goes through the reports pipeline as the
+ * `trust-reconciliation` report type.
+ */
+import type { Env } from '../types.js';
+import { createSuccessResponse, HttpErrors } from '../errorHandler.js';
+import { requirePracticeMember } from '../middleware/auth.js';
+import { buildForwardHeaders } from '../utils/intakeVisibility.js';
+import { BackendUnavailableError } from '../services/ReportService.js';
+import { TrustReconciliationService } from '../services/TrustReconciliationService.js';
+import { RECONCILIATION_MONTH_RE, previousMonth } from '../utils/trustReconciliation.js';
+import {
+  ImportBankStatementRequestSchema,
+  MatchBankLineRequestSchema,
+} from '../types/wire/trustReconciliation.js';
+
+export const TRUST_RECONCILIATION_PATH_RE =
+  /^\/api\/practice\/([^/]+)\/trust-reconciliation\/(statements|lines|report)(?:\/([^/]+))?$/;
+
+const decodeSegment = (raw: string | undefined, label: string): string => {
+  try {
+    const value = decodeURIComponent(raw ?? '');
+    if (value) return value;
+  } catch {
+    // fall through
+  }
+  throw HttpErrors.badRequest(`${label} required`);
+};
+
+export async function handleTrustReconciliation(request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const match = url.pathname.match(TRUST_RECONCILIATION_PATH_RE);
+  if (!match) throw HttpErrors.notFound('Route not found');
+
+  const practiceId = decodeSegment(match[1], 'Practice ID');
+  const resource = match[2];
+  const service = new TrustReconciliationService(env);
+  const headers = buildForwardHeaders(request);
+
+  try {
+    if (resource === 'statements' && !match[3]) {
+      if (request.method === 'GET') {
+        await requirePracticeMember(request, env, practiceId, 'paralegal');
+        return createSuccessResponse(await service.listStatements(practiceId));
+      }
+      if (request.method === 'POST') {
+        const auth = await requirePracticeMember(request, env, practiceId, 'attorney');
+        const raw = await request.json().catch(() => null) as unknown;
+        const parsed = ImportBankStatementRequestSchema.safeParse(raw);
+        if (!parsed.success) {
+          throw HttpErrors.badRequest(`Invalid bank statement: ${parsed.error.message}`);
+        }
+        return createSuccessResponse(await service.importStatement(practiceId, parsed.data, auth.user.id, headers));
+      }
+      throw HttpErrors.methodNotAllowed('Method not allowed');
+    }
+
+    if (resource === 'statements') {
+      if (request.method !== 'GET') throw HttpErrors.methodNotAllowed('Method not allowed');
+      await requirePracticeMember(request, env, practiceId, 'paralegal');
+      const statementId = decodeSegment(match[3], 'Statement ID');
+      return createSuccessResponse(await service.getStatementDetail(practiceId, statementId, headers));
+    }
+
+    if (resource === 'lines' && match[3]) {
+      if (request.method !== 'PUT') throw HttpErrors.methodNotAllowed('Method not allowed');
+      const auth = await requirePracticeMember(request, env, practiceId, 'attorney');
+      const raw = await request.json().catch(() => null) as unknown;
+      const parsed = MatchBankLineRequestSchema.safeParse(raw);
+      if (!parsed.success) {
+        throw HttpErrors.badRequest(`Invalid match: ${parsed.error.message}`);
+      }
+      const lineId = decodeSegment(match[3], 'Line ID');
+      return createSuccessResponse(
+        await service.matchLine(practiceId, lineId, parsed.data.transactionId, auth.user.id, headers),
+      );
+    }
+
+    if (resource === 'report' && !match[3]) {
+      if (request.method !== 'GET') throw HttpErrors.methodNotAllowed('Method not allowed');
+      await requirePracticeMember(request, env, practiceId, 'paralegal');
+      const month = url.searchParams.get('month') ?? previousMonth();
+      if (!RECONCILIATION_MONTH_RE.test(month)) throw HttpErrors.badRequest('month must be YYYY-MM');
+      return createSuccessResponse(await service.buildReport(practiceId, month, headers));
+    }
+  } catch (error) {
+    if (error instanceof BackendUnavailableError) {
+      throw HttpErrors.serviceUnavailable('The trust ledger is not available yet.');
+    }
+    throw error;
+  }
+
+  throw HttpErrors.notFound('Route not found');
+}
@@ -3,29 +3,37 @@ import { HttpErrors } from "../errorHandler.js";
 import { RemoteApiService } from "../services/RemoteApiService.js";
 import { Logger } from "../utils/logger.js";
 import { ConversationService } from "../services/ConversationService.js";
+import { IntakeExperimentService } from "../services/IntakeExperimentService.js";
 import {
   extractWidgetTokenFromRequest,
   getWidgetTokenTtlForSource,
   issueWidgetAuthToken,
   validateWidgetAuthToken,
 } from "../utils/widgetAuthToken.js";
+import {
+  assignIntakeVariant,
+  type IntakeExperimentAssignment,
+} from "../utils/intakeExperiments.js";
 import type { IntakeTemplate } from "../../src/shared/types/intake.js";
 import type { BackendIntakeTemplatePublic } from "../../src/shared/types/wire.js";
 import { STANDARD_FIELD_DEFINITIONS } from "../../src/shared/constants/intakeTemplates.js";
+import { isFieldConditionShape } from "../../src/shared/utils/fieldConditions.js";
+import { toIntakeFieldType } from "../../src/shared/utils/intakeFieldTypes.js";
 
 const asNonEmptyString = (value: unknown): string | null =>
   typeof value === "string" && value.trim().length > 0 ? value.trim() : null;
 
+const unwrapData = (payload: Record<string, unknown>): Record<string, unknown> =>
+  (payload.data &&
+  typeof payload.data === "object" &&
+  !Array.isArray(payload.data)
+    ? payload.data
+    : payload) as Record<string, unknown>;
+
 const isValidCondition = (
   value: unknown,
-): value is NonNullable<IntakeTemplate["fields"][number]["condition"]> => {
-  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
-  const candidate = value as Record<string, unknown>;
-  return (
-    typeof candidate.dependsOn === "string" &&
-    ["string", "boolean", "number"].includes(typeof candidate.value)
-  );
-};
+): value is NonNullable<IntakeTemplate["fields"][number]["condition"]> =>
+  isFieldConditionShape(value);
 
 const normalizeCrossSiteWidgetCookie = (
   cookie: string,
@@ -111,12 +119,12 @@ export async function handleWidgetBootstrap(
   const requestedTemplateSlug = asNonEmptyString(
     url.searchParams.get("template"),
   );
-  const getIntakeSettings = (async () => {
+  const fetchIntakeSettings = async (templateSlug: string | null) => {
     const res = await RemoteApiService.getPublicPracticeIntakeSettings(
       env,
       slug,
       request,
-      requestedTemplateSlug,
+      templateSlug,
     );
     if (!res.ok) {
       if (res.status === 404) {
@@ -134,7 +142,8 @@ export async function handleWidgetBootstrap(
         `[Bootstrap] Failed to parse JSON from upstream intake settings: ${parseErr instanceof Error ? parseErr.message : String(parseErr)}`,
       );
     }
-  })();
+  };
+  const getIntakeSettings = fetchIntakeSettings(requestedTemplateSlug);
 
   // 2. Manage Session (Check session, if none, do anon sign-in)
   let responseCookies: string[] = [];
@@ -326,20 +335,8 @@ export async function handleWidgetBootstrap(
     string,
     unknown
   >;
-  const pd = (
-    practiceDetails.data &&
-    typeof practiceDetails.data === "object" &&
-    !Array.isArray(practiceDetails.data)
-      ? practiceDetails.data
-      : practiceDetails
-  ) as Record<string, unknown>;
-  const intakeData = (
-    intakeSettingsPayload.data &&
-    typeof intakeSettingsPayload.data === "object" &&
-    !Array.isArray(intakeSettingsPayload.data)
-      ? intakeSettingsPayload.data
-      : intakeSettingsPayload
-  ) as Record<string, unknown>;
+  const pd = unwrapData(practiceDetails);
+  const intakeData = unwrapData(intakeSettingsPayload);
   const practiceId = asNonEmptyString(pd.id);
   if (!practiceId) {
     throw HttpErrors.badGateway(
@@ -425,7 +422,7 @@ export async function handleWidgetBootstrap(
   // If absent or null the practice has no published template — fail fast
   // so the root cause is fixed upstream rather than masked here.
   // ------------------------------------------------------------------
-  const rawIntakeTemplate = intakeData.intake_template as
+  let rawIntakeTemplate = intakeData.intake_template as
     | BackendIntakeTemplatePublic
     | null
     | undefined;
@@ -435,6 +432,59 @@ export async function handleWidgetBootstrap(
     );
   }
 
+  // 5b. Intake experiment. Anonymous sessions on the default flow are split
+  // across the running experiment's variants by hashing the widget session
+  // id; an explicit ?template= embed always gets the template it asked for.
+  // Variants are checked as published when the experiment starts; a template
+  // unpublished since falls back to the default without an assignment, so it
+  // never blocks the widget. The assignment itself is stamped by
+  // POST /api/conversations, which only counts sessions served the variant.
+  let intakeExperiment: IntakeExperimentAssignment | null = null;
+  if (!requestedTemplateSlug && isAnonymous && sessionId) {
+    try {
+      const experiment = await new IntakeExperimentService(env).getRunning(
+        practiceId,
+      );
+      if (experiment && experiment.variants.length > 0) {
+        const variant = await assignIntakeVariant(experiment, sessionId);
+        let variantTemplate: BackendIntakeTemplatePublic | null =
+          rawIntakeTemplate;
+        if (variant.templateSlug !== rawIntakeTemplate.slug) {
+          const variantData = unwrapData(
+            (await fetchIntakeSettings(variant.templateSlug)) as Record<
+              string,
+              unknown
+            >,
+          );
+          variantTemplate =
+            (variantData.intake_template as
+              | BackendIntakeTemplatePublic
+              | null
+              | undefined) ?? null;
+        }
+        if (variantTemplate?.slug === variant.templateSlug) {
+          rawIntakeTemplate = variantTemplate;
+          intakeExperiment = {
+            experimentId: experiment.id,
+            variantKey: variant.key,
+          };
+        } else {
+          Logger.warn("intake.experiment.variant_unavailable", {
+            practiceId,
+            experimentId: experiment.id,
+            variantKey: variant.key,
+            templateSlug: variant.templateSlug,
+          });
+        }
+      }
+    } catch (err) {
+      Logger.warn("intake.experiment.assignment_failed", {
+        practiceId,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
   // Normalise backend shape → app IntakeTemplate (same logic as intakeTemplatesApi.ts edge)
   // ?service=<uuid> from the widget embed URL — pre-seeds practiceServiceUuid so
   // the AI skips asking for it on turn 1 and field conditions evaluate correctly.
@@ -465,13 +515,8 @@ export async function handleWidgetBootstrap(
         return {
           key: f.key,
           label: f.label,
-          type: (f.field_type === "textarea" ||
-          f.field_type === "email" ||
-          f.field_type === "phone"
-            ? "text"
-            : f.field_type === "multiselect"
-              ? "select"
-              : f.field_type) as IntakeTemplate["fields"][number]["type"],
+          type: toIntakeFieldType(f.field_type),
+          backendFieldType: f.field_type,
           required: f.required,
           phase: f.phase,
           isStandard: f.is_standard,
@@ -513,6 +558,7 @@ export async function handleWidgetBootstrap(
     widgetQueryAuthToken: widgetQueryAuth?.token ?? null,
     widgetQueryAuthTokenExpiresAt: widgetQueryAuth?.expiresAt ?? null,
     intakeTemplate,
+    intakeExperiment,
     preSelectedServiceUuid,
   };
 
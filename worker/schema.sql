@@ -185,7 +185,7 @@ CREATE TABLE IF NOT EXISTS practice_assistant_actions (
   created_by_user_id TEXT NOT NULL,
   tool_use_id TEXT NOT NULL,
   tool_name TEXT NOT NULL,
-  status TEXT NOT NULL CHECK (status IN ('pending', 'approved', 'rejected', 'executed', 'failed')),
+  status TEXT NOT NULL CHECK (status IN ('pending', 'approved', 'rejected', 'executed', 'failed', 'expired')),
   approval_summary_json TEXT NOT NULL,
   payload_json TEXT NOT NULL,
   result_json TEXT,
@@ -193,7 +193,12 @@ CREATE TABLE IF NOT EXISTS practice_assistant_actions (
   created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
   approved_at TEXT,
   rejected_at TEXT,
-  executed_at TEXT
+  executed_at TEXT,
+  -- Policy snapshot taken when the action was staged (version 0 = built-in default)
+  policy_version INTEGER NOT NULL DEFAULT 0,
+  approval_requirement_json TEXT,
+  expires_at TEXT,
+  expired_at TEXT
 );
 
 CREATE INDEX IF NOT EXISTS idx_practice_assistant_actions_practice_status
@@ -202,6 +207,37 @@ ON practice_assistant_actions(practice_id, status, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_practice_assistant_actions_conversation
 ON practice_assistant_actions(conversation_id, created_at DESC);
 
+CREATE INDEX IF NOT EXISTS idx_practice_assistant_actions_expiry
+ON practice_assistant_actions(status, expires_at);
+
+-- Versioned approval policies; the highest version per practice is active
+CREATE TABLE IF NOT EXISTS practice_assistant_approval_policies (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  rules_json TEXT NOT NULL,
+  pending_ttl_hours INTEGER NOT NULL DEFAULT 72,
+  created_by_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (practice_id, version)
+);
+
+-- Approve / reject / comment trail for staged actions
+CREATE TABLE IF NOT EXISTS practice_assistant_action_approvals (
+  id TEXT PRIMARY KEY,
+  action_id TEXT NOT NULL,
+  practice_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  member_role TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approve', 'reject', 'comment')),
+  comment TEXT,
+  policy_version INTEGER NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_assistant_action_approvals_action
+ON practice_assistant_action_approvals(action_id, created_at);
+
 
 -- ========================================
 -- DEFAULT PRACTICE
@@ -227,7 +263,10 @@ CREATE TABLE IF NOT EXISTS chat_messages (
   created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
   seq INTEGER NOT NULL,
   client_id TEXT NOT NULL,
-  server_ts TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  server_ts TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  edited_at TEXT,
+  deleted_at TEXT,
+  deleted_by TEXT
 );
 
 -- Sample data removed - organizations are managed by remote API
@@ -283,6 +322,21 @@ CREATE TABLE IF NOT EXISTS chat_message_reactions (
 
 CREATE INDEX IF NOT EXISTS idx_chat_message_reactions_message ON chat_message_reactions(message_id);
 
+-- Edit/delete history for chat messages (prior content per change)
+CREATE TABLE IF NOT EXISTS chat_message_edits (
+  id TEXT PRIMARY KEY,
+  message_id TEXT NOT NULL,
+  conversation_id TEXT NOT NULL,
+  practice_id TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'delete')),
+  actor_user_id TEXT NOT NULL,
+  previous_content TEXT NOT NULL,
+  previous_metadata TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_chat_message_edits_message ON chat_message_edits(message_id, created_at);
+
 -- Session audit events table (now uses conversation_id instead of session_id)
 -- Note: Table name kept as session_audit_events for backward compatibility
 -- but it now tracks conversation events, not session events
@@ -306,6 +360,8 @@ CREATE INDEX IF NOT EXISTS idx_session_audit_events_practice ON session_audit_ev
 -- mode resolution trace, user message, model request/response, tool calls/results,
 -- and failure reason. Provenance is closed-enum (CHECK constraint) so new tags
 -- require a schema change rather than a free-text addition.
+-- template_slug + funnel_step feed the per-template intake funnel analytics;
+-- 'intake_step' rows mark the disclaimer and contact steps.
 CREATE TABLE IF NOT EXISTS intake_events (
   id TEXT PRIMARY KEY,
   conversation_id TEXT NOT NULL,
@@ -317,7 +373,8 @@ CREATE TABLE IF NOT EXISTS intake_events (
     'safety_rail.legal_disclaimer',
     'ai_failure',
     'submit_intake',
-    'mode_unresolved'
+    'mode_unresolved',
+    'intake_step'
   )),
   mode_resolution_json TEXT,
   user_message TEXT,
@@ -327,6 +384,10 @@ CREATE TABLE IF NOT EXISTS intake_events (
   tool_results_json TEXT,
   failure_reason TEXT,
   created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  template_slug TEXT,
+  funnel_step TEXT CHECK (funnel_step IS NULL OR funnel_step IN ('disclaimer', 'contact', 'case', 'submit')),
+  experiment_id TEXT,
+  experiment_variant TEXT,
   UNIQUE (conversation_id, turn_seq)
 );
 
@@ -339,6 +400,244 @@ CREATE INDEX IF NOT EXISTS idx_intake_events_practice_created
 CREATE INDEX IF NOT EXISTS idx_intake_events_provenance
   ON intake_events(provenance, created_at DESC);
 
+CREATE INDEX IF NOT EXISTS idx_intake_events_practice_template
+  ON intake_events(practice_id, template_slug, conversation_id);
+
+CREATE INDEX IF NOT EXISTS idx_intake_events_experiment
+  ON intake_events(experiment_id, conversation_id);
+
+-- A/B experiments across intake templates. variants_json is an ordered
+-- array of { key, templateSlug, weight }; the first variant is the control.
+CREATE TABLE IF NOT EXISTS intake_experiments (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'paused', 'completed')),
+  variants_json TEXT NOT NULL,
+  winner_variant TEXT,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  ended_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_intake_experiments_practice_status
+  ON intake_experiments(practice_id, status, created_at DESC);
+
+-- Conflict-of-interest checks. conflict_parties is the party index, rebuilt
+-- per source record; hits snapshot the evidence for each check and
+-- conflict_check_decisions is the append-only review trail.
+CREATE TABLE IF NOT EXISTS conflict_parties (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('client', 'matter', 'intake')),
+  source_id TEXT NOT NULL,
+  source_label TEXT,
+  party_role TEXT NOT NULL CHECK (party_role IN ('client', 'opposing_party', 'related_party', 'matter_participant')),
+  display_name TEXT NOT NULL,
+  normalized_name TEXT NOT NULL,
+  matter_id TEXT,
+  client_id TEXT,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (practice_id, source_type, source_id, party_role, normalized_name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_parties_source
+  ON conflict_parties(source_type, source_id);
+
+CREATE TABLE IF NOT EXISTS conflict_checks (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  intake_uuid TEXT,
+  conversation_id TEXT,
+  status TEXT NOT NULL CHECK (status IN ('clear', 'review_required', 'conflicted', 'insufficient_data')),
+  names_json TEXT NOT NULL,
+  truncated INTEGER NOT NULL DEFAULT 0,
+  created_by TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_checks_practice
+  ON conflict_checks(practice_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_checks_intake
+  ON conflict_checks(practice_id, intake_uuid, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS conflict_check_hits (
+  id TEXT PRIMARY KEY,
+  check_id TEXT NOT NULL,
+  practice_id TEXT NOT NULL,
+  query_name TEXT NOT NULL,
+  query_role TEXT NOT NULL,
+  party_id TEXT,
+  matched_name TEXT NOT NULL,
+  matched_role TEXT NOT NULL,
+  source_type TEXT NOT NULL,
+  source_id TEXT NOT NULL,
+  source_label TEXT,
+  matter_id TEXT,
+  client_id TEXT,
+  score REAL NOT NULL,
+  reasons_json TEXT NOT NULL,
+  adverse INTEGER NOT NULL DEFAULT 0,
+  decision TEXT NOT NULL DEFAULT 'pending' CHECK (decision IN ('pending', 'cleared', 'confirmed')),
+  decided_by TEXT,
+  decided_at TEXT,
+  decision_note TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_check_hits_check
+  ON conflict_check_hits(check_id, score DESC);
+
+CREATE TABLE IF NOT EXISTS conflict_check_decisions (
+  id TEXT PRIMARY KEY,
+  check_id TEXT NOT NULL,
+  hit_id TEXT NOT NULL,
+  practice_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  member_role TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('cleared', 'confirmed')),
+  previous_decision TEXT NOT NULL,
+  note TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_conflict_check_decisions_check
+  ON conflict_check_decisions(check_id, created_at);
+
+-- Trust compliance rules: versioned preferences (highest version active),
+-- latest per-matter balance from ledger events, and the append-only
+-- rule evaluation log kept for bar audits.
+CREATE TABLE IF NOT EXISTS trust_compliance_preferences (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  auto_replenish_enabled INTEGER NOT NULL DEFAULT 1,
+  auto_replenish_threshold_cents INTEGER NOT NULL,
+  alert_enabled INTEGER NOT NULL DEFAULT 1,
+  alert_threshold_cents INTEGER NOT NULL,
+  dual_approval_enabled INTEGER NOT NULL DEFAULT 0,
+  dual_approval_threshold_cents INTEGER NOT NULL,
+  lock_on_zero_enabled INTEGER NOT NULL DEFAULT 0,
+  notify_user_ids_json TEXT NOT NULL DEFAULT '[]',
+  created_by_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (practice_id, version)
+);
+
+CREATE TABLE IF NOT EXISTS trust_matter_balances (
+  practice_id TEXT NOT NULL,
+  matter_id TEXT NOT NULL,
+  client_id TEXT,
+  balance_cents INTEGER NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  last_transaction_id TEXT,
+  last_transaction_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  PRIMARY KEY (practice_id, matter_id)
+);
+
+CREATE TABLE IF NOT EXISTS trust_rule_evaluations (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  rule TEXT NOT NULL CHECK (rule IN ('auto_replenish', 'threshold_alert', 'dual_approval', 'lock_on_zero')),
+  outcome TEXT NOT NULL CHECK (outcome IN ('passed', 'triggered', 'blocked', 'disabled')),
+  subject_type TEXT NOT NULL CHECK (subject_type IN ('ledger_event', 'staged_action')),
+  subject_id TEXT NOT NULL,
+  matter_id TEXT,
+  client_id TEXT,
+  balance_cents INTEGER,
+  threshold_cents INTEGER,
+  preferences_version INTEGER NOT NULL,
+  detail_json TEXT NOT NULL DEFAULT '{}',
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_trust_rule_evaluations_practice
+  ON trust_rule_evaluations(practice_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_trust_rule_evaluations_matter
+  ON trust_rule_evaluations(practice_id, matter_id, created_at DESC);
+
+-- Trust reconciliation: imported bank statements and their lines, each
+-- matched to at most one trust ledger transaction.
+CREATE TABLE IF NOT EXISTS trust_bank_statements (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  account_label TEXT,
+  format TEXT NOT NULL CHECK (format IN ('ofx', 'qfx', 'csv')),
+  filename TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'USD',
+  period_start TEXT NOT NULL,
+  period_end TEXT NOT NULL,
+  opening_balance_cents INTEGER,
+  closing_balance_cents INTEGER NOT NULL,
+  content_sha256 TEXT NOT NULL,
+  imported_by_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (practice_id, content_sha256)
+);
+
+CREATE INDEX IF NOT EXISTS idx_trust_bank_statements_period
+  ON trust_bank_statements(practice_id, period_end DESC);
+
+CREATE TABLE IF NOT EXISTS trust_bank_statement_lines (
+  id TEXT PRIMARY KEY,
+  statement_id TEXT NOT NULL REFERENCES trust_bank_statements(id) ON DELETE CASCADE,
+  practice_id TEXT NOT NULL,
+  posted_at TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL,
+  description TEXT,
+  reference TEXT,
+  match_status TEXT NOT NULL DEFAULT 'unmatched' CHECK (match_status IN ('unmatched', 'auto', 'manual')),
+  matched_transaction_id TEXT,
+  matched_by_user_id TEXT,
+  matched_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_trust_bank_statement_lines_statement
+  ON trust_bank_statement_lines(statement_id, posted_at);
+
+CREATE INDEX IF NOT EXISTS idx_trust_bank_statement_lines_posted
+  ON trust_bank_statement_lines(practice_id, posted_at);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trust_bank_statement_lines_matched
+  ON trust_bank_statement_lines(practice_id, matched_transaction_id)
+  WHERE matched_transaction_id IS NOT NULL;
+
+-- AI usage: one row per metered model call, and versioned monthly token
+-- budgets per practice.
+CREATE TABLE IF NOT EXISTS ai_usage_events (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  feature TEXT NOT NULL,
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated INTEGER NOT NULL DEFAULT 0,
+  fallback INTEGER NOT NULL DEFAULT 0,
+  budget_status TEXT NOT NULL DEFAULT 'ok' CHECK (budget_status IN ('ok', 'soft_limit', 'hard_limit')),
+  conversation_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_events_practice_created
+  ON ai_usage_events(practice_id, created_at);
+
+CREATE TABLE IF NOT EXISTS ai_usage_budgets (
+  id TEXT PRIMARY KEY,
+  practice_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  soft_limit_tokens INTEGER,
+  hard_limit_tokens INTEGER,
+  fallback_model TEXT NOT NULL,
+  created_by_user_id TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  UNIQUE (practice_id, version)
+);
+
 -- Create indexes for files
 CREATE INDEX IF NOT EXISTS idx_files_practice ON files(practice_id);
 CREATE INDEX IF NOT EXISTS idx_files_user ON files(user_id);
@@ -384,10 +683,35 @@ CREATE TABLE IF NOT EXISTS notification_delivery_results (
   external_user_id TEXT,
   created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
 );
+
+CREATE TABLE IF NOT EXISTS email_suppressions (
+  email TEXT NOT NULL,
+  scope TEXT NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('bounce', 'complaint', 'unsubscribe')),
+  user_id TEXT,
+  detail TEXT,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  PRIMARY KEY (email, scope)
+);
+CREATE TABLE IF NOT EXISTS notification_holds (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  practice_id TEXT,
+  reason TEXT NOT NULL CHECK (reason IN ('quiet_hours', 'digest')),
+  category TEXT NOT NULL,
+  notification_type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  link TEXT,
+  push INTEGER NOT NULL DEFAULT 0 CHECK (push IN (0, 1)),
+  email TEXT,
+  release_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
 CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_destinations_provider_id ON notification_destinations(provider, onesignal_id);
 CREATE INDEX IF NOT EXISTS idx_notification_destinations_user ON notification_destinations(user_id, updated_at DESC);
 CREATE INDEX IF NOT EXISTS idx_notification_delivery_user_created ON notification_delivery_results(user_id, created_at DESC);
 CREATE INDEX IF NOT EXISTS idx_notification_delivery_notification ON notification_delivery_results(notification_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_holds_release ON notification_holds(release_at);
 
 -- Chat message integrity triggers
 CREATE TRIGGER IF NOT EXISTS trg_chat_messages_require_seq_client
@@ -0,0 +1,252 @@
+/**
+ * Per-practice AI usage metering and monthly budgets.
+ *
+ * Every model call the worker makes for a practice is appended to
+ * ai_usage_events with its feature, model and token counts (see
+ * utils/aiUsage.ts for how counts are read or estimated). Budgets are
+ * versioned and append-only (ai_usage_budgets), like trust compliance
+ * preferences.
+ *
+ * AI clients are metered through `meter()`: createWorkersAiClient asks it
+ * which model to call before each request and records the usage after.
+ */
+
+import type { Env } from '../types.js';
+import { HttpErrors } from '../errorHandler.js';
+import { Logger } from '../utils/logger.js';
+import {
+  DEFAULT_AI_USAGE_BUDGET,
+  decideAiModel,
+  evaluateAiBudget,
+  monthStartIso,
+  resolveAiFallbackModel,
+  type AiModelDecision,
+  type AiTokenUsage,
+  type AiUsageMeter,
+} from '../utils/aiUsage.js';
+import type {
+  AiBudgetStatus,
+  AiUsageBreakdownRow,
+  AiUsageBudget,
+  AiUsageFeature,
+  AiUsageSummary,
+  SaveAiUsageBudgetRequest,
+} from '../types/wire/aiUsage.js';
+
+type BudgetRow = {
+  version: number;
+  soft_limit_tokens: number | null;
+  hard_limit_tokens: number | null;
+  fallback_model: string;
+  created_by_user_id: string | null;
+  created_at: string;
+};
+
+type BreakdownRow = {
+  feature: AiUsageFeature;
+  model: string;
+  calls: number;
+  fallback_calls: number;
+  estimated_calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+};
+
+const toBudget = (row: BudgetRow): AiUsageBudget => ({
+  version: Number(row.version),
+  softLimitTokens: row.soft_limit_tokens === null ? null : Number(row.soft_limit_tokens),
+  hardLimitTokens: row.hard_limit_tokens === null ? null : Number(row.hard_limit_tokens),
+  // Budgets saved before the allowlist may name any model.
+  fallbackModel: resolveAiFallbackModel(row.fallback_model),
+  updatedBy: row.created_by_user_id,
+  updatedAt: row.created_at,
+});
+
+const toBreakdownRow = (row: BreakdownRow): AiUsageBreakdownRow => ({
+  feature: row.feature,
+  model: row.model,
+  calls: Number(row.calls),
+  fallbackCalls: Number(row.fallback_calls),
+  estimatedCalls: Number(row.estimated_calls),
+  inputTokens: Number(row.input_tokens),
+  outputTokens: Number(row.output_tokens),
+  totalTokens: Number(row.total_tokens),
+});
+
+export interface AiUsageContext {
+  practiceId: string;
+  feature: AiUsageFeature;
+  conversationId?: string | null;
+}
+
+export interface AiUsageRange {
+  startIso: string;
+  endIso: string;
+}
+
+export class AiUsageService {
+  constructor(private env: Env) {}
+
+  async getBudget(practiceId: string): Promise<AiUsageBudget> {
+    const row = await this.env.DB.prepare(`
+      SELECT version, soft_limit_tokens, hard_limit_tokens, fallback_model, created_by_user_id, created_at
+      FROM ai_usage_budgets
+      WHERE practice_id = ?
+      ORDER BY version DESC
+      LIMIT 1
+    `).bind(practiceId).first<BudgetRow>();
+    return row ? toBudget(row) : DEFAULT_AI_USAGE_BUDGET;
+  }
+
+  /** Stores `input` as the next version and returns it. */
+  async saveBudget(practiceId: string, input: SaveAiUsageBudgetRequest, userId: string): Promise<AiUsageBudget> {
+    const current = await this.getBudget(practiceId);
+    const budget: AiUsageBudget = {
+      ...input,
+      version: current.version + 1,
+      updatedBy: userId,
+      updatedAt: new Date().toISOString(),
+    };
+    try {
+      await this.env.DB.prepare(`
+        INSERT INTO ai_usage_budgets (
+          id, practice_id, version, soft_limit_tokens, hard_limit_tokens, fallback_model,
+          created_by_user_id, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        crypto.randomUUID(),
+        practiceId,
+        budget.version,
+        budget.softLimitTokens,
+        budget.hardLimitTokens,
+        budget.fallbackModel,
+        userId,
+        budget.updatedAt,
+      ).run();
+    } catch (error) {
+      // UNIQUE (practice_id, version): someone else saved the same version first.
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        throw HttpErrors.conflict('The AI budget was changed by someone else. Reload and try again.');
+      }
+      throw error;
+    }
+    return budget;
+  }
+
+  async getMonthToDateTokens(practiceId: string, now: Date = new Date()): Promise<number> {
+    const row = await this.env.DB.prepare(`
+      SELECT COALESCE(SUM(total_tokens), 0) AS total
+      FROM ai_usage_events
+      WHERE practice_id = ? AND created_at >= ?
+    `).bind(practiceId, monthStartIso(now)).first<{ total: number }>();
+    return Number(row?.total ?? 0);
+  }
+
+  /** The active budget and where the practice stands against it this month. */
+  async checkBudget(practiceId: string, now: Date = new Date()): Promise<{ budget: AiUsageBudget; status: AiBudgetStatus }> {
+    const budget = await this.getBudget(practiceId);
+    // No limits, nothing to count.
+    if (budget.softLimitTokens === null && budget.hardLimitTokens === null) return { budget, status: 'ok' };
+    return { budget, status: evaluateAiBudget(budget, await this.getMonthToDateTokens(practiceId, now)) };
+  }
+
+  async recordUsage(
+    context: AiUsageContext,
+    decision: AiModelDecision,
+    usage: AiTokenUsage,
+    estimated: boolean,
+  ): Promise<void> {
+    await this.env.DB.prepare(`
+      INSERT INTO ai_usage_events (
+        id, practice_id, feature, model, input_tokens, output_tokens, total_tokens,
+        estimated, fallback, budget_status, conversation_id, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      crypto.randomUUID(),
+      context.practiceId,
+      context.feature,
+      decision.model,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.inputTokens + usage.outputTokens,
+      estimated ? 1 : 0,
+      decision.fallback ? 1 : 0,
+      decision.status,
+      context.conversationId ?? null,
+      new Date().toISOString(),
+    ).run();
+  }
+
+  /** Usage in `range` grouped by feature and model, heaviest first. */
+  async listBreakdown(practiceId: string, range: AiUsageRange): Promise<AiUsageBreakdownRow[]> {
+    const result = await this.env.DB.prepare(`
+      SELECT feature, model,
+             COUNT(*) AS calls,
+             SUM(fallback) AS fallback_calls,
+             SUM(estimated) AS estimated_calls,
+             SUM(input_tokens) AS input_tokens,
+             SUM(output_tokens) AS output_tokens,
+             SUM(total_tokens) AS total_tokens
+      FROM ai_usage_events
+      WHERE practice_id = ? AND created_at BETWEEN ? AND ?
+      GROUP BY feature, model
+      ORDER BY total_tokens DESC, feature, model
+    `).bind(practiceId, range.startIso, range.endIso).all<BreakdownRow>();
+    return (result.results ?? []).map(toBreakdownRow);
+  }
+
+  async getSummary(practiceId: string, range: AiUsageRange | null, now: Date = new Date()): Promise<AiUsageSummary> {
+    const monthStart = monthStartIso(now);
+    const resolved = range ?? { startIso: monthStart, endIso: now.toISOString() };
+    const [budget, monthToDateTokens, breakdown] = await Promise.all([
+      this.getBudget(practiceId),
+      this.getMonthToDateTokens(practiceId, now),
+      this.listBreakdown(practiceId, resolved),
+    ]);
+    return {
+      budget,
+      status: evaluateAiBudget(budget, monthToDateTokens),
+      monthToDateTokens,
+      monthStart,
+      from: resolved.startIso,
+      to: resolved.endIso,
+      breakdown,
+    };
+  }
+
+  /**
+   * A meter for one AI client. The budget is read once, on the first call,
+   * so a multi-request feature (tool loops, retries) stays on one model.
+   */
+  meter(context: AiUsageContext): AiUsageMeter {
+    let check: Promise<{ budget: AiUsageBudget; status: AiBudgetStatus }> | null = null;
+    return {
+      resolveModel: async (requested) => {
+        check ??= this.checkBudget(context.practiceId).catch((error: unknown) => {
+          // Metering must never take an AI feature down with it.
+          Logger.warn('AI budget check failed; allowing the call', {
+            practiceId: context.practiceId,
+            feature: context.feature,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          return { budget: DEFAULT_AI_USAGE_BUDGET, status: 'ok' as const };
+        });
+        const { budget, status } = await check;
+        return decideAiModel(requested, budget, status);
+      },
+      record: async (decision, usage, estimated) => {
+        try {
+          await this.recordUsage(context, decision, usage, estimated);
+        } catch (error) {
+          Logger.warn('Failed to record AI usage', {
+            practiceId: context.practiceId,
+            feature: context.feature,
+            model: decision.model,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      },
+    };
+  }
+}
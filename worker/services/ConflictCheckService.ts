@@ -0,0 +1,533 @@
+/**
+ * D1-backed conflict-of-interest index and checks.
+ *
+ * The index (conflict_parties) is fed from the same entity stream as search:
+ * client, matter and intake upserts from the search index queue and the
+ * backfill, plus each intake the worker submits. A check scores the names
+ * from an intake against every indexed party (see utils/conflictMatching.ts),
+ * snapshots the hits as evidence and rolls them up into the engagement
+ * `conflict_status` vocabulary. Attorneys then clear or confirm each hit;
+ * every decision is appended to conflict_check_decisions and the status is
+ * recomputed. Engagement creates that pass through the backend proxy take
+ * the intake's latest status (withIntakeConflictStatus), so engagements
+ * don't start `unknown` just because they were created outside the
+ * engagement workbench.
+ */
+
+import type { Env } from '../types.js';
+import type { SearchEntityType, SearchIndexPayload } from '../types/search.js';
+import { HttpErrors } from '../errorHandler.js';
+import {
+  deriveConflictStatus,
+  findConflictHits,
+  parseName,
+  type IndexedParty,
+} from '../utils/conflictMatching.js';
+import type {
+  ConflictCheck,
+  ConflictCheckStatus,
+  ConflictCheckSummary,
+  ConflictDecisionRecord,
+  ConflictHit,
+  ConflictHitDecision,
+  ConflictMatchReason,
+  ConflictPartyRole,
+  ConflictQueryName,
+  ConflictSourceType,
+} from '../types/wire/conflictCheck.js';
+
+// Parties scored per check, newest first. Matching is in memory; a practice
+// with more parties gets a `truncated` check that is never reported clear.
+const MAX_INDEXED_PARTIES = 20000;
+const MAX_LISTED_CHECKS = 100;
+
+export interface ConflictSource {
+  type: ConflictSourceType;
+  id: string;
+  /** Shown next to hits, e.g. the matter title. */
+  label: string | null;
+  matterId: string | null;
+  clientId: string | null;
+}
+
+export interface ConflictSourceParty {
+  name: string;
+  role: ConflictPartyRole;
+}
+
+type PartyRow = {
+  id: string;
+  source_type: ConflictSourceType;
+  source_id: string;
+  source_label: string | null;
+  party_role: ConflictPartyRole;
+  display_name: string;
+  matter_id: string | null;
+  client_id: string | null;
+};
+
+type IndexedPartyRecord = IndexedParty & {
+  sourceType: ConflictSourceType;
+  sourceId: string;
+  sourceLabel: string | null;
+  matterId: string | null;
+  clientId: string | null;
+};
+
+type CheckRow = {
+  id: string;
+  practice_id: string;
+  intake_uuid: string | null;
+  conversation_id: string | null;
+  status: ConflictCheckStatus;
+  names_json: string;
+  truncated: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  hit_count?: number | null;
+  pending_count?: number | null;
+};
+
+type HitRow = {
+  id: string;
+  query_name: string;
+  query_role: ConflictPartyRole;
+  matched_name: string;
+  matched_role: ConflictPartyRole;
+  source_type: ConflictSourceType;
+  source_id: string;
+  source_label: string | null;
+  matter_id: string | null;
+  client_id: string | null;
+  score: number;
+  reasons_json: string;
+  adverse: number;
+  decision: ConflictHitDecision;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+};
+
+type DecisionRow = {
+  id: string;
+  hit_id: string;
+  user_id: string;
+  member_role: string;
+  decision: 'cleared' | 'confirmed';
+  previous_decision: ConflictHitDecision;
+  note: string;
+  created_at: string;
+};
+
+const SELECT_CHECK = `
+  SELECT c.id, c.practice_id, c.intake_uuid, c.conversation_id, c.status, c.names_json, c.truncated,
+         c.created_by, c.created_at, c.updated_at,
+         (SELECT COUNT(*) FROM conflict_check_hits h WHERE h.check_id = c.id) AS hit_count,
+         (SELECT COUNT(*) FROM conflict_check_hits h WHERE h.check_id = c.id AND h.decision = 'pending') AS pending_count
+    FROM conflict_checks c`;
+
+const parseJsonArray = <T>(json: string): T[] => {
+  try {
+    const parsed = JSON.parse(json) as unknown;
+    return Array.isArray(parsed) ? parsed as T[] : [];
+  } catch {
+    return [];
+  }
+};
+
+const toSummary = (row: CheckRow): ConflictCheckSummary => ({
+  id: row.id,
+  practiceId: row.practice_id,
+  intakeUuid: row.intake_uuid,
+  conversationId: row.conversation_id,
+  status: row.status,
+  names: parseJsonArray<ConflictQueryName>(row.names_json),
+  truncated: Boolean(row.truncated),
+  hitCount: Number(row.hit_count) || 0,
+  pendingCount: Number(row.pending_count) || 0,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+const toHit = (row: HitRow): ConflictHit => ({
+  id: row.id,
+  queryName: row.query_name,
+  queryRole: row.query_role,
+  matchedName: row.matched_name,
+  matchedRole: row.matched_role,
+  sourceType: row.source_type,
+  sourceId: row.source_id,
+  sourceLabel: row.source_label,
+  matterId: row.matter_id,
+  clientId: row.client_id,
+  score: Number(row.score) || 0,
+  reasons: parseJsonArray<ConflictMatchReason>(row.reasons_json),
+  adverse: Boolean(row.adverse),
+  decision: row.decision,
+  decidedBy: row.decided_by,
+  decidedAt: row.decided_at,
+  decisionNote: row.decision_note,
+});
+
+const toDecision = (row: DecisionRow): ConflictDecisionRecord => ({
+  id: row.id,
+  hitId: row.hit_id,
+  userId: row.user_id,
+  memberRole: row.member_role,
+  decision: row.decision,
+  previousDecision: row.previous_decision,
+  note: row.note,
+  createdAt: row.created_at,
+});
+
+const asRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+const readString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const readNames = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.split(/[;\n]/).map((name) => name.trim()).filter(Boolean);
+  if (!Array.isArray(value)) return [];
+  return value
+    .map((entry) => (typeof entry === 'string' ? readString(entry) : null))
+    .filter((name): name is string => name !== null);
+};
+
+/**
+ * The source record and parties a search index payload contributes to the
+ * conflict index, or null for entity types that carry no parties.
+ * Matter and intake payloads carry party names in metadata (see
+ * normalizeForIndex).
+ */
+export const conflictPartiesFromSearchPayload = (
+  entityType: SearchEntityType,
+  entityId: string,
+  payload: SearchIndexPayload,
+): { source: ConflictSource; parties: ConflictSourceParty[] } | null => {
+  const metadata = payload.metadata ?? {};
+  const parties: ConflictSourceParty[] = [];
+  const add = (names: string[], role: ConflictPartyRole) => {
+    for (const name of names) parties.push({ name, role });
+  };
+
+  switch (entityType) {
+    case 'client':
+      // normalizeClient falls back to the placeholder title 'Client' when the record has no name.
+      add(readNames(metadata.clientName).filter((name) => name !== 'Client'), 'client');
+      return {
+        source: { type: 'client', id: entityId, label: payload.title, matterId: null, clientId: entityId },
+        parties,
+      };
+    case 'matter':
+      add(readNames(metadata.clientName), 'client');
+      add(readNames(metadata.opposingParties), 'opposing_party');
+      add(readNames(metadata.relatedParties), 'related_party');
+      add(readNames(metadata.participants), 'matter_participant');
+      return {
+        source: {
+          type: 'matter',
+          id: entityId,
+          label: payload.title,
+          matterId: entityId,
+          clientId: payload.clientId ?? null,
+        },
+        parties,
+      };
+    case 'intake':
+      add(readNames(metadata.clientName), 'client');
+      add(readNames(metadata.opposingParty), 'opposing_party');
+      add(readNames(metadata.relatedParties), 'related_party');
+      return {
+        source: { type: 'intake', id: entityId, label: payload.title, matterId: null, clientId: payload.clientId ?? null },
+        parties,
+      };
+    default:
+      return null;
+  }
+};
+
+export class ConflictCheckService {
+  constructor(private env: Env) {}
+
+  /** Replace everything indexed from one source record. Parties are listed most significant role first. */
+  async indexSource(practiceId: string, source: ConflictSource, parties: ConflictSourceParty[]): Promise<void> {
+    const now = new Date().toISOString();
+    const seen = new Set<string>();
+    const statements = [
+      this.env.DB.prepare('DELETE FROM conflict_parties WHERE practice_id = ? AND source_type = ? AND source_id = ?')
+        .bind(practiceId, source.type, source.id),
+    ];
+    for (const party of parties) {
+      const parsed = parseName(party.name);
+      if (!parsed) continue;
+      // A name listed under several roles keeps the first (client before opposing party before related).
+      if (seen.has(parsed.normalized)) continue;
+      seen.add(parsed.normalized);
+      statements.push(this.env.DB.prepare(
+        `INSERT INTO conflict_parties (
+           id, practice_id, source_type, source_id, source_label, party_role,
+           display_name, normalized_name, matter_id, client_id, updated_at
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ).bind(
+        crypto.randomUUID(),
+        practiceId,
+        source.type,
+        source.id,
+        source.label,
+        party.role,
+        party.name.trim(),
+        parsed.normalized,
+        source.matterId,
+        source.clientId,
+        now,
+      ));
+    }
+    await this.env.DB.batch(statements);
+  }
+
+  async removeSource(practiceId: string, type: ConflictSourceType, id: string): Promise<void> {
+    await this.env.DB.prepare('DELETE FROM conflict_parties WHERE practice_id = ? AND source_type = ? AND source_id = ?')
+      .bind(practiceId, type, id)
+      .run();
+  }
+
+  /**
+   * Search `names` against the index and store the result. Parties indexed
+   * from `exclude` (normally the intake being checked) are skipped so an
+   * intake never conflicts with itself.
+   */
+  async run(
+    practiceId: string,
+    input: {
+      names: ConflictQueryName[];
+      intakeUuid?: string | null;
+      conversationId?: string | null;
+      createdBy?: string | null;
+      exclude?: { type: ConflictSourceType; id: string } | null;
+    },
+  ): Promise<ConflictCheck> {
+    const { parties, truncated } = await this.loadParties(practiceId, input.exclude ?? null);
+    const hits = findConflictHits(input.names, parties);
+    const status = deriveConflictStatus(
+      input.names.length,
+      hits.map((hit) => ({ ...hit, decision: 'pending' as const })),
+      truncated,
+    );
+
+    const checkId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    const statements = [
+      this.env.DB.prepare(
+        `INSERT INTO conflict_checks (
+           id, practice_id, intake_uuid, conversation_id, status, names_json, truncated, created_by, created_at, updated_at
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ).bind(
+        checkId,
+        practiceId,
+        input.intakeUuid ?? null,
+        input.conversationId ?? null,
+        status,
+        JSON.stringify(input.names),
+        truncated ? 1 : 0,
+        input.createdBy ?? null,
+        now,
+        now,
+      ),
+      ...hits.map((hit) => this.env.DB.prepare(
+        `INSERT INTO conflict_check_hits (
+           id, check_id, practice_id, query_name, query_role, party_id, matched_name, matched_role,
+           source_type, source_id, source_label, matter_id, client_id, score, reasons_json, adverse
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ).bind(
+        crypto.randomUUID(),
+        checkId,
+        practiceId,
+        hit.query.name,
+        hit.query.role,
+        hit.party.id,
+        hit.party.name,
+        hit.party.role,
+        hit.party.sourceType,
+        hit.party.sourceId,
+        hit.party.sourceLabel,
+        hit.party.matterId,
+        hit.party.clientId,
+        hit.score,
+        JSON.stringify(hit.reasons),
+        hit.adverse ? 1 : 0,
+      )),
+    ];
+    await this.env.DB.batch(statements);
+
+    const created = await this.get(practiceId, checkId);
+    if (!created) throw HttpErrors.internalServerError('Conflict check was not stored');
+    return created;
+  }
+
+  /** Newest first. */
+  async list(
+    practiceId: string,
+    filters: { intakeUuid?: string | null; status?: ConflictCheckStatus | null; limit?: number } = {},
+  ): Promise<ConflictCheckSummary[]> {
+    const where = ['c.practice_id = ?'];
+    const bindings: unknown[] = [practiceId];
+    if (filters.intakeUuid) {
+      where.push('c.intake_uuid = ?');
+      bindings.push(filters.intakeUuid);
+    }
+    if (filters.status) {
+      where.push('c.status = ?');
+      bindings.push(filters.status);
+    }
+    const limit = Math.min(Math.max(1, filters.limit ?? MAX_LISTED_CHECKS), MAX_LISTED_CHECKS);
+    const rows = await this.env.DB.prepare(
+      `${SELECT_CHECK} WHERE ${where.join(' AND ')} ORDER BY c.created_at DESC, c.id DESC LIMIT ?`,
+    )
+      .bind(...bindings, limit)
+      .all<CheckRow>();
+    return (rows.results ?? []).map(toSummary);
+  }
+
+  async get(practiceId: string, checkId: string): Promise<ConflictCheck | null> {
+    const row = await this.env.DB.prepare(`${SELECT_CHECK} WHERE c.practice_id = ? AND c.id = ?`)
+      .bind(practiceId, checkId)
+      .first<CheckRow>();
+    if (!row) return null;
+
+    const [hits, decisions] = await Promise.all([
+      this.env.DB.prepare(
+        `SELECT id, query_name, query_role, matched_name, matched_role, source_type, source_id,
+                source_label, matter_id, client_id, score, reasons_json, adverse, decision,
+                decided_by, decided_at, decision_note
+           FROM conflict_check_hits
+          WHERE check_id = ?
+          ORDER BY adverse DESC, score DESC, id`,
+      ).bind(checkId).all<HitRow>(),
+      this.env.DB.prepare(
+        `SELECT id, hit_id, user_id, member_role, decision, previous_decision, note, created_at
+           FROM conflict_check_decisions
+          WHERE check_id = ?
+          ORDER BY created_at, id`,
+      ).bind(checkId).all<DecisionRow>(),
+    ]);
+
+    return {
+      ...toSummary(row),
+      hits: (hits.results ?? []).map(toHit),
+      decisions: (decisions.results ?? []).map(toDecision),
+    };
+  }
+
+  /**
+   * Clear or confirm one hit, append the decision to the trail and
+   * recompute the check status. A decision may be revised; the trail keeps
+   * every step.
+   */
+  async decide(
+    practiceId: string,
+    checkId: string,
+    hitId: string,
+    input: { decision: 'cleared' | 'confirmed'; note: string; userId: string; memberRole: string },
+  ): Promise<ConflictCheck> {
+    const check = await this.get(practiceId, checkId);
+    if (!check) throw HttpErrors.notFound('Conflict check not found');
+    const hit = check.hits.find((candidate) => candidate.id === hitId);
+    if (!hit) throw HttpErrors.notFound('Conflict hit not found');
+
+    const now = new Date().toISOString();
+    const status = deriveConflictStatus(
+      check.names.length,
+      check.hits.map((candidate) => (candidate.id === hitId ? { ...candidate, decision: input.decision } : candidate)),
+      check.truncated,
+    );
+
+    await this.env.DB.batch([
+      this.env.DB.prepare(
+        `UPDATE conflict_check_hits
+            SET decision = ?, decided_by = ?, decided_at = ?, decision_note = ?
+          WHERE id = ? AND check_id = ?`,
+      ).bind(input.decision, input.userId, now, input.note, hitId, checkId),
+      this.env.DB.prepare(
+        `INSERT INTO conflict_check_decisions (
+           id, check_id, hit_id, practice_id, user_id, member_role, decision, previous_decision, note, created_at
+         ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      ).bind(
+        crypto.randomUUID(),
+        checkId,
+        hitId,
+        practiceId,
+        input.userId,
+        input.memberRole,
+        input.decision,
+        hit.decision,
+        input.note,
+        now,
+      ),
+      this.env.DB.prepare('UPDATE conflict_checks SET status = ?, updated_at = ? WHERE id = ? AND practice_id = ?')
+        .bind(status, now, checkId, practiceId),
+    ]);
+
+    const updated = await this.get(practiceId, checkId);
+    if (!updated) throw HttpErrors.notFound('Conflict check not found');
+    return updated;
+  }
+
+  /** The newest MAX_INDEXED_PARTIES parties, and whether older ones were left out. */
+  /**
+   * An engagement create body with `proposal_data.risk_review.conflict_status`
+   * set from the intake's latest check. Null — forward the body as is — when
+   * it names no intake, already carries a status other than `unknown`, or no
+   * check has run for the intake.
+   */
+  async withIntakeConflictStatus(practiceId: string, body: unknown): Promise<Record<string, unknown> | null> {
+    const record = asRecord(body);
+    const intakeUuid = readString(record?.intake_id);
+    if (!record || !intakeUuid) return null;
+    const proposalData = asRecord(record.proposal_data) ?? {};
+    const riskReview = asRecord(proposalData.risk_review) ?? {};
+    const current = readString(riskReview.conflict_status);
+    if (current && current !== 'unknown') return null;
+
+    const [latest] = await this.list(practiceId, { intakeUuid, limit: 1 });
+    if (!latest) return null;
+    return {
+      ...record,
+      proposal_data: {
+        ...proposalData,
+        risk_review: { ...riskReview, conflict_status: latest.status },
+      },
+    };
+  }
+
+  /** The newest MAX_INDEXED_PARTIES parties, and whether older ones were left out. */
+  private async loadParties(
+    practiceId: string,
+    exclude: { type: ConflictSourceType; id: string } | null,
+  ): Promise<{ parties: IndexedPartyRecord[]; truncated: boolean }> {
+    const rows = await this.env.DB.prepare(
+      `SELECT id, source_type, source_id, source_label, party_role, display_name, matter_id, client_id
+         FROM conflict_parties
+        WHERE practice_id = ?
+          AND NOT (source_type = ? AND source_id = ?)
+        ORDER BY updated_at DESC
+        LIMIT ?`,
+    )
+      .bind(practiceId, exclude?.type ?? '', exclude?.id ?? '', MAX_INDEXED_PARTIES + 1)
+      .all<PartyRow>();
+    const results = rows.results ?? [];
+    const parties = results.slice(0, MAX_INDEXED_PARTIES).map((row) => ({
+      id: row.id,
+      name: row.display_name,
+      role: row.party_role,
+      sourceType: row.source_type,
+      sourceId: row.source_id,
+      sourceLabel: row.source_label,
+      matterId: row.matter_id,
+      clientId: row.client_id,
+    }));
+    return { parties, truncated: results.length > MAX_INDEXED_PARTIES };
+  }
+}
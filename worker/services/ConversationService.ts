@@ -1,8 +1,15 @@
+import type { D1Result } from '@cloudflare/workers-types';
 import type { Env, MessageReaction } from '../types.js';
 import { HttpErrors } from '../errorHandler.js';
 import { RemoteApiService } from './RemoteApiService.js';
 import { Logger } from '../utils/logger.js';
 import { SessionAuditService } from './SessionAuditService.js';
+import {
+  evaluateMessageMutation,
+  resolveMessageHistoryAccess,
+  type MessageMutationAction,
+  type MessageMutationActor,
+} from '../utils/messageMutationPolicy.js';
 import {
   applyConsultationPatchToMetadata,
   isIntakeReadyForSubmission,
@@ -10,6 +17,9 @@ import {
   resolveConsultationState,
 } from '../../src/shared/utils/consultationState';
 
+/** Longest user message content, whether sent over the ChatRoom socket or edited later. */
+export const MAX_MESSAGE_CONTENT_LENGTH = 4000;
+
 export type ConversationStatus = 'active' | 'archived' | 'closed';
 export type ConversationLifecycleStatus = 'pending_visibility' | 'visible' | 'archived';
 
@@ -82,9 +92,22 @@ export interface ConversationMessage {
   server_ts: string;
   token_count: number | null;
   created_at: string;
+  edited_at?: string | null;
+  deleted_at?: string | null;
   reactions?: MessageReaction[];
 }
 
+export interface ConversationMessageEdit {
+  id: string;
+  message_id: string;
+  action: MessageMutationAction;
+  actor_user_id: string;
+  /** Null when withheld from a non-staff viewer because the message was deleted. */
+  previous_content: string | null;
+  previous_metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
 export interface CreateConversationOptions {
   practiceId: string;
   userId: string;
@@ -1671,6 +1694,8 @@ export class ConversationService {
      * Allow sending an empty system message (used for form-driven system messages).
      */
     allowEmptyContent?: boolean;
+    /** Model output tokens, when the message is an AI reply. */
+    tokenCount?: number | null;
     request?: Request;
   }): Promise<ConversationMessage> {
     const trimmedContent = typeof options.content === 'string' ? options.content.trim() : '';
@@ -1732,7 +1757,8 @@ export class ConversationService {
       content: trimmedContent,
       metadata: metadata ?? undefined,
       replyToMessageId: options.replyToMessageId ?? null,
-      clientId: options.clientId ?? crypto.randomUUID()
+      clientId: options.clientId ?? crypto.randomUUID(),
+      tokenCount: options.tokenCount ?? null
     });
 
     const message = await this.getMessage(ack.messageId);
@@ -1826,6 +1852,7 @@ export class ConversationService {
     metadata?: Record<string, unknown>;
     replyToMessageId?: string | null;
     clientId: string;
+    tokenCount?: number | null;
   }): Promise<{ messageId: string; seq: number; serverTs: string }> {
     const stub = this.env.CHAT_ROOM.get(this.env.CHAT_ROOM.idFromName(options.conversationId));
     const headers: Record<string, string> = { 'Content-Type': 'application/json' };
@@ -1853,6 +1880,9 @@ export class ConversationService {
     if (options.replyToMessageId) {
       payload.reply_to_message_id = options.replyToMessageId;
     }
+    if (typeof options.tokenCount === 'number') {
+      payload.token_count = options.tokenCount;
+    }
     const response = await stub.fetch('https://chat-room/internal/message', {
       method: 'POST',
       headers,
@@ -1901,7 +1931,9 @@ export class ConversationService {
         seq,
         server_ts,
         token_count,
-        created_at
+        created_at,
+        edited_at,
+        deleted_at
       FROM chat_messages
       WHERE id = ?
     `).bind(messageId).first<{
@@ -1918,6 +1950,8 @@ export class ConversationService {
       server_ts: string;
       token_count: number | null;
       created_at: string;
+      edited_at: string | null;
+      deleted_at: string | null;
     } | null>();
 
     if (!record) {
@@ -1938,6 +1972,8 @@ export class ConversationService {
       server_ts: record.server_ts,
       token_count: record.token_count,
       created_at: record.created_at,
+      edited_at: record.edited_at ?? null,
+      deleted_at: record.deleted_at ?? null,
       reactions: []
     };
   }
@@ -2016,6 +2052,158 @@ export class ConversationService {
     return { messageId: options.messageId, reactions };
   }
 
+  /**
+   * Edit the content of a user message. The prior content is kept in
+   * chat_message_edits. Pass `notify: false` when the caller (the ChatRoom DO)
+   * broadcasts the change itself.
+   */
+  async editMessage(options: {
+    conversationId: string;
+    practiceId: string;
+    messageId: string;
+    actor: MessageMutationActor;
+    content: string;
+    notify?: boolean;
+  }): Promise<ConversationMessage> {
+    const content = options.content.trim();
+    if (!content) {
+      throw HttpErrors.badRequest('content is required');
+    }
+    if (content.length > MAX_MESSAGE_CONTENT_LENGTH) {
+      throw HttpErrors.badRequest('content is too long');
+    }
+
+    const existing = await this.getMutableMessage(options, 'edit');
+    if (existing.content === content) {
+      return existing;
+    }
+
+    const now = new Date().toISOString();
+    const update = await this.env.DB.prepare(`
+      UPDATE chat_messages
+      SET content = ?, edited_at = ?
+      WHERE id = ? AND conversation_id = ? AND deleted_at IS NULL
+        AND content = ? AND edited_at IS ?
+    `).bind(content, now, existing.id, options.conversationId, existing.content, existing.edited_at ?? null).run();
+    this.assertMessageUnchanged(update);
+    await this.env.DB.prepare(`
+      INSERT INTO chat_message_edits (
+        id, message_id, conversation_id, practice_id, action,
+        actor_user_id, previous_content, previous_metadata, created_at
+      ) VALUES (?, ?, ?, ?, 'edit', ?, ?, ?, ?)
+    `).bind(
+      crypto.randomUUID(),
+      existing.id,
+      options.conversationId,
+      options.practiceId,
+      options.actor.userId,
+      existing.content,
+      existing.metadata ? JSON.stringify(existing.metadata) : null,
+      now
+    ).run();
+
+    await this.repairConversationPreview(options.conversationId);
+    const updated = await this.getMessage(existing.id);
+    if (options.notify !== false) {
+      await this.notifyMessageChanged(updated, 'edit', options.actor.userId);
+    }
+    return updated;
+  }
+
+  /**
+   * Soft-delete a user message: content and metadata are cleared on the row
+   * and the prior values move to chat_message_edits.
+   */
+  async deleteMessage(options: {
+    conversationId: string;
+    practiceId: string;
+    messageId: string;
+    actor: MessageMutationActor;
+    notify?: boolean;
+  }): Promise<ConversationMessage> {
+    const existing = await this.getMutableMessage(options, 'delete');
+
+    const now = new Date().toISOString();
+    const update = await this.env.DB.prepare(`
+      UPDATE chat_messages
+      SET content = '', metadata = NULL, deleted_at = ?, deleted_by = ?
+      WHERE id = ? AND conversation_id = ? AND deleted_at IS NULL
+        AND content = ? AND edited_at IS ?
+    `).bind(now, options.actor.userId, existing.id, options.conversationId, existing.content, existing.edited_at ?? null).run();
+    this.assertMessageUnchanged(update);
+    await this.env.DB.batch([
+      this.env.DB.prepare(`
+        INSERT INTO chat_message_edits (
+          id, message_id, conversation_id, practice_id, action,
+          actor_user_id, previous_content, previous_metadata, created_at
+        ) VALUES (?, ?, ?, ?, 'delete', ?, ?, ?, ?)
+      `).bind(
+        crypto.randomUUID(),
+        existing.id,
+        options.conversationId,
+        options.practiceId,
+        options.actor.userId,
+        existing.content,
+        existing.metadata ? JSON.stringify(existing.metadata) : null,
+        now
+      ),
+      this.env.DB.prepare(`
+        DELETE FROM chat_message_reactions WHERE message_id = ?
+      `).bind(existing.id)
+    ]);
+
+    await this.repairConversationPreview(options.conversationId);
+    const updated = await this.getMessage(existing.id);
+    if (options.notify !== false) {
+      await this.notifyMessageChanged(updated, 'delete', options.actor.userId);
+    }
+    return updated;
+  }
+
+  /**
+   * Edit/delete history for a message, oldest first. Staff see all of it;
+   * the author sees it without earlier content once the message is deleted;
+   * anyone else is refused.
+   */
+  async getMessageEditHistory(options: {
+    conversationId: string;
+    practiceId: string;
+    messageId: string;
+    viewer: MessageMutationActor;
+  }): Promise<ConversationMessageEdit[]> {
+    await this.ensureMessageBelongsToConversation(options.conversationId, options.practiceId, options.messageId);
+    const message = await this.getMessage(options.messageId);
+    const access = resolveMessageHistoryAccess(message, options.viewer);
+    if (access === 'denied') {
+      throw HttpErrors.forbidden('Only the author or practice staff can view message history', { code: 'not_author' });
+    }
+    const withholdContent = access === 'author' && Boolean(message.deleted_at);
+    const records = await this.env.DB.prepare(`
+      SELECT id, message_id, action, actor_user_id, previous_content, previous_metadata, created_at
+      FROM chat_message_edits
+      WHERE message_id = ? AND conversation_id = ?
+      ORDER BY created_at ASC
+    `).bind(options.messageId, options.conversationId).all<{
+      id: string;
+      message_id: string;
+      action: MessageMutationAction;
+      actor_user_id: string;
+      previous_content: string;
+      previous_metadata: string | null;
+      created_at: string;
+    }>();
+
+    return records.results.map((record) => ({
+      id: record.id,
+      message_id: record.message_id,
+      action: record.action,
+      actor_user_id: record.actor_user_id,
+      previous_content: withholdContent ? null : record.previous_content,
+      previous_metadata: withholdContent ? null : this.parseJsonRecord(record.previous_metadata),
+      created_at: record.created_at
+    }));
+  }
+
   /**
    * Get messages for a conversation with pagination
    */
@@ -2061,7 +2249,9 @@ export class ConversationService {
           seq,
           server_ts,
           token_count,
-          created_at
+          created_at,
+          edited_at,
+          deleted_at
         FROM chat_messages
         WHERE conversation_id = ? AND practice_id = ? AND seq >= ?
         ORDER BY seq ASC
@@ -2085,6 +2275,8 @@ export class ConversationService {
         server_ts: string;
         token_count: number | null;
         created_at: string;
+        edited_at: string | null;
+        deleted_at: string | null;
       }>();
 
       const messages = records.results.map(record => ({
@@ -2101,6 +2293,8 @@ export class ConversationService {
         server_ts: record.server_ts,
         token_count: record.token_count,
         created_at: record.created_at,
+        edited_at: record.edited_at ?? null,
+        deleted_at: record.deleted_at ?? null,
         reactions: []
       }));
 
@@ -2151,7 +2345,9 @@ export class ConversationService {
         seq,
         server_ts,
         token_count,
-        created_at
+        created_at,
+        edited_at,
+        deleted_at
       FROM chat_messages
       WHERE conversation_id = ? AND practice_id = ?
     `;
@@ -2180,6 +2376,8 @@ export class ConversationService {
       server_ts: string;
       token_count: number | null;
       created_at: string;
+      edited_at: string | null;
+      deleted_at: string | null;
     }>();
 
     const hasMore = records.results.length > limit;
@@ -2197,6 +2395,8 @@ export class ConversationService {
       server_ts: record.server_ts,
       token_count: record.token_count,
       created_at: record.created_at,
+      edited_at: record.edited_at ?? null,
+      deleted_at: record.deleted_at ?? null,
       reactions: []
     }));
 
@@ -2440,6 +2640,69 @@ export class ConversationService {
     }));
   }
 
+  /**
+   * Edits and deletes update the row only if it still holds what
+   * getMutableMessage read, so two racing changes can't both write history
+   * against the same prior content. The loser gets a 409 and should reload.
+   */
+  private assertMessageUnchanged(update: D1Result): void {
+    if (update.meta?.changes !== 1) {
+      throw HttpErrors.conflict('Message was changed by someone else; reload and try again', { code: 'message_changed' });
+    }
+  }
+
+  private async getMutableMessage(
+    options: { conversationId: string; practiceId: string; messageId: string; actor: MessageMutationActor },
+    action: MessageMutationAction
+  ): Promise<ConversationMessage> {
+    await this.ensureMessageBelongsToConversation(options.conversationId, options.practiceId, options.messageId);
+    const message = await this.getMessage(options.messageId);
+    const decision = evaluateMessageMutation({
+      action,
+      message,
+      actor: options.actor
+    });
+    if (decision.kind === 'denied') {
+      if (decision.code === 'message_deleted') {
+        throw HttpErrors.conflict(decision.message, { code: decision.code });
+      }
+      throw HttpErrors.forbidden(decision.message, { code: decision.code });
+    }
+    return message;
+  }
+
+  private async notifyMessageChanged(
+    message: ConversationMessage,
+    action: MessageMutationAction,
+    actorUserId: string
+  ): Promise<void> {
+    if (!this.env.CHAT_ROOM) {
+      return;
+    }
+
+    try {
+      const stub = this.env.CHAT_ROOM.get(this.env.CHAT_ROOM.idFromName(message.conversation_id));
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      await stub.fetch('https://chat-room/internal/message-update', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          conversation_id: message.conversation_id,
+          message_id: message.id,
+          action,
+          actor_user_id: actorUserId
+        })
+      });
+    } catch (error) {
+      Logger.warn('Failed to notify ChatRoom message change', {
+        conversationId: message.conversation_id,
+        messageId: message.id,
+        action,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
   private async notifyReactionChanged(options: {
     conversationId: string;
     messageId: string;
@@ -0,0 +1,354 @@
+/**
+ * Conversation transcript exports.
+ *
+ * Reads a whole conversation (every page of messages, with reactions),
+ * resolves participant names and attachment metadata, and renders it as
+ * JSON, standalone HTML or a branded PDF. Exports can be downloaded or
+ * filed straight into the conversation's linked matter; either way the
+ * export is recorded on the conversation's activity trail.
+ */
+
+import type { Env } from '../types.js';
+import { HttpErrors } from '../errorHandler.js';
+import { Logger } from '../utils/logger.js';
+import { ConversationService, type Conversation, type ConversationMessage } from './ConversationService.js';
+import { listConversationParticipantRecords, type ParticipantRecord } from './ConversationParticipantService.js';
+import { PDFGenerationService } from './PDFGenerationService.js';
+import { RemoteApiService } from './RemoteApiService.js';
+import { SessionAuditService } from './SessionAuditService.js';
+import {
+  TRANSCRIPT_VERSION,
+  type ConversationTranscript,
+  type TranscriptAttachment,
+  type TranscriptEntry,
+  type TranscriptExportFormat,
+  type TranscriptSaveResult,
+} from '../types/wire/conversationTranscript.js';
+
+/** Upper bound on messages per export; longer conversations are marked truncated. */
+export const MAX_TRANSCRIPT_MESSAGES = 5000;
+const PAGE_SIZE = 100;
+
+const CONTENT_TYPES: Record<TranscriptExportFormat, string> = {
+  pdf: 'application/pdf',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+const ABSOLUTE_URL_PATTERN = /^https?:\/\//i;
+
+export type TranscriptFileRecord = {
+  name: string;
+  mimeType: string | null;
+  size: number | null;
+};
+
+export interface TranscriptSource {
+  conversation: Conversation;
+  messages: ConversationMessage[];
+  participants: ParticipantRecord[];
+  /** Rows from the `files` table, by id, for attachments referenced in messages. */
+  files: Map<string, TranscriptFileRecord>;
+  practiceName: string | null;
+  /** Origin that attachment links point at, e.g. https://ai.blawby.com. */
+  publicOrigin: string;
+  exportedAt: string;
+  exportedBy: string | null;
+  truncated: boolean;
+}
+
+export interface RenderedTranscript {
+  body: Uint8Array;
+  contentType: string;
+  fileName: string;
+}
+
+const readAttachmentIds = (metadata: Record<string, unknown> | null): string[] => {
+  const attachments = metadata?.attachments;
+  if (!Array.isArray(attachments)) return [];
+  return attachments
+    .filter((value): value is string => typeof value === 'string')
+    .map((value) => value.trim())
+    .filter(Boolean);
+};
+
+const toAttachment = (
+  fileId: string,
+  files: Map<string, TranscriptFileRecord>,
+  publicOrigin: string
+): TranscriptAttachment => {
+  if (ABSOLUTE_URL_PATTERN.test(fileId)) {
+    const name = decodeURIComponent(new URL(fileId).pathname.split('/').pop() || '') || fileId;
+    return { id: fileId, name, mimeType: null, size: null, url: fileId };
+  }
+  const file = files.get(fileId);
+  return {
+    id: fileId,
+    name: file?.name ?? fileId,
+    mimeType: file?.mimeType ?? null,
+    size: file?.size ?? null,
+    url: `${publicOrigin}/api/files/${encodeURIComponent(fileId)}`,
+  };
+};
+
+const resolveAuthorName = (
+  message: ConversationMessage,
+  conversation: Conversation,
+  participantNames: Map<string, string>
+): string => {
+  if (message.role === 'system') return 'System';
+  if (message.role === 'assistant') return 'AI assistant';
+  const name = message.user_id ? participantNames.get(message.user_id) : undefined;
+  if (name) return name;
+  if (conversation.is_anonymous && message.user_id === conversation.user_id) return 'Website visitor';
+  return 'Unknown participant';
+};
+
+/** Shapes a loaded conversation into the export model. Pure; no I/O. */
+export const buildTranscript = (source: TranscriptSource): ConversationTranscript => {
+  const { conversation, participants, files, publicOrigin } = source;
+  const participantNames = new Map(
+    participants
+      .filter((participant) => participant.name)
+      .map((participant) => [participant.userId, participant.name as string] as const)
+  );
+
+  const entries: TranscriptEntry[] = source.messages.map((message) => {
+    const deleted = Boolean(message.deleted_at);
+    return {
+      id: message.id,
+      seq: message.seq,
+      kind: message.role === 'system' ? 'system_event' : 'message',
+      role: message.role,
+      authorId: message.user_id,
+      authorName: resolveAuthorName(message, conversation, participantNames),
+      content: deleted ? '' : message.content,
+      createdAt: message.created_at,
+      editedAt: message.edited_at ?? null,
+      deleted,
+      replyToMessageId: message.reply_to_message_id ?? null,
+      reactions: (message.reactions ?? [])
+        .filter((reaction) => reaction.count > 0)
+        .map((reaction) => ({ emoji: reaction.emoji, count: reaction.count })),
+      attachments: deleted
+        ? []
+        : readAttachmentIds(message.metadata).map((fileId) => toAttachment(fileId, files, publicOrigin)),
+    };
+  });
+
+  return {
+    version: TRANSCRIPT_VERSION,
+    exportedAt: source.exportedAt,
+    exportedBy: source.exportedBy,
+    practice: {
+      id: conversation.practice_id,
+      name: source.practiceName,
+    },
+    conversation: {
+      id: conversation.id,
+      matterId: conversation.matter_id,
+      status: conversation.status,
+      createdAt: conversation.created_at,
+      closedAt: conversation.closed_at ?? null,
+    },
+    participants: participants
+      // Team members who never took part stay off the record; the participant
+      // list includes every team member for @mention purposes.
+      .filter((participant) => conversation.participants.includes(participant.userId)
+        || participant.userId === conversation.user_id
+        || source.messages.some((message) => message.user_id === participant.userId))
+      .map((participant) => ({
+        userId: participant.userId,
+        name: participant.name,
+        role: participant.role,
+        isTeamMember: participant.isTeamMember,
+      })),
+    entries,
+    truncated: source.truncated,
+  };
+};
+
+export class ConversationTranscriptService {
+  constructor(private env: Env) {}
+
+  /**
+   * Load everything a transcript needs. Callers must have checked that the
+   * requester may read the conversation.
+   */
+  async load(options: {
+    conversationId: string;
+    practiceId: string;
+    publicOrigin: string;
+    exportedBy: string | null;
+    request?: Request;
+  }): Promise<ConversationTranscript> {
+    const { conversationId, practiceId, request } = options;
+    const conversationService = new ConversationService(this.env);
+    const conversation = await conversationService.getConversation(conversationId, practiceId);
+    const { messages, truncated } = await this.loadAllMessages(conversationService, conversationId, practiceId);
+
+    const [participants, files, practice] = await Promise.all([
+      listConversationParticipantRecords({ env: this.env, practiceId, conversation, request }),
+      this.loadFileRecords(practiceId, messages.flatMap((message) => readAttachmentIds(message.metadata))),
+      RemoteApiService.getPractice(this.env, practiceId, request).catch(() => null),
+    ]);
+
+    return buildTranscript({
+      conversation,
+      messages,
+      participants,
+      files,
+      practiceName: practice?.name ?? null,
+      publicOrigin: options.publicOrigin,
+      exportedAt: new Date().toISOString(),
+      exportedBy: options.exportedBy,
+      truncated,
+    });
+  }
+
+  /** Render a transcript in the requested format. Branding is best-effort. */
+  async render(
+    transcript: ConversationTranscript,
+    format: TranscriptExportFormat,
+    options: { request?: Request; locale?: string } = {}
+  ): Promise<RenderedTranscript> {
+    const fileName = PDFGenerationService.generateTranscriptFilename(transcript, format);
+    const contentType = CONTENT_TYPES[format];
+
+    if (format === 'json') {
+      return { body: new TextEncoder().encode(JSON.stringify(transcript, null, 2)), contentType, fileName };
+    }
+
+    const branding = {
+      practiceName: transcript.practice.name ?? undefined,
+      practiceBrandColor: await RemoteApiService.getPracticeConfig(this.env, transcript.practice.id, options.request)
+        .then((config) => config?.brandColor || undefined)
+        .catch(() => undefined),
+      locale: options.locale,
+    };
+
+    if (format === 'html') {
+      const html = PDFGenerationService.generateTranscriptHTML(transcript, branding);
+      return { body: new TextEncoder().encode(html), contentType, fileName };
+    }
+
+    const result = await PDFGenerationService.generateTranscriptPDF(transcript, branding, this.env);
+    if (!result.success || !result.pdfBuffer) {
+      throw HttpErrors.internalServerError(result.error || 'Failed to generate transcript PDF');
+    }
+    return { body: new Uint8Array(result.pdfBuffer), contentType, fileName };
+  }
+
+  /** File a rendered transcript into the conversation's linked matter, as the requester. */
+  async saveToMatter(
+    transcript: ConversationTranscript,
+    format: TranscriptExportFormat,
+    rendered: RenderedTranscript,
+    request?: Request
+  ): Promise<TranscriptSaveResult> {
+    const matterId = transcript.conversation.matterId;
+    if (!matterId) {
+      throw HttpErrors.conflict('Conversation is not linked to a matter');
+    }
+    const { uploadId, matterFileId } = await RemoteApiService.saveFileToMatter(this.env, {
+      practiceId: transcript.practice.id,
+      matterId,
+      fileName: rendered.fileName,
+      // The upload API takes a bare MIME type.
+      mimeType: rendered.contentType.split(';')[0],
+      body: rendered.body,
+    }, request);
+
+    return {
+      format,
+      fileName: rendered.fileName,
+      size: rendered.body.byteLength,
+      matterId,
+      uploadId,
+      matterFileId,
+    };
+  }
+
+  /** Record the export on the conversation's activity trail. */
+  async recordExport(
+    transcript: ConversationTranscript,
+    details: { format: TranscriptExportFormat; destination: 'download' | 'matter'; actorId: string; uploadId?: string }
+  ): Promise<void> {
+    await new SessionAuditService(this.env).createEvent({
+      conversationId: transcript.conversation.id,
+      practiceId: transcript.practice.id,
+      eventType: 'transcript_exported',
+      actorType: 'lawyer',
+      actorId: details.actorId,
+      payload: {
+        format: details.format,
+        destination: details.destination,
+        matterId: details.destination === 'matter' ? transcript.conversation.matterId : null,
+        uploadId: details.uploadId ?? null,
+        messageCount: transcript.entries.length,
+      },
+    });
+  }
+
+  private async loadAllMessages(
+    conversationService: ConversationService,
+    conversationId: string,
+    practiceId: string
+  ): Promise<{ messages: ConversationMessage[]; truncated: boolean }> {
+    const messages: ConversationMessage[] = [];
+    let fromSeq: number | null = 0;
+    while (fromSeq !== null && messages.length < MAX_TRANSCRIPT_MESSAGES) {
+      const page = await conversationService.getMessages(conversationId, practiceId, {
+        limit: PAGE_SIZE,
+        fromSeq,
+        requestSource: 'transcript_export',
+      });
+      if (page.warning) {
+        Logger.warn('[ConversationTranscriptService] Sequence unavailable, exporting latest page only', {
+          conversationId,
+          warning: page.warning,
+        });
+        const latest = await conversationService.getMessages(conversationId, practiceId, { limit: PAGE_SIZE });
+        return { messages: latest.messages, truncated: Boolean(latest.hasMore) };
+      }
+      messages.push(...page.messages);
+      fromSeq = page.messages.length > 0 ? page.next_from_seq ?? null : null;
+    }
+    return {
+      messages: messages.slice(0, MAX_TRANSCRIPT_MESSAGES),
+      truncated: fromSeq !== null,
+    };
+  }
+
+  private async loadFileRecords(practiceId: string, fileIds: string[]): Promise<Map<string, TranscriptFileRecord>> {
+    const ids = [...new Set(fileIds.filter((id) => !ABSOLUTE_URL_PATTERN.test(id)))];
+    const files = new Map<string, TranscriptFileRecord>();
+    if (ids.length === 0) return files;
+    try {
+      const rows = await this.env.DB.prepare(`
+        SELECT id, original_name, mime_type, file_size
+        FROM files
+        WHERE practice_id = ? AND id IN (SELECT value FROM json_each(?))
+      `).bind(practiceId, JSON.stringify(ids)).all<{
+        id: string;
+        original_name: string;
+        mime_type: string | null;
+        file_size: number | null;
+      }>();
+      for (const row of rows.results ?? []) {
+        files.set(row.id, {
+          name: row.original_name,
+          mimeType: row.mime_type ?? null,
+          size: typeof row.file_size === 'number' ? row.file_size : null,
+        });
+      }
+    } catch (error) {
+      // Attachments still export as links; only names and types are lost.
+      Logger.warn('[ConversationTranscriptService] Failed to load attachment metadata', {
+        practiceId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    return files;
+  }
+}
@@ -0,0 +1,102 @@
+import type { Env, NotificationQueueMessage, NotificationRecipientSnapshot } from '../types.js';
+import { EmailSendError, type EmailProvider } from './EmailProvider.js';
+import { EmailSuppressionStore, normalizeEmailAddress } from './EmailSuppressionStore.js';
+import { NotificationDeliveryStore } from './NotificationDeliveryStore.js';
+import { renderNotificationEmail, resolveEmailOrigin } from '../utils/emailTemplates.js';
+import { issueUnsubscribeToken } from '../utils/emailUnsubscribeToken.js';
+
+export type EmailDeliveryOutcome = 'sent' | 'suppressed';
+
+/**
+ * Email channel for the notification queue: suppression check, template
+ * render, provider send and the delivery result row.
+ *
+ * System notices can't be unsubscribed from (see normalizeNotificationPolicy),
+ * so they go out without an unsubscribe link; bounces and complaints still
+ * stop them.
+ */
+export class EmailNotificationService {
+  private suppressions: EmailSuppressionStore;
+  private deliveryStore: NotificationDeliveryStore;
+
+  constructor(private env: Env, private provider: EmailProvider) {
+    this.suppressions = new EmailSuppressionStore(env);
+    this.deliveryStore = new NotificationDeliveryStore(env);
+  }
+
+  /** Throws after recording a failure result, like the push path. */
+  async send(
+    recipient: NotificationRecipientSnapshot & { email: string },
+    message: NotificationQueueMessage,
+    notificationId: string
+  ): Promise<EmailDeliveryOutcome> {
+    const email = normalizeEmailAddress(recipient.email);
+    if (await this.suppressions.isSuppressed(email, message.category)) {
+      return 'suppressed';
+    }
+
+    const unsubscribeUrl = message.category === 'system'
+      ? null
+      : await this.buildUnsubscribeUrl(email, recipient.userId, message);
+    const rendered = renderNotificationEmail(message, {
+      origin: resolveEmailOrigin(this.env),
+      unsubscribeUrl,
+    });
+
+    try {
+      await this.provider.send({
+        to: email,
+        subject: rendered.subject,
+        html: rendered.html,
+        text: rendered.text,
+        headers: unsubscribeUrl
+          ? {
+              'List-Unsubscribe': `<${unsubscribeUrl}>`,
+              'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+            }
+          : undefined,
+        tags: { category: message.category, notification_id: notificationId }
+      });
+      await this.deliveryStore.recordResult({
+        notificationId,
+        userId: recipient.userId,
+        channel: 'email',
+        provider: this.provider.name,
+        status: 'success',
+        externalUserId: recipient.userId
+      });
+      return 'sent';
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      await this.deliveryStore.recordResult({
+        notificationId,
+        userId: recipient.userId,
+        channel: 'email',
+        provider: this.provider.name,
+        status: 'failure',
+        errorMessage,
+        externalUserId: recipient.userId
+      });
+      if (error instanceof EmailSendError && error.permanent) {
+        await this.suppressions.suppress({
+          email,
+          scope: '*',
+          reason: 'bounce',
+          userId: recipient.userId,
+          detail: errorMessage.slice(0, 500)
+        });
+      }
+      throw error;
+    }
+  }
+
+  private async buildUnsubscribeUrl(
+    email: string,
+    userId: string,
+    message: NotificationQueueMessage
+  ): Promise<string | null> {
+    const token = await issueUnsubscribeToken(this.env, { email, userId, scope: message.category });
+    if (!token) return null;
+    return `${resolveEmailOrigin(this.env)}/api/email/unsubscribe?token=${encodeURIComponent(token)}`;
+  }
+}
@@ -0,0 +1,146 @@
+import type { Env } from '../types.js';
+
+/**
+ * Pluggable transport for outbound email. The notification queue and
+ * EmailNotificationService only see this interface; which implementation
+ * runs is decided by EMAIL_PROVIDER (see createEmailProvider).
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+  /** Provider-side tags for filtering webhooks and dashboards. */
+  tags?: Record<string, string>;
+}
+
+export interface EmailSendResult {
+  /** Provider message id, when the provider returns one. */
+  id: string | null;
+}
+
+/**
+ * `permanent` means the address itself was rejected (hard bounce, invalid
+ * mailbox), so retrying — now or on the next notification — won't help.
+ */
+export class EmailSendError extends Error {
+  constructor(message: string, readonly permanent: boolean) {
+    super(message);
+    this.name = 'EmailSendError';
+  }
+}
+
+export interface EmailProvider {
+  /** Stored as `provider` on notification_delivery_results. */
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+const DEFAULT_RESEND_API_BASE = 'https://api.resend.com';
+const SEND_TIMEOUT_MS = 15_000;
+
+export class ResendEmailProvider implements EmailProvider {
+  readonly name = 'resend';
+  private apiKey: string;
+  private apiBase: string;
+  private from: string;
+
+  constructor(env: Env) {
+    this.apiKey = env.EMAIL_API_KEY ?? '';
+    this.apiBase = env.EMAIL_API_BASE ?? DEFAULT_RESEND_API_BASE;
+    this.from = env.EMAIL_FROM ?? '';
+  }
+
+  static isConfigured(env: Env): boolean {
+    return Boolean(env.EMAIL_API_KEY && env.EMAIL_FROM);
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    if (!this.apiKey || !this.from) {
+      throw new EmailSendError('Email provider is not configured', false);
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), SEND_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${this.apiBase}/emails`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          from: this.from,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+          headers: message.headers,
+          tags: message.tags
+            ? Object.entries(message.tags).map(([name, value]) => ({ name, value }))
+            : undefined
+        }),
+        signal: controller.signal
+      });
+
+      const responseText = await response.text().catch(() => '');
+      if (!response.ok) {
+        // 422 is Resend's validation error, which is how it reports a
+        // malformed or rejected recipient. Everything else is treated as
+        // transient or a configuration problem on our side.
+        throw new EmailSendError(
+          `Email request failed (${response.status}): ${responseText}`,
+          response.status === 422
+        );
+      }
+
+      let parsed: { id?: unknown } = {};
+      try {
+        parsed = responseText ? JSON.parse(responseText) as { id?: unknown } : {};
+      } catch {
+        parsed = {};
+      }
+      return { id: typeof parsed.id === 'string' ? parsed.id : null };
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+/**
+ * Stand-in for local development and tests. Every message is kept in
+ * `sent`; when a bucket is supplied it is also written to
+ * `email-outbox/{id}.json` so it can be inspected from wrangler.
+ */
+export class LocalEmailProvider implements EmailProvider {
+  readonly name = 'local';
+  readonly sent: Array<EmailMessage & { id: string }> = [];
+
+  constructor(private bucket?: Env['FILES_BUCKET']) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const id = crypto.randomUUID();
+    this.sent.push({ ...message, id });
+    if (this.bucket) {
+      await this.bucket.put(`email-outbox/${id}.json`, JSON.stringify({ id, ...message }, null, 2), {
+        httpMetadata: { contentType: 'application/json' }
+      });
+    }
+    return { id };
+  }
+}
+
+/** Returns null when email isn't configured, mirroring OneSignalService.isConfigured. */
+export function createEmailProvider(env: Env): EmailProvider | null {
+  const provider = (env.EMAIL_PROVIDER ?? 'resend').trim().toLowerCase();
+  if (provider === 'local') {
+    return new LocalEmailProvider(env.FILES_BUCKET);
+  }
+  if (provider === 'resend' && ResendEmailProvider.isConfigured(env)) {
+    return new ResendEmailProvider(env);
+  }
+  return null;
+}
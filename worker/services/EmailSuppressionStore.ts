@@ -0,0 +1,49 @@
+import type { Env, NotificationCategory } from '../types.js';
+
+export type EmailSuppressionReason = 'bounce' | 'complaint' | 'unsubscribe';
+
+/** '*' blocks every category; a category blocks just that one. */
+export type EmailSuppressionScope = NotificationCategory | '*';
+
+interface SuppressInput {
+  email: string;
+  scope: EmailSuppressionScope;
+  reason: EmailSuppressionReason;
+  userId?: string | null;
+  detail?: string | null;
+}
+
+export const normalizeEmailAddress = (email: string): string => email.trim().toLowerCase();
+
+export class EmailSuppressionStore {
+  constructor(private env: Env) {}
+
+  async isSuppressed(email: string, category: NotificationCategory): Promise<boolean> {
+    const row = await this.env.DB.prepare(
+      `SELECT 1 AS hit FROM email_suppressions WHERE email = ? AND scope IN ('*', ?) LIMIT 1`
+    ).bind(normalizeEmailAddress(email), category).first<{ hit: number }>();
+    return Boolean(row?.hit);
+  }
+
+  /**
+   * Re-suppressing an address keeps the original row's timestamp but takes
+   * the newer reason, so a complaint after an unsubscribe is still visible.
+   */
+  async suppress(input: SuppressInput): Promise<void> {
+    await this.env.DB.prepare(
+      `INSERT INTO email_suppressions (email, scope, reason, user_id, detail, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(email, scope) DO UPDATE SET
+         reason = excluded.reason,
+         user_id = COALESCE(excluded.user_id, email_suppressions.user_id),
+         detail = excluded.detail`
+    ).bind(
+      normalizeEmailAddress(input.email),
+      input.scope,
+      input.reason,
+      input.userId ?? null,
+      input.detail ?? null,
+      new Date().toISOString()
+    ).run();
+  }
+}
@@ -4,6 +4,7 @@ import type {
   IntakeEventRecordInput,
   IntakeEventRow,
   IntakeEventTurn,
+  IntakeFunnelStep,
 } from '../types/intakeEvent.js';
 
 /**
@@ -97,6 +98,26 @@ export async function writeIntakeTurn(
 const MAX_TURN_SEQ_RETRIES = 5;
 const TURN_SEQ_RETRY_BACKOFF_MS = 25;
 
+/**
+ * Funnel step a turn counts toward. AI turns are the case step and the
+ * submit turn is the submit step; 'intake_step' rows carry their own step
+ * (disclaimer, contact, and submit when the submit-intake route records it).
+ * Everything else (safety rails, failures, mode defects) is off-funnel.
+ */
+function resolveFunnelStep(input: IntakeEventRecordInput): IntakeFunnelStep | null {
+  switch (input.provenance) {
+    case 'ai_intake':
+    case 'ai_intake_no_tool_call':
+      return 'case';
+    case 'submit_intake':
+      return 'submit';
+    case 'intake_step':
+      return input.funnelStep ?? null;
+    default:
+      return null;
+  }
+}
+
 function isUniqueTurnSeqViolation(error: unknown): boolean {
   if (!(error instanceof Error)) return false;
   const message = error.message.toLowerCase();
@@ -147,6 +168,10 @@ export class IntakeEventService {
     const modelResponseJson = serializeOrNull(input.modelResponse);
     const toolCallsJson = serializeOrNull(input.toolCalls);
     const toolResultsJson = serializeOrNull(input.toolResults);
+    const templateSlug = input.templateSlug ?? null;
+    const funnelStep = resolveFunnelStep(input);
+    const experimentId = input.experimentId ?? null;
+    const experimentVariant = experimentId ? input.experimentVariant ?? null : null;
 
     let turnSeq = 0;
     let lastError: unknown = null;
@@ -158,8 +183,9 @@ export class IntakeEventService {
             id, conversation_id, practice_id, turn_seq, provenance,
             mode_resolution_json, user_message, model_request_json,
             model_response_json, tool_calls_json, tool_results_json,
-            failure_reason, created_at
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            failure_reason, created_at, template_slug, funnel_step,
+            experiment_id, experiment_variant
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
         `).bind(
           id,
           input.conversationId,
@@ -174,6 +200,10 @@ export class IntakeEventService {
           toolResultsJson,
           input.failureReason ?? null,
           createdAt,
+          templateSlug,
+          funnelStep,
+          experimentId,
+          experimentVariant,
         ).run();
         lastError = null;
         break;
@@ -208,9 +238,34 @@ export class IntakeEventService {
       tool_results: input.toolResults ?? null,
       failure_reason: input.failureReason ?? null,
       created_at: createdAt,
+      template_slug: templateSlug,
+      funnel_step: funnelStep,
+      experiment_id: experimentId,
+      experiment_variant: experimentVariant,
     };
   }
 
+  /**
+   * Records the submit step for a submission made through the submit-intake
+   * route. Skipped (null) when the conversation already has one — usually
+   * from its submit_intake tool turn — so each conversation submits once.
+   * The funnel reads submits as the furthest step reached and counts turns
+   * by provenance, so a duplicate left by a concurrent tool turn changes
+   * no figure.
+   */
+  async recordSubmitStep(
+    input: Omit<IntakeEventRecordInput, 'provenance' | 'funnelStep'>
+  ): Promise<IntakeEventTurn | null> {
+    const existing = await this.env.DB.prepare(`
+      SELECT 1 AS found
+      FROM intake_events
+      WHERE conversation_id = ? AND funnel_step = 'submit'
+      LIMIT 1
+    `).bind(input.conversationId).first<{ found: number }>();
+    if (existing) return null;
+    return this.recordTurn({ ...input, provenance: 'intake_step', funnelStep: 'submit' });
+  }
+
   /**
    * All turns for a conversation, ordered by turn_seq ASC.
    */
@@ -219,7 +274,8 @@ export class IntakeEventService {
       SELECT id, conversation_id, practice_id, turn_seq, provenance,
              mode_resolution_json, user_message, model_request_json,
              model_response_json, tool_calls_json, tool_results_json,
-             failure_reason, created_at
+             failure_reason, created_at, template_slug, funnel_step,
+             experiment_id, experiment_variant
       FROM intake_events
       WHERE conversation_id = ?
       ORDER BY turn_seq ASC
@@ -280,5 +336,9 @@ function deserialize(row: IntakeEventRow): IntakeEventTurn {
     tool_results: parseJsonOrNull(row.tool_results_json) as unknown[] | null,
     failure_reason: row.failure_reason,
     created_at: row.created_at,
+    template_slug: row.template_slug ?? null,
+    funnel_step: row.funnel_step ?? null,
+    experiment_id: row.experiment_id ?? null,
+    experiment_variant: row.experiment_variant ?? null,
   };
 }
@@ -0,0 +1,291 @@
+/**
+ * D1-backed intake template A/B experiments.
+ *
+ * An experiment lists two to four published templates as variants; the first
+ * is the control. While 'running', each anonymous session is assigned a
+ * variant (see utils/intakeExperiments.ts): the widget bootstrap serves the
+ * variant's template, and the worker stamps the assignment on the
+ * conversation when it is created, so every intake_events row for that
+ * conversation carries it. Clients never supply the assignment themselves. At most
+ * one experiment per practice runs at a time so a session is never in two.
+ *
+ * Results roll up intake_events per conversation, the same way
+ * IntakeFunnelService does, and compare each variant against the control.
+ */
+
+import type { Env } from '../types.js';
+import { INTAKE_FUNNEL_STEPS } from '../types/intakeEvent.js';
+import {
+  CASE_TURN_SQL,
+  FUNNEL_STEP_RANK_SQL,
+  summarizeIntakeFunnel,
+  type IntakeFunnelConversation,
+  type IntakeFunnelSummary,
+} from '../utils/intakeFunnel.js';
+import {
+  assignIntakeVariant,
+  compareToControl,
+  meanCompleteness,
+  type IntakeExperimentAssignment,
+  type IntakeExperimentComparison,
+  type IntakeExperimentVariant,
+} from '../utils/intakeExperiments.js';
+
+export const EXPERIMENT_NAME_MAX = 120;
+
+// Same bound as IntakeFunnelService — well above a month of any practice's
+// intake volume. Past it the earliest-started conversations are kept and the
+// results are flagged `truncated`.
+const MAX_CONVERSATIONS = 5000;
+
+const CASE_STEP_RANK = INTAKE_FUNNEL_STEPS.indexOf('case') + 1;
+
+export type IntakeExperimentStatus = 'running' | 'paused' | 'completed';
+
+export interface IntakeExperiment {
+  id: string;
+  practiceId: string;
+  name: string;
+  status: IntakeExperimentStatus;
+  variants: IntakeExperimentVariant[];
+  winnerVariant: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+  endedAt: string | null;
+}
+
+export interface IntakeExperimentVariantResult extends IntakeFunnelSummary {
+  key: string;
+  templateSlug: string;
+  isControl: boolean;
+  /** Mean last-recorded completeness (0–100) over conversations that reached the case step. */
+  completenessPercent: number | null;
+  /** Null for the control. */
+  comparison: IntakeExperimentComparison | null;
+}
+
+export interface IntakeExperimentResults {
+  experiment: IntakeExperiment;
+  variants: IntakeExperimentVariantResult[];
+  /** True when the experiment has more than MAX_CONVERSATIONS conversations and only the earliest were counted. */
+  truncated: boolean;
+}
+
+type IntakeExperimentRow = {
+  id: string;
+  practice_id: string;
+  name: string;
+  status: IntakeExperimentStatus;
+  variants_json: string;
+  winner_variant: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  ended_at: string | null;
+};
+
+interface ExperimentRollupRow {
+  conversation_id: string;
+  variant_key: string | null;
+  furthest_step: number;
+  case_turns: number;
+  last_pending_field: string | null;
+  completeness: number | null;
+}
+
+const SELECT_EXPERIMENT = `
+  SELECT id, practice_id, name, status, variants_json, winner_variant,
+         created_by, created_at, updated_at, ended_at
+    FROM intake_experiments`;
+
+const parseVariants = (json: string): IntakeExperimentVariant[] => {
+  try {
+    const parsed = JSON.parse(json) as unknown;
+    return Array.isArray(parsed) ? parsed as IntakeExperimentVariant[] : [];
+  } catch {
+    return [];
+  }
+};
+
+const toExperiment = (row: IntakeExperimentRow): IntakeExperiment => ({
+  id: row.id,
+  practiceId: row.practice_id,
+  name: row.name,
+  status: row.status,
+  variants: parseVariants(row.variants_json),
+  winnerVariant: row.winner_variant,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  endedAt: row.ended_at,
+});
+
+const toConversation = (row: ExperimentRollupRow): IntakeFunnelConversation => ({
+  furthestStep: Number(row.furthest_step) || 0,
+  caseTurns: Number(row.case_turns) || 0,
+  lastPendingField: typeof row.last_pending_field === 'string' && row.last_pending_field
+    ? row.last_pending_field
+    : null,
+});
+
+export class IntakeExperimentService {
+  constructor(private env: Env) {}
+
+  /** Newest first. */
+  async list(practiceId: string): Promise<IntakeExperiment[]> {
+    const rows = await this.env.DB.prepare(`${SELECT_EXPERIMENT} WHERE practice_id = ? ORDER BY created_at DESC, id DESC`)
+      .bind(practiceId)
+      .all<IntakeExperimentRow>();
+    return (rows.results ?? []).map(toExperiment);
+  }
+
+  async get(practiceId: string, id: string): Promise<IntakeExperiment | null> {
+    const row = await this.env.DB.prepare(`${SELECT_EXPERIMENT} WHERE practice_id = ? AND id = ?`)
+      .bind(practiceId, id)
+      .first<IntakeExperimentRow>();
+    return row ? toExperiment(row) : null;
+  }
+
+  async getRunning(practiceId: string): Promise<IntakeExperiment | null> {
+    const row = await this.env.DB.prepare(
+      `${SELECT_EXPERIMENT} WHERE practice_id = ? AND status = 'running' ORDER BY created_at DESC LIMIT 1`,
+    )
+      .bind(practiceId)
+      .first<IntakeExperimentRow>();
+    return row ? toExperiment(row) : null;
+  }
+
+  /**
+   * The running experiment's assignment for a session's new conversation,
+   * or null. Null too when the conversation doesn't use the variant's
+   * template — bootstrap fell back to the default, or the embed pinned another
+   * one — so a session is never counted against a template it didn't see.
+   */
+  async assignConversation(
+    practiceId: string,
+    sessionId: string,
+    templateSlug: string,
+  ): Promise<IntakeExperimentAssignment | null> {
+    const experiment = await this.getRunning(practiceId);
+    if (!experiment || experiment.variants.length === 0) return null;
+    const variant = await assignIntakeVariant(experiment, sessionId);
+    if (variant.templateSlug !== templateSlug) return null;
+    return { experimentId: experiment.id, variantKey: variant.key };
+  }
+
+  /** Creates a running experiment. Callers must check nothing else is running. */
+  async create(
+    practiceId: string,
+    input: { name: string; variants: IntakeExperimentVariant[]; createdBy: string | null },
+  ): Promise<IntakeExperiment> {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+    await this.env.DB.prepare(
+      `INSERT INTO intake_experiments (id, practice_id, name, status, variants_json, created_by, created_at, updated_at)
+       VALUES (?, ?, ?, 'running', ?, ?, ?, ?)`,
+    )
+      .bind(id, practiceId, input.name, JSON.stringify(input.variants), input.createdBy, now, now)
+      .run();
+    return {
+      id,
+      practiceId,
+      name: input.name,
+      status: 'running',
+      variants: input.variants,
+      winnerVariant: null,
+      createdBy: input.createdBy,
+      createdAt: now,
+      updatedAt: now,
+      endedAt: null,
+    };
+  }
+
+  /** Pauses or resumes. Completed experiments are left untouched. */
+  async setStatus(practiceId: string, id: string, status: 'running' | 'paused'): Promise<void> {
+    await this.env.DB.prepare(
+      `UPDATE intake_experiments SET status = ?, updated_at = ?
+        WHERE practice_id = ? AND id = ? AND status != 'completed'`,
+    )
+      .bind(status, new Date().toISOString(), practiceId, id)
+      .run();
+  }
+
+  /** Ends the experiment and records the promoted variant. */
+  async complete(practiceId: string, id: string, winnerVariant: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.env.DB.prepare(
+      `UPDATE intake_experiments SET status = 'completed', winner_variant = ?, ended_at = ?, updated_at = ?
+        WHERE practice_id = ? AND id = ?`,
+    )
+      .bind(winnerVariant, now, now, practiceId, id)
+      .run();
+  }
+
+  /**
+   * Per-variant funnel and completeness, each compared against the control.
+   * Conversations tagged with a variant key the experiment doesn't define
+   * are ignored.
+   */
+  async getResults(experiment: IntakeExperiment): Promise<IntakeExperimentResults> {
+    const result = await this.env.DB.prepare(`
+      SELECT e.conversation_id,
+             MAX(e.experiment_variant) AS variant_key,
+             MAX(${FUNNEL_STEP_RANK_SQL}) AS furthest_step,
+             SUM(CASE WHEN ${CASE_TURN_SQL} THEN 1 ELSE 0 END) AS case_turns,
+             (
+               SELECT json_extract(l.mode_resolution_json, '$.pendingField')
+               FROM intake_events l
+               WHERE l.conversation_id = e.conversation_id AND l.funnel_step = 'case'
+               ORDER BY l.turn_seq DESC
+               LIMIT 1
+             ) AS last_pending_field,
+             (
+               SELECT json_extract(l.mode_resolution_json, '$.completenessScore')
+               FROM intake_events l
+               WHERE l.conversation_id = e.conversation_id AND l.funnel_step = 'case'
+                 AND json_extract(l.mode_resolution_json, '$.completenessScore') IS NOT NULL
+               ORDER BY l.turn_seq DESC
+               LIMIT 1
+             ) AS completeness,
+             MIN(e.created_at) AS started_at
+      FROM intake_events e
+      WHERE e.practice_id = ? AND e.experiment_id = ?
+      GROUP BY e.conversation_id
+      ORDER BY started_at, e.conversation_id
+      LIMIT ?
+    `).bind(experiment.practiceId, experiment.id, MAX_CONVERSATIONS + 1).all<ExperimentRollupRow>();
+    const rows = result.results ?? [];
+
+    const byVariant = new Map<string, ExperimentRollupRow[]>(
+      experiment.variants.map((variant) => [variant.key, []]),
+    );
+    for (const row of rows.slice(0, MAX_CONVERSATIONS)) {
+      if (row.variant_key) byVariant.get(row.variant_key)?.push(row);
+    }
+
+    const arms = experiment.variants.map((variant) => {
+      const rows = byVariant.get(variant.key) ?? [];
+      const summary = summarizeIntakeFunnel(rows.map(toConversation));
+      const completenessScores = rows
+        .filter((row) => Number(row.furthest_step) >= CASE_STEP_RANK && row.completeness !== null)
+        .map((row) => Number(row.completeness))
+        .filter((score) => Number.isFinite(score));
+      return { variant, summary, arm: { uses: summary.uses, submitted: summary.submitted, completenessScores } };
+    });
+
+    const control = arms[0];
+    return {
+      experiment,
+      variants: arms.map(({ variant, summary, arm }, index) => ({
+        key: variant.key,
+        templateSlug: variant.templateSlug,
+        isControl: index === 0,
+        ...summary,
+        completenessPercent: meanCompleteness(arm),
+        comparison: index === 0 || !control ? null : compareToControl(control.arm, arm),
+      })),
+      truncated: rows.length > MAX_CONVERSATIONS,
+    };
+  }
+}
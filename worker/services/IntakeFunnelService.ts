@@ -0,0 +1,110 @@
+import type { Env } from '../types.js';
+import {
+  CASE_TURN_SQL,
+  FUNNEL_STEP_RANK_SQL,
+  summarizeIntakeFunnel,
+  type IntakeFunnelConversation,
+  type IntakeFunnelSummary,
+} from '../utils/intakeFunnel.js';
+
+/**
+ * Per-template intake funnel analytics over the intake_events timeline.
+ *
+ * The cohort is every conversation whose first funnel event falls inside the
+ * range; later steps count even when they happen after the range ends, so a
+ * lead that starts on the 30th and submits on the 2nd is still a conversion.
+ */
+
+// Upper bound on conversations rolled up per request. Well above any single
+// practice's monthly intake volume; keeps a runaway range from scanning the
+// whole table into memory. Past it the earliest-started conversations are
+// kept and the funnel is flagged `truncated`.
+const MAX_CONVERSATIONS = 5000;
+
+export interface IntakeFunnelRange {
+  startIso: string;
+  endIso: string;
+}
+
+export interface IntakeTemplateFunnel extends IntakeFunnelSummary {
+  templateSlug: string;
+  /** True when the range held more than MAX_CONVERSATIONS conversations and only the earliest were counted. */
+  truncated: boolean;
+}
+
+interface ConversationRollupRow {
+  conversation_id: string;
+  template_slug: string;
+  furthest_step: number;
+  case_turns: number;
+  last_pending_field: string | null;
+}
+
+const toConversation = (row: ConversationRollupRow): IntakeFunnelConversation => ({
+  furthestStep: Number(row.furthest_step) || 0,
+  caseTurns: Number(row.case_turns) || 0,
+  lastPendingField: typeof row.last_pending_field === 'string' && row.last_pending_field
+    ? row.last_pending_field
+    : null,
+});
+
+export class IntakeFunnelService {
+  constructor(private env: Env) {}
+
+  async getTemplateFunnel(
+    practiceId: string,
+    templateSlug: string,
+    range: IntakeFunnelRange
+  ): Promise<IntakeTemplateFunnel> {
+    const { rows, truncated } = await this.loadRollups(practiceId, range, templateSlug);
+    return { templateSlug, ...summarizeIntakeFunnel(rows.map(toConversation)), truncated };
+  }
+
+  /** One funnel per template with any activity in range, busiest first. */
+  async listTemplateFunnels(practiceId: string, range: IntakeFunnelRange): Promise<IntakeTemplateFunnel[]> {
+    const { rows, truncated } = await this.loadRollups(practiceId, range, null);
+    const byTemplate = new Map<string, IntakeFunnelConversation[]>();
+    for (const row of rows) {
+      const list = byTemplate.get(row.template_slug);
+      if (list) {
+        list.push(toConversation(row));
+      } else {
+        byTemplate.set(row.template_slug, [toConversation(row)]);
+      }
+    }
+    return [...byTemplate.entries()]
+      .map(([templateSlug, conversations]) => ({ templateSlug, ...summarizeIntakeFunnel(conversations), truncated }))
+      .sort((a, b) => b.uses - a.uses || a.templateSlug.localeCompare(b.templateSlug));
+  }
+
+  private async loadRollups(
+    practiceId: string,
+    range: IntakeFunnelRange,
+    templateSlug: string | null
+  ): Promise<{ rows: ConversationRollupRow[]; truncated: boolean }> {
+    const templateFilter = templateSlug === null ? 'AND template_slug IS NOT NULL' : 'AND template_slug = ?';
+    const bindings: unknown[] = templateSlug === null ? [practiceId] : [practiceId, templateSlug];
+    const result = await this.env.DB.prepare(`
+      SELECT e.conversation_id,
+             MAX(e.template_slug) AS template_slug,
+             MAX(${FUNNEL_STEP_RANK_SQL}) AS furthest_step,
+             SUM(CASE WHEN ${CASE_TURN_SQL} THEN 1 ELSE 0 END) AS case_turns,
+             (
+               SELECT json_extract(l.mode_resolution_json, '$.pendingField')
+               FROM intake_events l
+               WHERE l.conversation_id = e.conversation_id AND l.funnel_step = 'case'
+               ORDER BY l.turn_seq DESC
+               LIMIT 1
+             ) AS last_pending_field,
+             MIN(CASE WHEN e.funnel_step IS NOT NULL THEN e.created_at END) AS started_at
+      FROM intake_events e
+      WHERE e.practice_id = ? ${templateFilter}
+      GROUP BY e.conversation_id
+      HAVING started_at BETWEEN ? AND ?
+      ORDER BY started_at, e.conversation_id
+      LIMIT ?
+    `).bind(...bindings, range.startIso, range.endIso, MAX_CONVERSATIONS + 1).all<ConversationRollupRow>();
+    const rows = result.results ?? [];
+    return { rows: rows.slice(0, MAX_CONVERSATIONS), truncated: rows.length > MAX_CONVERSATIONS };
+  }
+}
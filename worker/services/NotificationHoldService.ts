@@ -0,0 +1,174 @@
+import type {
+  Env,
+  NotificationCategory,
+  NotificationHoldReason,
+  NotificationQueueMessage,
+  NotificationRecipientSnapshot
+} from '../types.js';
+import { enqueueNotification } from './NotificationPublisher.js';
+
+/**
+ * Storage and release for push/email notifications held by quiet hours or
+ * digests (see utils/notificationSchedule.ts for when a hold applies).
+ *
+ * Held rows are released by the scheduled handler: every due row for the
+ * same user, practice, reason and release time collapses into one summary
+ * notification, which goes back through the queue flagged `heldSummary`.
+ * A tick releases whole groups only, so a group never turns into two
+ * summaries that share a dedupe key. Rows are deleted only after the
+ * summary is enqueued, so a failed release is retried on the next tick
+ * rather than lost.
+ */
+
+const RELEASE_GROUP_LIMIT = 100;
+const DELETE_CHUNK_SIZE = 50;
+const MAX_SUMMARY_TITLES = 5;
+const MAX_TITLE_LENGTH = 120;
+
+type HoldGroupRow = Pick<HoldRow, 'user_id' | 'practice_id' | 'reason' | 'release_at'>;
+
+interface HoldRow {
+  id: string;
+  user_id: string;
+  practice_id: string | null;
+  reason: NotificationHoldReason;
+  category: NotificationCategory;
+  notification_type: string;
+  title: string;
+  link: string | null;
+  push: number;
+  email: string | null;
+  release_at: string;
+  created_at: string;
+}
+
+const pluralize = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const truncate = (value: string, max: number) =>
+  value.length > max ? `${value.slice(0, max - 1)}…` : value;
+
+function buildSummaryMessage(rows: HoldRow[]): NotificationQueueMessage {
+  // Rows arrive oldest first; the newest hold decides email and link.
+  const first = rows[0];
+  const latest = rows[rows.length - 1];
+  const count = rows.length;
+  const categories = new Set(rows.map((row) => row.category));
+  const category: NotificationCategory = categories.size === 1 ? first.category : 'system';
+
+  const byType: Record<string, number> = {};
+  for (const row of rows) {
+    byType[row.notification_type] = (byType[row.notification_type] ?? 0) + 1;
+  }
+
+  const title = count === 1
+    ? first.title
+    : first.reason === 'digest'
+      ? `Your notification digest: ${pluralize(count, 'update')}`
+      : `${pluralize(count, 'notification')} while quiet hours were on`;
+  const lines = rows.slice(-MAX_SUMMARY_TITLES).reverse().map((row) => `• ${truncate(row.title, MAX_TITLE_LENGTH)}`);
+  if (count > MAX_SUMMARY_TITLES) {
+    lines.push(`and ${count - MAX_SUMMARY_TITLES} more in Blawby.`);
+  }
+  const email = [...rows].reverse().find((row) => row.email)?.email ?? null;
+
+  return {
+    eventId: crypto.randomUUID(),
+    dedupeKey: `held:${first.user_id}:${first.reason}:${first.release_at}`,
+    practiceId: first.practice_id,
+    category,
+    title,
+    body: count === 1 ? null : lines.join('\n'),
+    link: latest.link,
+    severity: 'info',
+    metadata: {
+      notificationType: 'summary',
+      reason: first.reason,
+      byType,
+      heldSince: first.created_at
+    },
+    createdAt: new Date().toISOString(),
+    heldSummary: { reason: first.reason, count },
+    recipients: [{
+      userId: first.user_id,
+      email,
+      preferences: {
+        pushEnabled: rows.some((row) => row.push === 1),
+        emailEnabled: email !== null,
+        desktopPushEnabled: true,
+        mentionsOnly: false,
+        inAppEnabled: false
+      }
+    }]
+  };
+}
+
+export class NotificationHoldService {
+  constructor(private env: Env) {}
+
+  async hold(input: {
+    recipient: NotificationRecipientSnapshot;
+    message: NotificationQueueMessage;
+    notificationType: string;
+    reason: NotificationHoldReason;
+    releaseAt: Date;
+    channels: { push: boolean; email: string | null };
+  }): Promise<void> {
+    await this.env.DB.prepare(
+      `INSERT INTO notification_holds (
+        id, user_id, practice_id, reason, category, notification_type, title, link, push, email, release_at, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).bind(
+      crypto.randomUUID(),
+      input.recipient.userId,
+      input.message.practiceId ?? null,
+      input.reason,
+      input.message.category,
+      input.notificationType,
+      input.message.title,
+      input.message.link ?? null,
+      input.channels.push ? 1 : 0,
+      input.channels.email,
+      input.releaseAt.toISOString(),
+      new Date().toISOString()
+    ).run();
+  }
+
+  /**
+   * Enqueues a summary for up to RELEASE_GROUP_LIMIT due groups, each with
+   * all of its rows. Returns the number of summaries sent.
+   */
+  async releaseDue(now: Date = new Date()): Promise<number> {
+    const groups = await this.env.DB.prepare(
+      `SELECT user_id, practice_id, reason, release_at FROM notification_holds
+        WHERE release_at <= ?
+        GROUP BY user_id, practice_id, reason, release_at
+        ORDER BY release_at ASC
+        LIMIT ?`
+    ).bind(now.toISOString(), RELEASE_GROUP_LIMIT).all<HoldGroupRow>();
+
+    let released = 0;
+    for (const group of groups.results ?? []) {
+      const result = await this.env.DB.prepare(
+        `SELECT * FROM notification_holds
+          WHERE user_id = ? AND practice_id IS ? AND reason = ? AND release_at = ?
+          ORDER BY created_at ASC`
+      ).bind(group.user_id, group.practice_id, group.reason, group.release_at).all<HoldRow>();
+      const rows = result.results ?? [];
+      if (rows.length === 0) continue;
+
+      await enqueueNotification(this.env, buildSummaryMessage(rows));
+      await this.deleteRows(rows.map((row) => row.id));
+      released += 1;
+    }
+    return released;
+  }
+
+  private async deleteRows(ids: string[]): Promise<void> {
+    for (let offset = 0; offset < ids.length; offset += DELETE_CHUNK_SIZE) {
+      const chunk = ids.slice(offset, offset + DELETE_CHUNK_SIZE);
+      await this.env.DB.prepare(
+        `DELETE FROM notification_holds WHERE id IN (${chunk.map(() => '?').join(', ')})`
+      ).bind(...chunk).run();
+    }
+  }
+}
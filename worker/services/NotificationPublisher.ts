@@ -9,6 +9,7 @@ import type {
 import { normalizeNotificationPolicy } from '../types.js';
 import { RemoteApiService } from './RemoteApiService.js';
 import { Logger } from '../utils/logger.js';
+import { parseDigestFrequency, parseNotificationTimeZone, parseQuietHours } from '../utils/notificationSchedule.js';
 
 interface PracticeMember {
   user_id: string;
@@ -74,11 +75,37 @@ function resolveRecipientPreferences(
     ? true
     : resolveChannelPreference(prefs, inAppPreferenceKey[category], true);
 
+  const quietHours = parseQuietHours(prefs);
+  const timeZone = parseNotificationTimeZone(prefs?.notification_timezone);
+
   if (category === 'system') {
-    return { pushEnabled: true, emailEnabled: true, desktopPushEnabled, mentionsOnly, inAppEnabled: true, inAppFrequency };
+    // System notices respect quiet hours but are never folded into a digest.
+    return {
+      pushEnabled: true,
+      emailEnabled: true,
+      desktopPushEnabled,
+      mentionsOnly,
+      inAppEnabled: true,
+      inAppFrequency,
+      quietHours,
+      timeZone,
+      digest: 'off'
+    };
   }
 
-  return { pushEnabled, emailEnabled, desktopPushEnabled, mentionsOnly, inAppEnabled, inAppFrequency };
+  const digest = parseDigestFrequency(prefs?.[`${categoryPolicyKey[category]}_digest`]);
+
+  return {
+    pushEnabled,
+    emailEnabled,
+    desktopPushEnabled,
+    mentionsOnly,
+    inAppEnabled,
+    inAppFrequency,
+    quietHours,
+    timeZone,
+    digest
+  };
 }
 
 export async function getAdminRecipients(
@@ -111,6 +138,55 @@ export async function getAdminRecipients(
     });
 }
 
+/**
+ * Snapshots for an explicit list of users (e.g. report recipients). Users who
+ * aren't members of the practice are dropped, so a caller-supplied id can't
+ * pull someone outside the practice into a notification.
+ */
+export async function getUserRecipients(
+  env: Env,
+  practiceId: string,
+  request: Request,
+  userIds: string[],
+  category: NotificationCategory
+): Promise<NotificationRecipientSnapshot[]> {
+  const wanted = new Set(userIds);
+  const [members, memberPreferences, practice] = await Promise.all([
+    RemoteApiService.getPracticeMembers(env, practiceId, request),
+    RemoteApiService.getPracticeMemberNotificationPreferences(env, practiceId, request),
+    RemoteApiService.getPractice(env, practiceId, request)
+  ]);
+  const policy = normalizeNotificationPolicy(practice?.metadata?.notificationPolicy);
+
+  return members
+    .filter((member): member is PracticeMember => Boolean(member?.user_id) && wanted.has(member.user_id))
+    .map((member) => ({
+      userId: member.user_id,
+      email: member.email ?? null,
+      preferences: resolveRecipientPreferences(memberPreferences[member.user_id], category, policy)
+    }));
+}
+
+/**
+ * Snapshots with default preferences and no email, for notifications raised
+ * without a member's request to resolve preferences with (queue consumers,
+ * backend events). Recipients still get in-app and push.
+ */
+export function defaultRecipientSnapshots(userIds: string[]): NotificationRecipientSnapshot[] {
+  return userIds.map((userId) => ({
+    userId,
+    email: null,
+    preferences: {
+      pushEnabled: true,
+      emailEnabled: true,
+      desktopPushEnabled: true,
+      mentionsOnly: false,
+      inAppEnabled: true,
+      inAppFrequency: 'all'
+    }
+  }));
+}
+
 export async function enqueueNotification(env: Env, message: NotificationQueueMessage): Promise<void> {
   Logger.initialize({
     DEBUG: env.DEBUG,
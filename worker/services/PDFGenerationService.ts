@@ -1,7 +1,21 @@
 import { Logger } from '../utils/logger.js';
 import type { Env } from '../types.js';
+import type { ConversationTranscript, TranscriptExportFormat } from '../types/wire/conversationTranscript.js';
 // pdf-lib types are loaded dynamically - see worker/types/pdf-lib.d.ts for type declarations
-import type { PDFFont, RGB } from 'pdf-lib';
+import type { PDFDocument, PDFFont, RGB } from 'pdf-lib';
+import {
+  PDF_FONT_FILES,
+  fontFacesForTexts,
+  paragraphDirection,
+  resolvePdfLocale,
+  splitFontRuns,
+  toWinAnsi,
+  visualRuns,
+  wrapPdfText,
+  type PdfDirection,
+  type PdfFontFace,
+  type PdfLocale,
+} from '../utils/pdfText.js';
 
 interface CaseDraft {
   matter_type: string;
@@ -23,8 +37,66 @@ interface PDFGenerationOptions {
   clientEmail?: string;
   practiceName?: string;
   practiceBrandColor?: string;
+  /** Client locale (BCP 47); picks the CJK font variant and line-break rules. */
+  locale?: string;
 }
 
+interface TranscriptRenderOptions {
+  practiceName?: string;
+  practiceBrandColor?: string;
+  /** Viewer locale (BCP 47); picks the CJK font variant and line-break rules. */
+  locale?: string;
+}
+
+type PdfFontWeight = 'regular' | 'bold';
+
+interface PdfTextWriter {
+  /** Draws wrapped text at the cursor and moves it down one line per wrapped line. */
+  addText(text: string, weight: PdfFontWeight, size: number, color: RGB, options?: { indent?: number; lineHeight?: number }): void;
+  /** Moves the cursor down without drawing. */
+  gap(points: number): void;
+  /** Starts a new page when less than `requiredSpace` is left; returns whether it did. */
+  checkPageOverflow(requiredSpace?: number): boolean;
+  /** Draws a hairline across the text column just above the cursor. */
+  rule(color?: RGB, thickness?: number): void;
+}
+
+interface EmbeddedPdfFont {
+  font: PDFFont;
+  /** Identity for embedded subset fonts; WinAnsi-safe replacement for the Helvetica fallback. */
+  encode: (text: string) => string;
+}
+
+// The fonts ship with the worker as Data modules (see [[rules]] in
+// wrangler.toml), so each import resolves to the file's bytes. vite/client
+// types *.ttf imports as URL strings, hence the unknown default.
+const PDF_FONT_MODULES: Record<string, () => Promise<{ default: unknown }>> = {
+  'NotoSans-Regular.subset.ttf': () => import('../assets/fonts/pdf/NotoSans-Regular.subset.ttf'),
+  'NotoSans-Bold.subset.ttf': () => import('../assets/fonts/pdf/NotoSans-Bold.subset.ttf'),
+  'NotoSansArabic-Regular.subset.ttf': () => import('../assets/fonts/pdf/NotoSansArabic-Regular.subset.ttf'),
+  'NotoSansArabic-Bold.subset.ttf': () => import('../assets/fonts/pdf/NotoSansArabic-Bold.subset.ttf'),
+  'NotoSansDevanagari-Regular.subset.ttf': () => import('../assets/fonts/pdf/NotoSansDevanagari-Regular.subset.ttf'),
+  'NotoSansDevanagari-Bold.subset.ttf': () => import('../assets/fonts/pdf/NotoSansDevanagari-Bold.subset.ttf'),
+  'NotoSansThai-Regular.subset.ttf': () => import('../assets/fonts/pdf/NotoSansThai-Regular.subset.ttf'),
+  'NotoSansThai-Bold.subset.ttf': () => import('../assets/fonts/pdf/NotoSansThai-Bold.subset.ttf'),
+  'NotoSansSC-Regular.subset.ttf': () => import('../assets/fonts/pdf/NotoSansSC-Regular.subset.ttf'),
+  'NotoSansJP-Regular.subset.ttf': () => import('../assets/fonts/pdf/NotoSansJP-Regular.subset.ttf'),
+  'NotoSansKR-Regular.subset.ttf': () => import('../assets/fonts/pdf/NotoSansKR-Regular.subset.ttf'),
+};
+
+const loadPdfFontBytes = async (file: string): Promise<ArrayBuffer | null> => {
+  try {
+    const bytes = (await PDF_FONT_MODULES[file]?.())?.default;
+    return bytes instanceof ArrayBuffer ? bytes : null;
+  } catch (error) {
+    Logger.error('[PDFGenerationService] Failed to load PDF font', {
+      file,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+};
+
 export class PDFGenerationService {
   public static initialize(_env: Env) {
     Logger.info(`[PDFGenerationService] Initialized - using local pdf-lib for PDF generation`);
@@ -61,6 +133,378 @@ export class PDFGenerationService {
     }
   }
 
+  /**
+   * Render a conversation transcript as a branded PDF
+   */
+  public static async generateTranscriptPDF(
+    transcript: ConversationTranscript,
+    options: TranscriptRenderOptions,
+    _env: Env
+  ): Promise<{ success: boolean; pdfBuffer?: ArrayBuffer; error?: string }> {
+    try {
+      const { PDFDocument, rgb } = await import('pdf-lib');
+      const pdfDoc = await PDFDocument.create();
+      const writer = await this.createTextWriter(
+        pdfDoc,
+        [JSON.stringify(transcript), options.practiceName ?? ''],
+        resolvePdfLocale(options.locale),
+      );
+      const { addText, gap, checkPageOverflow } = writer;
+
+      const [brandR, brandG, brandB] = this.brandColorChannels(options.practiceBrandColor);
+      const brand = rgb(brandR, brandG, brandB);
+      const ink = rgb(0.1, 0.1, 0.1);
+      const muted = rgb(0.42, 0.45, 0.5);
+      const practiceName = options.practiceName || 'Legal Services';
+      const names = this.participantNames(transcript);
+
+      const addSectionHeader = (title: string) => {
+        checkPageOverflow(40);
+        addText(title, 'bold', 13, brand);
+        gap(6);
+      };
+
+      addText('Conversation Transcript', 'bold', 18, brand, { lineHeight: 22 });
+      addText(`${practiceName} • Exported on ${this.formatTranscriptTimestamp(transcript.exportedAt)}`, 'regular', 11, muted);
+      writer.rule(brand, 1.5);
+      gap(10);
+
+      for (const [label, value] of this.transcriptDetails(transcript, names)) {
+        addText(`${label}: ${value}`, 'regular', 10, ink, { lineHeight: 13 });
+      }
+      gap(16);
+
+      addSectionHeader('PARTICIPANTS');
+      if (transcript.participants.length === 0) {
+        addText('No participants recorded', 'regular', 10, muted, { lineHeight: 13 });
+      }
+      for (const participant of transcript.participants) {
+        addText(`• ${this.describeParticipant(participant)}`, 'regular', 10, ink, { lineHeight: 13 });
+      }
+      gap(16);
+
+      addSectionHeader('TRANSCRIPT');
+      if (transcript.entries.length === 0) {
+        addText('This conversation has no messages.', 'regular', 10, muted, { lineHeight: 13 });
+      }
+      for (const entry of transcript.entries) {
+        checkPageOverflow(50); // Keep an entry's heading with at least its first line
+        const timestamp = this.formatTranscriptTimestamp(entry.createdAt);
+
+        if (entry.kind === 'system_event') {
+          addText(`${timestamp} · ${entry.content || 'System event'}`, 'regular', 9, muted, { lineHeight: 12 });
+          gap(6);
+          continue;
+        }
+
+        const edited = entry.editedAt && !entry.deleted ? ' (edited)' : '';
+        addText(`${entry.authorName} · ${timestamp}${edited}`, 'bold', 10, ink, { lineHeight: 13 });
+        if (entry.replyToMessageId) {
+          addText(`In reply to ${names.messageAuthors.get(entry.replyToMessageId) ?? 'an earlier message'}`, 'regular', 9, muted, { indent: 10, lineHeight: 12 });
+        }
+        if (entry.deleted) {
+          addText('[Message deleted]', 'regular', 10, muted, { indent: 10, lineHeight: 13 });
+        } else if (entry.content) {
+          addText(entry.content, 'regular', 10, ink, { indent: 10, lineHeight: 13 });
+        }
+        for (const attachment of entry.attachments) {
+          addText(`Attachment: ${attachment.name} — ${attachment.url}`, 'regular', 9, muted, { indent: 10, lineHeight: 12 });
+        }
+        if (entry.reactions.length > 0) {
+          addText(`Reactions: ${this.describeReactions(entry.reactions)}`, 'regular', 9, muted, { indent: 10, lineHeight: 12 });
+        }
+        gap(8);
+      }
+
+      if (transcript.truncated) {
+        gap(6);
+        addText(`Only the first ${transcript.entries.length} messages are included in this export.`, 'bold', 10, ink, { lineHeight: 13 });
+      }
+
+      gap(16);
+      checkPageOverflow(40);
+      writer.rule();
+      addText(`Exported by ${practiceName} on ${this.formatTranscriptTimestamp(transcript.exportedAt)}`, 'regular', 9, muted, { lineHeight: 12 });
+      addText('This document contains confidential information and should be treated accordingly.', 'regular', 9, muted, { lineHeight: 12 });
+
+      const pdfBytes = await pdfDoc.save();
+      const pdfBuffer = pdfBytes.buffer.slice(pdfBytes.byteOffset, pdfBytes.byteOffset + pdfBytes.byteLength) as ArrayBuffer;
+
+      Logger.info('[PDFGenerationService] Transcript PDF generated successfully', {
+        conversationId: transcript.conversation.id,
+        entries: transcript.entries.length,
+        size: pdfBuffer.byteLength
+      });
+
+      return { success: true, pdfBuffer };
+    } catch (error) {
+      Logger.error('[PDFGenerationService] Transcript PDF generation failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Render a conversation transcript as a standalone HTML document.
+   * Styles are inline and attachments are absolute links, so the file
+   * reads the same when opened outside the app.
+   */
+  public static generateTranscriptHTML(transcript: ConversationTranscript, options: TranscriptRenderOptions): string {
+    const brandColor = this.validateBrandColor(options.practiceBrandColor);
+    const practiceName = this.escapeHtml(options.practiceName || 'Legal Services');
+    const exportedAt = this.escapeHtml(this.formatTranscriptTimestamp(transcript.exportedAt));
+    const names = this.participantNames(transcript);
+
+    const details = this.transcriptDetails(transcript, names)
+      .map(([label, value]) => `<dt>${this.escapeHtml(label)}</dt><dd>${this.escapeHtml(value)}</dd>`)
+      .join('');
+
+    const participants = transcript.participants.length > 0
+      ? transcript.participants
+        .map((participant) => `<li>${this.escapeHtml(this.describeParticipant(participant))}</li>`)
+        .join('')
+      : '<li class="muted">No participants recorded</li>';
+
+    const entries = transcript.entries.map((entry) => {
+      const time = `<time datetime="${this.escapeHtml(entry.createdAt)}">${this.escapeHtml(this.formatTranscriptTimestamp(entry.createdAt))}</time>`;
+      if (entry.kind === 'system_event') {
+        return `<li class="entry system-event" id="msg-${this.escapeHtml(entry.id)}">${time} · ${this.escapeHtml(entry.content || 'System event')}</li>`;
+      }
+
+      const edited = entry.editedAt && !entry.deleted ? ' <span class="muted">(edited)</span>' : '';
+      const reply = entry.replyToMessageId
+        ? `<div class="reply">In reply to <a href="#msg-${this.escapeHtml(entry.replyToMessageId)}">${this.escapeHtml(names.messageAuthors.get(entry.replyToMessageId) ?? 'an earlier message')}</a></div>`
+        : '';
+      const content = entry.deleted
+        ? '<div class="content muted">[Message deleted]</div>'
+        : entry.content ? `<div class="content">${this.escapeHtml(entry.content)}</div>` : '';
+      const attachments = entry.attachments.length > 0
+        ? `<ul class="attachments">${entry.attachments.map((attachment) => `
+            <li><a href="${this.escapeHtml(attachment.url)}">${this.escapeHtml(attachment.name)}</a>${attachment.mimeType ? ` <span class="muted">${this.escapeHtml(attachment.mimeType)}</span>` : ''}</li>`).join('')}
+          </ul>`
+        : '';
+      const reactions = entry.reactions.length > 0
+        ? `<div class="reactions">${entry.reactions.map((reaction) => `<span class="reaction">${this.escapeHtml(reaction.emoji)} ${reaction.count}</span>`).join('')}</div>`
+        : '';
+
+      return `
+        <li class="entry role-${entry.role}" id="msg-${this.escapeHtml(entry.id)}">
+            <div class="meta"><strong>${this.escapeHtml(entry.authorName)}</strong> · ${time}${edited}</div>
+            ${reply}${content}${attachments}${reactions}
+        </li>`;
+    }).join('');
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Conversation Transcript - ${practiceName}</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Helvetica Neue', sans-serif;
+            line-height: 1.5;
+            color: #1a1a1a;
+            max-width: 800px;
+            margin: 0 auto;
+            padding: 1.5rem;
+            background-color: #ffffff;
+        }
+
+        .header {
+            border-bottom: 3px solid ${brandColor};
+            padding-bottom: 1.25rem;
+            margin-bottom: 1.5rem;
+        }
+
+        .header h1 {
+            color: ${brandColor};
+            margin: 0;
+            font-size: 1.75rem;
+            font-weight: 600;
+        }
+
+        .subtitle, .muted {
+            color: #6b7280;
+        }
+
+        .subtitle {
+            margin: 0.5rem 0 0 0;
+        }
+
+        .details {
+            display: grid;
+            grid-template-columns: max-content 1fr;
+            gap: 0.25rem 1rem;
+            background-color: #f9fafb;
+            border-left: 4px solid ${brandColor};
+            border-radius: 0.5rem;
+            padding: 1rem 1.25rem;
+            margin: 0 0 2rem 0;
+        }
+
+        .details dt {
+            font-weight: 600;
+            color: #6b7280;
+        }
+
+        .details dd {
+            margin: 0;
+        }
+
+        h2 {
+            color: ${brandColor};
+            border-bottom: 2px solid #e5e7eb;
+            padding-bottom: 0.5rem;
+            font-size: 1.25rem;
+        }
+
+        ul.participants, ol.transcript, ul.attachments {
+            list-style: none;
+            padding: 0;
+        }
+
+        .entry {
+            padding: 0.75rem 0;
+            border-bottom: 1px solid #f3f4f6;
+        }
+
+        .entry .content {
+            white-space: pre-wrap;
+            margin-top: 0.25rem;
+        }
+
+        .entry.role-assistant .content {
+            border-left: 3px solid ${brandColor};
+            padding-left: 0.75rem;
+        }
+
+        .system-event {
+            color: #6b7280;
+            font-size: 0.875rem;
+            font-style: italic;
+        }
+
+        .reply, .attachments, .reactions {
+            font-size: 0.875rem;
+            margin-top: 0.25rem;
+        }
+
+        .reaction {
+            display: inline-block;
+            border: 1px solid #e5e7eb;
+            border-radius: 999px;
+            padding: 0 0.5rem;
+            margin-right: 0.25rem;
+        }
+
+        .notice {
+            font-weight: 600;
+            margin-top: 1rem;
+        }
+
+        .footer {
+            margin-top: 2.5rem;
+            padding-top: 1.25rem;
+            border-top: 1px solid #e5e7eb;
+            text-align: center;
+            color: #6b7280;
+            font-size: 0.875rem;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>Conversation Transcript</h1>
+        <p class="subtitle">${practiceName} • Exported on ${exportedAt}</p>
+    </div>
+
+    <dl class="details">${details}</dl>
+
+    <h2>Participants</h2>
+    <ul class="participants">${participants}</ul>
+
+    <h2>Transcript</h2>
+    ${transcript.entries.length > 0
+      ? `<ol class="transcript">${entries}</ol>`
+      : '<p class="muted">This conversation has no messages.</p>'}
+    ${transcript.truncated
+      ? `<p class="notice">Only the first ${transcript.entries.length} messages are included in this export.</p>`
+      : ''}
+
+    <div class="footer">
+        <p>Exported by ${practiceName} on ${exportedAt}</p>
+        <p>This document contains confidential information and should be treated accordingly.</p>
+    </div>
+</body>
+</html>`;
+  }
+
+  /** Label/value rows shown at the top of a transcript. */
+  private static transcriptDetails(
+    transcript: ConversationTranscript,
+    names: { users: Map<string, string> }
+  ): Array<[string, string]> {
+    const { conversation } = transcript;
+    const rows: Array<[string, string]> = [
+      ['Conversation', conversation.id],
+      ['Started', this.formatTranscriptTimestamp(conversation.createdAt)],
+      ['Status', conversation.status],
+      ['Messages', String(transcript.entries.filter((entry) => entry.kind === 'message').length)],
+    ];
+    if (conversation.matterId) rows.splice(1, 0, ['Linked matter', conversation.matterId]);
+    if (conversation.closedAt) rows.push(['Closed', this.formatTranscriptTimestamp(conversation.closedAt)]);
+    if (transcript.exportedBy) rows.push(['Exported by', names.users.get(transcript.exportedBy) ?? transcript.exportedBy]);
+    return rows;
+  }
+
+  /** Display names by user id, and author names by message id for reply references. */
+  private static participantNames(transcript: ConversationTranscript): {
+    users: Map<string, string>;
+    messageAuthors: Map<string, string>;
+  } {
+    const users = new Map<string, string>();
+    for (const participant of transcript.participants) {
+      if (participant.name) users.set(participant.userId, participant.name);
+    }
+    const messageAuthors = new Map(transcript.entries.map((entry) => [entry.id, entry.authorName] as const));
+    return { users, messageAuthors };
+  }
+
+  private static describeParticipant(participant: ConversationTranscript['participants'][number]): string {
+    const name = participant.name ?? 'Unnamed participant';
+    if (!participant.isTeamMember) return `${name} — Client`;
+    return participant.role ? `${name} — Team (${participant.role})` : `${name} — Team`;
+  }
+
+  private static describeReactions(reactions: ConversationTranscript['entries'][number]['reactions']): string {
+    return reactions.map((reaction) => `${reaction.emoji} ${reaction.count}`).join(', ');
+  }
+
+  /** Timestamps are rendered in UTC so the record reads the same for everyone. */
+  private static formatTranscriptTimestamp(iso: string): string {
+    const date = new Date(iso);
+    if (Number.isNaN(date.getTime())) return iso;
+    return `${date.toLocaleString('en-US', {
+      timeZone: 'UTC',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })} UTC`;
+  }
+
+  /** Brand colour as pdf-lib 0–1 channels. */
+  private static brandColorChannels(color: string | undefined): [number, number, number] {
+    let digits = this.validateBrandColor(color).slice(1);
+    if (digits.length === 3) digits = digits.split('').map((digit) => digit + digit).join('');
+    return [0, 2, 4].map((offset) => parseInt(digits.slice(offset, offset + 2), 16) / 255) as [number, number, number];
+  }
+
   /**
    * Escape HTML special characters to prevent XSS
    */
@@ -400,147 +844,62 @@ export class PDFGenerationService {
   private static async convertHTMLToPDF(html: string, options: PDFGenerationOptions, _env: Env): Promise<ArrayBuffer> {
     try {
       // Import pdf-lib dynamically for Cloudflare Workers compatibility
-      const { PDFDocument, rgb, StandardFonts } = await import('pdf-lib');
+      const { PDFDocument, rgb } = await import('pdf-lib');
       
       // Create a new PDF document
       const pdfDoc = await PDFDocument.create();
       
-      // Add a page
-      let page = pdfDoc.addPage([612, 792]); // Letter size
-      let { width, height } = page.getSize();
-      
       // Extract content from structured data for PDF generation
       const content = this.extractContentFromOptions(options);
       
-      // Add fonts
-      const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-      const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+      const writer = await this.createTextWriter(pdfDoc, [JSON.stringify(content)], resolvePdfLocale(options.locale));
+      const { addText, checkPageOverflow } = writer;
       
       // Set up text styling
       const fontSize = 12;
-      const lineHeight = fontSize * 1.2;
-      let yPosition = height - 50; // Start from top with margin
-      
-      // Helper function to check if we need a new page and add one if needed
-      const checkPageOverflow = (requiredSpace: number = 20) => {
-        if (yPosition < requiredSpace + 50) {
-          // Add a new page and reset position
-          const newPage = pdfDoc.addPage([612, 792]);
-          page = newPage; // Update page reference
-          const newSize = newPage.getSize(); // Get both width and height
-          width = newSize.width;
-          height = newSize.height;
-          yPosition = height - 50; // Reset to top of new page
-          Logger.info('[PDFGenerationService] Added new page due to content overflow');
-          return true; // New page was added
-        }
-        return false; // No new page needed
-      };
 
       // Helper function to add section headers with overflow protection
       const addSectionHeader = (title: string) => {
         checkPageOverflow(30); // Need more space for headers (will add new page if needed)
-        addText(title, boldFont, 14, rgb(0.2, 0.2, 0.2));
-        yPosition -= 10;
+        addText(title, 'bold', 14, rgb(0.2, 0.2, 0.2));
+        writer.gap(10);
         return true;
       };
-
-      // Helper function to add text with word wrapping and page overflow protection
-      const addText = (text: string, font: PDFFont, size: number, color: RGB, maxWidth?: number) => {
-        // Check for page overflow before adding text (will add new page if needed)
-        if (checkPageOverflow()) {
-          // yPosition already reset; align local cursor
-        }
-
-        if (maxWidth) {
-          const words = text.split(' ');
-          let line = '';
-          let currentY = yPosition;
-          
-          for (const word of words) {
-            const testLine = line + (line ? ' ' : '') + word;
-            const textWidth = font.widthOfTextAtSize(testLine, size);
-            
-            if (textWidth > maxWidth && line) {
-              // Check if we have space for this line (will add new page if needed)
-              if (checkPageOverflow()) {
-                currentY = yPosition;
-              }
-              
-              page.drawText(line, {
-                x: 50,
-                y: currentY,
-                size,
-                font,
-                color,
-              });
-              line = word;
-              currentY -= lineHeight;
-            } else {
-              line = testLine;
-            }
-          }
-          
-          if (line) {
-            // Check for page overflow before drawing final line (will add new page if needed)
-            if (checkPageOverflow()) {
-              currentY = yPosition;
-            }
-            page.drawText(line, {
-              x: 50,
-              y: currentY,
-              size,
-              font,
-              color,
-            });
-            yPosition = currentY - lineHeight;
-          }
-        } else {
-          page.drawText(text, {
-            x: 50,
-            y: yPosition,
-            size,
-            font,
-            color,
-          });
-          yPosition -= lineHeight;
-        }
-      };
       
       // Add title
-      addText(content.title, boldFont, 18, rgb(0.2, 0.2, 0.2));
-      yPosition -= 10;
+      addText(content.title, 'bold', 18, rgb(0.2, 0.2, 0.2));
+      writer.gap(10);
       
       // Add subtitle
       if (content.subtitle && typeof content.subtitle === 'string') {
-        addText(content.subtitle as string, font, 12, rgb(0.4, 0.4, 0.4));
-        yPosition -= 20;
+        addText(content.subtitle as string, 'regular', 12, rgb(0.4, 0.4, 0.4));
+        writer.gap(20);
       }
       
       // Add case overview section
       addSectionHeader('CASE OVERVIEW');
       
-      addText(`Matter Type: ${content.matterType}`, font, fontSize, rgb(0, 0, 0), width - 100);
-      addText(`Jurisdiction: ${content.jurisdiction}`, font, fontSize, rgb(0, 0, 0), width - 100);
-      addText(`Urgency Level: ${content.urgency}`, font, fontSize, rgb(0, 0, 0), width - 100);
-      addText(`Generated: ${content.generatedDate}`, font, fontSize, rgb(0, 0, 0), width - 100);
-      yPosition -= 20;
+      addText(`Matter Type: ${content.matterType}`, 'regular', fontSize, rgb(0, 0, 0));
+      addText(`Jurisdiction: ${content.jurisdiction}`, 'regular', fontSize, rgb(0, 0, 0));
+      addText(`Urgency Level: ${content.urgency}`, 'regular', fontSize, rgb(0, 0, 0));
+      addText(`Generated: ${content.generatedDate}`, 'regular', fontSize, rgb(0, 0, 0));
+      writer.gap(20);
       
       // Add key facts section
       if (content.keyFacts && Array.isArray(content.keyFacts) && content.keyFacts.length > 0) {
         addSectionHeader('KEY FACTS');
         (content.keyFacts as string[]).forEach((fact: string, index: number) => {
-          addText(`${index + 1}. ${fact}`, font, fontSize, rgb(0, 0, 0), width - 100);
+          addText(`${index + 1}. ${fact}`, 'regular', fontSize, rgb(0, 0, 0));
         });
-        yPosition -= 20;
+        writer.gap(20);
       }
 
       // Add timeline section
       if (content.timeline && Array.isArray(content.timeline) && content.timeline.length > 0) {
         addSectionHeader('TIMELINE');
         const timelineText = content.timeline.map((item: { date: string; event: string }) => `${item.date}: ${item.event}`).join('\n');
-        addText(timelineText, font, fontSize, rgb(0, 0, 0), width - 100);
-        yPosition -= 20;
+        addText(timelineText, 'regular', fontSize, rgb(0, 0, 0));
+        writer.gap(20);
       }
 
       // Add parties section
@@ -548,9 +907,9 @@ export class PDFGenerationService {
         addSectionHeader('PARTIES INVOLVED');
         content.parties.forEach((party: { role: string; name?: string; relationship?: string }, _index: number) => {
           const partyText = `${party.role}: ${party.name || 'Name not provided'}${party.relationship ? ` (${party.relationship})` : ''}`;
-          addText(partyText, font, fontSize, rgb(0, 0, 0), width - 100);
+          addText(partyText, 'regular', fontSize, rgb(0, 0, 0));
         });
-        yPosition -= 20;
+        writer.gap(20);
       }
 
       // Add documents section
@@ -558,31 +917,31 @@ export class PDFGenerationService {
         addSectionHeader('AVAILABLE DOCUMENTS');
         content.documents.forEach((doc: { document_type: string; description?: string }, _index: number) => {
           const docText = doc.description ? `${doc.document_type}: ${doc.description}` : doc.document_type;
-          addText(`• ${docText}`, font, fontSize, rgb(0, 0, 0), width - 100);
+          addText(`• ${docText}`, 'regular', fontSize, rgb(0, 0, 0));
         });
-        yPosition -= 20;
+        writer.gap(20);
       }
 
       // Add evidence section
       if (content.evidence && Array.isArray(content.evidence) && content.evidence.length > 0) {
         addSectionHeader('EVIDENCE');
         (content.evidence as string[]).forEach((ev: string, _index: number) => {
-          addText(`• ${ev}`, font, fontSize, rgb(0, 0, 0), width - 100);
+          addText(`• ${ev}`, 'regular', fontSize, rgb(0, 0, 0));
         });
-        yPosition -= 20;
+        writer.gap(20);
       }
       
       // Add disclaimer
       addSectionHeader('IMPORTANT LEGAL DISCLAIMER');
       const disclaimerText = 'This document is not legal advice. This case summary is prepared for informational purposes only and should not be construed as legal advice. It is recommended that you consult with a qualified attorney to discuss your specific legal situation and obtain proper legal counsel.';
-      addText(disclaimerText, font, fontSize, rgb(0, 0, 0), width - 100);
-      yPosition -= 30;
+      addText(disclaimerText, 'regular', fontSize, rgb(0, 0, 0));
+      writer.gap(30);
       
       // Add footer with overflow protection
       if (!checkPageOverflow(40)) { // Need space for 3 lines of footer
-        addText(`Generated by ${content.practiceName || 'Legal Services'}`, font, 10, rgb(0.4, 0.4, 0.4));
-        addText(`Date: ${content.generatedDate}`, font, 10, rgb(0.4, 0.4, 0.4));
-        addText('This document contains confidential information and should be treated accordingly.', font, 10, rgb(0.4, 0.4, 0.4));
+        addText(`Generated by ${content.practiceName || 'Legal Services'}`, 'regular', 10, rgb(0.4, 0.4, 0.4));
+        addText(`Date: ${content.generatedDate}`, 'regular', 10, rgb(0.4, 0.4, 0.4));
+        addText('This document contains confidential information and should be treated accordingly.', 'regular', 10, rgb(0.4, 0.4, 0.4));
       }
       
       // Serialize the PDF to bytes
@@ -598,6 +957,132 @@ export class PDFGenerationService {
   }
 
 
+  /**
+   * Embed the subset font for each face (regular and bold) and return a lookup.
+   * A face whose font is missing from the bundle is logged as an error and
+   * falls back to Helvetica with unencodable characters replaced, so the PDF
+   * still renders.
+   */
+  private static async embedFonts(
+    pdfDoc: PDFDocument,
+    faces: Set<PdfFontFace>,
+    fallback: Record<PdfFontWeight, PDFFont>
+  ): Promise<(face: PdfFontFace, weight: PdfFontWeight) => EmbeddedPdfFont> {
+    const embeddedByFile = new Map<string, PDFFont>();
+    const embedded = new Map<string, EmbeddedPdfFont>();
+    let fontkitRegistered = false;
+
+    for (const face of faces) {
+      const files = PDF_FONT_FILES[face];
+      for (const weight of ['regular', 'bold'] as const) {
+        const file = weight === 'bold' ? files.bold ?? files.regular : files.regular;
+        let font = embeddedByFile.get(file);
+        if (!font) {
+          const bytes = await loadPdfFontBytes(file);
+          if (!bytes) {
+            // The fonts are bundled, so this is a build problem, not a transient one.
+            Logger.error('[PDFGenerationService] PDF font missing from the bundle, falling back to Helvetica', { face, file });
+            continue;
+          }
+          if (!fontkitRegistered) {
+            // fontkit's Indic shaper (Devanagari) calls a global regeneratorRuntime it never defines.
+            await import('regenerator-runtime');
+            const { default: fontkit } = await import('@pdf-lib/fontkit');
+            pdfDoc.registerFontkit(fontkit);
+            fontkitRegistered = true;
+          }
+          font = await pdfDoc.embedFont(new Uint8Array(bytes), { subset: true });
+          embeddedByFile.set(file, font);
+        }
+        embedded.set(`${face}:${weight}`, { font, encode: (text) => text });
+      }
+    }
+
+    return (face, weight) => embedded.get(`${face}:${weight}`)
+      ?? { font: fallback[weight], encode: toWinAnsi };
+  }
+
+  /**
+   * Set up a Letter-size, top-down text cursor on `pdfDoc`. Embeds a subset
+   * font for every script in `texts`, plus the locale's own script; text is
+   * wrapped script-aware and new pages are added as the cursor runs out.
+   */
+  private static async createTextWriter(
+    pdfDoc: PDFDocument,
+    texts: string[],
+    locale: PdfLocale
+  ): Promise<PdfTextWriter> {
+    const { StandardFonts, rgb } = await import('pdf-lib');
+    const fontFor = await this.embedFonts(
+      pdfDoc,
+      fontFacesForTexts(texts, locale),
+      {
+        regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+        bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+      },
+    );
+
+    let page = pdfDoc.addPage([612, 792]); // Letter size
+    let { width, height } = page.getSize();
+    let yPosition = height - 50; // Start from top with margin
+
+    const checkPageOverflow = (requiredSpace: number = 20) => {
+      if (yPosition < requiredSpace + 50) {
+        page = pdfDoc.addPage([612, 792]);
+        ({ width, height } = page.getSize());
+        yPosition = height - 50;
+        Logger.info('[PDFGenerationService] Added new page due to content overflow');
+        return true;
+      }
+      return false;
+    };
+
+    // Width of mixed-script text: each font run is measured with its own font.
+    const measure = (text: string, weight: PdfFontWeight, size: number): number =>
+      splitFontRuns(text, locale).reduce((total, run) => {
+        const embedded = fontFor(run.face, weight);
+        return total + embedded.font.widthOfTextAtSize(embedded.encode(run.text), size);
+      }, 0);
+
+    // Draws one wrapped line run by run in visual order; RTL paragraphs are right-aligned.
+    const drawLine = (line: string, weight: PdfFontWeight, size: number, color: RGB, direction: PdfDirection, indent: number) => {
+      let x = direction === 'rtl' ? width - 50 - measure(line, weight, size) : 50 + indent;
+      for (const run of visualRuns(line, locale, direction)) {
+        const embedded = fontFor(run.face, weight);
+        const text = embedded.encode(run.text);
+        page.drawText(text, { x, y: yPosition, size, font: embedded.font, color });
+        x += embedded.font.widthOfTextAtSize(text, size);
+      }
+    };
+
+    return {
+      addText: (text, weight, size, color, options = {}) => {
+        const indent = options.indent ?? 0;
+        const lineHeight = options.lineHeight ?? 12 * 1.2;
+        const direction = paragraphDirection(text);
+        const lines = wrapPdfText(text, width - 100 - indent, (value) => measure(value, weight, size), locale);
+        for (const line of lines) {
+          checkPageOverflow();
+          drawLine(line, weight, size, color, direction, indent);
+          yPosition -= lineHeight;
+        }
+      },
+      gap: (points) => {
+        yPosition -= points;
+      },
+      checkPageOverflow,
+      rule: (color = rgb(0.9, 0.9, 0.92), thickness = 0.75) => {
+        checkPageOverflow();
+        page.drawLine({
+          start: { x: 50, y: yPosition + 8 },
+          end: { x: width - 50, y: yPosition + 8 },
+          thickness,
+          color,
+        });
+      },
+    };
+  }
+
   /**
    * Extract structured content from options (more reliable than HTML parsing)
    */
@@ -666,4 +1151,13 @@ export class PDFGenerationService {
     
     return `case-summary-${safeMatter}${client}-${date}.pdf`;
   }
+
+  /**
+   * Generate a transcript filename for a conversation export
+   */
+  public static generateTranscriptFilename(transcript: ConversationTranscript, format: TranscriptExportFormat): string {
+    const date = transcript.exportedAt.split('T')[0];
+    const safeId = transcript.conversation.id.replace(/[^a-zA-Z0-9-]/g, '').slice(0, 36) || 'conversation';
+    return `conversation-transcript-${safeId}-${date}.${format}`;
+  }
 }
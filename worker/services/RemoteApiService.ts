@@ -9,6 +9,7 @@ import { policyTtlMs } from '../utils/cachePolicy.js';
 import { validateWire } from '../utils/validateWire.js';
 import { PracticeSchema, ConversationConfigPermissiveSchema } from '../types/wire/practice.js';
 import { BackendIntakeConvertResponseSchema } from '../types/wire/intake.js';
+import { BackendMatterFileLinkSchema, BackendUploadPresignResponseSchema } from '../types/wire/upload.js';
 import { canAssignTeamMemberToMatter, isTeamRole, type PracticeTeamResponse } from '../../src/shared/types/team.js';
 
 /**
@@ -20,9 +21,29 @@ import { canAssignTeamMemberToMatter, isTeamRole, type PracticeTeamResponse } fr
  * cross-isolate consistency, layer KV behind specific keys at call sites
  * (see `practiceDetailsCache.ts`).
  */
+// Requests minted by RemoteApiService.serviceRequest. Only these forward
+// their Authorization header upstream; member requests forward the session
+// cookie as before.
+const serviceRequests = new WeakSet<Request>();
+
 export class RemoteApiService {
   private static readonly DEFAULT_SEAT_COUNT = 1;
 
+  /**
+   * A request that authenticates to the backend as the worker itself, with
+   * the MCP_BACKEND_TOKEN service token, for background work that has no
+   * member session to forward (scheduled report deliveries, queue
+   * consumers). Null when the token isn't configured.
+   */
+  static serviceRequest(env: Env): Request | null {
+    if (!env.MCP_BACKEND_TOKEN || !env.BACKEND_API_URL) return null;
+    const request = new Request(env.BACKEND_API_URL, {
+      headers: { Authorization: `Bearer ${env.MCP_BACKEND_TOKEN}` },
+    });
+    serviceRequests.add(request);
+    return request;
+  }
+
   /**
    * Get the base URL for the remote API
    */
@@ -88,6 +109,10 @@ export class RemoteApiService {
         headers.set('Cookie', cookie);
       }
     }
+    const serviceAuthorization = request && serviceRequests.has(request) ? this.getAuthorizationHeader(request) : null;
+    if (serviceAuthorization) {
+      headers.set('Authorization', serviceAuthorization);
+    }
     const method = options?.method || 'GET';
     const body = options?.body;
 
@@ -324,6 +349,40 @@ export class RemoteApiService {
     return this.fetchFromRemoteApi(env, path, request, { forwardAuthCookie: false });
   }
 
+  /**
+   * Slugs of the practice's published intake templates. Forwards the caller's
+   * session, so the caller must be able to read the practice's templates.
+   */
+  static async getPublishedIntakeTemplateSlugs(
+    env: Env,
+    practiceId: string,
+    request?: Request,
+  ): Promise<Set<string>> {
+    const response = await this.fetchFromRemoteApi(
+      env,
+      `/api/practice/${encodeURIComponent(practiceId)}/intake-templates`,
+      request,
+    );
+    const json = await response.json().catch(() => null) as unknown;
+    const body = json && typeof json === 'object' && !Array.isArray(json)
+      ? json as Record<string, unknown>
+      : {};
+    const details = body.data && typeof body.data === 'object' && !Array.isArray(body.data)
+      ? body.data as Record<string, unknown>
+      : body;
+    if (!Array.isArray(details.templates)) {
+      throw HttpErrors.badGateway('Failed to parse intake templates');
+    }
+    const slugs = new Set<string>();
+    for (const template of details.templates as unknown[]) {
+      if (!template || typeof template !== 'object') continue;
+      const { slug, status } = template as Record<string, unknown>;
+      // Same reading as the template editor: anything not draft or archived is live.
+      if (typeof slug === 'string' && status !== 'draft' && status !== 'archived') slugs.add(slug);
+    }
+    return slugs;
+  }
+
   /**
    * Get practice members from remote API
    */
@@ -838,6 +897,85 @@ export class RemoteApiService {
     };
   }
 
+  /**
+   * Upload a worker-generated document and link it to a matter, as the
+   * caller. Runs the same presign → PUT → confirm → link sequence the
+   * frontend uses, so the backend applies its usual permission checks.
+   */
+  static async saveFileToMatter(
+    env: Env,
+    file: {
+      practiceId: string;
+      matterId: string;
+      fileName: string;
+      mimeType: string;
+      body: Uint8Array;
+    },
+    request?: Request
+  ): Promise<{ uploadId: string; matterFileId: string | null }> {
+    const presignResponse = await this.fetchFromRemoteApi(env, '/api/uploads/presign', request, {
+      method: 'POST',
+      body: JSON.stringify({
+        file_name: file.fileName,
+        mime_type: file.mimeType,
+        file_size: file.body.byteLength,
+        scope_type: 'matter',
+        scope_id: file.matterId,
+        sub_context: 'correspondence',
+        is_privileged: true,
+      }),
+    });
+    const presigned = validateWire(
+      BackendUploadPresignResponseSchema,
+      await presignResponse.json().catch(() => null),
+      'saveFileToMatter.presign',
+      { strict: false },
+    );
+    if (!presigned?.upload_id || !presigned.presigned_url) {
+      throw HttpErrors.badGateway('Remote API presign response missing upload_id');
+    }
+
+    const putResponse = await fetch(presigned.presigned_url, {
+      method: presigned.method || 'PUT',
+      headers: { 'Content-Type': file.mimeType },
+      body: file.body as BodyInit,
+    });
+    if (!putResponse.ok) {
+      Logger.error('[RemoteApiService] saveFileToMatter upload failed', {
+        matterId: file.matterId,
+        uploadId: presigned.upload_id,
+        status: putResponse.status,
+      });
+      throw HttpErrors.badGateway('Failed to upload file to storage');
+    }
+
+    await this.fetchFromRemoteApi(
+      env,
+      `/api/uploads/${encodeURIComponent(presigned.upload_id)}/confirm`,
+      request,
+      { method: 'POST' }
+    );
+
+    const linkResponse = await this.fetchFromRemoteApi(
+      env,
+      `/api/matters/${encodeURIComponent(file.practiceId)}/${encodeURIComponent(file.matterId)}/files`,
+      request,
+      { method: 'POST', body: JSON.stringify({ upload_id: presigned.upload_id }) }
+    );
+    const linkJson = await linkResponse.json().catch(() => null) as Record<string, unknown> | null;
+    const link = validateWire(
+      BackendMatterFileLinkSchema,
+      linkJson && typeof linkJson.data === 'object' ? linkJson.data : linkJson,
+      'saveFileToMatter.link',
+      { strict: false },
+    );
+
+    return {
+      uploadId: presigned.upload_id,
+      matterFileId: typeof link?.id === 'string' ? link.id : null,
+    };
+  }
+
   static async getPracticeClientIntakeStatus(
     env: Env,
     intakeUuid: string,
@@ -1,14 +1,22 @@
 /**
- * Persists report deliveries in D1, stores the CSV bytes in R2, and
- * enqueues an in-app notification. Reads downstream by the deliveries
- * list/detail UI.
+ * Persists report deliveries in D1, stores the rendered export (CSV, XLSX
+ * or PDF) in R2, and enqueues a notification to the recipients (in-app,
+ * push and email, per each recipient's preferences). Reads downstream by
+ * the deliveries list/detail UI.
  *
- * R2 key shape: `report-exports/{practiceId}/{deliveryId}/{reportType}.csv`
- * D1 table:    `report_deliveries` (see migration 20260514).
+ * R2 key shape: `report-exports/{practiceId}/{deliveryId}/{reportType}.{format}`
+ * D1 table:    `report_deliveries` (see migrations 20260514, 20261019).
  */
 
-import type { Env, NotificationQueueMessage } from '../types.js';
-import { enqueueNotification } from './NotificationPublisher.js';
+import type { Env, NotificationCategory, NotificationQueueMessage, NotificationRecipientSnapshot } from '../types.js';
+import { defaultRecipientSnapshots, enqueueNotification, getUserRecipients } from './NotificationPublisher.js';
+import { RemoteApiService } from './RemoteApiService.js';
+import { Logger } from '../utils/logger.js';
+import {
+  REPORT_CONTENT_TYPES,
+  isReportExportFormat,
+  type ReportExportFormat,
+} from '../utils/reportExport.js';
 
 export type ReportDeliveryStatus = 'pending' | 'completed' | 'failed';
 
@@ -16,6 +24,8 @@ export interface ReportDelivery {
   id: string;
   practiceId: string;
   reportType: string;
+  /** Rows created before format support are CSV. */
+  format: ReportExportFormat;
   filters: Record<string, string>;
   recipients: string[];
   status: ReportDeliveryStatus;
@@ -29,10 +39,15 @@ export interface ReportDelivery {
 }
 
 const DEFAULT_LIMIT = 25;
+const REPORT_NOTIFICATION_CATEGORY: NotificationCategory = 'matter';
 const MAX_LIMIT = 100;
 
-const buildStorageKey = (practiceId: string, deliveryId: string, reportType: string) =>
-  `report-exports/${practiceId}/${deliveryId}/${reportType}.csv`;
+const buildStorageKey = (
+  practiceId: string,
+  deliveryId: string,
+  reportType: string,
+  format: ReportExportFormat
+) => `report-exports/${practiceId}/${deliveryId}/${reportType}.${format}`;
 
 const parseDeliveryCursor = (cursor: string | null): { createdAt: string; id: string } | null => {
   if (!cursor) return null;
@@ -50,6 +65,7 @@ const rowToDelivery = (row: Record<string, unknown>): ReportDelivery => ({
   id: String(row.id),
   practiceId: String(row.practice_id),
   reportType: String(row.report_type),
+  format: isReportExportFormat(row.format) ? row.format : 'csv',
   filters: row.filters_json ? safeJsonParse(String(row.filters_json), {} as Record<string, string>) : {},
   recipients: row.recipients_json ? safeJsonParse(String(row.recipients_json), [] as string[]) : [],
   status: (row.status as ReportDeliveryStatus) ?? 'pending',
@@ -72,21 +88,24 @@ export class ReportDeliveryService {
   async create(input: {
     practiceId: string;
     reportType: string;
+    format?: ReportExportFormat;
     filters: Record<string, string>;
     recipients: string[];
     createdBy: string;
     scheduledFor?: string;
   }): Promise<ReportDelivery> {
+    const format = input.format ?? 'csv';
     const id = crypto.randomUUID();
     const createdAt = new Date().toISOString();
     await this.env.DB.prepare(`
       INSERT INTO report_deliveries
-        (id, practice_id, report_type, filters_json, recipients_json, status, created_by, created_at, scheduled_for)
-      VALUES (?, ?, ?, ?, ?, 'pending', ?, ?, ?)
+        (id, practice_id, report_type, format, filters_json, recipients_json, status, created_by, created_at, scheduled_for)
+      VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
     `).bind(
       id,
       input.practiceId,
       input.reportType,
+      format,
       JSON.stringify(input.filters),
       JSON.stringify(input.recipients),
       input.createdBy,
@@ -98,6 +117,7 @@ export class ReportDeliveryService {
       id,
       practiceId: input.practiceId,
       reportType: input.reportType,
+      format,
       filters: input.filters,
       recipients: input.recipients,
       status: 'pending',
@@ -107,19 +127,16 @@ export class ReportDeliveryService {
     };
   }
 
-  async storeCsv(
-    practiceId: string,
-    deliveryId: string,
-    reportType: string,
-    body: string
+  async storeExport(
+    delivery: Pick<ReportDelivery, 'id' | 'practiceId' | 'reportType' | 'format'>,
+    bytes: Uint8Array
   ): Promise<{ storageKey: string; byteSize: number }> {
     if (!this.env.FILES_BUCKET) {
       throw new Error('FILES_BUCKET binding not configured');
     }
-    const key = buildStorageKey(practiceId, deliveryId, reportType);
-    const bytes = new TextEncoder().encode(body);
+    const key = buildStorageKey(delivery.practiceId, delivery.id, delivery.reportType, delivery.format);
     await this.env.FILES_BUCKET.put(key, bytes, {
-      httpMetadata: { contentType: 'text/csv; charset=utf-8' },
+      httpMetadata: { contentType: REPORT_CONTENT_TYPES[delivery.format] },
     });
     return { storageKey: key, byteSize: bytes.byteLength };
   }
@@ -193,50 +210,78 @@ export class ReportDeliveryService {
   }
 
   async downloadBody(delivery: ReportDelivery): Promise<{ body: ReadableStream | null; contentType: string; size: number | null }> {
+    const fallbackType = REPORT_CONTENT_TYPES[delivery.format];
     if (!delivery.storageKey || !this.env.FILES_BUCKET) {
-      return { body: null, contentType: 'text/csv; charset=utf-8', size: null };
+      return { body: null, contentType: fallbackType, size: null };
     }
     const obj = await this.env.FILES_BUCKET.get(delivery.storageKey);
-    if (!obj) return { body: null, contentType: 'text/csv; charset=utf-8', size: null };
+    if (!obj) return { body: null, contentType: fallbackType, size: null };
     return {
       body: obj.body as unknown as ReadableStream,
-      contentType: obj.httpMetadata?.contentType ?? 'text/csv; charset=utf-8',
+      contentType: obj.httpMetadata?.contentType ?? fallbackType,
       size: typeof obj.size === 'number' ? obj.size : null,
     };
   }
 
+  /**
+   * `recipients` on a delivery are user ids, resolved to practice members
+   * (email address + notification preferences) with the worker's service
+   * credentials, so the lookup doesn't depend on who sent the report or
+   * whether a request is at hand; the sender's request is only a fallback
+   * when no service token is configured. Report
+   * notices use the `matter` category so members can turn the emails off and
+   * each one carries an unsubscribe link. If neither lookup is possible the
+   * recipients still get the in-app and push notification but no email.
+   */
   async notifyRecipients(input: {
     practiceId: string;
     delivery: ReportDelivery;
     practiceSlug: string | null;
+    request?: Request;
   }): Promise<void> {
     const link = input.practiceSlug
       ? `/practice/${encodeURIComponent(input.practiceSlug)}/reports/deliveries/${input.delivery.id}`
       : `/reports/deliveries/${input.delivery.id}`;
+    const recipients = await this.resolveRecipients(input.practiceId, input.delivery.recipients, input.request);
+    if (recipients.length === 0) return;
     const message: NotificationQueueMessage = {
       eventId: crypto.randomUUID(),
       practiceId: input.practiceId,
-      category: 'system',
+      category: REPORT_NOTIFICATION_CATEGORY,
       entityType: 'report_delivery',
       entityId: input.delivery.id,
       title: `Report ready: ${input.delivery.reportType}`,
-      body: 'Your report is ready to download.',
+      body: `Your ${input.delivery.format.toUpperCase()} report is ready to download.`,
       link,
       severity: 'info',
-      recipients: input.delivery.recipients.map((userId) => ({
-        userId,
-        email: null,
-        preferences: {
-          pushEnabled: true,
-          emailEnabled: true,
-          desktopPushEnabled: true,
-          mentionsOnly: false,
-          inAppEnabled: true,
-          inAppFrequency: 'all',
-        },
-      })),
+      recipients,
       createdAt: new Date().toISOString(),
     };
     await enqueueNotification(this.env, message);
   }
+
+  private async resolveRecipients(
+    practiceId: string,
+    userIds: string[],
+    request?: Request
+  ): Promise<NotificationRecipientSnapshot[]> {
+    const serviceRequest = RemoteApiService.serviceRequest(this.env);
+    const lookupRequest = serviceRequest ?? request ?? null;
+    if (!lookupRequest) {
+      Logger.error('No session or service token to resolve report recipients; sending without email', {
+        practiceId,
+      });
+      return defaultRecipientSnapshots(userIds);
+    }
+    try {
+      return await getUserRecipients(this.env, practiceId, lookupRequest, userIds, REPORT_NOTIFICATION_CATEGORY);
+    } catch (error) {
+      Logger.error('Failed to resolve report recipients; sending without email', {
+        practiceId,
+        serviceAuth: Boolean(serviceRequest),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return defaultRecipientSnapshots(userIds);
+    }
+  }
 }
@@ -3,21 +3,37 @@
  * `report-schedule:${practiceId}:${id}`.
  *
  * `computeNextDelivery` is exported separately so unit tests can exercise
- * the cron math without the KV layer.
+ * the cron math without the KV layer. Presets (daily/weekly/monthly) are
+ * converted to cron expressions so every schedule goes through the same
+ * timezone-aware evaluator in utils/cron.ts.
  */
 
 import type { Env } from '../types.js';
+import { isValidTimeZone, nextCronOccurrences, type CronOccurrenceOptions } from '../utils/cron.js';
+import type { ReportExportFormat } from '../utils/reportExport.js';
 
-export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly' | 'custom';
 
 export interface ReportSchedule {
   id: string;
   practiceId: string;
   reportType: string;
+  /** Export format for each delivery. Missing means CSV. */
+  format?: ReportExportFormat;
   frequency: ReportFrequency;
   dayOfWeek?: number;
   dayOfMonth?: number;
-  hourUtc: number;
+  /**
+   * Legacy delivery hour in UTC. Schedules saved before timezone support only
+   * carry this field; newer schedules use `hour` + `timezone`.
+   */
+  hourUtc?: number;
+  /** Wall-clock delivery hour (0-23) in `timezone`. Ignored for custom schedules. */
+  hour?: number;
+  /** IANA timezone, e.g. America/New_York. Missing means UTC. */
+  timezone?: string;
+  /** Five-field cron expression; required when frequency is 'custom'. */
+  cron?: string;
   recipients: string[];
   filters: Record<string, string>;
   active: boolean;
@@ -26,6 +42,22 @@ export interface ReportSchedule {
   nextDeliveryAt?: string;
 }
 
+export type ReportScheduleInput = Omit<
+  ReportSchedule,
+  'id' | 'practiceId' | 'createdAt' | 'updatedAt' | 'nextDeliveryAt' | 'active'
+> & { active?: boolean };
+
+/** Thrown when a schedule's timing can't produce a delivery time. Routes map it to 400. */
+export class InvalidScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidScheduleError';
+  }
+}
+
+/** Number of upcoming runs returned by the preview endpoint. */
+export const SCHEDULE_PREVIEW_COUNT = 5;
+
 const KEY_PREFIX = 'report-schedule:';
 
 const buildKey = (practiceId: string, scheduleId: string) =>
@@ -36,47 +68,94 @@ const listPrefix = (practiceId: string) => `${KEY_PREFIX}${practiceId}:`;
 const requireDayOfWeek = (value: number | undefined): number => {
   const target = value ?? 1; // Monday default
   if (!Number.isInteger(target) || target < 0 || target > 6) {
-    throw new Error('dayOfWeek must be an integer from 0-6');
+    throw new InvalidScheduleError('dayOfWeek must be an integer from 0-6');
   }
   return target;
 };
 
-export const computeNextDelivery = (
-  frequency: ReportFrequency,
-  hourUtc: number,
-  options: { dayOfWeek?: number; dayOfMonth?: number; from?: Date } = {}
+/** Cron expression equivalent of a daily/weekly/monthly preset. */
+export const presetToCron = (
+  frequency: Exclude<ReportFrequency, 'custom'>,
+  hour: number,
+  options: { dayOfWeek?: number; dayOfMonth?: number } = {}
 ): string => {
-  const from = options.from ?? new Date();
-  const candidate = new Date(Date.UTC(
-    from.getUTCFullYear(),
-    from.getUTCMonth(),
-    from.getUTCDate(),
-    hourUtc,
-    0,
-    0,
-    0
-  ));
-  if (candidate <= from) candidate.setUTCDate(candidate.getUTCDate() + 1);
-
-  if (frequency === 'daily') {
-    return candidate.toISOString();
-  }
-  if (frequency === 'weekly') {
-    const target = requireDayOfWeek(options.dayOfWeek);
-    while (candidate.getUTCDay() !== target) {
-      candidate.setUTCDate(candidate.getUTCDate() + 1);
-    }
-    return candidate.toISOString();
-  }
-  // monthly
+  if (frequency === 'daily') return `0 ${hour} * * *`;
+  if (frequency === 'weekly') return `0 ${hour} * * ${requireDayOfWeek(options.dayOfWeek)}`;
+  // Clamp to 28 so every month has the day (no Feb 30th).
   const targetDay = Math.max(1, Math.min(28, options.dayOfMonth ?? 1));
-  if (candidate.getUTCDate() > targetDay) {
-    candidate.setUTCMonth(candidate.getUTCMonth() + 1);
+  return `0 ${hour} ${targetDay} * *`;
+};
+
+interface NextDeliveryOptions {
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  from?: Date;
+  /** IANA timezone `hour` is expressed in. Defaults to UTC. */
+  timezone?: string;
+  /** Required when frequency is 'custom'. */
+  cron?: string;
+  /** Anchor for every-n-weeks cron rules; normally the schedule's createdAt. */
+  anchor?: Date;
+}
+
+/**
+ * Returns the next `count` delivery instants as ISO strings. Throws when the
+ * schedule is invalid or never fires.
+ */
+export const computeDeliveryPreview = (
+  frequency: ReportFrequency,
+  hour: number,
+  count: number,
+  options: NextDeliveryOptions = {}
+): string[] => {
+  let expression: string;
+  if (frequency === 'custom') {
+    if (!options.cron) throw new InvalidScheduleError('cron is required for custom schedules');
+    expression = options.cron;
+  } else {
+    expression = presetToCron(frequency, hour, options);
+  }
+  const timeZone = options.timezone ?? 'UTC';
+  if (!isValidTimeZone(timeZone)) throw new InvalidScheduleError(`Unknown timezone: ${timeZone}`);
+
+  const occurrenceOptions: CronOccurrenceOptions = {
+    timeZone,
+    from: options.from,
+    anchor: options.anchor,
+    count,
+  };
+  let runs: Date[];
+  try {
+    runs = nextCronOccurrences(expression, occurrenceOptions);
+  } catch (error) {
+    throw new InvalidScheduleError(error instanceof Error ? error.message : 'Invalid cron expression');
   }
-  candidate.setUTCDate(targetDay);
-  return candidate.toISOString();
+  if (runs.length === 0) throw new InvalidScheduleError('Schedule never runs');
+  return runs.map((run) => run.toISOString());
 };
 
+export const computeNextDelivery = (
+  frequency: ReportFrequency,
+  hour: number,
+  options: NextDeliveryOptions = {}
+): string => computeDeliveryPreview(frequency, hour, 1, options)[0];
+
+const resolveScheduleHour = (schedule: Pick<ReportSchedule, 'hour' | 'hourUtc'>): number =>
+  schedule.hour ?? schedule.hourUtc ?? 0;
+
+/** Next delivery for a stored schedule, honouring legacy UTC-only rows. */
+export const computeScheduleNextDelivery = (
+  schedule: Pick<ReportSchedule, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'hourUtc' | 'hour' | 'timezone' | 'cron' | 'createdAt'>,
+  from?: Date
+): string => computeNextDelivery(schedule.frequency, resolveScheduleHour(schedule), {
+  dayOfWeek: schedule.dayOfWeek,
+  dayOfMonth: schedule.dayOfMonth,
+  timezone: schedule.timezone ?? 'UTC',
+  cron: schedule.cron,
+  anchor: new Date(schedule.createdAt),
+  from,
+});
+
 export class ReportScheduleService {
   constructor(private readonly env: Env) {}
 
@@ -110,7 +189,7 @@ export class ReportScheduleService {
 
   async create(
     practiceId: string,
-    input: Omit<ReportSchedule, 'id' | 'practiceId' | 'createdAt' | 'updatedAt' | 'nextDeliveryAt' | 'active'> & { active?: boolean }
+    input: ReportScheduleInput
   ): Promise<ReportSchedule> {
     const id = crypto.randomUUID();
     const now = new Date().toISOString();
@@ -118,20 +197,21 @@ export class ReportScheduleService {
       id,
       practiceId,
       reportType: input.reportType,
+      format: input.format ?? 'csv',
       frequency: input.frequency,
       dayOfWeek: input.dayOfWeek,
       dayOfMonth: input.dayOfMonth,
       hourUtc: input.hourUtc,
+      hour: input.hour,
+      timezone: input.timezone,
+      cron: input.frequency === 'custom' ? input.cron : undefined,
       recipients: input.recipients,
       filters: input.filters,
       active: input.active ?? true,
       createdAt: now,
       updatedAt: now,
-      nextDeliveryAt: computeNextDelivery(input.frequency, input.hourUtc, {
-        dayOfWeek: input.dayOfWeek,
-        dayOfMonth: input.dayOfMonth,
-      }),
     };
+    record.nextDeliveryAt = computeScheduleNextDelivery(record);
     await this.env.CHAT_SESSIONS.put(buildKey(practiceId, id), JSON.stringify(record));
     return record;
   }
@@ -151,10 +231,16 @@ export class ReportScheduleService {
       createdAt: existing.createdAt,
       updatedAt: new Date().toISOString(),
     };
-    merged.nextDeliveryAt = computeNextDelivery(merged.frequency, merged.hourUtc, {
-      dayOfWeek: merged.dayOfWeek,
-      dayOfMonth: merged.dayOfMonth,
-    });
+    // Setting the legacy UTC hour turns the schedule back into a UTC one;
+    // setting hour/timezone retires the legacy field.
+    if (patch.hourUtc !== undefined && patch.hour === undefined) {
+      merged.hour = patch.hourUtc;
+      merged.timezone = 'UTC';
+    } else if (patch.hour !== undefined || patch.timezone !== undefined) {
+      delete merged.hourUtc;
+    }
+    if (merged.frequency !== 'custom') delete merged.cron;
+    merged.nextDeliveryAt = computeScheduleNextDelivery(merged);
     await this.env.CHAT_SESSIONS.put(buildKey(practiceId, scheduleId), JSON.stringify(merged));
     return merged;
   }
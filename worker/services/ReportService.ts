@@ -6,8 +6,16 @@
  * round-trips). The class wires those helpers into Railway fetches.
  *
  * Money convention:
- *   - Invoice fields are in cents (integers). Field names suffixed `*Cents`.
- *   - Matter hourly rates are in dollars (MajorAmount). Suffixed `*Dollars`.
+ *   - Invoice fields are in integer minor units of the invoice currency.
+ *     Field names are suffixed `*Cents` even for zero- and three-decimal
+ *     currencies.
+ *   - Revenue, aging, profitability, trust-ledger, WIP and originating-attorney
+ *     rows carry their `currency`.
+ *     Money totals are only summed within a currency: `subtotals` holds one
+ *     entry per currency, and the top-level money totals are null when more
+ *     than one currency is present.
+ *   - Matter hourly rates are major units of the matter's billing currency
+ *     (MajorAmount). Suffixed `*Dollars`.
  *   - Time totals are in hours (number). Suffixed `*Hours`.
  *
  * Pagination cap: invoices/matters paginate at MAX_LIST_PAGE_SIZE/page;
@@ -16,6 +24,7 @@
 
 import type { Env } from '../types.js';
 import { Logger } from '../utils/logger.js';
+import { currencyMinorUnitDigits, DEFAULT_CURRENCY, normalizeCurrencyCode } from '../utils/money.js';
 import { BackendInvoiceSchema, type BackendInvoice } from '../types/wire/invoice.js';
 import {
   BackendMatterSchema,
@@ -188,18 +197,29 @@ export interface RevenueAggregateRow {
   periodLabel: string;
   periodStart: string;
   periodEnd: string;
+  currency: string;
   invoiceCount: number;
   paidAmountCents: number;
   outstandingAmountCents: number;
 }
 
-export interface RevenueAggregate {
-  rows: RevenueAggregateRow[];
+export interface RevenueCurrencySubtotal {
+  currency: string;
   totalPaidCents: number;
   totalOutstandingCents: number;
   totalInvoiceCount: number;
 }
 
+export interface RevenueAggregate {
+  rows: RevenueAggregateRow[];
+  /** Null when invoices span more than one currency; see `subtotals`. */
+  totalPaidCents: number | null;
+  totalOutstandingCents: number | null;
+  totalInvoiceCount: number;
+  currencies: string[];
+  subtotals: RevenueCurrencySubtotal[];
+}
+
 const toCents = (value: unknown): number => {
   if (typeof value !== 'number' || !Number.isFinite(value)) return 0;
   return Math.round(value);
@@ -214,56 +234,82 @@ const parseDateMs = (raw: unknown): number | null => {
   return null;
 };
 
+const byCurrency = <T extends { currency: string }>(a: T, b: T): number => a.currency.localeCompare(b.currency);
+
+/**
+ * Grand total for a money field: the single currency's subtotal, 0 when
+ * there is no data, and null when summing would mix currencies.
+ */
+const singleCurrencyTotal = <T extends { currency: string }>(
+  subtotals: readonly T[],
+  pick: (subtotal: T) => number
+): number | null => {
+  if (subtotals.length > 1) return null;
+  return subtotals.length === 1 ? pick(subtotals[0]) : 0;
+};
+
 /**
- * Group invoices by period (month/quarter/year). An invoice is bucketed by
- * `paid_at` when present (falling back to `created_at`). Unpaid invoices
- * contribute to `outstandingAmountCents` but not `invoiceCount`.
+ * Group invoices by period (month/quarter/year) and currency. An invoice is
+ * bucketed by `paid_at` when present (falling back to `created_at`). Unpaid
+ * invoices contribute to `outstandingAmountCents` but not `invoiceCount`.
  */
 export const groupRevenue = (
   invoices: readonly BackendInvoice[],
   granularity: 'month' | 'quarter' | 'year',
   range: ResolvedDateRange
 ): RevenueAggregate => {
-  const buckets = new Map<number, RevenueAggregateRow>();
-  let totalPaid = 0;
-  let totalOutstanding = 0;
+  const buckets = new Map<string, RevenueAggregateRow>();
+  const subtotals = new Map<string, RevenueCurrencySubtotal>();
   let totalInvoiceCount = 0;
 
   for (const inv of invoices) {
     const eventMs = parseDateMs(inv.paid_at) ?? parseDateMs(inv.created_at);
     if (eventMs == null) continue;
     if (eventMs < range.startMs || eventMs > range.endMs) continue;
-    const bucketKey = bucketStartFor(new Date(eventMs), granularity);
+    const currency = normalizeCurrencyCode(inv.currency);
+    const periodStartMs = bucketStartFor(new Date(eventMs), granularity);
+    const bucketKey = `${periodStartMs}:${currency}`;
     let row = buckets.get(bucketKey);
     if (!row) {
       row = {
-        periodLabel: formatPeriodLabel(bucketKey, granularity),
-        periodStart: new Date(bucketKey).toISOString(),
-        periodEnd: new Date(bucketKey).toISOString(),
+        periodLabel: formatPeriodLabel(periodStartMs, granularity),
+        periodStart: new Date(periodStartMs).toISOString(),
+        periodEnd: new Date(periodStartMs).toISOString(),
+        currency,
         invoiceCount: 0,
         paidAmountCents: 0,
         outstandingAmountCents: 0,
       };
       buckets.set(bucketKey, row);
     }
+    let subtotal = subtotals.get(currency);
+    if (!subtotal) {
+      subtotal = { currency, totalPaidCents: 0, totalOutstandingCents: 0, totalInvoiceCount: 0 };
+      subtotals.set(currency, subtotal);
+    }
     const paid = toCents(inv.amount_paid);
     const due = toCents(inv.amount_due);
     row.paidAmountCents += paid;
     row.outstandingAmountCents += due;
+    subtotal.totalPaidCents += paid;
+    subtotal.totalOutstandingCents += due;
     if (paid > 0) {
       row.invoiceCount += 1;
+      subtotal.totalInvoiceCount += 1;
       totalInvoiceCount += 1;
     }
-    totalPaid += paid;
-    totalOutstanding += due;
   }
 
-  const rows = Array.from(buckets.values()).sort((a, b) => a.periodStart.localeCompare(b.periodStart));
+  const rows = Array.from(buckets.values())
+    .sort((a, b) => a.periodStart.localeCompare(b.periodStart) || byCurrency(a, b));
+  const currencySubtotals = Array.from(subtotals.values()).sort(byCurrency);
   return {
     rows,
-    totalPaidCents: totalPaid,
-    totalOutstandingCents: totalOutstanding,
+    totalPaidCents: singleCurrencyTotal(currencySubtotals, (t) => t.totalPaidCents),
+    totalOutstandingCents: singleCurrencyTotal(currencySubtotals, (t) => t.totalOutstandingCents),
     totalInvoiceCount,
+    currencies: currencySubtotals.map((t) => t.currency),
+    subtotals: currencySubtotals,
   };
 };
 
@@ -273,14 +319,24 @@ export interface AgingAggregateRow {
   bucketLabel: string;
   bucketMinDays: number;
   bucketMaxDays: number | null;
+  currency: string;
   invoiceCount: number;
   totalAmountCents: number;
 }
 
+export interface AgingCurrencySubtotal {
+  currency: string;
+  totalOutstandingCents: number;
+  totalInvoiceCount: number;
+}
+
 export interface AgingAggregate {
   rows: AgingAggregateRow[];
-  totalOutstandingCents: number;
+  /** Null when invoices span more than one currency; see `subtotals`. */
+  totalOutstandingCents: number | null;
   totalInvoiceCount: number;
+  currencies: string[];
+  subtotals: AgingCurrencySubtotal[];
 }
 
 const AGING_BUCKETS: Array<{ label: string; min: number; max: number | null }> = [
@@ -297,23 +353,27 @@ const isUnpaidStatus = (status: string | null | undefined): boolean => {
   return s === 'sent' || s === 'open' || s === 'overdue' || s === 'draft';
 };
 
+const emptyAgingRows = (currency: string): AgingAggregateRow[] =>
+  AGING_BUCKETS.map((b) => ({
+    bucketLabel: b.label,
+    bucketMinDays: Number.isFinite(b.min) ? b.min : 0,
+    bucketMaxDays: b.max,
+    currency,
+    invoiceCount: 0,
+    totalAmountCents: 0,
+  }));
+
 /**
  * Bucket unpaid invoices by daysOverdue from `due_date` (fallback
- * `issue_date + 30d`). `now` defaults to current time; tests pass a fixed
- * value.
+ * `issue_date + 30d`). Each currency gets its own full set of buckets;
+ * with no unpaid invoices the USD buckets are returned empty. `now`
+ * defaults to current time; tests pass a fixed value.
  */
 export const bucketAging = (
   invoices: readonly BackendInvoice[],
   now: Date = new Date()
 ): AgingAggregate => {
-  const rows: AgingAggregateRow[] = AGING_BUCKETS.map((b) => ({
-    bucketLabel: b.label,
-    bucketMinDays: Number.isFinite(b.min) ? b.min : 0,
-    bucketMaxDays: b.max,
-    invoiceCount: 0,
-    totalAmountCents: 0,
-  }));
-  let totalOutstandingCents = 0;
+  const rowsByCurrency = new Map<string, AgingAggregateRow[]>();
   let totalInvoiceCount = 0;
   const nowMs = now.getTime();
 
@@ -331,13 +391,35 @@ export const bucketAging = (
     const daysOverdue = Math.floor((nowMs - dueMs) / 86400000);
     const idx = AGING_BUCKETS.findIndex((b) => daysOverdue >= b.min && (b.max == null || daysOverdue <= b.max));
     if (idx === -1) continue;
+    const currency = normalizeCurrencyCode(inv.currency);
+    let rows = rowsByCurrency.get(currency);
+    if (!rows) {
+      rows = emptyAgingRows(currency);
+      rowsByCurrency.set(currency, rows);
+    }
     rows[idx].invoiceCount += 1;
     rows[idx].totalAmountCents += due;
-    totalOutstandingCents += due;
     totalInvoiceCount += 1;
   }
 
-  return { rows, totalOutstandingCents, totalInvoiceCount };
+  if (rowsByCurrency.size === 0) rowsByCurrency.set(DEFAULT_CURRENCY, emptyAgingRows(DEFAULT_CURRENCY));
+  const currencies = Array.from(rowsByCurrency.keys()).sort();
+  const subtotals: AgingCurrencySubtotal[] = currencies.map((currency) => {
+    const rows = rowsByCurrency.get(currency) ?? [];
+    return {
+      currency,
+      totalOutstandingCents: rows.reduce((sum, r) => sum + r.totalAmountCents, 0),
+      totalInvoiceCount: rows.reduce((sum, r) => sum + r.invoiceCount, 0),
+    };
+  });
+
+  return {
+    rows: currencies.flatMap((currency) => rowsByCurrency.get(currency) ?? []),
+    totalOutstandingCents: singleCurrencyTotal(subtotals, (t) => t.totalOutstandingCents),
+    totalInvoiceCount,
+    currencies,
+    subtotals,
+  };
 };
 
 // ─── profitability ────────────────────────────────────────────────────────
@@ -345,20 +427,89 @@ export const bucketAging = (
 export interface ProfitabilityAggregateRow {
   matterId: string;
   matterTitle: string;
+  currency: string;
   revenueCents: number;
   estimatedCostCents: number;
   marginCents: number;
   billableHours: number;
 }
 
-export interface ProfitabilityAggregate {
-  rows: ProfitabilityAggregateRow[];
+export interface ProfitabilityCurrencySubtotal {
+  currency: string;
   totalRevenueCents: number;
   totalCostCents: number;
   totalMarginCents: number;
+}
+
+export interface ProfitabilityAggregate {
+  rows: ProfitabilityAggregateRow[];
+  /** Null when rows span more than one currency; see `subtotals`. */
+  totalRevenueCents: number | null;
+  totalCostCents: number | null;
+  totalMarginCents: number | null;
+  currencies: string[];
+  subtotals: ProfitabilityCurrencySubtotal[];
   truncated: boolean;
 }
 
+/**
+ * A matter's invoicing as the matter-level reports need it: the currency it
+ * bills in and its paid revenue in the date range, per currency.
+ */
+export interface MatterBilling {
+  /** Currency of the matter's latest invoice; estimated cost is in this currency. */
+  currency: string;
+  paidCentsByCurrency: Map<string, number>;
+}
+
+export interface MatterBillingSummary {
+  byMatter: Map<string, MatterBilling>;
+  /** Currency of the practice's latest invoice, for matters not invoiced yet. */
+  currency: string;
+}
+
+/**
+ * Per-matter billing from the practice's invoices. Paid revenue counts when
+ * the invoice was paid (or created, when `paid_at` is missing) in `range`.
+ */
+export const summarizeMatterBilling = (
+  invoices: readonly BackendInvoice[],
+  range: ResolvedDateRange
+): MatterBillingSummary => {
+  const byMatter = new Map<string, MatterBilling & { latestMs: number }>();
+  let practiceCurrency = DEFAULT_CURRENCY;
+  let practiceLatestMs = Number.NEGATIVE_INFINITY;
+  for (const inv of invoices) {
+    const currency = normalizeCurrencyCode(inv.currency);
+    const createdMs = parseDateMs(inv.created_at) ?? Number.NEGATIVE_INFINITY;
+    if (createdMs >= practiceLatestMs) {
+      practiceCurrency = currency;
+      practiceLatestMs = createdMs;
+    }
+    if (!inv.matter_id) continue;
+    let billing = byMatter.get(inv.matter_id);
+    if (!billing) {
+      billing = { currency, paidCentsByCurrency: new Map(), latestMs: Number.NEGATIVE_INFINITY };
+      byMatter.set(inv.matter_id, billing);
+    }
+    if (createdMs >= billing.latestMs) {
+      billing.currency = currency;
+      billing.latestMs = createdMs;
+    }
+    const eventMs = parseDateMs(inv.paid_at) ?? parseDateMs(inv.created_at);
+    if (eventMs == null || eventMs < range.startMs || eventMs > range.endMs) continue;
+    const paid = toCents(inv.amount_paid);
+    if (paid <= 0) continue;
+    billing.paidCentsByCurrency.set(currency, (billing.paidCentsByCurrency.get(currency) ?? 0) + paid);
+  }
+  return {
+    byMatter: new Map(
+      Array.from(byMatter, ([matterId, { currency, paidCentsByCurrency }]) => [matterId, { currency, paidCentsByCurrency }])
+    ),
+    currency: practiceCurrency,
+  };
+};
+
 const matterRateDollars = (matter: BackendMatter): number | null => {
   const rate = matter.attorney_hourly_rate;
   return typeof rate === 'number' && Number.isFinite(rate) ? rate : null;
@@ -379,44 +530,74 @@ export const sumBillableHours = (entries: readonly BackendMatterTimeEntry[]): nu
   return totalSeconds / 3600;
 };
 
+/**
+ * One row per matter and currency. Estimated cost (hours × rate, the rate
+ * read as major units of the matter's billing currency) lands on the
+ * billing-currency row; revenue paid in any other currency gets a
+ * revenue-only row. Matters not invoiced yet bill in the practice's latest
+ * invoice currency.
+ */
 export const computeProfitability = (
   matters: readonly BackendMatter[],
   timeEntriesByMatter: Map<string, BackendMatterTimeEntry[]>,
+  billing: MatterBillingSummary,
   overrideHourlyRateDollars: number | null,
   truncated = false
 ): ProfitabilityAggregate => {
   const rows: ProfitabilityAggregateRow[] = [];
-  let totalRevenue = 0;
-  let totalCost = 0;
-  let totalMargin = 0;
+  const subtotals = new Map<string, ProfitabilityCurrencySubtotal>();
+  const addRow = (row: ProfitabilityAggregateRow) => {
+    rows.push(row);
+    let subtotal = subtotals.get(row.currency);
+    if (!subtotal) {
+      subtotal = { currency: row.currency, totalRevenueCents: 0, totalCostCents: 0, totalMarginCents: 0 };
+      subtotals.set(row.currency, subtotal);
+    }
+    subtotal.totalRevenueCents += row.revenueCents;
+    subtotal.totalCostCents += row.estimatedCostCents;
+    subtotal.totalMarginCents += row.marginCents;
+  };
   for (const m of matters) {
     const entries = timeEntriesByMatter.get(m.id) ?? [];
     const hours = sumBillableHours(entries);
     const rate = overrideHourlyRateDollars ?? matterRateDollars(m) ?? DEFAULT_PROFITABILITY_RATE_DOLLARS;
-    const estimatedCostCents = Math.round(hours * rate * 100);
-    // Revenue per matter is the running paid-invoice subtotal injected by
-    // the caller via m.metadata; computed in `ReportService.profitability`.
-    const meta = (m as unknown as { __revenueCents?: number }).__revenueCents;
-    const revenueCents = typeof meta === 'number' ? meta : 0;
-    const marginCents = revenueCents - estimatedCostCents;
-    rows.push({
+    const matterBilling = billing.byMatter.get(m.id);
+    const billingCurrency = matterBilling?.currency ?? billing.currency;
+    const paid = matterBilling?.paidCentsByCurrency ?? new Map<string, number>();
+    const estimatedCostCents = Math.round(hours * rate * 10 ** currencyMinorUnitDigits(billingCurrency));
+    const revenueCents = paid.get(billingCurrency) ?? 0;
+    addRow({
       matterId: m.id,
       matterTitle: m.title ?? m.id,
+      currency: billingCurrency,
       revenueCents,
       estimatedCostCents,
-      marginCents,
+      marginCents: revenueCents - estimatedCostCents,
       billableHours: Number(hours.toFixed(2)),
     });
-    totalRevenue += revenueCents;
-    totalCost += estimatedCostCents;
-    totalMargin += marginCents;
+    for (const [currency, otherRevenueCents] of paid) {
+      if (currency === billingCurrency) continue;
+      addRow({
+        matterId: m.id,
+        matterTitle: m.title ?? m.id,
+        currency,
+        revenueCents: otherRevenueCents,
+        estimatedCostCents: 0,
+        marginCents: otherRevenueCents,
+        billableHours: 0,
+      });
+    }
   }
-  rows.sort((a, b) => b.marginCents - a.marginCents);
+  // Amounts in different currencies aren't comparable, so group by currency first.
+  rows.sort((a, b) => byCurrency(a, b) || b.marginCents - a.marginCents);
+  const currencySubtotals = Array.from(subtotals.values()).sort(byCurrency);
   return {
     rows,
-    totalRevenueCents: totalRevenue,
-    totalCostCents: totalCost,
-    totalMarginCents: totalMargin,
+    totalRevenueCents: singleCurrencyTotal(currencySubtotals, (t) => t.totalRevenueCents),
+    totalCostCents: singleCurrencyTotal(currencySubtotals, (t) => t.totalCostCents),
+    totalMarginCents: singleCurrencyTotal(currencySubtotals, (t) => t.totalMarginCents),
+    currencies: currencySubtotals.map((t) => t.currency),
+    subtotals: currencySubtotals,
     truncated,
   };
 };
@@ -493,20 +674,32 @@ export interface TrustLedgerAggregateRow {
   occurredAt: string;
   clientName: string | null;
   description: string | null;
+  currency: string;
   amountCents: number;
   balanceCents: number;
   type: string | null;
 }
 
-export interface TrustLedgerAggregate {
-  rows: TrustLedgerAggregateRow[];
+export interface TrustLedgerCurrencySubtotal {
+  currency: string;
   totalCreditsCents: number;
   totalDebitsCents: number;
   endingBalanceCents: number;
   transactionCount: number;
 }
 
-const resolveClientName = (raw: BackendTrustTransaction): string | null => {
+export interface TrustLedgerAggregate {
+  rows: TrustLedgerAggregateRow[];
+  /** Money totals are null when transactions span more than one currency; see `subtotals`. */
+  totalCreditsCents: number | null;
+  totalDebitsCents: number | null;
+  endingBalanceCents: number | null;
+  transactionCount: number;
+  currencies: string[];
+  subtotals: TrustLedgerCurrencySubtotal[];
+}
+
+export const resolveClientName = (raw: BackendTrustTransaction): string | null => {
   if (raw.client_name) return raw.client_name;
   if (raw.client && typeof raw.client === 'object') {
     const c = raw.client as Record<string, unknown>;
@@ -521,34 +714,48 @@ export const aggregateTrustLedger = (
   range: ResolvedDateRange
 ): TrustLedgerAggregate => {
   const filtered: TrustLedgerAggregateRow[] = [];
-  let credits = 0;
-  let debits = 0;
   for (const txn of transactions) {
     const ms = parseDateMs(txn.occurred_at);
     if (ms == null || ms < range.startMs || ms > range.endMs) continue;
-    const amount = toCents(txn.amount);
-    const balance = toCents(txn.balance_after);
     filtered.push({
       id: txn.id,
       occurredAt: new Date(ms).toISOString(),
       clientName: resolveClientName(txn),
       description: txn.description ?? null,
-      amountCents: amount,
-      balanceCents: balance,
+      currency: normalizeCurrencyCode(txn.currency),
+      amountCents: toCents(txn.amount),
+      balanceCents: toCents(txn.balance_after),
       type: txn.type ?? null,
     });
-    if (amount >= 0) credits += amount;
-    else debits += Math.abs(amount);
   }
-  // Newest first for display; ending balance reads the latest row.
+  // Newest first for display; each currency's ending balance reads its latest row.
   filtered.sort((a, b) => b.occurredAt.localeCompare(a.occurredAt));
-  const endingBalanceCents = filtered.length > 0 ? filtered[0].balanceCents : 0;
+  const subtotals = new Map<string, TrustLedgerCurrencySubtotal>();
+  for (const row of filtered) {
+    let subtotal = subtotals.get(row.currency);
+    if (!subtotal) {
+      subtotal = {
+        currency: row.currency,
+        totalCreditsCents: 0,
+        totalDebitsCents: 0,
+        endingBalanceCents: row.balanceCents,
+        transactionCount: 0,
+      };
+      subtotals.set(row.currency, subtotal);
+    }
+    if (row.amountCents >= 0) subtotal.totalCreditsCents += row.amountCents;
+    else subtotal.totalDebitsCents += Math.abs(row.amountCents);
+    subtotal.transactionCount += 1;
+  }
+  const currencySubtotals = Array.from(subtotals.values()).sort(byCurrency);
   return {
     rows: filtered,
-    totalCreditsCents: credits,
-    totalDebitsCents: debits,
-    endingBalanceCents,
+    totalCreditsCents: singleCurrencyTotal(currencySubtotals, (t) => t.totalCreditsCents),
+    totalDebitsCents: singleCurrencyTotal(currencySubtotals, (t) => t.totalDebitsCents),
+    endingBalanceCents: singleCurrencyTotal(currencySubtotals, (t) => t.endingBalanceCents),
     transactionCount: filtered.length,
+    currencies: currencySubtotals.map((t) => t.currency),
+    subtotals: currencySubtotals,
   };
 };
 
@@ -557,41 +764,63 @@ export const aggregateTrustLedger = (
 export interface WipAggregateRow {
   matterId: string;
   matterTitle: string;
+  currency: string;
   unbilledHours: number;
   unbilledAmountCents: number;
 }
 
+export interface WipCurrencySubtotal {
+  currency: string;
+  totalUnbilledAmountCents: number;
+  matterCount: number;
+}
+
 export interface WipAggregate {
   rows: WipAggregateRow[];
   totalUnbilledHours: number;
-  totalUnbilledAmountCents: number;
+  /** Null when matters span more than one currency; see `subtotals`. */
+  totalUnbilledAmountCents: number | null;
   matterCount: number;
+  currencies: string[];
+  subtotals: WipCurrencySubtotal[];
 }
 
 export const aggregateWip = (rows: readonly BackendWipMatter[]): WipAggregate => {
   const out: WipAggregateRow[] = [];
+  const subtotals = new Map<string, WipCurrencySubtotal>();
   let totalHours = 0;
-  let totalAmount = 0;
   for (const r of rows) {
     const seconds = typeof r.unbilled_seconds === 'number' ? r.unbilled_seconds : 0;
     const hours = Number((seconds / 3600).toFixed(2));
     const amount = toCents(r.unbilled_amount);
     if (hours <= 0 && amount <= 0) continue;
+    const currency = normalizeCurrencyCode(r.currency);
     out.push({
       matterId: r.matter_id,
       matterTitle: r.matter_title ?? r.matter_id,
+      currency,
       unbilledHours: hours,
       unbilledAmountCents: amount,
     });
+    let subtotal = subtotals.get(currency);
+    if (!subtotal) {
+      subtotal = { currency, totalUnbilledAmountCents: 0, matterCount: 0 };
+      subtotals.set(currency, subtotal);
+    }
+    subtotal.totalUnbilledAmountCents += amount;
+    subtotal.matterCount += 1;
     totalHours += hours;
-    totalAmount += amount;
   }
-  out.sort((a, b) => b.unbilledAmountCents - a.unbilledAmountCents);
+  // Amounts in different currencies aren't comparable, so group by currency first.
+  out.sort((a, b) => byCurrency(a, b) || b.unbilledAmountCents - a.unbilledAmountCents);
+  const currencySubtotals = Array.from(subtotals.values()).sort(byCurrency);
   return {
     rows: out,
     totalUnbilledHours: Number(totalHours.toFixed(2)),
-    totalUnbilledAmountCents: totalAmount,
+    totalUnbilledAmountCents: singleCurrencyTotal(currencySubtotals, (t) => t.totalUnbilledAmountCents),
     matterCount: out.length,
+    currencies: currencySubtotals.map((t) => t.currency),
+    subtotals: currencySubtotals,
   };
 };
 
@@ -600,61 +829,79 @@ export const aggregateWip = (rows: readonly BackendWipMatter[]): WipAggregate =>
 export interface OriginatingAttorneyAggregateRow {
   attorneyId: string;
   attorneyName: string;
+  currency: string;
   matterCount: number;
   revenueCents: number;
 }
 
+export interface OriginatingAttorneyCurrencySubtotal {
+  currency: string;
+  totalRevenueCents: number;
+}
+
 export interface OriginatingAttorneyAggregate {
   rows: OriginatingAttorneyAggregateRow[];
-  totalRevenueCents: number;
+  /** Null when revenue spans more than one currency; see `subtotals`. */
+  totalRevenueCents: number | null;
   totalMatterCount: number;
+  currencies: string[];
+  subtotals: OriginatingAttorneyCurrencySubtotal[];
 }
 
 const UNASSIGNED_ATTORNEY_ID = 'unassigned';
 const UNASSIGNED_ATTORNEY_LABEL = 'Unassigned';
 
+/**
+ * One row per originating attorney and currency. A matter counts towards
+ * the row for its billing currency; revenue paid in another currency gets
+ * its own row for that attorney.
+ */
 export const groupByOriginatingAttorney = (
   matters: readonly BackendMatter[],
   invoices: readonly BackendInvoice[],
   range: ResolvedDateRange,
   attorneyNamesById: ReadonlyMap<string, string>
 ): OriginatingAttorneyAggregate => {
-  const revenueByMatter = new Map<string, number>();
-  for (const inv of invoices) {
-    if (!inv.matter_id) continue;
-    const eventMs = parseDateMs(inv.paid_at) ?? parseDateMs(inv.created_at);
-    if (eventMs == null || eventMs < range.startMs || eventMs > range.endMs) continue;
-    const paid = toCents(inv.amount_paid);
-    if (paid <= 0) continue;
-    revenueByMatter.set(inv.matter_id, (revenueByMatter.get(inv.matter_id) ?? 0) + paid);
-  }
-
+  const billing = summarizeMatterBilling(invoices, range);
   const byAttorney = new Map<string, OriginatingAttorneyAggregateRow>();
-  let totalRevenue = 0;
-  for (const m of matters) {
-    const attorneyId = m.originating_attorney_id ?? UNASSIGNED_ATTORNEY_ID;
-    const matterRevenue = revenueByMatter.get(m.id) ?? 0;
-    let row = byAttorney.get(attorneyId);
+  const subtotals = new Map<string, OriginatingAttorneyCurrencySubtotal>();
+  const rowFor = (attorneyId: string, currency: string): OriginatingAttorneyAggregateRow => {
+    const key = `${attorneyId}:${currency}`;
+    let row = byAttorney.get(key);
     if (!row) {
       row = {
         attorneyId,
         attorneyName: attorneyId === UNASSIGNED_ATTORNEY_ID
           ? UNASSIGNED_ATTORNEY_LABEL
           : attorneyNamesById.get(attorneyId) ?? attorneyId,
+        currency,
         matterCount: 0,
         revenueCents: 0,
       };
-      byAttorney.set(attorneyId, row);
+      byAttorney.set(key, row);
+    }
+    if (!subtotals.has(currency)) subtotals.set(currency, { currency, totalRevenueCents: 0 });
+    return row;
+  };
+  for (const m of matters) {
+    const attorneyId = m.originating_attorney_id ?? UNASSIGNED_ATTORNEY_ID;
+    const matterBilling = billing.byMatter.get(m.id);
+    rowFor(attorneyId, matterBilling?.currency ?? billing.currency).matterCount += 1;
+    for (const [currency, paid] of matterBilling?.paidCentsByCurrency ?? []) {
+      rowFor(attorneyId, currency).revenueCents += paid;
+      const subtotal = subtotals.get(currency);
+      if (subtotal) subtotal.totalRevenueCents += paid;
     }
-    row.matterCount += 1;
-    row.revenueCents += matterRevenue;
-    totalRevenue += matterRevenue;
   }
-  const rows = Array.from(byAttorney.values()).sort((a, b) => b.revenueCents - a.revenueCents);
+  const rows = Array.from(byAttorney.values())
+    .sort((a, b) => byCurrency(a, b) || b.revenueCents - a.revenueCents);
+  const currencySubtotals = Array.from(subtotals.values()).sort(byCurrency);
   return {
     rows,
-    totalRevenueCents: totalRevenue,
+    totalRevenueCents: singleCurrencyTotal(currencySubtotals, (t) => t.totalRevenueCents),
     totalMatterCount: matters.length,
+    currencies: currencySubtotals.map((t) => t.currency),
+    subtotals: currencySubtotals,
   };
 };
 
@@ -937,19 +1184,6 @@ export class ReportService {
     ]);
     const matters = mattersResult.items;
 
-    // Per-matter paid revenue restricted to the date range.
-    const revenueByMatter = new Map<string, number>();
-    for (const inv of invoices) {
-      const matterId = inv.matter_id;
-      if (!matterId) continue;
-      const eventMs = parseDateMs(inv.paid_at) ?? parseDateMs(inv.created_at);
-      if (eventMs == null) continue;
-      if (eventMs < options.range.startMs || eventMs > options.range.endMs) continue;
-      const paid = toCents(inv.amount_paid);
-      if (paid <= 0) continue;
-      revenueByMatter.set(matterId, (revenueByMatter.get(matterId) ?? 0) + paid);
-    }
-
     // Fetch time entries with bounded concurrency.
     const timeEntriesByMatter = new Map<string, BackendMatterTimeEntry[]>();
     const entriesList = await pLimit(
@@ -966,14 +1200,10 @@ export class ReportService {
       timeEntriesByMatter.set(m.id, inRange);
     });
 
-    const decoratedMatters = matters.map((m) => ({
-      ...m,
-      __revenueCents: revenueByMatter.get(m.id) ?? 0,
-    })) as BackendMatter[];
-
     return computeProfitability(
-      decoratedMatters,
+      matters,
       timeEntriesByMatter,
+      summarizeMatterBilling(invoices, options.range),
       options.overrideHourlyRateDollars,
       mattersResult.truncated
     );
@@ -1035,23 +1265,37 @@ export class ReportService {
     headers: Record<string, string>,
     options: { range: ResolvedDateRange }
   ): Promise<TrustLedgerAggregate> {
+    const transactions = await this.fetchTrustTransactions(practiceId, headers, options.range);
+    return aggregateTrustLedger(transactions, options.range);
+  }
+
+  /**
+   * Trust ledger transactions in `range`. `reportType` names the report in
+   * the BackendUnavailableError raised while the endpoint is missing.
+   */
+  async fetchTrustTransactions(
+    practiceId: string,
+    headers: Record<string, string>,
+    range: ResolvedDateRange,
+    reportType = 'trust-ledger'
+  ): Promise<BackendTrustTransaction[]> {
     const path = RAILWAY_REPORT_PATHS.trustLedger(practiceId);
     const params = new URLSearchParams({
-      start: options.range.startIso,
-      end: options.range.endIso,
+      start: range.startIso,
+      end: range.endIso,
     });
     const url = `${this.backendUrl}${path}?${params.toString()}`;
     let resp: Response;
     try {
       resp = await fetch(url, { headers });
     } catch (err) {
-      throw new BackendUnavailableError('trust-ledger', err instanceof Error ? err.message : 'network error');
+      throw new BackendUnavailableError(reportType, err instanceof Error ? err.message : 'network error');
     }
     if (resp.status === 404 || resp.status === 501) {
-      throw new BackendUnavailableError('trust-ledger');
+      throw new BackendUnavailableError(reportType);
     }
     if (!resp.ok) {
-      throw new Error(`trust-ledger upstream returned ${resp.status}`);
+      throw new Error(`${reportType} upstream returned ${resp.status}`);
     }
     const json = await resp.json();
     const rawItems = extractListArray(json, ['transactions', 'items', 'data']);
@@ -1060,7 +1304,7 @@ export class ReportService {
       const result = BackendTrustTransactionSchema.safeParse(raw);
       if (result.success) parsed.push(result.data);
     }
-    return aggregateTrustLedger(parsed, options.range);
+    return parsed;
   }
 
   async wip(
@@ -0,0 +1,184 @@
+/**
+ * D1-backed saved searches for the command palette.
+ *
+ * A saved search is visible to its owner and, when `shared`, to every member
+ * of the practice. Only the owner may rename, re-query, share or delete it;
+ * pinning is per user (saved_search_pins) so members can pin shared searches
+ * without touching the owner's row.
+ */
+
+import type { Env } from '../types.js';
+import type { SavedSearch } from '../types/search.js';
+
+export const SAVED_SEARCH_NAME_MAX = 120;
+export const SAVED_SEARCH_QUERY_MAX = 500;
+export const MAX_SAVED_SEARCHES_PER_USER = 50;
+
+export type SavedSearchInput = {
+  name: string;
+  query: string;
+  shared?: boolean;
+  pinned?: boolean;
+};
+
+export type SavedSearchPatch = Partial<SavedSearchInput>;
+
+type SavedSearchRow = {
+  id: string;
+  name: string;
+  query: string;
+  owner_user_id: string;
+  shared: number;
+  pinned: number;
+  created_at: string;
+  updated_at: string;
+};
+
+const SELECT_VISIBLE = `
+  SELECT s.id, s.name, s.query, s.owner_user_id, s.shared, s.created_at, s.updated_at,
+         CASE WHEN p.user_id IS NULL THEN 0 ELSE 1 END AS pinned
+    FROM saved_searches s
+    LEFT JOIN saved_search_pins p
+      ON p.saved_search_id = s.id AND p.user_id = ?
+   WHERE s.practice_id = ?
+     AND (s.owner_user_id = ? OR s.shared = 1)`;
+
+const toSavedSearch = (row: SavedSearchRow): SavedSearch => ({
+  id: row.id,
+  name: row.name,
+  query: row.query,
+  ownerUserId: row.owner_user_id,
+  shared: row.shared === 1,
+  pinned: row.pinned === 1,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+export class SavedSearchService {
+  constructor(private env: Env) {}
+
+  /** The user's own searches plus everything shared in the practice, by name. */
+  async list(practiceId: string, userId: string): Promise<SavedSearch[]> {
+    const rows = await this.env.DB.prepare(`${SELECT_VISIBLE} ORDER BY s.name COLLATE NOCASE ASC, s.id ASC`)
+      .bind(userId, practiceId, userId)
+      .all<SavedSearchRow>();
+    return (rows.results ?? []).map(toSavedSearch);
+  }
+
+  async listPinned(practiceId: string, userId: string): Promise<SavedSearch[]> {
+    const searches = await this.list(practiceId, userId);
+    return searches.filter((search) => search.pinned);
+  }
+
+  /** Returns null when the search doesn't exist or isn't visible to the user. */
+  async get(practiceId: string, userId: string, id: string): Promise<SavedSearch | null> {
+    const row = await this.env.DB.prepare(`${SELECT_VISIBLE} AND s.id = ?`)
+      .bind(userId, practiceId, userId, id)
+      .first<SavedSearchRow>();
+    return row ? toSavedSearch(row) : null;
+  }
+
+  async countOwned(practiceId: string, userId: string): Promise<number> {
+    const row = await this.env.DB.prepare(
+      `SELECT COUNT(*) AS n FROM saved_searches WHERE practice_id = ? AND owner_user_id = ?`,
+    )
+      .bind(practiceId, userId)
+      .first<{ n: number }>();
+    return typeof row?.n === 'number' ? row.n : 0;
+  }
+
+  async create(practiceId: string, userId: string, input: SavedSearchInput): Promise<SavedSearch> {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+    await this.env.DB.prepare(
+      `INSERT INTO saved_searches (id, practice_id, owner_user_id, name, query, shared, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    )
+      .bind(id, practiceId, userId, input.name, input.query, input.shared ? 1 : 0, now, now)
+      .run();
+    if (input.pinned) await this.setPinned(practiceId, userId, id, true);
+    return {
+      id,
+      name: input.name,
+      query: input.query,
+      ownerUserId: userId,
+      shared: Boolean(input.shared),
+      pinned: Boolean(input.pinned),
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  /**
+   * Applies the owner-editable fields (name, query, shared). Callers must
+   * check ownership first; `pinned` is handled by setPinned.
+   */
+  async update(practiceId: string, userId: string, id: string, patch: SavedSearchPatch): Promise<void> {
+    const sets: string[] = [];
+    const bindings: unknown[] = [];
+    if (patch.name !== undefined) {
+      sets.push('name = ?');
+      bindings.push(patch.name);
+    }
+    if (patch.query !== undefined) {
+      sets.push('query = ?');
+      bindings.push(patch.query);
+    }
+    if (patch.shared !== undefined) {
+      sets.push('shared = ?');
+      bindings.push(patch.shared ? 1 : 0);
+    }
+    if (sets.length > 0) {
+      sets.push('updated_at = ?');
+      bindings.push(new Date().toISOString());
+      await this.env.DB.prepare(
+        `UPDATE saved_searches SET ${sets.join(', ')}
+          WHERE id = ? AND practice_id = ? AND owner_user_id = ?`,
+      )
+        .bind(...bindings, id, practiceId, userId)
+        .run();
+    }
+    // Un-sharing a search drops everyone else's pins on it.
+    if (patch.shared === false) {
+      await this.env.DB.prepare(
+        `DELETE FROM saved_search_pins WHERE saved_search_id = ? AND user_id != ?`,
+      )
+        .bind(id, userId)
+        .run();
+    }
+  }
+
+  async setPinned(practiceId: string, userId: string, id: string, pinned: boolean): Promise<void> {
+    if (pinned) {
+      await this.env.DB.prepare(
+        `INSERT INTO saved_search_pins (saved_search_id, user_id, practice_id)
+         VALUES (?, ?, ?)
+         ON CONFLICT(saved_search_id, user_id) DO NOTHING`,
+      )
+        .bind(id, userId, practiceId)
+        .run();
+      return;
+    }
+    await this.env.DB.prepare(
+      `DELETE FROM saved_search_pins WHERE saved_search_id = ? AND user_id = ?`,
+    )
+      .bind(id, userId)
+      .run();
+  }
+
+  /** Deletes an owned search and every pin on it. Returns false when nothing matched. */
+  async delete(practiceId: string, userId: string, id: string): Promise<boolean> {
+    const result = await this.env.DB.prepare(
+      `DELETE FROM saved_searches WHERE id = ? AND practice_id = ? AND owner_user_id = ?`,
+    )
+      .bind(id, practiceId, userId)
+      .run();
+    const deleted = result.success && (result.meta?.changes ?? 0) > 0;
+    if (deleted) {
+      await this.env.DB.prepare(`DELETE FROM saved_search_pins WHERE saved_search_id = ?`)
+        .bind(id)
+        .run();
+    }
+    return deleted;
+  }
+}
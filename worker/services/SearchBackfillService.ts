@@ -1,7 +1,8 @@
 import type { Env } from '../types.js';
 import { Logger } from '../utils/logger.js';
-import { SearchIndexService } from './SearchIndexService.js';
+import { SEARCH_METADATA_VERSION, SearchIndexService } from './SearchIndexService.js';
 import { SearchVectorService } from './SearchVectorService.js';
+import { ConflictCheckService, conflictPartiesFromSearchPayload } from './ConflictCheckService.js';
 import { normalizeForIndex } from '../utils/normalizeForIndex.js';
 import type { SearchEntityType } from '../types/search.js';
 
@@ -113,6 +114,7 @@ export class SearchBackfillService {
 
     const indexService = new SearchIndexService(this.env);
     const vectorService = new SearchVectorService(this.env);
+    const conflictService = new ConflictCheckService(this.env);
     const counts: Record<string, number> = {};
     const errors: string[] = [];
 
@@ -125,6 +127,7 @@ export class SearchBackfillService {
           practiceId,
           indexService,
           vectorService,
+          conflictService,
         );
         counts[endpoint.type] = indexed;
       } catch (error) {
@@ -150,6 +153,13 @@ export class SearchBackfillService {
       await this.env.CHAT_SESSIONS.delete(cookieKey);
     }
 
+    // Only a clean walk brings every row up to the current metadata; a
+    // partial one leaves the version stale so the next filtered search
+    // schedules another run.
+    if (errors.length === 0) {
+      await indexService.markMetadataVersion(practiceId, SEARCH_METADATA_VERSION);
+    }
+
     Logger.info('search backfill complete', { practiceId, counts, errors: errors.length });
     return { counts, errors };
   }
@@ -161,6 +171,7 @@ export class SearchBackfillService {
     practiceId: string,
     indexService: SearchIndexService,
     vectorService: SearchVectorService,
+    conflictService: ConflictCheckService,
   ): Promise<number> {
     let indexed = 0;
     for (let page = 1; page <= MAX_PAGES_PER_TYPE; page += 1) {
@@ -215,10 +226,29 @@ export class SearchBackfillService {
             error: error instanceof Error ? error.message : String(error),
           });
         }
+        const conflictParties = conflictPartiesFromSearchPayload(
+          normalized.entityType,
+          normalized.entityId,
+          normalized.payload,
+        );
+        if (conflictParties) {
+          await conflictService
+            .indexSource(normalized.practiceId, conflictParties.source, conflictParties.parties)
+            .catch((error: unknown) => Logger.warn('backfill conflict index failed', {
+              type: endpoint.type,
+              entityId: normalized.entityId,
+              error: error instanceof Error ? error.message : String(error),
+            }));
+        }
       }
 
       if (items.length < PAGE_SIZE) return indexed;
     }
+    Logger.warn('backfill stopped at the page limit', {
+      type: endpoint.type,
+      practiceId,
+      indexed,
+    });
     return indexed;
   }
 
@@ -5,9 +5,20 @@ import type {
   SearchResultItem,
 } from '../types/search.js';
 import { Logger } from '../utils/logger.js';
+import type { SearchRange } from '../../src/features/search/utils/parseQuery.js';
 
 const FTS_TABLE = 'search_index';
 const REFS_TABLE = 'search_index_refs';
+const VERSIONS_TABLE = 'search_index_versions';
+
+/**
+ * Version of the metadata normalizeForIndex writes for search filters.
+ * Bump it when a filter starts reading a field older rows don't carry;
+ * practices indexed under an older version get a SearchBackfillService
+ * run (see the search route), which records the version when it finishes.
+ * 2: clientName, matterTitle, createdAt, dueDate and amountCents.
+ */
+export const SEARCH_METADATA_VERSION = 2;
 
 type RefRow = {
   entity_type: string;
@@ -36,13 +47,80 @@ type FtsHit = FtsRow & {
   title_snippet: string | null;
 };
 
+/**
+ * Structured filters from the query grammar (see parseQuery). Entities that
+ * lack the field (e.g. `amountCents` on a client) never match a constraint
+ * on it.
+ */
+export type SearchIndexConstraints = {
+  /** UTC milliseconds. */
+  createdAt?: SearchRange;
+  /** UTC milliseconds. */
+  dueDate?: SearchRange;
+  /** Minor units. */
+  amountCents?: SearchRange;
+  /** Client id, or a case-insensitive substring of the client name. */
+  client?: string;
+  /** Matter id, or a case-insensitive substring of the matter title. */
+  matter?: string;
+};
+
 export type SearchIndexQueryOptions = {
   practiceId: string;
+  /** FTS5 expression rows must match. Empty for filter-only queries. */
   fts: string;
+  /** FTS5 expression; rows matching it are dropped. */
+  exclude?: string;
+  constraints?: SearchIndexConstraints;
   scopes?: SearchEntityType[];
   limit?: number;
 };
 
+type SqlFragment = { sql: string[]; bindings: unknown[] };
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+
+function rangeSql(
+  expr: string,
+  range: SearchRange,
+  toValue: (bound: number) => unknown,
+  out: SqlFragment,
+): void {
+  if (range.min !== null) {
+    out.sql.push(`${expr} ${range.minExclusive ? '>' : '>='} ?`);
+    out.bindings.push(toValue(range.min));
+  }
+  if (range.max !== null) {
+    out.sql.push(`${expr} ${range.maxExclusive ? '<' : '<='} ?`);
+    out.bindings.push(toValue(range.max));
+  }
+}
+
+function relationSql(idColumn: string, nameField: string, value: string, out: SqlFragment): void {
+  out.sql.push(`(${idColumn} = ? OR LOWER(json_extract(s.metadata, '$.${nameField}')) LIKE ? ESCAPE '\\')`);
+  out.bindings.push(value, `%${escapeLike(value.toLowerCase())}%`);
+}
+
+function constraintSql(options: SearchIndexQueryOptions): SqlFragment {
+  const out: SqlFragment = { sql: [], bindings: [] };
+  if (options.scopes && options.scopes.length > 0) {
+    out.sql.push(`r.entity_type IN (${options.scopes.map(() => '?').join(',')})`);
+    out.bindings.push(...options.scopes);
+  }
+  if (options.exclude) {
+    out.sql.push(`s.rowid NOT IN (SELECT rowid FROM ${FTS_TABLE} WHERE ${FTS_TABLE} MATCH ?)`);
+    out.bindings.push(options.exclude);
+  }
+  const c = options.constraints ?? {};
+  const isoDate = (ms: number) => new Date(ms).toISOString();
+  if (c.createdAt) rangeSql(`json_extract(s.metadata, '$.createdAt')`, c.createdAt, isoDate, out);
+  if (c.dueDate) rangeSql(`json_extract(s.metadata, '$.dueDate')`, c.dueDate, isoDate, out);
+  if (c.amountCents) rangeSql(`json_extract(s.metadata, '$.amountCents')`, c.amountCents, (n) => n, out);
+  if (c.client) relationSql('r.client_id', 'clientName', c.client, out);
+  if (c.matter) relationSql('r.matter_id', 'matterTitle', c.matter, out);
+  return out;
+}
+
 export class SearchIndexService {
   constructor(private env: Env) {}
 
@@ -163,9 +241,36 @@ export class SearchIndexService {
 
   async query(options: SearchIndexQueryOptions): Promise<SearchResultItem[]> {
     const limit = options.limit ?? 16;
-    const scopeFilter = options.scopes && options.scopes.length > 0
-      ? `AND r.entity_type IN (${options.scopes.map(() => '?').join(',')})`
-      : '';
+    const constraints = constraintSql(options);
+    const extraWhere = constraints.sql.map((clause) => `AND ${clause}`).join('\n          ');
+
+    // Filter-only queries (`in:invoices amount:>500`) have nothing for
+    // bm25()/snippet() to score, so list the newest matching rows instead.
+    if (!options.fts) {
+      const rows = await this.env.DB.prepare(
+        `SELECT s.rowid as rowid,
+                s.entity_type,
+                s.entity_id,
+                s.practice_id,
+                s.title,
+                s.subtitle,
+                s.body,
+                s.metadata,
+                0 as rank,
+                NULL as body_snippet,
+                NULL as title_snippet
+           FROM ${FTS_TABLE} s
+           JOIN ${REFS_TABLE} r
+             ON r.entity_type = s.entity_type AND r.entity_id = s.entity_id
+          WHERE r.practice_id = ?
+          ${extraWhere}
+          ORDER BY r.updated_at DESC
+          LIMIT ?`,
+      )
+        .bind(options.practiceId, ...constraints.bindings, limit)
+        .all<FtsHit>();
+      return (rows.results ?? []).map((row) => this.hitToItem(row));
+    }
 
     // FTS5 column indexes for snippet(): match the CREATE VIRTUAL TABLE order.
     //   0 entity_type   1 entity_id   2 practice_id (UNINDEXED)
@@ -188,17 +293,12 @@ export class SearchIndexService {
            ON r.entity_type = s.entity_type AND r.entity_id = s.entity_id
         WHERE ${FTS_TABLE} MATCH ?
           AND r.practice_id = ?
-          ${scopeFilter}
+          ${extraWhere}
         ORDER BY rank ASC
         LIMIT ?`,
     );
 
-    const bindings: unknown[] = [options.fts, options.practiceId];
-    if (options.scopes && options.scopes.length > 0) {
-      bindings.push(...options.scopes);
-    }
-    bindings.push(limit);
-
+    const bindings: unknown[] = [options.fts, options.practiceId, ...constraints.bindings, limit];
     const rows = await stmt.bind(...bindings).all<FtsHit>();
     return (rows.results ?? []).map((row) => this.hitToItem(row));
   }
@@ -252,6 +352,28 @@ export class SearchIndexService {
     return { totalRows: total?.c ?? 0, byType };
   }
 
+  /** The SEARCH_METADATA_VERSION the practice was last fully backfilled at; 0 if never. */
+  async metadataVersion(practiceId: string): Promise<number> {
+    const row = await this.env.DB.prepare(
+      `SELECT metadata_version FROM ${VERSIONS_TABLE} WHERE practice_id = ?`,
+    )
+      .bind(practiceId)
+      .first<{ metadata_version: number }>();
+    return row?.metadata_version ?? 0;
+  }
+
+  async markMetadataVersion(practiceId: string, version: number): Promise<void> {
+    await this.env.DB.prepare(
+      `INSERT INTO ${VERSIONS_TABLE} (practice_id, metadata_version, updated_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT(practice_id) DO UPDATE SET
+         metadata_version = excluded.metadata_version,
+         updated_at = excluded.updated_at`,
+    )
+      .bind(practiceId, version, new Date().toISOString())
+      .run();
+  }
+
   private async findRef(
     entityType: SearchEntityType,
     entityId: string,
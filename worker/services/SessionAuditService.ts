@@ -16,7 +16,12 @@ const ALLOWED_PAYLOAD_KEYS = new Set([
   'source',
   'intent',
   'confidence',
-  'reason'
+  'reason',
+  'format',
+  'destination',
+  'matterId',
+  'uploadId',
+  'messageCount'
 ]);
 const EMAIL_REGEX = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
 const SSN_REGEX = /\b\d{3}-\d{2}-\d{4}\b/g;
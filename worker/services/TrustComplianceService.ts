@@ -0,0 +1,483 @@
+/**
+ * Worker-side enforcement of a practice's trust account rules.
+ *
+ * Preferences are versioned and append-only (trust_compliance_preferences),
+ * like approval policies, so every logged evaluation points at the exact
+ * settings it ran under. Two kinds of subject are evaluated:
+ *
+ *   - Ledger changes: backend `trust:ledger_changed` events (contract on
+ *     TrustLedgerChangeSchema) and trust transactions the assistant creates,
+ *     evaluated as soon as they execute. The matter's balance is recorded in
+ *     trust_matter_balances and the ledger rules run against the
+ *     transaction's before/after balance; replenishment requests and
+ *     threshold alerts go out through the notification queue. Both paths
+ *     key on the ledger transaction id, so whichever arrives second is
+ *     skipped.
+ *   - Staged assistant actions, when staged and again before execution.
+ *     Large trust withdrawals need two approvers and actions on a matter
+ *     whose trust balance is zero are refused.
+ *
+ * Every rule result is appended to trust_rule_evaluations (see
+ * utils/trustComplianceRules.ts for the rules themselves).
+ */
+
+import type { Env, NotificationQueueMessage } from '../types.js';
+import { HttpErrors } from '../errorHandler.js';
+import { Logger } from '../utils/logger.js';
+import { defaultRecipientSnapshots, enqueueNotification } from './NotificationPublisher.js';
+import {
+  DEFAULT_TRUST_COMPLIANCE_PREFERENCES,
+  evaluateLedgerRules,
+  evaluateStagedActionRules,
+  isTrustDeposit,
+  type StagedActionRuleEvaluation,
+  type StagedTrustSubject,
+  type TrustRuleResult,
+} from '../utils/trustComplianceRules.js';
+import type {
+  SaveTrustCompliancePreferencesRequest,
+  TrustComplianceRule,
+  TrustCompliancePreferences,
+  TrustLedgerChange,
+  TrustRuleEvaluation,
+  TrustRuleOutcome,
+  TrustRuleSubjectType,
+} from '../types/wire/trustCompliance.js';
+
+const MAX_LISTED_EVALUATIONS = 200;
+
+type PreferencesRow = {
+  version: number;
+  auto_replenish_enabled: number;
+  auto_replenish_threshold_cents: number;
+  alert_enabled: number;
+  alert_threshold_cents: number;
+  dual_approval_enabled: number;
+  dual_approval_threshold_cents: number;
+  lock_on_zero_enabled: number;
+  notify_user_ids_json: string;
+  created_by_user_id: string | null;
+  created_at: string;
+};
+
+type EvaluationRow = {
+  id: string;
+  practice_id: string;
+  rule: TrustComplianceRule;
+  outcome: TrustRuleOutcome;
+  subject_type: TrustRuleSubjectType;
+  subject_id: string;
+  matter_id: string | null;
+  client_id: string | null;
+  balance_cents: number | null;
+  threshold_cents: number | null;
+  preferences_version: number;
+  detail_json: string;
+  created_at: string;
+};
+
+const parseJson = <T>(json: string | null, fallback: T): T => {
+  if (!json) return fallback;
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const toPreferences = (row: PreferencesRow): TrustCompliancePreferences => {
+  const notifyUserIds = parseJson<unknown>(row.notify_user_ids_json, []);
+  return {
+    version: Number(row.version),
+    autoReplenishEnabled: Boolean(row.auto_replenish_enabled),
+    autoReplenishThresholdCents: Number(row.auto_replenish_threshold_cents),
+    alertEnabled: Boolean(row.alert_enabled),
+    alertThresholdCents: Number(row.alert_threshold_cents),
+    dualApprovalEnabled: Boolean(row.dual_approval_enabled),
+    dualApprovalThresholdCents: Number(row.dual_approval_threshold_cents),
+    lockOnZeroEnabled: Boolean(row.lock_on_zero_enabled),
+    notifyUserIds: Array.isArray(notifyUserIds)
+      ? notifyUserIds.filter((id): id is string => typeof id === 'string')
+      : [],
+    updatedBy: row.created_by_user_id,
+    updatedAt: row.created_at,
+  };
+};
+
+const toEvaluation = (row: EvaluationRow): TrustRuleEvaluation => ({
+  id: row.id,
+  practiceId: row.practice_id,
+  rule: row.rule,
+  outcome: row.outcome,
+  subjectType: row.subject_type,
+  subjectId: row.subject_id,
+  matterId: row.matter_id,
+  clientId: row.client_id,
+  balanceCents: row.balance_cents === null ? null : Number(row.balance_cents),
+  thresholdCents: row.threshold_cents === null ? null : Number(row.threshold_cents),
+  preferencesVersion: Number(row.preferences_version),
+  detail: parseJson<Record<string, unknown>>(row.detail_json, {}),
+  createdAt: row.created_at,
+});
+
+const toRecord = (value: unknown): Record<string, unknown> | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null;
+
+const stringValue = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const formatCents = (cents: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(cents / 100);
+  } catch {
+    return `${(cents / 100).toFixed(2)} ${currency}`;
+  }
+};
+
+interface TrustRuleSubject {
+  type: TrustRuleSubjectType;
+  id: string;
+  matterId: string | null;
+  clientId: string | null;
+}
+
+export class TrustComplianceService {
+  constructor(private env: Env) {}
+
+  async getPreferences(practiceId: string): Promise<TrustCompliancePreferences> {
+    const row = await this.env.DB.prepare(`
+      SELECT version, auto_replenish_enabled, auto_replenish_threshold_cents, alert_enabled,
+             alert_threshold_cents, dual_approval_enabled, dual_approval_threshold_cents,
+             lock_on_zero_enabled, notify_user_ids_json, created_by_user_id, created_at
+      FROM trust_compliance_preferences
+      WHERE practice_id = ?
+      ORDER BY version DESC
+      LIMIT 1
+    `).bind(practiceId).first<PreferencesRow>();
+    return row ? toPreferences(row) : DEFAULT_TRUST_COMPLIANCE_PREFERENCES;
+  }
+
+  /** Stores `input` as the next version and returns it. */
+  async savePreferences(
+    practiceId: string,
+    input: SaveTrustCompliancePreferencesRequest,
+    userId: string,
+  ): Promise<TrustCompliancePreferences> {
+    const current = await this.getPreferences(practiceId);
+    const preferences: TrustCompliancePreferences = {
+      ...input,
+      notifyUserIds: [...new Set(input.notifyUserIds)],
+      version: current.version + 1,
+      updatedBy: userId,
+      updatedAt: new Date().toISOString(),
+    };
+    try {
+      await this.env.DB.prepare(`
+        INSERT INTO trust_compliance_preferences (
+          id, practice_id, version, auto_replenish_enabled, auto_replenish_threshold_cents,
+          alert_enabled, alert_threshold_cents, dual_approval_enabled, dual_approval_threshold_cents,
+          lock_on_zero_enabled, notify_user_ids_json, created_by_user_id, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        crypto.randomUUID(),
+        practiceId,
+        preferences.version,
+        preferences.autoReplenishEnabled ? 1 : 0,
+        preferences.autoReplenishThresholdCents,
+        preferences.alertEnabled ? 1 : 0,
+        preferences.alertThresholdCents,
+        preferences.dualApprovalEnabled ? 1 : 0,
+        preferences.dualApprovalThresholdCents,
+        preferences.lockOnZeroEnabled ? 1 : 0,
+        JSON.stringify(preferences.notifyUserIds),
+        userId,
+        preferences.updatedAt,
+      ).run();
+    } catch (error) {
+      // UNIQUE (practice_id, version): someone else saved the same version first.
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        throw HttpErrors.conflict('The trust rules were changed by someone else. Reload and try again.');
+      }
+      throw error;
+    }
+    return preferences;
+  }
+
+  async listEvaluations(
+    practiceId: string,
+    filters: { matterId?: string | null; limit?: number } = {},
+  ): Promise<TrustRuleEvaluation[]> {
+    const where = ['practice_id = ?'];
+    const bindings: unknown[] = [practiceId];
+    if (filters.matterId) {
+      where.push('matter_id = ?');
+      bindings.push(filters.matterId);
+    }
+    const limit = Math.min(Math.max(1, filters.limit ?? 50), MAX_LISTED_EVALUATIONS);
+    const rows = await this.env.DB.prepare(`
+      SELECT id, practice_id, rule, outcome, subject_type, subject_id, matter_id, client_id,
+             balance_cents, threshold_cents, preferences_version, detail_json, created_at
+      FROM trust_rule_evaluations
+      WHERE ${where.join(' AND ')}
+      ORDER BY created_at DESC, id DESC
+      LIMIT ?
+    `).bind(...bindings, limit).all<EvaluationRow>();
+    return (rows.results ?? []).map(toEvaluation);
+  }
+
+  /** The matter's trust balance from the latest ledger event, or null when none has arrived. */
+  async getMatterBalance(practiceId: string, matterId: string): Promise<number | null> {
+    const row = await this.env.DB.prepare(`
+      SELECT balance_cents FROM trust_matter_balances WHERE practice_id = ? AND matter_id = ?
+    `).bind(practiceId, matterId).first<{ balance_cents: number }>();
+    return row ? Number(row.balance_cents) : null;
+  }
+
+  /**
+   * Applies a backend ledger event: records the matter balance, runs the
+   * ledger rules, notifies for the ones that fired and logs every result.
+   * A redelivered event (same transaction already evaluated) is ignored.
+   */
+  async evaluateLedgerChange(practiceId: string, change: TrustLedgerChange): Promise<TrustRuleResult[]> {
+    const seen = await this.env.DB.prepare(`
+      SELECT 1 AS seen FROM trust_rule_evaluations
+      WHERE practice_id = ? AND subject_type = 'ledger_event' AND subject_id = ?
+      LIMIT 1
+    `).bind(practiceId, change.transaction_id).first<{ seen: number }>();
+    if (seen) return [];
+
+    const matterId = change.matter_id ?? null;
+    if (matterId) {
+      // Out-of-order deliveries never move the balance back to an older value.
+      await this.env.DB.prepare(`
+        INSERT INTO trust_matter_balances (
+          practice_id, matter_id, client_id, balance_cents, currency,
+          last_transaction_id, last_transaction_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT (practice_id, matter_id) DO UPDATE SET
+          client_id = COALESCE(excluded.client_id, trust_matter_balances.client_id),
+          balance_cents = excluded.balance_cents,
+          currency = excluded.currency,
+          last_transaction_id = excluded.last_transaction_id,
+          last_transaction_at = excluded.last_transaction_at,
+          updated_at = excluded.updated_at
+        WHERE excluded.last_transaction_at >= trust_matter_balances.last_transaction_at
+      `).bind(
+        practiceId,
+        matterId,
+        change.client_id ?? null,
+        change.balance_after,
+        change.currency,
+        change.transaction_id,
+        change.occurred_at,
+        new Date().toISOString(),
+      ).run();
+    }
+
+    const preferences = await this.getPreferences(practiceId);
+    const results = evaluateLedgerRules(preferences, {
+      balanceBeforeCents: change.balance_after - change.amount,
+      balanceAfterCents: change.balance_after,
+    });
+
+    // The logged results are the "evaluated" marker, so they are written
+    // before anything is enqueued: a redelivery after a failed write
+    // re-evaluates without having sent alerts, and one after a failed
+    // enqueue is skipped rather than alerting twice.
+    const notifications = results.map((result) => this.ledgerNotification(practiceId, preferences, change, result));
+    const logged = results.map((result, index): TrustRuleResult => {
+      const notification = notifications[index];
+      return notification ? { ...result, detail: { ...result.detail, notified: notification.recipients.length } } : result;
+    });
+    await this.log(practiceId, preferences.version, {
+      type: 'ledger_event',
+      id: change.transaction_id,
+      matterId,
+      clientId: change.client_id ?? null,
+    }, logged, { transactionType: change.type, amountCents: change.amount, currency: change.currency });
+
+    for (const notification of notifications) {
+      if (!notification || notification.recipients.length === 0) continue;
+      try {
+        await enqueueNotification(this.env, notification);
+      } catch (error) {
+        Logger.warn('Failed to enqueue trust compliance notification', {
+          practiceId,
+          rule: notification.metadata?.rule,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+    return logged;
+  }
+
+  /**
+   * Runs the ledger rules for a trust transaction the assistant just created.
+   * `created` is the backend's create response. It is evaluated here only
+   * when the response carries the ledger transaction id and `balance_after`:
+   * the id is what the backend event dedupes on, and a balance derived from
+   * trust_matter_balances may already include this transaction. Otherwise
+   * the backend event is left to evaluate it.
+   */
+  async evaluateExecutedTransaction(
+    practiceId: string,
+    actionId: string,
+    subject: StagedTrustSubject,
+    created: unknown,
+  ): Promise<TrustRuleResult[]> {
+    const transaction = subject.trustTransaction;
+    if (!transaction || !subject.matterId || transaction.amountCents === null) return [];
+    const record = toRecord(created) ?? {};
+    const row = toRecord(record.data ?? record.transaction) ?? record;
+    const amount = isTrustDeposit(transaction.type) ? transaction.amountCents : -transaction.amountCents;
+    const transactionId = stringValue(row.id);
+    const balanceAfter = typeof row.balance_after === 'number' && Number.isInteger(row.balance_after)
+      ? row.balance_after
+      : null;
+    if (transactionId === null || balanceAfter === null) {
+      Logger.warn('Assistant trust transaction response lacks an id or balance; waiting for the ledger event', {
+        practiceId,
+        actionId,
+        matterId: subject.matterId,
+        hasTransactionId: transactionId !== null,
+        hasBalanceAfter: balanceAfter !== null,
+      });
+      return [];
+    }
+    return this.evaluateLedgerChange(practiceId, {
+      transaction_id: transactionId,
+      matter_id: subject.matterId,
+      client_id: stringValue(row.client_id),
+      type: transaction.type,
+      amount,
+      balance_after: balanceAfter,
+      currency: stringValue(row.currency)?.toUpperCase() ?? 'USD',
+      occurred_at: stringValue(row.occurred_at) ?? stringValue(row.created_at) ?? new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Runs the staged-action rules and logs the results. Callers raise the
+   * approval requirement to `approvals` and refuse the action when
+   * `blockedReason` is set.
+   */
+  async evaluateStagedAction(
+    practiceId: string,
+    actionId: string,
+    subject: StagedTrustSubject,
+    phase: 'stage' | 'execute',
+  ): Promise<StagedActionRuleEvaluation> {
+    if (!subject.matterId && !subject.trustTransaction) {
+      return { results: [], approvals: null, blockedReason: null };
+    }
+    const [preferences, balance] = await Promise.all([
+      this.getPreferences(practiceId),
+      subject.matterId ? this.getMatterBalance(practiceId, subject.matterId) : Promise.resolve(null),
+    ]);
+    const evaluation = evaluateStagedActionRules(preferences, subject, balance);
+    await this.log(practiceId, preferences.version, {
+      type: 'staged_action',
+      id: actionId,
+      matterId: subject.matterId,
+      clientId: null,
+    }, evaluation.results, { phase });
+    return evaluation;
+  }
+
+  private async log(
+    practiceId: string,
+    preferencesVersion: number,
+    subject: TrustRuleSubject,
+    results: TrustRuleResult[],
+    context: Record<string, unknown>,
+  ): Promise<void> {
+    if (results.length === 0) return;
+    const createdAt = new Date().toISOString();
+    const statements = results.map((result) => this.env.DB.prepare(`
+      INSERT INTO trust_rule_evaluations (
+        id, practice_id, rule, outcome, subject_type, subject_id, matter_id, client_id,
+        balance_cents, threshold_cents, preferences_version, detail_json, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      crypto.randomUUID(),
+      practiceId,
+      result.rule,
+      result.outcome,
+      subject.type,
+      subject.id,
+      subject.matterId,
+      subject.clientId,
+      result.balanceCents,
+      result.thresholdCents,
+      preferencesVersion,
+      JSON.stringify({ ...context, ...result.detail }),
+      createdAt,
+    ));
+    await this.env.DB.batch(statements);
+  }
+
+  /** The notification for a fired ledger rule, or null when none is due. */
+  private ledgerNotification(
+    practiceId: string,
+    preferences: TrustCompliancePreferences,
+    change: TrustLedgerChange,
+    result: TrustRuleResult,
+  ): NotificationQueueMessage | null {
+    if (result.outcome !== 'triggered') return null;
+    if (result.rule === 'lock_on_zero' && !result.detail.newlyLocked) return null;
+
+    const subjectLabel = change.matter_title ?? change.client_name ?? 'A trust ledger';
+    const balance = formatCents(change.balance_after, change.currency);
+    const threshold = formatCents(result.thresholdCents ?? 0, change.currency);
+    let title: string;
+    let body: string;
+    let severity: 'info' | 'warning' | 'error';
+    switch (result.rule) {
+      case 'auto_replenish':
+        title = `Trust replenishment requested: ${subjectLabel}`;
+        body = `Trust balance is ${balance}, below the ${threshold} replenishment threshold. Request a replenishment of at least ${formatCents(Number(result.detail.shortfallCents) || 0, change.currency)}.`;
+        severity = 'warning';
+        break;
+      case 'threshold_alert':
+        if (result.detail.direction === 'up') {
+          title = `Trust balance restored: ${subjectLabel}`;
+          body = `Trust balance is back to ${balance}, at or above the ${threshold} alert threshold.`;
+          severity = 'info';
+        } else {
+          title = `Trust balance below ${threshold}: ${subjectLabel}`;
+          body = `Trust balance dropped to ${balance}.`;
+          severity = 'warning';
+        }
+        break;
+      default:
+        title = `Matter locked: ${subjectLabel}`;
+        body = `Trust balance is ${balance}. Assistant actions on this matter are blocked until funds are deposited.`;
+        severity = 'error';
+    }
+
+    return {
+      eventId: crypto.randomUUID(),
+      dedupeKey: `trust:${result.rule}:${change.transaction_id}`,
+      dedupeWindow: 'permanent',
+      practiceId,
+      category: 'payment',
+      entityType: result.rule === 'auto_replenish' ? 'trust_replenishment_request' : 'trust_alert',
+      entityId: change.matter_id ?? change.client_id ?? change.transaction_id,
+      title,
+      body,
+      link: change.practice_slug ? `/practice/${encodeURIComponent(change.practice_slug)}/trust` : null,
+      severity,
+      metadata: {
+        rule: result.rule,
+        transactionId: change.transaction_id,
+        matterId: change.matter_id ?? null,
+        clientId: change.client_id ?? null,
+        balanceCents: change.balance_after,
+        thresholdCents: result.thresholdCents,
+        preferencesVersion: preferences.version,
+      },
+      recipients: defaultRecipientSnapshots(preferences.notifyUserIds),
+      createdAt: new Date().toISOString(),
+    };
+  }
+}
@@ -0,0 +1,476 @@
+/**
+ * Trust account reconciliation against imported bank statements.
+ *
+ * Statements (OFX/QFX/CSV, see utils/bankStatementParser.ts) are stored
+ * with their lines in trust_bank_statements / trust_bank_statement_lines.
+ * On import each line is auto-matched against the backend trust ledger;
+ * whatever is left is matched by hand. A ledger transaction belongs to at
+ * most one line (unique index), so unmatched transactions are exactly the
+ * items the bank has not cleared.
+ *
+ * The ledger itself stays on the backend and is read through
+ * ReportService, the same way the trust-ledger report does. The monthly
+ * three-way reconciliation is computed in utils/trustReconciliation.ts.
+ */
+
+import type { Env } from '../types.js';
+import { HttpErrors } from '../errorHandler.js';
+import { Logger } from '../utils/logger.js';
+import { DEFAULT_CURRENCY, normalizeCurrencyCode } from '../utils/money.js';
+import {
+  BankStatementParseError,
+  parseBankStatement,
+  type ParsedBankStatement,
+} from '../utils/bankStatementParser.js';
+import {
+  REFERENCE_MATCH_WINDOW_DAYS,
+  autoMatchBankLines,
+  buildThreeWayReconciliation,
+  monthBounds,
+  toReconciliationTransaction,
+  type ReconciliationLedgerEntry,
+} from '../utils/trustReconciliation.js';
+import { BackendUnavailableError, ReportService, resolveClientName } from './ReportService.js';
+import type {
+  BankLineMatchStatus,
+  BankStatement,
+  BankStatementDetail,
+  BankStatementFormat,
+  BankStatementLine,
+  ImportBankStatementRequest,
+  ImportBankStatementResponse,
+  TrustReconciliationReport,
+} from '../types/wire/trustReconciliation.js';
+
+const MAX_LISTED_STATEMENTS = 100;
+/** How far either side of a statement period to look for ledger transactions to match by hand. */
+const MANUAL_MATCH_WINDOW_DAYS = 90;
+/** The three-way report reads the ledger from here; client balances need the full history. */
+const LEDGER_HISTORY_START = '2000-01-01';
+// 7 bindings per line keeps each INSERT under D1's 100-parameter limit.
+const LINES_PER_INSERT = 14;
+const ID_CHUNK = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StatementRow = {
+  id: string;
+  practice_id: string;
+  account_label: string | null;
+  format: BankStatementFormat;
+  filename: string;
+  currency: string;
+  period_start: string;
+  period_end: string;
+  opening_balance_cents: number | null;
+  closing_balance_cents: number;
+  imported_by_user_id: string | null;
+  created_at: string;
+  line_count: number;
+  matched_count: number;
+};
+
+type LineRow = {
+  id: string;
+  statement_id: string;
+  posted_at: string;
+  amount_cents: number;
+  description: string | null;
+  reference: string | null;
+  match_status: BankLineMatchStatus;
+  matched_transaction_id: string | null;
+  matched_by_user_id: string | null;
+  matched_at: string | null;
+};
+
+const STATEMENT_COLUMNS = `
+  s.id, s.practice_id, s.account_label, s.format, s.filename, s.currency, s.period_start, s.period_end,
+  s.opening_balance_cents, s.closing_balance_cents, s.imported_by_user_id, s.created_at,
+  (SELECT COUNT(*) FROM trust_bank_statement_lines l WHERE l.statement_id = s.id) AS line_count,
+  (SELECT COUNT(*) FROM trust_bank_statement_lines l
+    WHERE l.statement_id = s.id AND l.matched_transaction_id IS NOT NULL) AS matched_count
+`;
+
+const LINE_COLUMNS = `
+  id, statement_id, posted_at, amount_cents, description, reference, match_status,
+  matched_transaction_id, matched_by_user_id, matched_at
+`;
+
+const toStatement = (row: StatementRow): BankStatement => ({
+  id: row.id,
+  practiceId: row.practice_id,
+  accountLabel: row.account_label,
+  format: row.format,
+  filename: row.filename,
+  currency: row.currency,
+  periodStart: row.period_start,
+  periodEnd: row.period_end,
+  openingBalanceCents: row.opening_balance_cents === null ? null : Number(row.opening_balance_cents),
+  closingBalanceCents: Number(row.closing_balance_cents),
+  lineCount: Number(row.line_count ?? 0),
+  matchedCount: Number(row.matched_count ?? 0),
+  importedBy: row.imported_by_user_id,
+  createdAt: row.created_at,
+});
+
+const toLine = (row: LineRow): BankStatementLine => ({
+  id: row.id,
+  statementId: row.statement_id,
+  postedAt: row.posted_at,
+  amountCents: Number(row.amount_cents),
+  description: row.description,
+  reference: row.reference,
+  matchStatus: row.match_status,
+  matchedTransactionId: row.matched_transaction_id,
+  matchedBy: row.matched_by_user_id,
+  matchedAt: row.matched_at,
+});
+
+const shiftDay = (day: string, days: number): string =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+const sha256Hex = async (input: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+const isUniqueViolation = (error: unknown): boolean =>
+  error instanceof Error && error.message.includes('UNIQUE constraint failed');
+
+/** Bank account numbers are never stored whole. */
+const maskAccountId = (accountId: string | null): string | null =>
+  accountId ? `Account …${accountId.replace(/\s+/g, '').slice(-4)}` : null;
+
+const chunk = <T>(items: readonly T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+export class TrustReconciliationService {
+  constructor(private env: Env) {}
+
+  async listStatements(practiceId: string): Promise<BankStatement[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT ${STATEMENT_COLUMNS}
+      FROM trust_bank_statements s
+      WHERE s.practice_id = ?
+      ORDER BY s.period_end DESC, s.created_at DESC
+      LIMIT ?
+    `).bind(practiceId, MAX_LISTED_STATEMENTS).all<StatementRow>();
+    return (rows.results ?? []).map(toStatement);
+  }
+
+  async getStatement(practiceId: string, statementId: string): Promise<BankStatement | null> {
+    const row = await this.env.DB.prepare(`
+      SELECT ${STATEMENT_COLUMNS}
+      FROM trust_bank_statements s
+      WHERE s.practice_id = ? AND s.id = ?
+    `).bind(practiceId, statementId).first<StatementRow>();
+    return row ? toStatement(row) : null;
+  }
+
+  /**
+   * Parses and stores a statement, then auto-matches its lines. A ledger
+   * that can't be reached leaves every line unmatched rather than failing
+   * the import.
+   */
+  async importStatement(
+    practiceId: string,
+    input: ImportBankStatementRequest,
+    userId: string,
+    headers: Record<string, string>,
+  ): Promise<ImportBankStatementResponse> {
+    let parsed: ParsedBankStatement;
+    try {
+      parsed = parseBankStatement(input.filename, input.content);
+    } catch (error) {
+      if (error instanceof BankStatementParseError) throw HttpErrors.unprocessableEntity(error.message);
+      throw error;
+    }
+    const closingBalanceCents = input.closingBalanceCents ?? parsed.closingBalanceCents;
+    if (closingBalanceCents === null) {
+      throw HttpErrors.unprocessableEntity('The statement has no closing balance. Enter it to import this file.');
+    }
+
+    const statementId = crypto.randomUUID();
+    const lines: BankStatementLine[] = parsed.lines.map((line) => ({
+      id: crypto.randomUUID(),
+      statementId,
+      ...line,
+      matchStatus: 'unmatched',
+      matchedTransactionId: null,
+      matchedBy: null,
+      matchedAt: null,
+    }));
+    const currency = normalizeCurrencyCode(parsed.currency);
+    const statements = [
+      this.env.DB.prepare(`
+        INSERT INTO trust_bank_statements (
+          id, practice_id, account_label, format, filename, currency, period_start, period_end,
+          opening_balance_cents, closing_balance_cents, content_sha256, imported_by_user_id
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        statementId,
+        practiceId,
+        input.accountLabel || maskAccountId(parsed.accountId),
+        parsed.format,
+        input.filename,
+        currency,
+        parsed.periodStart,
+        parsed.periodEnd,
+        closingBalanceCents - lines.reduce((sum, line) => sum + line.amountCents, 0),
+        closingBalanceCents,
+        await sha256Hex(input.content),
+        userId,
+      ),
+      ...chunk(lines, LINES_PER_INSERT).map((group) =>
+        this.env.DB.prepare(`
+          INSERT INTO trust_bank_statement_lines (
+            id, statement_id, practice_id, posted_at, amount_cents, description, reference
+          ) VALUES ${group.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ')}
+        `).bind(...group.flatMap((line) => [
+          line.id, statementId, practiceId, line.postedAt, line.amountCents, line.description, line.reference,
+        ]))),
+    ];
+    try {
+      await this.env.DB.batch(statements);
+    } catch (error) {
+      if (isUniqueViolation(error)) throw HttpErrors.conflict('This statement has already been imported.');
+      throw error;
+    }
+
+    let autoMatched = 0;
+    try {
+      const ledger = await this.fetchLedger(
+        practiceId,
+        headers,
+        shiftDay(parsed.periodStart, -REFERENCE_MATCH_WINDOW_DAYS),
+        shiftDay(parsed.periodEnd, REFERENCE_MATCH_WINDOW_DAYS),
+        currency,
+      );
+      autoMatched = await this.autoMatch(practiceId, lines, ledger);
+    } catch (error) {
+      if (!(error instanceof BackendUnavailableError)) throw error;
+      Logger.warn('trust reconciliation: ledger unavailable, statement imported unmatched', { practiceId, statementId });
+    }
+
+    const statement = await this.getStatement(practiceId, statementId);
+    if (!statement) throw HttpErrors.internalServerError('Imported statement not found');
+    return { statement, autoMatched, unmatched: lines.length - autoMatched };
+  }
+
+  /** The statement's lines plus the nearby ledger transactions still free to match. */
+  async getStatementDetail(
+    practiceId: string,
+    statementId: string,
+    headers: Record<string, string>,
+  ): Promise<BankStatementDetail> {
+    const statement = await this.getStatement(practiceId, statementId);
+    if (!statement) throw HttpErrors.notFound('Bank statement not found');
+    const rows = await this.env.DB.prepare(`
+      SELECT ${LINE_COLUMNS}
+      FROM trust_bank_statement_lines
+      WHERE practice_id = ? AND statement_id = ?
+      ORDER BY posted_at, id
+    `).bind(practiceId, statementId).all<LineRow>();
+
+    const ledger = await this.fetchLedger(
+      practiceId,
+      headers,
+      shiftDay(statement.periodStart, -MANUAL_MATCH_WINDOW_DAYS),
+      shiftDay(statement.periodEnd, MANUAL_MATCH_WINDOW_DAYS),
+      statement.currency,
+    );
+    const claimed = await this.claimedTransactionIds(practiceId, ledger.map((entry) => entry.id));
+    return {
+      statement,
+      lines: (rows.results ?? []).map(toLine),
+      unmatchedTransactions: ledger.filter((entry) => !claimed.has(entry.id)).map(toReconciliationTransaction),
+    };
+  }
+
+  /** Matches a line to a ledger transaction of the same amount, or clears it when `transactionId` is null. */
+  async matchLine(
+    practiceId: string,
+    lineId: string,
+    transactionId: string | null,
+    userId: string,
+    headers: Record<string, string>,
+  ): Promise<BankStatementLine> {
+    const line = await this.getLine(practiceId, lineId);
+    if (!line) throw HttpErrors.notFound('Bank statement line not found');
+
+    if (transactionId === null) {
+      await this.env.DB.prepare(`
+        UPDATE trust_bank_statement_lines
+        SET match_status = 'unmatched', matched_transaction_id = NULL, matched_by_user_id = NULL, matched_at = NULL
+        WHERE practice_id = ? AND id = ?
+      `).bind(practiceId, lineId).run();
+      return { ...line, matchStatus: 'unmatched', matchedTransactionId: null, matchedBy: null, matchedAt: null };
+    }
+
+    const statement = await this.getStatement(practiceId, line.statementId);
+    const ledger = await this.fetchLedger(
+      practiceId,
+      headers,
+      shiftDay(line.postedAt, -MANUAL_MATCH_WINDOW_DAYS),
+      shiftDay(line.postedAt, MANUAL_MATCH_WINDOW_DAYS),
+      statement?.currency ?? DEFAULT_CURRENCY,
+    );
+    const transaction = ledger.find((entry) => entry.id === transactionId);
+    if (!transaction) throw HttpErrors.notFound('Trust ledger transaction not found near this bank line');
+    if (transaction.amountCents !== line.amountCents) {
+      throw HttpErrors.unprocessableEntity('The ledger transaction amount does not match the bank line.');
+    }
+
+    const matchedAt = new Date().toISOString();
+    try {
+      await this.env.DB.prepare(`
+        UPDATE trust_bank_statement_lines
+        SET match_status = 'manual', matched_transaction_id = ?, matched_by_user_id = ?, matched_at = ?
+        WHERE practice_id = ? AND id = ?
+      `).bind(transactionId, userId, matchedAt, practiceId, lineId).run();
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw HttpErrors.conflict('That ledger transaction is already matched to another bank line.');
+      }
+      throw error;
+    }
+    return { ...line, matchStatus: 'manual', matchedTransactionId: transactionId, matchedBy: userId, matchedAt };
+  }
+
+  /**
+   * Three-way reconciliation for a YYYY-MM month, against the statement
+   * that closes in it (the latest one when several do).
+   */
+  async buildReport(
+    practiceId: string,
+    month: string,
+    headers: Record<string, string>,
+  ): Promise<TrustReconciliationReport> {
+    const { periodStart, periodEnd } = monthBounds(month);
+    const statement = await this.env.DB.prepare(`
+      SELECT ${STATEMENT_COLUMNS}
+      FROM trust_bank_statements s
+      WHERE s.practice_id = ? AND s.period_end BETWEEN ? AND ?
+      ORDER BY s.period_end DESC, s.created_at DESC
+      LIMIT 1
+    `).bind(practiceId, periodStart, periodEnd).first<StatementRow>();
+    const currency = statement?.currency ?? DEFAULT_CURRENCY;
+
+    const earliest = await this.env.DB.prepare(`
+      SELECT MIN(period_start) AS period_start FROM trust_bank_statements WHERE practice_id = ? AND currency = ?
+    `).bind(practiceId, currency).first<{ period_start: string | null }>();
+    const reconcileFrom = earliest?.period_start && earliest.period_start <= periodEnd
+      ? earliest.period_start
+      : periodStart;
+
+    const [transactions, lines] = await Promise.all([
+      this.fetchLedger(practiceId, headers, LEDGER_HISTORY_START, periodEnd, currency),
+      this.env.DB.prepare(`
+        SELECT l.id, l.statement_id, l.posted_at, l.amount_cents, l.description, l.reference, l.match_status,
+               l.matched_transaction_id, l.matched_by_user_id, l.matched_at
+        FROM trust_bank_statement_lines l
+        JOIN trust_bank_statements s ON s.id = l.statement_id
+        WHERE l.practice_id = ? AND s.currency = ? AND l.posted_at BETWEEN ? AND ?
+        ORDER BY l.posted_at, l.id
+      `).bind(practiceId, currency, reconcileFrom, periodEnd).all<LineRow>(),
+    ]);
+
+    return buildThreeWayReconciliation({
+      month,
+      currency,
+      statement: statement
+        ? { id: statement.id, closingBalanceCents: Number(statement.closing_balance_cents) }
+        : null,
+      reconcileFrom,
+      transactions,
+      lines: (lines.results ?? []).map(toLine),
+    });
+  }
+
+  private async getLine(practiceId: string, lineId: string): Promise<BankStatementLine | null> {
+    const row = await this.env.DB.prepare(`
+      SELECT ${LINE_COLUMNS}
+      FROM trust_bank_statement_lines
+      WHERE practice_id = ? AND id = ?
+    `).bind(practiceId, lineId).first<LineRow>();
+    return row ? toLine(row) : null;
+  }
+
+  private async autoMatch(
+    practiceId: string,
+    lines: readonly BankStatementLine[],
+    ledger: readonly ReconciliationLedgerEntry[],
+  ): Promise<number> {
+    const claimed = await this.claimedTransactionIds(practiceId, ledger.map((entry) => entry.id));
+    const matches = autoMatchBankLines(lines, ledger.filter((entry) => !claimed.has(entry.id)));
+    if (matches.length === 0) return 0;
+    const matchedAt = new Date().toISOString();
+    try {
+      await this.env.DB.batch(matches.map((match) =>
+        this.env.DB.prepare(`
+          UPDATE trust_bank_statement_lines
+          SET match_status = 'auto', matched_transaction_id = ?, matched_at = ?
+          WHERE practice_id = ? AND id = ? AND matched_transaction_id IS NULL
+        `).bind(match.transactionId, matchedAt, practiceId, match.lineId)));
+    } catch (error) {
+      // A concurrent import claimed one of the transactions first; leave these lines for manual matching.
+      if (!isUniqueViolation(error)) throw error;
+      Logger.warn('trust reconciliation: auto-match lost a race, lines left unmatched', { practiceId });
+      return 0;
+    }
+    return matches.length;
+  }
+
+  /** Which of `transactionIds` some bank line already claims. */
+  private async claimedTransactionIds(practiceId: string, transactionIds: readonly string[]): Promise<Set<string>> {
+    const claimed = new Set<string>();
+    for (const ids of chunk(transactionIds, ID_CHUNK)) {
+      const rows = await this.env.DB.prepare(`
+        SELECT matched_transaction_id FROM trust_bank_statement_lines
+        WHERE practice_id = ? AND matched_transaction_id IN (${ids.map(() => '?').join(', ')})
+      `).bind(practiceId, ...ids).all<{ matched_transaction_id: string }>();
+      for (const row of rows.results ?? []) claimed.add(row.matched_transaction_id);
+    }
+    return claimed;
+  }
+
+  /** Ledger transactions in `currency` posted between two days, inclusive. */
+  private async fetchLedger(
+    practiceId: string,
+    headers: Record<string, string>,
+    fromDay: string,
+    toDay: string,
+    currency: string,
+  ): Promise<ReconciliationLedgerEntry[]> {
+    const startMs = Date.parse(`${fromDay}T00:00:00.000Z`);
+    const endMs = Date.parse(`${toDay}T23:59:59.999Z`);
+    const transactions = await new ReportService(this.env).fetchTrustTransactions(
+      practiceId,
+      headers,
+      { startMs, endMs, startIso: new Date(startMs).toISOString(), endIso: new Date(endMs).toISOString() },
+      'trust-reconciliation',
+    );
+    const entries: ReconciliationLedgerEntry[] = [];
+    for (const transaction of transactions) {
+      const occurredMs = transaction.occurred_at ? Date.parse(transaction.occurred_at) : NaN;
+      if (!Number.isFinite(occurredMs) || occurredMs < startMs || occurredMs > endMs) continue;
+      if (normalizeCurrencyCode(transaction.currency) !== currency) continue;
+      entries.push({
+        id: transaction.id,
+        occurredAt: new Date(occurredMs).toISOString(),
+        amountCents: Math.round(transaction.amount ?? 0),
+        type: transaction.type ?? null,
+        description: transaction.description ?? null,
+        clientId: transaction.client_id ?? null,
+        clientName: resolveClientName(transaction),
+        balanceAfterCents: typeof transaction.balance_after === 'number' ? Math.round(transaction.balance_after) : null,
+      });
+    }
+    return entries;
+  }
+}
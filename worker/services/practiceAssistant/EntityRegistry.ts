@@ -432,6 +432,30 @@ export const ENTITY_REGISTRY: Record<string, EntityConfig> = {
     listKeys: ["invoices", "items", "results"],
   },
 
+  // ── Trust ledger ─────────────────────────────────────────────────────────────
+  /**
+   * Deposit to or withdrawal from a matter's trust (IOLTA) ledger. Ledger
+   * rows are never edited; corrections are new transactions. Subject to the
+   * practice's trust compliance rules (dual approval, lock on zero).
+   */
+  trust_transaction: {
+    entityType: "trust_transaction",
+    owner: "backend",
+    readRoute: ({ practiceId, id }) => `/api/trust-ledger/${enc(practiceId)}/${enc(id!)}`,
+    listRoute: ({ practiceId }) => `/api/trust-ledger/${enc(practiceId)}`,
+    createRoute: ({ practiceId }) => `/api/trust-ledger/${enc(practiceId)}`,
+    creatableFields: [
+      { field: "matter_id", aliases: ["matterId"], validator: { kind: "string", minLength: 1 }, allowedOps: ["set"] },
+      { field: "client_id", aliases: ["clientId"], validator: { kind: "string", minLength: 1 }, allowedOps: ["set"] },
+      { field: "type", validator: { kind: "enum", values: ["deposit", "withdrawal"] as const }, allowedOps: ["set"] },
+      { field: "amount", validator: { kind: "money", min: 0.01 }, description: "Amount in dollars, always positive", allowedOps: ["set"] },
+      { field: "description", validator: { kind: "string", minLength: 1 }, allowedOps: ["set"] },
+      { field: "occurred_at", aliases: ["occurredAt"], validator: { kind: "date" }, allowedOps: ["set"] },
+    ],
+    requiredCreateFields: ["matter_id", "type", "amount", "description"],
+    listKeys: ["transactions", "items", "results"],
+  },
+
   // ── Engagements ──────────────────────────────────────────────────────────────
   engagement: {
     entityType: "engagement",
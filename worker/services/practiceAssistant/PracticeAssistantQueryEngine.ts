@@ -1,12 +1,19 @@
 import type { Env } from '../../types.js';
 import type { AuthContext } from '../../middleware/auth.js';
-import { createWorkersAiClient, resolveWorkersAiModel } from '../../utils/workersAiClient.js';
+import {
+  AI_BUDGET_EXHAUSTED_MESSAGE,
+  createWorkersAiClient,
+  isAiBudgetExhausted,
+  resolveWorkersAiModel,
+} from '../../utils/workersAiClient.js';
 import { consumeAiStream, DEFAULT_AI_MODEL } from '../../routes/aiChatShared.js';
 import { executePracticeAssistantTools } from './toolExecutor.js';
 import { toOpenAiTools } from './toolRegistry.js';
 import { PracticeAssistantAuditService } from './auditService.js';
 import { buildTurnMetadata, persistAssistantMessage } from './messageAdapter.js';
 import { ConversationService } from '../ConversationService.js';
+import { AiUsageService } from '../AiUsageService.js';
+import type { AiTokenUsage } from '../../utils/aiUsage.js';
 import { Logger } from '../../utils/logger.js';
 import type {
   PracticeAssistantProgress,
@@ -136,7 +143,11 @@ export class PracticeAssistantQueryEngine {
     emitTokens: boolean,
     requestId: string,
     pass: 'tool_selection' | 'final_response',
-  ): AsyncGenerator<PracticeAssistantEvent, { reply: string; toolCalls: Array<{ name: string; arguments: string }> }, unknown> {
+  ): AsyncGenerator<
+    PracticeAssistantEvent,
+    { reply: string; toolCalls: Array<{ name: string; arguments: string }>; usage: AiTokenUsage | null },
+    unknown
+  > {
     const events: PracticeAssistantEvent[] = [];
     let notify: (() => void) | null = null;
     const wake = () => {
@@ -246,7 +257,9 @@ export class PracticeAssistantQueryEngine {
         payload: { source: 'practice_assistant', mode: 'PRACTICE_ASSISTANT' },
       });
 
-      const aiClient = createWorkersAiClient(env);
+      const aiClient = createWorkersAiClient(env, {
+        meter: new AiUsageService(env).meter({ practiceId, feature: 'practice_assistant', conversationId }),
+      });
       const model = resolveWorkersAiModel(env, DEFAULT_AI_MODEL);
       Logger.info('practice_assistant.first_pass.request_started', {
         requestId,
@@ -255,14 +268,15 @@ export class PracticeAssistantQueryEngine {
         messageCount: conversationMessages.length,
         toolCount: toOpenAiTools().length,
       });
-      const firstPass = await aiClient.requestChatCompletions({
+      const firstPassPayload = {
         model, temperature: 0.1, max_tokens: 1200, stream: true,
         tools: toOpenAiTools(), tool_choice: 'auto',
         messages: [
           { role: 'system', content: systemPrompt },
           ...conversationMessages,
         ],
-      }, this.abortController.signal);
+      };
+      const firstPass = await aiClient.requestChatCompletions(firstPassPayload, this.abortController.signal);
       Logger.info('practice_assistant.first_pass.response_headers', {
         requestId,
         conversationId,
@@ -270,9 +284,11 @@ export class PracticeAssistantQueryEngine {
         ok: firstPass.ok,
         contentType: firstPass.headers.get('content-type'),
       });
+      if (isAiBudgetExhausted(firstPass)) throw new Error(AI_BUDGET_EXHAUSTED_MESSAGE);
       if (!firstPass.ok) throw new Error(`Workers AI tool-selection failed with HTTP ${firstPass.status}`);
 
       const planned = await (yield* this.consumeModelStream(firstPass, false, requestId, 'tool_selection'));
+      await aiClient.recordUsage(firstPassPayload, planned);
 
       const toolCalls = normalizeToolCalls(planned.toolCalls);
       Logger.info('practice_assistant.first_pass.parsed', {
@@ -309,13 +325,14 @@ export class PracticeAssistantQueryEngine {
         toolResultCount: toolResults.length,
         finalPromptLength: finalUserPrompt.length,
       });
-      const finalResponse = await aiClient.requestChatCompletions({
+      const finalPayload = {
         model, temperature: 0.2, max_tokens: 1600, stream: true,
         messages: [
           { role: 'system', content: finalSystemPrompt },
           { role: 'user', content: finalUserPrompt },
         ],
-      }, this.abortController.signal);
+      };
+      const finalResponse = await aiClient.requestChatCompletions(finalPayload, this.abortController.signal);
       Logger.info('practice_assistant.final_pass.response_headers', {
         requestId,
         conversationId,
@@ -323,9 +340,11 @@ export class PracticeAssistantQueryEngine {
         ok: finalResponse.ok,
         contentType: finalResponse.headers.get('content-type'),
       });
+      if (isAiBudgetExhausted(finalResponse)) throw new Error(AI_BUDGET_EXHAUSTED_MESSAGE);
       if (!finalResponse.ok) throw new Error(`Workers AI final response failed with HTTP ${finalResponse.status}`);
 
       const final = await (yield* this.consumeModelStream(finalResponse, true, requestId, 'final_response'));
+      await aiClient.recordUsage(finalPayload, final);
 
       if (final.toolCalls.length > 0) {
         Logger.warn('practice_assistant.final_pass.unexpected_tool_calls', {
@@ -366,7 +385,7 @@ export class PracticeAssistantQueryEngine {
 
       const metadata = buildTurnMetadata(toolResults, progress);
       const persistedMessageId = await persistAssistantMessage(env, {
-        conversationId, practiceId, content: reply, metadata,
+        conversationId, practiceId, content: reply, metadata, tokenCount: final.usage?.outputTokens ?? null,
       });
 
       await this.audit.record({
@@ -1,11 +1,25 @@
 import type { Env } from '../../types.js';
 import { HttpErrors } from '../../errorHandler.js';
+import { Logger } from '../../utils/logger.js';
 import type {
   PracticeAssistantActionStatus,
   PracticeAssistantActionSummary,
   PracticeAssistantSource,
 } from './types.js';
+import type { PracticeAssistantApprovalEntry } from '../../types/wire/practiceAssistant.js';
 import {
+  actionAmount,
+  approverRefusal,
+  evaluateApprovals,
+  pendingExpiry,
+  resolveApprovalRequirement,
+  type ApprovalRequirement,
+} from './approvalPolicy.js';
+import { PracticeAssistantApprovalPolicyService } from './approvalPolicyService.js';
+import { TrustComplianceService } from '../TrustComplianceService.js';
+import type { StagedTrustSubject } from '../../utils/trustComplianceRules.js';
+import {
+  actionPayloadSchema,
   validateActionPayload,
   getEntityConfig,
   deriveActionCopy,
@@ -32,8 +46,97 @@ interface ActionRow {
   payload_json: string;
   result_json: string | null;
   error_message: string | null;
+  policy_version?: number | null;
+  approval_requirement_json?: string | null;
+  expires_at?: string | null;
+}
+
+interface ApprovalRow {
+  id: string;
+  user_id: string;
+  member_role: string;
+  decision: PracticeAssistantApprovalEntry['decision'];
+  comment: string | null;
+  policy_version: number;
+  created_at: string;
 }
 
+/** The member recording a decision or comment on a staged action. */
+export interface ActionApprover {
+  userId: string;
+  memberRole: string;
+  comment?: string | null;
+}
+
+export const APPROVAL_COMMENT_MAX = 2000;
+
+// Rows staged before approval policies existed: one approver, no expiry.
+const LEGACY_REQUIREMENT: ApprovalRequirement = {
+  policyVersion: 0,
+  approvals: 1,
+  minRole: 'paralegal',
+  requireRole: null,
+  matchedRules: [],
+};
+
+const parseRequirement = (row: ActionRow): ApprovalRequirement => {
+  if (!row.approval_requirement_json) return LEGACY_REQUIREMENT;
+  try {
+    return { ...LEGACY_REQUIREMENT, ...(JSON.parse(row.approval_requirement_json) as Partial<ApprovalRequirement>) };
+  } catch {
+    return LEGACY_REQUIREMENT;
+  }
+};
+
+const toApprovalEntry = (row: ApprovalRow): PracticeAssistantApprovalEntry => ({
+  id: row.id,
+  userId: row.user_id,
+  memberRole: row.member_role,
+  decision: row.decision,
+  comment: row.comment,
+  policyVersion: Number(row.policy_version),
+  createdAt: row.created_at,
+});
+
+const stringField = (record: Record<string, unknown> | undefined, ...fields: string[]): string | null => {
+  for (const field of fields) {
+    const value = record?.[field];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return null;
+};
+
+/** The matter and trust transaction a staged payload touches, for the trust compliance rules. */
+const trustSubjectForPayload = (payload: Record<string, unknown>): StagedTrustSubject => {
+  const parsed = actionPayloadSchema.safeParse(payload);
+  if (!parsed.success) return { matterId: null, trustTransaction: null };
+  const action = parsed.data;
+  const data = action.actionType === 'create_entity' ? action.data
+    : action.actionType === 'run_entity_action' ? action.input
+      : undefined;
+  const matterId = action.entityType === 'matter' && action.actionType !== 'create_entity'
+    ? action.id
+    : action.parent?.entityType === 'matter'
+      ? action.parent.id
+      : stringField(data, 'matter_id', 'matterId');
+  const amount = actionAmount(action);
+  return {
+    matterId,
+    trustTransaction: action.entityType === 'trust_transaction' && action.actionType === 'create_entity'
+      ? { type: stringField(data, 'type') ?? 'withdrawal', amountCents: amount === null ? null : Math.round(amount * 100) }
+      : null,
+  };
+};
+
+const normalizeComment = (comment: string | null | undefined): string | null => {
+  const trimmed = comment?.trim();
+  if (!trimmed) return null;
+  if (trimmed.length > APPROVAL_COMMENT_MAX) {
+    throw HttpErrors.badRequest(`Comment must be at most ${APPROVAL_COMMENT_MAX} characters`);
+  }
+  return trimmed;
+};
+
 export class PracticeAssistantActionService {
   constructor(private env: Env) {}
 
@@ -46,11 +149,26 @@ export class PracticeAssistantActionService {
     summary: Omit<PracticeAssistantActionSummary, 'actionId' | 'toolUseId' | 'toolName' | 'status'>;
   }): Promise<PracticeAssistantActionSummary> {
     const actionId = crypto.randomUUID();
+    const now = new Date();
+    const policy = await new PracticeAssistantApprovalPolicyService(this.env).getActive(input.practiceId);
+    const trust = await new TrustComplianceService(this.env).evaluateStagedAction(
+      input.practiceId,
+      actionId,
+      trustSubjectForPayload(input.summary.payload),
+      'stage',
+    );
+    if (trust.blockedReason) throw HttpErrors.conflict(trust.blockedReason);
+    const policyRequirement = resolveApprovalRequirement(policy, input.summary.payload);
+    const requirement: ApprovalRequirement = trust.approvals && trust.approvals > policyRequirement.approvals
+      ? { ...policyRequirement, approvals: trust.approvals }
+      : policyRequirement;
+    const expiresAt = pendingExpiry(policy, now);
     await this.env.DB.prepare(`
       INSERT INTO practice_assistant_actions (
         id, practice_id, conversation_id, created_by_user_id, tool_use_id, tool_name,
-        status, approval_summary_json, payload_json, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?)
+        status, approval_summary_json, payload_json, created_at,
+        policy_version, approval_requirement_json, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?, ?, ?, ?, ?)
     `).bind(
       actionId,
       input.practiceId,
@@ -64,7 +182,10 @@ export class PracticeAssistantActionService {
         sources: input.summary.sources ?? [],
       }),
       JSON.stringify(input.summary.payload),
-      new Date().toISOString(),
+      now.toISOString(),
+      requirement.policyVersion,
+      JSON.stringify(requirement),
+      expiresAt,
     ).run();
 
     await this.env.DB.prepare(`
@@ -80,8 +201,10 @@ export class PracticeAssistantActionService {
         toolUseId: input.toolUseId,
         toolName: input.toolName,
         status: 'pending',
+        policyVersion: requirement.policyVersion,
+        approvalsRequired: requirement.approvals,
       }),
-      new Date().toISOString(),
+      now.toISOString(),
     ).run();
 
     return {
@@ -93,33 +216,172 @@ export class PracticeAssistantActionService {
       status: 'pending',
       payload: input.summary.payload,
       sources: input.summary.sources,
+      approval: {
+        policyVersion: requirement.policyVersion,
+        approvalsRequired: requirement.approvals,
+        approvalsReceived: 0,
+        minRole: requirement.minRole,
+        requireRole: requirement.requireRole,
+        expiresAt,
+      },
     };
   }
 
-  async approve(actionId: string, practiceId: string): Promise<PracticeAssistantActionSummary> {
-    const row = await this.getRow(actionId, practiceId);
+  /**
+   * Records an approval. The action moves to 'approved' once the policy it
+   * was staged under is satisfied; until then it stays pending and
+   * `readyToExecute` is false. Only the call that makes the transition gets
+   * `readyToExecute: true`, so concurrent approvers never execute twice.
+   */
+  async approve(
+    actionId: string,
+    practiceId: string,
+    approver: ActionApprover,
+  ): Promise<{ action: PracticeAssistantActionSummary; readyToExecute: boolean }> {
+    const row = await this.getOpenRow(actionId, practiceId);
+    const requirement = parseRequirement(row);
+    const comment = normalizeComment(approver.comment);
+    const decisions = await this.listDecisions(actionId, practiceId);
+    const refusal = approverRefusal(requirement, decisions, approver, 'approve');
+    if (refusal) throw HttpErrors.forbidden(refusal);
+
+    await this.insertDecision(row, approver, 'approve', comment, requirement.policyVersion);
+    const progress = evaluateApprovals(requirement, await this.listDecisions(actionId, practiceId));
+    if (!progress.satisfied) {
+      return { action: this.toSummary(row, progress.approvalsReceived), readyToExecute: false };
+    }
+
     const result = await this.env.DB.prepare(`
       UPDATE practice_assistant_actions
       SET status = 'approved', approved_at = ?
       WHERE id = ? AND practice_id = ? AND status = 'pending'
     `).bind(new Date().toISOString(), actionId, practiceId).run();
     if (!result.meta.changes) {
-      throw HttpErrors.conflict(`Action is already ${row.status}`);
+      const current = await this.getRow(actionId, practiceId);
+      return { action: this.toSummary(current, progress.approvalsReceived), readyToExecute: false };
     }
-    return this.toSummary({ ...row, status: 'approved' });
+    return {
+      action: this.toSummary({ ...row, status: 'approved' }, progress.approvalsReceived),
+      readyToExecute: true,
+    };
   }
 
-  async reject(actionId: string, practiceId: string): Promise<PracticeAssistantActionSummary> {
-    const row = await this.getRow(actionId, practiceId);
+  async reject(actionId: string, practiceId: string, approver: ActionApprover): Promise<PracticeAssistantActionSummary> {
+    const row = await this.getOpenRow(actionId, practiceId);
+    const requirement = parseRequirement(row);
+    const comment = normalizeComment(approver.comment);
+    const decisions = await this.listDecisions(actionId, practiceId);
+    const refusal = approverRefusal(requirement, decisions, approver, 'reject');
+    if (refusal) throw HttpErrors.forbidden(refusal);
+
     const result = await this.env.DB.prepare(`
       UPDATE practice_assistant_actions
       SET status = 'rejected', rejected_at = ?
       WHERE id = ? AND practice_id = ? AND status = 'pending'
     `).bind(new Date().toISOString(), actionId, practiceId).run();
     if (!result.meta.changes) {
+      const current = await this.getRow(actionId, practiceId);
+      throw HttpErrors.conflict(`Action is already ${current.status}`);
+    }
+    await this.insertDecision(row, approver, 'reject', comment, requirement.policyVersion);
+    return this.toSummary({ ...row, status: 'rejected' }, evaluateApprovals(requirement, decisions).approvalsReceived);
+  }
+
+  /** Adds a comment to the trail. Comments are allowed in any status. */
+  async comment(actionId: string, practiceId: string, author: ActionApprover): Promise<PracticeAssistantApprovalEntry> {
+    const row = await this.getRow(actionId, practiceId);
+    const comment = normalizeComment(author.comment);
+    if (!comment) throw HttpErrors.badRequest('comment is required');
+    return this.insertDecision(row, author, 'comment', comment, parseRequirement(row).policyVersion);
+  }
+
+  async listDecisions(actionId: string, practiceId: string): Promise<PracticeAssistantApprovalEntry[]> {
+    const rows = await this.env.DB.prepare(`
+      SELECT id, user_id, member_role, decision, comment, policy_version, created_at
+      FROM practice_assistant_action_approvals
+      WHERE action_id = ? AND practice_id = ?
+      ORDER BY created_at ASC
+    `).bind(actionId, practiceId).all<ApprovalRow>();
+    return (rows.results ?? []).map(toApprovalEntry);
+  }
+
+  /** The action with its approval progress and full decision trail. */
+  async getWithTrail(
+    actionId: string,
+    practiceId: string,
+  ): Promise<{ action: PracticeAssistantActionSummary; trail: PracticeAssistantApprovalEntry[] }> {
+    await this.expirePending(practiceId);
+    const row = await this.getRow(actionId, practiceId);
+    const trail = await this.listDecisions(actionId, practiceId);
+    const { approvalsReceived } = evaluateApprovals(parseRequirement(row), trail);
+    return { action: this.toSummary(row, approvalsReceived), trail };
+  }
+
+  /**
+   * Moves pending actions past their expiry to 'expired'. Scoped to one
+   * practice when given, otherwise every practice (scheduled housekeeping).
+   */
+  async expirePending(practiceId?: string): Promise<number> {
+    const now = new Date().toISOString();
+    const result = practiceId
+      ? await this.env.DB.prepare(`
+          UPDATE practice_assistant_actions
+          SET status = 'expired', expired_at = ?
+          WHERE practice_id = ? AND status = 'pending' AND expires_at IS NOT NULL AND expires_at <= ?
+        `).bind(now, practiceId, now).run()
+      : await this.env.DB.prepare(`
+          UPDATE practice_assistant_actions
+          SET status = 'expired', expired_at = ?
+          WHERE status = 'pending' AND expires_at IS NOT NULL AND expires_at <= ?
+        `).bind(now, now).run();
+    return result.meta?.changes ?? 0;
+  }
+
+  /** Loads a pending action, expiring it first if its TTL has passed. */
+  private async getOpenRow(actionId: string, practiceId: string): Promise<ActionRow> {
+    const row = await this.getRow(actionId, practiceId);
+    if (row.status === 'pending' && row.expires_at && row.expires_at <= new Date().toISOString()) {
+      await this.expirePending(practiceId);
+      throw HttpErrors.conflict('Action has expired');
+    }
+    if (row.status !== 'pending') {
       throw HttpErrors.conflict(`Action is already ${row.status}`);
     }
-    return this.toSummary({ ...row, status: 'rejected' });
+    return row;
+  }
+
+  private async insertDecision(
+    row: ActionRow,
+    approver: ActionApprover,
+    decision: PracticeAssistantApprovalEntry['decision'],
+    comment: string | null,
+    policyVersion: number,
+  ): Promise<PracticeAssistantApprovalEntry> {
+    const entry: PracticeAssistantApprovalEntry = {
+      id: crypto.randomUUID(),
+      userId: approver.userId,
+      memberRole: approver.memberRole,
+      decision,
+      comment,
+      policyVersion,
+      createdAt: new Date().toISOString(),
+    };
+    await this.env.DB.prepare(`
+      INSERT INTO practice_assistant_action_approvals (
+        id, action_id, practice_id, user_id, member_role, decision, comment, policy_version, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+      entry.id,
+      row.id,
+      row.practice_id,
+      entry.userId,
+      entry.memberRole,
+      entry.decision,
+      entry.comment,
+      entry.policyVersion,
+      entry.createdAt,
+    ).run();
+    return entry;
   }
 
   async executeApproved(actionId: string, practiceId: string, request: Request): Promise<PracticeAssistantActionSummary> {
@@ -129,12 +391,21 @@ export class PracticeAssistantActionService {
     }
     const payload = JSON.parse(row.payload_json) as Record<string, unknown>;
     try {
+      // The matter may have been locked since the action was staged.
+      const trust = await new TrustComplianceService(this.env).evaluateStagedAction(
+        practiceId,
+        actionId,
+        trustSubjectForPayload(payload),
+        'execute',
+      );
+      if (trust.blockedReason) throw HttpErrors.conflict(trust.blockedReason);
       const result = await this.executePayload(practiceId, payload, request);
       await this.env.DB.prepare(`
         UPDATE practice_assistant_actions
         SET status = 'executed', result_json = ?, executed_at = ?
         WHERE id = ? AND practice_id = ?
       `).bind(JSON.stringify(result ?? {}), new Date().toISOString(), actionId, practiceId).run();
+      await this.evaluateExecutedTrustTransaction(practiceId, actionId, payload, result);
       return this.toSummary({ ...row, status: 'executed', result_json: JSON.stringify(result ?? {}) });
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -147,6 +418,31 @@ export class PracticeAssistantActionService {
     }
   }
 
+  /**
+   * Runs the trust ledger rules on a transaction the action just created, so
+   * the matter's balance and lock state don't wait for the backend event. The
+   * transaction exists by now, so a failure here is logged, not raised.
+   */
+  private async evaluateExecutedTrustTransaction(
+    practiceId: string,
+    actionId: string,
+    payload: Record<string, unknown>,
+    result: unknown,
+  ): Promise<void> {
+    const subject = trustSubjectForPayload(payload);
+    if (!subject.trustTransaction) return;
+    const created = result && typeof result === 'object' ? (result as { created?: unknown }).created : null;
+    try {
+      await new TrustComplianceService(this.env).evaluateExecutedTransaction(practiceId, actionId, subject, created);
+    } catch (error) {
+      Logger.warn('Failed to evaluate trust rules for executed action', {
+        practiceId,
+        actionId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   async getRow(actionId: string, practiceId: string): Promise<ActionRow> {
     const row = await this.env.DB.prepare(`
       SELECT *
@@ -157,13 +453,14 @@ export class PracticeAssistantActionService {
     return row;
   }
 
-  toSummary(row: ActionRow): PracticeAssistantActionSummary {
+  toSummary(row: ActionRow, approvalsReceived = 0): PracticeAssistantActionSummary {
     const approval = JSON.parse(row.approval_summary_json) as {
       title?: string;
       description?: string;
       sources?: PracticeAssistantSource[];
     };
     const payload = JSON.parse(row.payload_json) as Record<string, unknown>;
+    const requirement = parseRequirement(row);
     return {
       actionId: row.id,
       toolUseId: row.tool_use_id,
@@ -173,6 +470,14 @@ export class PracticeAssistantActionService {
       status: row.status,
       payload,
       sources: approval.sources ?? [],
+      approval: {
+        policyVersion: requirement.policyVersion,
+        approvalsRequired: requirement.approvals,
+        approvalsReceived,
+        minRole: requirement.minRole,
+        requireRole: requirement.requireRole,
+        expiresAt: row.expires_at ?? null,
+      },
     };
   }
 
@@ -0,0 +1,219 @@
+import { z } from 'zod';
+import { actionPayloadSchema, type ActionPayload } from './EntityRegistry.js';
+import {
+  PracticeAssistantApproverRoleSchema,
+  type PracticeAssistantApproverRole,
+} from '../../types/wire/practiceAssistant.js';
+
+/**
+ * Approval policies for staged practice assistant actions.
+ *
+ * A policy is an ordered list of rules. Every rule whose `actions` and
+ * `amountOver` match the staged payload applies, and the strictest value of
+ * each requirement wins: the most approvals, the highest minimum role, the
+ * highest required role. An action no rule matches needs the built-in
+ * default of one approver at paralegal or above.
+ *
+ * Actions are named `<verb>_<entityType>`: `create_invoice`,
+ * `update_matter_expense`, `delete_client`, and for lifecycle actions the
+ * action name itself, e.g. `send_invoice` or `void_invoice`.
+ */
+
+export type ApproverRole = PracticeAssistantApproverRole;
+
+const ROLE_RANK: Record<ApproverRole, number> = {
+  paralegal: 1,
+  attorney: 2,
+  admin: 3,
+  owner: 4,
+};
+
+export const DEFAULT_PENDING_TTL_HOURS = 72;
+export const MAX_PENDING_TTL_HOURS = 24 * 30;
+export const MAX_POLICY_RULES = 50;
+export const MAX_REQUIRED_APPROVALS = 5;
+
+export const approvalPolicyRuleSchema = z
+  .object({
+    /** Action names the rule covers; omitted covers every action. */
+    actions: z.array(z.string().regex(/^[a-z][a-z0-9_]*$/)).min(1).optional(),
+    /** Only applies when the payload's amount is strictly greater than this. */
+    amountOver: z.number().nonnegative().optional(),
+    approvals: z.number().int().min(1).max(MAX_REQUIRED_APPROVALS),
+    /** Every approver must hold at least this role. */
+    minRole: PracticeAssistantApproverRoleSchema.optional(),
+    /** At least one approver must hold this role or higher. */
+    requireRole: PracticeAssistantApproverRoleSchema.optional(),
+  })
+  .strict();
+
+export const approvalPolicyInputSchema = z
+  .object({
+    rules: z.array(approvalPolicyRuleSchema).max(MAX_POLICY_RULES),
+    pendingTtlHours: z.number().int().min(1).max(MAX_PENDING_TTL_HOURS).optional(),
+  })
+  .strict();
+
+export type ApprovalPolicyRule = z.infer<typeof approvalPolicyRuleSchema>;
+export type ApprovalPolicyInput = z.infer<typeof approvalPolicyInputSchema>;
+
+export interface ApprovalPolicy {
+  /** 0 for the built-in default, which is never stored. */
+  version: number;
+  rules: ApprovalPolicyRule[];
+  pendingTtlHours: number;
+  createdBy: string | null;
+  createdAt: string | null;
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = {
+  version: 0,
+  rules: [],
+  pendingTtlHours: DEFAULT_PENDING_TTL_HOURS,
+  createdBy: null,
+  createdAt: null,
+};
+
+/** Snapshot stored on the action when it is staged. */
+export interface ApprovalRequirement {
+  policyVersion: number;
+  approvals: number;
+  minRole: ApproverRole;
+  requireRole: ApproverRole | null;
+  /** Indexes into the policy's rules that applied. */
+  matchedRules: number[];
+}
+
+export interface ApproverDecision {
+  userId: string;
+  memberRole: string;
+  decision: 'approve' | 'reject' | 'comment';
+}
+
+export const roleRank = (role: string): number => ROLE_RANK[role as ApproverRole] ?? 0;
+
+const higherRole = (a: ApproverRole | null, b: ApproverRole | undefined): ApproverRole | null =>
+  b && (!a || roleRank(b) > roleRank(a)) ? b : a;
+
+export const actionNameForPayload = (payload: ActionPayload): string => {
+  switch (payload.actionType) {
+    case 'create_entity': return `create_${payload.entityType}`;
+    case 'update_entity': return `update_${payload.entityType}`;
+    case 'delete_entity': return `delete_${payload.entityType}`;
+    case 'run_entity_action': return `${payload.action}_${payload.entityType}`;
+  }
+};
+
+const AMOUNT_FIELDS = ['amount', 'total', 'refund_amount', 'refundAmount'];
+const AMOUNT_CENTS_FIELDS = ['amount_cents', 'amountCents', 'total_cents', 'totalCents'];
+
+const amountIn = (record: Record<string, unknown> | undefined): number | null => {
+  if (!record) return null;
+  for (const field of AMOUNT_FIELDS) {
+    if (typeof record[field] === 'number' && Number.isFinite(record[field])) return Math.abs(record[field] as number);
+  }
+  for (const field of AMOUNT_CENTS_FIELDS) {
+    if (typeof record[field] === 'number' && Number.isFinite(record[field])) return Math.abs(record[field] as number) / 100;
+  }
+  return null;
+};
+
+/** The money amount the action moves or sets, in major units, when the payload carries one. */
+export const actionAmount = (payload: ActionPayload): number | null => {
+  switch (payload.actionType) {
+    case 'create_entity': return amountIn(payload.data);
+    case 'run_entity_action': return amountIn(payload.input);
+    case 'delete_entity': return null;
+    case 'update_entity': {
+      const values = Object.fromEntries(payload.operations.map((op) => [op.field, op.op === 'increment' ? op.delta : op.value]));
+      return amountIn(values);
+    }
+  }
+};
+
+/**
+ * Resolves what a staged payload needs under a policy. Payloads that do not
+ * parse only match rules without `actions` or `amountOver`.
+ */
+export const resolveApprovalRequirement = (
+  policy: ApprovalPolicy,
+  payload: Record<string, unknown>,
+): ApprovalRequirement => {
+  const parsed = actionPayloadSchema.safeParse(payload);
+  const actionName = parsed.success ? actionNameForPayload(parsed.data) : null;
+  const amount = parsed.success ? actionAmount(parsed.data) : null;
+
+  const requirement: ApprovalRequirement = {
+    policyVersion: policy.version,
+    approvals: 1,
+    minRole: 'paralegal',
+    requireRole: null,
+    matchedRules: [],
+  };
+  policy.rules.forEach((rule, index) => {
+    if (rule.actions && (!actionName || !rule.actions.includes(actionName))) return;
+    if (rule.amountOver !== undefined && (amount === null || amount <= rule.amountOver)) return;
+    requirement.matchedRules.push(index);
+    requirement.approvals = Math.max(requirement.approvals, rule.approvals);
+    requirement.minRole = higherRole(requirement.minRole, rule.minRole) ?? requirement.minRole;
+    requirement.requireRole = higherRole(requirement.requireRole, rule.requireRole);
+  });
+  // A required role below the minimum is already guaranteed.
+  if (requirement.requireRole && roleRank(requirement.requireRole) <= roleRank(requirement.minRole)) {
+    requirement.requireRole = null;
+  }
+  return requirement;
+};
+
+export interface ApprovalProgress {
+  approvalsReceived: number;
+  approvalsRemaining: number;
+  requireRoleMet: boolean;
+  satisfied: boolean;
+}
+
+export const evaluateApprovals = (
+  requirement: ApprovalRequirement,
+  decisions: ApproverDecision[],
+): ApprovalProgress => {
+  const approvers = decisions.filter((entry) => entry.decision === 'approve');
+  const approvalsReceived = new Set(approvers.map((entry) => entry.userId)).size;
+  const requireRoleMet = !requirement.requireRole
+    || approvers.some((entry) => roleRank(entry.memberRole) >= roleRank(requirement.requireRole!));
+  return {
+    approvalsReceived,
+    approvalsRemaining: Math.max(0, requirement.approvals - approvalsReceived),
+    requireRoleMet,
+    satisfied: approvalsReceived >= requirement.approvals && requireRoleMet,
+  };
+};
+
+/**
+ * Why this member may not record `decision` on the action, or null when they
+ * may. Anyone who can approve can also reject; comments only need membership.
+ */
+export const approverRefusal = (
+  requirement: ApprovalRequirement,
+  decisions: ApproverDecision[],
+  approver: { userId: string; memberRole: string },
+  decision: 'approve' | 'reject',
+): string | null => {
+  if (roleRank(approver.memberRole) < roleRank(requirement.minRole)) {
+    return `This action needs approvers with at least the ${requirement.minRole} role`;
+  }
+  if (decision === 'reject') return null;
+
+  if (decisions.some((entry) => entry.decision === 'approve' && entry.userId === approver.userId)) {
+    return 'You have already approved this action';
+  }
+  const progress = evaluateApprovals(requirement, decisions);
+  const fillsRoleRequirement = requirement.requireRole !== null
+    && roleRank(approver.memberRole) >= roleRank(requirement.requireRole);
+  if (!progress.requireRoleMet && progress.approvalsRemaining <= 1 && !fillsRoleRequirement) {
+    return `The remaining approval must come from a member with at least the ${requirement.requireRole} role`;
+  }
+  return null;
+};
+
+export const pendingExpiry = (policy: ApprovalPolicy, from: Date): string =>
+  new Date(from.getTime() + policy.pendingTtlHours * 60 * 60 * 1000).toISOString();
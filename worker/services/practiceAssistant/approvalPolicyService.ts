@@ -0,0 +1,97 @@
+import type { Env } from '../../types.js';
+import { HttpErrors } from '../../errorHandler.js';
+import {
+  DEFAULT_APPROVAL_POLICY,
+  type ApprovalPolicy,
+  type ApprovalPolicyInput,
+  type ApprovalPolicyRule,
+} from './approvalPolicy.js';
+
+interface PolicyRow {
+  version: number;
+  rules_json: string;
+  pending_ttl_hours: number;
+  created_by_user_id: string | null;
+  created_at: string;
+}
+
+const parseRules = (json: string): ApprovalPolicyRule[] => {
+  try {
+    const parsed = JSON.parse(json) as unknown;
+    return Array.isArray(parsed) ? parsed as ApprovalPolicyRule[] : [];
+  } catch {
+    return [];
+  }
+};
+
+const toPolicy = (row: PolicyRow): ApprovalPolicy => ({
+  version: Number(row.version),
+  rules: parseRules(row.rules_json),
+  pendingTtlHours: Number(row.pending_ttl_hours) || DEFAULT_APPROVAL_POLICY.pendingTtlHours,
+  createdBy: row.created_by_user_id,
+  createdAt: row.created_at,
+});
+
+/**
+ * Versioned, append-only storage for practice approval policies. Saving
+ * never edits a version in place, so the trail on an action always points at
+ * the exact rules it was staged under.
+ */
+export class PracticeAssistantApprovalPolicyService {
+  constructor(private env: Env) {}
+
+  async getActive(practiceId: string): Promise<ApprovalPolicy> {
+    const row = await this.env.DB.prepare(`
+      SELECT version, rules_json, pending_ttl_hours, created_by_user_id, created_at
+      FROM practice_assistant_approval_policies
+      WHERE practice_id = ?
+      ORDER BY version DESC
+      LIMIT 1
+    `).bind(practiceId).first<PolicyRow>();
+    return row ? toPolicy(row) : DEFAULT_APPROVAL_POLICY;
+  }
+
+  async getVersion(practiceId: string, version: number): Promise<ApprovalPolicy | null> {
+    if (version === 0) return DEFAULT_APPROVAL_POLICY;
+    const row = await this.env.DB.prepare(`
+      SELECT version, rules_json, pending_ttl_hours, created_by_user_id, created_at
+      FROM practice_assistant_approval_policies
+      WHERE practice_id = ? AND version = ?
+    `).bind(practiceId, version).first<PolicyRow>();
+    return row ? toPolicy(row) : null;
+  }
+
+  /** Stores `input` as the next version and returns it. */
+  async save(practiceId: string, input: ApprovalPolicyInput, userId: string): Promise<ApprovalPolicy> {
+    const current = await this.getActive(practiceId);
+    const policy: ApprovalPolicy = {
+      version: current.version + 1,
+      rules: input.rules,
+      pendingTtlHours: input.pendingTtlHours ?? current.pendingTtlHours,
+      createdBy: userId,
+      createdAt: new Date().toISOString(),
+    };
+    try {
+      await this.env.DB.prepare(`
+        INSERT INTO practice_assistant_approval_policies (
+          id, practice_id, version, rules_json, pending_ttl_hours, created_by_user_id, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).bind(
+        crypto.randomUUID(),
+        practiceId,
+        policy.version,
+        JSON.stringify(policy.rules),
+        policy.pendingTtlHours,
+        userId,
+        policy.createdAt,
+      ).run();
+    } catch (error) {
+      // UNIQUE (practice_id, version): someone else saved the same version first.
+      if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+        throw HttpErrors.conflict('The approval policy was changed by someone else. Reload and try again.');
+      }
+      throw error;
+    }
+    return policy;
+  }
+}
@@ -54,6 +54,8 @@ export const persistAssistantMessage = async (
     practiceId: string;
     content: string;
     metadata: PracticeAssistantTurnMetadata;
+    /** Model output tokens of the reply. */
+    tokenCount?: number | null;
   },
 ): Promise<string> => {
   const now = new Date().toISOString();
@@ -72,14 +74,15 @@ export const persistAssistantMessage = async (
         env.DB.prepare(`
           INSERT INTO chat_messages (
             id, conversation_id, practice_id, user_id, role, content, metadata,
-            client_id, seq, server_ts, created_at
-          ) VALUES (?, ?, ?, NULL, 'assistant', ?, ?, ?, ?, ?, ?)
+            token_count, client_id, seq, server_ts, created_at
+          ) VALUES (?, ?, ?, NULL, 'assistant', ?, ?, ?, ?, ?, ?, ?)
         `).bind(
           messageId,
           input.conversationId,
           input.practiceId,
           input.content,
           JSON.stringify(input.metadata),
+          input.tokenCount ?? null,
           clientId,
           seq,
           now,
@@ -4,6 +4,8 @@ export type NotificationCategory = 'message' | 'payment' | 'intake' | 'matter' |
 export type NotificationSeverity = 'info' | 'success' | 'warning' | 'error';
 export type NotificationPolicyCategoryKey = 'messages' | 'system' | 'payments' | 'intakes' | 'matters';
 export type InAppNotificationFrequency = 'all' | 'summaries_only';
+export type NotificationDigestFrequency = 'off' | 'daily' | 'weekly';
+export type NotificationHoldReason = 'quiet_hours' | 'digest';
 export type MinorAmount = number & { readonly __brand: 'MinorAmount' };
 
 export interface NotificationPolicyChannel {
@@ -97,6 +99,12 @@ export interface NotificationRecipientSnapshot {
     mentionsOnly?: boolean;
     inAppEnabled?: boolean;
     inAppFrequency?: InAppNotificationFrequency;
+    /** Wall-clock HH:MM window in `timeZone`; may wrap midnight (22:00–07:00). */
+    quietHours?: { start: string; end: string } | null;
+    /** IANA zone for quiet hours and digest delivery. Defaults to UTC. */
+    timeZone?: string | null;
+    /** Push/email for this category go out as a digest instead of one by one. */
+    digest?: NotificationDigestFrequency;
   };
 }
 
@@ -118,6 +126,12 @@ export interface NotificationQueueMessage {
   metadata?: Record<string, unknown> | null;
   createdAt?: string;
   recipients: NotificationRecipientSnapshot[];
+  /**
+   * Set on the summary sent when held notifications are released (see
+   * NotificationHoldService). It goes out by push/email only — the held
+   * notifications already have their in-app records — and is never held.
+   */
+  heldSummary?: { reason: NotificationHoldReason; count: number } | null;
 }
 
 // Environment interface with proper Cloudflare Workers types
@@ -134,6 +148,10 @@ export interface Env {
   // storage, and the protocol version negotiation state.
   // See docs/plans/2026-05-15-002-feat-blawby-mcp-agent-surface-plan.md.
   MCP_SESSION: DurableObjectNamespace;
+  // Token-bucket rate limiter, one DO per `<family>:<subject>` bucket
+  // (see worker/middleware/rateLimit.ts). Optional so local setups without
+  // the binding fall back to per-isolate limits.
+  RATE_LIMITER?: DurableObjectNamespace;
   FILES_BUCKET?: R2Bucket;
   ADOBE_CLIENT_ID?: string;
   ADOBE_CLIENT_SECRET?: string;
@@ -153,6 +171,7 @@ export interface Env {
 
   REQUIRE_EMAIL_VERIFICATION?: string | boolean;
   ENABLE_PUSH_NOTIFICATIONS?: string | boolean;
+  ENABLE_EMAIL_NOTIFICATIONS?: string | boolean;
 
   /**
    * Idempotency salt — required for MCP rollout (U12 of the MCP agent
@@ -173,8 +192,9 @@ export interface Env {
   // MCP_BACKEND_AUDIENCE — canonical resource URL for the
   //   /.well-known/oauth-protected-resource document and JWT `aud` enforcement.
   //   If unset, derived from the request URL (local dev).
-  // MCP_BACKEND_TOKEN — referenced by MCP tool handlers; pending replacement
-  //   with proper OAuth once the backend wires that auth path.
+  // MCP_BACKEND_TOKEN — referenced by MCP tool handlers and by
+  //   RemoteApiService.serviceRequest for background backend reads; pending
+  //   replacement with proper OAuth once the backend wires that auth path.
   // WORKER_EVENT_SECRET — secret backend sends in `x-worker-secret` header
   //   on the /api/mcp/internal/events ingest route.
   MCP_BACKEND_AUDIENCE?: string;
@@ -217,6 +237,19 @@ export interface Env {
   ONESIGNAL_REST_API_KEY?: string;
   ONESIGNAL_API_BASE?: string;
 
+  // Email notifications. EMAIL_PROVIDER is 'resend' (HTTP API, needs
+  // EMAIL_API_KEY + EMAIL_FROM) or 'local' (records messages in memory and
+  // under email-outbox/ in FILES_BUCKET; dev and tests only).
+  EMAIL_PROVIDER?: string;
+  EMAIL_API_KEY?: string;
+  EMAIL_API_BASE?: string;
+  EMAIL_FROM?: string;
+  // Signs unsubscribe links; checked on /api/email/unsubscribe.
+  EMAIL_UNSUBSCRIBE_SECRET?: string;
+  // Shared secret the provider's bounce/complaint webhook sends in
+  // x-email-webhook-secret.
+  EMAIL_WEBHOOK_SECRET?: string;
+
   // Geoapify configuration for address autocomplete
   GEOAPIFY_API_KEY?: string;
   GEOAPIFY_DAILY_LIMIT?: string;
@@ -449,6 +482,13 @@ export interface AnalysisResult {
     tables?: unknown[];
     elements?: unknown[];
   };
+  // In-worker extraction (used when Adobe is not configured or fails)
+  localExtract?: {
+    text: string;
+    pages: string[];
+    pageCount: number;
+    keyInfo: string;
+  };
   // Flag to distinguish raw extraction from AI analysis
   extraction_only?: boolean;
   // State indicator: 'extracted' for successful raw extraction, 'failed' for extraction failures, 'unsupported' for unsupported file types
@@ -462,6 +502,10 @@ export interface UIMessageExtras {
   userId?: string | null;
   files?: FileAttachment[];
   reactions?: MessageReaction[];
+  /** Set when the author edited the message after sending. */
+  editedAt?: string | null;
+  /** Set when the message was deleted; content is already cleared. */
+  deletedAt?: string | null;
 
   matterCreation?: MatterCreationData;
   welcomeMessage?: WelcomeMessageData;
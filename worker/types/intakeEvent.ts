@@ -9,7 +9,8 @@ export type IntakeEventProvenance =
   | 'safety_rail.legal_disclaimer'
   | 'ai_failure'
   | 'submit_intake'
-  | 'mode_unresolved';
+  | 'mode_unresolved'
+  | 'intake_step';
 
 export const INTAKE_EVENT_PROVENANCES: readonly IntakeEventProvenance[] = [
   'ai_intake',
@@ -18,6 +19,21 @@ export const INTAKE_EVENT_PROVENANCES: readonly IntakeEventProvenance[] = [
   'ai_failure',
   'submit_intake',
   'mode_unresolved',
+  'intake_step',
+] as const;
+
+/**
+ * Intake funnel steps, in order. AI turns are 'case' and submit turns are
+ * 'submit'; the disclaimer and contact steps happen before the first AI turn
+ * and are recorded as 'intake_step' rows.
+ */
+export type IntakeFunnelStep = 'disclaimer' | 'contact' | 'case' | 'submit';
+
+export const INTAKE_FUNNEL_STEPS: readonly IntakeFunnelStep[] = [
+  'disclaimer',
+  'contact',
+  'case',
+  'submit',
 ] as const;
 
 export interface IntakeEventRecordInput {
@@ -31,6 +47,13 @@ export interface IntakeEventRecordInput {
   toolCalls?: unknown[] | null;
   toolResults?: unknown[] | null;
   failureReason?: string | null;
+  /** Slug of the intake template the conversation runs. */
+  templateSlug?: string | null;
+  /** Required for 'intake_step' rows; derived from provenance otherwise. */
+  funnelStep?: IntakeFunnelStep | null;
+  /** Intake experiment the conversation was assigned to, if any. */
+  experimentId?: string | null;
+  experimentVariant?: string | null;
 }
 
 /**
@@ -51,6 +74,10 @@ export interface IntakeEventRow {
   tool_results_json: string | null;
   failure_reason: string | null;
   created_at: string;
+  template_slug: string | null;
+  funnel_step: IntakeFunnelStep | null;
+  experiment_id: string | null;
+  experiment_variant: string | null;
 }
 
 /**
@@ -71,4 +98,8 @@ export interface IntakeEventTurn {
   tool_results: unknown[] | null;
   failure_reason: string | null;
   created_at: string;
+  template_slug: string | null;
+  funnel_step: IntakeFunnelStep | null;
+  experiment_id: string | null;
+  experiment_variant: string | null;
 }
@@ -35,13 +35,15 @@ declare module 'pdf-lib' {
   export class PDFDocument {
     static create(): Promise<PDFDocument>;
     addPage(size: [number, number]): PDFPage;
-    embedFont(font: StandardFonts): Promise<PDFFont>;
+    registerFontkit(fontkit: unknown): void;
+    embedFont(font: StandardFonts | Uint8Array | ArrayBuffer, options?: { subset?: boolean }): Promise<PDFFont>;
     save(): Promise<Uint8Array>;
   }
   
   export interface PDFPage {
     getSize(): { width: number; height: number };
     drawText(text: string, options?: { x?: number; y?: number; size?: number; font?: PDFFont; color?: RGB; maxWidth?: number }): void;
+    drawLine(options: { start: { x: number; y: number }; end: { x: number; y: number }; thickness?: number; color?: RGB }): void;
+    drawRectangle(options: { x?: number; y?: number; width?: number; height?: number; color?: RGB }): void;
   }
 }
-
@@ -94,6 +94,27 @@ export type SearchEnvelope = {
   };
 };
 
+export type SavedSearch = {
+  id: string;
+  name: string;
+  query: string;
+  ownerUserId: string;
+  /** Visible to every member of the practice, not just the owner. */
+  shared: boolean;
+  /** Pinned to the requesting user's sidebar. */
+  pinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SavedSearchResults = {
+  savedSearch: SavedSearch;
+  groups: SearchGroup[];
+  total: number;
+  /** True when `total` stopped at the result cap. */
+  capped: boolean;
+};
+
 export const SEARCH_ENTITY_LABELS: Record<SearchEntityType, string> = {
   client: 'Clients',
   matter: 'Matters',
@@ -0,0 +1,96 @@
+/**
+ * Wire types for /api/practice/:id/ai-usage — the practice's metered AI
+ * token usage and its monthly budget.
+ *
+ *   GET …/ai-usage?from=&to=     budget, month-to-date status and usage by feature and model
+ *   PUT …/ai-usage               save the next budget version (admin)
+ *
+ * Every model call the worker makes on a practice's behalf is metered in
+ * ai_usage_events. Budgets are in tokens (input + output) per calendar
+ * month, UTC. Past the soft limit calls switch to `fallbackModel` — one of
+ * AI_FALLBACK_MODELS; past the hard limit AI features degrade instead of
+ * calling a model.
+ */
+
+import { z } from 'zod';
+
+export const AI_USAGE_FEATURES = [
+  'intake',
+  'chat',
+  'onboarding',
+  'practice_assistant',
+  'intent',
+  'website_extract',
+  'engagement_generation',
+  'engagement_template',
+  'title_generation',
+  'intake_enrichment',
+] as const;
+export const AiUsageFeatureSchema = z.enum(AI_USAGE_FEATURES);
+
+// Cheaper Workers AI models a budget may fall back to. The metered features
+// call Workers AI, so the fallback must be served there too; the first entry
+// is the default.
+export const AI_FALLBACK_MODELS = [
+  '@cf/zai-org/glm-4.7-flash',
+  '@cf/meta/llama-3.1-8b-instruct',
+] as const;
+export const AiFallbackModelSchema = z.enum(AI_FALLBACK_MODELS);
+
+export const AiBudgetStatusSchema = z.enum(['ok', 'soft_limit', 'hard_limit']);
+
+const tokenLimit = z.number().int().min(1).max(10_000_000_000).nullable();
+
+export const AiUsageBudgetSchema = z.object({
+  version: z.number().int().nonnegative(),
+  // null = no limit.
+  softLimitTokens: tokenLimit,
+  hardLimitTokens: tokenLimit,
+  // Used for calls made past the soft limit.
+  fallbackModel: AiFallbackModelSchema,
+  updatedBy: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+});
+
+export const SaveAiUsageBudgetRequestSchema = AiUsageBudgetSchema
+  .omit({ version: true, updatedBy: true, updatedAt: true })
+  .strict()
+  .refine(
+    (budget) => budget.softLimitTokens === null
+      || budget.hardLimitTokens === null
+      || budget.softLimitTokens <= budget.hardLimitTokens,
+    { message: 'The soft limit must not be above the hard limit', path: ['softLimitTokens'] },
+  );
+
+export const AiUsageBreakdownRowSchema = z.object({
+  feature: AiUsageFeatureSchema,
+  model: z.string(),
+  calls: z.number().int().nonnegative(),
+  // Calls made on the fallback model because the soft limit was reached.
+  fallbackCalls: z.number().int().nonnegative(),
+  // Calls whose token counts were estimated because the provider sent none.
+  estimatedCalls: z.number().int().nonnegative(),
+  inputTokens: z.number().int().nonnegative(),
+  outputTokens: z.number().int().nonnegative(),
+  totalTokens: z.number().int().nonnegative(),
+});
+
+export const AiUsageSummarySchema = z.object({
+  budget: AiUsageBudgetSchema,
+  status: AiBudgetStatusSchema,
+  // Tokens used this calendar month (UTC), which the budget is measured against.
+  monthToDateTokens: z.number().int().nonnegative(),
+  monthStart: z.string(),
+  // The range `breakdown` covers; defaults to the current month.
+  from: z.string(),
+  to: z.string(),
+  breakdown: z.array(AiUsageBreakdownRowSchema),
+});
+
+export type AiUsageFeature = z.infer<typeof AiUsageFeatureSchema>;
+export type AiBudgetStatus = z.infer<typeof AiBudgetStatusSchema>;
+export type AiFallbackModel = z.infer<typeof AiFallbackModelSchema>;
+export type AiUsageBudget = z.infer<typeof AiUsageBudgetSchema>;
+export type SaveAiUsageBudgetRequest = z.infer<typeof SaveAiUsageBudgetRequestSchema>;
+export type AiUsageBreakdownRow = z.infer<typeof AiUsageBreakdownRowSchema>;
+export type AiUsageSummary = z.infer<typeof AiUsageSummarySchema>;
@@ -0,0 +1,112 @@
+/**
+ * Wire types for /api/practice/:id/conflict-checks — conflict-of-interest
+ * searches run against the practice's party index.
+ *
+ *   GET  …/conflict-checks?intakeUuid=&status=         list, newest first
+ *   POST …/conflict-checks                             run one { names, clientName?, opposingParty?, intakeUuid? }
+ *   GET  …/conflict-checks/:checkId                    check + hits + decision trail
+ *   POST …/conflict-checks/:checkId/hits/:hitId        { decision: 'cleared' | 'confirmed', note }
+ *
+ * `status` uses the engagement `RiskReview.conflict_status` vocabulary so an
+ * engagement draft can take it as-is.
+ */
+
+import { z } from 'zod';
+
+export const CONFLICT_PARTY_ROLES = ['client', 'opposing_party', 'related_party', 'matter_participant'] as const;
+export const ConflictPartyRoleSchema = z.enum(CONFLICT_PARTY_ROLES);
+
+export const ConflictSourceTypeSchema = z.enum(['client', 'matter', 'intake']);
+
+export const ConflictCheckStatusSchema = z.enum(['clear', 'review_required', 'conflicted', 'insufficient_data']);
+
+export const ConflictHitDecisionSchema = z.enum(['pending', 'cleared', 'confirmed']);
+
+export const ConflictMatchReasonSchema = z.enum(['exact', 'reordered', 'nickname', 'initial', 'phonetic', 'fuzzy']);
+
+export const ConflictQueryNameSchema = z.object({
+  name: z.string(),
+  role: ConflictPartyRoleSchema,
+});
+
+export const ConflictHitSchema = z.object({
+  id: z.string(),
+  queryName: z.string(),
+  queryRole: ConflictPartyRoleSchema,
+  matchedName: z.string(),
+  matchedRole: ConflictPartyRoleSchema,
+  sourceType: ConflictSourceTypeSchema,
+  sourceId: z.string(),
+  // Matter title, client name or intake title the party was indexed from.
+  sourceLabel: z.string().nullable(),
+  matterId: z.string().nullable(),
+  clientId: z.string().nullable(),
+  score: z.number().min(0).max(1),
+  reasons: z.array(ConflictMatchReasonSchema),
+  // The two roles are directly adverse (e.g. the new client is an existing
+  // client's opposing party).
+  adverse: z.boolean(),
+  decision: ConflictHitDecisionSchema,
+  decidedBy: z.string().nullable(),
+  decidedAt: z.string().nullable(),
+  decisionNote: z.string().nullable(),
+});
+
+export const ConflictDecisionRecordSchema = z.object({
+  id: z.string(),
+  hitId: z.string(),
+  userId: z.string(),
+  memberRole: z.string(),
+  decision: z.enum(['cleared', 'confirmed']),
+  previousDecision: ConflictHitDecisionSchema,
+  note: z.string(),
+  createdAt: z.string(),
+});
+
+export const ConflictCheckSummarySchema = z.object({
+  id: z.string(),
+  practiceId: z.string(),
+  intakeUuid: z.string().nullable(),
+  conversationId: z.string().nullable(),
+  status: ConflictCheckStatusSchema,
+  names: z.array(ConflictQueryNameSchema),
+  // The index had more parties than one check scores, so the oldest were
+  // skipped; such a check is never `clear`.
+  truncated: z.boolean(),
+  hitCount: z.number().int().nonnegative(),
+  pendingCount: z.number().int().nonnegative(),
+  createdBy: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export const ConflictCheckSchema = ConflictCheckSummarySchema.extend({
+  hits: z.array(ConflictHitSchema),
+  decisions: z.array(ConflictDecisionRecordSchema),
+});
+
+export const RunConflictCheckRequestSchema = z.object({
+  names: z.array(z.string().trim().min(1).max(200)).max(100).default([]),
+  clientName: z.string().trim().max(200).nullish(),
+  opposingParty: z.string().trim().max(200).nullish(),
+  intakeUuid: z.string().trim().min(1).nullish(),
+  conversationId: z.string().trim().min(1).nullish(),
+});
+
+export const DecideConflictHitRequestSchema = z.object({
+  decision: z.enum(['cleared', 'confirmed']),
+  note: z.string().trim().min(1, 'note is required').max(2000),
+});
+
+export type ConflictPartyRole = z.infer<typeof ConflictPartyRoleSchema>;
+export type ConflictSourceType = z.infer<typeof ConflictSourceTypeSchema>;
+export type ConflictCheckStatus = z.infer<typeof ConflictCheckStatusSchema>;
+export type ConflictHitDecision = z.infer<typeof ConflictHitDecisionSchema>;
+export type ConflictMatchReason = z.infer<typeof ConflictMatchReasonSchema>;
+export type ConflictQueryName = z.infer<typeof ConflictQueryNameSchema>;
+export type ConflictHit = z.infer<typeof ConflictHitSchema>;
+export type ConflictDecisionRecord = z.infer<typeof ConflictDecisionRecordSchema>;
+export type ConflictCheckSummary = z.infer<typeof ConflictCheckSummarySchema>;
+export type ConflictCheck = z.infer<typeof ConflictCheckSchema>;
+export type RunConflictCheckRequest = z.infer<typeof RunConflictCheckRequestSchema>;
+export type DecideConflictHitRequest = z.infer<typeof DecideConflictHitRequestSchema>;
@@ -0,0 +1,93 @@
+/**
+ * Wire types for conversation transcript exports.
+ *
+ *   GET  /api/conversations/:id/export?format=pdf|html|json  → file download
+ *   POST /api/conversations/:id/export { format }            → saved to the linked matter
+ *
+ * `ConversationTranscriptSchema` is the body of a `format=json` export and
+ * the model the PDF and HTML renderers draw from. It is versioned so
+ * firms that archive the JSON can tell which shape they stored.
+ */
+
+import { z } from 'zod';
+
+export const TRANSCRIPT_EXPORT_FORMATS = ['pdf', 'html', 'json'] as const;
+export const TranscriptExportFormatSchema = z.enum(TRANSCRIPT_EXPORT_FORMATS);
+export type TranscriptExportFormat = z.infer<typeof TranscriptExportFormatSchema>;
+
+export const TRANSCRIPT_VERSION = 1;
+
+export const TranscriptParticipantSchema = z.object({
+  userId: z.string(),
+  name: z.string().nullable(),
+  role: z.string().nullable(),
+  isTeamMember: z.boolean(),
+});
+
+export const TranscriptAttachmentSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  mimeType: z.string().nullable(),
+  size: z.number().int().nonnegative().nullable(),
+  url: z.string(),
+});
+
+export const TranscriptReactionSchema = z.object({
+  emoji: z.string(),
+  count: z.number().int().nonnegative(),
+});
+
+export const TranscriptEntrySchema = z.object({
+  id: z.string(),
+  seq: z.number().int(),
+  // System messages (intake steps, payment prompts, lead decisions) are
+  // exported as events rather than attributed to a participant.
+  kind: z.enum(['message', 'system_event']),
+  role: z.enum(['user', 'assistant', 'system']),
+  authorId: z.string().nullable(),
+  authorName: z.string(),
+  content: z.string(),
+  createdAt: z.string(),
+  editedAt: z.string().nullable(),
+  deleted: z.boolean(),
+  replyToMessageId: z.string().nullable(),
+  reactions: z.array(TranscriptReactionSchema),
+  attachments: z.array(TranscriptAttachmentSchema),
+});
+
+export const ConversationTranscriptSchema = z.object({
+  version: z.literal(TRANSCRIPT_VERSION),
+  exportedAt: z.string(),
+  exportedBy: z.string().nullable(),
+  practice: z.object({
+    id: z.string(),
+    name: z.string().nullable(),
+  }),
+  conversation: z.object({
+    id: z.string(),
+    matterId: z.string().nullable(),
+    status: z.string(),
+    createdAt: z.string(),
+    closedAt: z.string().nullable(),
+  }),
+  participants: z.array(TranscriptParticipantSchema),
+  entries: z.array(TranscriptEntrySchema),
+  // True when the conversation had more messages than one export carries.
+  truncated: z.boolean(),
+});
+
+export const TranscriptSaveResultSchema = z.object({
+  format: TranscriptExportFormatSchema,
+  fileName: z.string(),
+  size: z.number().int().nonnegative(),
+  matterId: z.string(),
+  uploadId: z.string(),
+  matterFileId: z.string().nullable(),
+});
+
+export type TranscriptParticipant = z.infer<typeof TranscriptParticipantSchema>;
+export type TranscriptAttachment = z.infer<typeof TranscriptAttachmentSchema>;
+export type TranscriptReaction = z.infer<typeof TranscriptReactionSchema>;
+export type TranscriptEntry = z.infer<typeof TranscriptEntrySchema>;
+export type ConversationTranscript = z.infer<typeof ConversationTranscriptSchema>;
+export type TranscriptSaveResult = z.infer<typeof TranscriptSaveResultSchema>;
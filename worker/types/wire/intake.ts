@@ -117,7 +117,10 @@ export const BackendIntakeTemplateFieldSchema = z.object({
   template_id: z.string(),
   key: z.string(),
   label: z.string(),
-  field_type: z.enum(['text', 'textarea', 'email', 'phone', 'select', 'multiselect', 'date', 'boolean', 'number']),
+  field_type: z.enum([
+    'text', 'textarea', 'email', 'phone', 'select', 'multiselect', 'date', 'boolean', 'number',
+    'address', 'currency', 'file_upload',
+  ]),
   phase: z.enum(['required', 'enrichment']),
   required: z.boolean(),
   order_index: z.number(),
@@ -49,6 +49,7 @@ export const BackendInvoiceSchema = z.object({
   total: nullableNumber(),
   amount_paid: nullableNumber(),
   amount_due: nullableNumber(),
+  currency: nullableString(), // ISO 4217; absent on legacy invoices (USD)
   fund_destination: nullableString(),
   payment_from_retainer: nullableBoolean(),
   issue_date: nullableDate(),
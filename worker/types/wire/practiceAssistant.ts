@@ -16,9 +16,34 @@ export const PracticeAssistantProgressSchema = z.object({
 });
 export type PracticeAssistantProgress = z.infer<typeof PracticeAssistantProgressSchema>;
 
-export const PracticeAssistantActionStatusSchema = z.enum(['pending', 'approved', 'rejected', 'executed', 'failed']);
+export const PracticeAssistantActionStatusSchema = z.enum(['pending', 'approved', 'rejected', 'executed', 'failed', 'expired']);
 export type PracticeAssistantActionStatus = z.infer<typeof PracticeAssistantActionStatusSchema>;
 
+export const PracticeAssistantApproverRoleSchema = z.enum(['paralegal', 'attorney', 'admin', 'owner']);
+export type PracticeAssistantApproverRole = z.infer<typeof PracticeAssistantApproverRoleSchema>;
+
+/** What the practice's approval policy asked of this action, and how far along it is. */
+export const PracticeAssistantApprovalStateSchema = z.object({
+  policyVersion: z.number().int(),
+  approvalsRequired: z.number().int(),
+  approvalsReceived: z.number().int(),
+  minRole: PracticeAssistantApproverRoleSchema,
+  requireRole: PracticeAssistantApproverRoleSchema.nullable(),
+  expiresAt: z.string().nullable(),
+});
+export type PracticeAssistantApprovalState = z.infer<typeof PracticeAssistantApprovalStateSchema>;
+
+export const PracticeAssistantApprovalEntrySchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  memberRole: z.string(),
+  decision: z.enum(['approve', 'reject', 'comment']),
+  comment: z.string().nullable(),
+  policyVersion: z.number().int(),
+  createdAt: z.string(),
+});
+export type PracticeAssistantApprovalEntry = z.infer<typeof PracticeAssistantApprovalEntrySchema>;
+
 export const PracticeAssistantActionSummarySchema = z.object({
   actionId: z.string(),
   toolUseId: z.string(),
@@ -28,5 +53,6 @@ export const PracticeAssistantActionSummarySchema = z.object({
   status: PracticeAssistantActionStatusSchema,
   payload: z.record(z.string(), z.unknown()),
   sources: z.array(PracticeAssistantSourceSchema).optional(),
+  approval: PracticeAssistantApprovalStateSchema.optional(),
 });
 export type PracticeAssistantActionSummary = z.infer<typeof PracticeAssistantActionSummarySchema>;
@@ -0,0 +1,27 @@
+/**
+ * Wire types for /api/practice/:id/usage — where a practice stands against
+ * its plan's quotas (AI turns per day, uploads per hour).
+ */
+
+import { z } from 'zod';
+
+const nonNegativeInt = () => z.number().int().nonnegative();
+
+export const PracticeUsageFamilySchema = z.object({
+  family: z.string(),
+  label: z.string(),
+  limit: nonNegativeInt(),
+  used: nonNegativeInt(),
+  remaining: nonNegativeInt(),
+  windowSec: nonNegativeInt(),
+  // Seconds until the bucket is full again; 0 when nothing has been used.
+  resetSec: nonNegativeInt(),
+});
+
+export const PracticeUsageSchema = z.object({
+  tier: z.enum(['free', 'trial', 'paid']),
+  families: z.array(PracticeUsageFamilySchema),
+});
+
+export type PracticeUsageFamily = z.infer<typeof PracticeUsageFamilySchema>;
+export type PracticeUsage = z.infer<typeof PracticeUsageSchema>;
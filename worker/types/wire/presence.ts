@@ -0,0 +1,82 @@
+/**
+ * Wire types for the practice presence socket (/api/presence/:practiceId/ws)
+ * and for stale-write rejections on versioned record saves.
+ *
+ * Each tab reports the one record it has open (`matter:123`,
+ * `invoice:456`, …) and whether it is viewing or editing it, plus the
+ * user's status. The PresenceRoom folds every tab into one entry per user
+ * and broadcasts the full snapshot on each change.
+ *
+ * Saves on matters and invoices may send `If-Match: <updated_at>`; when the
+ * record has moved on since it was loaded, the worker answers 409 with
+ * `StaleWriteDetails` instead of forwarding the write.
+ */
+
+import { z } from 'zod';
+
+export const PRESENCE_RESOURCE_KINDS = ['matter', 'invoice', 'intake', 'client'] as const;
+export const PresenceResourceKindSchema = z.enum(PRESENCE_RESOURCE_KINDS);
+
+export const PRESENCE_RESOURCE_RE = /^(matter|invoice|intake|client):[A-Za-z0-9_-]{1,128}$/;
+export const PresenceResourceSchema = z.string().regex(PRESENCE_RESOURCE_RE);
+
+export const PresenceModeSchema = z.enum(['viewing', 'editing']);
+
+// `away` is set by the client when the tab is hidden; `busy` is chosen by the user.
+export const PresenceStatusSchema = z.enum(['online', 'away', 'busy']);
+
+export const PresenceClientFrameSchema = z.discriminatedUnion('type', [
+  // userId is fixed by the upgrade request; identify is accepted and ignored.
+  z.object({ type: z.literal('identify'), userId: z.string() }),
+  z.object({ type: z.literal('ping') }),
+  z.object({
+    type: z.literal('focus'),
+    resource: PresenceResourceSchema.nullable(),
+    mode: PresenceModeSchema.default('viewing'),
+  }),
+  z.object({ type: z.literal('status'), status: PresenceStatusSchema }),
+]);
+
+export const PresenceFocusSchema = z.object({
+  resource: PresenceResourceSchema,
+  mode: PresenceModeSchema,
+});
+
+export const PresenceMemberSchema = z.object({
+  userId: z.string(),
+  status: PresenceStatusSchema,
+  // One entry per record, across all of the user's tabs; editing wins over viewing.
+  focus: z.array(PresenceFocusSchema),
+});
+
+export const PresenceSnapshotFrameSchema = z.object({
+  type: z.literal('presence'),
+  online: z.array(z.string()),
+  members: z.array(PresenceMemberSchema),
+});
+
+export const StaleWriteChangeSchema = z.object({
+  field: z.string(),
+  // What this save would write, and what the record holds now. The field may
+  // differ because of the caller's own edit, someone else's, or both.
+  yours: z.unknown(),
+  theirs: z.unknown(),
+});
+
+export const StaleWriteDetailsSchema = z.object({
+  code: z.literal('STALE_WRITE'),
+  resource: PresenceResourceSchema,
+  expectedVersion: z.string(),
+  currentVersion: z.string(),
+  changes: z.array(StaleWriteChangeSchema),
+});
+
+export type PresenceResourceKind = z.infer<typeof PresenceResourceKindSchema>;
+export type PresenceMode = z.infer<typeof PresenceModeSchema>;
+export type PresenceStatus = z.infer<typeof PresenceStatusSchema>;
+export type PresenceClientFrame = z.infer<typeof PresenceClientFrameSchema>;
+export type PresenceFocus = z.infer<typeof PresenceFocusSchema>;
+export type PresenceMember = z.infer<typeof PresenceMemberSchema>;
+export type PresenceSnapshotFrame = z.infer<typeof PresenceSnapshotFrameSchema>;
+export type StaleWriteChange = z.infer<typeof StaleWriteChangeSchema>;
+export type StaleWriteDetails = z.infer<typeof StaleWriteDetailsSchema>;
@@ -8,7 +8,8 @@
  * gives one place to update when backend confirms the final shape.
  *
  * snake_case fields per the rest of the wire/ contract. All money in
- * cents (integers) following the invoice convention.
+ * integer minor units of the record's `currency`, following the invoice
+ * convention.
  */
 
 import { z } from 'zod';
@@ -25,6 +26,7 @@ export const BackendTrustTransactionSchema = z.object({
   type: nullableString(), // 'deposit' | 'withdrawal' | 'fee_payment' | …
   amount: nullableNumber(), // cents, signed (negative = withdrawal)
   balance_after: nullableNumber(), // cents, running balance
+  currency: nullableString(), // ISO 4217; absent means USD
   description: nullableString(),
   occurred_at: isoDate(),
   client_name: nullableString(),
@@ -37,6 +39,7 @@ export const BackendWipMatterSchema = z.object({
   matter_title: nullableString(),
   unbilled_seconds: nullableNumber(),
   unbilled_amount: nullableNumber(), // cents
+  currency: nullableString(), // ISO 4217; absent means USD
 }).passthrough();
 export type BackendWipMatter = z.infer<typeof BackendWipMatterSchema>;
 
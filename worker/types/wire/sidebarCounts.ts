@@ -51,6 +51,13 @@ export const BackendSidebarCountsSchema = z.object({
       total: nonNegativeInt(),
     })
     .optional(),
+  savedSearches: z
+    .object({
+      // Keyed by saved-search id; only the requesting user's pinned searches.
+      // Counts stop at the stored-search result cap.
+      byId: z.record(z.string(), nonNegativeInt()),
+    })
+    .optional(),
 });
 
 export type BackendSidebarCounts = z.infer<typeof BackendSidebarCountsSchema>;
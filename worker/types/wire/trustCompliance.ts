@@ -0,0 +1,103 @@
+/**
+ * Wire types for /api/practice/:id/trust-compliance — the practice's trust
+ * account rules and the log of every time they were evaluated.
+ *
+ *   GET …/trust-compliance                                  active preferences (version 0 = defaults)
+ *   PUT …/trust-compliance                                  save the next version
+ *   GET …/trust-compliance/evaluations?matterId=&limit=     evaluation log, newest first
+ *
+ * Amounts are integer cents. Ledger rules (auto-replenish, threshold alert,
+ * lock on zero) run in the worker on backend `trust:ledger_changed` events
+ * and on trust transactions the assistant executes; staged assistant
+ * actions get dual approval and lock on zero.
+ */
+
+import { z } from 'zod';
+
+export const TRUST_COMPLIANCE_RULES = ['auto_replenish', 'threshold_alert', 'dual_approval', 'lock_on_zero'] as const;
+export const TrustComplianceRuleSchema = z.enum(TRUST_COMPLIANCE_RULES);
+
+export const TrustRuleOutcomeSchema = z.enum(['passed', 'triggered', 'blocked', 'disabled']);
+
+export const TrustRuleSubjectTypeSchema = z.enum(['ledger_event', 'staged_action']);
+
+const thresholdCents = z.number().int().min(0).max(10_000_000_000);
+
+export const TrustCompliancePreferencesSchema = z.object({
+  version: z.number().int().nonnegative(),
+  autoReplenishEnabled: z.boolean(),
+  autoReplenishThresholdCents: thresholdCents,
+  alertEnabled: z.boolean(),
+  alertThresholdCents: thresholdCents,
+  dualApprovalEnabled: z.boolean(),
+  dualApprovalThresholdCents: thresholdCents,
+  lockOnZeroEnabled: z.boolean(),
+  // Members who receive replenishment requests and alerts.
+  notifyUserIds: z.array(z.string()),
+  updatedBy: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+});
+
+export const SaveTrustCompliancePreferencesRequestSchema = TrustCompliancePreferencesSchema
+  .omit({ version: true, updatedBy: true, updatedAt: true })
+  .extend({ notifyUserIds: z.array(z.string().trim().min(1)).max(50) })
+  .strict();
+
+export const TrustRuleEvaluationSchema = z.object({
+  id: z.string(),
+  practiceId: z.string(),
+  rule: TrustComplianceRuleSchema,
+  outcome: TrustRuleOutcomeSchema,
+  subjectType: TrustRuleSubjectTypeSchema,
+  // Ledger transaction id or staged action id.
+  subjectId: z.string(),
+  matterId: z.string().nullable(),
+  clientId: z.string().nullable(),
+  balanceCents: z.number().int().nullable(),
+  thresholdCents: z.number().int().nullable(),
+  preferencesVersion: z.number().int().nonnegative(),
+  detail: z.record(z.string(), z.unknown()),
+  createdAt: z.string(),
+});
+
+/**
+ * Payload of a backend `trust:ledger_changed` event — the contract the
+ * backend producer must follow.
+ *
+ *   - Emitted by the backend outbox for every committed trust ledger row
+ *     (deposit, withdrawal, correction), whatever created it, and posted to
+ *     `/api/mcp/internal/events` in an McpEventBatch with
+ *     `event_type: 'trust:ledger_changed'` and this object as `payload`.
+ *   - `transaction_id` is the ledger row id and the idempotency key: the
+ *     worker evaluates each transaction once, so redeliveries and the
+ *     worker's own evaluation of assistant-created transactions are skipped.
+ *   - `amount` and `balance_after` are integer minor units; `balance_after`
+ *     is the matter's (or client's) trust balance once the row is applied.
+ *   - Delivery is at-least-once and may be out of order; `occurred_at`
+ *     (ISO 8601) orders balance updates.
+ *   - If evaluation fails the batch gets a 5xx and the outbox retries it.
+ *     Malformed payloads are logged and dropped.
+ */
+export const TrustLedgerChangeSchema = z.object({
+  transaction_id: z.string().min(1),
+  matter_id: z.string().min(1).nullish(),
+  matter_title: z.string().nullish(),
+  client_id: z.string().min(1).nullish(),
+  client_name: z.string().nullish(),
+  type: z.string().min(1),
+  // Signed minor units: deposits positive, withdrawals negative.
+  amount: z.number().int(),
+  balance_after: z.number().int(),
+  currency: z.string().min(3).max(3).default('USD'),
+  occurred_at: z.string().min(1),
+  // Used to link notifications to the practice's trust page.
+  practice_slug: z.string().min(1).nullish(),
+});
+
+export type TrustComplianceRule = z.infer<typeof TrustComplianceRuleSchema>;
+export type TrustRuleOutcome = z.infer<typeof TrustRuleOutcomeSchema>;
+export type TrustRuleSubjectType = z.infer<typeof TrustRuleSubjectTypeSchema>;
+export type TrustCompliancePreferences = z.infer<typeof TrustCompliancePreferencesSchema>;
+export type SaveTrustCompliancePreferencesRequest = z.infer<typeof SaveTrustCompliancePreferencesRequestSchema>;
+export type TrustRuleEvaluation = z.infer<typeof TrustRuleEvaluationSchema>;
+export type TrustLedgerChange = z.infer<typeof TrustLedgerChangeSchema>;
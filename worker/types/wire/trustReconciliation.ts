@@ -0,0 +1,131 @@
+/**
+ * Wire types for /api/practice/:id/trust-reconciliation — imported bank
+ * statements, their matching against the trust ledger and the monthly
+ * three-way reconciliation (bank vs. book vs. client ledgers).
+ *
+ *   GET  …/trust-reconciliation/statements            imported statements, newest first
+ *   POST …/trust-reconciliation/statements            import an OFX/QFX/CSV statement
+ *   GET  …/trust-reconciliation/statements/:id        lines + unmatched ledger transactions
+ *   PUT  …/trust-reconciliation/lines/:id             match or unmatch a line by hand
+ *   GET  …/trust-reconciliation/report?month=YYYY-MM  three-way reconciliation
+ *
+ * Amounts are signed integer cents (deposits positive); dates are
+ * YYYY-MM-DD bank posting dates.
+ */
+
+import { z } from 'zod';
+
+/** Statements are uploaded as text in the JSON body; real monthly files are far smaller. */
+export const MAX_BANK_STATEMENT_CHARS = 2_000_000;
+
+export const BankStatementFormatSchema = z.enum(['ofx', 'qfx', 'csv']);
+
+export const BankLineMatchStatusSchema = z.enum(['unmatched', 'auto', 'manual']);
+
+const isoDay = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const ImportBankStatementRequestSchema = z.object({
+  filename: z.string().trim().min(1).max(255),
+  content: z.string().min(1).max(MAX_BANK_STATEMENT_CHARS),
+  accountLabel: z.string().trim().max(120).optional(),
+  // Needed for CSV exports without a running balance column.
+  closingBalanceCents: z.number().int().optional(),
+}).strict();
+
+export const BankStatementSchema = z.object({
+  id: z.string(),
+  practiceId: z.string(),
+  accountLabel: z.string().nullable(),
+  format: BankStatementFormatSchema,
+  filename: z.string(),
+  currency: z.string(),
+  periodStart: isoDay,
+  periodEnd: isoDay,
+  openingBalanceCents: z.number().int().nullable(),
+  closingBalanceCents: z.number().int(),
+  lineCount: z.number().int().nonnegative(),
+  matchedCount: z.number().int().nonnegative(),
+  importedBy: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export const BankStatementLineSchema = z.object({
+  id: z.string(),
+  statementId: z.string(),
+  postedAt: isoDay,
+  amountCents: z.number().int(),
+  description: z.string().nullable(),
+  // FITID, check number or the bank's reference column.
+  reference: z.string().nullable(),
+  matchStatus: BankLineMatchStatusSchema,
+  matchedTransactionId: z.string().nullable(),
+  matchedBy: z.string().nullable(),
+  matchedAt: z.string().nullable(),
+});
+
+/** A trust ledger transaction as the reconciliation sees it. */
+export const ReconciliationTransactionSchema = z.object({
+  id: z.string(),
+  occurredAt: z.string(),
+  amountCents: z.number().int(),
+  type: z.string().nullable(),
+  description: z.string().nullable(),
+  clientId: z.string().nullable(),
+  clientName: z.string().nullable(),
+});
+
+export const ImportBankStatementResponseSchema = z.object({
+  statement: BankStatementSchema,
+  autoMatched: z.number().int().nonnegative(),
+  unmatched: z.number().int().nonnegative(),
+});
+
+export const BankStatementDetailSchema = z.object({
+  statement: BankStatementSchema,
+  lines: z.array(BankStatementLineSchema),
+  // Ledger transactions around the statement period that no line claims yet.
+  unmatchedTransactions: z.array(ReconciliationTransactionSchema),
+});
+
+export const MatchBankLineRequestSchema = z.object({
+  // null clears the match.
+  transactionId: z.string().trim().min(1).nullable(),
+}).strict();
+
+export const ClientLedgerBalanceSchema = z.object({
+  clientId: z.string().nullable(),
+  clientName: z.string(),
+  balanceCents: z.number().int(),
+});
+
+export const TrustReconciliationReportSchema = z.object({
+  month: z.string().regex(/^\d{4}-\d{2}$/),
+  periodStart: isoDay,
+  periodEnd: isoDay,
+  currency: z.string(),
+  // The statement closing in the month; null when none has been imported.
+  statementId: z.string().nullable(),
+  bankBalanceCents: z.number().int().nullable(),
+  depositsInTransitCents: z.number().int(),
+  outstandingWithdrawalsCents: z.number().int(),
+  adjustedBankBalanceCents: z.number().int().nullable(),
+  bookBalanceCents: z.number().int(),
+  clientLedgerTotalCents: z.number().int(),
+  balanced: z.boolean(),
+  outstandingTransactions: z.array(ReconciliationTransactionSchema),
+  unmatchedBankLines: z.array(BankStatementLineSchema),
+  clientBalances: z.array(ClientLedgerBalanceSchema),
+  generatedAt: z.string(),
+});
+
+export type BankStatementFormat = z.infer<typeof BankStatementFormatSchema>;
+export type BankLineMatchStatus = z.infer<typeof BankLineMatchStatusSchema>;
+export type ImportBankStatementRequest = z.infer<typeof ImportBankStatementRequestSchema>;
+export type BankStatement = z.infer<typeof BankStatementSchema>;
+export type BankStatementLine = z.infer<typeof BankStatementLineSchema>;
+export type ReconciliationTransaction = z.infer<typeof ReconciliationTransactionSchema>;
+export type ImportBankStatementResponse = z.infer<typeof ImportBankStatementResponseSchema>;
+export type BankStatementDetail = z.infer<typeof BankStatementDetailSchema>;
+export type MatchBankLineRequest = z.infer<typeof MatchBankLineRequestSchema>;
+export type ClientLedgerBalance = z.infer<typeof ClientLedgerBalanceSchema>;
+export type TrustReconciliationReport = z.infer<typeof TrustReconciliationReportSchema>;
@@ -36,3 +36,21 @@ export const BackendUploadsListResponseSchema = z.object({
   limit: z.number().optional(),
 }).passthrough();
 export type BackendUploadsListResponse = z.infer<typeof BackendUploadsListResponseSchema>;
+
+// Presign → PUT → confirm → link, used by the worker when it files a
+// generated document (e.g. a conversation transcript) into a matter.
+export const BackendUploadPresignResponseSchema = z.object({
+  upload_id: z.string(),
+  presigned_url: z.string(),
+  method: z.string(),
+  storage_key: z.string(),
+  expires_at: z.string().optional(),
+}).passthrough();
+export type BackendUploadPresignResponse = z.infer<typeof BackendUploadPresignResponseSchema>;
+
+export const BackendMatterFileLinkSchema = z.object({
+  id: z.string(),
+  matter_id: z.string(),
+  upload_id: z.string(),
+}).passthrough();
+export type BackendMatterFileLink = z.infer<typeof BackendMatterFileLinkSchema>;
@@ -0,0 +1,124 @@
+import {
+  AI_FALLBACK_MODELS,
+  type AiBudgetStatus,
+  type AiFallbackModel,
+  type AiUsageBudget,
+} from '../types/wire/aiUsage.js';
+
+/**
+ * AI usage metering, as pure functions: reading token counts out of provider
+ * responses, estimating them when the provider sends none, and deciding
+ * which model a call may use under the practice's monthly budget.
+ *
+ *   ok          under the soft limit (or no limits)  → requested model
+ *   soft_limit  at or over the soft limit            → budget's fallback model
+ *   hard_limit  at or over the hard limit            → no model call; the feature degrades
+ *
+ * Budgets are measured in total tokens (input + output) per calendar month, UTC.
+ */
+
+// Cheapest model we route to; also the fallback for practices with no budget row.
+export const DEFAULT_AI_FALLBACK_MODEL: AiFallbackModel = AI_FALLBACK_MODELS[0];
+
+/** A stored fallback model, or the default when it is no longer allowed. */
+export const resolveAiFallbackModel = (model: string): AiFallbackModel =>
+  (AI_FALLBACK_MODELS as readonly string[]).includes(model) ? model as AiFallbackModel : DEFAULT_AI_FALLBACK_MODEL;
+
+export const DEFAULT_AI_USAGE_BUDGET: AiUsageBudget = {
+  version: 0,
+  softLimitTokens: null,
+  hardLimitTokens: null,
+  fallbackModel: DEFAULT_AI_FALLBACK_MODEL,
+  updatedBy: null,
+  updatedAt: null,
+};
+
+export interface AiTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AiModelDecision {
+  /** Model to call. */
+  model: string;
+  status: AiBudgetStatus;
+  /** True when `model` is the budget's fallback rather than the model asked for. */
+  fallback: boolean;
+}
+
+/**
+ * Meters the calls of one AI client for one practice and feature. Built by
+ * AiUsageService.meter and passed to createWorkersAiClient.
+ */
+export interface AiUsageMeter {
+  /** The model to call in place of `requested`, under the practice's budget. */
+  resolveModel(requested: string): Promise<AiModelDecision>;
+  /** Appends one metered call. Never throws. */
+  record(decision: AiModelDecision, usage: AiTokenUsage, estimated: boolean): Promise<void>;
+}
+
+const toCount = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+
+/**
+ * Token counts from a provider response body or stream event: OpenAI-style
+ * `usage.prompt_tokens`/`completion_tokens` (OpenAI, Workers AI) or
+ * Anthropic `usage.input_tokens`/`output_tokens`, including the
+ * `message.usage` of a `message_start` event. Null when there are none.
+ */
+export const extractAiUsage = (body: unknown): AiTokenUsage | null => {
+  if (typeof body !== 'object' || body === null) return null;
+  const record = body as Record<string, unknown>;
+  const message = record.message as Record<string, unknown> | undefined;
+  const usage = (record.usage ?? message?.usage) as Record<string, unknown> | null | undefined;
+  if (typeof usage !== 'object' || usage === null) return null;
+  const inputTokens = toCount(usage.prompt_tokens) ?? toCount(usage.input_tokens);
+  const outputTokens = toCount(usage.completion_tokens) ?? toCount(usage.output_tokens);
+  if (inputTokens === null && outputTokens === null) return null;
+  return { inputTokens: inputTokens ?? 0, outputTokens: outputTokens ?? 0 };
+};
+
+/**
+ * Folds usage seen across stream events. Anthropic reports input tokens on
+ * `message_start` and the running output total on `message_delta`, so each
+ * side keeps its largest value.
+ */
+export const mergeAiUsage = (current: AiTokenUsage | null, next: AiTokenUsage | null): AiTokenUsage | null => {
+  if (!current) return next;
+  if (!next) return current;
+  return {
+    inputTokens: Math.max(current.inputTokens, next.inputTokens),
+    outputTokens: Math.max(current.outputTokens, next.outputTokens),
+  };
+};
+
+// Roughly four characters per token for English text.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/** Estimated usage of a chat completions payload and the text it produced. */
+export const estimateAiUsage = (payload: Record<string, unknown>, reply: string): AiTokenUsage => {
+  const system = typeof payload.system === 'string' ? payload.system : '';
+  const messages = payload.messages === undefined ? '' : JSON.stringify(payload.messages);
+  return {
+    inputTokens: estimateTokens(system) + estimateTokens(messages),
+    outputTokens: estimateTokens(reply),
+  };
+};
+
+export const evaluateAiBudget = (budget: AiUsageBudget, monthToDateTokens: number): AiBudgetStatus => {
+  if (budget.hardLimitTokens !== null && monthToDateTokens >= budget.hardLimitTokens) return 'hard_limit';
+  if (budget.softLimitTokens !== null && monthToDateTokens >= budget.softLimitTokens) return 'soft_limit';
+  return 'ok';
+};
+
+export const decideAiModel = (
+  requested: string,
+  budget: AiUsageBudget,
+  status: AiBudgetStatus,
+): AiModelDecision => (status === 'ok'
+  ? { model: requested, status, fallback: false }
+  : { model: budget.fallbackModel, status, fallback: true });
+
+/** First instant of `now`'s calendar month, UTC, as an ISO string. */
+export const monthStartIso = (now: Date): string =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
@@ -0,0 +1,316 @@
+/**
+ * Bank statement parsing for trust reconciliation.
+ *
+ *   - OFX/QFX, both the SGML 1.x flavour (leaf elements left unclosed) and
+ *     XML 2.x. Transactions come from STMTTRN aggregates; the closing
+ *     balance from LEDGERBAL and the period from BANKTRANLIST DTSTART/DTEND.
+ *   - CSV exports with a header row. Columns are found by name: a date, then
+ *     either one signed amount column or separate debit/credit columns, and
+ *     optionally description, reference and running balance. Slash dates are
+ *     read month first (US banks).
+ *
+ * Amounts become signed integer cents, deposits positive. Pure functions
+ * only; TrustReconciliationService stores the result.
+ */
+
+import type { BankStatementFormat } from '../types/wire/trustReconciliation.js';
+
+export const MAX_BANK_STATEMENT_LINES = 5_000;
+
+export interface ParsedBankLine {
+  /** YYYY-MM-DD */
+  postedAt: string;
+  amountCents: number;
+  description: string | null;
+  reference: string | null;
+}
+
+export interface ParsedBankStatement {
+  format: BankStatementFormat;
+  currency: string | null;
+  accountId: string | null;
+  periodStart: string;
+  periodEnd: string;
+  /** From LEDGERBAL or the latest row's running balance; null when the file has neither. */
+  closingBalanceCents: number | null;
+  lines: ParsedBankLine[];
+}
+
+export class BankStatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BankStatementParseError';
+  }
+}
+
+export const detectStatementFormat = (filename: string, content: string): BankStatementFormat => {
+  const extension = filename.toLowerCase().split('.').pop();
+  if (extension === 'qfx') return 'qfx';
+  if (extension === 'ofx') return 'ofx';
+  if (extension === 'csv') return 'csv';
+  return /<OFX>/i.test(content) ? 'ofx' : 'csv';
+};
+
+/**
+ * Parses "1,234.56", "-12.5", "(40.00)", "$1 000,25" and similar into cents.
+ * A last comma followed by one or two digits is a decimal comma.
+ */
+export const parseAmountCents = (raw: string): number | null => {
+  let text = raw.trim();
+  if (!text) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  text = text.replace(/[^\d.,+-]/g, '');
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  } else if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+  if (text.endsWith('-')) {
+    negative = !negative;
+    text = text.slice(0, -1);
+  }
+  const lastComma = text.lastIndexOf(',');
+  if (lastComma > text.lastIndexOf('.') && text.length - lastComma - 1 <= 2) {
+    // "12,5" or "1.234,56"
+    text = `${text.slice(0, lastComma).replace(/[.,]/g, '')}.${text.slice(lastComma + 1)}`;
+  } else {
+    text = text.replace(/,/g, '');
+  }
+  if (!/^\d+(\.\d+)?$|^\.\d+$/.test(text)) return null;
+  const [whole, fraction = ''] = text.split('.');
+  const cents = Number(whole || '0') * 100 + Number(fraction.padEnd(2, '0').slice(0, 2));
+  // Round half away from zero on a third decimal.
+  const roundUp = fraction.length > 2 && Number(fraction[2]) >= 5 ? 1 : 0;
+  const value = cents + roundUp;
+  return negative ? -value : value;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const validDay = (year: number, month: number, day: number): string | null => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/** OFX dates are YYYYMMDD with an optional time and timezone; only the day matters. */
+const parseOfxDate = (raw: string | null): string | null => {
+  const match = raw?.trim().match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? validDay(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+/** YYYY-MM-DD, YYYY/MM/DD, MM/DD/YYYY or MM/DD/YY, with an optional time after. */
+export const parseStatementDate = (raw: string): string | null => {
+  const text = raw.trim();
+  let match = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  if (match) return validDay(Number(match[1]), Number(match[2]), Number(match[3]));
+  match = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})\b/);
+  if (match) {
+    const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+    return validDay(year, Number(match[1]), Number(match[2]));
+  }
+  match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (match) return validDay(Number(match[1]), Number(match[2]), Number(match[3]));
+  return null;
+};
+
+const cleanText = (value: string | null | undefined): string | null => {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text ? text : null;
+};
+
+// ─── OFX / QFX ───────────────────────────────────────────────────────────
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+/** Value of the first `<TAG>` leaf in `block`; SGML leaves run to the next tag or line break. */
+const ofxValue = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? cleanText(decodeEntities(match[1])) : null;
+};
+
+const ofxBlocks = (content: string, tag: string): string[] =>
+  Array.from(content.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')), (match) => match[1]);
+
+const parseOfx = (content: string, format: BankStatementFormat): ParsedBankStatement => {
+  if (!/<OFX>/i.test(content)) throw new BankStatementParseError('Not an OFX file: no <OFX> element');
+  const lines: ParsedBankLine[] = [];
+  for (const block of ofxBlocks(content, 'STMTTRN')) {
+    const postedAt = parseOfxDate(ofxValue(block, 'DTPOSTED'));
+    const amountCents = parseAmountCents(ofxValue(block, 'TRNAMT') ?? '');
+    if (!postedAt || amountCents === null) {
+      throw new BankStatementParseError('OFX transaction is missing DTPOSTED or TRNAMT');
+    }
+    const name = ofxValue(block, 'NAME');
+    const memo = ofxValue(block, 'MEMO');
+    lines.push({
+      postedAt,
+      amountCents,
+      description: cleanText([name, memo].filter(Boolean).join(' · ')),
+      reference: ofxValue(block, 'CHECKNUM') ?? ofxValue(block, 'REFNUM') ?? ofxValue(block, 'FITID'),
+    });
+  }
+
+  const ledgerBalance = ofxBlocks(content, 'LEDGERBAL')[0] ?? null;
+  const closingBalanceCents = ledgerBalance ? parseAmountCents(ofxValue(ledgerBalance, 'BALAMT') ?? '') : null;
+  const tranList = ofxBlocks(content, 'BANKTRANLIST')[0] ?? content;
+  const days = lines.map((line) => line.postedAt).sort();
+  const periodStart = parseOfxDate(ofxValue(tranList, 'DTSTART')) ?? days[0] ?? null;
+  const periodEnd = parseOfxDate(ofxValue(tranList, 'DTEND'))
+    ?? (ledgerBalance ? parseOfxDate(ofxValue(ledgerBalance, 'DTASOF')) : null)
+    ?? days[days.length - 1]
+    ?? null;
+  if (!periodStart || !periodEnd) throw new BankStatementParseError('OFX statement has no period and no transactions');
+
+  return {
+    format,
+    currency: ofxValue(content, 'CURDEF'),
+    accountId: ofxValue(content, 'ACCTID'),
+    periodStart,
+    periodEnd,
+    closingBalanceCents,
+    lines,
+  };
+};
+
+// ─── CSV ─────────────────────────────────────────────────────────────────
+
+/** RFC 4180 rows: quoted fields may hold commas, quotes ("") and newlines. */
+export const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+};
+
+const CSV_HEADERS = {
+  date: ['date', 'posted date', 'posting date', 'post date', 'transaction date', 'trans date', 'value date'],
+  amount: ['amount', 'transaction amount', 'amount (usd)', 'net amount'],
+  debit: ['debit', 'debits', 'withdrawal', 'withdrawals', 'withdrawal amount', 'money out', 'paid out'],
+  credit: ['credit', 'credits', 'deposit', 'deposits', 'deposit amount', 'money in', 'paid in'],
+  description: ['description', 'payee', 'name', 'details', 'transaction description', 'narrative', 'memo'],
+  reference: ['reference', 'ref', 'reference number', 'check number', 'check', 'check #', 'cheque number', 'transaction id', 'fitid'],
+  balance: ['balance', 'running balance', 'ledger balance'],
+} as const;
+
+type CsvField = keyof typeof CSV_HEADERS;
+
+const findColumns = (header: string[]): Partial<Record<CsvField, number>> => {
+  const normalized = header.map((cell) => cell.trim().toLowerCase().replace(/\s+/g, ' '));
+  const columns: Partial<Record<CsvField, number>> = {};
+  for (const field of Object.keys(CSV_HEADERS) as CsvField[]) {
+    const index = normalized.findIndex((name) => (CSV_HEADERS[field] as readonly string[]).includes(name));
+    if (index >= 0) columns[field] = index;
+  }
+  return columns;
+};
+
+const parseCsv = (content: string): ParsedBankStatement => {
+  const rows = parseCsvRows(content);
+  // Some banks put account details above the header; take the first row naming a date column.
+  const headerIndex = rows.findIndex((row) => findColumns(row).date !== undefined);
+  if (headerIndex < 0) throw new BankStatementParseError('CSV has no header row with a date column');
+  const columns = findColumns(rows[headerIndex]);
+  const hasSplitAmounts = columns.debit !== undefined || columns.credit !== undefined;
+  if (columns.amount === undefined && !hasSplitAmounts) {
+    throw new BankStatementParseError('CSV needs an amount column or debit/credit columns');
+  }
+
+  const cell = (row: string[], field: CsvField): string => {
+    const index = columns[field];
+    return index === undefined ? '' : row[index] ?? '';
+  };
+
+  const parsed: Array<ParsedBankLine & { balanceCents: number | null }> = [];
+  for (const [offset, row] of rows.slice(headerIndex + 1).entries()) {
+    const postedAt = parseStatementDate(cell(row, 'date'));
+    let amountCents: number | null;
+    if (columns.amount !== undefined) {
+      amountCents = parseAmountCents(cell(row, 'amount'));
+    } else {
+      const credit = parseAmountCents(cell(row, 'credit'));
+      const debit = parseAmountCents(cell(row, 'debit'));
+      amountCents = credit === null && debit === null ? null : (credit ?? 0) - Math.abs(debit ?? 0);
+    }
+    if (!postedAt || amountCents === null) {
+      throw new BankStatementParseError(`CSV row ${headerIndex + offset + 2} has no readable date or amount`);
+    }
+    parsed.push({
+      postedAt,
+      amountCents,
+      description: cleanText(cell(row, 'description')),
+      reference: cleanText(cell(row, 'reference')),
+      balanceCents: parseAmountCents(cell(row, 'balance')),
+    });
+  }
+  if (parsed.length === 0) throw new BankStatementParseError('CSV has no transactions');
+
+  // Exports are oldest-first or newest-first; the closing balance is on the latest row.
+  const newestFirst = parsed[0].postedAt > parsed[parsed.length - 1].postedAt;
+  const latest = newestFirst ? parsed[0] : parsed[parsed.length - 1];
+  const days = parsed.map((line) => line.postedAt).sort();
+  return {
+    format: 'csv',
+    currency: null,
+    accountId: null,
+    periodStart: days[0],
+    periodEnd: days[days.length - 1],
+    closingBalanceCents: latest.balanceCents,
+    lines: parsed.map(({ balanceCents: _balance, ...line }) => line),
+  };
+};
+
+export const parseBankStatement = (filename: string, content: string): ParsedBankStatement => {
+  const format = detectStatementFormat(filename, content);
+  const statement = format === 'csv' ? parseCsv(content) : parseOfx(content, format);
+  if (statement.lines.length > MAX_BANK_STATEMENT_LINES) {
+    throw new BankStatementParseError(`Statements are limited to ${MAX_BANK_STATEMENT_LINES} transactions`);
+  }
+  return statement;
+};
@@ -0,0 +1,443 @@
+/**
+ * Conflict-of-interest name matching.
+ *
+ * Names are normalized (diacritics, punctuation, honorifics, generational
+ * suffixes and corporate designators stripped; "Last, First" reordered),
+ * classified as a person or an organization, and scored 0–1:
+ *
+ *   - people compare first and last names separately. A first name counts
+ *     as matching on a nickname (Bob / Robert), an initial (J. / John), a
+ *     Soundex match with close spelling, or Jaro-Winkler similarity; last
+ *     names on Soundex or Jaro-Winkler. Either side scoring poorly caps the
+ *     total below the match threshold, so "John Smith" never matches
+ *     "Jane Smith" on the surname alone.
+ *   - organizations compare token sets, so "First National Bank" and
+ *     "National Bank, N.A." still meet.
+ *
+ * A hit is adverse when the roles put the practice on both sides — the new
+ * client is an indexed opposing party, or the new opposing party is an
+ * indexed client. Two opposing parties sharing a name is not a conflict and
+ * is never reported.
+ *
+ * Pure functions only; ConflictCheckService does the D1 reads and writes.
+ */
+
+import type {
+  ConflictCheckStatus,
+  ConflictHitDecision,
+  ConflictMatchReason,
+  ConflictPartyRole,
+  ConflictQueryName,
+} from '../types/wire/conflictCheck.js';
+
+/** Scores at or above this are reported as hits. */
+export const POSSIBLE_MATCH_SCORE = 0.85;
+/** Adverse hits at or above this mark the check conflicted until reviewed. */
+export const STRONG_MATCH_SCORE = 0.95;
+/** Hits kept per queried name, best first. */
+export const MAX_HITS_PER_NAME = 10;
+
+const HONORIFICS = new Set([
+  'mr', 'mrs', 'ms', 'miss', 'mx', 'dr', 'prof', 'professor', 'hon', 'honorable', 'judge',
+  'sir', 'dame', 'madam', 'rev', 'reverend', 'fr', 'capt', 'sgt', 'lt', 'col', 'gen',
+]);
+
+const NAME_SUFFIXES = new Set(['jr', 'sr', 'ii', 'iii', 'iv', 'v', 'esq', 'phd', 'md', 'dds', 'cpa']);
+
+const CORPORATE_DESIGNATORS = new Set([
+  'inc', 'incorporated', 'llc', 'llp', 'lllp', 'lp', 'ltd', 'limited', 'corp', 'corporation',
+  'co', 'plc', 'pllc', 'pc', 'pa', 'na', 'gmbh', 'ag', 'sa', 'bv', 'nv', 'pty', 'dba',
+]);
+
+const ORGANIZATION_WORDS = new Set([
+  'company', 'bank', 'trust', 'group', 'associates', 'partners', 'partnership', 'holdings',
+  'enterprises', 'industries', 'services', 'solutions', 'insurance', 'university', 'college',
+  'school', 'hospital', 'clinic', 'church', 'foundation', 'county', 'city', 'state',
+  'department', 'agency', 'authority', 'district', 'association', 'society', 'council',
+  'properties', 'realty', 'management', 'capital', 'ventures', 'international', 'estate',
+]);
+
+const ORGANIZATION_STOPWORDS = new Set(['the', 'of', 'and', 'a', 'an', 'for']);
+
+/**
+ * Common English given-name variants. A name may sit in more than one group
+ * (Jon is short for both John and Jonathan); two first names match when they
+ * share any group.
+ */
+const NICKNAME_GROUPS: readonly string[][] = [
+  ['abigail', 'abby', 'gail'],
+  ['albert', 'al', 'bert', 'bertie'],
+  ['alexander', 'alex', 'alec', 'sandy', 'xander'],
+  ['alexandra', 'alex', 'alexa', 'sandra', 'sandy', 'lexi'],
+  ['alfred', 'al', 'alf', 'fred'],
+  ['andrew', 'andy', 'drew'],
+  ['anthony', 'tony', 'ant'],
+  ['barbara', 'barb', 'babs', 'barbie'],
+  ['benjamin', 'ben', 'benny', 'benji'],
+  ['catherine', 'katherine', 'kathryn', 'cathy', 'kathy', 'kate', 'katie', 'kat', 'kit'],
+  ['charles', 'charlie', 'chuck', 'chas', 'chaz'],
+  ['christina', 'christine', 'chris', 'tina', 'chrissy'],
+  ['christopher', 'chris', 'kit', 'topher'],
+  ['daniel', 'dan', 'danny'],
+  ['david', 'dave', 'davey'],
+  ['deborah', 'debra', 'deb', 'debbie'],
+  ['donald', 'don', 'donnie'],
+  ['dorothy', 'dot', 'dottie', 'dolly'],
+  ['edward', 'ed', 'eddie', 'ted', 'teddy', 'ned'],
+  ['elizabeth', 'liz', 'lizzie', 'beth', 'betty', 'betsy', 'eliza', 'libby', 'lisa'],
+  ['eugene', 'gene'],
+  ['frances', 'fran', 'frannie'],
+  ['francis', 'frank', 'frankie'],
+  ['frederick', 'fred', 'freddie', 'fritz'],
+  ['gerald', 'gerry', 'jerry'],
+  ['gregory', 'greg'],
+  ['harold', 'harry', 'hal'],
+  ['henry', 'hank', 'harry', 'hal'],
+  ['jacob', 'jake', 'jack'],
+  ['james', 'jim', 'jimmy', 'jamie', 'jem'],
+  ['jennifer', 'jen', 'jenny', 'jenn'],
+  ['jessica', 'jess', 'jessie'],
+  ['john', 'jon', 'johnny', 'jack', 'jock'],
+  ['jonathan', 'jon', 'jonny', 'nathan'],
+  ['joseph', 'joe', 'joey', 'jos'],
+  ['joshua', 'josh'],
+  ['judith', 'judy', 'jude'],
+  ['kenneth', 'ken', 'kenny'],
+  ['lawrence', 'laurence', 'larry', 'laurie'],
+  ['leonard', 'leo', 'len', 'lenny'],
+  ['margaret', 'maggie', 'meg', 'peggy', 'marge', 'margie', 'greta', 'daisy'],
+  ['matthew', 'matt', 'matty'],
+  ['michael', 'mike', 'mikey', 'mick', 'mickey'],
+  ['nicholas', 'nick', 'nicky', 'nico'],
+  ['patricia', 'pat', 'patty', 'trish', 'tricia'],
+  ['patrick', 'pat', 'paddy', 'rick'],
+  ['peter', 'pete'],
+  ['philip', 'phillip', 'phil'],
+  ['raymond', 'ray'],
+  ['rebecca', 'becky', 'becca'],
+  ['richard', 'rick', 'ricky', 'rich', 'dick', 'richie'],
+  ['robert', 'rob', 'robbie', 'bob', 'bobby', 'bert'],
+  ['ronald', 'ron', 'ronnie'],
+  ['samuel', 'sam', 'sammy'],
+  ['samantha', 'sam', 'sammy'],
+  ['stephen', 'steven', 'steve', 'stevie'],
+  ['susan', 'sue', 'susie', 'suzy'],
+  ['theodore', 'ted', 'teddy', 'theo'],
+  ['thomas', 'tom', 'tommy'],
+  ['timothy', 'tim', 'timmy'],
+  ['victoria', 'vicky', 'vicki', 'tori'],
+  ['walter', 'walt', 'wally'],
+  ['william', 'will', 'bill', 'billy', 'willie', 'liam'],
+];
+
+const NICKNAME_INDEX: ReadonlyMap<string, ReadonlySet<number>> = (() => {
+  const index = new Map<string, Set<number>>();
+  NICKNAME_GROUPS.forEach((group, groupIndex) => {
+    for (const name of group) {
+      const groups = index.get(name) ?? new Set<number>();
+      groups.add(groupIndex);
+      index.set(name, groups);
+    }
+  });
+  return index;
+})();
+
+export type ParsedName = {
+  kind: 'person' | 'organization';
+  /** Normalized tokens, stopwords and designators removed. */
+  tokens: string[];
+  /** Tokens joined by single spaces; the key duplicate names collapse on. */
+  normalized: string;
+};
+
+const stripToWords = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’`.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const isDesignatorOrSuffix = (token: string): boolean =>
+  CORPORATE_DESIGNATORS.has(token) || NAME_SUFFIXES.has(token);
+
+/** Parse a raw name into comparable tokens. Returns null when nothing is left. */
+export const parseName = (raw: string): ParsedName | null => {
+  let value = raw.trim();
+  if (!value) return null;
+
+  // "Smith, John" → "John Smith", but leave "Acme, Inc." and "Smith, Jr." alone.
+  const commaParts = value.split(',');
+  if (commaParts.length === 2) {
+    const after = stripToWords(commaParts[1]).split(' ').filter(Boolean);
+    if (after.length > 0 && !after.every(isDesignatorOrSuffix)) {
+      value = `${commaParts[1]} ${commaParts[0]}`;
+    }
+  }
+
+  const words = stripToWords(value).split(' ').filter(Boolean);
+  const isOrganization = words.some((word) => CORPORATE_DESIGNATORS.has(word) || ORGANIZATION_WORDS.has(word));
+
+  const tokens = isOrganization
+    ? words.filter((word) => !CORPORATE_DESIGNATORS.has(word) && !ORGANIZATION_STOPWORDS.has(word))
+    : words.filter((word) => !HONORIFICS.has(word) && !NAME_SUFFIXES.has(word) && word !== 'and');
+  if (tokens.length === 0) return null;
+
+  return {
+    kind: isOrganization ? 'organization' : 'person',
+    tokens,
+    normalized: tokens.join(' '),
+  };
+};
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6',
+};
+
+/** American Soundex of a single normalized token ("" for non-alphabetic input). */
+export const soundex = (token: string): string => {
+  const letters = token.replace(/[^a-z]/g, '');
+  if (!letters) return '';
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] ?? '';
+  for (let i = 1; i < letters.length && code.length < 4; i += 1) {
+    const letter = letters[i];
+    const digit = SOUNDEX_CODES[letter] ?? '';
+    if (digit && digit !== previous) code += digit;
+    // h and w do not separate letters with the same code; vowels do.
+    if (letter !== 'h' && letter !== 'w') previous = digit;
+  }
+  return code.padEnd(4, '0');
+};
+
+/** Jaro-Winkler similarity, 0–1. */
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  if (!a || !b) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j += 1) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = true;
+      bMatched[j] = true;
+      matches += 1;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k += 1;
+    if (a[i] !== b[k]) transpositions += 1;
+    k += 1;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix += 1;
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+const areNicknames = (a: string, b: string): boolean => {
+  const groups = NICKNAME_INDEX.get(a);
+  const other = NICKNAME_INDEX.get(b);
+  if (!groups || !other) return false;
+  for (const group of groups) {
+    if (other.has(group)) return true;
+  }
+  return false;
+};
+
+type TokenScore = { score: number; reason: ConflictMatchReason | null };
+
+const scoreSurname = (a: string, b: string): TokenScore => {
+  if (a === b) return { score: 1, reason: null };
+  const similarity = jaroWinkler(a, b);
+  if (similarity >= 0.85 && soundex(a) === soundex(b)) {
+    return { score: Math.max(similarity, 0.9), reason: 'phonetic' };
+  }
+  return { score: similarity, reason: 'fuzzy' };
+};
+
+const scoreGivenName = (a: string, b: string): TokenScore => {
+  if (a === b) return { score: 1, reason: null };
+  if (areNicknames(a, b)) return { score: 0.95, reason: 'nickname' };
+  if ((a.length === 1 && b.startsWith(a)) || (b.length === 1 && a.startsWith(b))) {
+    return { score: 0.85, reason: 'initial' };
+  }
+  return scoreSurname(a, b);
+};
+
+type NameScore = { score: number; reasons: ConflictMatchReason[] };
+
+const collectReasons = (...parts: TokenScore[]): ConflictMatchReason[] => [
+  ...new Set(parts.map((part) => part.reason).filter((reason): reason is ConflictMatchReason => reason !== null)),
+];
+
+const scorePeople = (a: string[], b: string[]): NameScore => {
+  // A bare surname or given name on either side is too weak to report alone.
+  if (a.length === 1 || b.length === 1) {
+    const single = a.length === 1 ? a[0] : b[0];
+    const other = a.length === 1 ? b : a;
+    const best = other
+      .map((token) => scoreSurname(single, token))
+      .reduce((acc, next) => (next.score > acc.score ? next : acc));
+    const score = a.length === b.length ? best.score : best.score * 0.8;
+    return { score, reasons: collectReasons(best) };
+  }
+
+  const compare = (aFirst: string, aLast: string, bFirst: string, bLast: string): NameScore => {
+    const first = scoreGivenName(aFirst, bFirst);
+    const last = scoreSurname(aLast, bLast);
+    let score = 0.5 * first.score + 0.5 * last.score;
+    if (first.score < 0.75 || last.score < 0.8) score = Math.min(score, 0.7);
+    return { score, reasons: collectReasons(first, last) };
+  };
+
+  const direct = compare(a[0], a[a.length - 1], b[0], b[b.length - 1]);
+  // Given and family names entered in the other order ("Wong Lee" / "Lee Wong").
+  const swapped = compare(a[0], a[a.length - 1], b[b.length - 1], b[0]);
+  const swappedScore = swapped.score * 0.95;
+  return swappedScore > direct.score
+    ? { score: swappedScore, reasons: [...new Set<ConflictMatchReason>(['reordered', ...swapped.reasons])] }
+    : direct;
+};
+
+const scoreOrganizations = (a: string[], b: string[]): NameScore => {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  const parts = shorter.map((token) =>
+    longer
+      .map((other) => scoreSurname(token, other))
+      .reduce((acc, next) => (next.score > acc.score ? next : acc)));
+  const average = parts.reduce((sum, part) => sum + part.score, 0) / parts.length;
+  const coverage = 0.85 + 0.15 * (shorter.length / longer.length);
+  return { score: average * coverage, reasons: collectReasons(...parts) };
+};
+
+/** Score how likely two parsed names refer to the same party. */
+export const scoreNameMatch = (a: ParsedName, b: ParsedName): NameScore => {
+  if (a.normalized === b.normalized) return { score: 1, reasons: ['exact'] };
+  if ([...a.tokens].sort().join(' ') === [...b.tokens].sort().join(' ')) {
+    return { score: 0.97, reasons: ['reordered'] };
+  }
+  const result = a.kind === 'person' && b.kind === 'person'
+    ? scorePeople(a.tokens, b.tokens)
+    : scoreOrganizations(a.tokens, b.tokens);
+  // Only an identical normalized name is a certain match.
+  const score = Math.min(result.score, 0.98);
+  return { score, reasons: result.reasons.length > 0 ? result.reasons : ['fuzzy'] };
+};
+
+/** Whether matching these roles puts the practice on both sides of a dispute. */
+export const isAdverse = (queryRole: ConflictPartyRole, indexedRole: ConflictPartyRole): boolean =>
+  (queryRole === 'client' && indexedRole === 'opposing_party')
+  || (queryRole === 'opposing_party' && indexedRole === 'client');
+
+/**
+ * Assemble the names to search for an intake: the client and opposing party
+ * the visitor gave, plus everything the enrichment model pulled out.
+ * Duplicates collapse on their normalized form; the client and opposing
+ * party roles win over `related_party`.
+ */
+export const buildConflictQueryNames = (input: {
+  names?: readonly string[] | null;
+  clientName?: string | null;
+  opposingParty?: string | null;
+}): ConflictQueryName[] => {
+  const byKey = new Map<string, ConflictQueryName>();
+  const add = (raw: string | null | undefined, role: ConflictPartyRole) => {
+    const name = raw?.trim();
+    if (!name) return;
+    const parsed = parseName(name);
+    if (!parsed || byKey.has(parsed.normalized)) return;
+    byKey.set(parsed.normalized, { name, role });
+  };
+  add(input.clientName, 'client');
+  // Opposing party fields sometimes list several parties, one per line or
+  // separated by semicolons.
+  for (const part of (input.opposingParty ?? '').split(/[;\n]/)) {
+    add(part, 'opposing_party');
+  }
+  for (const name of input.names ?? []) add(name, 'related_party');
+  return [...byKey.values()];
+};
+
+export interface IndexedParty {
+  id: string;
+  name: string;
+  role: ConflictPartyRole;
+}
+
+export interface ConflictCandidateHit<P extends IndexedParty = IndexedParty> {
+  query: ConflictQueryName;
+  party: P;
+  score: number;
+  reasons: ConflictMatchReason[];
+  adverse: boolean;
+}
+
+/** Score every query name against the indexed parties and keep the hits. */
+export const findConflictHits = <P extends IndexedParty>(
+  queries: readonly ConflictQueryName[],
+  parties: readonly P[],
+): ConflictCandidateHit<P>[] => {
+  const parsedParties = parties
+    .map((party) => ({ party, parsed: parseName(party.name) }))
+    .filter((entry): entry is { party: P; parsed: ParsedName } => entry.parsed !== null);
+
+  const hits: ConflictCandidateHit<P>[] = [];
+  for (const query of queries) {
+    const parsedQuery = parseName(query.name);
+    if (!parsedQuery) continue;
+    const queryHits: ConflictCandidateHit<P>[] = [];
+    for (const { party, parsed } of parsedParties) {
+      if (query.role === 'opposing_party' && party.role === 'opposing_party') continue;
+      const { score, reasons } = scoreNameMatch(parsedQuery, parsed);
+      if (score < POSSIBLE_MATCH_SCORE) continue;
+      queryHits.push({
+        query,
+        party,
+        score: Math.round(score * 1000) / 1000,
+        reasons,
+        adverse: isAdverse(query.role, party.role),
+      });
+    }
+    queryHits.sort((a, b) => Number(b.adverse) - Number(a.adverse) || b.score - a.score);
+    hits.push(...queryHits.slice(0, MAX_HITS_PER_NAME));
+  }
+  return hits;
+};
+
+/**
+ * Roll hits up into the engagement conflict status. Attorney decisions win:
+ * any confirmed hit is a conflict and cleared hits no longer count. Until
+ * reviewed, a strong adverse hit reads as conflicted and anything else as
+ * review required. A check that could not score the whole index
+ * (`truncated`) is never clear — at best it needs review.
+ */
+export const deriveConflictStatus = (
+  queriedNames: number,
+  hits: ReadonlyArray<{ score: number; adverse: boolean; decision: ConflictHitDecision }>,
+  truncated: boolean,
+): ConflictCheckStatus => {
+  if (queriedNames === 0) return 'insufficient_data';
+  if (hits.some((hit) => hit.decision === 'confirmed')) return 'conflicted';
+  const pending = hits.filter((hit) => hit.decision === 'pending');
+  if (pending.some((hit) => hit.adverse && hit.score >= STRONG_MATCH_SCORE)) return 'conflicted';
+  return pending.length > 0 || truncated ? 'review_required' : 'clear';
+};
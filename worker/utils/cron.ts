@@ -0,0 +1,404 @@
+/**
+ * Timezone-aware cron evaluation for report schedules.
+ *
+ * Expressions use the standard five fields — minute, hour, day-of-month,
+ * month, day-of-week — evaluated against wall-clock time in an IANA
+ * timezone, so "0 7 * * MON" stays at 7am local across DST changes.
+ *
+ * Supported syntax per field: `*`, numbers, `a-b` ranges, `,` lists and `/n`
+ * steps; month (JAN-DEC) and weekday (SUN-SAT) names; 0 or 7 for Sunday.
+ * Day-of-month and day-of-week follow Vixie cron: when both are restricted a
+ * date matches either one.
+ *
+ * Extensions (Quartz-style, plus one of our own):
+ *   day-of-month  `L`    last day of the month
+ *                 `LW`   last weekday (Mon-Fri) of the month
+ *                 `15W`  weekday nearest the 15th, never leaving the month
+ *                        (`1W` = first business day of the month)
+ *   day-of-week   `FRI#2` second Friday of the month
+ *                 `5L`    last Friday of the month
+ *                 `FRI%2` every other Friday, counted in whole weeks from
+ *                         the anchor date (the schedule's creation date)
+ *
+ * DST handling:
+ *   - Gap (spring forward): a wall time that does not exist runs at the same
+ *     offset as before the transition, i.e. 02:30 becomes 03:30.
+ *   - Overlap (fall back): a wall time that occurs twice runs once, at the
+ *     first occurrence.
+ *
+ * All functions are pure — no network, fully unit-testable.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** How far ahead nextCronOccurrences searches before giving up. */
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+// 1970-01-05 was a Monday; used when an every-other-week rule has no anchor.
+const DEFAULT_ANCHOR_DAY = 4;
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface DayOfMonthRule {
+  any: boolean;
+  values: Set<number>;
+  last: boolean;
+  lastWeekday: boolean;
+  nearestWeekday: number[];
+}
+
+interface DayOfWeekRule {
+  any: boolean;
+  values: Set<number>;
+  nth: Array<{ weekday: number; n: number }>;
+  last: number[];
+  interval: Array<{ weekday: number; weeks: number }>;
+}
+
+export interface ParsedCron {
+  source: string;
+  minutes: number[];
+  hours: number[];
+  months: Set<number>;
+  dayOfMonth: DayOfMonthRule;
+  dayOfWeek: DayOfWeekRule;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+const fail = (message: string): never => {
+  throw new Error(`Invalid cron expression: ${message}`);
+};
+
+const parseNumber = (token: string, field: string, names?: string[], offset = 0): number => {
+  const upper = token.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper);
+    if (index >= 0) return index + offset;
+  }
+  if (!/^\d+$/.test(token)) fail(`"${token}" is not valid in ${field}`);
+  return Number(token);
+};
+
+/** Expands `*`, `a`, `a-b`, `*\/n`, `a/n` and `a-b/n` (comma-free) into values. */
+const expandRange = (
+  part: string,
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0,
+): number[] => {
+  const [rangePart, stepPart, extra] = part.split('/');
+  if (extra !== undefined) fail(`"${part}" has more than one step in ${field}`);
+  const step = stepPart === undefined ? 1 : parseNumber(stepPart, field);
+  if (step < 1) fail(`step must be at least 1 in ${field}`);
+
+  let start = min;
+  let end = max;
+  if (rangePart !== '*') {
+    const [from, to] = rangePart.split('-');
+    start = parseNumber(from, field, names, nameOffset);
+    end = to === undefined ? (stepPart === undefined ? start : max) : parseNumber(to, field, names, nameOffset);
+  }
+  if (start < min || end > max || start > end) fail(`"${part}" is out of range ${min}-${max} in ${field}`);
+
+  const values: number[] = [];
+  for (let value = start; value <= end; value += step) values.push(value);
+  return values;
+};
+
+const parseSimpleField = (
+  raw: string,
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0,
+): number[] => {
+  const values = new Set<number>();
+  for (const part of raw.split(',')) {
+    for (const value of expandRange(part, field, min, max, names, nameOffset)) values.add(value);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+const parseDayOfMonth = (raw: string): DayOfMonthRule => {
+  const rule: DayOfMonthRule = {
+    any: raw === '*' || raw === '?',
+    values: new Set(),
+    last: false,
+    lastWeekday: false,
+    nearestWeekday: [],
+  };
+  if (rule.any) return rule;
+  for (const part of raw.split(',')) {
+    const upper = part.toUpperCase();
+    if (upper === 'L') {
+      rule.last = true;
+    } else if (upper === 'LW') {
+      rule.lastWeekday = true;
+    } else if (/^\d+W$/.test(upper)) {
+      const day = Number(upper.slice(0, -1));
+      if (day < 1 || day > 31) fail(`"${part}" is out of range 1-31 in day-of-month`);
+      rule.nearestWeekday.push(day);
+    } else {
+      for (const value of expandRange(part, 'day-of-month', 1, 31)) rule.values.add(value);
+    }
+  }
+  return rule;
+};
+
+const parseWeekday = (token: string): number => {
+  const value = parseNumber(token, 'day-of-week', WEEKDAY_NAMES);
+  if (value > 7) fail(`"${token}" is out of range 0-7 in day-of-week`);
+  return value % 7;
+};
+
+const parseDayOfWeek = (raw: string): DayOfWeekRule => {
+  const rule: DayOfWeekRule = { any: raw === '*' || raw === '?', values: new Set(), nth: [], last: [], interval: [] };
+  if (rule.any) return rule;
+  for (const part of raw.split(',')) {
+    const nthMatch = /^(\w+)#(\d)$/.exec(part);
+    const lastMatch = /^(\w+)L$/i.exec(part);
+    const intervalMatch = /^(\w+)%(\d+)$/.exec(part);
+    if (nthMatch) {
+      const n = Number(nthMatch[2]);
+      if (n < 1 || n > 5) fail(`"${part}" must use #1-#5 in day-of-week`);
+      rule.nth.push({ weekday: parseWeekday(nthMatch[1]), n });
+    } else if (lastMatch) {
+      rule.last.push(parseWeekday(lastMatch[1]));
+    } else if (intervalMatch) {
+      const weeks = Number(intervalMatch[2]);
+      if (weeks < 1) fail(`"${part}" must repeat at least every week`);
+      rule.interval.push({ weekday: parseWeekday(intervalMatch[1]), weeks });
+    } else {
+      for (const value of expandRange(part, 'day-of-week', 0, 7, WEEKDAY_NAMES)) rule.values.add(value % 7);
+    }
+  }
+  return rule;
+};
+
+export function parseCronExpression(expression: string): ParsedCron {
+  const source = expression.trim().replace(/\s+/g, ' ');
+  const fields = source.split(' ');
+  if (fields.length !== 5) fail('expected 5 fields (minute hour day-of-month month day-of-week)');
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  return {
+    source,
+    minutes: parseSimpleField(minute, 'minute', 0, 59),
+    hours: parseSimpleField(hour, 'hour', 0, 23),
+    months: new Set(parseSimpleField(month, 'month', 1, 12, MONTH_NAMES, 1)),
+    dayOfMonth: parseDayOfMonth(dayOfMonth),
+    dayOfWeek: parseDayOfWeek(dayOfWeek),
+  };
+}
+
+/** Returns an error message, or null when the expression parses. */
+export function validateCronExpression(expression: string): string | null {
+  try {
+    parseCronExpression(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Timezone helpers
+// ---------------------------------------------------------------------------
+
+interface WallTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const getWallTime = (epochMs: number, timeZone: string): WallTime & { second: number } => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(epochMs))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour === 24 ? 0 : parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+const offsetAt = (epochMs: number, timeZone: string): number => {
+  const wall = getWallTime(epochMs, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - (epochMs - (((epochMs % 1000) + 1000) % 1000));
+};
+
+/**
+ * Converts a wall-clock time in `timeZone` to a UTC instant, applying the
+ * gap/overlap rules described at the top of this file.
+ */
+export function zonedTimeToUtc(wall: WallTime, timeZone: string): Date {
+  const naive = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const before = offsetAt(naive - DAY_MS, timeZone);
+  const after = offsetAt(naive + DAY_MS, timeZone);
+  const matches = [naive - before, naive - after].filter((epochMs) => {
+    const actual = getWallTime(epochMs, timeZone);
+    return actual.year === wall.year
+      && actual.month === wall.month
+      && actual.day === wall.day
+      && actual.hour === wall.hour
+      && actual.minute === wall.minute;
+  });
+  if (matches.length > 0) return new Date(Math.min(...matches));
+  return new Date(naive - before);
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const weekdayOf = (year: number, month: number, day: number): number => new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+
+const nearestWeekday = (year: number, month: number, target: number): number => {
+  const last = daysInMonth(year, month);
+  const day = Math.min(target, last);
+  const weekday = weekdayOf(year, month, day);
+  if (weekday === 6) return day - 1 >= 1 ? day - 1 : day + 2;
+  if (weekday === 0) return day + 1 <= last ? day + 1 : day - 2;
+  return day;
+};
+
+const lastWeekdayOfMonth = (year: number, month: number): number => {
+  const last = daysInMonth(year, month);
+  const weekday = weekdayOf(year, month, last);
+  if (weekday === 6) return last - 1;
+  if (weekday === 0) return last - 2;
+  return last;
+};
+
+const matchesDayOfMonth = (rule: DayOfMonthRule, year: number, month: number, day: number): boolean =>
+  rule.values.has(day)
+  || (rule.last && day === daysInMonth(year, month))
+  || (rule.lastWeekday && day === lastWeekdayOfMonth(year, month))
+  || rule.nearestWeekday.some((target) => nearestWeekday(year, month, target) === day);
+
+const matchesDayOfWeek = (
+  rule: DayOfWeekRule,
+  year: number,
+  month: number,
+  day: number,
+  anchorWeekStart: number,
+): boolean => {
+  const weekday = weekdayOf(year, month, day);
+  if (rule.values.has(weekday)) return true;
+  if (rule.nth.some((entry) => entry.weekday === weekday && Math.ceil(day / 7) === entry.n)) return true;
+  if (rule.last.some((entry) => entry === weekday && day + 7 > daysInMonth(year, month))) return true;
+  if (rule.interval.length === 0) return false;
+  const dayIndex = Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+  const week = Math.floor((dayIndex - anchorWeekStart) / 7);
+  return rule.interval.some((entry) => entry.weekday === weekday && ((week % entry.weeks) + entry.weeks) % entry.weeks === 0);
+};
+
+const matchesDate = (cron: ParsedCron, year: number, month: number, day: number, anchorWeekStart: number): boolean => {
+  if (!cron.months.has(month)) return false;
+  const { dayOfMonth, dayOfWeek } = cron;
+  if (dayOfMonth.any && dayOfWeek.any) return true;
+  if (dayOfMonth.any) return matchesDayOfWeek(dayOfWeek, year, month, day, anchorWeekStart);
+  if (dayOfWeek.any) return matchesDayOfMonth(dayOfMonth, year, month, day);
+  return matchesDayOfMonth(dayOfMonth, year, month, day)
+    || matchesDayOfWeek(dayOfWeek, year, month, day, anchorWeekStart);
+};
+
+// Monday on or before the anchor's calendar date in the schedule timezone.
+const resolveAnchorWeekStart = (anchor: Date | undefined, timeZone: string): number => {
+  if (!anchor) return DEFAULT_ANCHOR_DAY;
+  const wall = getWallTime(anchor.getTime(), timeZone);
+  const dayIndex = Math.floor(Date.UTC(wall.year, wall.month - 1, wall.day) / DAY_MS);
+  const weekday = weekdayOf(wall.year, wall.month, wall.day);
+  return dayIndex - ((weekday + 6) % 7);
+};
+
+export interface CronOccurrenceOptions {
+  /** IANA timezone the expression is evaluated in. Defaults to UTC. */
+  timeZone?: string;
+  /** Occurrences must be strictly after this instant. Defaults to now. */
+  from?: Date;
+  /** Number of occurrences to return. Defaults to 1. */
+  count?: number;
+  /** Reference date for `%n` every-n-weeks rules. */
+  anchor?: Date;
+}
+
+/**
+ * Returns up to `count` UTC instants at which the expression fires after
+ * `from`. Returns fewer (possibly none) when the expression cannot fire
+ * within the lookahead window, e.g. "0 0 30 2 *".
+ */
+export function nextCronOccurrences(expression: string | ParsedCron, options: CronOccurrenceOptions = {}): Date[] {
+  const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+  const timeZone = options.timeZone ?? 'UTC';
+  const from = options.from ?? new Date();
+  const count = Math.max(1, options.count ?? 1);
+  const anchorWeekStart = resolveAnchorWeekStart(options.anchor, timeZone);
+
+  const start = getWallTime(from.getTime(), timeZone);
+  const results: Date[] = [];
+  for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset += 1) {
+    const date = new Date(Date.UTC(start.year, start.month - 1, start.day + offset));
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth() + 1;
+    const day = date.getUTCDate();
+    if (!matchesDate(cron, year, month, day, anchorWeekStart)) continue;
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const instant = zonedTimeToUtc({ year, month, day, hour, minute }, timeZone);
+        const previous = results[results.length - 1];
+        // `previous` guards against a DST-gap time landing on an instant we already have.
+        if (instant <= from || (previous && instant <= previous)) continue;
+        results.push(instant);
+        if (results.length >= count) return results;
+      }
+    }
+  }
+  return results;
+}
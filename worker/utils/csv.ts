@@ -1,9 +1,26 @@
+/**
+ * Report column definitions. CSV output only uses `header` and `format`;
+ * the XLSX and PDF renderers also read `type` (to emit typed cells) and
+ * `total` (to build the totals row).
+ */
+export type CsvColumnType = 'text' | 'number' | 'currency' | 'date';
+
 export interface CsvColumn<TRow> {
   key: keyof TRow & string;
   header: string;
   format?: (value: TRow[keyof TRow], row: TRow) => string | number | null | undefined;
+  /** Cell type for typed renderers. Defaults to 'text'. */
+  type?: CsvColumnType;
+  /** Sum this column in the totals row. Only meaningful for number/currency columns. */
+  total?: boolean;
 }
 
+export type ReportCell =
+  | { kind: 'empty' }
+  | { kind: 'text'; text: string }
+  | { kind: 'number'; value: number; type: 'number' | 'currency' }
+  | { kind: 'date'; date: Date };
+
 const escapeCell = (value: unknown): string => {
   if (value === null || value === undefined) return '';
   const str = typeof value === 'string' ? value : String(value);
@@ -13,6 +30,74 @@ const escapeCell = (value: unknown): string => {
   return str;
 };
 
+const formatValue = <TRow extends Record<string, unknown>>(row: TRow, col: CsvColumn<TRow>): unknown => {
+  const raw = row[col.key];
+  return col.format ? col.format(raw, row) : raw;
+};
+
+/**
+ * Resolves a row/column pair to a typed cell. Values that don't parse as the
+ * column's type fall back to text so nothing is silently dropped.
+ */
+export const resolveCell = <TRow extends Record<string, unknown>>(
+  row: TRow,
+  col: CsvColumn<TRow>
+): ReportCell => {
+  const value = formatValue(row, col);
+  if (value === null || value === undefined || value === '') return { kind: 'empty' };
+  const type = col.type ?? 'text';
+  if (type === 'number' || type === 'currency') {
+    const num = typeof value === 'number' ? value : Number(value);
+    if (Number.isFinite(num)) return { kind: 'number', value: num, type };
+  } else if (type === 'date') {
+    const date = value instanceof Date ? value : new Date(String(value));
+    if (!Number.isNaN(date.getTime())) return { kind: 'date', date };
+  }
+  return { kind: 'text', text: String(value) };
+};
+
+/**
+ * Column sums for the totals row; null for columns without `total`.
+ * Sums are rounded (to three decimals for currency, which covers every ISO
+ * 4217 minor unit) to avoid float drift.
+ */
+export const columnTotals = <TRow extends Record<string, unknown>>(
+  rows: TRow[],
+  columns: CsvColumn<TRow>[]
+): Array<number | null> =>
+  columns.map((col) => {
+    if (!col.total) return null;
+    let sum = 0;
+    for (const row of rows) {
+      const cell = resolveCell(row, col);
+      if (cell.kind === 'number') sum += cell.value;
+    }
+    const scale = col.type === 'currency' ? 1000 : 1e6;
+    return Math.round(sum * scale) / scale;
+  });
+
+/**
+ * One set of column totals per distinct value of `groupKey`, sorted by that
+ * value. Used instead of a single totals row when summing across groups
+ * would mix unlike amounts, e.g. one subtotal per currency.
+ */
+export const groupedColumnTotals = <TRow extends Record<string, unknown>>(
+  rows: TRow[],
+  columns: CsvColumn<TRow>[],
+  groupKey: string
+): Array<{ group: string; totals: Array<number | null> }> => {
+  const groups = new Map<string, TRow[]>();
+  for (const row of rows) {
+    const group = String(row[groupKey] ?? '');
+    const bucket = groups.get(group);
+    if (bucket) bucket.push(row);
+    else groups.set(group, [row]);
+  }
+  return Array.from(groups.keys())
+    .sort()
+    .map((group) => ({ group, totals: columnTotals(groups.get(group) ?? [], columns) }));
+};
+
 export const toCsv = <TRow extends Record<string, unknown>>(
   rows: TRow[],
   columns: CsvColumn<TRow>[]
@@ -20,11 +105,7 @@ export const toCsv = <TRow extends Record<string, unknown>>(
   const headerRow = columns.map((col) => escapeCell(col.header)).join(',');
   const dataRows = rows.map((row) =>
     columns
-      .map((col) => {
-        const raw = row[col.key];
-        const formatted = col.format ? col.format(raw, row) : raw;
-        return escapeCell(formatted);
-      })
+      .map((col) => escapeCell(formatValue(row, col)))
       .join(',')
   );
   return [headerRow, ...dataRows].join('\r\n');
@@ -0,0 +1,121 @@
+import type { Env, NotificationCategory, NotificationQueueMessage } from '../types.js';
+import { getConfiguredDomain } from './domain.js';
+
+/**
+ * HTML + plain-text bodies for notification emails, one template per
+ * NotificationCategory. Everything taken from the queue message is escaped;
+ * links are made absolute against the configured app origin.
+ */
+
+interface CategoryTemplate {
+  /** Small label above the title. */
+  eyebrow: string;
+  cta: string;
+  /** Why the recipient got this; shown in the footer. */
+  reason: string;
+}
+
+const CATEGORY_TEMPLATES: Record<NotificationCategory, CategoryTemplate> = {
+  message: {
+    eyebrow: 'New message',
+    cta: 'View conversation',
+    reason: 'you have message email notifications turned on',
+  },
+  payment: {
+    eyebrow: 'Payment update',
+    cta: 'View payment',
+    reason: 'you have payment email notifications turned on',
+  },
+  intake: {
+    eyebrow: 'New intake',
+    cta: 'Review intake',
+    reason: 'you have intake email notifications turned on',
+  },
+  matter: {
+    eyebrow: 'Matter update',
+    cta: 'Open matter',
+    reason: 'you have matter email notifications turned on',
+  },
+  system: {
+    eyebrow: 'Account notice',
+    cta: 'Open Blawby',
+    reason: 'this is a required notice about your account',
+  },
+};
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+export const resolveEmailOrigin = (env: Env): string => {
+  const domain = getConfiguredDomain(env);
+  return domain === 'localhost' ? 'http://localhost' : `https://${domain}`;
+};
+
+const toAbsoluteLink = (link: string | null | undefined, origin: string): string | null => {
+  if (!link) return null;
+  try {
+    const url = new URL(link, origin);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Subject lines can't carry newlines (header injection) and should stay short.
+const toSubject = (title: string): string => {
+  const flat = title.replace(/[\r\n]+/g, ' ').trim() || 'Update from Blawby';
+  return flat.length > 140 ? `${flat.slice(0, 139)}…` : flat;
+};
+
+export function renderNotificationEmail(
+  message: Pick<NotificationQueueMessage, 'category' | 'title' | 'body' | 'link' | 'senderName'>,
+  options: { origin: string; unsubscribeUrl: string | null },
+): RenderedEmail {
+  const template = CATEGORY_TEMPLATES[message.category] ?? CATEGORY_TEMPLATES.system;
+  const subject = toSubject(message.title);
+  const body = typeof message.body === 'string' ? message.body.trim() : '';
+  const sender = typeof message.senderName === 'string' ? message.senderName.trim() : '';
+  const link = toAbsoluteLink(message.link, options.origin);
+
+  const textLines = [template.eyebrow, '', subject];
+  if (sender) textLines.push(`From ${sender}`);
+  if (body) textLines.push('', body);
+  if (link) textLines.push('', `${template.cta}: ${link}`);
+  textLines.push('', `You're receiving this because ${template.reason}.`);
+  if (options.unsubscribeUrl) textLines.push(`Unsubscribe: ${options.unsubscribeUrl}`);
+
+  const bodyHtml = body
+    ? body.split(/\n{2,}/).map((paragraph) =>
+      `<p style="margin:0 0 12px;">${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`).join('')
+    : '';
+  const html = [
+    '<!doctype html><html><body style="margin:0;padding:24px;background:#f5f5f4;font-family:-apple-system,BlinkMacSystemFont,\'Segoe UI\',Helvetica,Arial,sans-serif;color:#1c1917;">',
+    '<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;">',
+    '<tr><td style="padding:24px;">',
+    `<p style="margin:0 0 8px;font-size:12px;text-transform:uppercase;letter-spacing:0.04em;color:#78716c;">${escapeHtml(template.eyebrow)}</p>`,
+    `<h1 style="margin:0 0 16px;font-size:20px;line-height:1.3;">${escapeHtml(subject)}</h1>`,
+    sender ? `<p style="margin:0 0 12px;color:#57534e;">From ${escapeHtml(sender)}</p>` : '',
+    bodyHtml,
+    link
+      ? `<p style="margin:20px 0 0;"><a href="${escapeHtml(link)}" style="display:inline-block;padding:10px 16px;background:#1c1917;color:#ffffff;text-decoration:none;border-radius:6px;">${escapeHtml(template.cta)}</a></p>`
+      : '',
+    '</td></tr></table>',
+    `<p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#78716c;">You're receiving this because ${escapeHtml(template.reason)}.`,
+    options.unsubscribeUrl
+      ? ` <a href="${escapeHtml(options.unsubscribeUrl)}" style="color:#78716c;">Unsubscribe</a>`
+      : '',
+    '</p></body></html>',
+  ].join('');
+
+  return { subject, html, text: textLines.join('\n') };
+}
@@ -0,0 +1,92 @@
+import type { Env, NotificationCategory } from '../types.js';
+import type { EmailSuppressionScope } from '../services/EmailSuppressionStore.js';
+
+/**
+ * Signed unsubscribe tokens for notification emails.
+ *
+ * Shape: `base64url(JSON claims).base64url(HMAC-SHA256)`, signed with
+ * EMAIL_UNSUBSCRIBE_SECRET. Tokens don't expire — an unsubscribe link in a
+ * year-old email still has to work.
+ */
+
+const TOKEN_VERSION = 1;
+const CATEGORIES = new Set<string>(['message', 'payment', 'intake', 'matter', 'system']);
+
+export interface UnsubscribeClaims {
+  email: string;
+  userId: string;
+  scope: EmailSuppressionScope;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const toBase64Url = (input: Uint8Array): string => {
+  let binary = '';
+  for (const byte of input) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '');
+};
+
+const fromBase64Url = (input: string): Uint8Array => {
+  const normalized = input.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = normalized + '='.repeat((4 - (normalized.length % 4 || 4)) % 4);
+  const raw = atob(padded);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i += 1) bytes[i] = raw.charCodeAt(i);
+  return bytes;
+};
+
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i += 1) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+const sign = async (payload: string, secret: string): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    textEncoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', key, textEncoder.encode(payload)));
+};
+
+const resolveSecret = (env: Env): string | null => {
+  const secret = typeof env.EMAIL_UNSUBSCRIBE_SECRET === 'string' ? env.EMAIL_UNSUBSCRIBE_SECRET.trim() : '';
+  return secret || null;
+};
+
+/** Returns null when EMAIL_UNSUBSCRIBE_SECRET isn't configured. */
+export const issueUnsubscribeToken = async (env: Env, claims: UnsubscribeClaims): Promise<string | null> => {
+  const secret = resolveSecret(env);
+  if (!secret) return null;
+  const payload = toBase64Url(textEncoder.encode(JSON.stringify({
+    v: TOKEN_VERSION,
+    e: claims.email,
+    u: claims.userId,
+    s: claims.scope,
+  })));
+  return `${payload}.${toBase64Url(await sign(payload, secret))}`;
+};
+
+/** Returns null for any malformed, tampered or unverifiable token. */
+export const verifyUnsubscribeToken = async (env: Env, token: string): Promise<UnsubscribeClaims | null> => {
+  const secret = resolveSecret(env);
+  if (!secret) return null;
+  const [payload, signature, ...rest] = token.trim().split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  try {
+    if (!timingSafeEqual(await sign(payload, secret), fromBase64Url(signature))) return null;
+    const raw = JSON.parse(textDecoder.decode(fromBase64Url(payload))) as Record<string, unknown>;
+    if (raw.v !== TOKEN_VERSION) return null;
+    if (typeof raw.e !== 'string' || !raw.e || typeof raw.u !== 'string' || !raw.u) return null;
+    if (raw.s !== '*' && !(typeof raw.s === 'string' && CATEGORIES.has(raw.s))) return null;
+    return { email: raw.e, userId: raw.u, scope: raw.s as NotificationCategory | '*' };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,237 @@
+/**
+ * Intake template A/B experiments: deterministic variant assignment and the
+ * statistics behind the results comparison.
+ *
+ * Assignment hashes `experimentId:sessionId` (the widget session id carried
+ * by widgetAuthToken), so a visitor who reloads the widget keeps their
+ * variant and a new experiment reshuffles everyone independently of the last.
+ *
+ * Significance uses normal approximations — a pooled two-proportion z-test
+ * for conversion and a Welch z-test for mean completeness — which are fine
+ * at the sample sizes we require before calling a result. Conversion is the
+ * primary metric; completeness is tested and reported on its own, never
+ * folded into the same call.
+ *
+ * Pure functions only; IntakeExperimentService does the D1 reads.
+ */
+
+import type { IntakeExperimentAssignment } from '../../src/shared/types/intake.js';
+
+export const MAX_EXPERIMENT_VARIANTS = 4;
+export const MAX_VARIANT_WEIGHT = 100;
+/** Conversations each arm needs before a difference can be called. */
+export const MIN_SAMPLE_PER_VARIANT = 30;
+export const SIGNIFICANCE_ALPHA = 0.05;
+
+const VARIANT_KEY_RE = /^[a-z0-9][a-z0-9_-]{0,39}$/i;
+const TEMPLATE_SLUG_RE = /^[a-z0-9][a-z0-9_-]{0,127}$/i;
+
+export interface IntakeExperimentVariant {
+  key: string;
+  templateSlug: string;
+  weight: number;
+}
+
+export type { IntakeExperimentAssignment };
+
+export type IntakeExperimentSignificance = 'significant' | 'not_significant' | 'insufficient_data';
+
+export interface IntakeExperimentArm {
+  uses: number;
+  submitted: number;
+  /** Last recorded completeness (0–100) per conversation that reached the case step. */
+  completenessScores: number[];
+}
+
+export interface IntakeExperimentComparison {
+  /** Percentage points, variant minus control. */
+  conversionDelta: number | null;
+  conversionPValue: number | null;
+  /** Completeness points, variant minus control. */
+  completenessDelta: number | null;
+  completenessPValue: number | null;
+  /** Conversion, the primary metric. */
+  significance: IntakeExperimentSignificance;
+  /** Completeness, judged separately over conversations that reached the case step. */
+  completenessSignificance: IntakeExperimentSignificance;
+}
+
+/**
+ * Validates a variants array from a request body against the practice's
+ * published template slugs. Returns the normalised variants, or a
+ * human-readable error.
+ */
+export function parseExperimentVariants(
+  raw: unknown,
+  publishedTemplateSlugs: ReadonlySet<string>,
+): { variants: IntakeExperimentVariant[] } | { error: string } {
+  if (!Array.isArray(raw) || raw.length < 2 || raw.length > MAX_EXPERIMENT_VARIANTS) {
+    return { error: `variants must list between 2 and ${MAX_EXPERIMENT_VARIANTS} templates` };
+  }
+  const variants: IntakeExperimentVariant[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      return { error: 'Each variant must be an object' };
+    }
+    const { key, templateSlug, weight } = entry as Record<string, unknown>;
+    if (typeof key !== 'string' || !VARIANT_KEY_RE.test(key.trim())) {
+      return { error: 'Variant keys must be 1-40 letters, digits, dashes or underscores' };
+    }
+    if (typeof templateSlug !== 'string' || !TEMPLATE_SLUG_RE.test(templateSlug.trim())) {
+      return { error: `Variant "${key}" needs a valid templateSlug` };
+    }
+    if (!publishedTemplateSlugs.has(templateSlug.trim())) {
+      return { error: `Variant "${key}" uses template "${templateSlug.trim()}", which is not published` };
+    }
+    const resolvedWeight = weight === undefined ? 1 : weight;
+    if (
+      typeof resolvedWeight !== 'number'
+      || !Number.isInteger(resolvedWeight)
+      || resolvedWeight < 1
+      || resolvedWeight > MAX_VARIANT_WEIGHT
+    ) {
+      return { error: `Variant "${key}" weight must be an integer from 1 to ${MAX_VARIANT_WEIGHT}` };
+    }
+    variants.push({ key: key.trim(), templateSlug: templateSlug.trim(), weight: resolvedWeight });
+  }
+  if (new Set(variants.map((variant) => variant.key)).size !== variants.length) {
+    return { error: 'Variant keys must be unique' };
+  }
+  if (new Set(variants.map((variant) => variant.templateSlug)).size !== variants.length) {
+    return { error: 'Each variant must use a different template' };
+  }
+  return { variants };
+}
+
+/** Stable 32-bit bucket for a session within one experiment. */
+export async function experimentBucket(experimentId: string, sessionId: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${experimentId}:${sessionId}`));
+  return new DataView(digest).getUint32(0);
+}
+
+/** Maps a bucket onto the variants in proportion to their weights. */
+export function pickVariant(variants: IntakeExperimentVariant[], bucket: number): IntakeExperimentVariant {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let point = bucket % totalWeight;
+  for (const variant of variants) {
+    if (point < variant.weight) return variant;
+    point -= variant.weight;
+  }
+  return variants[variants.length - 1];
+}
+
+export async function assignIntakeVariant(
+  experiment: { id: string; variants: IntakeExperimentVariant[] },
+  sessionId: string,
+): Promise<IntakeExperimentVariant> {
+  return pickVariant(experiment.variants, await experimentBucket(experiment.id, sessionId));
+}
+
+/**
+ * Assignment the worker stamped on a conversation's user_info when it was
+ * created (see IntakeExperimentService.assignConversation), as the
+ * intake_events columns it is recorded under. Nulls when there is none.
+ */
+export function resolveIntakeExperimentAssignment(
+  userInfo: unknown,
+): { experimentId: string | null; experimentVariant: string | null } {
+  const none = { experimentId: null, experimentVariant: null };
+  if (!userInfo || typeof userInfo !== 'object' || Array.isArray(userInfo)) return none;
+  const assignment = (userInfo as Record<string, unknown>).intakeExperiment;
+  if (!assignment || typeof assignment !== 'object' || Array.isArray(assignment)) return none;
+  const { experimentId, variantKey } = assignment as Record<string, unknown>;
+  if (typeof experimentId !== 'string' || !experimentId.trim()) return none;
+  if (typeof variantKey !== 'string' || !VARIANT_KEY_RE.test(variantKey.trim())) return none;
+  return { experimentId: experimentId.trim(), experimentVariant: variantKey.trim() };
+}
+
+// Abramowitz & Stegun 7.1.26; absolute error below 1.5e-7.
+const erf = (x: number): number => {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-x * x));
+};
+
+/** Two-sided p-value for a standard normal statistic. */
+const twoSidedPValue = (z: number): number => 1 - erf(Math.abs(z) / Math.SQRT2);
+
+const roundTo = (value: number, places: number): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+/** Pooled two-proportion z-test. Null when either arm is empty or both rates are 0 or 1. */
+export function twoProportionPValue(
+  successesA: number,
+  totalA: number,
+  successesB: number,
+  totalB: number,
+): number | null {
+  if (totalA === 0 || totalB === 0) return null;
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) return null;
+  const z = (successesB / totalB - successesA / totalA) / standardError;
+  return twoSidedPValue(z);
+}
+
+const meanAndVariance = (values: number[]): { mean: number; variance: number } => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.length > 1
+    ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1)
+    : 0;
+  return { mean, variance };
+};
+
+/** Welch z-test on two sample means. Null when either sample has fewer than two values or no spread. */
+export function meanDifferencePValue(valuesA: number[], valuesB: number[]): number | null {
+  if (valuesA.length < 2 || valuesB.length < 2) return null;
+  const a = meanAndVariance(valuesA);
+  const b = meanAndVariance(valuesB);
+  const standardError = Math.sqrt(a.variance / valuesA.length + b.variance / valuesB.length);
+  if (standardError === 0) return null;
+  return twoSidedPValue((b.mean - a.mean) / standardError);
+}
+
+export function meanCompleteness(arm: IntakeExperimentArm): number | null {
+  if (arm.completenessScores.length === 0) return null;
+  return roundTo(meanAndVariance(arm.completenessScores).mean, 1);
+}
+
+const judge = (pValue: number | null, sampleA: number, sampleB: number): IntakeExperimentSignificance => {
+  if (sampleA < MIN_SAMPLE_PER_VARIANT || sampleB < MIN_SAMPLE_PER_VARIANT) return 'insufficient_data';
+  return pValue !== null && pValue < SIGNIFICANCE_ALPHA ? 'significant' : 'not_significant';
+};
+
+/**
+ * Compares one variant against the control. Conversion and completeness are
+ * each significant when both arms have MIN_SAMPLE_PER_VARIANT samples and
+ * that metric's p-value clears SIGNIFICANCE_ALPHA; `significance` is the
+ * conversion call.
+ */
+export function compareToControl(control: IntakeExperimentArm, variant: IntakeExperimentArm): IntakeExperimentComparison {
+  const conversionDelta = control.uses > 0 && variant.uses > 0
+    ? roundTo((variant.submitted / variant.uses - control.submitted / control.uses) * 100, 1)
+    : null;
+  const controlCompleteness = meanCompleteness(control);
+  const variantCompleteness = meanCompleteness(variant);
+  const completenessDelta = controlCompleteness !== null && variantCompleteness !== null
+    ? roundTo(variantCompleteness - controlCompleteness, 1)
+    : null;
+  const conversionPValue = twoProportionPValue(control.submitted, control.uses, variant.submitted, variant.uses);
+  const completenessPValue = meanDifferencePValue(control.completenessScores, variant.completenessScores);
+
+  return {
+    conversionDelta,
+    conversionPValue: conversionPValue === null ? null : roundTo(conversionPValue, 4),
+    completenessDelta,
+    completenessPValue: completenessPValue === null ? null : roundTo(completenessPValue, 4),
+    significance: judge(conversionPValue, control.uses, variant.uses),
+    completenessSignificance: judge(
+      completenessPValue,
+      control.completenessScores.length,
+      variant.completenessScores.length,
+    ),
+  };
+}
@@ -0,0 +1,113 @@
+import { INTAKE_FUNNEL_STEPS, type IntakeFunnelStep } from '../types/intakeEvent.js';
+
+/**
+ * Intake template funnel math over per-conversation rollups of intake_events.
+ *
+ * A conversation counts toward every step up to the furthest one it reached,
+ * so a missed marker row (e.g. the widget never logged the disclaimer step)
+ * can't make a later step larger than an earlier one. Visitors who close the
+ * widget at the disclaimer never get a conversation, so the funnel starts at
+ * the first step a conversation records.
+ *
+ * Pure functions only; IntakeFunnelService does the D1 reads.
+ */
+
+/** Fallback slug when a conversation carries no stored template (matches aiChat). */
+export const DEFAULT_INTAKE_TEMPLATE_SLUG = 'default';
+
+export interface IntakeFunnelConversation {
+  /** 1-based index into INTAKE_FUNNEL_STEPS of the furthest step reached. */
+  furthestStep: number;
+  /** AI case turns, including the submit turn. */
+  caseTurns: number;
+  /** Field the last case turn left outstanding, when known. */
+  lastPendingField: string | null;
+}
+
+export interface IntakeFunnelStepSummary {
+  step: IntakeFunnelStep;
+  reached: number;
+  /** Conversations that reached this step but not the next. Zero for submit. */
+  dropOff: number;
+}
+
+export interface IntakeFunnelSummary {
+  uses: number;
+  submitted: number;
+  steps: IntakeFunnelStepSummary[];
+  /** 0–100, or null when the template has no uses in range. */
+  conversionPercent: number | null;
+  medianTurnsToSubmit: number | null;
+  mostAbandonedField: { key: string; count: number } | null;
+}
+
+/** SQL CASE expression mapping funnel_step to its 1-based rank. */
+export const FUNNEL_STEP_RANK_SQL = `CASE funnel_step ${INTAKE_FUNNEL_STEPS
+  .map((step, index) => `WHEN '${step}' THEN ${index + 1}`)
+  .join(' ')} ELSE 0 END`;
+
+/**
+ * SQL condition for an AI case turn: 'case' rows and the submit_intake tool
+ * turn. The submit step the submit-intake route records is not a turn.
+ */
+export const CASE_TURN_SQL = `(funnel_step = 'case' OR provenance = 'submit_intake')`;
+
+/** Template slug stored on a conversation's user_info, or the default slug. */
+export function resolveIntakeTemplateSlug(userInfo: unknown): string {
+  if (!userInfo || typeof userInfo !== 'object' || Array.isArray(userInfo)) {
+    return DEFAULT_INTAKE_TEMPLATE_SLUG;
+  }
+  const template = (userInfo as Record<string, unknown>).intakeTemplate;
+  if (template && typeof template === 'object' && !Array.isArray(template)) {
+    const slug = (template as Record<string, unknown>).slug;
+    if (typeof slug === 'string' && slug.trim()) return slug.trim();
+  }
+  return DEFAULT_INTAKE_TEMPLATE_SLUG;
+}
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export function summarizeIntakeFunnel(conversations: IntakeFunnelConversation[]): IntakeFunnelSummary {
+  const funnel = conversations.filter((conversation) => conversation.furthestStep > 0);
+  const submitRank = INTAKE_FUNNEL_STEPS.length;
+
+  const reached = INTAKE_FUNNEL_STEPS.map((_, index) =>
+    funnel.filter((conversation) => conversation.furthestStep >= index + 1).length
+  );
+  const steps = INTAKE_FUNNEL_STEPS.map((step, index) => ({
+    step,
+    reached: reached[index],
+    dropOff: index + 1 < reached.length ? reached[index] - reached[index + 1] : 0,
+  }));
+
+  const submittedConversations = funnel.filter((conversation) => conversation.furthestStep === submitRank);
+  const uses = funnel.length;
+  const submitted = submittedConversations.length;
+
+  // Abandoned mid-case: had at least one AI turn, never submitted.
+  const abandonedFields = new Map<string, number>();
+  for (const conversation of funnel) {
+    if (conversation.furthestStep !== submitRank - 1 || !conversation.lastPendingField) continue;
+    abandonedFields.set(conversation.lastPendingField, (abandonedFields.get(conversation.lastPendingField) ?? 0) + 1);
+  }
+  let mostAbandonedField: IntakeFunnelSummary['mostAbandonedField'] = null;
+  for (const [key, count] of abandonedFields) {
+    if (!mostAbandonedField || count > mostAbandonedField.count) {
+      mostAbandonedField = { key, count };
+    }
+  }
+
+  return {
+    uses,
+    submitted,
+    steps,
+    conversionPercent: uses > 0 ? Math.round((submitted / uses) * 1000) / 10 : null,
+    medianTurnsToSubmit: median(submittedConversations.map((conversation) => conversation.caseTurns)),
+    mostAbandonedField,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Edit/delete rules for chat messages.
+ *
+ * Shared by the ChatRoom `message.edit` / `message.delete` frames and the
+ * REST routes under /api/conversations/:id/messages/:messageId so both paths
+ * accept and reject exactly the same mutations.
+ *
+ * Rules:
+ *   - Only `user` messages can change. System and assistant messages are
+ *     part of the intake/audit trail and stay immutable.
+ *   - Authors may edit or delete their own message inside the edit window.
+ *     Practice staff get a longer window than clients, since the common case
+ *     is correcting a fee or a client name in a reply.
+ *   - Practice owners/admins may delete (never edit) any user message at any
+ *     time, for moderation.
+ *   - A deleted message cannot be edited or deleted again.
+ *   - Edit history is visible to practice staff and the message's author.
+ *     Once a message is deleted only staff see its earlier content.
+ */
+
+export type MessageMutationAction = 'edit' | 'delete';
+
+export type MessageMutationDenialCode =
+  | 'message_deleted'
+  | 'message_immutable'
+  | 'not_author'
+  | 'edit_window_expired';
+
+export interface MessageMutationTarget {
+  role: string;
+  user_id: string | null;
+  server_ts: string;
+  deleted_at?: string | null;
+}
+
+export interface MessageMutationActor {
+  userId: string;
+  /** Practice member role, when the actor is practice staff. */
+  memberRole?: string | null;
+}
+
+export type MessageMutationDecision =
+  | { kind: 'allowed' }
+  | { kind: 'denied'; code: MessageMutationDenialCode; message: string };
+
+export const CLIENT_MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+export const STAFF_MESSAGE_EDIT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const STAFF_ROLES = new Set(['owner', 'admin', 'attorney', 'paralegal']);
+const MODERATOR_ROLES = new Set(['owner', 'admin']);
+
+const deny = (code: MessageMutationDenialCode, message: string): MessageMutationDecision => ({
+  kind: 'denied',
+  code,
+  message
+});
+
+export const resolveMessageEditWindowMs = (memberRole?: string | null): number => (
+  memberRole && STAFF_ROLES.has(memberRole)
+    ? STAFF_MESSAGE_EDIT_WINDOW_MS
+    : CLIENT_MESSAGE_EDIT_WINDOW_MS
+);
+
+export function evaluateMessageMutation(options: {
+  action: MessageMutationAction;
+  message: MessageMutationTarget;
+  actor: MessageMutationActor;
+  now?: number;
+}): MessageMutationDecision {
+  const { action, message, actor } = options;
+  const now = options.now ?? Date.now();
+
+  if (message.deleted_at) {
+    return deny('message_deleted', 'Message has been deleted');
+  }
+  if (message.role !== 'user') {
+    return deny('message_immutable', 'Only user messages can be changed');
+  }
+
+  const isAuthor = Boolean(message.user_id) && message.user_id === actor.userId;
+  if (!isAuthor) {
+    if (action === 'delete' && actor.memberRole && MODERATOR_ROLES.has(actor.memberRole)) {
+      return { kind: 'allowed' };
+    }
+    return deny('not_author', `Only the author can ${action} this message`);
+  }
+
+  const sentAt = Date.parse(message.server_ts);
+  if (!Number.isFinite(sentAt)) {
+    return deny('edit_window_expired', 'Message timestamp unavailable');
+  }
+  if (now - sentAt > resolveMessageEditWindowMs(actor.memberRole)) {
+    return deny('edit_window_expired', `Message can no longer be ${action === 'edit' ? 'edited' : 'deleted'}`);
+  }
+
+  return { kind: 'allowed' };
+}
+
+/**
+ * Who may read a message's edit/delete history, and how much of it:
+ * `full` for practice staff, `author` for the message's author (earlier
+ * content withheld once the message is deleted), otherwise `denied`.
+ */
+export type MessageHistoryAccess = 'full' | 'author' | 'denied';
+
+export const resolveMessageHistoryAccess = (
+  message: Pick<MessageMutationTarget, 'user_id'>,
+  actor: MessageMutationActor
+): MessageHistoryAccess => {
+  if (actor.memberRole && STAFF_ROLES.has(actor.memberRole)) return 'full';
+  if (message.user_id && message.user_id === actor.userId) return 'author';
+  return 'denied';
+};
@@ -7,3 +7,41 @@ export const warnIfNotMinorUnits = (amount: number | undefined, context: string)
     console.warn(`[money] Expected integer minor units for ${context}.`, amount);
   }
 };
+
+export const DEFAULT_CURRENCY = 'USD';
+
+const ISO_CURRENCY_PATTERN = /^[A-Za-z]{3}$/;
+const minorUnitDigitsCache = new Map<string, number>();
+
+/** Upper-cased ISO 4217 code; anything missing or malformed is treated as USD. */
+export const normalizeCurrencyCode = (raw: unknown): string => {
+  if (typeof raw !== 'string') return DEFAULT_CURRENCY;
+  const trimmed = raw.trim();
+  return ISO_CURRENCY_PATTERN.test(trimmed) ? trimmed.toUpperCase() : DEFAULT_CURRENCY;
+};
+
+/**
+ * Number of minor-unit digits for a currency: 2 for USD/CAD/GBP, 0 for JPY,
+ * 3 for KWD/BHD, etc. Read from Intl's ISO 4217 data.
+ */
+export const currencyMinorUnitDigits = (currency: string): number => {
+  const code = normalizeCurrencyCode(currency);
+  const cached = minorUnitDigitsCache.get(code);
+  if (cached !== undefined) return cached;
+  let digits = 2;
+  try {
+    digits = new Intl.NumberFormat('en-US', { style: 'currency', currency: code })
+      .resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    // Unknown to this runtime's ICU data; keep the common default.
+  }
+  minorUnitDigitsCache.set(code, digits);
+  return digits;
+};
+
+export const minorToMajorUnits = (amount: number, currency: string): number =>
+  amount / 10 ** currencyMinorUnitDigits(currency);
+
+/** Minor units as a plain decimal string, e.g. 12345 USD → "123.45", 12345 JPY → "12345". */
+export const formatMinorUnits = (amount: number, currency: string): string =>
+  minorToMajorUnits(amount, currency).toFixed(currencyMinorUnitDigits(currency));
@@ -132,6 +132,8 @@ function normalizeClient(root: AnyRecord): SearchIndexPayload {
     metadata: {
       status,
       archived: status === 'archived',
+      clientName: name,
+      createdAt: readIsoDate(root, 'created_at'),
     },
   };
 }
@@ -155,6 +157,13 @@ function normalizeMatter(root: AnyRecord): SearchIndexPayload {
     metadata: {
       status,
       archived: status === 'closed' || status === 'archived',
+      clientName: readString(root, 'client_name') ?? readString(root, 'clientName'),
+      matterTitle: title,
+      createdAt: readIsoDate(root, 'created_at'),
+      // Party names feed the conflict-of-interest index (ConflictCheckService).
+      opposingParties: readNameList(root, ['opposing_parties', 'opposingParties', 'opposing_party', 'opposingParty']),
+      relatedParties: readNameList(root, ['related_parties', 'relatedParties']),
+      participants: readNameList(root, ['participants', 'parties']),
     },
   };
 }
@@ -191,6 +200,11 @@ function normalizeInvoice(root: AnyRecord): SearchIndexPayload {
     metadata: {
       status,
       archived: status === 'void' || status === 'cancelled',
+      clientName,
+      matterTitle: readString(root, 'matter_title') ?? readString(root, 'matterTitle'),
+      amountCents: totalCents,
+      createdAt: readIsoDate(root, 'created_at'),
+      dueDate: readIsoDate(root, 'due_date') ?? readIsoDate(root, 'dueDate'),
     },
   };
 }
@@ -248,6 +262,10 @@ function normalizeIntake(root: AnyRecord): SearchIndexPayload {
       status,
       triageStatus,
       archived: triageStatus === 'declined' || status === 'archived',
+      clientName: intakeName,
+      opposingParty,
+      relatedParties: readEnrichedConflictNames(metadata),
+      createdAt: readIsoDate(root, 'created_at'),
     },
   };
 }
@@ -298,10 +316,45 @@ function normalizeFile(root: AnyRecord): SearchIndexPayload {
       scopeType,
       scopeId: readString(root, 'scope_id') ?? null,
       archived: status === 'deleted' || Boolean(readString(root, 'deleted_at')),
+      createdAt: readIsoDate(root, 'created_at'),
     },
   };
 }
 
+/**
+ * Names from the first of `keys` present on `root`: a string, or an array
+ * of strings or `{ name | full_name }` records.
+ */
+function readNameList(root: AnyRecord, keys: string[]): string[] {
+  for (const key of keys) {
+    const value = root[key];
+    // Free-text party fields list several names separated by ';' or newlines.
+    if (typeof value === 'string') return value.split(/[;\n]/).map((name) => name.trim()).filter(Boolean);
+    if (!Array.isArray(value)) continue;
+    return value
+      .map((entry) => {
+        if (typeof entry === 'string') return entry.trim();
+        if (isRecord(entry)) return readString(entry, 'name') ?? readString(entry, 'full_name') ?? '';
+        return '';
+      })
+      .filter(Boolean);
+  }
+  return [];
+}
+
+/** `conflict_check_names` from the enrichment submitIntake stores in custom_fields. */
+function readEnrichedConflictNames(metadata: AnyRecord): string[] {
+  const customFields = metadata.custom_fields ?? metadata.customFields;
+  const raw = isRecord(customFields) ? customFields._enriched_data : null;
+  if (typeof raw !== 'string') return [];
+  try {
+    const parsed = JSON.parse(raw) as unknown;
+    return isRecord(parsed) ? readNameList(parsed, ['conflict_check_names']) : [];
+  } catch {
+    return [];
+  }
+}
+
 function isRecord(v: unknown): v is AnyRecord {
   return v !== null && typeof v === 'object' && !Array.isArray(v);
 }
@@ -352,6 +405,8 @@ function normalizeConversation(root: AnyRecord): SearchIndexPayload {
       lifecycleStatus,
       archived:
         lifecycleStatus === 'archived' || status === 'closed' || status === 'archived',
+      clientName: contactName,
+      createdAt: readIsoDate(root, 'created_at'),
     },
   };
 }
@@ -374,6 +429,15 @@ function readString(obj: AnyRecord, key: string): string | null {
   return typeof val === 'string' && val.length > 0 ? val : null;
 }
 
+// Dates are stored as full ISO strings so the search query can compare
+// them lexically (created:/due: filters).
+function readIsoDate(obj: AnyRecord, key: string): string | null {
+  const raw = readString(obj, key);
+  if (!raw) return null;
+  const ms = Date.parse(raw);
+  return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+}
+
 function readNumber(obj: AnyRecord, key: string): number | null {
   const val = obj[key];
   return typeof val === 'number' && Number.isFinite(val) ? val : null;
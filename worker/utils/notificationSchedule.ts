@@ -0,0 +1,102 @@
+import type {
+  NotificationDigestFrequency,
+  NotificationHoldReason,
+  NotificationQueueMessage,
+  NotificationRecipientSnapshot
+} from '../types.js';
+import { isValidTimeZone, nextCronOccurrences } from './cron.js';
+
+/**
+ * Quiet hours and digest timing for push/email notifications.
+ *
+ * A notification is held when the recipient takes this category as a digest
+ * (released at the next digest time) or when it arrives inside their quiet
+ * hours (released when quiet hours end). Times are wall-clock in the
+ * recipient's timezone and evaluated with the report-schedule cron engine,
+ * so DST transitions behave the same way.
+ *
+ * Pure functions only; NotificationHoldService does the storage.
+ */
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** Digests go out at this time unless quiet hours end later in the morning. */
+export const DEFAULT_DIGEST_TIME = '08:00';
+/** Weekly digests go out on Mondays (cron day-of-week). */
+const WEEKLY_DIGEST_DAY = 1;
+
+export interface NotificationHoldDecision {
+  reason: NotificationHoldReason;
+  releaseAt: Date;
+}
+
+export const isValidClockTime = (value: unknown): value is string =>
+  typeof value === 'string' && TIME_PATTERN.test(value);
+
+/** Reads the backend `quiet_hours_*` preference keys. */
+export function parseQuietHours(
+  prefs: Record<string, unknown> | null | undefined
+): { start: string; end: string } | null {
+  if (prefs?.quiet_hours_enabled !== true) return null;
+  const start = prefs.quiet_hours_start;
+  const end = prefs.quiet_hours_end;
+  if (!isValidClockTime(start) || !isValidClockTime(end) || start === end) return null;
+  return { start, end };
+}
+
+export function parseNotificationTimeZone(value: unknown): string | null {
+  return typeof value === 'string' && isValidTimeZone(value) ? value : null;
+}
+
+export function parseDigestFrequency(value: unknown): NotificationDigestFrequency {
+  return value === 'daily' || value === 'weekly' ? value : 'off';
+}
+
+/**
+ * Emergency-urgency intakes reach the attorney immediately regardless of
+ * quiet hours or digests. The queue processor fills `metadata.urgency` from
+ * the conversation's intake when the message doesn't carry it.
+ */
+export function isHoldBreakthrough(message: NotificationQueueMessage): boolean {
+  if (message.category !== 'intake') return false;
+  const urgency = message.metadata?.urgency;
+  return urgency === 'emergency';
+}
+
+const nextWallTime = (time: string, timeZone: string, from: Date, dayOfWeek = '*'): Date | null => {
+  const [hour, minute] = time.split(':').map(Number);
+  const [next] = nextCronOccurrences(`${minute} ${hour} * * ${dayOfWeek}`, { timeZone, from });
+  return next ?? null;
+};
+
+export function resolveNotificationHold(
+  recipient: NotificationRecipientSnapshot,
+  message: NotificationQueueMessage,
+  now: Date
+): NotificationHoldDecision | null {
+  if (message.heldSummary || isHoldBreakthrough(message)) return null;
+
+  const prefs = recipient.preferences;
+  const timeZone = prefs?.timeZone ?? 'UTC';
+  const quietHours = prefs?.quietHours ?? null;
+  const digest = prefs?.digest ?? 'off';
+
+  if (digest !== 'off') {
+    // Landing the digest at the end of quiet hours (when they're set) keeps
+    // it from waking anyone and means one summary instead of two.
+    const time = quietHours?.end ?? DEFAULT_DIGEST_TIME;
+    const releaseAt = nextWallTime(time, timeZone, now, digest === 'weekly' ? String(WEEKLY_DIGEST_DAY) : '*');
+    return releaseAt ? { reason: 'digest', releaseAt } : null;
+  }
+
+  if (quietHours) {
+    const nextStart = nextWallTime(quietHours.start, timeZone, now);
+    const nextEnd = nextWallTime(quietHours.end, timeZone, now);
+    // Inside the window exactly when the window closes before it next opens.
+    if (nextStart && nextEnd && nextEnd < nextStart) {
+      return { reason: 'quiet_hours', releaseAt: nextEnd };
+    }
+  }
+
+  return null;
+}
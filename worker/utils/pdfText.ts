@@ -0,0 +1,313 @@
+/**
+ * Script-aware text layout for pdf-lib documents (case summary PDFs).
+ *
+ * pdf-lib draws one font per drawText call and wraps nothing, so this module
+ * does the parts it can't: picks a font face per script run, breaks lines at
+ * script-appropriate opportunities (Intl.Segmenter — dictionary-based for
+ * Thai, CJK and friends — instead of ASCII spaces), and orders directional
+ * runs for right-to-left paragraphs.
+ *
+ * Glyph shaping (Arabic joining, Devanagari conjuncts, Thai marks) and the
+ * glyph reversal inside an RTL run happen in fontkit when pdf-lib lays out a
+ * run with an embedded font, so runs are handed over in logical order.
+ *
+ * Pure functions only; PDFGenerationService loads and embeds the fonts.
+ */
+
+export type PdfDirection = 'ltr' | 'rtl';
+
+/** Font faces bundled as subset TTFs; one per script family. */
+export type PdfFontFace = 'sans' | 'arabic' | 'devanagari' | 'thai' | 'sc' | 'jp' | 'kr';
+
+type PdfScript = 'latin' | 'arabic' | 'devanagari' | 'thai' | 'han' | 'kana' | 'hangul' | 'common';
+
+export interface PdfFontFiles {
+  regular: string;
+  /** Null when the face ships a single weight; bold text falls back to regular. */
+  bold: string | null;
+}
+
+/**
+ * Subset font files in worker/assets/fonts/pdf, keyed by face; built by
+ * scripts/build-pdf-fonts.ts. Sans covers Latin (incl. Vietnamese), Greek and
+ * Cyrillic.
+ */
+export const PDF_FONT_FILES: Record<PdfFontFace, PdfFontFiles> = {
+  sans: { regular: 'NotoSans-Regular.subset.ttf', bold: 'NotoSans-Bold.subset.ttf' },
+  arabic: { regular: 'NotoSansArabic-Regular.subset.ttf', bold: 'NotoSansArabic-Bold.subset.ttf' },
+  devanagari: { regular: 'NotoSansDevanagari-Regular.subset.ttf', bold: 'NotoSansDevanagari-Bold.subset.ttf' },
+  thai: { regular: 'NotoSansThai-Regular.subset.ttf', bold: 'NotoSansThai-Bold.subset.ttf' },
+  sc: { regular: 'NotoSansSC-Regular.subset.ttf', bold: null },
+  jp: { regular: 'NotoSansJP-Regular.subset.ttf', bold: null },
+  kr: { regular: 'NotoSansKR-Regular.subset.ttf', bold: null },
+};
+
+export interface PdfLocaleProfile {
+  /** Face for the locale's own script; always embedded. */
+  face: PdfFontFace;
+  direction: PdfDirection;
+}
+
+/** Every locale under src/locales (AVAILABLE_LOCALES in src/shared/i18n). */
+export const PDF_LOCALE_PROFILES = {
+  en: { face: 'sans', direction: 'ltr' },
+  pt: { face: 'sans', direction: 'ltr' },
+  ar: { face: 'arabic', direction: 'rtl' },
+  es: { face: 'sans', direction: 'ltr' },
+  ja: { face: 'jp', direction: 'ltr' },
+  zh: { face: 'sc', direction: 'ltr' },
+  vi: { face: 'sans', direction: 'ltr' },
+  de: { face: 'sans', direction: 'ltr' },
+  fr: { face: 'sans', direction: 'ltr' },
+  hi: { face: 'devanagari', direction: 'ltr' },
+  uk: { face: 'sans', direction: 'ltr' },
+  id: { face: 'sans', direction: 'ltr' },
+  th: { face: 'thai', direction: 'ltr' },
+  ko: { face: 'kr', direction: 'ltr' },
+  pl: { face: 'sans', direction: 'ltr' },
+  it: { face: 'sans', direction: 'ltr' },
+  ru: { face: 'sans', direction: 'ltr' },
+  tr: { face: 'sans', direction: 'ltr' },
+  nl: { face: 'sans', direction: 'ltr' },
+} as const satisfies Record<string, PdfLocaleProfile>;
+
+export type PdfLocale = keyof typeof PDF_LOCALE_PROFILES;
+
+export const DEFAULT_PDF_LOCALE: PdfLocale = 'en';
+
+/** Normalises a BCP 47 tag ('pt-BR', 'zh_Hans') to a PDF locale; unknown tags fall back to English. */
+export const resolvePdfLocale = (locale?: string | null): PdfLocale => {
+  const base = (locale ?? '').trim().toLowerCase().split(/[-_]/)[0];
+  return base in PDF_LOCALE_PROFILES ? base as PdfLocale : DEFAULT_PDF_LOCALE;
+};
+
+const scriptOf = (codePoint: number): PdfScript => {
+  if ((codePoint >= 0x0600 && codePoint <= 0x06ff) || (codePoint >= 0x0750 && codePoint <= 0x077f)
+    || (codePoint >= 0x08a0 && codePoint <= 0x08ff) || (codePoint >= 0xfb50 && codePoint <= 0xfdff)
+    || (codePoint >= 0xfe70 && codePoint <= 0xfeff)) return 'arabic';
+  if ((codePoint >= 0x0900 && codePoint <= 0x097f) || (codePoint >= 0xa8e0 && codePoint <= 0xa8ff)) return 'devanagari';
+  if (codePoint >= 0x0e00 && codePoint <= 0x0e7f) return 'thai';
+  if ((codePoint >= 0x1100 && codePoint <= 0x11ff) || (codePoint >= 0x3130 && codePoint <= 0x318f)
+    || (codePoint >= 0xac00 && codePoint <= 0xd7af)) return 'hangul';
+  if ((codePoint >= 0x3040 && codePoint <= 0x30ff) || (codePoint >= 0x31f0 && codePoint <= 0x31ff)
+    || (codePoint >= 0xff66 && codePoint <= 0xff9f)) return 'kana';
+  // CJK punctuation and fullwidth forms count as Han so they get a CJK font.
+  if ((codePoint >= 0x3000 && codePoint <= 0x303f) || (codePoint >= 0x3400 && codePoint <= 0x4dbf)
+    || (codePoint >= 0x4e00 && codePoint <= 0x9fff) || (codePoint >= 0xf900 && codePoint <= 0xfaff)
+    || (codePoint >= 0xff00 && codePoint <= 0xff65) || codePoint >= 0x20000) return 'han';
+  // Letters of any other script (Latin, Greek, Cyrillic...) use the sans face;
+  // spaces, digits, punctuation and combining marks follow their neighbours.
+  if (/\p{L}/u.test(String.fromCodePoint(codePoint))) return 'latin';
+  return 'common';
+};
+
+const faceForScript = (script: Exclude<PdfScript, 'common'>, locale: PdfLocale): PdfFontFace => {
+  switch (script) {
+    case 'arabic': return 'arabic';
+    case 'devanagari': return 'devanagari';
+    case 'thai': return 'thai';
+    case 'hangul': return 'kr';
+    case 'kana': return 'jp';
+    // Han glyphs differ by region; follow the locale, Simplified otherwise.
+    case 'han': return locale === 'ja' ? 'jp' : locale === 'ko' ? 'kr' : 'sc';
+    default: return 'sans';
+  }
+};
+
+type BidiClass = 'L' | 'R' | 'N';
+
+const bidiClassOf = (codePoint: number): BidiClass => {
+  // Hebrew and Arabic letters are strong RTL. Arabic-Indic digits are numbers
+  // and, like ASCII digits, keep left-to-right order.
+  if (codePoint >= 0x0660 && codePoint <= 0x0669) return 'L';
+  if (codePoint >= 0x06f0 && codePoint <= 0x06f9) return 'L';
+  if ((codePoint >= 0x0590 && codePoint <= 0x05ff) || scriptOf(codePoint) === 'arabic'
+    || (codePoint >= 0xfb1d && codePoint <= 0xfb4f)) return 'R';
+  const char = String.fromCodePoint(codePoint);
+  if (/[\p{L}\p{Nd}]/u.test(char)) return 'L';
+  return 'N';
+};
+
+/** Direction of a paragraph: that of its first strong character (UAX #9 rules P2–P3). */
+export const paragraphDirection = (text: string): PdfDirection => {
+  for (const char of text) {
+    const cls = bidiClassOf(char.codePointAt(0) ?? 0);
+    // Digits are weak in UAX #9; skip them when picking the paragraph direction.
+    if (cls === 'R') return 'rtl';
+    if (cls === 'L' && !/\p{Nd}/u.test(char)) return 'ltr';
+  }
+  return 'ltr';
+};
+
+/** Font face per character: neutrals take the previous script's face, else the next one's. */
+const assignFaces = (chars: string[], locale: PdfLocale): PdfFontFace[] => {
+  const scripts = chars.map((char) => scriptOf(char.codePointAt(0) ?? 0));
+  const faces: Array<PdfFontFace | null> = scripts.map((script) => (script === 'common' ? null : faceForScript(script, locale)));
+  let previous: PdfFontFace | null = null;
+  for (let index = 0; index < faces.length; index++) {
+    if (faces[index]) previous = faces[index];
+    else if (previous) faces[index] = previous;
+  }
+  const firstFace = faces.find((face): face is PdfFontFace => Boolean(face)) ?? PDF_LOCALE_PROFILES[locale].face;
+  return faces.map((face) => face ?? firstFace);
+};
+
+export interface PdfTextRun {
+  text: string;
+  face: PdfFontFace;
+}
+
+const groupRuns = <K>(chars: string[], keys: K[], same: (a: K, b: K) => boolean): Array<{ text: string; key: K }> => {
+  const runs: Array<{ text: string; key: K }> = [];
+  chars.forEach((char, index) => {
+    const last = runs[runs.length - 1];
+    if (last && same(last.key, keys[index])) last.text += char;
+    else runs.push({ text: char, key: keys[index] });
+  });
+  return runs;
+};
+
+/** Splits text into consecutive runs that share a font face, in logical order. */
+export const splitFontRuns = (text: string, locale: PdfLocale): PdfTextRun[] => {
+  const chars = Array.from(text);
+  return groupRuns(chars, assignFaces(chars, locale), (a, b) => a === b)
+    .map(({ text: runText, key }) => ({ text: runText, face: key }));
+};
+
+/** Faces needed to draw all of `texts`, plus the locale's own face. */
+export const fontFacesForTexts = (texts: string[], locale: PdfLocale): Set<PdfFontFace> => {
+  const faces = new Set<PdfFontFace>([PDF_LOCALE_PROFILES[locale].face]);
+  for (const text of texts) {
+    for (const run of splitFontRuns(text, locale)) faces.add(run.face);
+  }
+  return faces;
+};
+
+export interface PdfVisualRun extends PdfTextRun {
+  rtl: boolean;
+}
+
+/**
+ * Orders one line's runs left-to-right for drawing. Neutrals between two runs
+ * of the same direction join them; other neutrals take the paragraph
+ * direction. In an RTL paragraph the directional runs are drawn in reverse;
+ * each run keeps its logical text and fontkit reverses RTL glyphs itself.
+ */
+export const visualRuns = (line: string, locale: PdfLocale, direction: PdfDirection = paragraphDirection(line)): PdfVisualRun[] => {
+  const chars = Array.from(line);
+  const classes = chars.map((char) => bidiClassOf(char.codePointAt(0) ?? 0));
+  const paragraph: Exclude<BidiClass, 'N'> = direction === 'rtl' ? 'R' : 'L';
+  const resolved = classes.map((cls, index): Exclude<BidiClass, 'N'> => {
+    if (cls !== 'N') return cls;
+    const before = classes.slice(0, index).reverse().find((value) => value !== 'N') ?? paragraph;
+    const after = classes.slice(index + 1).find((value) => value !== 'N') ?? paragraph;
+    return before === after ? before : paragraph;
+  });
+  const faces = assignFaces(chars, locale);
+
+  const directional = groupRuns(chars, resolved, (a, b) => a === b);
+  let offset = 0;
+  const ordered = directional.map(({ text, key }) => {
+    const runChars = Array.from(text);
+    const runFaces = faces.slice(offset, offset + runChars.length);
+    offset += runChars.length;
+    const rtl = key === 'R';
+    const runs = groupRuns(runChars, runFaces, (a, b) => a === b).map(({ text: runText, key: face }) => ({
+      // fontkit treats Arabic-Indic digits as Arabic script and would reverse
+      // them; pre-reverse so the number reads left-to-right after layout.
+      text: !rtl && /[٠-٩۰-۹]/.test(runText) ? Array.from(runText).reverse().join('') : runText,
+      face,
+      rtl,
+    }));
+    return rtl ? runs.reverse() : runs;
+  });
+  if (direction === 'rtl') ordered.reverse();
+  return ordered.flat();
+};
+
+// Line breaking --------------------------------------------------------------
+
+// Characters that must not start a line (closing punctuation, CJK small kana
+// and prolonged sound marks) or end one (opening brackets and quotes).
+const NO_BREAK_BEFORE = /^[\s)\]}>,.;:!?%’”»\-–—…、。，．：；！？）」』】〕〉》〗〙〛・ーぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮヵヶ]/u;
+const NO_BREAK_AFTER = /[([{<'"‘“«（「『【〔〈《〖〘〚]$/u;
+
+const segmentText = (text: string, locale: PdfLocale, granularity: 'word' | 'grapheme'): string[] => {
+  if (typeof Intl.Segmenter === 'function') {
+    return Array.from(new Intl.Segmenter(locale, { granularity }).segment(text), (segment) => segment.segment);
+  }
+  return granularity === 'grapheme' ? Array.from(text) : text.split(/(?<=\s)/);
+};
+
+/** Unbreakable units: word segments with punctuation and trailing spaces glued on per the rules above. */
+const breakUnits = (text: string, locale: PdfLocale): string[] => {
+  const units: string[] = [];
+  let glueNext = false;
+  for (const segment of segmentText(text, locale, 'word')) {
+    const last = units.length - 1;
+    if (last >= 0 && (glueNext || NO_BREAK_BEFORE.test(segment))) units[last] += segment;
+    else units.push(segment);
+    glueNext = NO_BREAK_AFTER.test(segment);
+  }
+  return units;
+};
+
+/**
+ * Wraps `text` to `maxWidth` (as measured by `measure`) in logical order.
+ * Newlines are hard breaks; a unit wider than a whole line is broken between
+ * graphemes.
+ */
+export const wrapPdfText = (
+  text: string,
+  maxWidth: number,
+  measure: (text: string) => number,
+  locale: PdfLocale,
+): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    const pushLine = () => {
+      lines.push(line.trimEnd());
+      line = '';
+    };
+    for (const unit of breakUnits(paragraph, locale)) {
+      const candidate = line + unit;
+      if (!line || measure(candidate.trimEnd()) <= maxWidth) {
+        line = candidate;
+      } else {
+        pushLine();
+        line = unit.trimStart();
+      }
+      while (measure(line.trimEnd()) > maxWidth) {
+        const graphemes = segmentText(line, locale, 'grapheme');
+        let fit = 1;
+        while (fit < graphemes.length && measure(graphemes.slice(0, fit + 1).join('')) <= maxWidth) fit++;
+        if (fit >= graphemes.length) break;
+        line = graphemes.slice(0, fit).join('');
+        pushLine();
+        line = graphemes.slice(fit).join('').trimStart();
+      }
+    }
+    pushLine();
+  }
+  return lines;
+};
+
+// Standard-font fallback -----------------------------------------------------
+
+// Non-Latin-1 characters WinAnsi (Helvetica's encoding) can still represent.
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+/**
+ * Replaces characters Helvetica can't encode with '?'. Used only when a face's
+ * font file can't be loaded, so the PDF degrades instead of throwing.
+ */
+export const toWinAnsi = (text: string): string =>
+  Array.from(text.normalize('NFC'), (char) => {
+    const codePoint = char.codePointAt(0) ?? 0;
+    if (codePoint === 0x09 || codePoint === 0x0a) return ' ';
+    if ((codePoint >= 0x20 && codePoint <= 0x7e) || (codePoint >= 0xa0 && codePoint <= 0xff) || WIN_ANSI_EXTRAS.has(char)) {
+      return char;
+    }
+    return '?';
+  }).join('');
@@ -0,0 +1,110 @@
+/**
+ * Optimistic concurrency for record saves that pass through the backend
+ * proxy. The version of a record is its `updated_at`; a save that sends
+ * `If-Match: <updated_at>` is only forwarded while the record still carries
+ * that version. Otherwise the proxy answers 409 listing the fields where the
+ * save differs from the current version, so a stale tab doesn't silently
+ * clobber someone else's edit.
+ *
+ * This is best-effort: the proxy reads the record and then forwards the
+ * save, and the backend does not check the version itself, so a write that
+ * lands between the read and the save still goes through. It catches tabs
+ * left open on an old version, not two saves racing each other.
+ *
+ * Saves without If-Match are forwarded unchanged (MCP tools, older clients).
+ */
+import type { PresenceResourceKind, StaleWriteChange } from '../types/wire/presence.js';
+
+interface VersionedRecordRoute {
+  kind: PresenceResourceKind;
+  re: RegExp;
+  /** Keys the backend may wrap the record in (`{ data: { matter: {…} } }`). */
+  envelopeKeys: readonly string[];
+}
+
+const VERSIONED_RECORD_ROUTES: readonly VersionedRecordRoute[] = [
+  { kind: 'matter', re: /^\/api\/matters\/[^/]+\/([^/]+)$/, envelopeKeys: ['matter'] },
+  { kind: 'invoice', re: /^\/api\/invoices\/[^/]+\/([^/]+)$/, envelopeKeys: ['invoice'] },
+];
+
+// Collection paths that share the `/:practiceId/:segment` shape with records.
+const NON_RECORD_SEGMENTS = new Set(['client', 'refund-requests']);
+
+// Server-maintained fields; never part of a stale-write diff.
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+export interface VersionedRecord {
+  kind: PresenceResourceKind;
+  /** Presence resource key, e.g. `matter:123`. */
+  resource: string;
+  envelopeKeys: readonly string[];
+}
+
+/** The record a PUT/PATCH targets, when that record is versioned. */
+export const versionedRecordForPath = (method: string, pathname: string): VersionedRecord | null => {
+  const upper = method.toUpperCase();
+  if (upper !== 'PUT' && upper !== 'PATCH') return null;
+  for (const route of VERSIONED_RECORD_ROUTES) {
+    const match = pathname.match(route.re);
+    if (!match) continue;
+    let recordId: string;
+    try {
+      recordId = decodeURIComponent(match[1]);
+    } catch {
+      return null;
+    }
+    if (NON_RECORD_SEGMENTS.has(recordId)) return null;
+    return { kind: route.kind, resource: `${route.kind}:${recordId}`, envelopeKeys: route.envelopeKeys };
+  }
+  return null;
+};
+
+/** The version named by an If-Match header; null for absent or `*`. */
+export const parseIfMatch = (header: string | null): string | null => {
+  const value = header?.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1').trim() ?? '';
+  return value && value !== '*' ? value : null;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/** Unwrap the backend's `{ success, data }` and `{ matter: … }` envelopes. */
+export const extractVersionedRecord = (
+  json: unknown,
+  envelopeKeys: readonly string[],
+): Record<string, unknown> | null => {
+  const data = isPlainObject(json) && 'data' in json ? json.data : json;
+  if (!isPlainObject(data)) return null;
+  for (const key of envelopeKeys) {
+    if (isPlainObject(data[key])) return data[key];
+  }
+  return 'id' in data ? data : null;
+};
+
+export const recordVersion = (record: Record<string, unknown>): string | null =>
+  typeof record.updated_at === 'string' && record.updated_at ? record.updated_at : null;
+
+/** Timestamps compare by instant so `…Z` and `…+00:00` spellings agree. */
+export const versionsMatch = (expected: string, current: string): boolean => {
+  const expectedMs = Date.parse(expected);
+  const currentMs = Date.parse(current);
+  if (Number.isFinite(expectedMs) && Number.isFinite(currentMs)) return expectedMs === currentMs;
+  return expected === current;
+};
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Fields in the rejected save whose value differs from the record as it is
+ * now. Only the current version is known here, not the one the tab loaded,
+ * so this includes the caller's own edits as well as fields someone else
+ * changed.
+ */
+export const diffStaleWrite = (payload: unknown, current: Record<string, unknown>): StaleWriteChange[] => {
+  if (!isPlainObject(payload)) return [];
+  return Object.keys(payload)
+    .filter((field) => !IGNORED_FIELDS.has(field) && !sameValue(payload[field], current[field]))
+    .sort()
+    .map((field) => ({ field, yours: payload[field], theirs: current[field] ?? null }));
+};
@@ -0,0 +1,48 @@
+/**
+ * Report export formats. Every format renders from the same column
+ * definitions (see csv.ts), so a report only declares its columns once.
+ */
+
+import { toCsv, type CsvColumn } from './csv.js';
+import { PDF_CONTENT_TYPE, toReportPdf } from './reportPdf.js';
+import { XLSX_CONTENT_TYPE, toXlsx } from './xlsx.js';
+
+export type ReportExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const REPORT_EXPORT_FORMATS: readonly ReportExportFormat[] = ['csv', 'xlsx', 'pdf'];
+
+export const REPORT_CONTENT_TYPES: Record<ReportExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: XLSX_CONTENT_TYPE,
+  pdf: PDF_CONTENT_TYPE,
+};
+
+export const isReportExportFormat = (value: unknown): value is ReportExportFormat =>
+  typeof value === 'string' && (REPORT_EXPORT_FORMATS as readonly string[]).includes(value);
+
+export interface ReportRenderOptions {
+  /** Human-readable report name, used as the PDF title and XLSX sheet name. */
+  title: string;
+  subtitle?: string;
+  practiceName?: string;
+  brandColor?: string;
+  generatedAt?: Date;
+  /** Column key to subtotal by in XLSX/PDF totals, e.g. 'currency' for mixed-currency reports. */
+  subtotalBy?: string;
+}
+
+export const renderReport = <TRow extends Record<string, unknown>>(
+  format: ReportExportFormat,
+  rows: TRow[],
+  columns: CsvColumn<TRow>[],
+  options: ReportRenderOptions
+): Uint8Array => {
+  switch (format) {
+    case 'csv':
+      return new TextEncoder().encode(toCsv(rows, columns));
+    case 'xlsx':
+      return toXlsx(rows, columns, { sheetName: options.title, subtotalBy: options.subtotalBy });
+    case 'pdf':
+      return toReportPdf(rows, columns, options);
+  }
+};
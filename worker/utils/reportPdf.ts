@@ -0,0 +1,333 @@
+/**
+ * Branded, paginated PDF table for report exports.
+ *
+ * Writes PDF 1.4 directly: the built-in Helvetica fonts (WinAnsi encoding)
+ * are enough for tabular report data, so there is nothing to embed and no
+ * runtime dependency. Pages are US Letter landscape; the practice header,
+ * table header row and footer repeat on every page, and columns flagged
+ * `total` are summed into a bold totals row at the end (one row per group
+ * value when `subtotalBy` is set).
+ */
+
+import { columnTotals, groupedColumnTotals, resolveCell, type CsvColumn, type ReportCell } from './csv.js';
+
+export const PDF_CONTENT_TYPE = 'application/pdf';
+
+export interface ReportPdfOptions {
+  title: string;
+  /** Filter summary shown under the title, e.g. "2026-01-01 to 2026-03-31". */
+  subtitle?: string;
+  practiceName?: string;
+  /** Hex colour (#RGB or #RRGGBB) for the header band and table header. */
+  brandColor?: string;
+  generatedAt?: Date;
+  totalsLabel?: string;
+  /** Column key to subtotal by (e.g. 'currency') instead of one grand total. */
+  subtotalBy?: string;
+}
+
+type Rgb = readonly [number, number, number];
+type FontKey = 'F1' | 'F2';
+
+const PAGE_WIDTH = 792;
+const PAGE_HEIGHT = 612;
+const MARGIN = 36;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADER_BLOCK_HEIGHT = 64;
+const FOOTER_HEIGHT = 24;
+const ROW_HEIGHT = 16;
+const CELL_PADDING = 4;
+const BODY_SIZE = 8.5;
+const MIN_TEXT_COLUMN_WIDTH = 48;
+const DEFAULT_BRAND_COLOR = '#334e68';
+
+const INK: Rgb = [0.1, 0.1, 0.1];
+const MUTED: Rgb = [0.42, 0.45, 0.5];
+const ZEBRA: Rgb = [0.96, 0.965, 0.97];
+const RULE: Rgb = [0.8, 0.82, 0.85];
+const WHITE: Rgb = [1, 1, 1];
+
+// Helvetica / Helvetica-Bold advance widths (1/1000 em) for ASCII 32-126.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const FALLBACK_WIDTH = 556;
+
+// Characters outside Latin-1 that WinAnsiEncoding can still represent.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+const ELLIPSIS = '…';
+
+/** Maps text to single-byte WinAnsi characters; unsupported characters become '?'. */
+const toWinAnsi = (text: string): string => {
+  let out = '';
+  for (const ch of text.replace(/[\r\n\t]+/g, ' ')) {
+    const code = ch.codePointAt(0) ?? 63;
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) out += ch;
+    else if (WIN_ANSI_EXTRAS[ch] !== undefined) out += String.fromCharCode(WIN_ANSI_EXTRAS[ch]);
+    else out += '?';
+  }
+  return out;
+};
+
+/** Width in points of WinAnsi-mapped text. */
+const textWidth = (encoded: string, font: FontKey, size: number): number => {
+  const widths = font === 'F2' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (let i = 0; i < encoded.length; i += 1) {
+    const code = encoded.charCodeAt(i);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : FALLBACK_WIDTH;
+  }
+  return (units * size) / 1000;
+};
+
+const truncateToWidth = (encoded: string, font: FontKey, size: number, maxWidth: number): string => {
+  if (textWidth(encoded, font, size) <= maxWidth) return encoded;
+  const ellipsis = toWinAnsi(ELLIPSIS);
+  let end = encoded.length;
+  while (end > 0 && textWidth(encoded.slice(0, end) + ellipsis, font, size) > maxWidth) end -= 1;
+  return end > 0 ? encoded.slice(0, end) + ellipsis : '';
+};
+
+const escapePdfString = (encoded: string): string => encoded.replace(/[\\()]/g, (ch) => `\\${ch}`);
+
+const num = (value: number): string => {
+  const rounded = Math.round(value * 100) / 100;
+  return Number.isInteger(rounded) ? String(rounded) : rounded.toFixed(2);
+};
+
+const parseHexColor = (hex: string | undefined): Rgb => {
+  let digits = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(hex ?? '')?.[1] ?? DEFAULT_BRAND_COLOR.slice(1);
+  if (digits.length === 3) digits = digits.split('').map((d) => d + d).join('');
+  const channel = (i: number) => parseInt(digits.slice(i, i + 2), 16) / 255;
+  return [channel(0), channel(2), channel(4)];
+};
+
+const isLightColor = ([r, g, b]: Rgb): boolean => 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.6;
+
+const currencyFormatter = new Intl.NumberFormat('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const numberFormatter = new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 });
+
+const cellText = (cell: ReportCell): string => {
+  switch (cell.kind) {
+    case 'empty': return '';
+    case 'text': return cell.text;
+    case 'number': return (cell.type === 'currency' ? currencyFormatter : numberFormatter).format(cell.value);
+    case 'date': return cell.date.toISOString().slice(0, 10);
+  }
+};
+
+const isRightAligned = (type: CsvColumn<Record<string, unknown>>['type']): boolean =>
+  type === 'number' || type === 'currency';
+
+/**
+ * Natural column widths (widest header/cell plus padding), fitted to the page.
+ * Numeric and date columns keep their natural width; text columns share what
+ * is left. If even that doesn't fit, everything is scaled down.
+ */
+const layoutColumns = (
+  headers: string[],
+  body: string[][],
+  types: Array<CsvColumn<Record<string, unknown>>['type']>
+): number[] => {
+  const natural = headers.map((header, i) => {
+    let widest = textWidth(header, 'F2', BODY_SIZE);
+    for (const row of body) widest = Math.max(widest, textWidth(row[i], 'F2', BODY_SIZE));
+    return widest + CELL_PADDING * 2;
+  });
+  const total = natural.reduce((sum, w) => sum + w, 0);
+  if (total <= CONTENT_WIDTH) {
+    const extra = (CONTENT_WIDTH - total) / natural.length;
+    return natural.map((w) => w + extra);
+  }
+  const isText = types.map((type) => (type ?? 'text') === 'text');
+  const fixed = natural.reduce((sum, w, i) => (isText[i] ? sum : sum + w), 0);
+  const textNatural = total - fixed;
+  const textBudget = CONTENT_WIDTH - fixed;
+  if (textNatural > 0 && textBudget >= MIN_TEXT_COLUMN_WIDTH * isText.filter(Boolean).length) {
+    return natural.map((w, i) => (isText[i] ? Math.max(MIN_TEXT_COLUMN_WIDTH, (w / textNatural) * textBudget) : w));
+  }
+  return natural.map((w) => (w / total) * CONTENT_WIDTH);
+};
+
+class PageCanvas {
+  readonly ops: string[] = [];
+
+  fillRect(x: number, y: number, w: number, h: number, color: Rgb): void {
+    this.ops.push(`${color.map(num).join(' ')} rg ${num(x)} ${num(y)} ${num(w)} ${num(h)} re f`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: Rgb, width = 0.5): void {
+    this.ops.push(`${color.map(num).join(' ')} RG ${num(width)} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  }
+
+  /** Draws already-encoded WinAnsi text. */
+  text(encoded: string, x: number, y: number, font: FontKey, size: number, color: Rgb): void {
+    if (!encoded) return;
+    this.ops.push(`BT /${font} ${num(size)} Tf ${color.map(num).join(' ')} rg ${num(x)} ${num(y)} Td (${escapePdfString(encoded)}) Tj ET`);
+  }
+
+  /** Draws text clipped to a cell, left- or right-aligned. */
+  cell(encoded: string, x: number, width: number, y: number, font: FontKey, color: Rgb, alignRight: boolean): void {
+    const fitted = truncateToWidth(encoded, font, BODY_SIZE, width - CELL_PADDING * 2);
+    const tx = alignRight ? x + width - CELL_PADDING - textWidth(fitted, font, BODY_SIZE) : x + CELL_PADDING;
+    this.text(fitted, tx, y + (ROW_HEIGHT - BODY_SIZE) / 2 + 1.5, font, BODY_SIZE, color);
+  }
+}
+
+const pdfDate = (date: Date): string =>
+  `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+/** Serializes objects (1-indexed, in order) into a PDF file with an xref table. */
+const assemblePdf = (objects: string[], infoRef: number): Uint8Array => {
+  let out = '%PDF-1.4\n%âãÏÓ\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(out.length);
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  for (const offset of offsets) out += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoRef} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  const bytes = new Uint8Array(out.length);
+  for (let i = 0; i < out.length; i += 1) bytes[i] = out.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+export const toReportPdf = <TRow extends Record<string, unknown>>(
+  rows: TRow[],
+  columns: CsvColumn<TRow>[],
+  options: ReportPdfOptions
+): Uint8Array => {
+  const brand = parseHexColor(options.brandColor);
+  const onBrand = isLightColor(brand) ? INK : WHITE;
+  const generatedAt = options.generatedAt ?? new Date();
+
+  const headers = columns.map((col) => toWinAnsi(col.header));
+  const body = rows.map((row) => columns.map((col) => toWinAnsi(cellText(resolveCell(row, col)))));
+  const label = options.totalsLabel ?? 'Total';
+  const totalSets = rows.length === 0
+    ? []
+    : options.subtotalBy
+      ? groupedColumnTotals(rows, columns, options.subtotalBy)
+        .map(({ group, totals }) => ({ label: `${label} ${group}`.trim(), totals }))
+      : [{ label, totals: columnTotals(rows, columns) }];
+  const totalsRows = totalSets
+    .filter(({ totals }) => totals.some((total) => total !== null))
+    .map(({ label: rowLabel, totals }) => columns.map((col, i) => {
+      const total = totals[i];
+      if (total === null) return i === 0 ? toWinAnsi(rowLabel) : '';
+      return toWinAnsi(cellText({ kind: 'number', value: total, type: col.type === 'currency' ? 'currency' : 'number' }));
+    }));
+  const types = columns.map((col) => col.type);
+  const widths = layoutColumns(headers, [...body, ...totalsRows], types);
+  const alignRight = types.map(isRightAligned);
+
+  const tableTop = PAGE_HEIGHT - MARGIN - HEADER_BLOCK_HEIGHT;
+  const rowsPerPage = Math.max(1, Math.floor((tableTop - ROW_HEIGHT - MARGIN - FOOTER_HEIGHT) / ROW_HEIGHT));
+  // Totals rows take slots on the last page.
+  const slots = body.length + totalsRows.length;
+  const pageCount = Math.max(1, Math.ceil(slots / rowsPerPage));
+
+  const title = toWinAnsi(options.title);
+  const practiceName = toWinAnsi(options.practiceName ?? '');
+  const subtitle = toWinAnsi(options.subtitle ?? '');
+  const generatedLabel = `Generated ${generatedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+  const pages: string[] = [];
+  for (let page = 0; page < pageCount; page += 1) {
+    const canvas = new PageCanvas();
+
+    // Practice header
+    canvas.fillRect(0, PAGE_HEIGHT - 6, PAGE_WIDTH, 6, brand);
+    let y = PAGE_HEIGHT - MARGIN - 4;
+    if (practiceName) {
+      canvas.text(truncateToWidth(practiceName, 'F2', 10, CONTENT_WIDTH), MARGIN, y, 'F2', 10, MUTED);
+      y -= 20;
+    }
+    canvas.text(truncateToWidth(title, 'F2', 16, CONTENT_WIDTH), MARGIN, y, 'F2', 16, brand);
+    y -= 14;
+    if (subtitle) canvas.text(truncateToWidth(subtitle, 'F1', 9, CONTENT_WIDTH), MARGIN, y, 'F1', 9, MUTED);
+
+    // Table header
+    let rowY = tableTop - ROW_HEIGHT;
+    canvas.fillRect(MARGIN, rowY, CONTENT_WIDTH, ROW_HEIGHT, brand);
+    let x = MARGIN;
+    headers.forEach((header, i) => {
+      canvas.cell(header, x, widths[i], rowY, 'F2', onBrand, alignRight[i]);
+      x += widths[i];
+    });
+
+    const start = page * rowsPerPage;
+    const pageRows = body.slice(start, start + rowsPerPage);
+    pageRows.forEach((cells, index) => {
+      rowY -= ROW_HEIGHT;
+      if ((start + index) % 2 === 1) canvas.fillRect(MARGIN, rowY, CONTENT_WIDTH, ROW_HEIGHT, ZEBRA);
+      let cx = MARGIN;
+      cells.forEach((text, i) => {
+        canvas.cell(text, cx, widths[i], rowY, 'F1', INK, alignRight[i]);
+        cx += widths[i];
+      });
+    });
+
+    if (rows.length === 0 && page === 0) {
+      rowY -= ROW_HEIGHT;
+      canvas.text(toWinAnsi('No rows match these filters.'), MARGIN + CELL_PADDING, rowY + 5, 'F1', BODY_SIZE, MUTED);
+    }
+
+    if (page === pageCount - 1) {
+      totalsRows.forEach((totalsRow, index) => {
+        rowY -= ROW_HEIGHT;
+        if (index === 0) canvas.line(MARGIN, rowY + ROW_HEIGHT, MARGIN + CONTENT_WIDTH, rowY + ROW_HEIGHT, INK, 0.75);
+        let cx = MARGIN;
+        totalsRow.forEach((text, i) => {
+          canvas.cell(text, cx, widths[i], rowY, 'F2', INK, alignRight[i]);
+          cx += widths[i];
+        });
+      });
+    }
+
+    // Footer
+    canvas.line(MARGIN, MARGIN + 12, PAGE_WIDTH - MARGIN, MARGIN + 12, RULE);
+    canvas.text(toWinAnsi(generatedLabel), MARGIN, MARGIN, 'F1', 8, MUTED);
+    const pageLabel = `Page ${page + 1} of ${pageCount}`;
+    canvas.text(pageLabel, PAGE_WIDTH - MARGIN - textWidth(pageLabel, 'F1', 8), MARGIN, 'F1', 8, MUTED);
+
+    pages.push(canvas.ops.join('\n'));
+  }
+
+  // 1 catalog, 2 pages, 3-4 fonts, 5 info, then a page + content pair per page.
+  const firstPageRef = 6;
+  const pageRefs = pages.map((_, i) => firstPageRef + i * 2);
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageRefs.map((ref) => `${ref} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapePdfString(title)}) /Producer (Blawby) /CreationDate (${pdfDate(generatedAt)}) >>`,
+  ];
+  pages.forEach((content, i) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageRefs[i] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+  return assemblePdf(objects, 5);
+};
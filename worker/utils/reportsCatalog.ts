@@ -75,6 +75,24 @@ export const REPORT_CATALOG: readonly ReportCatalogEntry[] = [
     subtitle: 'IOLTA balance and transactions',
     tags: ['trust', 'iolta', 'retainer', 'escrow'],
   },
+  {
+    id: 'trust-reconciliation',
+    title: 'Three-Way Reconciliation',
+    subtitle: 'Bank, trust ledger and client ledgers',
+    tags: ['reconciliation', 'reconcile', 'three-way', 'bank statement', 'trust', 'iolta'],
+  },
+  {
+    id: 'intake-funnel',
+    title: 'Intake Funnel',
+    subtitle: 'Template uses, drop-off and conversion',
+    tags: ['intake', 'funnel', 'conversion', 'drop-off', 'abandoned', 'template', 'leads'],
+  },
+  {
+    id: 'ai-usage',
+    title: 'AI Usage',
+    subtitle: 'Tokens by feature and model against the monthly budget',
+    tags: ['ai', 'usage', 'tokens', 'budget', 'model', 'cost', 'metering'],
+  },
   {
     id: 'deliveries',
     title: 'Report Deliveries',
@@ -0,0 +1,202 @@
+import type {
+  TrustComplianceRule,
+  TrustCompliancePreferences,
+  TrustRuleOutcome,
+} from '../types/wire/trustCompliance.js';
+
+/**
+ * Trust account compliance rules, as pure functions over a practice's
+ * preferences and a balance movement or staged action. Every rule that
+ * applies to the subject returns a result — including `disabled` ones — so
+ * the caller can log the full evaluation for bar audits.
+ *
+ *   auto_replenish   balance drops below the threshold → request replenishment
+ *   threshold_alert  balance crosses the threshold either way → alert
+ *   lock_on_zero     balance at or below zero → matter locked for staged actions
+ *   dual_approval    trust withdrawal over the threshold, or of an amount
+ *                    that cannot be read → two approvers
+ *
+ * Thresholds compare in cents. Crossing rules fire once per crossing, not on
+ * every transaction while the balance stays below.
+ */
+
+export const DEFAULT_TRUST_COMPLIANCE_PREFERENCES: TrustCompliancePreferences = {
+  version: 0,
+  autoReplenishEnabled: true,
+  autoReplenishThresholdCents: 100_000,
+  alertEnabled: true,
+  alertThresholdCents: 100_000,
+  dualApprovalEnabled: false,
+  dualApprovalThresholdCents: 500_000,
+  lockOnZeroEnabled: false,
+  notifyUserIds: [],
+  updatedBy: null,
+  updatedAt: null,
+};
+
+export const DUAL_APPROVAL_APPROVALS = 2;
+
+export interface TrustRuleResult {
+  rule: TrustComplianceRule;
+  outcome: TrustRuleOutcome;
+  balanceCents: number | null;
+  thresholdCents: number | null;
+  detail: Record<string, unknown>;
+}
+
+export interface TrustBalanceMovement {
+  balanceBeforeCents: number;
+  balanceAfterCents: number;
+}
+
+/** What a staged action means for trust rules, read off its payload by the caller. */
+export interface StagedTrustSubject {
+  /** The matter the action changes, when it changes one. */
+  matterId: string | null;
+  /** Set when the action records a trust ledger transaction; `amountCents` is null when the payload's amount does not parse. */
+  trustTransaction: { type: string; amountCents: number | null } | null;
+}
+
+export const isTrustDeposit = (type: string): boolean => type.trim().toLowerCase() === 'deposit';
+
+export const evaluateLedgerRules = (
+  preferences: TrustCompliancePreferences,
+  movement: TrustBalanceMovement,
+): TrustRuleResult[] => {
+  const before = movement.balanceBeforeCents;
+  const after = movement.balanceAfterCents;
+  const results: TrustRuleResult[] = [];
+
+  const replenishAt = preferences.autoReplenishThresholdCents;
+  if (!preferences.autoReplenishEnabled) {
+    results.push({ rule: 'auto_replenish', outcome: 'disabled', balanceCents: after, thresholdCents: replenishAt, detail: {} });
+  } else if (before >= replenishAt && after < replenishAt) {
+    results.push({
+      rule: 'auto_replenish',
+      outcome: 'triggered',
+      balanceCents: after,
+      thresholdCents: replenishAt,
+      detail: { balanceBeforeCents: before, shortfallCents: replenishAt - after },
+    });
+  } else {
+    results.push({
+      rule: 'auto_replenish',
+      outcome: 'passed',
+      balanceCents: after,
+      thresholdCents: replenishAt,
+      detail: { balanceBeforeCents: before, reason: after < replenishAt ? 'already_below' : 'above_threshold' },
+    });
+  }
+
+  const alertAt = preferences.alertThresholdCents;
+  const crossedDown = before >= alertAt && after < alertAt;
+  const crossedUp = before < alertAt && after >= alertAt;
+  if (!preferences.alertEnabled) {
+    results.push({ rule: 'threshold_alert', outcome: 'disabled', balanceCents: after, thresholdCents: alertAt, detail: {} });
+  } else {
+    results.push({
+      rule: 'threshold_alert',
+      outcome: crossedDown || crossedUp ? 'triggered' : 'passed',
+      balanceCents: after,
+      thresholdCents: alertAt,
+      detail: crossedDown || crossedUp
+        ? { balanceBeforeCents: before, direction: crossedDown ? 'down' : 'up' }
+        : { balanceBeforeCents: before },
+    });
+  }
+
+  if (!preferences.lockOnZeroEnabled) {
+    results.push({ rule: 'lock_on_zero', outcome: 'disabled', balanceCents: after, thresholdCents: 0, detail: {} });
+  } else if (after <= 0) {
+    results.push({
+      rule: 'lock_on_zero',
+      outcome: 'triggered',
+      balanceCents: after,
+      thresholdCents: 0,
+      detail: { balanceBeforeCents: before, locked: true, newlyLocked: before > 0 },
+    });
+  } else {
+    results.push({
+      rule: 'lock_on_zero',
+      outcome: 'passed',
+      balanceCents: after,
+      thresholdCents: 0,
+      detail: { balanceBeforeCents: before, locked: false, unlocked: before <= 0 },
+    });
+  }
+
+  return results;
+};
+
+export interface StagedActionRuleEvaluation {
+  results: TrustRuleResult[];
+  /** Minimum approvals the rules require, or null when they add none. */
+  approvals: number | null;
+  /** Why the action may not proceed, or null. */
+  blockedReason: string | null;
+}
+
+/**
+ * Evaluates a staged action. `balanceCents` is the matter's last known trust
+ * balance, or null when no ledger event has reported one. Deposits are
+ * always allowed on a locked matter — they are how it gets unlocked.
+ */
+export const evaluateStagedActionRules = (
+  preferences: TrustCompliancePreferences,
+  subject: StagedTrustSubject,
+  balanceCents: number | null,
+): StagedActionRuleEvaluation => {
+  const results: TrustRuleResult[] = [];
+  let approvals: number | null = null;
+  let blockedReason: string | null = null;
+  const transaction = subject.trustTransaction;
+
+  if (transaction && !isTrustDeposit(transaction.type)) {
+    const threshold = preferences.dualApprovalThresholdCents;
+    if (!preferences.dualApprovalEnabled) {
+      results.push({ rule: 'dual_approval', outcome: 'disabled', balanceCents, thresholdCents: threshold, detail: {} });
+    } else if (transaction.amountCents === null || transaction.amountCents > threshold) {
+      // A withdrawal we cannot size is treated as one over the threshold.
+      approvals = DUAL_APPROVAL_APPROVALS;
+      results.push({
+        rule: 'dual_approval',
+        outcome: 'triggered',
+        balanceCents,
+        thresholdCents: threshold,
+        detail: transaction.amountCents === null
+          ? { type: transaction.type, amountCents: null, reason: 'amount_unknown', approvalsRequired: approvals }
+          : { type: transaction.type, amountCents: transaction.amountCents, approvalsRequired: approvals },
+      });
+    } else {
+      results.push({
+        rule: 'dual_approval',
+        outcome: 'passed',
+        balanceCents,
+        thresholdCents: threshold,
+        detail: { type: transaction.type, amountCents: transaction.amountCents },
+      });
+    }
+  }
+
+  if (subject.matterId) {
+    const deposit = transaction !== null && isTrustDeposit(transaction.type);
+    if (!preferences.lockOnZeroEnabled) {
+      results.push({ rule: 'lock_on_zero', outcome: 'disabled', balanceCents, thresholdCents: 0, detail: {} });
+    } else if (balanceCents === null) {
+      results.push({ rule: 'lock_on_zero', outcome: 'passed', balanceCents, thresholdCents: 0, detail: { balanceKnown: false } });
+    } else if (balanceCents <= 0 && !deposit) {
+      blockedReason = 'This matter is locked because its trust balance is zero. Deposit funds before making other changes.';
+      results.push({ rule: 'lock_on_zero', outcome: 'blocked', balanceCents, thresholdCents: 0, detail: { locked: true } });
+    } else {
+      results.push({
+        rule: 'lock_on_zero',
+        outcome: 'passed',
+        balanceCents,
+        thresholdCents: 0,
+        detail: balanceCents <= 0 ? { locked: true, depositAllowed: true } : { locked: false },
+      });
+    }
+  }
+
+  return { results, approvals, blockedReason };
+};
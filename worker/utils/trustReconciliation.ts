@@ -0,0 +1,209 @@
+/**
+ * Bank-to-ledger matching and the monthly three-way reconciliation.
+ *
+ * Auto-matching pairs a bank line with a trust ledger transaction of the
+ * same signed amount. A shared reference (check number, FITID or ledger id
+ * appearing on the other side) lets the dates sit up to
+ * REFERENCE_MATCH_WINDOW_DAYS apart, since checks clear late; otherwise
+ * they must be within AUTO_MATCH_WINDOW_DAYS. Reference matches win, then
+ * the closest dates, and each line and transaction is used once.
+ *
+ * The reconciliation compares three figures at month end:
+ *
+ *   - bank: the closing balance of the statement ending in the month,
+ *     adjusted for ledger transactions the bank has not cleared yet
+ *     (deposits in transit, outstanding withdrawals);
+ *   - book: the trust ledger's running balance;
+ *   - client ledgers: the sum of every client's transactions.
+ *
+ * It balances when all three agree and no bank line is left unexplained.
+ * Pure functions only; TrustReconciliationService does the I/O.
+ */
+
+import type {
+  BankStatementLine,
+  ClientLedgerBalance,
+  ReconciliationTransaction,
+  TrustReconciliationReport,
+} from '../types/wire/trustReconciliation.js';
+
+export const AUTO_MATCH_WINDOW_DAYS = 5;
+export const REFERENCE_MATCH_WINDOW_DAYS = 45;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** A ledger transaction with the fields the book balance needs. */
+export interface ReconciliationLedgerEntry extends ReconciliationTransaction {
+  balanceAfterCents: number | null;
+}
+
+export type MatchableBankLine = Pick<BankStatementLine, 'id' | 'postedAt' | 'amountCents' | 'description' | 'reference'>;
+
+export interface BankLineMatch {
+  lineId: string;
+  transactionId: string;
+  referenceMatched: boolean;
+  dayGap: number;
+}
+
+const dayNumber = (value: string): number => Math.floor(Date.parse(`${value.slice(0, 10)}T00:00:00Z`) / DAY_MS);
+
+const normalizeReference = (value: string | null | undefined): string =>
+  (value ?? '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const CHECK_NUMBER_RE = /\b(?:check|chk|cheque|ck)\s*(?:no\.?|#)?\s*(\d{2,})/i;
+
+const checkNumber = (text: string | null | undefined): string | null => text?.match(CHECK_NUMBER_RE)?.[1] ?? null;
+
+/** True when the line and the transaction share a reference. */
+export const referencesMatch = (line: MatchableBankLine, transaction: ReconciliationTransaction): boolean => {
+  const lineRefs = [line.reference, checkNumber(line.description)]
+    .map(normalizeReference)
+    .filter((ref) => ref.length >= 3);
+  const transactionRefs = [transaction.id, checkNumber(transaction.description)]
+    .map(normalizeReference)
+    .filter((ref) => ref.length >= 3);
+  if (lineRefs.some((ref) => transactionRefs.includes(ref))) return true;
+
+  const transactionText = normalizeReference(transaction.description);
+  if (lineRefs.some((ref) => ref.length >= 4 && transactionText.includes(ref))) return true;
+  const transactionId = normalizeReference(transaction.id);
+  return transactionId.length >= 6 && normalizeReference(line.description).includes(transactionId);
+};
+
+/** Pairs unmatched lines with unclaimed transactions; see the module comment for the rules. */
+export const autoMatchBankLines = (
+  lines: readonly MatchableBankLine[],
+  transactions: readonly ReconciliationTransaction[],
+): BankLineMatch[] => {
+  const candidates: BankLineMatch[] = [];
+  for (const line of lines) {
+    for (const transaction of transactions) {
+      if (transaction.amountCents !== line.amountCents) continue;
+      const dayGap = Math.abs(dayNumber(line.postedAt) - dayNumber(transaction.occurredAt));
+      const referenceMatched = referencesMatch(line, transaction);
+      if (dayGap > (referenceMatched ? REFERENCE_MATCH_WINDOW_DAYS : AUTO_MATCH_WINDOW_DAYS)) continue;
+      candidates.push({ lineId: line.id, transactionId: transaction.id, referenceMatched, dayGap });
+    }
+  }
+  candidates.sort((a, b) =>
+    Number(b.referenceMatched) - Number(a.referenceMatched)
+    || a.dayGap - b.dayGap
+    || a.lineId.localeCompare(b.lineId)
+    || a.transactionId.localeCompare(b.transactionId));
+
+  const usedLines = new Set<string>();
+  const usedTransactions = new Set<string>();
+  const matches: BankLineMatch[] = [];
+  for (const candidate of candidates) {
+    if (usedLines.has(candidate.lineId) || usedTransactions.has(candidate.transactionId)) continue;
+    usedLines.add(candidate.lineId);
+    usedTransactions.add(candidate.transactionId);
+    matches.push(candidate);
+  }
+  return matches;
+};
+
+export const RECONCILIATION_MONTH_RE = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/** The calendar month before `now`, as YYYY-MM; what a CPA receives on the 1st. */
+export const previousMonth = (now: Date = new Date()): string => {
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+  return `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+/** First and last day of a YYYY-MM month. */
+export const monthBounds = (month: string): { periodStart: string; periodEnd: string } => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return { periodStart: `${month}-01`, periodEnd: `${month}-${String(lastDay).padStart(2, '0')}` };
+};
+
+export interface ThreeWayReconciliationInput {
+  month: string;
+  currency: string;
+  /** The statement closing in the month, if one was imported. */
+  statement: { id: string; closingBalanceCents: number } | null;
+  /**
+   * First day the bank side covers: the earliest imported statement's start.
+   * Ledger transactions before it can't be outstanding.
+   */
+  reconcileFrom: string;
+  /** Every ledger transaction in `currency` up to the month end. */
+  transactions: readonly ReconciliationLedgerEntry[];
+  /** Bank lines posted from `reconcileFrom` to the month end. */
+  lines: readonly BankStatementLine[];
+  generatedAt?: Date;
+}
+
+export const toReconciliationTransaction = (
+  { balanceAfterCents: _balance, ...transaction }: ReconciliationLedgerEntry,
+): ReconciliationTransaction => transaction;
+
+export const buildThreeWayReconciliation = (input: ThreeWayReconciliationInput): TrustReconciliationReport => {
+  const { periodStart, periodEnd } = monthBounds(input.month);
+  const inPeriod = (day: string) => day.slice(0, 10) <= periodEnd;
+  const transactions = input.transactions
+    .filter((transaction) => inPeriod(transaction.occurredAt))
+    .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+
+  // Book: the latest running balance, plus anything after it that lacks one.
+  let bookBalanceCents = 0;
+  for (const transaction of transactions) {
+    bookBalanceCents = transaction.balanceAfterCents ?? bookBalanceCents + transaction.amountCents;
+  }
+
+  const clients = new Map<string, ClientLedgerBalance>();
+  for (const transaction of transactions) {
+    const key = transaction.clientId ?? `name:${transaction.clientName ?? ''}`;
+    const entry = clients.get(key) ?? {
+      clientId: transaction.clientId,
+      clientName: transaction.clientName?.trim() || 'Unassigned',
+      balanceCents: 0,
+    };
+    entry.balanceCents += transaction.amountCents;
+    clients.set(key, entry);
+  }
+  const clientBalances = Array.from(clients.values())
+    .filter((entry) => entry.balanceCents !== 0)
+    .sort((a, b) => a.clientName.localeCompare(b.clientName));
+  const clientLedgerTotalCents = clientBalances.reduce((sum, entry) => sum + entry.balanceCents, 0);
+
+  const lines = input.lines.filter((line) => line.postedAt >= input.reconcileFrom && inPeriod(line.postedAt));
+  const cleared = new Set(lines.flatMap((line) => (line.matchedTransactionId ? [line.matchedTransactionId] : [])));
+  const outstanding = transactions.filter((transaction) =>
+    transaction.occurredAt.slice(0, 10) >= input.reconcileFrom && !cleared.has(transaction.id));
+  const depositsInTransitCents = outstanding
+    .filter((transaction) => transaction.amountCents > 0)
+    .reduce((sum, transaction) => sum + transaction.amountCents, 0);
+  const outstandingWithdrawalsCents = outstanding
+    .filter((transaction) => transaction.amountCents < 0)
+    .reduce((sum, transaction) => sum - transaction.amountCents, 0);
+  const unmatchedBankLines = lines.filter((line) => line.matchStatus === 'unmatched');
+
+  const bankBalanceCents = input.statement?.closingBalanceCents ?? null;
+  const adjustedBankBalanceCents = bankBalanceCents === null
+    ? null
+    : bankBalanceCents + depositsInTransitCents - outstandingWithdrawalsCents;
+
+  return {
+    month: input.month,
+    periodStart,
+    periodEnd,
+    currency: input.currency,
+    statementId: input.statement?.id ?? null,
+    bankBalanceCents,
+    depositsInTransitCents,
+    outstandingWithdrawalsCents,
+    adjustedBankBalanceCents,
+    bookBalanceCents,
+    clientLedgerTotalCents,
+    balanced: adjustedBankBalanceCents === bookBalanceCents
+      && bookBalanceCents === clientLedgerTotalCents
+      && unmatchedBankLines.length === 0,
+    outstandingTransactions: outstanding.map(toReconciliationTransaction),
+    unmatchedBankLines,
+    clientBalances,
+    generatedAt: (input.generatedAt ?? new Date()).toISOString(),
+  };
+};
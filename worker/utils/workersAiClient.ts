@@ -1,4 +1,11 @@
 import type { Env } from '../types.js';
+import {
+  estimateAiUsage,
+  extractAiUsage,
+  type AiModelDecision,
+  type AiTokenUsage,
+  type AiUsageMeter,
+} from './aiUsage.js';
 
 type Fetcher = typeof fetch;
 
@@ -9,18 +16,71 @@ type WorkersAiClientEnv = Pick<
 
 interface WorkersAiClientOptions {
   fetcher?: Fetcher;
+  /**
+   * Meters every request against a practice's AI budget (see
+   * AiUsageService.meter). Without one, calls are neither checked nor recorded.
+   */
+  meter?: AiUsageMeter;
 }
 
 interface WorkersAiClient {
   baseUrl: string;
   chatCompletionsUrl: string;
+  /**
+   * Sends a chat completion, on the budget's fallback model past the soft
+   * limit. Past the hard limit no request is made and a 429 carrying
+   * AI_BUDGET_HEADER is returned instead. Usage of non-streaming responses
+   * is recorded here; streaming callers call `recordUsage` once consumed.
+   */
   requestChatCompletions: (
     payload: Record<string, unknown>,
     signal?: AbortSignal,
     options?: { headers?: Record<string, string> }
   ) => Promise<Response>;
+  /**
+   * The model a request for `requested` will be sent to. Callers that shape
+   * the payload per provider resolve first, since the fallback may use a
+   * different API.
+   */
+  resolveModel: (requested: string) => Promise<AiModelDecision>;
+  /** Records a consumed stream; `usage` null when the stream carried none. */
+  recordUsage: (payload: Record<string, unknown>, result: { usage: AiTokenUsage | null; reply: string }) => Promise<void>;
 }
 
+/** Set on the 429 returned in place of a model call once the hard limit is reached. */
+export const AI_BUDGET_HEADER = 'x-ai-budget';
+
+export const AI_BUDGET_EXHAUSTED_MESSAGE = 'This practice has used its AI budget for the month. An admin can raise it in Settings.';
+
+export const isAiBudgetExhausted = (response: Response): boolean =>
+  response.status === 429 && response.headers.get(AI_BUDGET_HEADER) === 'exhausted';
+
+const budgetExhaustedResponse = (): Response => new Response(JSON.stringify({
+  error: {
+    type: 'ai_budget_exhausted',
+    message: AI_BUDGET_EXHAUSTED_MESSAGE,
+  },
+}), {
+  status: 429,
+  headers: { 'Content-Type': 'application/json', [AI_BUDGET_HEADER]: 'exhausted' },
+});
+
+const usesAnthropicApi = (model: string): boolean => model.startsWith('claude-');
+
+const replyText = (body: unknown): string => {
+  if (typeof body !== 'object' || body === null) return '';
+  const record = body as {
+    choices?: Array<{ message?: { content?: unknown } }>;
+    content?: Array<{ type?: unknown; text?: unknown }>;
+  };
+  const content = record.choices?.[0]?.message?.content;
+  if (typeof content === 'string') return content;
+  if (Array.isArray(record.content)) {
+    return record.content.map((block) => (typeof block.text === 'string' ? block.text : '')).join('');
+  }
+  return '';
+};
+
 const getMissingEnvVars = (entries: Array<[string, string | undefined]>): string[] =>
   entries.filter(([, value]) => !value).map(([key]) => key);
 
@@ -48,54 +108,102 @@ export const createWorkersAiClient = (env: WorkersAiClientEnv, options: WorkersA
 
   const baseUrl = getWorkersAiBaseUrl(env);
   const chatCompletionsUrl = `${baseUrl}/chat/completions`;
+  const { meter } = options;
+
+  const resolveModel = async (requested: string): Promise<AiModelDecision> =>
+    meter ? meter.resolveModel(requested) : { model: requested, status: 'ok', fallback: false };
+
+  // For a payload already shaped for `requested`'s API, which can't be sent
+  // to a fallback on the other one.
+  const resolvePayloadModel = async (requested: string): Promise<AiModelDecision> => {
+    const decision = await resolveModel(requested);
+    if (decision.fallback && usesAnthropicApi(decision.model) !== usesAnthropicApi(requested)) {
+      return { model: requested, status: decision.status, fallback: false };
+    }
+    return decision;
+  };
 
-  return {
-    baseUrl,
-    chatCompletionsUrl,
-    requestChatCompletions: async (
-      payload: Record<string, unknown>,
-      signal?: AbortSignal,
-      requestOptions?: { headers?: Record<string, string> }
-    ) => {
-      const model = typeof payload.model === 'string' ? payload.model : '';
-
-      if (model.startsWith('claude-')) {
-        return fetcher(getGatewayUrl(env, 'anthropic', '/v1/messages'), {
-          method: 'POST',
-          headers: {
-            ...(requestOptions?.headers ?? {}),
-            'Content-Type': 'application/json',
-            'cf-aig-authorization': `Bearer ${env.CF_AIG_TOKEN}`,
-            'anthropic-version': '2023-06-01',
-          },
-          body: JSON.stringify(payload),
-          signal,
-        });
-      }
-
-      if (!model.startsWith('@cf/')) {
-        return fetcher(getGatewayUrl(env, 'openai', '/chat/completions'), {
-          method: 'POST',
-          headers: {
-            ...(requestOptions?.headers ?? {}),
-            'Content-Type': 'application/json',
-            'cf-aig-authorization': `Bearer ${env.CF_AIG_TOKEN}`,
-          },
-          body: JSON.stringify(payload),
-          signal,
-        });
-      }
+  const send = async (
+    payload: Record<string, unknown>,
+    signal?: AbortSignal,
+    requestOptions?: { headers?: Record<string, string> }
+  ): Promise<Response> => {
+    const model = typeof payload.model === 'string' ? payload.model : '';
 
-      return fetcher(chatCompletionsUrl, {
+    if (model.startsWith('claude-')) {
+      return fetcher(getGatewayUrl(env, 'anthropic', '/v1/messages'), {
         method: 'POST',
         headers: {
           ...(requestOptions?.headers ?? {}),
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${env.CF_AIG_TOKEN}`,
+          'cf-aig-authorization': `Bearer ${env.CF_AIG_TOKEN}`,
+          'anthropic-version': '2023-06-01',
         },
         body: JSON.stringify(payload),
         signal,
       });
+    }
+
+    if (!model.startsWith('@cf/')) {
+      // OpenAI only reports usage on streams when asked to.
+      const body = payload.stream === true && meter && payload.stream_options === undefined
+        ? { ...payload, stream_options: { include_usage: true } }
+        : payload;
+      return fetcher(getGatewayUrl(env, 'openai', '/chat/completions'), {
+        method: 'POST',
+        headers: {
+          ...(requestOptions?.headers ?? {}),
+          'Content-Type': 'application/json',
+          'cf-aig-authorization': `Bearer ${env.CF_AIG_TOKEN}`,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+    }
+
+    return fetcher(chatCompletionsUrl, {
+      method: 'POST',
+      headers: {
+        ...(requestOptions?.headers ?? {}),
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${env.CF_AIG_TOKEN}`,
+      },
+      body: JSON.stringify(payload),
+      signal,
+    });
+  };
+
+  const recordUsage = async (
+    payload: Record<string, unknown>,
+    result: { usage: AiTokenUsage | null; reply: string }
+  ): Promise<void> => {
+    if (!meter) return;
+    const decision = await resolvePayloadModel(typeof payload.model === 'string' ? payload.model : '');
+    await meter.record(
+      decision,
+      result.usage ?? estimateAiUsage(payload, result.reply),
+      result.usage === null,
+    );
+  };
+
+  return {
+    baseUrl,
+    chatCompletionsUrl,
+    resolveModel,
+    recordUsage,
+    requestChatCompletions: async (payload, signal, requestOptions) => {
+      const requested = typeof payload.model === 'string' ? payload.model : '';
+      const decision = await resolvePayloadModel(requested);
+      if (decision.status === 'hard_limit') return budgetExhaustedResponse();
+
+      const body = decision.model === requested ? payload : { ...payload, model: decision.model };
+      const response = await send(body, signal, requestOptions);
+      if (meter && response.ok && body.stream !== true) {
+        const json = await response.clone().json().catch(() => null) as unknown;
+        const usage = extractAiUsage(json);
+        await meter.record(decision, usage ?? estimateAiUsage(body, replyText(json)), usage === null);
+      }
+      return response;
     },
   };
 };
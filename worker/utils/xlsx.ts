@@ -0,0 +1,206 @@
+/**
+ * Minimal single-sheet XLSX writer for report exports.
+ *
+ * Emits the smallest valid OOXML package (content types, workbook, styles,
+ * one worksheet) zipped with fflate. Strings are written inline so there is
+ * no shared-strings table. Currency and number columns become numeric cells,
+ * date columns become Excel serial dates, and columns flagged `total` get a
+ * SUM formula in a bold totals row (with the computed value cached so
+ * viewers that don't recalculate still show it). With `subtotalBy` the
+ * single totals row is replaced by one SUMIF row per group value.
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import { columnTotals, groupedColumnTotals, resolveCell, type CsvColumn, type ReportCell } from './csv.js';
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface XlsxOptions {
+  /** Worksheet tab name. Sanitized and truncated to Excel's 31-character limit. */
+  sheetName?: string;
+  /** Label written in the first column of the totals row. */
+  totalsLabel?: string;
+  /** Column key to subtotal by (e.g. 'currency') instead of one grand total. */
+  subtotalBy?: string;
+}
+
+// cellXfs indexes in STYLES_XML.
+const STYLE = {
+  default: 0,
+  header: 1,
+  currency: 2,
+  date: 3,
+  totalLabel: 4,
+  totalCurrency: 5,
+  totalNumber: 6,
+} as const;
+
+const DATE_NUM_FMT_ID = 164;
+const EXCEL_EPOCH_OFFSET_DAYS = 25569; // 1970-01-01 as an Excel serial
+const MS_PER_DAY = 86_400_000;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="${DATE_NUM_FMT_ID}" formatCode="yyyy-mm-dd"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFF3F4F6"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border><border><left/><right/><top style="thin"><color auto="1"/></top><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="7">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="${DATE_NUM_FMT_ID}" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="1" xfId="0" applyFont="1" applyBorder="1"/>
+<xf numFmtId="4" fontId="1" fillId="0" borderId="1" xfId="0" applyNumberFormat="1" applyFont="1" applyBorder="1"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="1" xfId="0" applyFont="1" applyBorder="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// XML 1.0 forbids most C0 control characters even when escaped.
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/** 0 → A, 25 → Z, 26 → AA. */
+export const columnLetter = (index: number): string => {
+  let n = index + 1;
+  let out = '';
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    out = String.fromCharCode(65 + rem) + out;
+    n = Math.floor((n - 1) / 26);
+  }
+  return out;
+};
+
+const toExcelSerial = (date: Date): number => date.getTime() / MS_PER_DAY + EXCEL_EPOCH_OFFSET_DAYS;
+
+const sanitizeSheetName = (name: string | undefined): string => {
+  const cleaned = (name ?? '').replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31);
+  return cleaned || 'Report';
+};
+
+const inlineStringCell = (ref: string, text: string, style: number): string =>
+  `<c r="${ref}" t="inlineStr"${style ? ` s="${style}"` : ''}><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+
+const renderCell = (ref: string, cell: ReportCell): string => {
+  switch (cell.kind) {
+    case 'empty':
+      return '';
+    case 'text':
+      return inlineStringCell(ref, cell.text, STYLE.default);
+    case 'number':
+      return cell.type === 'currency'
+        ? `<c r="${ref}" s="${STYLE.currency}"><v>${cell.value}</v></c>`
+        : `<c r="${ref}"><v>${cell.value}</v></c>`;
+    case 'date':
+      return `<c r="${ref}" s="${STYLE.date}"><v>${toExcelSerial(cell.date)}</v></c>`;
+  }
+};
+
+const columnWidth = (header: string, type: CsvColumn<Record<string, unknown>>['type']): number => {
+  const base = type === 'date' ? 12 : type === 'currency' || type === 'number' ? 14 : 24;
+  return Math.min(60, Math.max(base, header.length + 2));
+};
+
+export const toXlsx = <TRow extends Record<string, unknown>>(
+  rows: TRow[],
+  columns: CsvColumn<TRow>[],
+  options: XlsxOptions = {}
+): Uint8Array => {
+  const sheetRows: string[] = [];
+  const headerCells = columns.map((col, i) => inlineStringCell(`${columnLetter(i)}1`, col.header, STYLE.header));
+  sheetRows.push(`<row r="1">${headerCells.join('')}</row>`);
+
+  rows.forEach((row, rowIndex) => {
+    const r = rowIndex + 2;
+    const cells = columns.map((col, i) => renderCell(`${columnLetter(i)}${r}`, resolveCell(row, col)));
+    sheetRows.push(`<row r="${r}">${cells.join('')}</row>`);
+  });
+
+  if (rows.length > 0) {
+    const lastDataRow = rows.length + 1;
+    const label = options.totalsLabel ?? 'Total';
+    const groupIndex = options.subtotalBy ? columns.findIndex((col) => col.key === options.subtotalBy) : -1;
+    const totalRows = options.subtotalBy
+      ? groupedColumnTotals(rows, columns, options.subtotalBy).map(({ group, totals }) => ({
+        label: `${label} ${group}`.trim(),
+        totals,
+        formula: (letter: string) => groupIndex === -1
+          ? null
+          : `SUMIF(${columnLetter(groupIndex)}2:${columnLetter(groupIndex)}${lastDataRow},"${escapeXml(group)}",${letter}2:${letter}${lastDataRow})`,
+      }))
+      : [{ label, totals: columnTotals(rows, columns), formula: (letter: string) => `SUM(${letter}2:${letter}${lastDataRow})` }];
+
+    for (const totalRow of totalRows) {
+      if (!totalRow.totals.some((total) => total !== null)) continue;
+      const r = sheetRows.length + 1;
+      const cells = columns.map((col, i) => {
+        const letter = columnLetter(i);
+        const total = totalRow.totals[i];
+        if (total === null) {
+          return i === 0 ? inlineStringCell(`${letter}${r}`, totalRow.label, STYLE.totalLabel) : '';
+        }
+        const style = col.type === 'currency' ? STYLE.totalCurrency : STYLE.totalNumber;
+        const formula = totalRow.formula(letter);
+        return `<c r="${letter}${r}" s="${style}">${formula ? `<f>${formula}</f>` : ''}<v>${total}</v></c>`;
+      });
+      sheetRows.push(`<row r="${r}">${cells.join('')}</row>`);
+    }
+  }
+
+  const cols = columns
+    .map((col, i) => `<col min="${i + 1}" max="${i + 1}" width="${columnWidth(col.header, col.type)}" customWidth="1"/>`)
+    .join('');
+
+  const sheetXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<sheetFormatPr defaultRowHeight="15"/>
+${cols ? `<cols>${cols}</cols>` : ''}
+<sheetData>${sheetRows.join('')}</sheetData>
+</worksheet>`;
+
+  const workbookXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${escapeXml(sanitizeSheetName(options.sheetName))}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES_XML),
+    '_rels/.rels': strToU8(ROOT_RELS_XML),
+    'xl/workbook.xml': strToU8(workbookXml),
+    'xl/_rels/workbook.xml.rels': strToU8(WORKBOOK_RELS_XML),
+    'xl/styles.xml': strToU8(STYLES_XML),
+    'xl/worksheets/sheet1.xml': strToU8(sheetXml),
+  });
+};